@@ -0,0 +1,11 @@
+import { Badge } from "@shopify/polaris";
+import {
+  getReturnStatusLabel,
+  isReturnStatus,
+  returnStatusTones,
+} from "../utils/return-status";
+
+export function ReturnStatusBadge({ status }: { status: string }) {
+  const tone = isReturnStatus(status) ? returnStatusTones[status] : "info";
+  return <Badge tone={tone}>{getReturnStatusLabel(status)}</Badge>;
+}
@@ -6,3 +6,4 @@ export {
   LoadingPage,
   LoadingSettings,
 } from "./LoadingState";
+export { ReturnStatusBadge } from "./ReturnStatusBadge";
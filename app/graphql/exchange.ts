@@ -118,6 +118,21 @@ export const GET_PRODUCT_BY_ID = `#graphql
   }
 `;
 
+export const GET_EXCHANGE_VARIANTS = `#graphql
+  query getExchangeVariants($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        title
+        price
+        product {
+          title
+        }
+      }
+    }
+  }
+`;
+
 export const DRAFT_ORDER_CREATE = `#graphql
   mutation draftOrderCreate($input: DraftOrderInput!) {
     draftOrderCreate(input: $input) {
@@ -191,6 +206,55 @@ export const DRAFT_ORDER_COMPLETE = `#graphql
   }
 `;
 
+export const DRAFT_ORDER_INVOICE_SEND = `#graphql
+  mutation draftOrderInvoiceSend($id: ID!) {
+    draftOrderInvoiceSend(id: $id) {
+      draftOrder {
+        id
+        invoiceUrl
+        invoiceSentAt
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export const DRAFT_ORDER_DELETE = `#graphql
+  mutation draftOrderDelete($input: DraftOrderDeleteInput!) {
+    draftOrderDelete(input: $input) {
+      deletedId
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export const ORDER_CANCEL = `#graphql
+  mutation orderCancel($orderId: ID!, $reason: OrderCancelReason!, $staffNote: String) {
+    orderCancel(
+      orderId: $orderId
+      reason: $reason
+      refund: false
+      restock: true
+      notifyCustomer: false
+      staffNote: $staffNote
+    ) {
+      job {
+        id
+      }
+      orderCancelUserErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
 export const DRAFT_ORDER_CALCULATE = `#graphql
   mutation draftOrderCalculate($input: DraftOrderInput!) {
     draftOrderCalculate(input: $input) {
@@ -219,6 +283,19 @@ export const DRAFT_ORDER_CALCULATE = `#graphql
             currencyCode
           }
         }
+        lineItems {
+          title
+          variantTitle
+          quantity
+          variant {
+            id
+          }
+          originalUnitPriceSet {
+            shopMoney {
+              amount
+            }
+          }
+        }
         availableShippingRates {
           handle
           title
@@ -361,3 +438,14 @@ export const METAFIELD_SET = `#graphql
     }
   }
 `;
+
+export const GET_ORDER_RETURN_LINK = `#graphql
+  query getOrderReturnLink($id: ID!) {
+    order(id: $id) {
+      id
+      metafield(namespace: "returns_hub", key: "return_request_id") {
+        value
+      }
+    }
+  }
+`;
@@ -0,0 +1,81 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import db from "../db.server";
+import { getDropOffInfo } from "../services/dropoff.server";
+import {
+  customerIpRateLimit,
+  customerOrderRateLimit,
+  getClientIp,
+  rateLimitedResponse,
+  unauthorizedResponse,
+  verifyAppProxyRequest,
+} from "../services/app-proxy.server";
+import { checkRateLimits } from "../services/rate-limit.server";
+
+// Where the customer can hand in their return parcel, with the label and its
+// printerless QR code, for the portal to show once a label has been issued.
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  // The shop comes from the signed app proxy query string, never the body.
+  const proxy = verifyAppProxyRequest(request);
+  if (!proxy.valid) {
+    return unauthorizedResponse(proxy);
+  }
+  const { shop } = proxy;
+
+  try {
+    const ipLimit = await checkRateLimits([
+      customerIpRateLimit("dropoff", shop, getClientIp(request)),
+    ]);
+    if (!ipLimit.allowed) {
+      return rateLimitedResponse(ipLimit);
+    }
+
+    const { returnId, email } = await request.json();
+
+    if (!returnId || !email) {
+      return json({ error: "Return ID and email are required" }, { status: 400 });
+    }
+
+    const returnLimit = await checkRateLimits([
+      customerOrderRateLimit("dropoff", shop, returnId),
+    ]);
+    if (!returnLimit.allowed) {
+      return rateLimitedResponse(returnLimit);
+    }
+
+    const returnRequest = await db.returnRequest.findFirst({
+      where: { id: returnId, shop },
+      select: { id: true, customerEmail: true },
+    });
+
+    // Same answer for an unknown return and a wrong email, so return IDs
+    // can't be probed.
+    if (
+      !returnRequest ||
+      returnRequest.customerEmail.toLowerCase() !== String(email).toLowerCase().trim()
+    ) {
+      return json({ error: "Return not found" }, { status: 404 });
+    }
+
+    const dropOff = await getDropOffInfo(returnRequest.id);
+
+    if (!dropOff.carrier) {
+      return json(
+        { error: "Your shipping label isn't ready yet. We'll email it to you once it is." },
+        { status: 404 }
+      );
+    }
+
+    return json(dropOff);
+  } catch (error) {
+    console.error("Drop-off lookup error:", error);
+    return json(
+      { error: "An error occurred while looking up drop-off locations." },
+      { status: 500 }
+    );
+  }
+}
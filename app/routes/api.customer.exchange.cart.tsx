@@ -0,0 +1,127 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { unauthenticated } from "../shopify.server";
+import { findCustomerReturn } from "../services/returns.server";
+import { getExchangeSettings, quoteExchangeCart } from "../services/exchange.server";
+import {
+  canShopForExchange,
+  parseStorefrontCart,
+  requestShopNowExchange,
+} from "../services/resolution.server";
+import {
+  customerIpRateLimit,
+  customerOrderRateLimit,
+  getClientIp,
+  rateLimitedResponse,
+  unauthorizedResponse,
+  verifyAppProxyRequest,
+} from "../services/app-proxy.server";
+import { checkRateLimits } from "../services/rate-limit.server";
+
+// Prices the customer's exchange cart ("quote") or confirms it ("create").
+// A confirmed cart replaces the return's refund; its exchange order is
+// created once the return is approved.
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  // The shop comes from the signed app proxy query string, never the body.
+  const proxy = verifyAppProxyRequest(request);
+  if (!proxy.valid) {
+    return unauthorizedResponse(proxy);
+  }
+  const { shop } = proxy;
+
+  try {
+    const ipLimit = await checkRateLimits([
+      customerIpRateLimit("exchange", shop, getClientIp(request)),
+    ]);
+    if (!ipLimit.allowed) {
+      return rateLimitedResponse(ipLimit);
+    }
+
+    const body = await request.json();
+    const { returnId, email, intent } = body;
+
+    if (!returnId || !email) {
+      return json({ error: "Return ID and email are required" }, { status: 400 });
+    }
+
+    if (intent !== "quote" && intent !== "create") {
+      return json({ error: "Unknown action" }, { status: 400 });
+    }
+
+    const cart = parseStorefrontCart(body.cart);
+    if (!cart) {
+      return json({ error: "Your exchange cart is empty or invalid." }, { status: 400 });
+    }
+
+    const returnLimit = await checkRateLimits([
+      customerOrderRateLimit("exchange", shop, returnId),
+    ]);
+    if (!returnLimit.allowed) {
+      return rateLimitedResponse(returnLimit);
+    }
+
+    const returnRequest = await findCustomerReturn(shop, returnId, email);
+    if (!returnRequest) {
+      return json({ error: "Return not found" }, { status: 404 });
+    }
+
+    const settings = await getExchangeSettings(shop);
+    if (
+      !settings.exchangeEnabled ||
+      !settings.shopNowExchangeEnabled ||
+      !canShopForExchange(returnRequest)
+    ) {
+      return json(
+        { error: "This return can no longer be exchanged.", code: "exchange_unavailable" },
+        { status: 403 }
+      );
+    }
+
+    const { admin } = await unauthenticated.admin(shop);
+
+    if (intent === "quote") {
+      try {
+        return json({ quote: await quoteExchangeCart(admin, returnRequest, cart) });
+      } catch (error) {
+        return json(
+          { error: error instanceof Error ? error.message : "Could not price your cart." },
+          { status: 400 }
+        );
+      }
+    }
+
+    try {
+      const { quote, outcome } = await requestShopNowExchange(admin, returnRequest, cart);
+      const draftOrder = outcome?.exchange?.draftOrder;
+
+      return json({
+        success: true,
+        quote,
+        // Set once the exchange order exists; pending returns get it on approval.
+        exchangeOrder: draftOrder
+          ? { name: draftOrder.name, invoiceUrl: quote.customerOwes ? draftOrder.invoiceUrl : null }
+          : null,
+        message: draftOrder
+          ? "Your exchange has been placed."
+          : outcome?.status === "failed"
+            ? "Your exchange is saved, but we couldn't place it yet. The store will follow up."
+            : "Your exchange will be placed as soon as your return is approved.",
+      });
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : "Could not place your exchange." },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error("Exchange cart error:", error);
+    return json(
+      { error: "An error occurred while updating your exchange." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { unauthenticated } from "../shopify.server";
+import { findCustomerReturn } from "../services/returns.server";
+import {
+  fetchCollections,
+  fetchExchangeCatalog,
+  getExchangeSettings,
+} from "../services/exchange.server";
+import { canShopForExchange } from "../services/resolution.server";
+import {
+  customerIpRateLimit,
+  customerOrderRateLimit,
+  getClientIp,
+  rateLimitedResponse,
+  unauthorizedResponse,
+  verifyAppProxyRequest,
+} from "../services/app-proxy.server";
+import { checkRateLimits } from "../services/rate-limit.server";
+
+// A page of the catalog for a customer exchanging a return for something
+// else, with the credit the return is worth. The first page also lists the
+// collections to browse by.
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  // The shop comes from the signed app proxy query string, never the body.
+  const proxy = verifyAppProxyRequest(request);
+  if (!proxy.valid) {
+    return unauthorizedResponse(proxy);
+  }
+  const { shop } = proxy;
+
+  try {
+    const ipLimit = await checkRateLimits([
+      customerIpRateLimit("exchange", shop, getClientIp(request)),
+    ]);
+    if (!ipLimit.allowed) {
+      return rateLimitedResponse(ipLimit);
+    }
+
+    const { returnId, email, search, collectionId, cursor } = await request.json();
+
+    if (!returnId || !email) {
+      return json({ error: "Return ID and email are required" }, { status: 400 });
+    }
+
+    const returnLimit = await checkRateLimits([
+      customerOrderRateLimit("exchange", shop, returnId),
+    ]);
+    if (!returnLimit.allowed) {
+      return rateLimitedResponse(returnLimit);
+    }
+
+    const returnRequest = await findCustomerReturn(shop, returnId, email);
+    if (!returnRequest) {
+      return json({ error: "Return not found" }, { status: 404 });
+    }
+
+    const settings = await getExchangeSettings(shop);
+    if (!settings.exchangeEnabled || !settings.shopNowExchangeEnabled) {
+      return json(
+        { error: "This store doesn't offer exchanges online.", code: "exchange_unavailable" },
+        { status: 403 }
+      );
+    }
+    if (!canShopForExchange(returnRequest)) {
+      return json(
+        { error: "This return can no longer be exchanged.", code: "exchange_unavailable" },
+        { status: 403 }
+      );
+    }
+
+    const { admin } = await unauthenticated.admin(shop);
+    const [catalog, collections] = await Promise.all([
+      fetchExchangeCatalog(admin, {
+        search: typeof search === "string" ? search : undefined,
+        collectionId: typeof collectionId === "string" ? collectionId : undefined,
+        after: typeof cursor === "string" ? cursor : undefined,
+      }),
+      cursor ? null : fetchCollections(admin),
+    ]);
+
+    return json({
+      credit: returnRequest.totalRefundAmount,
+      ...catalog,
+      collections:
+        collections?.data?.collections?.edges?.map(
+          (edge: { node: { id: string; title: string } }) => ({
+            id: edge.node.id,
+            title: edge.node.title,
+          })
+        ) ?? null,
+    });
+  } catch (error) {
+    console.error("Exchange catalog error:", error);
+    return json(
+      { error: "An error occurred while loading products." },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,25 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { unauthenticated } from "../shopify.server";
-import { getShopSettings } from "../services/returns.server";
+import {
+  getRemainingQuantity,
+  getReturnedQuantities,
+  getShopSettings,
+} from "../services/returns.server";
+import { checkReturnEligibility } from "../services/eligibility.server";
+import { findFeeExemptTag } from "../services/fees.server";
+import { getExchangeSettings } from "../services/exchange.server";
+import { availableResolutions } from "../services/resolution.server";
+import { collectLineItemFulfillments } from "../services/return-window.server";
+import {
+  customerIpRateLimit,
+  customerOrderRateLimit,
+  getClientIp,
+  rateLimitedResponse,
+  unauthorizedResponse,
+  verifyAppProxyRequest,
+} from "../services/app-proxy.server";
+import { checkRateLimits } from "../services/rate-limit.server";
 
 const GET_ORDER_BY_NAME = `#graphql
   query GetOrderByName($query: String!) {
@@ -13,10 +31,13 @@ const GET_ORDER_BY_NAME = `#graphql
         createdAt
         displayFinancialStatus
         displayFulfillmentStatus
+        discountCodes
         customer {
+          id
           firstName
           lastName
           email
+          tags
         }
         lineItems(first: 50) {
           nodes {
@@ -38,12 +59,28 @@ const GET_ORDER_BY_NAME = `#graphql
               sku
               product {
                 id
+                tags
+                productType
+                collections(first: 25) {
+                  nodes {
+                    handle
+                  }
+                }
+                variants(first: 25) {
+                  nodes {
+                    id
+                    title
+                    price
+                    availableForSale
+                  }
+                }
               }
             }
           }
         }
         fulfillments(first: 10) {
           createdAt
+          deliveredAt
           status
           fulfillmentLineItems(first: 50) {
             nodes {
@@ -60,18 +97,54 @@ const GET_ORDER_BY_NAME = `#graphql
   }
 `;
 
+interface OrderLineItem {
+  id: string;
+  title: string;
+  variantTitle: string | null;
+  quantity: number;
+  originalUnitPriceSet: { shopMoney: { amount: string } };
+  image: { url: string } | null;
+  variant: {
+    id: string;
+    sku: string | null;
+    product: {
+      id: string;
+      tags: string[];
+      productType: string | null;
+      collections: { nodes: Array<{ handle: string }> };
+      variants?: {
+        nodes: Array<{ id: string; title: string; price: string; availableForSale: boolean }>;
+      };
+    };
+  } | null;
+}
+
 export async function action({ request }: ActionFunctionArgs) {
   if (request.method !== "POST") {
     return json({ error: "Method not allowed" }, { status: 405 });
   }
 
+  // The shop comes from the signed app proxy query string, never the body.
+  const proxy = verifyAppProxyRequest(request);
+  if (!proxy.valid) {
+    return unauthorizedResponse(proxy);
+  }
+  const { shop } = proxy;
+
   try {
+    const ipLimit = await checkRateLimits([
+      customerIpRateLimit("lookup", shop, getClientIp(request)),
+    ]);
+    if (!ipLimit.allowed) {
+      return rateLimitedResponse(ipLimit);
+    }
+
     const body = await request.json();
-    const { orderNumber, email, shop } = body;
+    const { orderNumber, email } = body;
 
-    if (!orderNumber || !email || !shop) {
+    if (!orderNumber || !email) {
       return json(
-        { error: "Order number, email, and shop are required" },
+        { error: "Order number and email are required" },
         { status: 400 }
       );
     }
@@ -79,6 +152,13 @@ export async function action({ request }: ActionFunctionArgs) {
     const normalizedOrderNumber = orderNumber.replace(/^#/, "").trim();
     const normalizedEmail = email.toLowerCase().trim();
 
+    const orderLimit = await checkRateLimits([
+      customerOrderRateLimit("lookup", shop, normalizedOrderNumber),
+    ]);
+    if (!orderLimit.allowed) {
+      return rateLimitedResponse(orderLimit);
+    }
+
     const { admin } = await unauthenticated.admin(shop);
     const settings = await getShopSettings(shop);
 
@@ -105,52 +185,77 @@ export async function action({ request }: ActionFunctionArgs) {
       );
     }
 
-    const latestFulfillment = order.fulfillments?.[0];
-    if (latestFulfillment) {
-      const fulfillmentDate = new Date(latestFulfillment.createdAt);
-      const daysSinceFulfillment = Math.floor(
-        (Date.now() - fulfillmentDate.getTime()) / (1000 * 60 * 60 * 24)
-      );
+    const fulfillments = collectLineItemFulfillments(order.fulfillments);
 
-      if (daysSinceFulfillment > settings.returnWindowDays) {
-        return json(
-          {
-            error: `This order is outside the ${settings.returnWindowDays}-day return window.`,
-          },
-          { status: 400 }
-        );
-      }
+    const fulfilledItems: OrderLineItem[] = order.lineItems.nodes.filter(
+      (item: { id: string }) => fulfillments.has(item.id)
+    );
+
+    const eligibility = await checkReturnEligibility(
+      shop,
+      {
+        email: order.email ?? normalizedEmail,
+        customerId: order.customer?.id,
+        createdAt: order.createdAt,
+        discountCodes: order.discountCodes ?? [],
+        lineItems: fulfilledItems.map((item) => ({
+          id: item.id,
+          title: item.title,
+          productTags: item.variant?.product?.tags ?? [],
+          productType: item.variant?.product?.productType,
+          collections: item.variant?.product?.collections?.nodes.map((c) => c.handle) ?? [],
+          fulfilledAt: fulfillments.get(item.id)?.fulfilledAt,
+          deliveredAt: fulfillments.get(item.id)?.deliveredAt,
+        })),
+      },
+      settings
+    );
+
+    if (!eligibility.eligible) {
+      return json(
+        { error: eligibility.reason, code: eligibility.code },
+        { status: 403 }
+      );
     }
 
-    const fulfilledLineItemIds = new Set<string>();
-    order.fulfillments?.forEach((fulfillment: { fulfillmentLineItems: { nodes: Array<{ lineItem: { id: string } }> } }) => {
-      fulfillment.fulfillmentLineItems?.nodes?.forEach((fli: { lineItem: { id: string } }) => {
-        fulfilledLineItemIds.add(fli.lineItem.id);
-      });
-    });
+    const returnedQuantities = await getReturnedQuantities(shop, order.id);
 
-    const lineItems = order.lineItems.nodes
-      .filter((item: { id: string }) => fulfilledLineItemIds.has(item.id))
-      .map((item: {
-        id: string;
-        title: string;
-        variantTitle: string | null;
-        quantity: number;
-        originalUnitPriceSet: { shopMoney: { amount: string } };
-        image: { url: string } | null;
-        variant: { id: string; sku: string | null; product: { id: string } } | null;
-      }) => ({
+    const lineItems = fulfilledItems.map((item) => {
+      const remainingQuantity = getRemainingQuantity(
+        fulfillments.get(item.id)?.quantity ?? 0,
+        returnedQuantities,
+        item.id
+      );
+      const ineligibleReason =
+        eligibility.ineligibleItems.find((i) => i.lineItemId === item.id)?.reason ?? null;
+      const deadline = eligibility.windows.find((w) => w.lineItemId === item.id)?.deadline;
+
+      return {
         id: item.id,
         title: item.title,
         variantTitle: item.variantTitle,
-        quantity: item.quantity,
+        quantity: remainingQuantity,
+        orderedQuantity: item.quantity,
+        returnedQuantity: returnedQuantities.get(item.id) ?? 0,
         price: parseFloat(item.originalUnitPriceSet.shopMoney.amount),
         image: item.image?.url,
         variantId: item.variant?.id,
         productId: item.variant?.product?.id,
         sku: item.variant?.sku,
-        alreadyReturned: false,
-      }));
+        alreadyReturned: remainingQuantity === 0,
+        eligible: ineligibleReason === null && remainingQuantity > 0,
+        ineligibleReason,
+        returnDeadline: deadline?.toISOString() ?? null,
+        // Other variants of the product the customer can exchange for
+        exchangeVariants: (item.variant?.product?.variants?.nodes ?? [])
+          .filter((variant) => variant.availableForSale && variant.id !== item.variant?.id)
+          .map((variant) => ({
+            id: variant.id,
+            title: variant.title,
+            price: parseFloat(variant.price),
+          })),
+      };
+    });
 
     if (lineItems.length === 0) {
       return json(
@@ -159,10 +264,21 @@ export async function action({ request }: ActionFunctionArgs) {
       );
     }
 
+    if (lineItems.every((item) => item.alreadyReturned)) {
+      return json(
+        { error: "All items in this order have already been returned." },
+        { status: 400 }
+      );
+    }
+
     const customerName = order.customer
       ? `${order.customer.firstName || ""} ${order.customer.lastName || ""}`.trim()
       : "Customer";
 
+    // Lets the portal estimate the refund as items and reasons are chosen.
+    const exempt = findFeeExemptTag(settings, order.customer?.tags ?? []) !== null;
+    const exchangeSettings = await getExchangeSettings(shop);
+
     return json({
       order: {
         id: order.id,
@@ -173,6 +289,18 @@ export async function action({ request }: ActionFunctionArgs) {
         lineItems,
         returnWindowDays: settings.returnWindowDays,
       },
+      fees: {
+        restockingFeePercent: exempt ? 0 : settings.restockingFeePercent,
+        returnShippingFee: exempt ? 0 : settings.returnShippingFee,
+        waivedReasons: settings.feeWaivedReasons,
+        exempt,
+      },
+      resolutions: {
+        options: availableResolutions(exchangeSettings),
+        storeCreditBonusPercent: exchangeSettings.storeCreditEnabled
+          ? exchangeSettings.storeCreditBonusPercent
+          : 0,
+      },
     });
   } catch (error) {
     console.error("Order lookup error:", error);
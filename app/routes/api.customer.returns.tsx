@@ -1,27 +1,84 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
-import { createReturnRequest, getShopSettings } from "../services/returns.server";
+import { unauthenticated } from "../shopify.server";
+import {
+  createReturnRequest,
+  findQuantityViolations,
+  getReturnedQuantities,
+  getShopSettings,
+} from "../services/returns.server";
+import { fetchCustomerOrderCount } from "../services/risk.server";
+import {
+  checkReturnEligibility,
+  fetchOrderEligibility,
+  type EligibilityOrder,
+} from "../services/eligibility.server";
+import { sendReturnlessRefund } from "../services/notifications.server";
+import {
+  calculateStoreCreditValue,
+  fetchExchangeVariants,
+  getExchangeSettings,
+  type ExchangeCartItem,
+  type ExchangeVariant,
+} from "../services/exchange.server";
+import {
+  applyRequestedResolution,
+  availableResolutions,
+  canShopForExchange,
+  isResolutionType,
+} from "../services/resolution.server";
+import { reserveExchangeInventory } from "../services/reservation.server";
+import { routeReturnFromOrder } from "../services/routing.server";
+import {
+  customerIpRateLimit,
+  customerOrderRateLimit,
+  getClientIp,
+  rateLimitedResponse,
+  unauthorizedResponse,
+  verifyAppProxyRequest,
+} from "../services/app-proxy.server";
+import { checkRateLimits } from "../services/rate-limit.server";
 
 interface ReturnItemInput {
   lineItemId: string;
-  variantId?: string;
-  productId?: string;
   title: string;
   variantTitle?: string;
-  sku?: string;
   quantity: number;
-  price: number;
   reason: string;
   notes?: string;
+  // Replacement picked for an exchange; its title and price come from Shopify
+  exchangeVariantId?: string;
+  // Second choice, used if the replacement sells out
+  exchangeAlternativeVariantId?: string;
 }
 
 interface CreateReturnBody {
-  shop: string;
   orderId: string;
   orderName: string;
   customerEmail: string;
   customerName: string;
   items: ReturnItemInput[];
+  resolution?: string;
+}
+
+// The order's email, line items and fulfilled quantities decide whether the
+// return is allowed, so a failed lookup leaves eligibilityOrder null and the
+// return is refused. Risk scoring works without the order count.
+async function getOrderContext(
+  shop: string,
+  orderId: string
+): Promise<{ customerOrderCount?: number; eligibilityOrder: EligibilityOrder | null }> {
+  try {
+    const { admin } = await unauthenticated.admin(shop);
+    const [customerOrderCount, eligibilityOrder] = await Promise.all([
+      fetchCustomerOrderCount(admin, orderId),
+      fetchOrderEligibility(admin, orderId),
+    ]);
+    return { customerOrderCount, eligibilityOrder };
+  } catch (error) {
+    console.error("Order lookup for return submission failed:", error);
+    return { eligibilityOrder: null };
+  }
 }
 
 export async function action({ request }: ActionFunctionArgs) {
@@ -29,17 +86,38 @@ export async function action({ request }: ActionFunctionArgs) {
     return json({ error: "Method not allowed" }, { status: 405 });
   }
 
+  // The shop comes from the signed app proxy query string, never the body.
+  const proxy = verifyAppProxyRequest(request);
+  if (!proxy.valid) {
+    return unauthorizedResponse(proxy);
+  }
+  const { shop } = proxy;
+
   try {
+    const ipLimit = await checkRateLimits([
+      customerIpRateLimit("returns", shop, getClientIp(request)),
+    ]);
+    if (!ipLimit.allowed) {
+      return rateLimitedResponse(ipLimit);
+    }
+
     const body: CreateReturnBody = await request.json();
-    const { shop, orderId, orderName, customerEmail, customerName, items } = body;
+    const { orderId, orderName, customerEmail, customerName, items, resolution } = body;
 
-    if (!shop || !orderId || !orderName || !customerEmail || !items?.length) {
+    if (!orderId || !orderName || !customerEmail || !items?.length) {
       return json(
         { error: "Missing required fields" },
         { status: 400 }
       );
     }
 
+    const orderLimit = await checkRateLimits([
+      customerOrderRateLimit("returns", shop, orderId),
+    ]);
+    if (!orderLimit.allowed) {
+      return rateLimitedResponse(orderLimit);
+    }
+
     const settings = await getShopSettings(shop);
 
     for (const item of items) {
@@ -50,6 +128,14 @@ export async function action({ request }: ActionFunctionArgs) {
         );
       }
 
+      // Quantities add up per line, so a negative one would offset another.
+      if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+        return json(
+          { error: "Each item's quantity must be a whole number of at least 1" },
+          { status: 400 }
+        );
+      }
+
       if (settings.requireReason && !item.reason) {
         return json(
           { error: "A return reason is required for each item" },
@@ -58,6 +144,133 @@ export async function action({ request }: ActionFunctionArgs) {
       }
     }
 
+    const exchangeSettings = await getExchangeSettings(shop);
+    if (
+      resolution !== undefined &&
+      (!isResolutionType(resolution) ||
+        !availableResolutions(exchangeSettings).includes(resolution))
+    ) {
+      return json(
+        { error: "That resolution is not offered by this store", code: "resolution_unavailable" },
+        { status: 400 }
+      );
+    }
+
+    if (resolution === "exchange" && items.some((item) => !item.exchangeVariantId)) {
+      return json(
+        { error: "Choose a replacement for each item you are exchanging" },
+        { status: 400 }
+      );
+    }
+
+    const { customerOrderCount, eligibilityOrder } = await getOrderContext(shop, orderId);
+
+    if (!eligibilityOrder) {
+      return json(
+        { error: "We couldn't find that order. Please try again.", code: "order_not_found" },
+        { status: 404 }
+      );
+    }
+
+    if (eligibilityOrder.email.toLowerCase() !== customerEmail.toLowerCase().trim()) {
+      return json(
+        { error: "Email does not match the order. Please check your information." },
+        { status: 404 }
+      );
+    }
+
+    const eligibility = await checkReturnEligibility(shop, eligibilityOrder, settings);
+    const excludedItem = eligibility.ineligibleItems.find((excluded) =>
+      items.some((item) => item.lineItemId === excluded.lineItemId)
+    );
+
+    if (!eligibility.eligible || excludedItem) {
+      return json(
+        {
+          error: eligibility.reason ?? excludedItem?.reason,
+          code: eligibility.code ?? "excluded_items",
+        },
+        { status: 403 }
+      );
+    }
+
+    const orderItems = new Map(eligibilityOrder.lineItems.map((item) => [item.id, item]));
+    const unknownItem = items.find((item) => !orderItems.has(item.lineItemId));
+    if (unknownItem) {
+      return json(
+        { error: `${unknownItem.title} is not part of this order.`, code: "unknown_item" },
+        { status: 400 }
+      );
+    }
+
+    const fulfilledQuantities = new Map(
+      eligibilityOrder.lineItems.map((item) => [item.id, item.fulfilledQuantity ?? 0])
+    );
+    const [violation] = findQuantityViolations(
+      items,
+      fulfilledQuantities,
+      await getReturnedQuantities(shop, orderId)
+    );
+
+    if (violation) {
+      return json(
+        {
+          error:
+            violation.remaining === 0
+              ? `${violation.title} has already been returned.`
+              : `Only ${violation.remaining} of ${violation.title} can still be returned.`,
+          code: "quantity_exceeded",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Replacements are priced by Shopify, never by the request, since the
+    // price decides what the customer owes and any credit left over.
+    let requestedExchange: ExchangeCartItem[] | undefined;
+    if (resolution === "exchange") {
+      const { admin } = await unauthenticated.admin(shop);
+      const variants = await fetchExchangeVariants(
+        admin,
+        items.flatMap((item) =>
+          [item.exchangeVariantId, item.exchangeAlternativeVariantId].filter(
+            (id): id is string => Boolean(id)
+          )
+        )
+      );
+
+      if (items.some((item) => !variants.has(item.exchangeVariantId as string))) {
+        return json(
+          {
+            error: "One of the replacements you chose is no longer available",
+            code: "exchange_unavailable",
+          },
+          { status: 400 }
+        );
+      }
+
+      requestedExchange = items.map((item) => {
+        const variant = variants.get(item.exchangeVariantId as string) as ExchangeVariant;
+        const alternative = item.exchangeAlternativeVariantId
+          ? variants.get(item.exchangeAlternativeVariantId)
+          : undefined;
+        return {
+          variantId: variant.variantId,
+          quantity: item.quantity,
+          title: variant.title,
+          variantTitle: variant.variantTitle,
+          price: variant.price,
+          alternative: alternative
+            ? {
+                variantId: alternative.variantId,
+                variantTitle: alternative.variantTitle,
+                price: alternative.price,
+              }
+            : undefined,
+        };
+      });
+    }
+
     const aggregatedReason = items
       .map((item) => `${item.title}: ${item.reason}`)
       .join("; ");
@@ -67,34 +280,109 @@ export async function action({ request }: ActionFunctionArgs) {
       .map((item) => `${item.title}: ${item.notes}`)
       .join("\n");
 
+    // Prices, products and the customer's identity come from Shopify's copy
+    // of the order, so the caps, fees, refund, restocking and routing can't be
+    // steered from the portal.
     const returnRequest = await createReturnRequest({
       shop,
       shopifyOrderId: orderId,
       shopifyOrderName: orderName,
-      customerEmail,
+      customerEmail: eligibilityOrder.email,
       customerName,
       reason: aggregatedReason,
       customerNotes: aggregatedNotes || undefined,
-      items: items.map((item) => ({
-        shopifyLineItemId: item.lineItemId,
-        shopifyVariantId: item.variantId,
-        shopifyProductId: item.productId,
-        title: item.title,
-        variantTitle: item.variantTitle,
-        sku: item.sku,
-        quantity: item.quantity,
-        pricePerItem: item.price,
-        reason: item.reason,
-      })),
+      customerOrderCount,
+      customerTags: eligibilityOrder.customerTags,
+      requestedResolution: resolution,
+      requestedExchange,
+      requestedExchangeType: requestedExchange ? "variant" : undefined,
+      items: items.map((item) => {
+        const orderItem = orderItems.get(item.lineItemId);
+        return {
+          shopifyLineItemId: item.lineItemId,
+          shopifyVariantId: orderItem?.variantId ?? undefined,
+          shopifyProductId: orderItem?.productId ?? undefined,
+          title: item.title,
+          variantTitle: item.variantTitle,
+          sku: orderItem?.sku ?? undefined,
+          quantity: item.quantity,
+          pricePerItem: orderItem?.price ?? 0,
+          reason: item.reason,
+        };
+      }),
     });
 
+    if (returnRequest.isReturnless) {
+      await sendReturnlessRefund({ returnRequest, shopName: shop });
+    }
+
+    // Hold the replacements so they don't sell out while the return is open.
+    if (requestedExchange) {
+      try {
+        const { admin } = await unauthenticated.admin(shop);
+        await reserveExchangeInventory(admin, returnRequest, requestedExchange);
+      } catch (error) {
+        console.error("Reserving exchange inventory failed:", error);
+      }
+    }
+
+    // Auto-approved returns are split into shipments now; the rest are routed
+    // when staff approve them.
+    if (returnRequest.status === "approved" && !returnRequest.isReturnless) {
+      try {
+        const { admin } = await unauthenticated.admin(shop);
+        await routeReturnFromOrder(admin, returnRequest);
+      } catch (error) {
+        console.error("Routing the return failed:", error);
+      }
+    }
+
+    // Auto-approved returns get the customer's resolution straight away;
+    // the rest get it when staff approve them.
+    let resolutionApplied = false;
+    if (resolution && returnRequest.status === "approved") {
+      try {
+        const { admin } = await unauthenticated.admin(shop);
+        resolutionApplied =
+          (await applyRequestedResolution(admin, returnRequest.id)).status === "applied";
+      } catch (error) {
+        console.error("Applying the requested resolution failed:", error);
+      }
+    }
+
     return json({
       success: true,
       returnId: returnRequest.id,
       status: returnRequest.status,
-      message: returnRequest.status === "approved"
-        ? "Your return has been automatically approved!"
-        : "Your return request has been submitted and is pending review.",
+      isReturnless: returnRequest.isReturnless,
+      fees: {
+        restockingFee: returnRequest.restockingFee ?? 0,
+        returnShippingFee: returnRequest.returnShippingFee ?? 0,
+        waiver: returnRequest.feeWaiver,
+        estimatedRefund: returnRequest.totalRefundAmount,
+      },
+      resolution: {
+        type: resolution ?? "refund",
+        storeCredit:
+          resolution === "store_credit"
+            ? calculateStoreCreditValue(
+                returnRequest.totalRefundAmount,
+                exchangeSettings.storeCreditBonusPercent
+              )
+            : null,
+      },
+      // Whether the customer can swap the refund for anything in the catalog
+      shopNow:
+        exchangeSettings.exchangeEnabled &&
+        exchangeSettings.shopNowExchangeEnabled &&
+        resolution !== "exchange" &&
+        !resolutionApplied &&
+        canShopForExchange(returnRequest),
+      message: returnRequest.isReturnless
+        ? "Your return has been approved. No need to send the item back!"
+        : returnRequest.status === "approved"
+          ? "Your return has been automatically approved!"
+          : "Your return request has been submitted and is pending review.",
     });
   } catch (error) {
     console.error("Return submission error:", error);
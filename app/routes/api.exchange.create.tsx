@@ -2,23 +2,7 @@ import type { ActionFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
 import { getReturnRequestById } from "../services/returns.server";
-import {
-  createExchangeDraftOrder,
-  completeDraftOrder,
-  updateReturnWithExchange,
-  createGiftCard,
-  updateReturnWithStoreCredit,
-  getExchangeSettings,
-  calculateStoreCreditValue,
-} from "../services/exchange.server";
-
-interface ExchangeLineItem {
-  variantId: string;
-  quantity: number;
-  title: string;
-  variantTitle?: string;
-  price: number;
-}
+import { createExchangeForReturn, type ExchangeCartItem } from "../services/exchange.server";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   const { admin, session } = await authenticate.admin(request);
@@ -34,7 +18,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     completeImmediately = false,
   }: {
     returnRequestId: string;
-    lineItems: ExchangeLineItem[];
+    lineItems: ExchangeCartItem[];
     completeImmediately?: boolean;
   } = body;
 
@@ -62,103 +46,17 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     );
   }
 
-  const cartTotal = lineItems.reduce(
-    (sum, item) => sum + item.price * item.quantity,
-    0
-  );
-  const returnValue = returnRequest.totalRefundAmount;
-  const discountAmount = Math.min(returnValue, cartTotal);
-  const customerOwes = cartTotal > returnValue;
-  const remainingCredit = returnValue > cartTotal ? returnValue - cartTotal : 0;
-
-  const draftOrderLineItems = lineItems.map((item) => ({
-    variantId: item.variantId,
-    quantity: item.quantity,
-  }));
-
-  const draftOrderResult = await createExchangeDraftOrder(admin, {
-    email: returnRequest.customerEmail,
-    lineItems: draftOrderLineItems,
-    discountAmount,
-    note: `Exchange for return ${returnRequest.shopifyOrderName}`,
-    returnRequestId: returnRequest.id,
-  });
-
-  const draftOrderData = await draftOrderResult;
+  try {
+    const exchange = await createExchangeForReturn(admin, returnRequest, lineItems, {
+      exchangeType: "shop_now",
+      completeImmediately,
+    });
 
-  if (draftOrderData.data?.draftOrderCreate?.userErrors?.length > 0) {
+    return json({ success: true, ...exchange });
+  } catch (error) {
     return json(
-      { error: draftOrderData.data.draftOrderCreate.userErrors[0].message },
+      { error: error instanceof Error ? error.message : "Failed to create draft order" },
       { status: 400 }
     );
   }
-
-  const draftOrder = draftOrderData.data?.draftOrderCreate?.draftOrder;
-  if (!draftOrder) {
-    return json({ error: "Failed to create draft order" }, { status: 500 });
-  }
-
-  await updateReturnWithExchange(returnRequestId, {
-    resolutionType: "exchange",
-    exchangeType: "shop_now",
-    exchangeOrderId: draftOrder.id,
-    exchangeValueUsed: discountAmount,
-    exchangeBonusApplied: 0,
-  });
-
-  let completedOrder = null;
-  if (completeImmediately && !customerOwes) {
-    const completeResult = await completeDraftOrder(admin, draftOrder.id, false);
-    const completeData = await completeResult;
-    
-    if (completeData.data?.draftOrderComplete?.draftOrder?.order) {
-      completedOrder = completeData.data.draftOrderComplete.draftOrder.order;
-    }
-  }
-
-  let storeCreditCode = null;
-  if (remainingCredit > 0) {
-    const settings = await getExchangeSettings(session.shop);
-    const expiresOn = settings.storeCreditExpiryDays
-      ? new Date(Date.now() + settings.storeCreditExpiryDays * 24 * 60 * 60 * 1000)
-          .toISOString()
-          .split("T")[0]
-      : undefined;
-
-    const giftCardResult = await createGiftCard(admin, {
-      initialValue: remainingCredit,
-      note: `Remaining credit from exchange - Return #${returnRequest.id}`,
-      expiresOn,
-    });
-
-    const giftCardData = await giftCardResult;
-    if (giftCardData.data?.giftCardCreate?.giftCardCode) {
-      storeCreditCode = giftCardData.data.giftCardCreate.giftCardCode;
-    }
-  }
-
-  return json({
-    success: true,
-    draftOrder: {
-      id: draftOrder.id,
-      name: draftOrder.name,
-      invoiceUrl: draftOrder.invoiceUrl,
-      totalPrice: draftOrder.totalPriceSet?.shopMoney?.amount,
-    },
-    completedOrder: completedOrder
-      ? {
-          id: completedOrder.id,
-          name: completedOrder.name,
-        }
-      : null,
-    summary: {
-      returnValue,
-      cartTotal,
-      discountApplied: discountAmount,
-      customerOwes,
-      amountDue: customerOwes ? cartTotal - returnValue : 0,
-      remainingCredit,
-      storeCreditCode,
-    },
-  });
 };
@@ -0,0 +1,24 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { unauthenticated } from "../shopify.server";
+import { processExchangeHolds } from "../services/instant-exchange.server";
+import { verifyPollRequest } from "../services/tracking.server";
+
+// Called on a schedule (for example daily), with the same secret as tracking
+// polling, to settle instant exchange holds: released once the original is
+// back, invoiced once the deadline has passed.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (!verifyPollRequest(request)) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await processExchangeHolds({
+    getAdmin: async (shop) => (await unauthenticated.admin(shop)).admin,
+  });
+
+  console.log(
+    `Checked ${result.checked} exchange holds: ${result.released} released, ${result.invoiced} invoiced, ${result.failed} failed`
+  );
+
+  return json(result);
+};
@@ -0,0 +1,24 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { unauthenticated } from "../shopify.server";
+import { followUpUnpaidExchanges } from "../services/exchange-orders.server";
+import { verifyPollRequest } from "../services/tracking.server";
+
+// Called on a schedule (for example daily), with the same secret as tracking
+// polling, to chase exchanges the customer still owes money on: reminders
+// before the shop's deadline, store credit after it.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (!verifyPollRequest(request)) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await followUpUnpaidExchanges({
+    getAdmin: async (shop) => (await unauthenticated.admin(shop)).admin,
+  });
+
+  console.log(
+    `Checked ${result.checked} unpaid exchanges: ${result.reminded} reminded, ${result.converted} converted to store credit, ${result.failed} failed`
+  );
+
+  return json(result);
+};
@@ -0,0 +1,20 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { expireUnusedLabels } from "../services/shipping.server";
+import { verifyPollRequest } from "../services/tracking.server";
+
+// Called on a schedule (for example daily), with the same secret as tracking
+// polling, to void labels customers never used.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (!verifyPollRequest(request)) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await expireUnusedLabels();
+
+  console.log(
+    `Checked ${result.checked} expired labels: ${result.voided} voided, ${result.failed} failed`
+  );
+
+  return json(result);
+};
@@ -0,0 +1,23 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { unauthenticated } from "../shopify.server";
+import { expireExchangeReservations } from "../services/reservation.server";
+import { verifyPollRequest } from "../services/tracking.server";
+
+// Called on a schedule (for example hourly), with the same secret as tracking
+// polling, to put stock held for exchanges back on sale once it expires.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (!verifyPollRequest(request)) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await expireExchangeReservations({
+    getAdmin: async (shop) => (await unauthenticated.admin(shop)).admin,
+  });
+
+  console.log(
+    `Checked ${result.checked} expired reservations: ${result.released} released, ${result.failed} failed`
+  );
+
+  return json(result);
+};
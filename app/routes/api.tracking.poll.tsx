@@ -0,0 +1,22 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { unauthenticated } from "../shopify.server";
+import { pollTrackingUpdates, verifyPollRequest } from "../services/tracking.server";
+
+// Called on a schedule (for example every hour) to catch tracking updates
+// whose webhooks never arrived.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (!verifyPollRequest(request)) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await pollTrackingUpdates({
+    getAdmin: async (shop) => (await unauthenticated.admin(shop)).admin,
+  });
+
+  console.log(
+    `Polled tracking for ${result.checked} labels: ${result.updated} updated, ${result.failed} failed`
+  );
+
+  return json(result);
+};
@@ -8,7 +8,6 @@ import {
   Text,
   InlineStack,
   Box,
-  Badge,
   Button,
   EmptyState,
   Banner,
@@ -16,7 +15,7 @@ import {
 import { TitleBar } from "@shopify/app-bridge-react";
 import { authenticate } from "../shopify.server";
 import { getReturnStats, getReturnRequests } from "../services/returns.server";
-import { LoadingPage } from "../components";
+import { LoadingPage, ReturnStatusBadge } from "../components";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
@@ -30,19 +29,6 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   return { stats, recentReturns, shop };
 };
 
-function StatusBadge({ status }: { status: string }) {
-  const statusMap: Record<string, { tone: "info" | "success" | "warning" | "critical" | "attention"; label: string }> = {
-    pending: { tone: "attention", label: "Pending" },
-    approved: { tone: "info", label: "Approved" },
-    completed: { tone: "success", label: "Completed" },
-    declined: { tone: "critical", label: "Declined" },
-    cancelled: { tone: "warning", label: "Cancelled" },
-  };
-
-  const config = statusMap[status] ?? { tone: "info" as const, label: status };
-  return <Badge tone={config.tone}>{config.label}</Badge>;
-}
-
 function MetricCard({ title, value, subtitle }: { title: string; value: string | number; subtitle?: string }) {
   return (
     <Card>
@@ -103,7 +89,7 @@ export default function Dashboard() {
                 <MetricCard
                   title="Approved"
                   value={stats.approved}
-                  subtitle="Ready for shipping"
+                  subtitle="Open returns"
                 />
               </Box>
               <Box minWidth="200px">
@@ -157,7 +143,7 @@ export default function Dashboard() {
                               <Text as="span" variant="bodyMd" fontWeight="semibold">
                                 {returnRequest.shopifyOrderName}
                               </Text>
-                              <StatusBadge status={returnRequest.status} />
+                              <ReturnStatusBadge status={returnRequest.status} />
                             </InlineStack>
                             <Text as="span" variant="bodySm" tone="subdued">
                               {returnRequest.customerName} • {returnRequest.items.length} item(s)
@@ -31,20 +31,23 @@ import { authenticate } from "../shopify.server";
 import {
   getAnalyticsOverview,
   getReturnTrends,
+  getDispositionBreakdown,
   type DateRange,
 } from "../services/analytics.server";
+import { dispositionTypeLabels, type DispositionType } from "../utils/disposition";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
   const url = new URL(request.url);
   const range = (url.searchParams.get("range") || "30d") as DateRange;
 
-  const [overview, trends] = await Promise.all([
+  const [overview, trends, dispositions] = await Promise.all([
     getAnalyticsOverview(session.shop, { range }),
     getReturnTrends(session.shop, { range }),
+    getDispositionBreakdown(session.shop, { range }),
   ]);
 
-  return json({ overview, trends, range });
+  return json({ overview, trends, dispositions, range });
 };
 
 function MetricCard({
@@ -117,7 +120,7 @@ export function ErrorBoundary() {
 }
 
 export default function Analytics() {
-  const { overview, trends, range } = useLoaderData<typeof loader>();
+  const { overview, trends, dispositions, range } = useLoaderData<typeof loader>();
   const [searchParams, setSearchParams] = useSearchParams();
   const [selectedTab, setSelectedTab] = useState(0);
 
@@ -272,6 +275,43 @@ export default function Analytics() {
           </Layout.Section>
         </Layout>
 
+        <Layout>
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  Disposition Breakdown
+                </Text>
+                {dispositions.length === 0 ? (
+                  <Text as="p" tone="subdued">
+                    No returned items in this period.
+                  </Text>
+                ) : (
+                  <BlockStack gap="200">
+                    {dispositions.map((d) => (
+                      <InlineStack key={d.dispositionType} align="space-between" blockAlign="center">
+                        <Badge tone={d.dispositionType === "pending" ? "attention" : undefined}>
+                          {d.dispositionType === "pending"
+                            ? "Awaiting inspection"
+                            : dispositionTypeLabels[d.dispositionType as DispositionType] ??
+                              d.dispositionType}
+                        </Badge>
+                        <Text as="span" variant="bodyMd">
+                          {d.count} units ({d.percentage.toFixed(1)}%) ·{" "}
+                          {new Intl.NumberFormat("en-US", {
+                            style: "currency",
+                            currency: "USD",
+                          }).format(d.totalValue)}
+                        </Text>
+                      </InlineStack>
+                    ))}
+                  </BlockStack>
+                )}
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        </Layout>
+
         <Layout>
           <Layout.Section variant="oneThird">
             <Card>
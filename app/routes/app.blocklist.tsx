@@ -0,0 +1,254 @@
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useFetcher } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  BlockStack,
+  Text,
+  TextField,
+  Button,
+  Modal,
+  Select,
+  DataTable,
+  EmptyState,
+  Badge,
+  Banner,
+  InlineStack,
+} from "@shopify/polaris";
+import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { useState, useCallback, useEffect } from "react";
+import { authenticate } from "../shopify.server";
+import {
+  addBlocklistEntry,
+  getBlocklistEntries,
+  removeBlocklistEntry,
+} from "../services/eligibility.server";
+import {
+  BlocklistEntrySchema,
+  formatZodErrors,
+  validateWithSchema,
+} from "../schemas/validation";
+import {
+  BLOCKLIST_TYPES,
+  blocklistTypeLabels,
+  type BlocklistType,
+} from "../utils/eligibility";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const entries = await getBlocklistEntries(session.shop);
+
+  return json({ entries });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const actionType = formData.get("_action");
+
+  if (actionType === "addEntry") {
+    const parsed = validateWithSchema(BlocklistEntrySchema, {
+      type: formData.get("type") as string,
+      value: formData.get("value") as string,
+      note: (formData.get("note") as string) || undefined,
+    });
+
+    if (!parsed.success) {
+      return json({ success: false, error: formatZodErrors(parsed.errors) }, { status: 400 });
+    }
+
+    try {
+      const entry = await addBlocklistEntry(session.shop, parsed.data);
+      return json({ success: true, entry });
+    } catch (error) {
+      return json(
+        { success: false, error: error instanceof Error ? error.message : "Could not add entry" },
+        { status: 400 }
+      );
+    }
+  }
+
+  if (actionType === "removeEntry") {
+    await removeBlocklistEntry(session.shop, formData.get("entryId") as string);
+    return json({ success: true });
+  }
+
+  return json({ success: false, error: "Unknown action" });
+};
+
+export function ErrorBoundary() {
+  return (
+    <Page backAction={{ content: "Dashboard", url: "/app" }} title="Blocklist">
+      <Banner tone="critical" title="Error loading blocklist">
+        <p>There was a problem loading the blocklist. Please try refreshing the page.</p>
+      </Banner>
+    </Page>
+  );
+}
+
+const typeOptions = BLOCKLIST_TYPES.map((type) => ({
+  label: blocklistTypeLabels[type],
+  value: type,
+}));
+
+const valuePlaceholders: Record<BlocklistType, string> = {
+  email: "customer@example.com",
+  customer: "Customer ID, e.g. 7012345678901",
+  product_tag: "final-sale",
+  discount_code: "CLEARANCE50",
+};
+
+export default function Blocklist() {
+  const { entries } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher();
+  const shopify = useAppBridge();
+
+  const [modalOpen, setModalOpen] = useState(false);
+  const [entryType, setEntryType] = useState<BlocklistType>("email");
+  const [entryValue, setEntryValue] = useState("");
+  const [entryNote, setEntryNote] = useState("");
+
+  const resetForm = () => {
+    setEntryType("email");
+    setEntryValue("");
+    setEntryNote("");
+  };
+
+  useEffect(() => {
+    const data = fetcher.data as { success?: boolean; error?: string } | undefined;
+    if (data?.success) {
+      shopify.toast.show("Blocklist updated");
+      setModalOpen(false);
+      resetForm();
+    } else if (data?.error) {
+      shopify.toast.show(data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const handleAddEntry = useCallback(() => {
+    fetcher.submit(
+      { _action: "addEntry", type: entryType, value: entryValue, note: entryNote },
+      { method: "POST" }
+    );
+  }, [fetcher, entryType, entryValue, entryNote]);
+
+  const handleRemoveEntry = useCallback(
+    (entryId: string) => {
+      fetcher.submit({ _action: "removeEntry", entryId }, { method: "POST" });
+    },
+    [fetcher]
+  );
+
+  const rows = entries.map((entry) => [
+    <Badge key={`type-${entry.id}`}>
+      {blocklistTypeLabels[entry.type as BlocklistType] ?? entry.type}
+    </Badge>,
+    entry.value,
+    entry.note || "—",
+    new Date(entry.createdAt).toLocaleDateString(),
+    <Button
+      key={`remove-${entry.id}`}
+      size="slim"
+      variant="plain"
+      tone="critical"
+      onClick={() => handleRemoveEntry(entry.id)}
+    >
+      Remove
+    </Button>,
+  ]);
+
+  return (
+    <Page
+      backAction={{ content: "Dashboard", url: "/app" }}
+      title="Blocklist"
+      subtitle="Control who and what can be returned through the return portal"
+    >
+      <TitleBar title="Blocklist" />
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <InlineStack align="space-between">
+                <Text as="h2" variant="headingMd">Entries</Text>
+                <Button onClick={() => setModalOpen(true)}>Add Entry</Button>
+              </InlineStack>
+
+              {entries.length === 0 ? (
+                <EmptyState
+                  heading="Nothing is blocked"
+                  image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                  action={{
+                    content: "Add entry",
+                    onAction: () => setModalOpen(true),
+                  }}
+                >
+                  <p>
+                    Block customers and email addresses, mark product tags as final sale, or stop
+                    returns on orders that used a discount code.
+                  </p>
+                </EmptyState>
+              ) : (
+                <DataTable
+                  columnContentTypes={["text", "text", "text", "text", "text"]}
+                  headings={["Type", "Value", "Note", "Added", ""]}
+                  rows={rows}
+                />
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+
+      <Modal
+        open={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          resetForm();
+        }}
+        title="Add Blocklist Entry"
+        primaryAction={{
+          content: "Add",
+          onAction: handleAddEntry,
+          loading: fetcher.state === "submitting",
+        }}
+        secondaryActions={[
+          {
+            content: "Cancel",
+            onAction: () => {
+              setModalOpen(false);
+              resetForm();
+            },
+          },
+        ]}
+      >
+        <Modal.Section>
+          <BlockStack gap="400">
+            <Select
+              label="Type"
+              options={typeOptions}
+              value={entryType}
+              onChange={(value) => setEntryType(value as BlocklistType)}
+            />
+            <TextField
+              label="Value"
+              value={entryValue}
+              onChange={setEntryValue}
+              placeholder={valuePlaceholders[entryType]}
+              autoComplete="off"
+            />
+            <TextField
+              label="Internal note"
+              value={entryNote}
+              onChange={setEntryNote}
+              helpText="Only visible to staff. Shoppers see a standard explanation."
+              autoComplete="off"
+            />
+          </BlockStack>
+        </Modal.Section>
+      </Modal>
+    </Page>
+  );
+}
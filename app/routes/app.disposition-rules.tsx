@@ -0,0 +1,375 @@
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useFetcher } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  BlockStack,
+  Text,
+  TextField,
+  Button,
+  Modal,
+  Select,
+  DataTable,
+  EmptyState,
+  InlineStack,
+  Badge,
+  Box,
+  Banner,
+} from "@shopify/polaris";
+import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { useState, useCallback, useEffect } from "react";
+import { authenticate } from "../shopify.server";
+import {
+  getDispositionRules,
+  createDispositionRule,
+  updateDispositionRule,
+  deleteDispositionRule,
+} from "../services/disposition.server";
+import {
+  DispositionRuleSchema,
+  formatZodErrors,
+  validateWithSchema,
+} from "../schemas/validation";
+import {
+  DEFAULT_OUTLET_DISCOUNT_PERCENT,
+  DISPOSITION_TYPES,
+  ITEM_CONDITIONS,
+  describeDispositionConditions,
+  dispositionTypeLabels,
+  itemConditionLabels,
+  type DispositionCondition,
+  type DispositionConditionType,
+  type DispositionType,
+} from "../utils/disposition";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const rules = await getDispositionRules(session.shop);
+
+  return json({ rules });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const actionType = formData.get("_action");
+
+  if (actionType === "createRule" || actionType === "updateRule") {
+    const discount = formData.get("outletDiscountPercent") as string;
+    const parsed = validateWithSchema(DispositionRuleSchema, {
+      name: formData.get("name") as string,
+      priority: parseInt(formData.get("priority") as string) || 0,
+      conditions: JSON.parse((formData.get("conditions") as string) || "[]"),
+      dispositionType: formData.get("dispositionType") as string,
+      outletDiscountPercent: discount ? parseInt(discount) : null,
+    });
+
+    if (!parsed.success) {
+      return json({ success: false, error: formatZodErrors(parsed.errors) }, { status: 400 });
+    }
+
+    const rule =
+      actionType === "updateRule"
+        ? await updateDispositionRule(session.shop, formData.get("ruleId") as string, parsed.data)
+        : await createDispositionRule(session.shop, parsed.data);
+    return json({ success: true, rule });
+  }
+
+  if (actionType === "deleteRule") {
+    await deleteDispositionRule(session.shop, formData.get("ruleId") as string);
+    return json({ success: true });
+  }
+
+  return json({ success: false, error: "Unknown action" });
+};
+
+export function ErrorBoundary() {
+  return (
+    <Page backAction={{ content: "Dashboard", url: "/app" }} title="Disposition Rules">
+      <Banner tone="critical" title="Error loading disposition rules">
+        <p>There was a problem loading disposition rules. Please try refreshing the page.</p>
+      </Banner>
+    </Page>
+  );
+}
+
+const conditionTypeOptions: Array<{ label: string; value: DispositionConditionType }> = [
+  { label: "Item Condition", value: "item_condition" },
+  { label: "Price Above", value: "price_above" },
+  { label: "Price Below", value: "price_below" },
+  { label: "Return Reason", value: "return_reason" },
+  { label: "Product Type", value: "product_type" },
+  { label: "Product Tag", value: "product_tag" },
+];
+
+const dispositionTypeOptions = DISPOSITION_TYPES.map((type) => ({
+  label: dispositionTypeLabels[type],
+  value: type,
+}));
+
+const itemConditionOptions = ITEM_CONDITIONS.map((condition) => ({
+  label: itemConditionLabels[condition],
+  value: condition,
+}));
+
+function emptyCondition(): DispositionCondition {
+  return { type: "item_condition", value: "new" };
+}
+
+export default function DispositionRules() {
+  const { rules } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher();
+  const shopify = useAppBridge();
+
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [ruleName, setRuleName] = useState("");
+  const [rulePriority, setRulePriority] = useState("0");
+  const [ruleConditions, setRuleConditions] = useState<DispositionCondition[]>([emptyCondition()]);
+  const [ruleDisposition, setRuleDisposition] = useState<DispositionType>("restock");
+  const [ruleDiscount, setRuleDiscount] = useState(String(DEFAULT_OUTLET_DISCOUNT_PERCENT));
+
+  useEffect(() => {
+    const data = fetcher.data as { success?: boolean; error?: string } | undefined;
+    if (data?.success) {
+      shopify.toast.show("Saved successfully");
+      setModalOpen(false);
+      resetForm();
+    } else if (data?.error) {
+      shopify.toast.show(data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const resetForm = () => {
+    setEditingRuleId(null);
+    setRuleName("");
+    setRulePriority("0");
+    setRuleConditions([emptyCondition()]);
+    setRuleDisposition("restock");
+    setRuleDiscount(String(DEFAULT_OUTLET_DISCOUNT_PERCENT));
+  };
+
+  const openEditRule = (rule: (typeof rules)[number]) => {
+    setEditingRuleId(rule.id);
+    setRuleName(rule.name);
+    setRulePriority(rule.priority.toString());
+    setRuleConditions(rule.conditions as unknown as DispositionCondition[]);
+    setRuleDisposition(rule.dispositionType as DispositionType);
+    setRuleDiscount(String(rule.outletDiscountPercent ?? DEFAULT_OUTLET_DISCOUNT_PERCENT));
+    setModalOpen(true);
+  };
+
+  const updateCondition = (index: number, condition: DispositionCondition) =>
+    setRuleConditions((conditions) =>
+      conditions.map((existing, i) => (i === index ? condition : existing))
+    );
+
+  const handleSaveRule = useCallback(() => {
+    fetcher.submit(
+      {
+        _action: editingRuleId ? "updateRule" : "createRule",
+        ruleId: editingRuleId ?? "",
+        name: ruleName,
+        priority: rulePriority,
+        conditions: JSON.stringify(ruleConditions),
+        dispositionType: ruleDisposition,
+        outletDiscountPercent: ruleDisposition === "outlet" ? ruleDiscount : "",
+      },
+      { method: "POST" }
+    );
+  }, [fetcher, editingRuleId, ruleName, rulePriority, ruleConditions, ruleDisposition, ruleDiscount]);
+
+  const handleDeleteRule = useCallback(
+    (ruleId: string) => {
+      fetcher.submit({ _action: "deleteRule", ruleId }, { method: "POST" });
+    },
+    [fetcher]
+  );
+
+  const ruleRows = rules.map((rule) => [
+    rule.name,
+    describeDispositionConditions(rule.conditions as unknown as DispositionCondition[]),
+    <Badge key={`type-${rule.id}`}>
+      {rule.dispositionType === "outlet"
+        ? `${dispositionTypeLabels.outlet} (${rule.outletDiscountPercent ?? DEFAULT_OUTLET_DISCOUNT_PERCENT}% off)`
+        : dispositionTypeLabels[rule.dispositionType as DispositionType] ?? rule.dispositionType}
+    </Badge>,
+    rule.priority,
+    <InlineStack gap="200" key={`actions-${rule.id}`}>
+      <Button size="slim" variant="plain" onClick={() => openEditRule(rule)}>
+        Edit
+      </Button>
+      <Button size="slim" variant="plain" tone="critical" onClick={() => handleDeleteRule(rule.id)}>
+        Delete
+      </Button>
+    </InlineStack>,
+  ]);
+
+  return (
+    <Page
+      backAction={{ content: "Dashboard", url: "/app" }}
+      title="Disposition Rules"
+      subtitle="Decide what happens to each item after inspection"
+    >
+      <TitleBar title="Disposition Rules" />
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <InlineStack align="space-between">
+                <Text as="h2" variant="headingMd">Rules</Text>
+                <Button onClick={() => setModalOpen(true)}>Add Rule</Button>
+              </InlineStack>
+
+              {rules.length === 0 ? (
+                <EmptyState
+                  heading="No disposition rules yet"
+                  image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                  action={{
+                    content: "Create rule",
+                    onAction: () => setModalOpen(true),
+                  }}
+                >
+                  <p>
+                    Restock, discount, donate, claim, recycle or skip the return shipment based on
+                    the item's condition, price and return reason.
+                  </p>
+                </EmptyState>
+              ) : (
+                <DataTable
+                  columnContentTypes={["text", "text", "text", "numeric", "text"]}
+                  headings={["Name", "Conditions", "Outcome", "Priority", ""]}
+                  rows={ruleRows}
+                />
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+
+      <Modal
+        open={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          resetForm();
+        }}
+        title={editingRuleId ? "Edit Disposition Rule" : "Add Disposition Rule"}
+        size="large"
+        primaryAction={{
+          content: "Save",
+          onAction: handleSaveRule,
+          loading: fetcher.state === "submitting",
+        }}
+        secondaryActions={[
+          {
+            content: "Cancel",
+            onAction: () => {
+              setModalOpen(false);
+              resetForm();
+            },
+          },
+        ]}
+      >
+        <Modal.Section>
+          <BlockStack gap="400">
+            <TextField
+              label="Rule Name"
+              value={ruleName}
+              onChange={setRuleName}
+              autoComplete="off"
+              placeholder="Like-new items to outlet"
+            />
+            <BlockStack gap="200">
+              <Text as="span" variant="bodyMd">All of these conditions must match</Text>
+              {ruleConditions.map((condition, index) => (
+                <Box key={index} padding="300" background="bg-surface-secondary" borderRadius="200">
+                  <InlineStack gap="200" blockAlign="end" wrap={false}>
+                    <Box minWidth="180px">
+                      <Select
+                        label="Condition"
+                        labelHidden
+                        options={conditionTypeOptions}
+                        value={condition.type}
+                        onChange={(value) =>
+                          updateCondition(index, {
+                            type: value as DispositionConditionType,
+                            value: value === "item_condition" ? "new" : "",
+                          })
+                        }
+                      />
+                    </Box>
+                    <Box width="100%">
+                      {condition.type === "item_condition" ? (
+                        <Select
+                          label="Value"
+                          labelHidden
+                          options={itemConditionOptions}
+                          value={condition.value}
+                          onChange={(value) => updateCondition(index, { ...condition, value })}
+                        />
+                      ) : (
+                        <TextField
+                          label="Value"
+                          labelHidden
+                          type={condition.type.startsWith("price_") ? "number" : "text"}
+                          value={condition.value}
+                          onChange={(value) => updateCondition(index, { ...condition, value })}
+                          autoComplete="off"
+                        />
+                      )}
+                    </Box>
+                    <Button
+                      variant="plain"
+                      tone="critical"
+                      disabled={ruleConditions.length === 1}
+                      onClick={() =>
+                        setRuleConditions((conditions) => conditions.filter((_, i) => i !== index))
+                      }
+                    >
+                      Remove
+                    </Button>
+                  </InlineStack>
+                </Box>
+              ))}
+              <InlineStack>
+                <Button
+                  size="slim"
+                  onClick={() => setRuleConditions((conditions) => [...conditions, emptyCondition()])}
+                >
+                  Add condition
+                </Button>
+              </InlineStack>
+            </BlockStack>
+            <Select
+              label="Outcome"
+              options={dispositionTypeOptions}
+              value={ruleDisposition}
+              onChange={(value) => setRuleDisposition(value as DispositionType)}
+            />
+            {ruleDisposition === "outlet" && (
+              <TextField
+                label="Outlet Discount"
+                type="number"
+                suffix="%"
+                value={ruleDiscount}
+                onChange={setRuleDiscount}
+                autoComplete="off"
+              />
+            )}
+            <TextField
+              label="Priority"
+              type="number"
+              value={rulePriority}
+              onChange={setRulePriority}
+              helpText="Lower numbers = higher priority. The first matching rule decides the outcome."
+              autoComplete="off"
+            />
+          </BlockStack>
+        </Modal.Section>
+      </Modal>
+    </Page>
+  );
+}
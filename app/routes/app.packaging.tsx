@@ -0,0 +1,274 @@
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useFetcher } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  BlockStack,
+  Text,
+  TextField,
+  Button,
+  Modal,
+  DataTable,
+  EmptyState,
+  Banner,
+  InlineStack,
+  FormLayout,
+} from "@shopify/polaris";
+import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { useState, useCallback, useEffect } from "react";
+import { authenticate } from "../shopify.server";
+import {
+  addPackagingPreset,
+  getPackagingPresets,
+  removePackagingPreset,
+} from "../services/packaging.server";
+import {
+  PackagingPresetSchema,
+  formatZodErrors,
+  validateWithSchema,
+} from "../schemas/validation";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const presets = await getPackagingPresets(session.shop);
+
+  return json({ presets });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const actionType = formData.get("_action");
+
+  if (actionType === "addPreset") {
+    const parsed = validateWithSchema(PackagingPresetSchema, {
+      name: formData.get("name") as string,
+      length: parseFloat(formData.get("length") as string),
+      width: parseFloat(formData.get("width") as string),
+      height: parseFloat(formData.get("height") as string),
+      maxWeight: parseFloat(formData.get("maxWeight") as string),
+      boxWeight: formData.get("boxWeight")
+        ? parseFloat(formData.get("boxWeight") as string)
+        : undefined,
+    });
+
+    if (!parsed.success) {
+      return json({ success: false, error: formatZodErrors(parsed.errors) }, { status: 400 });
+    }
+
+    try {
+      const preset = await addPackagingPreset(session.shop, parsed.data);
+      return json({ success: true, preset });
+    } catch (error) {
+      return json(
+        { success: false, error: error instanceof Error ? error.message : "Could not add preset" },
+        { status: 400 }
+      );
+    }
+  }
+
+  if (actionType === "removePreset") {
+    await removePackagingPreset(session.shop, formData.get("presetId") as string);
+    return json({ success: true });
+  }
+
+  return json({ success: false, error: "Unknown action" });
+};
+
+export function ErrorBoundary() {
+  return (
+    <Page backAction={{ content: "Dashboard", url: "/app" }} title="Packaging">
+      <Banner tone="critical" title="Error loading packaging">
+        <p>There was a problem loading packaging presets. Please try refreshing the page.</p>
+      </Banner>
+    </Page>
+  );
+}
+
+export default function Packaging() {
+  const { presets } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher();
+  const shopify = useAppBridge();
+
+  const [modalOpen, setModalOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [length, setLength] = useState("");
+  const [width, setWidth] = useState("");
+  const [height, setHeight] = useState("");
+  const [maxWeight, setMaxWeight] = useState("");
+  const [boxWeight, setBoxWeight] = useState("");
+
+  const resetForm = useCallback(() => {
+    setName("");
+    setLength("");
+    setWidth("");
+    setHeight("");
+    setMaxWeight("");
+    setBoxWeight("");
+  }, []);
+
+  useEffect(() => {
+    const data = fetcher.data as { success?: boolean; error?: string } | undefined;
+    if (data?.success) {
+      shopify.toast.show("Packaging updated");
+      setModalOpen(false);
+      resetForm();
+    } else if (data?.error) {
+      shopify.toast.show(data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify, resetForm]);
+
+  const handleAddPreset = useCallback(() => {
+    fetcher.submit(
+      { _action: "addPreset", name, length, width, height, maxWeight, boxWeight },
+      { method: "POST" }
+    );
+  }, [fetcher, name, length, width, height, maxWeight, boxWeight]);
+
+  const handleRemovePreset = useCallback(
+    (presetId: string) => {
+      fetcher.submit({ _action: "removePreset", presetId }, { method: "POST" });
+    },
+    [fetcher]
+  );
+
+  const rows = presets.map((preset) => [
+    preset.name,
+    `${preset.length} × ${preset.width} × ${preset.height} in`,
+    `${preset.maxWeight} lb`,
+    `${preset.boxWeight} lb`,
+    <Button
+      key={`remove-${preset.id}`}
+      size="slim"
+      variant="plain"
+      tone="critical"
+      onClick={() => handleRemovePreset(preset.id)}
+    >
+      Remove
+    </Button>,
+  ]);
+
+  return (
+    <Page
+      backAction={{ content: "Dashboard", url: "/app" }}
+      title="Packaging"
+      subtitle="Boxes customers pack returns in, used to rate and split return labels"
+    >
+      <TitleBar title="Packaging" />
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <InlineStack align="space-between">
+                <Text as="h2" variant="headingMd">Packaging Presets</Text>
+                <Button onClick={() => setModalOpen(true)}>Add Preset</Button>
+              </InlineStack>
+
+              {presets.length === 0 ? (
+                <EmptyState
+                  heading="Labels are rated on weight alone"
+                  image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                  action={{
+                    content: "Add preset",
+                    onAction: () => setModalOpen(true),
+                  }}
+                >
+                  <p>
+                    Add the boxes your customers ship returns in. Each parcel is rated in the box
+                    that costs least for its weight, and returns too heavy for your largest box are
+                    split into several parcels with their own labels.
+                  </p>
+                </EmptyState>
+              ) : (
+                <DataTable
+                  columnContentTypes={["text", "text", "text", "text", "text"]}
+                  headings={["Name", "Dimensions", "Max weight", "Empty weight", ""]}
+                  rows={rows}
+                />
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+
+      <Modal
+        open={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          resetForm();
+        }}
+        title="Add Packaging Preset"
+        primaryAction={{
+          content: "Add",
+          onAction: handleAddPreset,
+          loading: fetcher.state === "submitting",
+        }}
+        secondaryActions={[
+          {
+            content: "Cancel",
+            onAction: () => {
+              setModalOpen(false);
+              resetForm();
+            },
+          },
+        ]}
+      >
+        <Modal.Section>
+          <FormLayout>
+            <TextField
+              label="Name"
+              value={name}
+              onChange={setName}
+              placeholder="Medium box"
+              autoComplete="off"
+            />
+            <FormLayout.Group condensed>
+              <TextField
+                label="Length (in)"
+                type="number"
+                value={length}
+                onChange={setLength}
+                autoComplete="off"
+              />
+              <TextField
+                label="Width (in)"
+                type="number"
+                value={width}
+                onChange={setWidth}
+                autoComplete="off"
+              />
+              <TextField
+                label="Height (in)"
+                type="number"
+                value={height}
+                onChange={setHeight}
+                autoComplete="off"
+              />
+            </FormLayout.Group>
+            <FormLayout.Group>
+              <TextField
+                label="Maximum weight (lb)"
+                type="number"
+                value={maxWeight}
+                onChange={setMaxWeight}
+                helpText="Heaviest the packed box may be"
+                autoComplete="off"
+              />
+              <TextField
+                label="Empty weight (lb)"
+                type="number"
+                value={boxWeight}
+                onChange={setBoxWeight}
+                helpText="Added to the weight of the items"
+                autoComplete="off"
+              />
+            </FormLayout.Group>
+          </FormLayout>
+        </Modal.Section>
+      </Modal>
+    </Page>
+  );
+}
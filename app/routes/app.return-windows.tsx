@@ -0,0 +1,256 @@
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useFetcher } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  BlockStack,
+  Text,
+  TextField,
+  Button,
+  Modal,
+  Select,
+  DataTable,
+  EmptyState,
+  Badge,
+  Banner,
+  InlineStack,
+} from "@shopify/polaris";
+import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { useState, useCallback, useEffect } from "react";
+import { authenticate } from "../shopify.server";
+import { getShopSettings } from "../services/returns.server";
+import {
+  addReturnWindowRule,
+  getReturnWindowRules,
+  removeReturnWindowRule,
+} from "../services/return-window.server";
+import {
+  ReturnWindowRuleSchema,
+  formatZodErrors,
+  validateWithSchema,
+} from "../schemas/validation";
+import {
+  WINDOW_RULE_TYPES,
+  windowRuleTypeLabels,
+  type WindowRuleType,
+} from "../utils/return-window";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const [rules, settings] = await Promise.all([
+    getReturnWindowRules(session.shop),
+    getShopSettings(session.shop),
+  ]);
+
+  return json({ rules, defaultWindowDays: settings.returnWindowDays });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const actionType = formData.get("_action");
+
+  if (actionType === "addRule") {
+    const parsed = validateWithSchema(ReturnWindowRuleSchema, {
+      type: formData.get("type") as string,
+      value: formData.get("value") as string,
+      windowDays: parseInt(formData.get("windowDays") as string),
+    });
+
+    if (!parsed.success) {
+      return json({ success: false, error: formatZodErrors(parsed.errors) }, { status: 400 });
+    }
+
+    try {
+      const rule = await addReturnWindowRule(session.shop, parsed.data);
+      return json({ success: true, rule });
+    } catch (error) {
+      return json(
+        { success: false, error: error instanceof Error ? error.message : "Could not add rule" },
+        { status: 400 }
+      );
+    }
+  }
+
+  if (actionType === "removeRule") {
+    await removeReturnWindowRule(session.shop, formData.get("ruleId") as string);
+    return json({ success: true });
+  }
+
+  return json({ success: false, error: "Unknown action" });
+};
+
+export function ErrorBoundary() {
+  return (
+    <Page backAction={{ content: "Dashboard", url: "/app" }} title="Return Windows">
+      <Banner tone="critical" title="Error loading return windows">
+        <p>There was a problem loading return windows. Please try refreshing the page.</p>
+      </Banner>
+    </Page>
+  );
+}
+
+const typeOptions = WINDOW_RULE_TYPES.map((type) => ({
+  label: windowRuleTypeLabels[type],
+  value: type,
+}));
+
+const valueHelpText: Record<WindowRuleType, string> = {
+  product_type: "The product type exactly as it appears on your products, e.g. Swimwear",
+  collection: "The collection handle from its URL, e.g. holiday-gifts",
+};
+
+export default function ReturnWindows() {
+  const { rules, defaultWindowDays } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher();
+  const shopify = useAppBridge();
+
+  const [modalOpen, setModalOpen] = useState(false);
+  const [ruleType, setRuleType] = useState<WindowRuleType>("product_type");
+  const [ruleValue, setRuleValue] = useState("");
+  const [windowDays, setWindowDays] = useState(defaultWindowDays.toString());
+
+  const resetForm = useCallback(() => {
+    setRuleType("product_type");
+    setRuleValue("");
+    setWindowDays(defaultWindowDays.toString());
+  }, [defaultWindowDays]);
+
+  useEffect(() => {
+    const data = fetcher.data as { success?: boolean; error?: string } | undefined;
+    if (data?.success) {
+      shopify.toast.show("Return windows updated");
+      setModalOpen(false);
+      resetForm();
+    } else if (data?.error) {
+      shopify.toast.show(data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify, resetForm]);
+
+  const handleAddRule = useCallback(() => {
+    fetcher.submit(
+      { _action: "addRule", type: ruleType, value: ruleValue, windowDays },
+      { method: "POST" }
+    );
+  }, [fetcher, ruleType, ruleValue, windowDays]);
+
+  const handleRemoveRule = useCallback(
+    (ruleId: string) => {
+      fetcher.submit({ _action: "removeRule", ruleId }, { method: "POST" });
+    },
+    [fetcher]
+  );
+
+  const rows = rules.map((rule) => [
+    <Badge key={`type-${rule.id}`}>
+      {windowRuleTypeLabels[rule.type as WindowRuleType] ?? rule.type}
+    </Badge>,
+    rule.value,
+    `${rule.windowDays} days`,
+    <Button
+      key={`remove-${rule.id}`}
+      size="slim"
+      variant="plain"
+      tone="critical"
+      onClick={() => handleRemoveRule(rule.id)}
+    >
+      Remove
+    </Button>,
+  ]);
+
+  return (
+    <Page
+      backAction={{ content: "Dashboard", url: "/app" }}
+      title="Return Windows"
+      subtitle={`Items can be returned for ${defaultWindowDays} days after delivery unless a rule below applies`}
+    >
+      <TitleBar title="Return Windows" />
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <InlineStack align="space-between">
+                <Text as="h2" variant="headingMd">Overrides</Text>
+                <Button onClick={() => setModalOpen(true)}>Add Override</Button>
+              </InlineStack>
+
+              {rules.length === 0 ? (
+                <EmptyState
+                  heading="Every item uses the default window"
+                  image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                  action={{
+                    content: "Add override",
+                    onAction: () => setModalOpen(true),
+                  }}
+                >
+                  <p>
+                    Give product types or collections a longer or shorter return window. When an
+                    item matches several overrides, the longest window applies.
+                  </p>
+                </EmptyState>
+              ) : (
+                <DataTable
+                  columnContentTypes={["text", "text", "text", "text"]}
+                  headings={["Type", "Value", "Window", ""]}
+                  rows={rows}
+                />
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+
+      <Modal
+        open={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          resetForm();
+        }}
+        title="Add Return Window Override"
+        primaryAction={{
+          content: "Add",
+          onAction: handleAddRule,
+          loading: fetcher.state === "submitting",
+        }}
+        secondaryActions={[
+          {
+            content: "Cancel",
+            onAction: () => {
+              setModalOpen(false);
+              resetForm();
+            },
+          },
+        ]}
+      >
+        <Modal.Section>
+          <BlockStack gap="400">
+            <Select
+              label="Applies to"
+              options={typeOptions}
+              value={ruleType}
+              onChange={(value) => setRuleType(value as WindowRuleType)}
+            />
+            <TextField
+              label={windowRuleTypeLabels[ruleType]}
+              value={ruleValue}
+              onChange={setRuleValue}
+              helpText={valueHelpText[ruleType]}
+              autoComplete="off"
+            />
+            <TextField
+              label="Return window (days)"
+              type="number"
+              value={windowDays}
+              onChange={setWindowDays}
+              helpText="Days after delivery, or after fulfillment when no delivery date is known"
+              autoComplete="off"
+            />
+          </BlockStack>
+        </Modal.Section>
+      </Modal>
+    </Page>
+  );
+}
@@ -0,0 +1,608 @@
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useFetcher } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Box,
+  Banner,
+  Divider,
+  Modal,
+  TextField,
+  Link,
+  Button,
+  ButtonGroup,
+} from "@shopify/polaris";
+import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { useState, useEffect } from "react";
+import { authenticate } from "../shopify.server";
+import {
+  approveReturnRequest,
+  completeReturnRequest,
+  declineReturnRequest,
+  getReturnRequestById,
+} from "../services/returns.server";
+import {
+  getReturnEvents,
+  merchantActor,
+  transitionReturn,
+} from "../services/return-lifecycle.server";
+import { getTrackingForReturn } from "../services/tracking.server";
+import { getRequestedExchange } from "../services/resolution.server";
+import { releaseExchangeReservations } from "../services/reservation.server";
+import {
+  createLabelsForReturn,
+  regenerateReturnLabel,
+  voidReturnLabel,
+  voidUnusedLabels,
+} from "../services/shipping.server";
+import { ReturnStatusBadge } from "../components";
+import {
+  canInspectReturn,
+  canTransition,
+  getReturnStatusLabel,
+  isReturnStatus,
+  returnActorLabels,
+  type ReturnActorType,
+  type ReturnStatus,
+} from "../utils/return-status";
+import { getLabelStatusLabel, getTrackingStatusLabel, isLabelScanned } from "../utils/tracking";
+
+// Moves staff can make by hand. Shipping, inspection and refunds move returns
+// through the other states.
+const manualTransitions: Array<{ status: ReturnStatus; label: string; destructive?: boolean }> = [
+  { status: "approved", label: "Approve" },
+  { status: "declined", label: "Decline", destructive: true },
+  { status: "in_transit", label: "Mark in transit" },
+  { status: "received", label: "Mark received" },
+  { status: "completed", label: "Complete return" },
+  { status: "cancelled", label: "Cancel return", destructive: true },
+];
+
+const resolutionLabels: Record<string, string> = {
+  refund: "Refund",
+  store_credit: "Store credit",
+  exchange: "Exchange",
+};
+
+const exchangeOrderStatusLabels: Record<string, string> = {
+  draft: "draft, placed when the return is complete",
+  awaiting_payment: "awaiting payment",
+  ordered: "ordered",
+  paid: "paid",
+  cancelled: "cancelled in Shopify",
+  converted: "not paid in time, changed to store credit",
+};
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const returnId = params.id;
+
+  if (!returnId) {
+    throw new Response("Return ID required", { status: 400 });
+  }
+
+  const returnRequest = await getReturnRequestById(returnId);
+  if (!returnRequest) {
+    throw new Response("Return not found", { status: 404 });
+  }
+
+  if (returnRequest.shop !== session.shop) {
+    throw new Response("Unauthorized", { status: 403 });
+  }
+
+  const [events, labels] = await Promise.all([
+    getReturnEvents(returnId),
+    getTrackingForReturn(returnId),
+  ]);
+
+  return json({
+    returnRequest,
+    events,
+    labels,
+    requestedExchange: getRequestedExchange(returnRequest),
+  });
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const returnId = params.id;
+  const intent = formData.get("_action");
+  const status = formData.get("status") as string;
+  const reason = (formData.get("reason") as string) || undefined;
+
+  if (!returnId) {
+    return json({ error: "Return ID required" }, { status: 400 });
+  }
+
+  const returnRequest = await getReturnRequestById(returnId);
+  if (!returnRequest || returnRequest.shop !== session.shop) {
+    return json({ error: "Return not found" }, { status: 404 });
+  }
+
+  if (intent === "create_labels") {
+    const created = await createLabelsForReturn(admin, session.shop, returnId);
+    if (!created.success) {
+      return json({ error: created.error ?? "Could not create labels" }, { status: 400 });
+    }
+    return json({
+      success: true,
+      message: created.shipments.length === 1 ? "Label created" : "Labels created",
+    });
+  }
+
+  if (intent === "void_label" || intent === "regenerate_label") {
+    const labelId = formData.get("labelId") as string;
+
+    if (intent === "void_label") {
+      const voided = await voidReturnLabel(session.shop, labelId, reason ?? "Voided by merchant");
+      if (!voided.success) {
+        return json({ error: voided.error ?? "Could not void label" }, { status: 400 });
+      }
+      return json({
+        success: true,
+        message: voided.status === "voided" ? "Label voided" : "Label refund requested",
+      });
+    }
+
+    const replacement = await regenerateReturnLabel(session.shop, labelId, reason);
+    if (!replacement.success) {
+      return json({ error: replacement.error ?? "Could not replace label" }, { status: 400 });
+    }
+    return json({ success: true, message: "New label created" });
+  }
+
+  if (intent !== "transition" || !isReturnStatus(status)) {
+    return json({ error: "Unknown action" }, { status: 400 });
+  }
+
+  const actor = merchantActor(session);
+
+  try {
+    if (status === "approved") {
+      const approved = await approveReturnRequest(returnId, reason, actor, admin);
+      if (approved.resolution?.error) {
+        return json({ success: true, status, warning: approved.resolution.error });
+      }
+    } else if (status === "declined") {
+      await declineReturnRequest(returnId, reason, actor);
+    } else if (status === "completed") {
+      const completed = await completeReturnRequest(returnId, admin, actor);
+      const warning = completed.refund?.error ?? completed.resolution?.error;
+      if (warning) {
+        return json({ success: true, status: completed.status, warning });
+      }
+    } else {
+      await transitionReturn(returnId, status, actor, { shop: session.shop, reason });
+    }
+
+    // Closed returns won't ship, so labels the customer hasn't used are refunded
+    // and stock held for an exchange goes back on sale.
+    if (status === "declined" || status === "cancelled") {
+      await releaseExchangeReservations(admin, returnId, `Return ${status}`);
+      const failed = (
+        await voidUnusedLabels(session.shop, returnId, `Return ${status}`)
+      ).find((result) => !result.success);
+      if (failed) {
+        return json({ success: true, status, warning: `Could not void label: ${failed.error}` });
+      }
+    }
+    return json({ success: true, status });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Could not update return" },
+      { status: 400 }
+    );
+  }
+};
+
+export function ErrorBoundary() {
+  return (
+    <Page backAction={{ content: "Returns", url: "/app/returns" }} title="Return">
+      <Banner tone="critical" title="Error loading return">
+        <p>There was a problem loading this return. Please try refreshing the page.</p>
+      </Banner>
+    </Page>
+  );
+}
+
+type ActionData =
+  | { success: true; status: string; warning?: string }
+  | { success: true; message: string }
+  | { error: string };
+
+export default function ReturnDetails() {
+  const { returnRequest, events, labels, requestedExchange } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<ActionData>();
+  const shopify = useAppBridge();
+
+  const [pending, setPending] = useState<(typeof manualTransitions)[number] | null>(null);
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    const data = fetcher.data;
+    if (!data) return;
+    if ("error" in data) {
+      shopify.toast.show(data.error, { isError: true });
+    } else if ("message" in data) {
+      shopify.toast.show(data.message);
+    } else if (data.warning) {
+      shopify.toast.show(data.warning, { isError: true });
+    } else {
+      shopify.toast.show(`Return marked as ${getReturnStatusLabel(data.status).toLowerCase()}`);
+    }
+  }, [fetcher.data, shopify]);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+  const itemsSubtotal = returnRequest.items.reduce(
+    (sum, item) => sum + item.pricePerItem * item.quantity,
+    0
+  );
+  const hasFees = Boolean(returnRequest.restockingFee || returnRequest.returnShippingFee);
+
+  const closeModal = () => {
+    setPending(null);
+    setReason("");
+  };
+
+  const submitTransition = () => {
+    if (!pending) return;
+    fetcher.submit(
+      { _action: "transition", status: pending.status, reason },
+      { method: "POST" }
+    );
+    closeModal();
+  };
+
+  const submitLabelAction = (action: "void_label" | "regenerate_label", labelId: string) => {
+    fetcher.submit({ _action: action, labelId }, { method: "POST" });
+  };
+
+  const available = manualTransitions.filter((t) => canTransition(returnRequest.status, t.status));
+  const canReplaceLabels = ["approved", "awaiting_shipment"].includes(returnRequest.status);
+  // Unrouted returns are routed when their labels are created.
+  const needsLabels =
+    canReplaceLabels &&
+    !returnRequest.isReturnless &&
+    (returnRequest.shipments.length === 0 ||
+      returnRequest.shipments.some((shipment) => !shipment.labels.some((l) => l.status === "active")));
+  const isSubmitting = fetcher.state !== "idle";
+
+  return (
+    <Page
+      backAction={{ content: "Returns", url: "/app/returns" }}
+      title={`Return for ${returnRequest.shopifyOrderName}`}
+      titleMetadata={<ReturnStatusBadge status={returnRequest.status} />}
+      subtitle={returnRequest.customerName}
+      primaryAction={
+        canInspectReturn(returnRequest.status)
+          ? { content: "Inspect", url: `/app/returns/${returnRequest.id}/inspect` }
+          : undefined
+      }
+      secondaryActions={[
+        ...(needsLabels
+          ? [
+              {
+                content: "Create labels",
+                disabled: isSubmitting,
+                onAction: () => fetcher.submit({ _action: "create_labels" }, { method: "POST" }),
+              },
+            ]
+          : []),
+        ...available.map((t) => ({
+          content: t.label,
+          destructive: t.destructive,
+          disabled: isSubmitting,
+          onAction: () => setPending(t),
+        })),
+      ]}
+    >
+      <TitleBar title="Return" />
+      <Layout>
+        <Layout.Section>
+          <BlockStack gap="400">
+            {returnRequest.resolutionError && (
+              <Banner tone="critical" title="The customer's chosen resolution could not be applied">
+                <Text as="p">{returnRequest.resolutionError}</Text>
+              </Banner>
+            )}
+            {labels.length > 0 && (
+              <Card>
+                <BlockStack gap="400">
+                  <Text as="h2" variant="headingMd">Tracking</Text>
+                  {labels.map((label, index) => (
+                    <BlockStack gap="200" key={label.id}>
+                      {index > 0 && <Divider />}
+                      <InlineStack align="space-between" blockAlign="center">
+                        <Text as="span" fontWeight="semibold">
+                          {label.carrier}{" "}
+                          {label.trackingUrl ? (
+                            <Link url={label.trackingUrl} target="_blank">
+                              {label.trackingNumber}
+                            </Link>
+                          ) : (
+                            label.trackingNumber
+                          )}
+                        </Text>
+                        <Text as="span" tone="subdued">
+                          {label.status !== "active"
+                            ? getLabelStatusLabel(label.status)
+                            : label.trackingStatus
+                              ? getTrackingStatusLabel(label.trackingStatus)
+                              : "No tracking yet"}
+                        </Text>
+                      </InlineStack>
+                      {label.voidReason && (
+                        <Text as="p" tone="subdued">
+                          {label.voidReason}
+                          {label.voidRequestedAt
+                            ? ` · ${new Date(label.voidRequestedAt).toLocaleString()}`
+                            : ""}
+                        </Text>
+                      )}
+                      {(label.parcelCount > 1 || label.packaging) && (
+                        <Text as="p" tone="subdued">
+                          {label.parcelCount > 1
+                            ? `Parcel ${label.parcelNumber} of ${label.parcelCount}`
+                            : ""}
+                          {label.parcelCount > 1 && label.packaging ? " · " : ""}
+                          {label.packaging ?? ""}
+                        </Text>
+                      )}
+                      {label.replacesId && (
+                        <Text as="p" tone="subdued">Replacement label</Text>
+                      )}
+                      {!isLabelScanned(label) && (label.status === "active" || canReplaceLabels) && (
+                        <ButtonGroup>
+                          {label.status === "active" && (
+                            <Button
+                              size="slim"
+                              disabled={isSubmitting}
+                              onClick={() => submitLabelAction("void_label", label.id)}
+                            >
+                              Void label
+                            </Button>
+                          )}
+                          {canReplaceLabels && !labels.some((l) => l.replacesId === label.id) && (
+                            <Button
+                              size="slim"
+                              disabled={isSubmitting}
+                              onClick={() => submitLabelAction("regenerate_label", label.id)}
+                            >
+                              Replace label
+                            </Button>
+                          )}
+                        </ButtonGroup>
+                      )}
+                      {label.service && (
+                        <Text as="p" tone="subdued">
+                          {label.service}
+                          {label.cost !== null ? ` · ${formatCurrency(label.cost)}` : ""}
+                          {label.selectionReason === "preferred_service"
+                            ? " · Preferred service"
+                            : Array.isArray(label.rateQuotes)
+                              ? ` · Cheapest allowed of ${label.rateQuotes.length} rates`
+                              : ""}
+                        </Text>
+                      )}
+                      {label.qrCodeUrl && (
+                        <Link url={label.qrCodeUrl} target="_blank">
+                          QR code for printerless drop-off
+                        </Link>
+                      )}
+                      {[...label.checkpoints].reverse().map((checkpoint) => (
+                        <InlineStack key={checkpoint.id} align="space-between" gap="200">
+                          <Text as="span">
+                            {checkpoint.description ?? getTrackingStatusLabel(checkpoint.status)}
+                            {checkpoint.location ? ` · ${checkpoint.location}` : ""}
+                          </Text>
+                          <Text as="span" tone="subdued">
+                            {new Date(checkpoint.occurredAt).toLocaleString()}
+                          </Text>
+                        </InlineStack>
+                      ))}
+                    </BlockStack>
+                  ))}
+                </BlockStack>
+              </Card>
+            )}
+
+            <Card>
+              <BlockStack gap="400">
+                <Text as="h2" variant="headingMd">Timeline</Text>
+                {events.length === 0 ? (
+                  <Text as="p" tone="subdued">No history has been recorded for this return.</Text>
+                ) : (
+                  [...events].reverse().map((event, index) => (
+                    <BlockStack gap="200" key={event.id}>
+                      {index > 0 && <Divider />}
+                      <InlineStack align="space-between" blockAlign="center">
+                        <InlineStack gap="200" blockAlign="center">
+                          <ReturnStatusBadge status={event.toStatus} />
+                          <Text as="span" tone="subdued">
+                            {event.fromStatus
+                              ? `from ${getReturnStatusLabel(event.fromStatus).toLowerCase()}`
+                              : "created"}
+                          </Text>
+                        </InlineStack>
+                        <Text as="span" tone="subdued">
+                          {new Date(event.createdAt).toLocaleString()}
+                        </Text>
+                      </InlineStack>
+                      <Text as="p">
+                        {returnActorLabels[event.actor as ReturnActorType] ?? event.actor}
+                        {event.actorName ? ` · ${event.actorName}` : ""}
+                      </Text>
+                      {event.reason && (
+                        <Text as="p" tone="subdued">{event.reason}</Text>
+                      )}
+                    </BlockStack>
+                  ))
+                )}
+              </BlockStack>
+            </Card>
+          </BlockStack>
+        </Layout.Section>
+
+        <Layout.Section variant="oneThird">
+          <BlockStack gap="400">
+            <Card>
+              <BlockStack gap="200">
+                <Text as="h2" variant="headingMd">Customer</Text>
+                <Text as="p">{returnRequest.customerName}</Text>
+                <Text as="p" tone="subdued">{returnRequest.customerEmail}</Text>
+              </BlockStack>
+            </Card>
+
+            {returnRequest.requestedResolution && (
+              <Card>
+                <BlockStack gap="200">
+                  <Text as="h2" variant="headingMd">Requested resolution</Text>
+                  <Text as="p">
+                    {resolutionLabels[returnRequest.requestedResolution] ??
+                      returnRequest.requestedResolution}
+                    {returnRequest.requestedExchangeType === "shop_now" ? " (shopped the catalog)" : ""}
+                  </Text>
+                  {requestedExchange.map((item) => (
+                    <InlineStack key={item.variantId} align="space-between">
+                      <Text as="span" tone="subdued">
+                        {item.title}
+                        {item.variantTitle ? ` - ${item.variantTitle}` : ""}
+                        {item.alternative
+                          ? ` (or ${item.alternative.variantTitle ?? "second choice"} if sold out)`
+                          : ""}
+                      </Text>
+                      <Text as="span" tone="subdued">
+                        {item.quantity} × {formatCurrency(item.price)}
+                      </Text>
+                    </InlineStack>
+                  ))}
+                  {returnRequest.exchangeHoldStatus && (
+                    <Text
+                      as="p"
+                      tone={
+                        returnRequest.exchangeHoldStatus === "invoiced" ||
+                        returnRequest.exchangeHoldStatus === "charged"
+                          ? "critical"
+                          : "subdued"
+                      }
+                    >
+                      Instant exchange: {formatCurrency(returnRequest.exchangeHoldAmount ?? 0)}{" "}
+                      {returnRequest.exchangeHoldStatus === "held" && returnRequest.exchangeHoldDueAt
+                        ? `held until ${new Date(returnRequest.exchangeHoldDueAt).toLocaleDateString()}`
+                        : returnRequest.exchangeHoldStatus === "invoiced"
+                          ? "invoiced, the original was not returned in time"
+                          : returnRequest.exchangeHoldStatus === "charged"
+                            ? "paid by the customer, the original was not returned in time"
+                            : "hold released"}
+                    </Text>
+                  )}
+                  {returnRequest.exchangeOrderStatus && (
+                    <Text
+                      as="p"
+                      tone={returnRequest.exchangeOrderStatus === "awaiting_payment" ? "caution" : "subdued"}
+                    >
+                      Exchange order:{" "}
+                      {exchangeOrderStatusLabels[returnRequest.exchangeOrderStatus] ??
+                        returnRequest.exchangeOrderStatus}
+                      {returnRequest.exchangeOrderStatus === "awaiting_payment" &&
+                      returnRequest.exchangePaymentDueAt
+                        ? `, ${formatCurrency(returnRequest.exchangeAmountDue ?? 0)} due by ${new Date(
+                            returnRequest.exchangePaymentDueAt
+                          ).toLocaleDateString()}, reminders sent: ${returnRequest.exchangeRemindersSent}`
+                        : ""}
+                    </Text>
+                  )}
+                </BlockStack>
+              </Card>
+            )}
+
+            <Card>
+              <BlockStack gap="200">
+                <Text as="h2" variant="headingMd">Items</Text>
+                {returnRequest.items.map((item) => (
+                  <Box key={item.id} padding="200" background="bg-surface-secondary" borderRadius="100">
+                    <InlineStack align="space-between">
+                      <BlockStack gap="100">
+                        <Text as="span" fontWeight="semibold">{item.title}</Text>
+                        {item.variantTitle && (
+                          <Text as="span" tone="subdued">{item.variantTitle}</Text>
+                        )}
+                      </BlockStack>
+                      <Text as="span">
+                        {item.quantity} × {formatCurrency(item.pricePerItem)}
+                      </Text>
+                    </InlineStack>
+                  </Box>
+                ))}
+                {hasFees && (
+                  <>
+                    <InlineStack align="space-between">
+                      <Text as="span">Subtotal</Text>
+                      <Text as="span">{formatCurrency(itemsSubtotal)}</Text>
+                    </InlineStack>
+                    {!!returnRequest.restockingFee && (
+                      <InlineStack align="space-between">
+                        <Text as="span" tone="subdued">Restocking fee</Text>
+                        <Text as="span" tone="subdued">
+                          −{formatCurrency(returnRequest.restockingFee)}
+                        </Text>
+                      </InlineStack>
+                    )}
+                    {!!returnRequest.returnShippingFee && (
+                      <InlineStack align="space-between">
+                        <Text as="span" tone="subdued">Return shipping fee</Text>
+                        <Text as="span" tone="subdued">
+                          −{formatCurrency(returnRequest.returnShippingFee)}
+                        </Text>
+                      </InlineStack>
+                    )}
+                  </>
+                )}
+                {returnRequest.feeWaiver && (
+                  <Text as="p" tone="subdued">{returnRequest.feeWaiver}</Text>
+                )}
+                <InlineStack align="space-between">
+                  <Text as="span" fontWeight="semibold">Total</Text>
+                  <Text as="span" fontWeight="semibold">
+                    {formatCurrency(returnRequest.totalRefundAmount)}
+                  </Text>
+                </InlineStack>
+              </BlockStack>
+            </Card>
+          </BlockStack>
+        </Layout.Section>
+      </Layout>
+
+      <Modal
+        open={pending !== null}
+        onClose={closeModal}
+        title={pending ? `${pending.label}?` : ""}
+        primaryAction={{
+          content: pending?.label ?? "Confirm",
+          destructive: pending?.destructive,
+          onAction: submitTransition,
+        }}
+        secondaryActions={[{ content: "Cancel", onAction: closeModal }]}
+      >
+        <Modal.Section>
+          <TextField
+            label="Reason (optional)"
+            value={reason}
+            onChange={setReason}
+            multiline={2}
+            helpText="Saved in the return's timeline"
+            autoComplete="off"
+          />
+        </Modal.Section>
+      </Modal>
+    </Page>
+  );
+}
@@ -24,6 +24,7 @@ import { getReturnRequestById } from "../services/returns.server";
 import {
   fetchProducts,
   createExchangeDraftOrder,
+  getExchangeSettings,
   updateReturnWithExchange,
 } from "../services/exchange.server";
 import { calculateExchangeDifference } from "../utils/exchange";
@@ -136,12 +137,20 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
       return json({ error: "Failed to create exchange order" }, { status: 500 });
     }
 
+    const { exchangePaymentDays } = await getExchangeSettings(session.shop);
+
     await updateReturnWithExchange(returnId, {
       resolutionType: "exchange",
       exchangeType: "shop_now",
       exchangeOrderId: draftOrder.id,
       exchangeValueUsed: Math.min(returnRequest.totalRefundAmount, cartTotal),
       exchangeBonusApplied: 0,
+      exchangeOrderStatus: customerOwes ? "awaiting_payment" : "draft",
+      exchangeInvoiceUrl: draftOrder.invoiceUrl ?? null,
+      exchangeAmountDue: customerOwes ? difference : null,
+      exchangePaymentDueAt: customerOwes
+        ? new Date(Date.now() + exchangePaymentDays * 24 * 60 * 60 * 1000)
+        : null,
     });
 
     return json({
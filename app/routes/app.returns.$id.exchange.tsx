@@ -25,8 +25,7 @@ import { getReturnRequestById } from "../services/returns.server";
 import {
   getExchangeSettings,
   calculateStoreCreditValue,
-  updateReturnWithStoreCredit,
-  createGiftCard,
+  issueStoreCredit,
 } from "../services/exchange.server";
 import { sendStoreCreditNotification } from "../services/notifications.server";
 
@@ -76,56 +75,35 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
   }
 
   if (resolution === "store_credit") {
-    const settings = await getExchangeSettings(session.shop);
-    const creditValue = calculateStoreCreditValue(
-      returnRequest.totalRefundAmount,
-      settings.storeCreditBonusPercent
-    );
-
-    const expiresOn = settings.storeCreditExpiryDays
-      ? new Date(Date.now() + settings.storeCreditExpiryDays * 24 * 60 * 60 * 1000)
-          .toISOString()
-          .split("T")[0]
-      : undefined;
-
-    const giftCardResult = await createGiftCard(admin, {
-      initialValue: creditValue.totalValue,
-      note: `Store credit for return #${returnRequest.id}`,
-      expiresOn,
-    });
-
-    const data = await giftCardResult;
-    if (data.data?.giftCardCreate?.userErrors?.length > 0) {
-      return json({ 
-        error: data.data.giftCardCreate.userErrors[0].message 
-      }, { status: 400 });
+    let credit;
+    try {
+      credit = await issueStoreCredit(admin, returnRequest);
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : "Could not issue store credit" },
+        { status: 400 }
+      );
     }
 
-    const giftCardCode = data.data?.giftCardCreate?.giftCardCode;
-    if (giftCardCode) {
-      await updateReturnWithStoreCredit(returnId, {
-        storeCreditIssued: creditValue.totalValue,
-        storeCreditCode: giftCardCode,
-      });
-
+    if (credit.giftCardCode) {
       const shopName = session.shop.replace(".myshopify.com", "");
       await sendStoreCreditNotification({
         customerEmail: returnRequest.customerEmail,
         customerName: returnRequest.customerName,
         shopName,
         orderName: returnRequest.shopifyOrderName,
-        giftCardCode,
+        giftCardCode: credit.giftCardCode,
         creditAmount: returnRequest.totalRefundAmount,
-        bonusAmount: creditValue.bonusValue,
-        expiresOn,
+        bonusAmount: credit.bonusValue,
+        expiresOn: credit.expiresOn,
       });
     }
 
     return json({ 
       success: true, 
       resolution: "store_credit",
-      giftCardCode,
-      amount: creditValue.totalValue,
+      giftCardCode: credit.giftCardCode,
+      amount: credit.amount,
     });
   }
 
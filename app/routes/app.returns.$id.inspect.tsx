@@ -0,0 +1,484 @@
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useFetcher } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  BlockStack,
+  Text,
+  InlineStack,
+  Box,
+  Badge,
+  Banner,
+  Select,
+  TextField,
+  Checkbox,
+  DropZone,
+  Thumbnail,
+  Divider,
+} from "@shopify/polaris";
+import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { useState, useCallback, useEffect } from "react";
+import { authenticate } from "../shopify.server";
+import { getReturnRequestById } from "../services/returns.server";
+import {
+  completeInspection,
+  parsePhotoUrls,
+  saveInspection,
+  uploadInspectionPhoto,
+  type InspectionItemInput,
+  type InspectionSummary,
+} from "../services/inspection.server";
+import { refundStatusLabels } from "../utils/refund";
+import { canInspectReturn, getReturnStatusLabel } from "../utils/return-status";
+import { merchantActor } from "../services/return-lifecycle.server";
+import {
+  InspectionSchema,
+  formatZodErrors,
+  validateWithSchema,
+} from "../schemas/validation";
+import {
+  ITEM_CONDITIONS,
+  dispositionTypeLabels,
+  itemConditionLabels,
+  type DispositionType,
+  type ItemCondition,
+} from "../utils/disposition";
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const returnId = params.id;
+
+  if (!returnId) {
+    throw new Response("Return ID required", { status: 400 });
+  }
+
+  const returnRequest = await getReturnRequestById(returnId);
+  if (!returnRequest) {
+    throw new Response("Return not found", { status: 404 });
+  }
+
+  if (returnRequest.shop !== session.shop) {
+    throw new Response("Unauthorized", { status: 403 });
+  }
+
+  return json({
+    returnRequest,
+    photos: Object.fromEntries(
+      returnRequest.items.map((item) => [item.id, parsePhotoUrls(item.photoUrls)])
+    ),
+  });
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const actionType = formData.get("_action");
+  const returnId = params.id;
+
+  if (!returnId) {
+    return json({ error: "Return ID required" }, { status: 400 });
+  }
+
+  if (actionType === "uploadPhoto") {
+    const file = formData.get("photo");
+    if (!(file instanceof File) || file.size === 0) {
+      return json({ error: "No photo provided" }, { status: 400 });
+    }
+
+    try {
+      const url = await uploadInspectionPhoto(admin, file);
+      return json({ success: true, itemId: formData.get("itemId") as string, url });
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : "Photo upload failed" },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (actionType === "saveInspection" || actionType === "completeInspection") {
+    const parsed = validateWithSchema(InspectionSchema, {
+      items: JSON.parse((formData.get("items") as string) || "[]"),
+    });
+
+    if (!parsed.success) {
+      return json({ error: formatZodErrors(parsed.errors) }, { status: 400 });
+    }
+
+    try {
+      if (actionType === "saveInspection") {
+        await saveInspection(session.shop, returnId, parsed.data.items);
+        return json({ success: true, saved: true });
+      }
+
+      const summary = await completeInspection(
+        admin,
+        session.shop,
+        returnId,
+        parsed.data.items,
+        merchantActor(session)
+      );
+      return json({ success: true, summary });
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : "Inspection failed" },
+        { status: 400 }
+      );
+    }
+  }
+
+  return json({ error: "Unknown action" }, { status: 400 });
+};
+
+export function ErrorBoundary() {
+  return (
+    <Page backAction={{ content: "Returns", url: "/app/returns" }} title="Inspect Return">
+      <Banner tone="critical" title="Error loading inspection">
+        <p>There was a problem loading this return. Please try refreshing the page.</p>
+      </Banner>
+    </Page>
+  );
+}
+
+const conditionOptions = ITEM_CONDITIONS.map((condition) => ({
+  label: itemConditionLabels[condition],
+  value: condition,
+}));
+
+type ActionData =
+  | { success: true; itemId: string; url: string }
+  | { success: true; saved: true }
+  | { success: true; summary: InspectionSummary }
+  | { error: string };
+
+function PhotoUploader({
+  itemId,
+  photos,
+  onUploaded,
+}: {
+  itemId: string;
+  photos: string[];
+  onUploaded: (itemId: string, url: string) => void;
+}) {
+  const fetcher = useFetcher<ActionData>();
+
+  useEffect(() => {
+    const data = fetcher.data;
+    if (data && "url" in data) {
+      onUploaded(data.itemId, data.url);
+    }
+  }, [fetcher.data, onUploaded]);
+
+  const handleDrop = useCallback(
+    (_dropFiles: File[], acceptedFiles: File[]) => {
+      for (const file of acceptedFiles) {
+        const formData = new FormData();
+        formData.append("_action", "uploadPhoto");
+        formData.append("itemId", itemId);
+        formData.append("photo", file);
+        fetcher.submit(formData, { method: "POST", encType: "multipart/form-data" });
+      }
+    },
+    [fetcher, itemId]
+  );
+
+  return (
+    <BlockStack gap="200">
+      {photos.length > 0 && (
+        <InlineStack gap="200">
+          {photos.map((url) => (
+            <Thumbnail key={url} source={url} alt="Inspection photo" size="small" />
+          ))}
+        </InlineStack>
+      )}
+      <DropZone
+        accept="image/*"
+        type="image"
+        onDrop={handleDrop}
+        disabled={fetcher.state !== "idle"}
+        label="Photos"
+      >
+        <DropZone.FileUpload
+          actionTitle={fetcher.state !== "idle" ? "Uploading..." : "Add photos"}
+        />
+      </DropZone>
+    </BlockStack>
+  );
+}
+
+export default function InspectReturn() {
+  const { returnRequest, photos } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<ActionData>();
+  const shopify = useAppBridge();
+
+  const readOnly = !canInspectReturn(returnRequest.status);
+
+  const [inspection, setInspection] = useState<Record<string, InspectionItemInput>>(() =>
+    Object.fromEntries(
+      returnRequest.items.map((item) => [
+        item.id,
+        {
+          itemId: item.id,
+          condition: (item.condition as ItemCondition) || "new",
+          quantityReceived: item.quantityReceived ?? item.quantity,
+          photoUrls: photos[item.id] ?? [],
+          notes: item.inspectionNotes ?? "",
+          discrepancy: item.discrepancy,
+        },
+      ])
+    )
+  );
+
+  const summary = fetcher.data && "summary" in fetcher.data ? fetcher.data.summary : null;
+
+  useEffect(() => {
+    const data = fetcher.data;
+    if (!data) return;
+    if ("error" in data) {
+      shopify.toast.show(data.error, { isError: true });
+    } else if ("saved" in data) {
+      shopify.toast.show("Inspection saved");
+    } else if ("summary" in data) {
+      shopify.toast.show("Inspection complete");
+    }
+  }, [fetcher.data, shopify]);
+
+  const updateItem = (itemId: string, changes: Partial<InspectionItemInput>) =>
+    setInspection((current) => ({
+      ...current,
+      [itemId]: { ...current[itemId], ...changes },
+    }));
+
+  const handlePhotoUploaded = useCallback((itemId: string, url: string) => {
+    setInspection((current) => ({
+      ...current,
+      [itemId]: {
+        ...current[itemId],
+        photoUrls: [...(current[itemId].photoUrls ?? []), url],
+      },
+    }));
+  }, []);
+
+  const submit = (actionType: "saveInspection" | "completeInspection") => {
+    fetcher.submit(
+      { _action: actionType, items: JSON.stringify(Object.values(inspection)) },
+      { method: "POST" }
+    );
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(amount);
+  };
+
+  const expectedRefund = returnRequest.items.reduce(
+    (sum, item) => sum + item.pricePerItem * item.quantity,
+    0
+  );
+  const receivedRefund = returnRequest.items.reduce((sum, item) => {
+    const received = Math.min(inspection[item.id]?.quantityReceived ?? 0, item.quantity);
+    return sum + item.pricePerItem * Math.max(received, 0);
+  }, 0);
+
+  const isSubmitting = fetcher.state !== "idle";
+
+  return (
+    <Page
+      backAction={{ content: "Returns", url: "/app/returns" }}
+      title={`Inspect ${returnRequest.shopifyOrderName}`}
+      subtitle={returnRequest.customerName}
+      primaryAction={{
+        content: "Complete inspection",
+        onAction: () => submit("completeInspection"),
+        loading: isSubmitting,
+        disabled: readOnly,
+      }}
+      secondaryActions={[
+        {
+          content: "Save progress",
+          onAction: () => submit("saveInspection"),
+          disabled: readOnly || isSubmitting,
+        },
+      ]}
+    >
+      <TitleBar title="Inspect Return" />
+      <Layout>
+        {readOnly && (
+          <Layout.Section>
+            <Banner tone="info">
+              <p>
+                This return is {getReturnStatusLabel(returnRequest.status).toLowerCase()};
+                inspection results are read-only.
+              </p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {summary && (
+          <Layout.Section>
+            <Banner
+              tone={summary.discrepancies.length > 0 ? "warning" : "success"}
+              title={`Refund set to ${formatCurrency(summary.refundAmount)} (expected ${formatCurrency(summary.expectedAmount)})`}
+            >
+              <BlockStack gap="100">
+                {summary.discrepancies.map((discrepancy) => (
+                  <Text as="p" key={discrepancy}>{discrepancy}</Text>
+                ))}
+                {summary.dispositions.map((d) => (
+                  <Text as="p" key={d.itemId} tone={d.success ? undefined : "critical"}>
+                    {returnRequest.items.find((item) => item.id === d.itemId)?.title}:{" "}
+                    {d.dispositionType
+                      ? dispositionTypeLabels[d.dispositionType as DispositionType]
+                      : "Needs manual review"}
+                    {d.reference ? ` (${d.reference})` : ""}
+                    {d.error ? ` - ${d.error}` : ""}
+                  </Text>
+                ))}
+                {summary.refund.status !== "skipped" && (
+                  <Text
+                    as="p"
+                    tone={summary.refund.status === "refunded" ? undefined : "critical"}
+                  >
+                    {refundStatusLabels[summary.refund.status]}:{" "}
+                    {formatCurrency(summary.refund.refundedAmount)}
+                    {summary.refund.error ? ` - ${summary.refund.error}` : ""}
+                  </Text>
+                )}
+                {summary.resolution.status === "failed" && (
+                  <Text as="p" tone="critical">
+                    Customer's {summary.resolution.resolution?.replace("_", " ")} could not be
+                    settled: {summary.resolution.error}
+                  </Text>
+                )}
+              </BlockStack>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <BlockStack gap="400">
+            {returnRequest.items.map((item) => {
+              const current = inspection[item.id];
+              const short = current.quantityReceived !== item.quantity;
+
+              return (
+                <Card key={item.id}>
+                  <BlockStack gap="400">
+                    <InlineStack align="space-between" blockAlign="center">
+                      <BlockStack gap="100">
+                        <Text as="h3" variant="headingMd">{item.title}</Text>
+                        {item.variantTitle && (
+                          <Text as="span" tone="subdued">{item.variantTitle}</Text>
+                        )}
+                        {item.reason && (
+                          <Text as="span" tone="subdued">Reason: {item.reason}</Text>
+                        )}
+                      </BlockStack>
+                      <InlineStack gap="200">
+                        {item.dispositionType && (
+                          <Badge tone="success">
+                            {dispositionTypeLabels[item.dispositionType as DispositionType] ??
+                              item.dispositionType}
+                          </Badge>
+                        )}
+                        {(short || current.discrepancy) && (
+                          <Badge tone="warning">Discrepancy</Badge>
+                        )}
+                      </InlineStack>
+                    </InlineStack>
+
+                    <Divider />
+
+                    <InlineStack gap="400" wrap={false}>
+                      <Box minWidth="180px">
+                        <Select
+                          label="Condition"
+                          options={conditionOptions}
+                          value={current.condition}
+                          onChange={(value) => updateItem(item.id, { condition: value as ItemCondition })}
+                          disabled={readOnly}
+                        />
+                      </Box>
+                      <Box minWidth="160px">
+                        <TextField
+                          label="Received"
+                          type="number"
+                          min={0}
+                          value={current.quantityReceived.toString()}
+                          onChange={(value) =>
+                            updateItem(item.id, { quantityReceived: Math.max(parseInt(value) || 0, 0) })
+                          }
+                          suffix={`of ${item.quantity}`}
+                          autoComplete="off"
+                          disabled={readOnly}
+                        />
+                      </Box>
+                      <Box paddingBlockStart="600">
+                        <Checkbox
+                          label="Flag discrepancy"
+                          checked={Boolean(current.discrepancy) || short}
+                          onChange={(checked) => updateItem(item.id, { discrepancy: checked })}
+                          disabled={readOnly || short}
+                          helpText={short ? "Received quantity differs from expected" : undefined}
+                        />
+                      </Box>
+                    </InlineStack>
+
+                    <TextField
+                      label="Inspection notes"
+                      value={current.notes ?? ""}
+                      onChange={(value) => updateItem(item.id, { notes: value })}
+                      multiline={2}
+                      autoComplete="off"
+                      disabled={readOnly}
+                    />
+
+                    {readOnly ? (
+                      (current.photoUrls?.length ?? 0) > 0 && (
+                        <InlineStack gap="200">
+                          {current.photoUrls?.map((url) => (
+                            <Thumbnail key={url} source={url} alt="Inspection photo" size="small" />
+                          ))}
+                        </InlineStack>
+                      )
+                    ) : (
+                      <PhotoUploader
+                        itemId={item.id}
+                        photos={current.photoUrls ?? []}
+                        onUploaded={handlePhotoUploaded}
+                      />
+                    )}
+                  </BlockStack>
+                </Card>
+              );
+            })}
+          </BlockStack>
+        </Layout.Section>
+
+        <Layout.Section variant="oneThird">
+          <Card>
+            <BlockStack gap="200">
+              <Text as="h2" variant="headingMd">Refund</Text>
+              <InlineStack align="space-between">
+                <Text as="span" tone="subdued">Requested</Text>
+                <Text as="span">{formatCurrency(expectedRefund)}</Text>
+              </InlineStack>
+              <InlineStack align="space-between">
+                <Text as="span" fontWeight="semibold">Based on received</Text>
+                <Text as="span" fontWeight="semibold">{formatCurrency(receivedRefund)}</Text>
+              </InlineStack>
+              <Text as="p" tone="subdued">
+                Completing the inspection applies disposition rules, restocks sellable items and
+                sets the refund to the received amount.
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
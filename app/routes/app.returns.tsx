@@ -1,6 +1,6 @@
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
-import { useLoaderData, useFetcher } from "@remix-run/react";
+import { useLoaderData, useFetcher, useOutlet } from "@remix-run/react";
 import {
   Page,
   Layout,
@@ -18,56 +18,109 @@ import {
   TextField,
   Banner,
 } from "@shopify/polaris";
-import { TitleBar } from "@shopify/app-bridge-react";
-import { useState, useCallback } from "react";
+import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { useState, useCallback, useEffect } from "react";
 import { authenticate } from "../shopify.server";
 import {
   getReturnRequests,
+  getReturnRequestById,
   approveReturnRequest,
   declineReturnRequest,
+  completeReturnRequest,
 } from "../services/returns.server";
+import { issueReturnRefund } from "../services/refund.server";
+import { releaseExchangeReservations } from "../services/reservation.server";
+import { merchantActor } from "../services/return-lifecycle.server";
+import { ReturnStatusBadge } from "../components";
+import {
+  RETURN_STATUSES,
+  canInspectReturn,
+  canTransition,
+  isReturnStatus,
+  returnStatusLabels,
+} from "../utils/return-status";
+import { canRetryRefund, isRefundStatus, refundStatusLabels } from "../utils/refund";
+import { getRiskLevel, isRiskFactorList, riskLevelLabels } from "../utils/risk";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
   const url = new URL(request.url);
-  const status = url.searchParams.get("status") as "pending" | "approved" | "declined" | "completed" | undefined;
+  const param = url.searchParams.get("status") ?? "";
+  const status = isReturnStatus(param) ? param : undefined;
 
-  const returns = await getReturnRequests(session.shop, { status: status || undefined });
+  const returns = await getReturnRequests(session.shop, { status });
 
   return json({ returns, currentStatus: status });
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const formData = await request.formData();
   const action = formData.get("_action");
   const returnId = formData.get("returnId") as string;
   const notes = formData.get("notes") as string | undefined;
+  const actor = merchantActor(session);
 
-  if (action === "approve") {
-    await approveReturnRequest(returnId, notes);
-    return json({ success: true, action: "approved" });
-  }
+  try {
+    if (action === "approve") {
+      const approved = await approveReturnRequest(returnId, notes, actor, admin);
+      return json({ success: true, action: "approved", warning: approved.resolution?.error });
+    }
+
+    if (action === "decline") {
+      await declineReturnRequest(returnId, notes, actor);
+      await releaseExchangeReservations(admin, returnId, "Return declined");
+      return json({ success: true, action: "declined" });
+    }
 
-  if (action === "decline") {
-    await declineReturnRequest(returnId, notes);
-    return json({ success: true, action: "declined" });
+    if (action === "retryRefund") {
+      const returnRequest = await getReturnRequestById(returnId);
+      if (!returnRequest || returnRequest.shop !== session.shop) {
+        return json({ success: false, error: "Return not found" }, { status: 404 });
+      }
+
+      // An open return left waiting by the failed refund closes once it goes through.
+      const refund = canTransition(returnRequest.status, "completed")
+        ? (await completeReturnRequest(returnId, admin, actor)).refund
+        : await issueReturnRefund(admin, session.shop, returnId, actor);
+      return json({ success: refund?.status === "refunded", action: "refunded", refund });
+    }
+  } catch (error) {
+    return json(
+      { success: false, error: error instanceof Error ? error.message : "Could not update return" },
+      { status: 400 }
+    );
   }
 
   return json({ success: false, error: "Unknown action" });
 };
 
-function StatusBadge({ status }: { status: string }) {
-  const statusMap: Record<string, { tone: "info" | "success" | "warning" | "critical" | "attention"; label: string }> = {
-    pending: { tone: "attention", label: "Pending" },
-    approved: { tone: "info", label: "Approved" },
-    completed: { tone: "success", label: "Completed" },
-    declined: { tone: "critical", label: "Declined" },
-    cancelled: { tone: "warning", label: "Cancelled" },
-  };
+function RefundBadge({ status }: { status: string | null }) {
+  if (!status || !isRefundStatus(status)) return null;
+
+  const tones = {
+    refunded: "success",
+    partial: "warning",
+    failed: "critical",
+  } as const;
+
+  return <Badge tone={tones[status]}>{refundStatusLabels[status]}</Badge>;
+}
+
+function RiskBadge({ score }: { score: number | null }) {
+  if (score === null) {
+    return <Text as="span" tone="subdued">—</Text>;
+  }
+
+  const level = getRiskLevel(score);
+  const tones = {
+    low: "success",
+    medium: "attention",
+    high: "warning",
+    very_high: "critical",
+  } as const;
 
-  const config = statusMap[status] ?? { tone: "info" as const, label: status };
-  return <Badge tone={config.tone}>{config.label}</Badge>;
+  return <Badge tone={tones[level]}>{`${riskLevelLabels[level]} (${score})`}</Badge>;
 }
 
 export function ErrorBoundary() {
@@ -81,8 +134,15 @@ export function ErrorBoundary() {
 }
 
 export default function Returns() {
+  // Child routes (details, inspection, exchange) take over the page instead of rendering below the list.
+  const outlet = useOutlet();
+  return outlet ?? <ReturnsList />;
+}
+
+function ReturnsList() {
   const { returns, currentStatus } = useLoaderData<typeof loader>();
   const fetcher = useFetcher();
+  const shopify = useAppBridge();
   const [selectedReturn, setSelectedReturn] = useState<typeof returns[0] | null>(null);
   const [modalOpen, setModalOpen] = useState(false);
   const [notes, setNotes] = useState("");
@@ -95,6 +155,13 @@ export default function Returns() {
     }).format(amount);
   };
 
+  useEffect(() => {
+    const data = fetcher.data as { error?: string; warning?: string } | undefined;
+    if (data?.error || data?.warning) {
+      shopify.toast.show((data.error ?? data.warning) as string, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
   const handleApprove = useCallback((returnRequest: typeof returns[0]) => {
     setSelectedReturn(returnRequest);
     setModalOpen(true);
@@ -117,6 +184,17 @@ export default function Returns() {
     setSelectedReturn(null);
   }, [selectedReturn, notes, fetcher]);
 
+  const retryRefund = useCallback(() => {
+    if (!selectedReturn) return;
+
+    fetcher.submit(
+      { _action: "retryRefund", returnId: selectedReturn.id },
+      { method: "POST" }
+    );
+    setModalOpen(false);
+    setSelectedReturn(null);
+  }, [selectedReturn, fetcher]);
+
   const handleStatusFilterChange = useCallback((value: string[]) => {
     setStatusFilter(value);
   }, []);
@@ -133,12 +211,10 @@ export default function Returns() {
         <ChoiceList
           title="Status"
           titleHidden
-          choices={[
-            { label: "Pending", value: "pending" },
-            { label: "Approved", value: "approved" },
-            { label: "Completed", value: "completed" },
-            { label: "Declined", value: "declined" },
-          ]}
+          choices={RETURN_STATUSES.map((status) => ({
+            label: returnStatusLabels[status],
+            value: status,
+          }))}
           selected={statusFilter}
           onChange={handleStatusFilterChange}
           allowMultiple
@@ -167,11 +243,13 @@ export default function Returns() {
       <Text as="span" variant="bodyMd" fontWeight="semibold">
         {returnRequest.shopifyOrderName}
       </Text>
+      {returnRequest.isReturnless && <Badge tone="info">Returnless</Badge>}
     </InlineStack>,
     returnRequest.customerName,
     `${returnRequest.items.length} item(s)`,
     formatCurrency(returnRequest.totalRefundAmount),
-    <StatusBadge key={`status-${returnRequest.id}`} status={returnRequest.status} />,
+    <ReturnStatusBadge key={`status-${returnRequest.id}`} status={returnRequest.status} />,
+    <RiskBadge key={`risk-${returnRequest.id}`} score={returnRequest.riskScore} />,
     new Date(returnRequest.createdAt).toLocaleDateString(),
     <InlineStack gap="200" key={`actions-${returnRequest.id}`}>
       {returnRequest.status === "pending" && (
@@ -184,9 +262,14 @@ export default function Returns() {
           </Button>
         </>
       )}
-      {returnRequest.status !== "pending" && (
-        <Button size="slim" variant="plain">View</Button>
+      {canInspectReturn(returnRequest.status) && (
+        <Button size="slim" url={`/app/returns/${returnRequest.id}/inspect`}>
+          Inspect
+        </Button>
       )}
+      <Button size="slim" variant="plain" url={`/app/returns/${returnRequest.id}`}>
+        View
+      </Button>
     </InlineStack>,
   ]);
 
@@ -220,8 +303,8 @@ export default function Returns() {
               </Box>
             ) : (
               <DataTable
-                columnContentTypes={["text", "text", "text", "numeric", "text", "text", "text"]}
-                headings={["Order", "Customer", "Items", "Amount", "Status", "Date", "Actions"]}
+                columnContentTypes={["text", "text", "text", "numeric", "text", "text", "text", "text"]}
+                headings={["Order", "Customer", "Items", "Amount", "Status", "Risk", "Date", "Actions"]}
                 rows={rows}
               />
             )}
@@ -258,6 +341,26 @@ export default function Returns() {
                 <Text as="p" tone="subdued">{selectedReturn.customerEmail}</Text>
               </BlockStack>
 
+              {selectedReturn.riskScore !== null && (
+                <BlockStack gap="200">
+                  <InlineStack align="space-between">
+                    <Text as="h3" variant="headingMd">Risk</Text>
+                    <RiskBadge score={selectedReturn.riskScore} />
+                  </InlineStack>
+                  {isRiskFactorList(selectedReturn.riskFactors) &&
+                  selectedReturn.riskFactors.length > 0 ? (
+                    selectedReturn.riskFactors.map((factor) => (
+                      <InlineStack key={factor.code} align="space-between">
+                        <Text as="span">{factor.label}</Text>
+                        <Text as="span" tone="subdued">+{factor.points}</Text>
+                      </InlineStack>
+                    ))
+                  ) : (
+                    <Text as="p" tone="subdued">No risk factors found.</Text>
+                  )}
+                </BlockStack>
+              )}
+
               <BlockStack gap="200">
                 <Text as="h3" variant="headingMd">Items</Text>
                 {selectedReturn.items.map((item) => (
@@ -277,6 +380,94 @@ export default function Returns() {
                 ))}
               </BlockStack>
 
+              {selectedReturn.shipments.length > 0 && (
+                <BlockStack gap="200">
+                  <Text as="h3" variant="headingMd">Shipments</Text>
+                  {selectedReturn.shipments.map((shipment) => {
+                    const shipmentItems = selectedReturn.items.filter(
+                      (item) => item.shipmentId === shipment.id
+                    );
+                    const label = selectedReturn.labels.find(
+                      (l) => l.shipmentId === shipment.id
+                    );
+
+                    return (
+                      <Box key={shipment.id} padding="200" background="bg-surface-secondary" borderRadius="100">
+                        <BlockStack gap="100">
+                          <InlineStack align="space-between">
+                            <Text as="span" fontWeight="semibold">
+                              {shipment.destination?.name ?? "No destination"}
+                            </Text>
+                            {label ? (
+                              <Badge tone="success">{label.carrier}</Badge>
+                            ) : (
+                              <Badge>No label</Badge>
+                            )}
+                          </InlineStack>
+                          {shipmentItems.map((item) => (
+                            <Text as="span" tone="subdued" key={item.id}>
+                              {item.quantity} × {item.title}
+                            </Text>
+                          ))}
+                          {label?.trackingNumber && (
+                            <Text as="span" tone="subdued">
+                              Tracking: {label.trackingNumber}
+                            </Text>
+                          )}
+                        </BlockStack>
+                      </Box>
+                    );
+                  })}
+                </BlockStack>
+              )}
+
+              {selectedReturn.refundStatus && (
+                <BlockStack gap="200">
+                  <InlineStack align="space-between">
+                    <Text as="h3" variant="headingMd">Refund</Text>
+                    <RefundBadge status={selectedReturn.refundStatus} />
+                  </InlineStack>
+                  <InlineStack align="space-between">
+                    <Text as="span">Refunded</Text>
+                    <Text as="span">{formatCurrency(selectedReturn.refundedAmount ?? 0)}</Text>
+                  </InlineStack>
+                  {!!selectedReturn.refundedShipping && (
+                    <InlineStack align="space-between">
+                      <Text as="span" tone="subdued">Including shipping</Text>
+                      <Text as="span" tone="subdued">
+                        {formatCurrency(selectedReturn.refundedShipping)}
+                      </Text>
+                    </InlineStack>
+                  )}
+                  {!!selectedReturn.restockingFee && (
+                    <InlineStack align="space-between">
+                      <Text as="span" tone="subdued">Restocking fee</Text>
+                      <Text as="span" tone="subdued">
+                        −{formatCurrency(selectedReturn.restockingFee)}
+                      </Text>
+                    </InlineStack>
+                  )}
+                  {!!selectedReturn.returnShippingFee && (
+                    <InlineStack align="space-between">
+                      <Text as="span" tone="subdued">Return shipping fee</Text>
+                      <Text as="span" tone="subdued">
+                        −{formatCurrency(selectedReturn.returnShippingFee)}
+                      </Text>
+                    </InlineStack>
+                  )}
+                  {selectedReturn.refundError && (
+                    <Banner tone="critical">
+                      <p>{selectedReturn.refundError}</p>
+                    </Banner>
+                  )}
+                  {canRetryRefund(selectedReturn.refundStatus) && (
+                    <InlineStack>
+                      <Button onClick={retryRefund}>Retry refund</Button>
+                    </InlineStack>
+                  )}
+                </BlockStack>
+              )}
+
               {selectedReturn.reason && (
                 <BlockStack gap="200">
                   <Text as="h3" variant="headingMd">Reason</Text>
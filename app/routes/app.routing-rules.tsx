@@ -25,8 +25,28 @@ import {
   getRoutingRules,
   getReturnDestinations,
   createRoutingRule,
+  updateRoutingRule,
   createReturnDestination,
 } from "../services/returns.server";
+import { toRuleConditionFields } from "../services/routing.server";
+import {
+  ConditionGroupSchema,
+  formatZodErrors,
+  validateWithSchema,
+} from "../schemas/validation";
+import {
+  isConditionGroup,
+  type ConditionGroup,
+  type ConditionGroupOperator,
+  type ConditionLeaf,
+  type ConditionNode,
+  type ConditionType,
+} from "../utils/routing";
+import {
+  DESTINATION_TYPES,
+  destinationTypeLabels,
+  type DestinationType,
+} from "../utils/disposition";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
@@ -54,19 +74,34 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       postalCode: formData.get("postalCode") as string,
       country: (formData.get("country") as string) || "US",
       phone: (formData.get("phone") as string) || undefined,
+      destinationType: (formData.get("destinationType") as string) || "warehouse",
+      preferredService: (formData.get("preferredService") as string) || undefined,
       isDefault: formData.get("isDefault") === "true",
     });
     return json({ success: true, destination });
   }
 
-  if (actionType === "createRule") {
-    const rule = await createRoutingRule(session.shop, {
+  if (actionType === "createRule" || actionType === "updateRule") {
+    const parsed = validateWithSchema(
+      ConditionGroupSchema,
+      JSON.parse((formData.get("conditions") as string) || "null")
+    );
+
+    if (!parsed.success) {
+      return json({ success: false, error: formatZodErrors(parsed.errors) }, { status: 400 });
+    }
+
+    const ruleData = {
       name: formData.get("name") as string,
       priority: parseInt(formData.get("priority") as string) || 0,
-      conditionType: formData.get("conditionType") as string,
-      conditionValue: formData.get("conditionValue") as string,
+      ...toRuleConditionFields(parsed.data as ConditionGroup),
       destinationId: formData.get("destinationId") as string,
-    });
+    };
+
+    const rule =
+      actionType === "updateRule"
+        ? await updateRoutingRule(session.shop, formData.get("ruleId") as string, ruleData)
+        : await createRoutingRule(session.shop, ruleData);
     return json({ success: true, rule });
   }
 
@@ -83,6 +118,183 @@ export function ErrorBoundary() {
   );
 }
 
+const conditionTypeOptions = [
+  { label: "Product Type", value: "product_type" },
+  { label: "Product Tag", value: "product_tag" },
+  { label: "Product Vendor", value: "product_vendor" },
+  { label: "SKU Contains", value: "sku_contains" },
+  { label: "Order Value Above", value: "order_value_above" },
+  { label: "Order Value Below", value: "order_value_below" },
+  { label: "Return Reason", value: "return_reason" },
+  { label: "Customer Tag", value: "customer_tag" },
+];
+
+const destinationTypeOptions = DESTINATION_TYPES.map((type) => ({
+  label: destinationTypeLabels[type],
+  value: type,
+}));
+
+const groupOperatorOptions = [
+  { label: "All of (AND)", value: "AND" },
+  { label: "Any of (OR)", value: "OR" },
+  { label: "None of (NOT)", value: "NOT" },
+];
+
+const MAX_GROUP_DEPTH = 3;
+
+function emptyLeaf(): ConditionLeaf {
+  return { type: "product_type", value: "" };
+}
+
+function emptyConditionTree(): ConditionGroup {
+  return { operator: "AND", conditions: [emptyLeaf()] };
+}
+
+function conditionTreeFromRule(rule: {
+  conditionType: string;
+  conditionValue: string;
+  conditions: unknown;
+}): ConditionGroup {
+  const tree = rule.conditions as ConditionNode | null;
+  if (tree && isConditionGroup(tree)) {
+    return tree;
+  }
+  return {
+    operator: "AND",
+    conditions: [{ type: rule.conditionType as ConditionType, value: rule.conditionValue }],
+  };
+}
+
+function valuePlaceholder(type: ConditionType) {
+  switch (type) {
+    case "product_type":
+      return "Electronics";
+    case "product_vendor":
+      return "Acme";
+    case "order_value_above":
+    case "order_value_below":
+      return "100";
+    case "return_reason":
+      return "defective";
+    default:
+      return "Enter value";
+  }
+}
+
+interface ConditionGroupEditorProps {
+  group: ConditionGroup;
+  depth: number;
+  onChange: (group: ConditionGroup) => void;
+  onRemove?: () => void;
+}
+
+function ConditionGroupEditor({ group, depth, onChange, onRemove }: ConditionGroupEditorProps) {
+  const updateChild = (index: number, child: ConditionNode) =>
+    onChange({
+      ...group,
+      conditions: group.conditions.map((existing, i) => (i === index ? child : existing)),
+    });
+
+  const removeChild = (index: number) =>
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+
+  return (
+    <Box
+      padding="300"
+      background={depth % 2 === 0 ? "bg-surface-secondary" : "bg-surface"}
+      borderRadius="200"
+      borderWidth="025"
+      borderColor="border"
+    >
+      <BlockStack gap="300">
+        <InlineStack align="space-between" blockAlign="center">
+          <Box minWidth="200px">
+            <Select
+              label="Match"
+              labelInline
+              options={groupOperatorOptions}
+              value={group.operator}
+              onChange={(value) =>
+                onChange({ ...group, operator: value as ConditionGroupOperator })
+              }
+            />
+          </Box>
+          {onRemove && (
+            <Button variant="plain" tone="critical" onClick={onRemove}>
+              Remove group
+            </Button>
+          )}
+        </InlineStack>
+
+        {group.conditions.map((child, index) =>
+          isConditionGroup(child) ? (
+            <ConditionGroupEditor
+              key={index}
+              group={child}
+              depth={depth + 1}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+            />
+          ) : (
+            <InlineStack key={index} gap="200" blockAlign="end" wrap={false}>
+              <Box minWidth="180px">
+                <Select
+                  label="Condition"
+                  labelHidden={index > 0}
+                  options={conditionTypeOptions}
+                  value={child.type}
+                  onChange={(value) =>
+                    updateChild(index, { ...child, type: value as ConditionType })
+                  }
+                />
+              </Box>
+              <Box width="100%">
+                <TextField
+                  label="Value"
+                  labelHidden={index > 0}
+                  value={child.value}
+                  onChange={(value) => updateChild(index, { ...child, value })}
+                  autoComplete="off"
+                  placeholder={valuePlaceholder(child.type)}
+                />
+              </Box>
+              <Button
+                accessibilityLabel="Remove condition"
+                onClick={() => removeChild(index)}
+                disabled={depth === 0 && group.conditions.length === 1}
+              >
+                Remove
+              </Button>
+            </InlineStack>
+          )
+        )}
+
+        <InlineStack gap="200">
+          <Button
+            size="slim"
+            onClick={() => onChange({ ...group, conditions: [...group.conditions, emptyLeaf()] })}
+          >
+            Add condition
+          </Button>
+          {depth < MAX_GROUP_DEPTH - 1 && (
+            <Button
+              size="slim"
+              onClick={() =>
+                onChange({
+                  ...group,
+                  conditions: [...group.conditions, { operator: "OR", conditions: [emptyLeaf()] }],
+                })
+              }
+            >
+              Add group
+            </Button>
+          )}
+        </InlineStack>
+      </BlockStack>
+    </Box>
+  );
+}
+
 export default function RoutingRules() {
   const { rules, destinations } = useLoaderData<typeof loader>();
   const fetcher = useFetcher();
@@ -99,22 +311,26 @@ export default function RoutingRules() {
   const [destPostal, setDestPostal] = useState("");
   const [destCountry, setDestCountry] = useState("US");
   const [destPhone, setDestPhone] = useState("");
+  const [destType, setDestType] = useState<string>("warehouse");
+  const [destPreferredService, setDestPreferredService] = useState("");
   const [destIsDefault, setDestIsDefault] = useState(false);
 
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
   const [ruleName, setRuleName] = useState("");
   const [rulePriority, setRulePriority] = useState("0");
-  const [ruleConditionType, setRuleConditionType] = useState("product_type");
-  const [ruleConditionValue, setRuleConditionValue] = useState("");
+  const [ruleConditions, setRuleConditions] = useState<ConditionGroup>(emptyConditionTree);
   const [ruleDestinationId, setRuleDestinationId] = useState("");
 
   useEffect(() => {
-    const data = fetcher.data as { success?: boolean } | undefined;
+    const data = fetcher.data as { success?: boolean; error?: string } | undefined;
     if (data?.success) {
       shopify.toast.show("Saved successfully");
       setDestinationModalOpen(false);
       setRuleModalOpen(false);
       resetDestinationForm();
       resetRuleForm();
+    } else if (data?.error) {
+      shopify.toast.show(data.error, { isError: true });
     }
   }, [fetcher.data, shopify]);
 
@@ -127,17 +343,28 @@ export default function RoutingRules() {
     setDestPostal("");
     setDestCountry("US");
     setDestPhone("");
+    setDestType("warehouse");
+    setDestPreferredService("");
     setDestIsDefault(false);
   };
 
   const resetRuleForm = () => {
+    setEditingRuleId(null);
     setRuleName("");
     setRulePriority("0");
-    setRuleConditionType("product_type");
-    setRuleConditionValue("");
+    setRuleConditions(emptyConditionTree());
     setRuleDestinationId("");
   };
 
+  const openEditRule = (rule: (typeof rules)[number]) => {
+    setEditingRuleId(rule.id);
+    setRuleName(rule.name);
+    setRulePriority(rule.priority.toString());
+    setRuleConditions(conditionTreeFromRule(rule));
+    setRuleDestinationId(rule.destinationId);
+    setRuleModalOpen(true);
+  };
+
   const handleCreateDestination = useCallback(() => {
     fetcher.submit(
       {
@@ -150,34 +377,27 @@ export default function RoutingRules() {
         postalCode: destPostal,
         country: destCountry,
         phone: destPhone,
+        destinationType: destType,
+        preferredService: destPreferredService,
         isDefault: destIsDefault.toString(),
       },
       { method: "POST" }
     );
-  }, [fetcher, destName, destAddress1, destAddress2, destCity, destState, destPostal, destCountry, destPhone, destIsDefault]);
+  }, [fetcher, destName, destAddress1, destAddress2, destCity, destState, destPostal, destCountry, destPhone, destType, destPreferredService, destIsDefault]);
 
-  const handleCreateRule = useCallback(() => {
+  const handleSaveRule = useCallback(() => {
     fetcher.submit(
       {
-        _action: "createRule",
+        _action: editingRuleId ? "updateRule" : "createRule",
+        ruleId: editingRuleId ?? "",
         name: ruleName,
         priority: rulePriority,
-        conditionType: ruleConditionType,
-        conditionValue: ruleConditionValue,
+        conditions: JSON.stringify(ruleConditions),
         destinationId: ruleDestinationId,
       },
       { method: "POST" }
     );
-  }, [fetcher, ruleName, rulePriority, ruleConditionType, ruleConditionValue, ruleDestinationId]);
-
-  const conditionTypeOptions = [
-    { label: "Product Type", value: "product_type" },
-    { label: "Product Tag", value: "product_tag" },
-    { label: "SKU Contains", value: "sku_contains" },
-    { label: "Order Value Above", value: "order_value_above" },
-    { label: "Order Value Below", value: "order_value_below" },
-    { label: "Return Reason", value: "return_reason" },
-  ];
+  }, [fetcher, editingRuleId, ruleName, rulePriority, ruleConditions, ruleDestinationId]);
 
   const destinationOptions = destinations.map((d) => ({
     label: d.name,
@@ -186,13 +406,16 @@ export default function RoutingRules() {
 
   const ruleRows = rules.map((rule) => [
     rule.name,
-    <Badge key={`type-${rule.id}`}>{rule.conditionType.replace("_", " ")}</Badge>,
+    <Badge key={`type-${rule.id}`}>{rule.conditionType.replace(/_/g, " ")}</Badge>,
     rule.conditionValue,
     rule.destination?.name || "Unknown",
     rule.priority,
     <Badge key={`status-${rule.id}`} tone={rule.isActive ? "success" : "warning"}>
       {rule.isActive ? "Active" : "Inactive"}
     </Badge>,
+    <Button key={`edit-${rule.id}`} size="slim" variant="plain" onClick={() => openEditRule(rule)}>
+      Edit
+    </Button>,
   ]);
 
   return (
@@ -237,6 +460,9 @@ export default function RoutingRules() {
                         <BlockStack gap="100">
                           <InlineStack gap="200">
                             <Text as="span" fontWeight="semibold">{dest.name}</Text>
+                            <Badge>
+                              {destinationTypeLabels[dest.destinationType as DestinationType] ?? dest.destinationType}
+                            </Badge>
                             {dest.isDefault && <Badge tone="info">Default</Badge>}
                           </InlineStack>
                           <Text as="span" tone="subdued">
@@ -282,8 +508,8 @@ export default function RoutingRules() {
                 </EmptyState>
               ) : (
                 <DataTable
-                  columnContentTypes={["text", "text", "text", "text", "numeric", "text"]}
-                  headings={["Name", "Condition", "Value", "Destination", "Priority", "Status"]}
+                  columnContentTypes={["text", "text", "text", "text", "numeric", "text", "text"]}
+                  headings={["Name", "Condition", "Value", "Destination", "Priority", "Status", ""]}
                   rows={ruleRows}
                 />
               )}
@@ -320,6 +546,13 @@ export default function RoutingRules() {
               autoComplete="off"
               placeholder="Main Warehouse"
             />
+            <Select
+              label="Destination Type"
+              options={destinationTypeOptions}
+              value={destType}
+              onChange={setDestType}
+              helpText="What happens to items sent to this location"
+            />
             <TextField
               label="Address Line 1"
               value={destAddress1}
@@ -364,6 +597,14 @@ export default function RoutingRules() {
               onChange={setDestPhone}
               autoComplete="tel"
             />
+            <TextField
+              label="Preferred shipping service"
+              value={destPreferredService}
+              onChange={setDestPreferredService}
+              placeholder="usps_ground_advantage"
+              helpText="Bought for labels to this location whenever it is quoted. Leave empty to use the cheapest rate."
+              autoComplete="off"
+            />
           </BlockStack>
         </Modal.Section>
       </Modal>
@@ -374,16 +615,20 @@ export default function RoutingRules() {
           setRuleModalOpen(false);
           resetRuleForm();
         }}
-        title="Add Routing Rule"
+        title={editingRuleId ? "Edit Routing Rule" : "Add Routing Rule"}
+        size="large"
         primaryAction={{
           content: "Save",
-          onAction: handleCreateRule,
+          onAction: handleSaveRule,
           loading: fetcher.state === "submitting",
         }}
         secondaryActions={[
           {
             content: "Cancel",
-            onAction: () => setRuleModalOpen(false),
+            onAction: () => {
+              setRuleModalOpen(false);
+              resetRuleForm();
+            },
           },
         ]}
       >
@@ -396,25 +641,14 @@ export default function RoutingRules() {
               autoComplete="off"
               placeholder="Electronics to Warehouse B"
             />
-            <Select
-              label="Condition Type"
-              options={conditionTypeOptions}
-              value={ruleConditionType}
-              onChange={setRuleConditionType}
-            />
-            <TextField
-              label="Condition Value"
-              value={ruleConditionValue}
-              onChange={setRuleConditionValue}
-              autoComplete="off"
-              placeholder={
-                ruleConditionType === "product_type"
-                  ? "Electronics"
-                  : ruleConditionType === "order_value_above"
-                  ? "100"
-                  : "Enter value"
-              }
-            />
+            <BlockStack gap="200">
+              <Text as="span" variant="bodyMd">Conditions</Text>
+              <ConditionGroupEditor
+                group={ruleConditions}
+                depth={0}
+                onChange={setRuleConditions}
+              />
+            </BlockStack>
             <Select
               label="Send To"
               options={destinationOptions}
@@ -14,16 +14,26 @@ import {
   RangeSlider,
   InlineStack,
   Box,
+  ChoiceList,
+  Select,
 } from "@shopify/polaris";
 import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
 import { useState, useEffect } from "react";
 import { authenticate } from "../shopify.server";
 import { getShopSettings, updateShopSettings } from "../services/returns.server";
+import { RETURN_REASONS, isReturnReason, returnReasonLabels } from "../utils/reasons";
+import { RISK_LEVELS, isRiskLevel, riskLevelLabels } from "../utils/risk";
+import { DELIVERY_ACTIONS, deliveryActionLabels, isDeliveryAction } from "../utils/tracking";
+import { fetchStockLocations } from "../services/reservation.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
-  const settings = await getShopSettings(session.shop);
-  return json({ settings });
+  const { admin, session } = await authenticate.admin(request);
+  const [settings, locations] = await Promise.all([
+    getShopSettings(session.shop),
+    fetchStockLocations(admin),
+  ]);
+  const trackingWebhookUrl = `${process.env.SHOPIFY_APP_URL ?? ""}/webhooks/tracking`;
+  return json({ settings, locations, trackingWebhookUrl, shop: session.shop });
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
@@ -42,6 +52,21 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const notifyOnStatusChange = formData.get("notifyOnStatusChange") === "true";
   const shippoApiKey = (formData.get("shippoApiKey") as string) || null;
   const easypostApiKey = (formData.get("easypostApiKey") as string) || null;
+  const shippoWebhookToken = (formData.get("shippoWebhookToken") as string) || null;
+  const easypostWebhookSecret = (formData.get("easypostWebhookSecret") as string) || null;
+  const deliveryActionValue = formData.get("deliveryAction") as string;
+  const deliveryAction = isDeliveryAction(deliveryActionValue) ? deliveryActionValue : "none";
+  const allowedCarriers = ((formData.get("allowedCarriers") as string) || "")
+    .split(",")
+    .map((carrier) => carrier.trim())
+    .filter(Boolean);
+  const maxTransitDays = formData.get("maxTransitDays")
+    ? Math.max(1, parseInt(formData.get("maxTransitDays") as string) || 1)
+    : null;
+  const qrCodeLabels = formData.get("qrCodeLabels") === "true";
+  const labelExpiryDays = formData.get("labelExpiryDays")
+    ? Math.max(1, parseInt(formData.get("labelExpiryDays") as string) || 1)
+    : null;
   const storeCreditEnabled = formData.get("storeCreditEnabled") === "true";
   const storeCreditBonusPercent = parseInt(formData.get("storeCreditBonusPercent") as string) || 10;
   const storeCreditExpiryDays = formData.get("storeCreditExpiryDays")
@@ -49,6 +74,60 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     : null;
   const exchangeEnabled = formData.get("exchangeEnabled") === "true";
   const shopNowExchangeEnabled = formData.get("shopNowExchangeEnabled") === "true";
+  const exchangeReservationDays = formData.get("exchangeReservationDays")
+    ? Math.max(1, parseInt(formData.get("exchangeReservationDays") as string) || 1)
+    : null;
+  const exchangeReservationLocationId =
+    (formData.get("exchangeReservationLocationId") as string) || null;
+  const instantExchangeEnabled = formData.get("instantExchangeEnabled") === "true";
+  const instantRiskLevel = formData.get("instantExchangeMaxRiskLevel") as string;
+  const instantExchangeMaxRiskLevel = isRiskLevel(instantRiskLevel) ? instantRiskLevel : "low";
+  const instantExchangeReturnDays = Math.min(
+    90,
+    Math.max(1, parseInt(formData.get("instantExchangeReturnDays") as string) || 21)
+  );
+  const exchangePaymentDays = Math.min(
+    60,
+    Math.max(1, parseInt(formData.get("exchangePaymentDays") as string) || 7)
+  );
+  const returnlessEnabled = formData.get("returnlessEnabled") === "true";
+  const returnlessThreshold = parseFloat(formData.get("returnlessThreshold") as string) || 0;
+  const returnlessReasons = (
+    JSON.parse((formData.get("returnlessReasons") as string) || "[]") as string[]
+  ).filter(isReturnReason);
+  const returnlessMaxPerCustomer = formData.get("returnlessMaxPerCustomer")
+    ? parseInt(formData.get("returnlessMaxPerCustomer") as string)
+    : null;
+  const returnlessPeriodDays = parseInt(formData.get("returnlessPeriodDays") as string) || 30;
+  const riskLevel = formData.get("autoApproveMaxRiskLevel") as string;
+  const autoApproveMaxRiskLevel = isRiskLevel(riskLevel) ? riskLevel : "medium";
+  const maxReturnsPerCustomer = formData.get("maxReturnsPerCustomer")
+    ? parseInt(formData.get("maxReturnsPerCustomer") as string)
+    : null;
+  const refundShipping = formData.get("refundShipping") === "true";
+  const restockingFeePercent = Math.min(
+    100,
+    Math.max(0, parseFloat(formData.get("restockingFeePercent") as string) || 0)
+  );
+  const returnShippingFee = Math.max(
+    0,
+    parseFloat(formData.get("returnShippingFee") as string) || 0
+  );
+  const feeWaivedReasons = (
+    JSON.parse((formData.get("feeWaivedReasons") as string) || "[]") as string[]
+  ).filter(isReturnReason);
+  const feeExemptCustomerTags = ((formData.get("feeExemptCustomerTags") as string) || "")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  const holidayWindowEnabled = formData.get("holidayWindowEnabled") === "true";
+  const parseDate = (field: string) => {
+    const value = formData.get(field) as string;
+    return holidayWindowEnabled && value ? new Date(value) : null;
+  };
+  const holidayWindowStart = parseDate("holidayWindowStart");
+  const holidayWindowEnd = parseDate("holidayWindowEnd");
+  const holidayReturnDeadline = parseDate("holidayReturnDeadline");
 
   await updateShopSettings(session.shop, {
     returnWindowDays,
@@ -57,15 +136,43 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     requirePhotos,
     requireReason,
     restockAutomatically,
+    refundShipping,
+    restockingFeePercent,
+    returnShippingFee,
+    feeWaivedReasons,
+    feeExemptCustomerTags,
     notifyOnNewReturn,
     notifyOnStatusChange,
     shippoApiKey,
     easypostApiKey,
+    shippoWebhookToken,
+    easypostWebhookSecret,
+    deliveryAction,
+    allowedCarriers,
+    maxTransitDays,
+    labelExpiryDays,
+    qrCodeLabels,
     storeCreditEnabled,
     storeCreditBonusPercent,
     storeCreditExpiryDays,
     exchangeEnabled,
     shopNowExchangeEnabled,
+    exchangeReservationDays,
+    exchangeReservationLocationId,
+    instantExchangeEnabled,
+    instantExchangeMaxRiskLevel,
+    instantExchangeReturnDays,
+    exchangePaymentDays,
+    returnlessEnabled,
+    returnlessThreshold,
+    returnlessReasons,
+    returnlessMaxPerCustomer,
+    returnlessPeriodDays,
+    autoApproveMaxRiskLevel,
+    maxReturnsPerCustomer,
+    holidayWindowStart,
+    holidayWindowEnd,
+    holidayReturnDeadline,
   });
 
   return json({ success: true });
@@ -82,7 +189,7 @@ export function ErrorBoundary() {
 }
 
 export default function Settings() {
-  const { settings } = useLoaderData<typeof loader>();
+  const { settings, locations, trackingWebhookUrl, shop } = useLoaderData<typeof loader>();
   const fetcher = useFetcher();
   const shopify = useAppBridge();
 
@@ -92,12 +199,47 @@ export default function Settings() {
     settings.autoApproveMaxValue?.toString() || ""
   );
   const [requirePhotos, setRequirePhotos] = useState(settings.requirePhotos);
+  const [maxReturnsPerCustomer, setMaxReturnsPerCustomer] = useState(
+    settings.maxReturnsPerCustomer?.toString() || ""
+  );
+  const [holidayWindowEnabled, setHolidayWindowEnabled] = useState(
+    Boolean(settings.holidayReturnDeadline)
+  );
+  const [holidayWindowStart, setHolidayWindowStart] = useState(
+    settings.holidayWindowStart?.slice(0, 10) || ""
+  );
+  const [holidayWindowEnd, setHolidayWindowEnd] = useState(
+    settings.holidayWindowEnd?.slice(0, 10) || ""
+  );
+  const [holidayReturnDeadline, setHolidayReturnDeadline] = useState(
+    settings.holidayReturnDeadline?.slice(0, 10) || ""
+  );
   const [requireReason, setRequireReason] = useState(settings.requireReason);
   const [restockAutomatically, setRestockAutomatically] = useState(settings.restockAutomatically);
+  const [refundShipping, setRefundShipping] = useState(settings.refundShipping);
+  const [restockingFeePercent, setRestockingFeePercent] = useState(
+    settings.restockingFeePercent.toString()
+  );
+  const [returnShippingFee, setReturnShippingFee] = useState(
+    settings.returnShippingFee.toString()
+  );
+  const [feeWaivedReasons, setFeeWaivedReasons] = useState<string[]>(settings.feeWaivedReasons);
+  const [feeExemptCustomerTags, setFeeExemptCustomerTags] = useState(
+    settings.feeExemptCustomerTags.join(", ")
+  );
   const [notifyOnNewReturn, setNotifyOnNewReturn] = useState(settings.notifyOnNewReturn);
   const [notifyOnStatusChange, setNotifyOnStatusChange] = useState(settings.notifyOnStatusChange);
   const [shippoApiKey, setShippoApiKey] = useState(settings.shippoApiKey || "");
   const [easypostApiKey, setEasypostApiKey] = useState(settings.easypostApiKey || "");
+  const [shippoWebhookToken, setShippoWebhookToken] = useState(settings.shippoWebhookToken || "");
+  const [easypostWebhookSecret, setEasypostWebhookSecret] = useState(
+    settings.easypostWebhookSecret || ""
+  );
+  const [deliveryAction, setDeliveryAction] = useState(settings.deliveryAction);
+  const [allowedCarriers, setAllowedCarriers] = useState(settings.allowedCarriers.join(", "));
+  const [maxTransitDays, setMaxTransitDays] = useState(settings.maxTransitDays?.toString() || "");
+  const [labelExpiryDays, setLabelExpiryDays] = useState(settings.labelExpiryDays?.toString() || "");
+  const [qrCodeLabels, setQrCodeLabels] = useState(settings.qrCodeLabels);
   const [storeCreditEnabled, setStoreCreditEnabled] = useState(settings.storeCreditEnabled);
   const [storeCreditBonusPercent, setStoreCreditBonusPercent] = useState(settings.storeCreditBonusPercent);
   const [storeCreditExpiryDays, setStoreCreditExpiryDays] = useState(
@@ -105,6 +247,38 @@ export default function Settings() {
   );
   const [exchangeEnabled, setExchangeEnabled] = useState(settings.exchangeEnabled);
   const [shopNowExchangeEnabled, setShopNowExchangeEnabled] = useState(settings.shopNowExchangeEnabled);
+  const [exchangeReservationDays, setExchangeReservationDays] = useState(
+    settings.exchangeReservationDays?.toString() || ""
+  );
+  const [exchangeReservationLocationId, setExchangeReservationLocationId] = useState(
+    settings.exchangeReservationLocationId || ""
+  );
+  const [instantExchangeEnabled, setInstantExchangeEnabled] = useState(
+    settings.instantExchangeEnabled
+  );
+  const [instantExchangeMaxRiskLevel, setInstantExchangeMaxRiskLevel] = useState(
+    settings.instantExchangeMaxRiskLevel
+  );
+  const [instantExchangeReturnDays, setInstantExchangeReturnDays] = useState(
+    settings.instantExchangeReturnDays.toString()
+  );
+  const [exchangePaymentDays, setExchangePaymentDays] = useState(
+    settings.exchangePaymentDays.toString()
+  );
+  const [autoApproveMaxRiskLevel, setAutoApproveMaxRiskLevel] = useState(
+    settings.autoApproveMaxRiskLevel
+  );
+  const [returnlessEnabled, setReturnlessEnabled] = useState(settings.returnlessEnabled);
+  const [returnlessThreshold, setReturnlessThreshold] = useState(
+    settings.returnlessThreshold.toString()
+  );
+  const [returnlessReasons, setReturnlessReasons] = useState<string[]>(settings.returnlessReasons);
+  const [returnlessMaxPerCustomer, setReturnlessMaxPerCustomer] = useState(
+    settings.returnlessMaxPerCustomer?.toString() || ""
+  );
+  const [returnlessPeriodDays, setReturnlessPeriodDays] = useState(
+    settings.returnlessPeriodDays.toString()
+  );
 
   const isSubmitting = fetcher.state === "submitting";
 
@@ -122,17 +296,46 @@ export default function Settings() {
         autoApproveEnabled: autoApproveEnabled.toString(),
         autoApproveMaxValue,
         requirePhotos: requirePhotos.toString(),
+        maxReturnsPerCustomer,
+        holidayWindowEnabled: holidayWindowEnabled.toString(),
+        holidayWindowStart,
+        holidayWindowEnd,
+        holidayReturnDeadline,
         requireReason: requireReason.toString(),
         restockAutomatically: restockAutomatically.toString(),
+        refundShipping: refundShipping.toString(),
+        restockingFeePercent,
+        returnShippingFee,
+        feeWaivedReasons: JSON.stringify(feeWaivedReasons),
+        feeExemptCustomerTags,
         notifyOnNewReturn: notifyOnNewReturn.toString(),
         notifyOnStatusChange: notifyOnStatusChange.toString(),
         shippoApiKey,
         easypostApiKey,
+        shippoWebhookToken,
+        easypostWebhookSecret,
+        deliveryAction,
+        allowedCarriers,
+        maxTransitDays,
+        labelExpiryDays,
+        qrCodeLabels: qrCodeLabels.toString(),
         storeCreditEnabled: storeCreditEnabled.toString(),
         storeCreditBonusPercent: storeCreditBonusPercent.toString(),
         storeCreditExpiryDays,
         exchangeEnabled: exchangeEnabled.toString(),
         shopNowExchangeEnabled: shopNowExchangeEnabled.toString(),
+        exchangeReservationDays,
+        exchangeReservationLocationId,
+        instantExchangeEnabled: instantExchangeEnabled.toString(),
+        instantExchangeMaxRiskLevel,
+        instantExchangeReturnDays,
+        exchangePaymentDays,
+        autoApproveMaxRiskLevel,
+        returnlessEnabled: returnlessEnabled.toString(),
+        returnlessThreshold,
+        returnlessReasons: JSON.stringify(returnlessReasons),
+        returnlessMaxPerCustomer,
+        returnlessPeriodDays,
       },
       { method: "POST" }
     );
@@ -162,9 +365,40 @@ export default function Settings() {
                 type="number"
                 value={returnWindowDays}
                 onChange={setReturnWindowDays}
-                helpText="Number of days after delivery customers can request a return"
+                helpText="Number of days after delivery customers can request a return. Set longer or shorter windows for product types and collections on the Return Windows page."
                 autoComplete="off"
               />
+              <Checkbox
+                label="Extend the window for holiday orders"
+                checked={holidayWindowEnabled}
+                onChange={setHolidayWindowEnabled}
+                helpText="Orders placed during the holiday period can be returned until the extended deadline"
+              />
+              {holidayWindowEnabled && (
+                <InlineStack gap="400" wrap={false}>
+                  <TextField
+                    label="Orders placed from"
+                    type="date"
+                    value={holidayWindowStart}
+                    onChange={setHolidayWindowStart}
+                    autoComplete="off"
+                  />
+                  <TextField
+                    label="Orders placed until"
+                    type="date"
+                    value={holidayWindowEnd}
+                    onChange={setHolidayWindowEnd}
+                    autoComplete="off"
+                  />
+                  <TextField
+                    label="Return by"
+                    type="date"
+                    value={holidayReturnDeadline}
+                    onChange={setHolidayReturnDeadline}
+                    autoComplete="off"
+                  />
+                </InlineStack>
+              )}
               <Checkbox
                 label="Require return reason"
                 checked={requireReason}
@@ -177,6 +411,14 @@ export default function Settings() {
                 onChange={setRequirePhotos}
                 helpText="Customers must upload photos of the item being returned"
               />
+              <TextField
+                label="Maximum returns per customer"
+                type="number"
+                value={maxReturnsPerCustomer}
+                onChange={setMaxReturnsPerCustomer}
+                helpText="Lifetime limit on returns per customer email (leave empty for no limit). Manage blocked customers, final-sale tags and discount codes on the Blocklist page."
+                autoComplete="off"
+              />
             </BlockStack>
           </Card>
         </Layout.AnnotatedSection>
@@ -205,6 +447,13 @@ export default function Settings() {
                   autoComplete="off"
                 />
               )}
+              <Select
+                label="Highest risk level to auto-approve"
+                options={RISK_LEVELS.map((level) => ({ label: riskLevelLabels[level], value: level }))}
+                value={autoApproveMaxRiskLevel}
+                onChange={setAutoApproveMaxRiskLevel}
+                helpText="Returns scored above this level always need manual review, including returnless refunds"
+              />
               <Divider />
               <Checkbox
                 label="Automatically restock returned items"
@@ -216,6 +465,127 @@ export default function Settings() {
           </Card>
         </Layout.AnnotatedSection>
 
+        <Layout.AnnotatedSection
+          id="refunds"
+          title="Refunds"
+          description="Refunds are issued through Shopify to the original payment method when a return is completed."
+        >
+          <Card>
+            <BlockStack gap="400">
+              <Checkbox
+                label="Refund original shipping"
+                checked={refundShipping}
+                onChange={setRefundShipping}
+                helpText="Include what the customer paid for shipping when the whole order is returned"
+              />
+              <TextField
+                label="Restocking fee"
+                type="number"
+                value={restockingFeePercent}
+                onChange={setRestockingFeePercent}
+                suffix="%"
+                helpText="Deducted from the refunded item subtotal. Set to 0 for no fee."
+                autoComplete="off"
+              />
+              <TextField
+                label="Return shipping fee"
+                type="number"
+                value={returnShippingFee}
+                onChange={setReturnShippingFee}
+                prefix="$"
+                helpText="A flat amount deducted once per return for the return label. Set to 0 for free return shipping."
+                autoComplete="off"
+              />
+              <ChoiceList
+                allowMultiple
+                title="Reasons with no fees"
+                choices={RETURN_REASONS.map((reason) => ({
+                  label: returnReasonLabels[reason],
+                  value: reason,
+                }))}
+                selected={feeWaivedReasons}
+                onChange={setFeeWaivedReasons}
+              />
+              <Text as="p" variant="bodySm" tone="subdued">
+                Items returned for these reasons have no restocking fee, and the return shipping
+                fee is waived when every item in the return has one of them.
+              </Text>
+              <TextField
+                label="Customer tags with free returns"
+                value={feeExemptCustomerTags}
+                onChange={setFeeExemptCustomerTags}
+                placeholder="VIP, Wholesale"
+                helpText="Comma-separated. Customers with any of these tags are never charged fees."
+                autoComplete="off"
+              />
+            </BlockStack>
+          </Card>
+        </Layout.AnnotatedSection>
+
+        <Layout.AnnotatedSection
+          id="returnless"
+          title="Returnless Refunds"
+          description="Let customers keep low-value items when shipping them back costs more than they are worth."
+        >
+          <Card>
+            <BlockStack gap="400">
+              <Checkbox
+                label="Enable returnless refunds"
+                checked={returnlessEnabled}
+                onChange={setReturnlessEnabled}
+                helpText="Qualifying returns are approved automatically and no shipping label is created"
+              />
+              {returnlessEnabled && (
+                <>
+                  <TextField
+                    label="Maximum return value"
+                    type="number"
+                    value={returnlessThreshold}
+                    onChange={setReturnlessThreshold}
+                    prefix="$"
+                    helpText="Returns worth more than this must be shipped back"
+                    autoComplete="off"
+                  />
+                  <ChoiceList
+                    allowMultiple
+                    title="Eligible return reasons"
+                    choices={RETURN_REASONS.map((reason) => ({
+                      label: returnReasonLabels[reason],
+                      value: reason,
+                    }))}
+                    selected={returnlessReasons}
+                    onChange={setReturnlessReasons}
+                  />
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    Leave all reasons unchecked to allow any reason.
+                  </Text>
+                  <InlineStack gap="400" wrap={false}>
+                    <Box width="50%">
+                      <TextField
+                        label="Limit per customer"
+                        type="number"
+                        value={returnlessMaxPerCustomer}
+                        onChange={setReturnlessMaxPerCustomer}
+                        helpText="Leave empty for no limit"
+                        autoComplete="off"
+                      />
+                    </Box>
+                    <Box width="50%">
+                      <TextField
+                        label="Limit period (days)"
+                        type="number"
+                        value={returnlessPeriodDays}
+                        onChange={setReturnlessPeriodDays}
+                        autoComplete="off"
+                      />
+                    </Box>
+                  </InlineStack>
+                </>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.AnnotatedSection>
+
         <Layout.AnnotatedSection
           id="storeCredit"
           title="Store Credit & Exchanges"
@@ -274,12 +644,68 @@ export default function Settings() {
               />
               {exchangeEnabled && (
                 <Box paddingInlineStart="600">
-                  <Checkbox
-                    label="Enable 'Shop Now' exchanges"
-                    checked={shopNowExchangeEnabled}
-                    onChange={setShopNowExchangeEnabled}
-                    helpText="Let customers browse your entire catalog during exchange (not just swap sizes)"
-                  />
+                  <BlockStack gap="300">
+                    <Checkbox
+                      label="Enable 'Shop Now' exchanges"
+                      checked={shopNowExchangeEnabled}
+                      onChange={setShopNowExchangeEnabled}
+                      helpText="Let customers browse your entire catalog during exchange (not just swap sizes)"
+                    />
+                    <TextField
+                      label="Hold replacement stock for (days)"
+                      type="number"
+                      value={exchangeReservationDays}
+                      onChange={setExchangeReservationDays}
+                      helpText="The size or color a customer picks is reserved until the exchange order is placed, the return is declined or this many days pass. Leave empty to not reserve stock."
+                      autoComplete="off"
+                    />
+                    <Select
+                      label="Reserve stock at"
+                      options={[
+                        { label: "First location with stock", value: "" },
+                        ...locations.map((location) => ({ label: location.name, value: location.id })),
+                      ]}
+                      value={exchangeReservationLocationId}
+                      onChange={setExchangeReservationLocationId}
+                      disabled={!exchangeReservationDays}
+                    />
+                    <Checkbox
+                      label="Offer instant exchanges"
+                      checked={instantExchangeEnabled}
+                      onChange={setInstantExchangeEnabled}
+                      helpText="Ship the replacement as soon as the return is approved. The item value is held until the original is delivered back, and the customer is invoiced for it if it isn't."
+                    />
+                    {instantExchangeEnabled && (
+                      <>
+                        <Select
+                          label="Highest risk level for instant exchanges"
+                          options={RISK_LEVELS.map((level) => ({
+                            label: riskLevelLabels[level],
+                            value: level,
+                          }))}
+                          value={instantExchangeMaxRiskLevel}
+                          onChange={setInstantExchangeMaxRiskLevel}
+                          helpText="Riskier customers wait for their return to arrive before the replacement ships"
+                        />
+                        <TextField
+                          label="Days to send the original back"
+                          type="number"
+                          value={instantExchangeReturnDays}
+                          onChange={setInstantExchangeReturnDays}
+                          helpText="Counted from approval. After this the customer is invoiced for the held amount."
+                          autoComplete="off"
+                        />
+                      </>
+                    )}
+                    <TextField
+                      label="Days to pay for an exchange"
+                      type="number"
+                      value={exchangePaymentDays}
+                      onChange={setExchangePaymentDays}
+                      helpText="When the replacement costs more than the return, the customer is reminded to pay the invoice. Exchanges still unpaid after this are cancelled and the return becomes store credit."
+                      autoComplete="off"
+                    />
+                  </BlockStack>
                 </Box>
               )}
             </BlockStack>
@@ -315,7 +741,8 @@ export default function Settings() {
           <Card>
             <BlockStack gap="400">
               <Banner tone="info">
-                Connect either Shippo or EasyPost to generate return shipping labels. Only one provider is needed.
+                Connect Shippo, EasyPost or both. When both are connected, rates from each are compared
+                and the cheapest one that fits your preferences is bought.
               </Banner>
               <TextField
                 label="Shippo API Key"
@@ -336,6 +763,64 @@ export default function Settings() {
                 helpText="Get your API key from easypost.com"
                 autoComplete="off"
               />
+              <Divider />
+              <TextField
+                label="Allowed carriers"
+                value={allowedCarriers}
+                onChange={setAllowedCarriers}
+                placeholder="USPS, UPS"
+                helpText="Comma-separated. Leave empty to allow any carrier."
+                autoComplete="off"
+              />
+              <TextField
+                label="Maximum transit days"
+                type="number"
+                value={maxTransitDays}
+                onChange={setMaxTransitDays}
+                helpText="Slower services are skipped. Leave empty for no limit."
+                autoComplete="off"
+              />
+              <Checkbox
+                label="Offer printerless QR code labels"
+                checked={qrCodeLabels}
+                onChange={setQrCodeLabels}
+                helpText="USPS and UPS labels come with a QR code customers can show at drop-off instead of printing"
+              />
+              <TextField
+                label="Void unused labels after (days)"
+                type="number"
+                value={labelExpiryDays}
+                onChange={setLabelExpiryDays}
+                helpText="Labels the carrier never scanned are voided and refunded, and the customer is emailed. Leave empty to keep labels indefinitely."
+                autoComplete="off"
+              />
+              <Divider />
+              <Select
+                label="When a return is delivered"
+                options={DELIVERY_ACTIONS.map((action) => ({
+                  label: deliveryActionLabels[action],
+                  value: action,
+                }))}
+                value={deliveryAction}
+                onChange={setDeliveryAction}
+                helpText="Carrier tracking marks returns in transit and received automatically. Returns with several parcels wait for all of them."
+              />
+              <TextField
+                label="Shippo webhook token"
+                type="password"
+                value={shippoWebhookToken}
+                onChange={setShippoWebhookToken}
+                helpText={`Pick a long random value and add a track_updated webhook in Shippo for ${trackingWebhookUrl}/shippo?shop=${shop}&token=<your token>`}
+                autoComplete="off"
+              />
+              <TextField
+                label="EasyPost webhook secret"
+                type="password"
+                value={easypostWebhookSecret}
+                onChange={setEasypostWebhookSecret}
+                helpText={`The secret you set on the EasyPost webhook for ${trackingWebhookUrl}/easypost?shop=${shop}`}
+                autoComplete="off"
+              />
             </BlockStack>
           </Card>
         </Layout.AnnotatedSection>
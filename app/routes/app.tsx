@@ -27,6 +27,10 @@ export default function App() {
         <Link to="/app/returns">Returns</Link>
         <Link to="/app/analytics">Analytics</Link>
         <Link to="/app/routing-rules">Routing</Link>
+        <Link to="/app/disposition-rules">Disposition</Link>
+        <Link to="/app/blocklist">Blocklist</Link>
+        <Link to="/app/return-windows">Return Windows</Link>
+        <Link to="/app/packaging">Packaging</Link>
         <Link to="/app/settings">Settings</Link>
       </NavMenu>
       <Outlet />
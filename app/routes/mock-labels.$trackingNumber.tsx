@@ -0,0 +1,56 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import db from "../db.server";
+import { isMockShippingEnabled, renderMockLabelPdf } from "../services/mock-shipping.server";
+import type { Address, Parcel } from "../services/shipping.server";
+
+// Placeholder PDFs for labels bought from the mock shipping provider. Only
+// served while mock mode is on, which is never in production.
+export async function loader({ params }: LoaderFunctionArgs) {
+  if (!isMockShippingEnabled() || !params.trackingNumber) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const label = await db.shippingLabel.findFirst({
+    where: { trackingNumber: params.trackingNumber, provider: "mock" },
+    include: { shipment: { include: { destination: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (!label) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const from = label.fromAddress as unknown as Address | null;
+  const parcel = label.parcel as unknown as Parcel | null;
+  const destination = label.shipment?.destination;
+
+  const lines = [
+    `${label.carrier} ${label.service ?? ""}`.trim(),
+    `Tracking: ${label.trackingNumber}`,
+    ...(label.parcelCount > 1 ? [`Parcel ${label.parcelNumber} of ${label.parcelCount}`] : []),
+    ...(parcel ? [`Weight: ${parcel.weight} lb`] : []),
+    "",
+    "FROM:",
+    ...(from
+      ? [from.name, from.street1, `${from.city}, ${from.state} ${from.zip}`, from.country]
+      : ["Unknown"]),
+    "",
+    "SHIP TO:",
+    ...(destination
+      ? [
+          destination.name,
+          destination.addressLine1,
+          `${destination.city}, ${destination.state} ${destination.postalCode}`,
+          destination.country,
+        ]
+      : ["Returns department"]),
+  ];
+
+  return new Response(renderMockLabelPdf(lines), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `inline; filename="${label.trackingNumber}.pdf"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,23 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import {
+  recordDraftOrderUpdate,
+  type ExchangeOrderPayload,
+} from "../services/exchange-orders.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, payload, admin } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const draftOrder = payload as ExchangeOrderPayload;
+  const returnRequestId = await recordDraftOrderUpdate(admin, shop, draftOrder);
+
+  if (returnRequestId) {
+    console.log(
+      `Exchange draft ${draftOrder.admin_graphql_api_id} for return ${returnRequestId} is ${draftOrder.status}`
+    );
+  }
+
+  return new Response();
+};
@@ -0,0 +1,21 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import {
+  recordExchangeOrderCancelled,
+  type ExchangeOrderPayload,
+} from "../services/exchange-orders.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, payload, admin } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const order = payload as ExchangeOrderPayload;
+  const returnRequestId = await recordExchangeOrderCancelled(admin, shop, order);
+
+  if (returnRequestId) {
+    console.log(`Exchange order ${order.admin_graphql_api_id} for return ${returnRequestId} cancelled`);
+  }
+
+  return new Response();
+};
@@ -0,0 +1,27 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import {
+  recordExchangeOrderPaid,
+  type ExchangeOrderPayload,
+} from "../services/exchange-orders.server";
+import { recordExchangeHoldPaid } from "../services/instant-exchange.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, payload, admin } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const order = payload as ExchangeOrderPayload;
+  const returnRequestId = await recordExchangeOrderPaid(admin, shop, order);
+
+  if (returnRequestId) {
+    console.log(`Exchange order ${order.admin_graphql_api_id} for return ${returnRequestId} paid`);
+  }
+
+  const heldReturnId = await recordExchangeHoldPaid(shop, order);
+  if (heldReturnId) {
+    console.log(`Instant exchange charge for return ${heldReturnId} paid`);
+  }
+
+  return new Response();
+};
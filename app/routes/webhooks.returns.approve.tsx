@@ -1,6 +1,6 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
-import db from "../db.server";
+import { SHOPIFY_ACTOR, transitionOrderReturns } from "../services/return-lifecycle.server";
 
 interface ReturnApproveWebhookPayload {
   id: number;
@@ -22,17 +22,16 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   console.log(`Return ${returnData.id} approved for order ${returnData.order.name}`);
 
-  await db.returnRequest.updateMany({
-    where: {
-      shop,
+  await transitionOrderReturns(
+    shop,
+    {
+      shopifyReturnId: returnData.admin_graphql_api_id,
       shopifyOrderId: returnData.order.admin_graphql_api_id,
-      status: "pending",
     },
-    data: {
-      status: "approved",
-      approvedAt: new Date(),
-    },
-  });
+    "approved",
+    SHOPIFY_ACTOR,
+    { reason: "Approved in Shopify", data: { approvedAt: new Date() } }
+  );
 
   return new Response();
 };
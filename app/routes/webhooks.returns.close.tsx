@@ -1,6 +1,6 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
-import db from "../db.server";
+import { SHOPIFY_ACTOR, transitionOrderReturns } from "../services/return-lifecycle.server";
 
 interface ReturnCloseWebhookPayload {
   id: number;
@@ -22,16 +22,16 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   console.log(`Return ${returnData.id} closed for order ${returnData.order.name}`);
 
-  await db.returnRequest.updateMany({
-    where: {
-      shop,
+  await transitionOrderReturns(
+    shop,
+    {
+      shopifyReturnId: returnData.admin_graphql_api_id,
       shopifyOrderId: returnData.order.admin_graphql_api_id,
     },
-    data: {
-      status: "completed",
-      completedAt: new Date(),
-    },
-  });
+    "completed",
+    SHOPIFY_ACTOR,
+    { reason: "Closed in Shopify", data: { completedAt: new Date() } }
+  );
 
   return new Response();
 };
@@ -1,6 +1,7 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
-import db from "../db.server";
+import { SHOPIFY_ACTOR, transitionOrderReturns } from "../services/return-lifecycle.server";
+import { releaseClosedOrderReservations } from "../services/reservation.server";
 
 interface ReturnDeclineWebhookPayload {
   id: number;
@@ -15,7 +16,7 @@ interface ReturnDeclineWebhookPayload {
 }
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { shop, topic, payload } = await authenticate.webhook(request);
+  const { shop, topic, payload, admin } = await authenticate.webhook(request);
 
   console.log(`Received ${topic} webhook for ${shop}`);
 
@@ -26,17 +27,29 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     console.log(`Reason: ${returnData.decline_reason}`);
   }
 
-  await db.returnRequest.updateMany({
-    where: {
-      shop,
+  await transitionOrderReturns(
+    shop,
+    {
+      shopifyReturnId: returnData.admin_graphql_api_id,
       shopifyOrderId: returnData.order.admin_graphql_api_id,
-      status: { in: ["pending", "approved"] },
-    },
-    data: {
-      status: "declined",
-      merchantNotes: returnData.decline_reason,
     },
-  });
+    "declined",
+    SHOPIFY_ACTOR,
+    {
+      reason: returnData.decline_reason || "Declined in Shopify",
+      data: { merchantNotes: returnData.decline_reason },
+    }
+  );
+
+  // Without a session the reservations are released when they expire.
+  if (admin) {
+    await releaseClosedOrderReservations(
+      admin,
+      shop,
+      returnData.order.admin_graphql_api_id,
+      "Return declined in Shopify"
+    );
+  }
 
   return new Response();
 };
@@ -1,7 +1,15 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
-import { getShopSettings } from "../services/returns.server";
+import {
+  createReturnRequest,
+  findQuantityViolations,
+  getReturnedQuantities,
+} from "../services/returns.server";
+import { fetchOrderEligibility } from "../services/eligibility.server";
+import { fetchCustomerOrderCount } from "../services/risk.server";
+import { sendReturnlessRefund } from "../services/notifications.server";
+import { SHOPIFY_ACTOR } from "../services/return-lifecycle.server";
 
 interface ReturnRequestWebhookPayload {
   id: number;
@@ -13,12 +21,14 @@ interface ReturnRequestWebhookPayload {
   };
   return_line_items: Array<{
     id: number;
+    quantity?: number;
     return_reason: string;
     return_reason_note: string | null;
     fulfillment_line_item: {
       id: number;
       line_item: {
         id: number;
+        admin_graphql_api_id?: string;
         name: string;
         quantity: number;
         price: string;
@@ -29,8 +39,15 @@ interface ReturnRequestWebhookPayload {
   customer_email: string | null;
 }
 
+type WebhookLineItem = ReturnRequestWebhookPayload["return_line_items"][number]["fulfillment_line_item"]["line_item"];
+
+// Portal returns store line item GIDs, so webhook returns must use them too.
+function lineItemGid(lineItem: WebhookLineItem): string {
+  return lineItem.admin_graphql_api_id ?? `gid://shopify/LineItem/${lineItem.id}`;
+}
+
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { shop, topic, payload } = await authenticate.webhook(request);
+  const { shop, topic, payload, admin } = await authenticate.webhook(request);
 
   console.log(`Received ${topic} webhook for ${shop}`);
 
@@ -40,48 +57,83 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   console.log(`Status: ${returnData.status}`);
   console.log(`Items: ${returnData.return_line_items.length}`);
 
-  const settings = await getShopSettings(shop);
-
+  // Other returns on the same order are separate requests; only a repeat
+  // delivery of this Shopify return is skipped.
   const existingReturn = await db.returnRequest.findFirst({
     where: {
       shop,
-      shopifyOrderId: returnData.order.admin_graphql_api_id,
+      shopifyReturnId: returnData.admin_graphql_api_id,
     },
   });
 
   if (!existingReturn && returnData.customer_email) {
-    const totalRefundAmount = returnData.return_line_items.reduce((sum, item) => {
-      const price = parseFloat(item.fulfillment_line_item.line_item.price);
-      const quantity = item.fulfillment_line_item.line_item.quantity;
-      return sum + price * quantity;
-    }, 0);
+    const items = returnData.return_line_items.map((item) => {
+      const lineItem = item.fulfillment_line_item.line_item;
+      return {
+        shopifyLineItemId: lineItemGid(lineItem),
+        title: lineItem.name,
+        quantity: item.quantity ?? lineItem.quantity,
+        pricePerItem: parseFloat(lineItem.price),
+        reason: item.return_reason,
+      };
+    });
+
+    // Shopify enforces its own quantities, but units may already be on a
+    // return submitted through the portal. Keep the return for staff to
+    // review instead of approving it automatically.
+    const overReturned = findQuantityViolations(
+      items.map((item) => ({
+        lineItemId: item.shopifyLineItemId,
+        title: item.title,
+        quantity: item.quantity,
+      })),
+      new Map(
+        returnData.return_line_items.map(({ fulfillment_line_item: { line_item } }) => [
+          lineItemGid(line_item),
+          line_item.quantity,
+        ])
+      ),
+      await getReturnedQuantities(shop, returnData.order.admin_graphql_api_id)
+    );
+    if (overReturned.length > 0) {
+      console.log(
+        `Return ${returnData.id} includes units already on another return: ${overReturned
+          .map((v) => v.title)
+          .join(", ")}`
+      );
+    }
 
-    const shouldAutoApprove =
-      settings.autoApproveEnabled &&
-      (!settings.autoApproveMaxValue || totalRefundAmount <= settings.autoApproveMaxValue);
+    // Customer tags decide fee exemptions; without them the standard fees apply.
+    let customerTags: string[] | undefined;
+    if (admin) {
+      try {
+        customerTags = (await fetchOrderEligibility(admin, returnData.order.admin_graphql_api_id))
+          ?.customerTags;
+      } catch (error) {
+        console.error(`Failed to load the customer for return ${returnData.id}:`, error);
+      }
+    }
 
-    await db.returnRequest.create({
-      data: {
-        shop,
-        shopifyOrderId: returnData.order.admin_graphql_api_id,
-        shopifyOrderName: returnData.order.name,
-        customerEmail: returnData.customer_email,
-        customerName: "Customer",
-        status: shouldAutoApprove ? "approved" : "pending",
-        approvedAt: shouldAutoApprove ? new Date() : null,
-        totalRefundAmount,
-        items: {
-          create: returnData.return_line_items.map((item) => ({
-            shopifyLineItemId: String(item.fulfillment_line_item.line_item.id),
-            title: item.fulfillment_line_item.line_item.name,
-            quantity: item.fulfillment_line_item.line_item.quantity,
-            pricePerItem: parseFloat(item.fulfillment_line_item.line_item.price),
-            reason: item.return_reason,
-          })),
-        },
-      },
+    const returnRequest = await createReturnRequest({
+      shop,
+      shopifyOrderId: returnData.order.admin_graphql_api_id,
+      shopifyOrderName: returnData.order.name,
+      shopifyReturnId: returnData.admin_graphql_api_id,
+      customerEmail: returnData.customer_email,
+      customerName: "Customer",
+      customerOrderCount: admin
+        ? await fetchCustomerOrderCount(admin, returnData.order.admin_graphql_api_id)
+        : undefined,
+      customerTags,
+      actor: SHOPIFY_ACTOR,
+      holdForReview: overReturned.length > 0 ? "Items are already on another return" : undefined,
+      items,
     });
 
+    if (returnRequest.isReturnless) {
+      await sendReturnlessRefund({ returnRequest, shopName: shop });
+    }
+
     console.log(`Created return request in database for order ${returnData.order.name}`);
   }
 
@@ -0,0 +1,57 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { unauthenticated } from "../shopify.server";
+import { EasyPostProvider, type EasyPostTracker } from "../services/shipping.server";
+import {
+  getTrackingWebhookSecrets,
+  recordTrackingUpdate,
+  verifyEasyPostWebhook,
+} from "../services/tracking.server";
+
+interface EasyPostEventPayload {
+  object?: string;
+  description?: string;
+  result?: EasyPostTracker & { object?: string };
+}
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  // The shop registered /webhooks/tracking/easypost?shop=... in its EasyPost
+  // account; the signature covers the exact bytes EasyPost sent.
+  const shop = new URL(request.url).searchParams.get("shop");
+  const secrets = await getTrackingWebhookSecrets(shop);
+  const rawBody = await request.text();
+
+  if (
+    !shop ||
+    !verifyEasyPostWebhook(
+      rawBody,
+      request.headers.get("x-hmac-signature"),
+      secrets?.easypostWebhookSecret
+    )
+  ) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const payload = JSON.parse(rawBody) as EasyPostEventPayload;
+
+  if (
+    payload.object !== "Event" ||
+    !payload.description?.startsWith("tracker.") ||
+    payload.result?.object !== "Tracker"
+  ) {
+    return json({ received: true });
+  }
+
+  const update = EasyPostProvider.parseTracker(payload.result);
+  if (!update) {
+    return json({ received: true });
+  }
+
+  console.log(`Received EasyPost tracking update for ${update.trackingNumber}: ${update.status}`);
+
+  const result = await recordTrackingUpdate(shop, update, {
+    getAdmin: async (shop) => (await unauthenticated.admin(shop)).admin,
+  });
+
+  return json({ received: true, matched: result.matched });
+};
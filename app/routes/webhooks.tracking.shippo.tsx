@@ -0,0 +1,45 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { unauthenticated } from "../shopify.server";
+import { ShippoProvider, type ShippoTrack } from "../services/shipping.server";
+import {
+  getTrackingWebhookSecrets,
+  recordTrackingUpdate,
+  verifyShippoWebhook,
+} from "../services/tracking.server";
+
+interface ShippoWebhookPayload {
+  event?: string;
+  test?: boolean;
+  data?: ShippoTrack;
+}
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const shop = new URL(request.url).searchParams.get("shop");
+  const secrets = await getTrackingWebhookSecrets(shop);
+
+  if (!shop || !verifyShippoWebhook(request, secrets?.shippoWebhookToken)) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const payload = (await request.json()) as ShippoWebhookPayload;
+
+  if (payload.event !== "track_updated" || !payload.data) {
+    return json({ received: true });
+  }
+
+  const update = ShippoProvider.parseTrack(payload.data);
+  if (!update) {
+    return json({ received: true });
+  }
+
+  console.log(`Received Shippo tracking update for ${update.trackingNumber}: ${update.status}`);
+
+  // Unknown tracking numbers are acknowledged so Shippo doesn't keep retrying
+  // labels bought outside the app.
+  const result = await recordTrackingUpdate(shop, update, {
+    getAdmin: async (shop) => (await unauthenticated.admin(shop)).admin,
+  });
+
+  return json({ received: true, matched: result.matched });
+};
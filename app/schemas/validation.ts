@@ -1,4 +1,10 @@
 import { z } from "zod";
+import { DESTINATION_TYPES, DISPOSITION_TYPES, ITEM_CONDITIONS } from "../utils/disposition";
+import { RETURN_REASONS } from "../utils/reasons";
+import { RISK_LEVELS } from "../utils/risk";
+import { BLOCKLIST_TYPES } from "../utils/eligibility";
+import { WINDOW_RULE_TYPES } from "../utils/return-window";
+import { DELIVERY_ACTIONS } from "../utils/tracking";
 
 export const OrderLookupSchema = z.object({
   orderNumber: z
@@ -23,16 +29,7 @@ export const ReturnItemSchema = z.object({
   sku: z.string().optional(),
   quantity: z.number().int().positive("Quantity must be a positive integer"),
   price: z.number().nonnegative("Price must be non-negative"),
-  reason: z.enum([
-    "defective",
-    "wrong_item",
-    "not_as_described",
-    "no_longer_needed",
-    "wrong_size",
-    "wrong_color",
-    "better_price",
-    "other",
-  ]),
+  reason: z.enum(RETURN_REASONS),
   notes: z.string().optional(),
 });
 
@@ -67,10 +64,88 @@ export const ShopSettingsSchema = z.object({
   requirePhotos: z.boolean().optional(),
   requireReason: z.boolean().optional(),
   restockAutomatically: z.boolean().optional(),
+  refundShipping: z.boolean().optional(),
+  restockingFeePercent: z
+    .number()
+    .min(0, "Restocking fee must be non-negative")
+    .max(100, "Restocking fee cannot exceed 100%")
+    .optional(),
+  returnShippingFee: z
+    .number()
+    .nonnegative("Return shipping fee must be non-negative")
+    .optional(),
+  feeWaivedReasons: z.array(z.enum(RETURN_REASONS)).optional(),
+  feeExemptCustomerTags: z.array(z.string().min(1)).optional(),
   notifyOnNewReturn: z.boolean().optional(),
   notifyOnStatusChange: z.boolean().optional(),
   shippoApiKey: z.string().nullable().optional(),
   easypostApiKey: z.string().nullable().optional(),
+  shippoWebhookToken: z.string().nullable().optional(),
+  easypostWebhookSecret: z.string().nullable().optional(),
+  deliveryAction: z.enum(DELIVERY_ACTIONS).optional(),
+  allowedCarriers: z.array(z.string().min(1)).optional(),
+  maxTransitDays: z
+    .number()
+    .int()
+    .min(1, "Maximum transit days must be at least 1")
+    .nullable()
+    .optional(),
+  qrCodeLabels: z.boolean().optional(),
+  labelExpiryDays: z
+    .number()
+    .int()
+    .min(1, "Label expiry must be at least 1 day")
+    .nullable()
+    .optional(),
+  exchangeReservationDays: z
+    .number()
+    .int()
+    .min(1, "Stock must be held for at least 1 day")
+    .nullable()
+    .optional(),
+  exchangeReservationLocationId: z.string().nullable().optional(),
+  instantExchangeEnabled: z.boolean().optional(),
+  instantExchangeMaxRiskLevel: z.enum(RISK_LEVELS).optional(),
+  instantExchangeReturnDays: z
+    .number()
+    .int()
+    .min(1, "Customers need at least 1 day to send the original back")
+    .max(90, "Instant exchange deadline cannot exceed 90 days")
+    .optional(),
+  exchangePaymentDays: z
+    .number()
+    .int()
+    .min(1, "Customers need at least 1 day to pay for an exchange")
+    .max(60, "Exchange payment deadline cannot exceed 60 days")
+    .optional(),
+  returnlessEnabled: z.boolean().optional(),
+  returnlessThreshold: z
+    .number()
+    .nonnegative("Returnless threshold must be non-negative")
+    .optional(),
+  returnlessReasons: z.array(z.enum(RETURN_REASONS)).optional(),
+  returnlessMaxPerCustomer: z
+    .number()
+    .int()
+    .positive("Returnless limit must be at least 1")
+    .nullable()
+    .optional(),
+  returnlessPeriodDays: z
+    .number()
+    .int()
+    .min(1, "Returnless period must be at least 1 day")
+    .max(365, "Returnless period cannot exceed 365 days")
+    .optional(),
+  autoApproveMaxRiskLevel: z.enum(RISK_LEVELS).optional(),
+  maxReturnsPerCustomer: z
+    .number()
+    .int()
+    .positive("Return limit must be at least 1")
+    .nullable()
+    .optional(),
+  holidayWindowStart: z.coerce.date().nullable().optional(),
+  holidayWindowEnd: z.coerce.date().nullable().optional(),
+  holidayReturnDeadline: z.coerce.date().nullable().optional(),
 });
 
 export type ShopSettingsInput = z.infer<typeof ShopSettingsSchema>;
@@ -84,31 +159,153 @@ export const ReturnDestinationSchema = z.object({
   postalCode: z.string().min(1, "Postal code is required"),
   country: z.string().length(2, "Country must be a 2-letter code").default("US"),
   phone: z.string().optional(),
+  destinationType: z.enum(DESTINATION_TYPES).default("warehouse"),
+  preferredService: z.string().optional(),
   isDefault: z.boolean().optional(),
 });
 
 export type ReturnDestinationInput = z.infer<typeof ReturnDestinationSchema>;
 
+const RoutingConditionTypeSchema = z.enum([
+  "product_type",
+  "product_tag",
+  "sku_contains",
+  "order_value_above",
+  "order_value_below",
+  "return_reason",
+  "customer_tag",
+  "product_vendor",
+]);
+
+export const ConditionLeafSchema = z.object({
+  type: RoutingConditionTypeSchema,
+  value: z.string().min(1, "Condition value is required"),
+});
+
+export type ConditionLeafInput = z.infer<typeof ConditionLeafSchema>;
+
+export interface ConditionGroupInput {
+  operator: "AND" | "OR" | "NOT";
+  conditions: Array<ConditionLeafInput | ConditionGroupInput>;
+}
+
+export const ConditionGroupSchema: z.ZodType<ConditionGroupInput> = z.lazy(() =>
+  z.object({
+    operator: z.enum(["AND", "OR", "NOT"]),
+    conditions: z
+      .array(z.union([ConditionLeafSchema, ConditionGroupSchema]))
+      .min(1, "Condition groups need at least one condition"),
+  })
+);
+
 export const RoutingRuleSchema = z.object({
   name: z.string().min(1, "Rule name is required"),
   priority: z.number().int().nonnegative().optional(),
   isActive: z.boolean().default(true),
-  conditionType: z.enum([
-    "product_type",
-    "product_tag",
-    "sku_contains",
-    "order_value_above",
-    "order_value_below",
-    "return_reason",
-    "customer_tag",
-    "product_vendor",
-  ]),
+  conditionType: z.union([RoutingConditionTypeSchema, z.literal("composite")]),
   conditionValue: z.string().min(1, "Condition value is required"),
+  conditions: ConditionGroupSchema.optional(),
   destinationId: z.string().min(1, "Destination ID is required"),
 });
 
 export type RoutingRuleInput = z.infer<typeof RoutingRuleSchema>;
 
+export const DispositionConditionSchema = z.object({
+  type: z.enum([
+    "item_condition",
+    "price_above",
+    "price_below",
+    "return_reason",
+    "product_type",
+    "product_tag",
+  ]),
+  value: z.string().min(1, "Condition value is required"),
+});
+
+export const DispositionRuleSchema = z
+  .object({
+    name: z.string().min(1, "Rule name is required"),
+    priority: z.number().int().nonnegative().optional(),
+    conditions: z.array(DispositionConditionSchema).min(1, "Add at least one condition"),
+    dispositionType: z.enum(DISPOSITION_TYPES),
+    outletDiscountPercent: z.number().int().min(1).max(90).nullable().optional(),
+  })
+  .refine(
+    (rule) =>
+      rule.conditions.every(
+        (c) =>
+          c.type !== "item_condition" ||
+          (ITEM_CONDITIONS as readonly string[]).includes(c.value)
+      ),
+    { message: "Unknown item condition", path: ["conditions"] }
+  );
+
+export type DispositionRuleInput = z.infer<typeof DispositionRuleSchema>;
+
+export const InspectionItemSchema = z.object({
+  itemId: z.string().min(1, "Item ID is required"),
+  condition: z.enum(ITEM_CONDITIONS),
+  quantityReceived: z.number().int().nonnegative("Received quantity cannot be negative"),
+  photoUrls: z.array(z.string().url()).optional(),
+  notes: z.string().optional(),
+  discrepancy: z.boolean().optional(),
+});
+
+export const InspectionSchema = z.object({
+  items: z.array(InspectionItemSchema).min(1, "Inspect at least one item"),
+});
+
+export type InspectionInput = z.infer<typeof InspectionSchema>;
+
+export const BlocklistEntrySchema = z
+  .object({
+    type: z.enum(BLOCKLIST_TYPES),
+    value: z.string().trim().min(1, "Value is required"),
+    note: z.string().optional(),
+  })
+  .refine((entry) => entry.type !== "email" || z.email().safeParse(entry.value).success, {
+    message: "Enter a valid email address",
+    path: ["value"],
+  });
+
+export type BlocklistEntryInput = z.infer<typeof BlocklistEntrySchema>;
+
+export const ReturnWindowRuleSchema = z.object({
+  type: z.enum(WINDOW_RULE_TYPES),
+  value: z.string().trim().min(1, "Value is required"),
+  windowDays: z
+    .number()
+    .int()
+    .min(1, "Return window must be at least 1 day")
+    .max(365, "Return window cannot exceed 365 days"),
+});
+
+export type ReturnWindowRuleInput = z.infer<typeof ReturnWindowRuleSchema>;
+
+const boxDimension = z
+  .number()
+  .positive("Dimensions must be greater than 0")
+  .max(108, "Dimensions cannot exceed 108 inches");
+
+export const PackagingPresetSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required"),
+    length: boxDimension,
+    width: boxDimension,
+    height: boxDimension,
+    maxWeight: z
+      .number()
+      .positive("Maximum weight must be greater than 0")
+      .max(150, "Maximum weight cannot exceed 150 lb"),
+    boxWeight: z.number().min(0, "Box weight cannot be negative").default(0),
+  })
+  .refine((preset) => preset.boxWeight < preset.maxWeight, {
+    message: "The empty box must weigh less than its maximum weight",
+    path: ["boxWeight"],
+  });
+
+export type PackagingPresetInput = z.infer<typeof PackagingPresetSchema>;
+
 export const ShippingAddressSchema = z.object({
   name: z.string().min(1, "Name is required"),
   street1: z.string().min(1, "Street address is required"),
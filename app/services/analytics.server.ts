@@ -1,4 +1,5 @@
 import db from "../db.server";
+import { ACCEPTED_RETURN_STATUSES } from "../utils/return-status";
 
 export type DateRange = "7d" | "30d" | "90d" | "custom";
 
@@ -104,7 +105,7 @@ export async function getAnalyticsOverview(
       where: {
         shop,
         createdAt: { gte: start, lte: end },
-        OR: [{ status: "approved" }, { status: "completed" }],
+        status: { in: [...ACCEPTED_RETURN_STATUSES] },
         approvedAt: { not: null },
       },
       select: {
@@ -116,7 +117,7 @@ export async function getAnalyticsOverview(
       where: {
         shop,
         createdAt: { gte: previous.start, lte: previous.end },
-        OR: [{ status: "approved" }, { status: "completed" }],
+        status: { in: [...ACCEPTED_RETURN_STATUSES] },
         approvedAt: { not: null },
       },
       select: {
@@ -236,6 +237,55 @@ export async function getReturnsByReason(
   return result.sort((a, b) => b.count - a.count);
 }
 
+export interface DispositionBreakdown {
+  dispositionType: string;
+  count: number;
+  percentage: number;
+  totalValue: number;
+}
+
+// Counts units per disposition outcome for items inspected in the range; items
+// still awaiting inspection are reported as "pending".
+export async function getDispositionBreakdown(
+  shop: string,
+  filter: DateRangeFilter = { range: "30d" }
+): Promise<DispositionBreakdown[]> {
+  const { start, end } = getDateRange(filter);
+
+  const items = await db.returnItem.findMany({
+    where: {
+      returnRequest: {
+        shop,
+        createdAt: { gte: start, lte: end },
+      },
+    },
+  });
+
+  const dispositionMap = new Map<string, { count: number; totalValue: number }>();
+
+  for (const item of items) {
+    const key = item.dispositionType || "pending";
+    const existing = dispositionMap.get(key) || { count: 0, totalValue: 0 };
+    existing.count += item.quantity;
+    existing.totalValue += item.pricePerItem * item.quantity;
+    dispositionMap.set(key, existing);
+  }
+
+  const total = items.reduce((sum, item) => sum + item.quantity, 0) || 1;
+  const result: DispositionBreakdown[] = [];
+
+  for (const [dispositionType, data] of dispositionMap.entries()) {
+    result.push({
+      dispositionType,
+      count: data.count,
+      percentage: (data.count / total) * 100,
+      totalValue: data.totalValue,
+    });
+  }
+
+  return result.sort((a, b) => b.count - a.count);
+}
+
 export interface ProductReturnRate {
   productId: string;
   productTitle: string;
@@ -346,7 +396,7 @@ export async function getFinancialMetrics(
       createdAt: { gte: start, lte: end },
     },
     include: {
-      label: true,
+      labels: true,
     },
   });
 
@@ -370,8 +420,8 @@ export async function getFinancialMetrics(
       bonusCreditCost += request.exchangeBonusApplied || 0;
     }
 
-    if (request.label?.cost) {
-      shippingLabelCosts += request.label.cost;
+    for (const label of request.labels) {
+      shippingLabelCosts += label.cost ?? 0;
     }
   }
 
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateAppProxySignature,
+  customerOrderRateLimit,
+  getClientIp,
+  rateLimitedResponse,
+  verifyAppProxyRequest,
+} from "./app-proxy.server";
+
+const SECRET = "hush";
+
+// Example request from Shopify's app proxy documentation.
+const SIGNED_QUERY =
+  "extra=1&extra=2&shop=shop-name.myshopify.com&path_prefix=%2Fapps%2Fawesome_reviews" +
+  "&timestamp=1317327555&signature=a9718877bea71c2484f91608a7eaea1532bdf71f5c56825065fa4ccabe549ef3";
+const SIGNED_AT = new Date(1317327555 * 1000);
+
+function requestFor(query: string) {
+  return new Request(`https://app.example.com/api/customer/lookup?${query}`, { method: "POST" });
+}
+
+describe("App Proxy Service", () => {
+  describe("calculateAppProxySignature", () => {
+    it("matches the signature Shopify sends", () => {
+      const params = new URLSearchParams(SIGNED_QUERY);
+
+      expect(calculateAppProxySignature(params, SECRET)).toBe(params.get("signature"));
+    });
+  });
+
+  describe("verifyAppProxyRequest", () => {
+    it("accepts a signed request and takes the shop from the query string", () => {
+      expect(
+        verifyAppProxyRequest(requestFor(SIGNED_QUERY), { secret: SECRET, now: SIGNED_AT })
+      ).toEqual({ valid: true, shop: "shop-name.myshopify.com", loggedInCustomerId: null });
+    });
+
+    it("rejects requests without a signature", () => {
+      expect(
+        verifyAppProxyRequest(requestFor("shop=shop-name.myshopify.com&timestamp=1317327555"), {
+          secret: SECRET,
+          now: SIGNED_AT,
+        })
+      ).toEqual({ valid: false, error: "Missing app proxy signature" });
+    });
+
+    it("rejects a tampered query string or the wrong secret", () => {
+      const tampered = SIGNED_QUERY.replace("shop-name", "other-shop");
+
+      expect(
+        verifyAppProxyRequest(requestFor(tampered), { secret: SECRET, now: SIGNED_AT })
+      ).toEqual({ valid: false, error: "Invalid app proxy signature" });
+      expect(
+        verifyAppProxyRequest(requestFor(SIGNED_QUERY), { secret: "wrong", now: SIGNED_AT })
+      ).toEqual({ valid: false, error: "Invalid app proxy signature" });
+    });
+
+    it("rejects signatures older than 90 seconds", () => {
+      const later = new Date(SIGNED_AT.getTime() + 91 * 1000);
+
+      expect(
+        verifyAppProxyRequest(requestFor(SIGNED_QUERY), { secret: SECRET, now: later })
+      ).toEqual({ valid: false, error: "App proxy signature has expired" });
+    });
+
+    it("fails closed when the app secret is not configured", () => {
+      expect(
+        verifyAppProxyRequest(requestFor(SIGNED_QUERY), { secret: "", now: SIGNED_AT }).valid
+      ).toBe(false);
+    });
+  });
+
+  describe("getClientIp", () => {
+    it("uses the address appended by the trusted proxy, not one the client sent", () => {
+      const request = new Request("https://app.example.com", {
+        headers: { "X-Forwarded-For": "198.51.100.1, 203.0.113.7" },
+      });
+
+      expect(getClientIp(request)).toBe("203.0.113.7");
+      expect(getClientIp(request, 2)).toBe("198.51.100.1");
+      expect(getClientIp(request, 5)).toBe("198.51.100.1");
+      expect(getClientIp(new Request("https://app.example.com"))).toBe("unknown");
+    });
+  });
+
+  describe("customerOrderRateLimit", () => {
+    it("keys limits by endpoint, shop and order", () => {
+      expect(customerOrderRateLimit("lookup", "shop.myshopify.com", "ABC1001")).toEqual({
+        key: "lookup:order:shop.myshopify.com:abc1001",
+        limit: 10,
+        windowMs: 60 * 60 * 1000,
+      });
+    });
+  });
+
+  describe("rateLimitedResponse", () => {
+    it("returns a 429 with Retry-After", async () => {
+      const response = rateLimitedResponse({ allowed: false, retryAfterSeconds: 125 });
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get("Retry-After")).toBe("125");
+      expect(await response.json()).toEqual({
+        error: "Too many requests. Please try again in 3 minutes.",
+        code: "rate_limited",
+        retryAfter: 125,
+      });
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { json } from "@remix-run/node";
+import type { RateLimitResult, RateLimitRule } from "./rate-limit.server";
+
+// Shopify signs every app proxy request when it forwards it; older signatures
+// are treated as replays.
+const MAX_SIGNATURE_AGE_SECONDS = 90;
+
+const MINUTE_MS = 60 * 1000;
+
+export type CustomerEndpoint = "lookup" | "returns" | "dropoff" | "exchange";
+
+const CUSTOMER_RATE_LIMITS: Record<
+  CustomerEndpoint,
+  { ip: { limit: number; windowMs: number }; order: { limit: number; windowMs: number } }
+> = {
+  // Lookups are where order numbers and emails get guessed, so each order
+  // allows only a handful of attempts.
+  lookup: {
+    ip: { limit: 20, windowMs: 10 * MINUTE_MS },
+    order: { limit: 10, windowMs: 60 * MINUTE_MS },
+  },
+  returns: {
+    ip: { limit: 10, windowMs: 60 * MINUTE_MS },
+    order: { limit: 5, windowMs: 60 * MINUTE_MS },
+  },
+  // Each lookup can reach a carrier API, so repeat lookups for one return are capped.
+  dropoff: {
+    ip: { limit: 20, windowMs: 10 * MINUTE_MS },
+    order: { limit: 10, windowMs: 60 * MINUTE_MS },
+  },
+  // Browsing the exchange catalog pages through products and reprices the
+  // cart, so it allows far more calls per return than the other endpoints.
+  exchange: {
+    ip: { limit: 120, windowMs: 10 * MINUTE_MS },
+    order: { limit: 200, windowMs: 60 * MINUTE_MS },
+  },
+};
+
+export type AppProxyVerification =
+  | { valid: true; shop: string; loggedInCustomerId: string | null }
+  | { valid: false; error: string };
+
+// Shopify's app proxy signature: every query parameter except the signature,
+// as key=value with repeated values joined by commas, sorted and concatenated.
+export function calculateAppProxySignature(params: URLSearchParams, secret: string): string {
+  const message = [...new Set(params.keys())]
+    .filter((key) => key !== "signature")
+    .map((key) => `${key}=${params.getAll(key).join(",")}`)
+    .sort()
+    .join("");
+
+  return createHmac("sha256", secret).update(message).digest("hex");
+}
+
+export function verifyAppProxyRequest(
+  request: Request,
+  options: { secret?: string; now?: Date } = {}
+): AppProxyVerification {
+  const secret = options.secret ?? process.env.SHOPIFY_API_SECRET;
+  const params = new URL(request.url).searchParams;
+  const signature = params.get("signature");
+  const shop = params.get("shop");
+  const timestamp = Number(params.get("timestamp"));
+
+  if (!secret || !signature || !shop || !Number.isFinite(timestamp)) {
+    return { valid: false, error: "Missing app proxy signature" };
+  }
+
+  const expected = Buffer.from(calculateAppProxySignature(params, secret), "utf8");
+  const received = Buffer.from(signature, "utf8");
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { valid: false, error: "Invalid app proxy signature" };
+  }
+
+  const nowSeconds = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  if (Math.abs(nowSeconds - timestamp) > MAX_SIGNATURE_AGE_SECONDS) {
+    return { valid: false, error: "App proxy signature has expired" };
+  }
+
+  if (!/^[a-z0-9][a-z0-9-]*\.myshopify\.com$/i.test(shop)) {
+    return { valid: false, error: "Invalid shop domain" };
+  }
+
+  return {
+    valid: true,
+    shop: shop.toLowerCase(),
+    loggedInCustomerId: params.get("logged_in_customer_id") || null,
+  };
+}
+
+// Anyone can send an X-Forwarded-For header, so only the entries appended by
+// the proxies in front of the app are trusted: the address the last trusted
+// proxy saw is the client. TRUSTED_PROXY_COUNT is how many proxies append one.
+export function getClientIp(
+  request: Request,
+  trustedProxies = Number(process.env.TRUSTED_PROXY_COUNT ?? 1)
+): string {
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  const forwarded = hops[Math.max(0, hops.length - Math.max(1, trustedProxies))];
+  return forwarded || request.headers.get("x-real-ip") || "unknown";
+}
+
+export function customerIpRateLimit(
+  endpoint: CustomerEndpoint,
+  shop: string,
+  ip: string
+): RateLimitRule {
+  return { key: `${endpoint}:ip:${shop}:${ip}`, ...CUSTOMER_RATE_LIMITS[endpoint].ip };
+}
+
+export function customerOrderRateLimit(
+  endpoint: CustomerEndpoint,
+  shop: string,
+  order: string
+): RateLimitRule {
+  return {
+    key: `${endpoint}:order:${shop}:${order.toLowerCase()}`,
+    ...CUSTOMER_RATE_LIMITS[endpoint].order,
+  };
+}
+
+export function unauthorizedResponse(verification: { error: string }) {
+  console.warn(`Rejected app proxy request: ${verification.error}`);
+  return json(
+    {
+      error: "This request could not be verified. Please refresh the page and try again.",
+      code: "invalid_signature",
+    },
+    { status: 401 }
+  );
+}
+
+export function rateLimitedResponse(result: RateLimitResult) {
+  const minutes = Math.ceil(result.retryAfterSeconds / 60);
+  return json(
+    {
+      error: `Too many requests. Please try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+      code: "rate_limited",
+      retryAfter: result.retryAfterSeconds,
+    },
+    { status: 429, headers: { "Retry-After": result.retryAfterSeconds.toString() } }
+  );
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildCustomsDeclaration,
+  fetchVariantCustomsInfo,
+  isInternationalShipment,
+} from "./customs.server";
+import { mockReturnItem } from "../../test/fixtures";
+
+describe("Customs", () => {
+  describe("isInternationalShipment", () => {
+    it("compares country codes without regard to case or spacing", () => {
+      expect(isInternationalShipment("US", " us")).toBe(false);
+      expect(isInternationalShipment("CA", "US")).toBe(true);
+    });
+  });
+
+  describe("buildCustomsDeclaration", () => {
+    it("declares each returned item as a return of goods", () => {
+      const declaration = buildCustomsDeclaration(
+        [
+          {
+            ...mockReturnItem,
+            shopifyVariantId: "gid://shopify/ProductVariant/1",
+            quantity: 2,
+            pricePerItem: 24.995,
+          },
+          {
+            ...mockReturnItem,
+            shopifyVariantId: "gid://shopify/ProductVariant/2",
+            variantTitle: null,
+            sku: null,
+          },
+        ],
+        {
+          signer: "Jane Doe",
+          parcelWeight: 3,
+          defaultOriginCountry: "us",
+          variantInfo: new Map([
+            ["gid://shopify/ProductVariant/1", { hsCode: "6109.10", originCountry: "PT" }],
+            ["gid://shopify/ProductVariant/2", { hsCode: null, originCountry: null }],
+          ]),
+        }
+      );
+
+      expect(declaration).toEqual({
+        contentsType: "return_merchandise",
+        contentsExplanation: "Return of goods",
+        signer: "Jane Doe",
+        items: [
+          {
+            description: `${mockReturnItem.title} - ${mockReturnItem.variantTitle}`,
+            quantity: 2,
+            value: 49.99,
+            currency: "USD",
+            weight: 2,
+            hsCode: "6109.10",
+            originCountry: "PT",
+            sku: mockReturnItem.sku,
+          },
+          expect.objectContaining({
+            description: mockReturnItem.title,
+            quantity: 1,
+            weight: 1,
+            hsCode: null,
+            originCountry: "US",
+            sku: null,
+          }),
+        ],
+      });
+    });
+  });
+
+  describe("fetchVariantCustomsInfo", () => {
+    it("prefers the product metafield over the inventory item's HS code", async () => {
+      const admin = {
+        graphql: vi.fn().mockResolvedValue({
+          json: async () => ({
+            data: {
+              nodes: [
+                {
+                  id: "gid://shopify/ProductVariant/1",
+                  inventoryItem: { harmonizedSystemCode: "6109.90", countryCodeOfOrigin: "PT" },
+                  product: { hsCode: { value: "6109.10" } },
+                },
+                {
+                  id: "gid://shopify/ProductVariant/2",
+                  inventoryItem: { harmonizedSystemCode: "4202.92", countryCodeOfOrigin: null },
+                  product: { hsCode: null },
+                },
+                null,
+              ],
+            },
+          }),
+        }),
+      };
+
+      const info = await fetchVariantCustomsInfo(admin, [
+        "gid://shopify/ProductVariant/1",
+        "gid://shopify/ProductVariant/2",
+        "gid://shopify/ProductVariant/1",
+      ]);
+
+      expect(admin.graphql).toHaveBeenCalledWith(expect.stringContaining("GetCustomsInfo"), {
+        variables: { ids: ["gid://shopify/ProductVariant/1", "gid://shopify/ProductVariant/2"] },
+      });
+      expect(info.get("gid://shopify/ProductVariant/1")).toEqual({
+        hsCode: "6109.10",
+        originCountry: "PT",
+      });
+      expect(info.get("gid://shopify/ProductVariant/2")).toEqual({
+        hsCode: "4202.92",
+        originCountry: null,
+      });
+    });
+
+    it("skips the lookup when there are no variants", async () => {
+      const admin = { graphql: vi.fn() };
+
+      expect((await fetchVariantCustomsInfo(admin, [])).size).toBe(0);
+      expect(admin.graphql).not.toHaveBeenCalled();
+    });
+  });
+});
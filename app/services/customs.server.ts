@@ -0,0 +1,135 @@
+import type { ReturnItem } from "@prisma/client";
+
+type AdminGraphQL = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+// Product metafield holding the item's HS tariff code. The inventory item's
+// own harmonized system code is used when the metafield isn't set.
+export const HS_CODE_METAFIELD = { namespace: "customs", key: "hs_code" } as const;
+
+const GET_CUSTOMS_INFO = `#graphql
+  query GetCustomsInfo($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        inventoryItem {
+          harmonizedSystemCode
+          countryCodeOfOrigin
+        }
+        product {
+          hsCode: metafield(namespace: "${HS_CODE_METAFIELD.namespace}", key: "${HS_CODE_METAFIELD.key}") {
+            value
+          }
+        }
+      }
+    }
+  }
+`;
+
+export interface CustomsItem {
+  description: string;
+  quantity: number;
+  // Value of the whole line, not per unit
+  value: number;
+  currency: string;
+  // Weight of the whole line, in pounds
+  weight: number;
+  hsCode: string | null;
+  originCountry: string;
+  sku: string | null;
+}
+
+// Always declared as a return of goods, so the parcel isn't taxed as a new
+// import on its way back.
+export interface CustomsDeclaration {
+  contentsType: "return_merchandise";
+  contentsExplanation: string;
+  // Whoever certifies the declaration; the customer, since they send it
+  signer: string;
+  items: CustomsItem[];
+}
+
+export interface VariantCustomsInfo {
+  hsCode: string | null;
+  originCountry: string | null;
+}
+
+function normalizeCountry(country: string): string {
+  return country.trim().toUpperCase();
+}
+
+export function isInternationalShipment(fromCountry: string, toCountry: string): boolean {
+  return normalizeCountry(fromCountry) !== normalizeCountry(toCountry);
+}
+
+// Looks up HS codes and countries of origin for the given variant GIDs.
+// Variants Shopify no longer knows are left out.
+export async function fetchVariantCustomsInfo(
+  admin: AdminGraphQL,
+  variantIds: string[]
+): Promise<Map<string, VariantCustomsInfo>> {
+  const info = new Map<string, VariantCustomsInfo>();
+  if (variantIds.length === 0) {
+    return info;
+  }
+
+  const response = await admin.graphql(GET_CUSTOMS_INFO, {
+    variables: { ids: [...new Set(variantIds)] },
+  });
+  const { data } = await response.json();
+
+  for (const node of data?.nodes ?? []) {
+    if (!node?.id) continue;
+    info.set(node.id, {
+      hsCode: node.product?.hsCode?.value || node.inventoryItem?.harmonizedSystemCode || null,
+      originCountry: node.inventoryItem?.countryCodeOfOrigin ?? null,
+    });
+  }
+
+  return info;
+}
+
+// One customs line per returned item. The parcel weight is shared across
+// units, since per-item weights aren't stored on the return. Items without a
+// known origin are declared as made where they're being returned to.
+export function buildCustomsDeclaration(
+  items: Array<
+    Pick<
+      ReturnItem,
+      "shopifyVariantId" | "title" | "variantTitle" | "sku" | "quantity" | "pricePerItem"
+    >
+  >,
+  options: {
+    signer: string;
+    parcelWeight: number;
+    defaultOriginCountry: string;
+    variantInfo?: Map<string, VariantCustomsInfo>;
+    currency?: string;
+  }
+): CustomsDeclaration {
+  const units = items.reduce((sum, item) => sum + item.quantity, 0);
+  const weightPerUnit = units > 0 ? options.parcelWeight / units : 0;
+
+  return {
+    contentsType: "return_merchandise",
+    contentsExplanation: "Return of goods",
+    signer: options.signer,
+    items: items.map((item) => {
+      const info = item.shopifyVariantId
+        ? options.variantInfo?.get(item.shopifyVariantId)
+        : undefined;
+
+      return {
+        description: item.variantTitle ? `${item.title} - ${item.variantTitle}` : item.title,
+        quantity: item.quantity,
+        value: Math.round(item.pricePerItem * item.quantity * 100) / 100,
+        currency: options.currency ?? "USD",
+        weight: Math.round(weightPerUnit * item.quantity * 100) / 100,
+        hsCode: info?.hsCode ?? null,
+        originCountry: normalizeCountry(info?.originCountry ?? options.defaultOriginCountry),
+        sku: item.sku,
+      };
+    }),
+  };
+}
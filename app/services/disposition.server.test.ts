@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { DispositionRule } from "@prisma/client";
+import db from "../db.server";
+import {
+  evaluateDispositionCondition,
+  resolveDisposition,
+  outletPrice,
+  buildDispositionReference,
+  applyItemDisposition,
+  executeDisposition,
+  type DispositionContext,
+} from "./disposition.server";
+import { restockReturnedItems } from "./restocking.server";
+import {
+  createMockDispositionRule,
+  createMockReturnItem,
+  mockReturnRequest,
+} from "../../test/fixtures";
+
+vi.mock("./restocking.server", () => ({
+  restockReturnedItems: vi.fn(),
+}));
+
+function rule(overrides: Parameters<typeof createMockDispositionRule>[0] = {}) {
+  return createMockDispositionRule(overrides) as DispositionRule;
+}
+
+function mockAdmin(response: unknown) {
+  return {
+    graphql: vi.fn().mockResolvedValue({ json: () => Promise.resolve(response) }),
+  };
+}
+
+describe("Disposition Engine", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("evaluateDispositionCondition", () => {
+    const context: DispositionContext = {
+      condition: "like_new",
+      pricePerItem: 40,
+      returnReason: "Wrong size",
+      productType: "Apparel",
+      productTags: ["Summer"],
+    };
+
+    it("matches item condition", () => {
+      expect(evaluateDispositionCondition({ type: "item_condition", value: "like_new" }, context)).toBe(true);
+      expect(evaluateDispositionCondition({ type: "item_condition", value: "new" }, context)).toBe(false);
+    });
+
+    it("compares price thresholds", () => {
+      expect(evaluateDispositionCondition({ type: "price_above", value: "30" }, context)).toBe(true);
+      expect(evaluateDispositionCondition({ type: "price_below", value: "30" }, context)).toBe(false);
+      expect(evaluateDispositionCondition({ type: "price_above", value: "abc" }, context)).toBe(false);
+    });
+
+    it("matches reason, product type and tags case-insensitively", () => {
+      expect(evaluateDispositionCondition({ type: "return_reason", value: "wrong size" }, context)).toBe(true);
+      expect(evaluateDispositionCondition({ type: "product_type", value: "apparel" }, context)).toBe(true);
+      expect(evaluateDispositionCondition({ type: "product_tag", value: "summer" }, context)).toBe(true);
+    });
+  });
+
+  describe("resolveDisposition", () => {
+    const context: DispositionContext = { condition: "new", pricePerItem: 80 };
+
+    it("returns the first matching rule by priority", () => {
+      const rules = [
+        rule({
+          id: "rule_outlet",
+          priority: 2,
+          conditions: [{ type: "item_condition", value: "new" }],
+          dispositionType: "outlet",
+        }),
+        rule({
+          id: "rule_restock",
+          name: "New and pricey to stock",
+          priority: 1,
+          conditions: [
+            { type: "item_condition", value: "new" },
+            { type: "price_above", value: "50" },
+          ],
+          dispositionType: "restock",
+        }),
+      ];
+
+      const decision = resolveDisposition(rules, context);
+
+      expect(decision.dispositionType).toBe("restock");
+      expect(decision.rule?.id).toBe("rule_restock");
+      expect(decision.reason).toBe("New and pricey to stock");
+    });
+
+    it("requires every condition to match", () => {
+      const rules = [
+        rule({
+          conditions: [
+            { type: "item_condition", value: "new" },
+            { type: "price_below", value: "20" },
+          ],
+        }),
+      ];
+
+      expect(resolveDisposition(rules, context).dispositionType).toBeNull();
+    });
+
+    it("skips inactive rules, rules without conditions and unknown outcomes", () => {
+      const rules = [
+        rule({ id: "inactive", isActive: false, conditions: [{ type: "item_condition", value: "new" }] }),
+        rule({ id: "empty", conditions: [] }),
+        rule({ id: "unknown", dispositionType: "landfill", conditions: [{ type: "item_condition", value: "new" }] }),
+      ];
+
+      const decision = resolveDisposition(rules, context);
+
+      expect(decision.dispositionType).toBeNull();
+      expect(decision.reason).toBe("No disposition rule matched");
+    });
+  });
+
+  describe("helpers", () => {
+    it("applies the outlet discount", () => {
+      expect(outletPrice(49.99, 20)).toBe(39.99);
+    });
+
+    it("builds receipt and claim references", () => {
+      const date = new Date("2024-03-05T10:00:00Z");
+      expect(buildDispositionReference("DON", "item_abc123", date)).toBe("DON-20240305-ABC123");
+      expect(buildDispositionReference("CLM", "item_abc123", date)).toBe("CLM-20240305-ABC123");
+    });
+  });
+
+  describe("applyItemDisposition", () => {
+    it("records the condition and restocks only the inspected item", async () => {
+      vi.mocked(db.returnItem.findUnique).mockResolvedValue({
+        ...createMockReturnItem({ id: "item_1", pricePerItem: 80 }),
+        returnRequest: mockReturnRequest,
+      } as never);
+      vi.mocked(db.dispositionRule.findMany).mockResolvedValue([
+        rule({
+          name: "New to stock",
+          conditions: [{ type: "item_condition", value: "new" }],
+          dispositionType: "restock",
+        }),
+      ]);
+      vi.mocked(restockReturnedItems).mockResolvedValue([
+        { success: true, itemId: "item_1", variantId: "v1", quantity: 1 },
+      ]);
+
+      const result = await applyItemDisposition({ graphql: vi.fn() }, "item_1", {
+        condition: "new",
+      });
+
+      expect(db.returnItem.update).toHaveBeenNthCalledWith(1, {
+        where: { id: "item_1" },
+        data: {
+          condition: "new",
+          dispositionType: "restock",
+          dispositionReason: "New to stock",
+        },
+      });
+      expect(restockReturnedItems).toHaveBeenCalledWith(
+        expect.anything(),
+        "return_123",
+        undefined,
+        { itemIds: ["item_1"], fromInspection: true }
+      );
+      expect(result).toEqual({
+        success: true,
+        itemId: "item_1",
+        dispositionType: "restock",
+        reference: undefined,
+      });
+    });
+
+    it("leaves unmatched items for manual review", async () => {
+      vi.mocked(db.returnItem.findUnique).mockResolvedValue({
+        ...createMockReturnItem({ id: "item_1" }),
+        returnRequest: mockReturnRequest,
+      } as never);
+      vi.mocked(db.dispositionRule.findMany).mockResolvedValue([]);
+
+      const result = await applyItemDisposition({ graphql: vi.fn() }, "item_1", {
+        condition: "damaged",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.dispositionType).toBeNull();
+      expect(db.returnItem.update).toHaveBeenCalledTimes(1);
+    });
+
+    it("throws when the item does not exist", async () => {
+      vi.mocked(db.returnItem.findUnique).mockResolvedValue(null);
+
+      await expect(
+        applyItemDisposition({ graphql: vi.fn() }, "missing", { condition: "new" })
+      ).rejects.toThrow("Return item not found: missing");
+    });
+  });
+
+  describe("executeDisposition", () => {
+    it("creates a discounted outlet listing", async () => {
+      const admin = mockAdmin({
+        data: {
+          productSet: {
+            product: { id: "gid://shopify/Product/999", title: "Premium Widget (Outlet)" },
+            userErrors: [],
+          },
+        },
+      });
+      admin.graphql.mockResolvedValueOnce({
+        json: () =>
+          Promise.resolve({
+            data: {
+              productVariant: {
+                inventoryItem: {
+                  inventoryLevels: { nodes: [{ location: { id: "gid://shopify/Location/1" } }] },
+                },
+              },
+            },
+          }),
+      });
+      const item = createMockReturnItem({
+        pricePerItem: 100,
+        condition: "like_new",
+        quantity: 3,
+        quantityReceived: 2,
+      });
+
+      const result = await executeDisposition(admin, item, "outlet", rule({ outletDiscountPercent: 25 }));
+
+      expect(result).toEqual({
+        success: true,
+        itemId: item.id,
+        dispositionType: "outlet",
+        reference: "gid://shopify/Product/999",
+      });
+      const variables = admin.graphql.mock.calls[1][1].variables;
+      expect(variables.input.status).toBe("DRAFT");
+      expect(variables.input.variants[0].price).toBe("75.00");
+      expect(variables.input.variants[0].compareAtPrice).toBe("100.00");
+      expect(variables.input.variants[0].inventoryQuantities).toEqual([
+        { locationId: "gid://shopify/Location/1", name: "available", quantity: 2 },
+      ]);
+    });
+
+    it("reports outlet listing errors without marking the item done", async () => {
+      const admin = mockAdmin({
+        data: { productSet: { product: null, userErrors: [{ message: "Title is too long" }] } },
+      });
+
+      const result = await executeDisposition(admin, createMockReturnItem(), "outlet");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Title is too long");
+      expect(db.returnItem.update).not.toHaveBeenCalled();
+    });
+
+    it("records a warranty claim reference for manufacturer returns", async () => {
+      const item = createMockReturnItem({ id: "item_abcdef" });
+
+      const result = await executeDisposition({ graphql: vi.fn() }, item, "manufacturer");
+
+      expect(result.reference).toMatch(/^CLM-\d{8}-ABCDEF$/);
+      expect(db.returnItem.update).toHaveBeenCalledWith({
+        where: { id: "item_abcdef" },
+        data: { dispositionReference: result.reference, dispositionedAt: expect.any(Date) },
+      });
+    });
+  });
+});
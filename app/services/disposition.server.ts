@@ -0,0 +1,424 @@
+import type { DispositionRule, Prisma, ReturnItem } from "@prisma/client";
+import db from "../db.server";
+import { restockReturnedItems } from "./restocking.server";
+import {
+  DEFAULT_OUTLET_DISCOUNT_PERCENT,
+  isDispositionType,
+  type DispositionCondition,
+  type DispositionType,
+  type ItemCondition,
+} from "../utils/disposition";
+
+export {
+  DISPOSITION_TYPES,
+  ITEM_CONDITIONS,
+  describeDispositionConditions,
+  dispositionTypeLabels,
+  itemConditionLabels,
+} from "../utils/disposition";
+export type {
+  DispositionCondition,
+  DispositionConditionType,
+  DispositionType,
+  ItemCondition,
+} from "../utils/disposition";
+
+type AdminGraphQL = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+const GET_VARIANT_LOCATION = `#graphql
+  query GetVariantLocation($variantId: ID!) {
+    productVariant(id: $variantId) {
+      id
+      inventoryItem {
+        inventoryLevels(first: 1) {
+          nodes {
+            location {
+              id
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const CREATE_OUTLET_PRODUCT = `#graphql
+  mutation CreateOutletProduct($input: ProductSetInput!) {
+    productSet(input: $input, synchronous: true) {
+      product {
+        id
+        title
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export interface DispositionContext {
+  condition: ItemCondition;
+  pricePerItem: number;
+  returnReason?: string;
+  productType?: string;
+  productTags?: string[];
+}
+
+export interface DispositionDecision {
+  dispositionType: DispositionType | null;
+  rule: DispositionRule | null;
+  reason: string;
+}
+
+export interface DispositionResult {
+  success: boolean;
+  itemId: string;
+  dispositionType: DispositionType | null;
+  reference?: string;
+  error?: string;
+}
+
+export function evaluateDispositionCondition(
+  condition: DispositionCondition,
+  context: DispositionContext
+): boolean {
+  const normalizedValue = condition.value.toLowerCase().trim();
+
+  switch (condition.type) {
+    case "item_condition":
+      return context.condition === normalizedValue;
+
+    case "price_above": {
+      const minValue = parseFloat(condition.value);
+      return !isNaN(minValue) && context.pricePerItem > minValue;
+    }
+
+    case "price_below": {
+      const maxValue = parseFloat(condition.value);
+      return !isNaN(maxValue) && context.pricePerItem < maxValue;
+    }
+
+    case "return_reason":
+      return context.returnReason?.toLowerCase() === normalizedValue;
+
+    case "product_type":
+      return context.productType?.toLowerCase() === normalizedValue;
+
+    case "product_tag":
+      return context.productTags?.some((tag) => tag.toLowerCase() === normalizedValue) ?? false;
+
+    default:
+      return false;
+  }
+}
+
+export function parseDispositionConditions(value: unknown): DispositionCondition[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.filter(
+    (condition): condition is DispositionCondition =>
+      typeof condition === "object" &&
+      condition !== null &&
+      typeof condition.type === "string" &&
+      typeof condition.value === "string"
+  );
+}
+
+// A rule without conditions never matches, mirroring empty routing groups.
+export function matchesDispositionRule(
+  rule: DispositionRule,
+  context: DispositionContext
+): boolean {
+  const conditions = parseDispositionConditions(rule.conditions);
+  if (conditions.length === 0) {
+    return false;
+  }
+
+  return conditions.every((condition) => evaluateDispositionCondition(condition, context));
+}
+
+export function resolveDisposition(
+  rules: DispositionRule[],
+  context: DispositionContext
+): DispositionDecision {
+  const sortedRules = [...rules]
+    .filter((rule) => rule.isActive && isDispositionType(rule.dispositionType))
+    .sort((a, b) => a.priority - b.priority);
+
+  for (const rule of sortedRules) {
+    if (matchesDispositionRule(rule, context)) {
+      return {
+        dispositionType: rule.dispositionType as DispositionType,
+        rule,
+        reason: rule.name,
+      };
+    }
+  }
+
+  return {
+    dispositionType: null,
+    rule: null,
+    reason: "No disposition rule matched",
+  };
+}
+
+export function outletPrice(pricePerItem: number, discountPercent: number): number {
+  return Math.round(pricePerItem * (1 - discountPercent / 100) * 100) / 100;
+}
+
+export function buildDispositionReference(
+  prefix: "DON" | "CLM",
+  itemId: string,
+  date: Date = new Date()
+): string {
+  const day = date.toISOString().slice(0, 10).replace(/-/g, "");
+  return `${prefix}-${day}-${itemId.slice(-6).toUpperCase()}`;
+}
+
+export async function getDispositionRules(shop: string) {
+  return db.dispositionRule.findMany({
+    where: { shop },
+    orderBy: { priority: "asc" },
+  });
+}
+
+export async function createDispositionRule(
+  shop: string,
+  data: {
+    name: string;
+    priority?: number;
+    conditions: DispositionCondition[];
+    dispositionType: DispositionType;
+    outletDiscountPercent?: number | null;
+  }
+) {
+  return db.dispositionRule.create({
+    data: {
+      shop,
+      ...data,
+      conditions: data.conditions as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
+
+export async function updateDispositionRule(
+  shop: string,
+  id: string,
+  data: {
+    name?: string;
+    priority?: number;
+    isActive?: boolean;
+    conditions?: DispositionCondition[];
+    dispositionType?: DispositionType;
+    outletDiscountPercent?: number | null;
+  }
+) {
+  const { count } = await db.dispositionRule.updateMany({
+    where: { id, shop },
+    data: {
+      ...data,
+      conditions: data.conditions as unknown as Prisma.InputJsonValue | undefined,
+    },
+  });
+
+  if (count === 0) {
+    throw new Error("Disposition rule not found");
+  }
+
+  return db.dispositionRule.findUnique({ where: { id } });
+}
+
+export async function deleteDispositionRule(shop: string, id: string) {
+  const { count } = await db.dispositionRule.deleteMany({
+    where: { id, shop },
+  });
+
+  if (count === 0) {
+    throw new Error("Disposition rule not found");
+  }
+}
+
+// Records the inspected condition, picks a disposition from the shop's rules and
+// runs the matching side effect. Unmatched items keep their condition and are
+// left for the merchant to decide.
+export async function applyItemDisposition(
+  admin: AdminGraphQL,
+  returnItemId: string,
+  inspection: {
+    condition: ItemCondition;
+    productType?: string;
+    productTags?: string[];
+  }
+): Promise<DispositionResult> {
+  const item = await db.returnItem.findUnique({
+    where: { id: returnItemId },
+    include: { returnRequest: true },
+  });
+
+  if (!item) {
+    throw new Error(`Return item not found: ${returnItemId}`);
+  }
+
+  const rules = await db.dispositionRule.findMany({
+    where: { shop: item.returnRequest.shop, isActive: true },
+    orderBy: { priority: "asc" },
+  });
+
+  const decision = resolveDisposition(rules, {
+    condition: inspection.condition,
+    pricePerItem: item.pricePerItem,
+    returnReason: item.reason ?? item.returnRequest.reason ?? undefined,
+    productType: inspection.productType,
+    productTags: inspection.productTags,
+  });
+
+  await db.returnItem.update({
+    where: { id: item.id },
+    data: {
+      condition: inspection.condition,
+      dispositionType: decision.dispositionType,
+      dispositionReason: decision.reason,
+    },
+  });
+
+  if (!decision.dispositionType) {
+    return {
+      success: false,
+      itemId: item.id,
+      dispositionType: null,
+      error: decision.reason,
+    };
+  }
+
+  return executeDisposition(admin, item, decision.dispositionType, decision.rule);
+}
+
+export async function executeDisposition(
+  admin: AdminGraphQL,
+  item: ReturnItem,
+  dispositionType: DispositionType,
+  rule: DispositionRule | null = null
+): Promise<DispositionResult> {
+  let reference: string | undefined;
+
+  try {
+    switch (dispositionType) {
+      case "restock": {
+        const [result] = await restockReturnedItems(admin, item.returnRequestId, undefined, {
+          itemIds: [item.id],
+          fromInspection: true,
+        });
+        if (!result?.success) {
+          return {
+            success: false,
+            itemId: item.id,
+            dispositionType,
+            error: result?.error ?? "Restock failed",
+          };
+        }
+        break;
+      }
+
+      case "outlet":
+        reference = await createOutletListing(
+          admin,
+          item,
+          rule?.outletDiscountPercent ?? DEFAULT_OUTLET_DISCOUNT_PERCENT
+        );
+        break;
+
+      case "donation":
+        reference = buildDispositionReference("DON", item.id);
+        break;
+
+      case "manufacturer":
+        reference = buildDispositionReference("CLM", item.id);
+        break;
+
+      case "recycle":
+      case "returnless":
+        break;
+    }
+  } catch (error) {
+    return {
+      success: false,
+      itemId: item.id,
+      dispositionType,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+
+  await db.returnItem.update({
+    where: { id: item.id },
+    data: {
+      dispositionReference: reference ?? null,
+      dispositionedAt: new Date(),
+    },
+  });
+
+  return { success: true, itemId: item.id, dispositionType, reference };
+}
+
+// Where the original variant is stocked, so the outlet units start there.
+async function findStockLocation(admin: AdminGraphQL, variantId: string | null): Promise<string | null> {
+  if (!variantId) {
+    return null;
+  }
+  const response = await admin.graphql(GET_VARIANT_LOCATION, { variables: { variantId } });
+  const data = await response.json();
+  return data.data?.productVariant?.inventoryItem?.inventoryLevels?.nodes?.[0]?.location?.id ?? null;
+}
+
+// The listing is created as a draft holding the units that came back, so
+// staff can check it before it goes on sale.
+async function createOutletListing(
+  admin: AdminGraphQL,
+  item: ReturnItem,
+  discountPercent: number
+): Promise<string> {
+  const condition = item.condition ?? "used";
+  const quantity = item.quantityReceived ?? item.quantity;
+  const locationId = await findStockLocation(admin, item.shopifyVariantId);
+
+  const response = await admin.graphql(CREATE_OUTLET_PRODUCT, {
+    variables: {
+      input: {
+        title: `${item.title}${item.variantTitle ? ` - ${item.variantTitle}` : ""} (Outlet)`,
+        status: "DRAFT",
+        tags: ["outlet", "returns-hub"],
+        productOptions: [{ name: "Condition", values: [{ name: condition }] }],
+        variants: [
+          {
+            optionValues: [{ optionName: "Condition", name: condition }],
+            price: outletPrice(item.pricePerItem, discountPercent).toFixed(2),
+            compareAtPrice: item.pricePerItem.toFixed(2),
+            ...(item.sku && { sku: `${item.sku}-OUTLET` }),
+            inventoryItem: { tracked: true },
+            ...(locationId && {
+              inventoryQuantities: [{ locationId, name: "available", quantity }],
+            }),
+          },
+        ],
+      },
+    },
+  });
+
+  const data = await response.json();
+  const userErrors = data.data?.productSet?.userErrors || [];
+
+  if (userErrors.length > 0) {
+    throw new Error(userErrors.map((e: { message: string }) => e.message).join(", "));
+  }
+
+  const productId = data.data?.productSet?.product?.id;
+  if (!productId) {
+    throw new Error("Outlet listing was not created");
+  }
+
+  return productId;
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
+import {
+  StubDropOffLocator,
+  UspsDropOffLocator,
+  getDropOffInfo,
+  type DropOffLocation,
+} from "./dropoff.server";
+import { mockShippingLabel } from "../../test/fixtures";
+
+global.fetch = vi.fn();
+
+const postOffice: DropOffLocation = {
+  id: "po_1",
+  carrier: "USPS",
+  name: "Mission Post Office",
+  address1: "1 Mission St",
+  city: "San Francisco",
+  state: "CA",
+  zip: "94105",
+  country: "US",
+  distanceMiles: 0.4,
+  hours: "Mon 09:00–17:00",
+};
+
+describe("Drop-off locations", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("getDropOffInfo", () => {
+    it("looks up locations near the address the label ships from", async () => {
+      vi.mocked(db.shippingLabel.findFirst).mockResolvedValue({
+        ...mockShippingLabel,
+        qrCodeUrl: "https://shippo.com/qr/abc.png",
+        fromAddress: { zip: "94103", country: "US" },
+      } as never);
+      const locator = new StubDropOffLocator([postOffice]);
+      const findLocations = vi.spyOn(locator, "findLocations");
+
+      const info = await getDropOffInfo("return_123", { locator });
+
+      expect(db.shippingLabel.findFirst).toHaveBeenCalledWith({
+        where: { returnRequestId: "return_123", status: "active" },
+        orderBy: { createdAt: "desc" },
+      });
+      expect(findLocations).toHaveBeenCalledWith("USPS", {
+        zip: "94103",
+        country: "US",
+        limit: undefined,
+      });
+      expect(info).toEqual({
+        carrier: "USPS",
+        labelUrl: mockShippingLabel.labelPdfUrl,
+        qrCodeUrl: "https://shippo.com/qr/abc.png",
+        locations: [postOffice],
+      });
+    });
+
+    it("skips the lookup for carriers the locator doesn't cover", async () => {
+      vi.mocked(db.shippingLabel.findFirst).mockResolvedValue({
+        ...mockShippingLabel,
+        carrier: "FedEx",
+        fromAddress: { zip: "94103", country: "US" },
+      } as never);
+      const locator = new StubDropOffLocator([postOffice]);
+      const findLocations = vi.spyOn(locator, "findLocations");
+
+      const info = await getDropOffInfo("return_123", { locator });
+
+      expect(findLocations).not.toHaveBeenCalled();
+      expect(info.locations).toEqual([]);
+      expect(info.carrier).toBe("FedEx");
+    });
+
+    it("reports no carrier when the return has no active label", async () => {
+      vi.mocked(db.shippingLabel.findFirst).mockResolvedValue(null);
+
+      expect(await getDropOffInfo("return_123", { locator: null })).toEqual({
+        carrier: null,
+        labelUrl: null,
+        qrCodeUrl: null,
+        locations: [],
+      });
+    });
+  });
+
+  describe("UspsDropOffLocator", () => {
+    it("authenticates once and maps post offices", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ access_token: "usps_token", expires_in: 3600 }),
+        } as Response)
+        .mockResolvedValue({
+          ok: true,
+          json: async () => ({
+            locations: [
+              {
+                locationID: "1390",
+                locationName: "MISSION",
+                address: { streetAddress: "1 MISSION ST", city: "SAN FRANCISCO", state: "CA", ZIPCode: "94105" },
+                distance: "0.4",
+                locationServiceHours: [
+                  { dayOfTheWeek: "MONDAY", hours: [{ open: "09:00", close: "17:00" }] },
+                ],
+              },
+            ],
+          }),
+        } as Response);
+      const locator = new UspsDropOffLocator("client_id", "client_secret");
+
+      const locations = await locator.findLocations("USPS", { zip: "94103-1234", country: "US" });
+      await locator.findLocations("USPS", { zip: "94103", country: "US" });
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(fetch).toHaveBeenNthCalledWith(
+        2,
+        "https://apis.usps.com/locations/v3/post-office-locations?ZIPCode=94103&radius=10",
+        { headers: { Authorization: "Bearer usps_token" } }
+      );
+      expect(locations).toEqual([
+        {
+          id: "1390",
+          carrier: "USPS",
+          name: "MISSION",
+          address1: "1 MISSION ST",
+          city: "SAN FRANCISCO",
+          state: "CA",
+          zip: "94105",
+          country: "US",
+          distanceMiles: 0.4,
+          hours: "Mon 09:00–17:00",
+        },
+      ]);
+    });
+
+    it("only covers USPS in the US", async () => {
+      const locator = new UspsDropOffLocator("client_id", "client_secret");
+
+      expect(await locator.findLocations("USPS", { zip: "M5V 2T6", country: "CA" })).toEqual([]);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+});
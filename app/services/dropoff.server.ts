@@ -0,0 +1,218 @@
+import db from "../db.server";
+
+export interface DropOffLocation {
+  id: string;
+  carrier: string;
+  name: string;
+  address1: string;
+  city: string;
+  state: string;
+  zip: string;
+  country: string;
+  distanceMiles: number | null;
+  hours: string | null;
+}
+
+export interface DropOffSearch {
+  zip: string;
+  country: string;
+  radiusMiles?: number;
+  limit?: number;
+}
+
+// Finds places a carrier accepts prepaid return parcels.
+export interface DropOffLocator {
+  carriers: string[];
+  findLocations(carrier: string, search: DropOffSearch): Promise<DropOffLocation[]>;
+}
+
+interface UspsLocation {
+  locationID?: string;
+  locationName?: string;
+  address?: {
+    streetAddress?: string;
+    city?: string;
+    state?: string;
+    ZIPCode?: string;
+  };
+  distance?: number | string;
+  locationServiceHours?: Array<{
+    dayOfTheWeek?: string;
+    hours?: Array<{ open?: string; close?: string }>;
+  }>;
+}
+
+// Post offices from the USPS Locations API. Tokens come from the USPS OAuth
+// client credentials flow and are reused until shortly before they expire.
+export class UspsDropOffLocator implements DropOffLocator {
+  carriers = ["USPS"];
+  private clientId: string;
+  private clientSecret: string;
+  private baseUrl = "https://apis.usps.com";
+  private token: { value: string; expiresAt: number } | null = null;
+
+  constructor(clientId: string, clientSecret: string) {
+    this.clientId = clientId;
+    this.clientSecret = clientSecret;
+  }
+
+  private async getToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value;
+    }
+
+    const response = await fetch(`${this.baseUrl}/oauth2/v3/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        grant_type: "client_credentials",
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`USPS auth error: ${await response.text()}`);
+    }
+
+    const { access_token, expires_in } = await response.json();
+    this.token = {
+      value: access_token,
+      expiresAt: Date.now() + Math.max(0, (expires_in ?? 0) - 60) * 1000,
+    };
+    return access_token;
+  }
+
+  static parseLocation(location: UspsLocation): DropOffLocation {
+    const weekday = location.locationServiceHours?.find(
+      (day) => day.dayOfTheWeek?.toUpperCase() === "MONDAY"
+    )?.hours?.[0];
+    const distance = location.distance !== undefined ? Number(location.distance) : NaN;
+
+    return {
+      id: location.locationID ?? `${location.address?.ZIPCode}-${location.locationName}`,
+      carrier: "USPS",
+      name: location.locationName ?? "Post Office",
+      address1: location.address?.streetAddress ?? "",
+      city: location.address?.city ?? "",
+      state: location.address?.state ?? "",
+      zip: location.address?.ZIPCode ?? "",
+      country: "US",
+      distanceMiles: Number.isFinite(distance) ? distance : null,
+      hours: weekday?.open && weekday.close ? `Mon ${weekday.open}–${weekday.close}` : null,
+    };
+  }
+
+  async findLocations(carrier: string, search: DropOffSearch): Promise<DropOffLocation[]> {
+    if (carrier.toUpperCase() !== "USPS" || search.country.toUpperCase() !== "US") {
+      return [];
+    }
+
+    const params = new URLSearchParams({
+      ZIPCode: search.zip.slice(0, 5),
+      radius: String(search.radiusMiles ?? 10),
+    });
+    const response = await fetch(`${this.baseUrl}/locations/v3/post-office-locations?${params}`, {
+      headers: { Authorization: `Bearer ${await this.getToken()}` },
+    });
+
+    if (!response.ok) {
+      throw new Error(`USPS locations error: ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    const locations: UspsLocation[] = Array.isArray(data) ? data : (data.locations ?? []);
+
+    return locations.map(UspsDropOffLocator.parseLocation).slice(0, search.limit ?? 5);
+  }
+}
+
+// Serves a fixed list, for development and tests.
+export class StubDropOffLocator implements DropOffLocator {
+  private locations: DropOffLocation[];
+
+  constructor(locations: DropOffLocation[] = []) {
+    this.locations = locations;
+  }
+
+  get carriers(): string[] {
+    return [...new Set(this.locations.map((location) => location.carrier))];
+  }
+
+  async findLocations(carrier: string, search: DropOffSearch): Promise<DropOffLocation[]> {
+    return this.locations
+      .filter((location) => location.carrier.toUpperCase() === carrier.toUpperCase())
+      .slice(0, search.limit ?? 5);
+  }
+}
+
+let locator: DropOffLocator | null | undefined;
+
+export function getDropOffLocator(): DropOffLocator | null {
+  if (locator === undefined) {
+    locator =
+      process.env.USPS_CLIENT_ID && process.env.USPS_CLIENT_SECRET
+        ? new UspsDropOffLocator(process.env.USPS_CLIENT_ID, process.env.USPS_CLIENT_SECRET)
+        : null;
+  }
+  return locator;
+}
+
+export function setDropOffLocator(next: DropOffLocator | null | undefined) {
+  locator = next;
+}
+
+export interface ReturnDropOffInfo {
+  carrier: string | null;
+  labelUrl: string | null;
+  qrCodeUrl: string | null;
+  locations: DropOffLocation[];
+}
+
+// Drop-off options for the return's current label, near the address the label
+// ships from. Returns without a label, or carriers no locator covers, get an
+// empty list.
+export async function getDropOffInfo(
+  returnRequestId: string,
+  options: { locator?: DropOffLocator | null; limit?: number } = {}
+): Promise<ReturnDropOffInfo> {
+  const label = await db.shippingLabel.findFirst({
+    where: { returnRequestId, status: "active" },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (!label) {
+    return { carrier: null, labelUrl: null, qrCodeUrl: null, locations: [] };
+  }
+
+  const info: ReturnDropOffInfo = {
+    carrier: label.carrier,
+    labelUrl: label.labelPdfUrl ?? label.labelUrl,
+    qrCodeUrl: label.qrCodeUrl,
+    locations: [],
+  };
+
+  const locator = options.locator === undefined ? getDropOffLocator() : options.locator;
+  const from = label.fromAddress as { zip?: string; country?: string } | null;
+
+  if (!locator || !from?.zip || !from.country) {
+    return info;
+  }
+
+  const carrier = label.carrier.toUpperCase();
+  if (!locator.carriers.some((c) => c.toUpperCase() === carrier)) {
+    return info;
+  }
+
+  try {
+    info.locations = await locator.findLocations(label.carrier, {
+      zip: from.zip,
+      country: from.country,
+      limit: options.limit,
+    });
+  } catch (error) {
+    console.error(`Drop-off lookup failed for return ${returnRequestId}:`, error);
+  }
+
+  return info;
+}
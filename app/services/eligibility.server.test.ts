@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
+import {
+  addBlocklistEntry,
+  checkReturnEligibility,
+  evaluateReturnEligibility,
+  fetchOrderEligibility,
+  removeBlocklistEntry,
+  type EligibilityOrder,
+} from "./eligibility.server";
+import { mockShop } from "../../test/fixtures";
+
+const order: EligibilityOrder = {
+  email: "Customer@Example.com",
+  customerId: "gid://shopify/Customer/42",
+  discountCodes: [],
+  lineItems: [
+    { id: "line_shirt", title: "Shirt", productTags: ["Summer"] },
+    { id: "line_socks", title: "Socks", productTags: ["Final-Sale"] },
+  ],
+};
+
+describe("Eligibility Policy", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("evaluateReturnEligibility", () => {
+    it("allows orders that match no rules", () => {
+      expect(evaluateReturnEligibility([], null, order, 0)).toEqual({
+        eligible: true,
+        ineligibleItems: [],
+        windows: [],
+      });
+    });
+
+    it("blocks by email or customer ID without revealing internal notes", () => {
+      const byEmail = evaluateReturnEligibility(
+        [{ type: "email", value: "customer@example.com" }],
+        null,
+        order,
+        0
+      );
+      const byCustomer = evaluateReturnEligibility(
+        [{ type: "customer", value: "gid://shopify/Customer/42" }],
+        null,
+        order,
+        0
+      );
+
+      expect(byEmail.eligible).toBe(false);
+      expect(byEmail.code).toBe("blocked_customer");
+      expect(byEmail.reason).toContain("contact the store");
+      expect(byCustomer.code).toBe("blocked_customer");
+    });
+
+    it("rejects orders placed with an excluded discount code", () => {
+      const result = evaluateReturnEligibility(
+        [{ type: "discount_code", value: "clearance50" }],
+        null,
+        { ...order, discountCodes: ["Clearance50"] },
+        0
+      );
+
+      expect(result.code).toBe("discount_code");
+      expect(result.reason).toBe(
+        "Orders placed with the discount code CLEARANCE50 are final sale and can't be returned."
+      );
+    });
+
+    it("enforces the lifetime return cap", () => {
+      expect(evaluateReturnEligibility([], 3, order, 3).code).toBe("return_limit");
+      expect(evaluateReturnEligibility([], 3, order, 2).eligible).toBe(true);
+    });
+
+    it("excludes final-sale items and rejects orders with nothing left", () => {
+      const entries = [{ type: "product_tag", value: "final-sale" }];
+
+      const partial = evaluateReturnEligibility(entries, null, order, 0);
+      expect(partial.eligible).toBe(true);
+      expect(partial.ineligibleItems).toEqual([
+        { lineItemId: "line_socks", reason: 'Items tagged "Final-Sale" are final sale and can\'t be returned.' },
+      ]);
+
+      const none = evaluateReturnEligibility(
+        entries,
+        null,
+        { ...order, lineItems: [order.lineItems[1]] },
+        0
+      );
+      expect(none.code).toBe("excluded_items");
+    });
+
+    it("removes items whose return window has ended", () => {
+      const windows = [
+        { lineItemId: "line_shirt", windowDays: 30, deadline: new Date("2026-03-01"), eligible: true },
+        {
+          lineItemId: "line_socks",
+          windowDays: 30,
+          deadline: new Date("2026-02-01"),
+          eligible: false,
+          reason: "The return window for this item ended on February 1, 2026.",
+        },
+      ];
+
+      const result = evaluateReturnEligibility([], null, order, 0, windows);
+
+      expect(result.eligible).toBe(true);
+      expect(result.ineligibleItems).toEqual([
+        { lineItemId: "line_socks", reason: "The return window for this item ended on February 1, 2026." },
+      ]);
+    });
+
+    it("reports the whole order as outside the window when every item has expired", () => {
+      const expired = order.lineItems.map((item) => ({
+        lineItemId: item.id,
+        windowDays: 30,
+        deadline: new Date("2026-02-01"),
+        eligible: false,
+        reason: "The return window for this item ended on February 1, 2026.",
+      }));
+
+      const result = evaluateReturnEligibility([], null, order, 0, expired);
+
+      expect(result.code).toBe("outside_window");
+      expect(result.reason).toBe("This order is outside the return window.");
+    });
+  });
+
+  describe("checkReturnEligibility", () => {
+    it("counts active returns only when a cap is configured", async () => {
+      vi.mocked(db.returnBlocklistEntry.findMany).mockResolvedValue([]);
+      vi.mocked(db.returnWindowRule.findMany).mockResolvedValue([]);
+      vi.mocked(db.returnRequest.count).mockResolvedValue(5);
+
+      const capped = await checkReturnEligibility(mockShop, order, {
+        returnWindowDays: 30,
+        maxReturnsPerCustomer: 5,
+      });
+      expect(capped.code).toBe("return_limit");
+      expect(db.returnRequest.count).toHaveBeenCalledWith({
+        where: {
+          shop: mockShop,
+          customerEmail: { equals: "Customer@Example.com", mode: "insensitive" },
+          status: { notIn: ["declined", "cancelled"] },
+        },
+      });
+
+      vi.mocked(db.returnRequest.count).mockClear();
+      await checkReturnEligibility(mockShop, order, {
+        returnWindowDays: 30,
+        maxReturnsPerCustomer: null,
+      });
+      expect(db.returnRequest.count).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("fetchOrderEligibility", () => {
+    it("maps the order's customer, discount codes, products and fulfillment dates", async () => {
+      const admin = {
+        graphql: vi.fn().mockResolvedValue({
+          json: () =>
+            Promise.resolve({
+              data: {
+                order: {
+                  email: "customer@example.com",
+                  createdAt: "2026-01-02T10:00:00Z",
+                  discountCodes: ["SPRING"],
+                  customer: null,
+                  lineItems: {
+                    nodes: [
+                      {
+                        id: "line_1",
+                        title: "Mug",
+                        sku: "MUG-1",
+                        originalUnitPriceSet: { shopMoney: { amount: "12.50" } },
+                        variant: { id: "variant_1" },
+                        product: {
+                          id: "product_1",
+                          tags: ["final-sale"],
+                          productType: "Kitchen",
+                          collections: { nodes: [{ handle: "gifts" }] },
+                        },
+                      },
+                      { id: "line_2", title: "Gift card", product: null },
+                    ],
+                  },
+                  fulfillments: [
+                    {
+                      createdAt: "2026-01-03T10:00:00Z",
+                      deliveredAt: "2026-01-06T15:00:00Z",
+                      fulfillmentLineItems: { nodes: [{ lineItem: { id: "line_1" }, quantity: 2 }] },
+                    },
+                  ],
+                },
+              },
+            }),
+        }),
+      };
+
+      expect(await fetchOrderEligibility(admin, "gid://shopify/Order/1")).toEqual({
+        email: "customer@example.com",
+        customerId: null,
+        customerTags: [],
+        createdAt: "2026-01-02T10:00:00Z",
+        discountCodes: ["SPRING"],
+        lineItems: [
+          {
+            id: "line_1",
+            title: "Mug",
+            productTags: ["final-sale"],
+            productType: "Kitchen",
+            collections: ["gifts"],
+            fulfilledAt: "2026-01-03T10:00:00Z",
+            deliveredAt: "2026-01-06T15:00:00Z",
+            fulfilledQuantity: 2,
+            price: 12.5,
+            variantId: "variant_1",
+            productId: "product_1",
+            sku: "MUG-1",
+          },
+          {
+            id: "line_2",
+            title: "Gift card",
+            productTags: [],
+            productType: null,
+            collections: [],
+            fulfilledAt: null,
+            deliveredAt: null,
+            fulfilledQuantity: 0,
+            price: 0,
+            variantId: null,
+            productId: null,
+            sku: null,
+          },
+        ],
+      });
+    });
+  });
+
+  describe("blocklist management", () => {
+    it("normalizes values and rejects duplicates", async () => {
+      vi.mocked(db.returnBlocklistEntry.findFirst).mockResolvedValueOnce(null);
+
+      await addBlocklistEntry(mockShop, { type: "customer", value: " 42 ", note: "Chargebacks" });
+
+      expect(db.returnBlocklistEntry.create).toHaveBeenCalledWith({
+        data: {
+          shop: mockShop,
+          type: "customer",
+          value: "gid://shopify/Customer/42",
+          note: "Chargebacks",
+        },
+      });
+
+      vi.mocked(db.returnBlocklistEntry.findFirst).mockResolvedValueOnce({ id: "entry_1" } as never);
+      await expect(
+        addBlocklistEntry(mockShop, { type: "email", value: "Customer@Example.com" })
+      ).rejects.toThrow("Customer@Example.com is already on the blocklist");
+    });
+
+    it("only removes entries that belong to the shop", async () => {
+      vi.mocked(db.returnBlocklistEntry.deleteMany).mockResolvedValue({ count: 0 });
+
+      await expect(removeBlocklistEntry(mockShop, "entry_other")).rejects.toThrow(
+        "Blocklist entry not found"
+      );
+      expect(db.returnBlocklistEntry.deleteMany).toHaveBeenCalledWith({
+        where: { id: "entry_other", shop: mockShop },
+      });
+    });
+  });
+});
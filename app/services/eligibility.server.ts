@@ -0,0 +1,336 @@
+import type { ReturnBlocklistEntry } from "@prisma/client";
+import db from "../db.server";
+import { normalizeBlocklistValue, type BlocklistType } from "../utils/eligibility";
+import {
+  collectLineItemFulfillments,
+  evaluateReturnWindows,
+  type LineItemWindow,
+  type ReturnWindowPolicy,
+  type WindowLineItem,
+} from "./return-window.server";
+
+export {
+  BLOCKLIST_TYPES,
+  blocklistTypeLabels,
+  type BlocklistType,
+} from "../utils/eligibility";
+
+type AdminGraphQL = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+const GET_ORDER_ELIGIBILITY = `#graphql
+  query GetOrderEligibility($id: ID!) {
+    order(id: $id) {
+      email
+      createdAt
+      discountCodes
+      customer {
+        id
+        tags
+      }
+      lineItems(first: 50) {
+        nodes {
+          id
+          title
+          sku
+          originalUnitPriceSet {
+            shopMoney {
+              amount
+            }
+          }
+          variant {
+            id
+          }
+          product {
+            id
+            tags
+            productType
+            collections(first: 25) {
+              nodes {
+                handle
+              }
+            }
+          }
+        }
+      }
+      fulfillments(first: 10) {
+        createdAt
+        deliveredAt
+        fulfillmentLineItems(first: 50) {
+          nodes {
+            quantity
+            lineItem {
+              id
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export type EligibilityCode =
+  | "blocked_customer"
+  | "discount_code"
+  | "return_limit"
+  | "excluded_items"
+  | "outside_window";
+
+export interface EligibilityLineItem extends WindowLineItem {
+  title: string;
+  productTags: string[];
+  fulfilledQuantity?: number;
+  // Unit price as charged on the order
+  price?: number;
+  variantId?: string | null;
+  productId?: string | null;
+  sku?: string | null;
+}
+
+export interface EligibilityOrder {
+  email: string;
+  customerId?: string | null;
+  customerTags?: string[];
+  createdAt?: string | null;
+  discountCodes: string[];
+  lineItems: EligibilityLineItem[];
+}
+
+export interface IneligibleItem {
+  lineItemId: string;
+  reason: string;
+}
+
+export interface EligibilityResult {
+  eligible: boolean;
+  code?: EligibilityCode;
+  // Shown to the shopper as-is, so it must not mention internal notes.
+  reason?: string;
+  ineligibleItems: IneligibleItem[];
+  windows: LineItemWindow[];
+}
+
+interface OrderEligibilityLineItem {
+  id: string;
+  title: string;
+  sku?: string | null;
+  originalUnitPriceSet?: { shopMoney: { amount: string } } | null;
+  variant?: { id: string } | null;
+  product: {
+    id?: string;
+    tags: string[];
+    productType: string | null;
+    collections?: { nodes: Array<{ handle: string }> };
+  } | null;
+}
+
+type PolicyEntry = Pick<ReturnBlocklistEntry, "type" | "value">;
+
+function valuesOfType(entries: PolicyEntry[], type: BlocklistType): Set<string> {
+  return new Set(entries.filter((entry) => entry.type === type).map((entry) => entry.value));
+}
+
+// Decides whether the shopper may start a return for this order. Order-level
+// rules reject the whole return; excluded product tags and expired return
+// windows only remove items.
+export function evaluateReturnEligibility(
+  entries: PolicyEntry[],
+  maxReturnsPerCustomer: number | null,
+  order: EligibilityOrder,
+  priorReturnCount: number,
+  windows: LineItemWindow[] = []
+): EligibilityResult {
+  const blockedEmails = valuesOfType(entries, "email");
+  const blockedCustomers = valuesOfType(entries, "customer");
+
+  if (
+    blockedEmails.has(order.email.trim().toLowerCase()) ||
+    (order.customerId && blockedCustomers.has(order.customerId))
+  ) {
+    return {
+      eligible: false,
+      code: "blocked_customer",
+      reason: "This account can't start returns online. Please contact the store for help.",
+      ineligibleItems: [],
+      windows,
+    };
+  }
+
+  const blockedCodes = valuesOfType(entries, "discount_code");
+  const usedCode = order.discountCodes.find((code) => blockedCodes.has(code.toLowerCase()));
+  if (usedCode) {
+    return {
+      eligible: false,
+      code: "discount_code",
+      reason: `Orders placed with the discount code ${usedCode.toUpperCase()} are final sale and can't be returned.`,
+      ineligibleItems: [],
+      windows,
+    };
+  }
+
+  if (maxReturnsPerCustomer && priorReturnCount >= maxReturnsPerCustomer) {
+    return {
+      eligible: false,
+      code: "return_limit",
+      reason: `You've reached the limit of ${maxReturnsPerCustomer} returns for this store. Please contact the store for help.`,
+      ineligibleItems: [],
+      windows,
+    };
+  }
+
+  const excludedTags = valuesOfType(entries, "product_tag");
+  const ineligibleItems: IneligibleItem[] = [];
+  let expiredCount = 0;
+  for (const item of order.lineItems) {
+    const tag = item.productTags.find((t) => excludedTags.has(t.toLowerCase()));
+    const itemWindow = windows.find((w) => w.lineItemId === item.id);
+    if (tag) {
+      ineligibleItems.push({
+        lineItemId: item.id,
+        reason: `Items tagged "${tag}" are final sale and can't be returned.`,
+      });
+    } else if (itemWindow && !itemWindow.eligible) {
+      // Items that haven't shipped have no deadline yet and don't count as expired.
+      if (itemWindow.deadline) expiredCount++;
+      ineligibleItems.push({ lineItemId: item.id, reason: itemWindow.reason ?? "" });
+    }
+  }
+
+  if (order.lineItems.length > 0 && ineligibleItems.length === order.lineItems.length) {
+    const allExpired = expiredCount === ineligibleItems.length;
+    return {
+      eligible: false,
+      code: allExpired ? "outside_window" : "excluded_items",
+      reason: allExpired
+        ? "This order is outside the return window."
+        : "None of the items in this order can be returned.",
+      ineligibleItems,
+      windows,
+    };
+  }
+
+  return { eligible: true, ineligibleItems, windows };
+}
+
+export async function countCustomerReturns(shop: string, customerEmail: string): Promise<number> {
+  return db.returnRequest.count({
+    where: {
+      shop,
+      customerEmail: { equals: customerEmail, mode: "insensitive" },
+      status: { notIn: ["declined", "cancelled"] },
+    },
+  });
+}
+
+export async function checkReturnEligibility(
+  shop: string,
+  order: EligibilityOrder,
+  settings: ReturnWindowPolicy & { maxReturnsPerCustomer: number | null }
+): Promise<EligibilityResult> {
+  const [entries, windowRules] = await Promise.all([
+    db.returnBlocklistEntry.findMany({
+      where: { shop },
+      select: { type: true, value: true },
+    }),
+    order.lineItems.length > 0
+      ? db.returnWindowRule.findMany({
+          where: { shop },
+          select: { type: true, value: true, windowDays: true },
+        })
+      : [],
+  ]);
+
+  const priorReturnCount = settings.maxReturnsPerCustomer
+    ? await countCustomerReturns(shop, order.email)
+    : 0;
+
+  const windows = evaluateReturnWindows(settings, windowRules, order.createdAt, order.lineItems);
+
+  return evaluateReturnEligibility(
+    entries,
+    settings.maxReturnsPerCustomer,
+    order,
+    priorReturnCount,
+    windows
+  );
+}
+
+export async function fetchOrderEligibility(
+  admin: AdminGraphQL,
+  orderId: string
+): Promise<EligibilityOrder | null> {
+  const response = await admin.graphql(GET_ORDER_ELIGIBILITY, {
+    variables: { id: orderId },
+  });
+  const data = await response.json();
+  const order = data.data?.order;
+
+  if (!order) {
+    return null;
+  }
+
+  const fulfillments = collectLineItemFulfillments(order.fulfillments);
+
+  return {
+    email: order.email ?? "",
+    customerId: order.customer?.id ?? null,
+    customerTags: order.customer?.tags ?? [],
+    createdAt: order.createdAt ?? null,
+    discountCodes: order.discountCodes ?? [],
+    lineItems: (order.lineItems?.nodes ?? []).map((item: OrderEligibilityLineItem) => ({
+      id: item.id,
+      title: item.title,
+      productTags: item.product?.tags ?? [],
+      productType: item.product?.productType ?? null,
+      collections: item.product?.collections?.nodes.map((c) => c.handle) ?? [],
+      fulfilledAt: fulfillments.get(item.id)?.fulfilledAt ?? null,
+      deliveredAt: fulfillments.get(item.id)?.deliveredAt ?? null,
+      fulfilledQuantity: fulfillments.get(item.id)?.quantity ?? 0,
+      price: item.originalUnitPriceSet ? parseFloat(item.originalUnitPriceSet.shopMoney.amount) : 0,
+      variantId: item.variant?.id ?? null,
+      productId: item.product?.id ?? null,
+      sku: item.sku ?? null,
+    })),
+  };
+}
+
+export async function getBlocklistEntries(shop: string) {
+  return db.returnBlocklistEntry.findMany({
+    where: { shop },
+    orderBy: [{ type: "asc" }, { createdAt: "desc" }],
+  });
+}
+
+export async function addBlocklistEntry(
+  shop: string,
+  data: { type: BlocklistType; value: string; note?: string | null }
+) {
+  const value = normalizeBlocklistValue(data.type, data.value);
+
+  const existing = await db.returnBlocklistEntry.findFirst({
+    where: { shop, type: data.type, value },
+  });
+  if (existing) {
+    throw new Error(`${data.value.trim()} is already on the blocklist`);
+  }
+
+  return db.returnBlocklistEntry.create({
+    data: {
+      shop,
+      type: data.type,
+      value,
+      note: data.note || null,
+    },
+  });
+}
+
+export async function removeBlocklistEntry(shop: string, id: string) {
+  const result = await db.returnBlocklistEntry.deleteMany({
+    where: { id, shop },
+  });
+
+  if (result.count === 0) {
+    throw new Error("Blocklist entry not found");
+  }
+}
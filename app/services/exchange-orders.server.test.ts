@@ -0,0 +1,297 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
+import {
+  findExchangeReturn,
+  followUpUnpaidExchanges,
+  recordDraftOrderUpdate,
+  recordExchangeOrderCancelled,
+  recordExchangeOrderPaid,
+} from "./exchange-orders.server";
+import { linkExchangeToReturn } from "./exchange.server";
+import { sendExchangeCancelled, sendExchangePaymentReminder } from "./notifications.server";
+import { releaseExchangeReservations } from "./reservation.server";
+import { settleReturnResolution } from "./resolution.server";
+import { createMockReturnRequest, mockShop } from "../../test/fixtures";
+
+vi.mock("./exchange.server", () => ({
+  linkExchangeToReturn: vi.fn(),
+}));
+
+vi.mock("./notifications.server", () => ({
+  sendExchangeCancelled: vi.fn(),
+  sendExchangePaymentReminder: vi.fn(),
+}));
+
+vi.mock("./reservation.server", () => ({
+  releaseExchangeReservations: vi.fn(),
+}));
+
+vi.mock("./resolution.server", () => ({
+  settleReturnResolution: vi.fn(),
+}));
+
+function graphqlResponse(data: unknown) {
+  return { json: () => Promise.resolve({ data }) } as unknown as Response;
+}
+
+const exchangeReturn = {
+  ...createMockReturnRequest({
+    status: "approved",
+    exchangeOrderStatus: "awaiting_payment",
+    exchangeInvoiceUrl: "https://test-store.myshopify.com/invoices/abc",
+    exchangeAmountDue: 15,
+    exchangePaymentDueAt: new Date("2026-03-30T00:00:00Z"),
+  }),
+  resolutionType: "exchange",
+  exchangeOrderId: "gid://shopify/DraftOrder/1",
+};
+
+describe("Exchange Order Service", () => {
+  const admin = { graphql: vi.fn() };
+  const now = new Date("2026-03-24T00:00:00Z");
+
+  beforeEach(() => {
+    vi.mocked(db.returnRequest.findFirst).mockResolvedValue(null);
+    vi.mocked(db.returnRequest.update).mockResolvedValue(exchangeReturn);
+  });
+
+  describe("findExchangeReturn", () => {
+    it("matches the exchange order recorded on the return first", async () => {
+      vi.mocked(db.returnRequest.findFirst).mockResolvedValue(exchangeReturn);
+
+      const found = await findExchangeReturn(admin, mockShop, {
+        orderId: "gid://shopify/Order/2",
+        draftOrderId: "gid://shopify/DraftOrder/1",
+      });
+
+      expect(found).toBe(exchangeReturn);
+      expect(db.returnRequest.findFirst).toHaveBeenCalledWith({
+        where: {
+          shop: mockShop,
+          resolutionType: "exchange",
+          exchangeOrderId: { in: ["gid://shopify/Order/2", "gid://shopify/DraftOrder/1"] },
+        },
+      });
+      expect(admin.graphql).not.toHaveBeenCalled();
+    });
+
+    it("falls back to the return tag, then the order's metafield", async () => {
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue(exchangeReturn);
+      admin.graphql.mockResolvedValueOnce(
+        graphqlResponse({ order: { id: "gid://shopify/Order/2", metafield: { value: "return_123" } } })
+      );
+
+      await findExchangeReturn(admin, mockShop, {
+        orderId: "gid://shopify/Order/2",
+        draftOrderId: null,
+        tags: "exchange, return:return_123",
+      });
+      expect(admin.graphql).not.toHaveBeenCalled();
+
+      await findExchangeReturn(admin, mockShop, {
+        orderId: "gid://shopify/Order/2",
+        draftOrderId: null,
+        tags: "exchange",
+      });
+
+      expect(admin.graphql).toHaveBeenCalledTimes(1);
+      expect(db.returnRequest.findUnique).toHaveBeenCalledTimes(2);
+      expect(db.returnRequest.findUnique).toHaveBeenCalledWith({ where: { id: "return_123" } });
+    });
+
+    it("doesn't look up orders that aren't tagged as exchanges", async () => {
+      const found = await findExchangeReturn(admin, mockShop, {
+        orderId: "gid://shopify/Order/3",
+        draftOrderId: null,
+        tags: "wholesale",
+      });
+
+      expect(found).toBeNull();
+      expect(admin.graphql).not.toHaveBeenCalled();
+      expect(db.returnRequest.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("ignores hold invoices and other shops' returns", async () => {
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+        ...exchangeReturn,
+        shop: "other-store.myshopify.com",
+      });
+
+      expect(
+        await findExchangeReturn(undefined, mockShop, {
+          orderId: null,
+          draftOrderId: "gid://shopify/DraftOrder/9",
+          tags: "exchange-hold, return:return_123",
+        })
+      ).toBeNull();
+      expect(
+        await findExchangeReturn(undefined, mockShop, {
+          orderId: null,
+          draftOrderId: "gid://shopify/DraftOrder/9",
+          tags: "exchange, return:return_123",
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe("webhook updates", () => {
+    it("moves the return onto the order once its draft is completed", async () => {
+      vi.mocked(db.returnRequest.findFirst).mockResolvedValue({
+        ...exchangeReturn,
+        exchangeOrderStatus: "draft",
+      });
+
+      const id = await recordDraftOrderUpdate(
+        admin,
+        mockShop,
+        {
+          admin_graphql_api_id: "gid://shopify/DraftOrder/1",
+          status: "completed",
+          order_id: 2,
+          invoice_url: "https://test-store.myshopify.com/invoices/abc",
+        },
+        now
+      );
+
+      expect(id).toBe("return_123");
+      expect(linkExchangeToReturn).toHaveBeenCalledWith(admin, "gid://shopify/Order/2", "return_123");
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_123" },
+        data: {
+          exchangeInvoiceUrl: "https://test-store.myshopify.com/invoices/abc",
+          exchangeOrderId: "gid://shopify/Order/2",
+          exchangeOrderStatus: "ordered",
+          exchangeOrderUpdatedAt: now,
+        },
+      });
+    });
+
+    it("records the payment", async () => {
+      vi.mocked(db.returnRequest.findFirst).mockResolvedValue(exchangeReturn);
+
+      await recordExchangeOrderPaid(
+        admin,
+        mockShop,
+        { admin_graphql_api_id: "gid://shopify/Order/2", tags: "exchange, return:return_123" },
+        now
+      );
+
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_123" },
+        data: {
+          exchangeOrderId: "gid://shopify/Order/2",
+          exchangeOrderStatus: "paid",
+          exchangeOrderUpdatedAt: now,
+          exchangePaidAt: now,
+        },
+      });
+    });
+
+    it("leaves exchanges it converted to store credit alone when the order is cancelled", async () => {
+      vi.mocked(db.returnRequest.findFirst).mockResolvedValue({
+        ...exchangeReturn,
+        exchangeOrderStatus: "converted",
+      });
+
+      const id = await recordExchangeOrderCancelled(admin, mockShop, {
+        admin_graphql_api_id: "gid://shopify/Order/2",
+      });
+
+      expect(id).toBeNull();
+      expect(db.returnRequest.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("followUpUnpaidExchanges", () => {
+    it("reminds customers before the deadline and converts exchanges after it", async () => {
+      vi.mocked(db.returnRequest.findMany).mockResolvedValue([
+        { ...exchangeReturn, id: "return_overdue", exchangePaymentDueAt: new Date("2026-03-23T00:00:00Z") },
+        exchangeReturn,
+      ]);
+      admin.graphql.mockResolvedValue(
+        graphqlResponse({ draftOrderDelete: { deletedId: "gid://shopify/DraftOrder/1", userErrors: [] } })
+      );
+      const getAdmin = vi.fn().mockResolvedValue(admin);
+
+      const result = await followUpUnpaidExchanges({ getAdmin, now });
+
+      expect(result).toEqual({ checked: 2, reminded: 1, converted: 1, failed: 0 });
+      expect(admin.graphql.mock.calls[0][1]).toEqual({
+        variables: { input: { id: "gid://shopify/DraftOrder/1" } },
+      });
+      expect(releaseExchangeReservations).toHaveBeenCalledWith(
+        admin,
+        "return_overdue",
+        "Exchange not paid",
+        now
+      );
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_overdue" },
+        data: {
+          resolutionType: "store_credit",
+          exchangeOrderStatus: "converted",
+          exchangeOrderUpdatedAt: now,
+          resolutionError: "The exchange wasn't paid by 2026-03-23, so it was changed to store credit",
+        },
+      });
+      expect(sendExchangeCancelled).toHaveBeenCalledWith(
+        expect.objectContaining({ customerEmail: "customer@example.com", dueOn: "2026-03-23" })
+      );
+      // Credit for a return that isn't complete yet is issued when it completes
+      expect(settleReturnResolution).not.toHaveBeenCalled();
+
+      expect(sendExchangePaymentReminder).toHaveBeenCalledWith({
+        customerEmail: "customer@example.com",
+        customerName: "John Doe",
+        shopName: "test-store",
+        orderName: "#1001",
+        amountDue: 15,
+        invoiceUrl: "https://test-store.myshopify.com/invoices/abc",
+        dueOn: "2026-03-30",
+      });
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_123" },
+        data: { exchangeRemindersSent: { increment: 1 }, exchangeLastReminderAt: now },
+      });
+    });
+
+    it("cancels an unpaid order and issues the credit when the return is complete", async () => {
+      vi.mocked(db.returnRequest.findMany).mockResolvedValue([
+        {
+          ...exchangeReturn,
+          status: "completed",
+          exchangeOrderId: "gid://shopify/Order/2",
+          exchangePaymentDueAt: new Date("2026-03-23T00:00:00Z"),
+        },
+      ]);
+      admin.graphql.mockResolvedValue(
+        graphqlResponse({ orderCancel: { job: { id: "gid://shopify/Job/1" }, orderCancelUserErrors: [] } })
+      );
+
+      const result = await followUpUnpaidExchanges({ getAdmin: vi.fn().mockResolvedValue(admin), now });
+
+      expect(result.converted).toBe(1);
+      expect(admin.graphql.mock.calls[0][1].variables).toEqual(
+        expect.objectContaining({ orderId: "gid://shopify/Order/2", reason: "OTHER" })
+      );
+      expect(settleReturnResolution).toHaveBeenCalledWith(admin, mockShop, "return_123");
+    });
+
+    it("keeps the exchange when Shopify won't cancel it", async () => {
+      vi.mocked(db.returnRequest.findMany).mockResolvedValue([
+        { ...exchangeReturn, exchangePaymentDueAt: new Date("2026-03-23T00:00:00Z") },
+      ]);
+      admin.graphql.mockResolvedValue(
+        graphqlResponse({
+          draftOrderDelete: { deletedId: null, userErrors: [{ field: ["id"], message: "Draft order not found" }] },
+        })
+      );
+
+      const result = await followUpUnpaidExchanges({ getAdmin: vi.fn().mockResolvedValue(admin), now });
+
+      expect(result).toEqual({ checked: 1, reminded: 0, converted: 0, failed: 1 });
+      expect(db.returnRequest.update).not.toHaveBeenCalled();
+      expect(sendExchangeCancelled).not.toHaveBeenCalled();
+    });
+  });
+});
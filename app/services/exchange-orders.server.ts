@@ -0,0 +1,328 @@
+import type { Prisma, ReturnRequest } from "@prisma/client";
+import db from "../db.server";
+import { DRAFT_ORDER_DELETE, GET_ORDER_RETURN_LINK, ORDER_CANCEL } from "../graphql/exchange";
+import { linkExchangeToReturn } from "./exchange.server";
+import { sendExchangeCancelled, sendExchangePaymentReminder } from "./notifications.server";
+import { releaseExchangeReservations } from "./reservation.server";
+import { settleReturnResolution } from "./resolution.server";
+import type { AdminResolver } from "./tracking.server";
+
+type AdminGraphQL = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Unpaid exchanges get a reminder this often until the deadline, up to the max.
+const PAYMENT_REMINDER_INTERVAL_DAYS = 2;
+const MAX_PAYMENT_REMINDERS = 3;
+
+export type ExchangeOrderStatus =
+  | "draft"
+  | "awaiting_payment"
+  | "ordered"
+  | "paid"
+  | "cancelled"
+  // Cancelled by us after the payment deadline; the return became store credit
+  | "converted";
+
+// The parts of Shopify's orders/* and draft_orders/* webhook payloads we read.
+export interface ExchangeOrderPayload {
+  admin_graphql_api_id?: string;
+  tags?: string;
+  // Draft orders only
+  status?: string;
+  order_id?: number | null;
+  invoice_url?: string | null;
+}
+
+export interface UnpaidExchangeResult {
+  checked: number;
+  reminded: number;
+  converted: number;
+  failed: number;
+}
+
+// Exchange drafts are tagged "exchange" and "return:<id>", and orders created
+// from them keep the tags. Hold invoices share the return tag but aren't the
+// exchange order.
+function exchangeTags(tags: string | undefined): string[] | null {
+  const list = (tags ?? "").split(",").map((tag) => tag.trim());
+  return list.includes("exchange") && !list.includes("exchange-hold") ? list : null;
+}
+
+function returnIdFromTags(tags: string[]): string | null {
+  const tag = tags.find((t) => t.startsWith("return:"));
+  return tag ? tag.slice("return:".length) : null;
+}
+
+async function readOrderReturnLink(admin: AdminGraphQL, orderId: string): Promise<string | null> {
+  try {
+    const response = await admin.graphql(GET_ORDER_RETURN_LINK, { variables: { id: orderId } });
+    const data = await response.json();
+    return data.data?.order?.metafield?.value ?? null;
+  } catch (error) {
+    console.error(`Failed to read the return linked to ${orderId}:`, error);
+    return null;
+  }
+}
+
+// Finds the return whose exchange an order or draft is: by the ID recorded
+// on the return, then, for orders tagged as exchanges, the return tag or the
+// returns_hub.return_request_id metafield set on exchange orders. An order
+// paid from its invoice can arrive before the draft reports it, so the
+// fallbacks matter. Untagged orders never cost a metafield lookup.
+export async function findExchangeReturn(
+  admin: AdminGraphQL | undefined,
+  shop: string,
+  ids: { orderId: string | null; draftOrderId: string | null; tags?: string }
+): Promise<ReturnRequest | null> {
+  const known = [ids.orderId, ids.draftOrderId].filter((id): id is string => Boolean(id));
+  if (known.length > 0) {
+    const returnRequest = await db.returnRequest.findFirst({
+      where: { shop, resolutionType: "exchange", exchangeOrderId: { in: known } },
+    });
+    if (returnRequest) {
+      return returnRequest;
+    }
+  }
+
+  const tags = exchangeTags(ids.tags);
+  if (!tags) {
+    return null;
+  }
+
+  const linkedId =
+    returnIdFromTags(tags) ??
+    (admin && ids.orderId ? await readOrderReturnLink(admin, ids.orderId) : null);
+  if (!linkedId) {
+    return null;
+  }
+
+  const returnRequest = await db.returnRequest.findUnique({ where: { id: linkedId } });
+  return returnRequest?.shop === shop && returnRequest.resolutionType === "exchange"
+    ? returnRequest
+    : null;
+}
+
+function orderIdFromDraft(payload: ExchangeOrderPayload): string | null {
+  return payload.order_id ? `gid://shopify/Order/${payload.order_id}` : null;
+}
+
+// draft_orders/update: keeps the invoice link current and, once the draft is
+// completed, moves the return onto the order and links the order back to it.
+export async function recordDraftOrderUpdate(
+  admin: AdminGraphQL | undefined,
+  shop: string,
+  payload: ExchangeOrderPayload,
+  now = new Date()
+): Promise<string | null> {
+  const orderId = payload.status === "completed" ? orderIdFromDraft(payload) : null;
+  const returnRequest = await findExchangeReturn(admin, shop, {
+    orderId,
+    draftOrderId: payload.admin_graphql_api_id ?? null,
+    tags: payload.tags,
+  });
+  if (!returnRequest || returnRequest.exchangeOrderStatus === "converted") {
+    return null;
+  }
+
+  const data: Prisma.ReturnRequestUpdateInput = {};
+  if (payload.invoice_url) {
+    data.exchangeInvoiceUrl = payload.invoice_url;
+  }
+  if (orderId) {
+    data.exchangeOrderId = orderId;
+    if (returnRequest.exchangeOrderStatus === "draft") {
+      data.exchangeOrderStatus = "ordered";
+      data.exchangeOrderUpdatedAt = now;
+    }
+    if (admin) {
+      try {
+        await linkExchangeToReturn(admin, orderId, returnRequest.id);
+      } catch (error) {
+        console.error(`Failed to link order ${orderId} to return ${returnRequest.id}:`, error);
+      }
+    }
+  }
+
+  if (Object.keys(data).length > 0) {
+    await db.returnRequest.update({ where: { id: returnRequest.id }, data });
+  }
+  return returnRequest.id;
+}
+
+// orders/paid: the customer paid what they owed, or the order had nothing due.
+export async function recordExchangeOrderPaid(
+  admin: AdminGraphQL | undefined,
+  shop: string,
+  payload: ExchangeOrderPayload,
+  now = new Date()
+): Promise<string | null> {
+  const orderId = payload.admin_graphql_api_id ?? null;
+  const returnRequest = await findExchangeReturn(admin, shop, {
+    orderId,
+    draftOrderId: null,
+    tags: payload.tags,
+  });
+  if (!returnRequest) {
+    return null;
+  }
+
+  await db.returnRequest.update({
+    where: { id: returnRequest.id },
+    data: {
+      exchangeOrderId: orderId ?? undefined,
+      exchangeOrderStatus: "paid",
+      exchangeOrderUpdatedAt: now,
+      exchangePaidAt: now,
+    },
+  });
+  return returnRequest.id;
+}
+
+// orders/cancelled: staff cancelled the exchange order in Shopify. Orders we
+// cancel for non-payment keep their converted status.
+export async function recordExchangeOrderCancelled(
+  admin: AdminGraphQL | undefined,
+  shop: string,
+  payload: ExchangeOrderPayload,
+  now = new Date()
+): Promise<string | null> {
+  const returnRequest = await findExchangeReturn(admin, shop, {
+    orderId: payload.admin_graphql_api_id ?? null,
+    draftOrderId: null,
+    tags: payload.tags,
+  });
+  if (!returnRequest || returnRequest.exchangeOrderStatus === "converted") {
+    return null;
+  }
+
+  await db.returnRequest.update({
+    where: { id: returnRequest.id },
+    data: { exchangeOrderStatus: "cancelled", exchangeOrderUpdatedAt: now },
+  });
+  return returnRequest.id;
+}
+
+async function cancelExchangeOrder(admin: AdminGraphQL, exchangeOrderId: string): Promise<void> {
+  if (exchangeOrderId.includes("/DraftOrder/")) {
+    const response = await admin.graphql(DRAFT_ORDER_DELETE, {
+      variables: { input: { id: exchangeOrderId } },
+    });
+    const data = await response.json();
+    const userErrors = data.data?.draftOrderDelete?.userErrors ?? [];
+    if (userErrors.length > 0) {
+      throw new Error(userErrors[0].message);
+    }
+    return;
+  }
+
+  const response = await admin.graphql(ORDER_CANCEL, {
+    variables: {
+      orderId: exchangeOrderId,
+      reason: "OTHER",
+      staffNote: "Exchange not paid by the deadline; the return was converted to store credit",
+    },
+  });
+  const data = await response.json();
+  const userErrors = data.data?.orderCancel?.orderCancelUserErrors ?? [];
+  if (userErrors.length > 0) {
+    throw new Error(userErrors[0].message);
+  }
+}
+
+function paymentNotification(returnRequest: ReturnRequest) {
+  return {
+    customerEmail: returnRequest.customerEmail,
+    customerName: returnRequest.customerName,
+    shopName: returnRequest.shop.replace(".myshopify.com", ""),
+    orderName: returnRequest.shopifyOrderName,
+    amountDue: returnRequest.exchangeAmountDue ?? 0,
+    invoiceUrl: returnRequest.exchangeInvoiceUrl,
+    dueOn: (returnRequest.exchangePaymentDueAt ?? new Date()).toISOString().split("T")[0],
+  };
+}
+
+// Cancels an exchange the customer didn't pay for in time and makes the
+// return store credit instead. The credit is issued now if the return is
+// already complete, otherwise when it completes.
+export async function convertUnpaidExchange(
+  admin: AdminGraphQL,
+  returnRequest: ReturnRequest,
+  now = new Date()
+): Promise<void> {
+  if (returnRequest.exchangeOrderId) {
+    await cancelExchangeOrder(admin, returnRequest.exchangeOrderId);
+  }
+  await releaseExchangeReservations(admin, returnRequest.id, "Exchange not paid", now);
+
+  const notification = paymentNotification(returnRequest);
+  await db.returnRequest.update({
+    where: { id: returnRequest.id },
+    data: {
+      resolutionType: "store_credit",
+      exchangeOrderStatus: "converted",
+      exchangeOrderUpdatedAt: now,
+      resolutionError: `The exchange wasn't paid by ${notification.dueOn}, so it was changed to store credit`,
+    },
+  });
+  await sendExchangeCancelled(notification);
+
+  if (returnRequest.status === "completed") {
+    await settleReturnResolution(admin, returnRequest.shop, returnRequest.id);
+  }
+}
+
+// Scheduled: reminds customers with an unpaid exchange invoice every few
+// days, and converts exchanges still unpaid after the deadline.
+export async function followUpUnpaidExchanges(
+  options: { getAdmin: AdminResolver; now?: Date; limit?: number }
+): Promise<UnpaidExchangeResult> {
+  const now = options.now ?? new Date();
+  const reminderCutoff = new Date(now.getTime() - PAYMENT_REMINDER_INTERVAL_DAYS * DAY_MS);
+
+  const unpaid = await db.returnRequest.findMany({
+    where: {
+      resolutionType: "exchange",
+      exchangeOrderStatus: "awaiting_payment",
+      OR: [
+        { exchangePaymentDueAt: { lte: now } },
+        {
+          exchangePaymentDueAt: { gt: now },
+          exchangeRemindersSent: { lt: MAX_PAYMENT_REMINDERS },
+          OR: [
+            { exchangeLastReminderAt: { lte: reminderCutoff } },
+            { exchangeLastReminderAt: null, exchangeOrderUpdatedAt: { lte: reminderCutoff } },
+          ],
+        },
+      ],
+    },
+    orderBy: { exchangePaymentDueAt: "asc" },
+    take: options.limit ?? 50,
+  });
+
+  const result: UnpaidExchangeResult = { checked: unpaid.length, reminded: 0, converted: 0, failed: 0 };
+
+  for (const returnRequest of unpaid) {
+    try {
+      if (returnRequest.exchangePaymentDueAt && returnRequest.exchangePaymentDueAt <= now) {
+        await convertUnpaidExchange(await options.getAdmin(returnRequest.shop), returnRequest, now);
+        result.converted++;
+        continue;
+      }
+
+      await sendExchangePaymentReminder(paymentNotification(returnRequest));
+      await db.returnRequest.update({
+        where: { id: returnRequest.id },
+        data: { exchangeRemindersSent: { increment: 1 }, exchangeLastReminderAt: now },
+      });
+      result.reminded++;
+    } catch (error) {
+      console.error(`Failed to follow up unpaid exchange for return ${returnRequest.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -1,7 +1,10 @@
+import type { ReturnRequest } from "@prisma/client";
 import db from "../db.server";
+import { calculateExchangeDifference, calculateStoreCreditValue } from "../utils/exchange";
 import {
   GET_PRODUCTS,
   GET_PRODUCT_BY_ID,
+  GET_EXCHANGE_VARIANTS,
   DRAFT_ORDER_CREATE,
   DRAFT_ORDER_COMPLETE,
   DRAFT_ORDER_CALCULATE,
@@ -24,6 +27,8 @@ export interface ExchangeCartItem {
   title: string;
   variantTitle?: string;
   price: number;
+  // The customer's second choice, used if this variant sells out
+  alternative?: { variantId: string; variantTitle?: string; price: number };
 }
 
 export async function fetchProducts(
@@ -47,6 +52,39 @@ export async function fetchProductById(admin: AdminGraphQL, productId: string) {
   return response.json();
 }
 
+export interface ExchangeVariant {
+  variantId: string;
+  title: string;
+  variantTitle?: string;
+  price: number;
+}
+
+// What Shopify currently charges for the variants a customer picked, keyed by
+// variant ID. Variants that no longer exist are left out.
+export async function fetchExchangeVariants(
+  admin: AdminGraphQL,
+  variantIds: string[]
+): Promise<Map<string, ExchangeVariant>> {
+  const response = await admin.graphql(GET_EXCHANGE_VARIANTS, {
+    variables: { ids: [...new Set(variantIds)] },
+  });
+  const data = await response.json();
+
+  const variants = new Map<string, ExchangeVariant>();
+  for (const node of data.data?.nodes ?? []) {
+    if (!node?.id || node.price == null) {
+      continue;
+    }
+    variants.set(node.id, {
+      variantId: node.id,
+      title: node.product?.title ?? "",
+      variantTitle: node.title ?? undefined,
+      price: parseFloat(node.price),
+    });
+  }
+  return variants;
+}
+
 export async function fetchCollections(
   admin: AdminGraphQL,
   options: { first?: number; after?: string } = {}
@@ -75,6 +113,82 @@ export async function fetchCollectionProducts(
   return response.json();
 }
 
+export interface CatalogProduct {
+  id: string;
+  title: string;
+  imageUrl: string | null;
+  variants: { id: string; title: string; price: number }[];
+}
+
+export interface CatalogPage {
+  products: CatalogProduct[];
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+}
+
+interface CatalogProductNode {
+  id: string;
+  title: string;
+  status?: string;
+  featuredImage?: { url: string } | null;
+  variants: {
+    edges: Array<{ node: { id: string; title: string; price: string; availableForSale: boolean } }>;
+  };
+}
+
+function toCatalogProduct(node: CatalogProductNode): CatalogProduct {
+  return {
+    id: node.id,
+    title: node.title,
+    imageUrl: node.featuredImage?.url ?? null,
+    variants: node.variants.edges
+      .map((edge) => edge.node)
+      .filter((variant) => variant.availableForSale)
+      .map((variant) => ({
+        id: variant.id,
+        title: variant.title,
+        price: parseFloat(variant.price),
+      })),
+  };
+}
+
+// Products customers can exchange for: active, published to the storefront
+// and with at least one variant in stock. Search terms are reduced to words
+// so they can't change the rest of the query.
+export async function fetchExchangeCatalog(
+  admin: AdminGraphQL,
+  options: { search?: string; collectionId?: string; after?: string } = {}
+): Promise<CatalogPage> {
+  let connection;
+
+  if (options.collectionId) {
+    const data = await fetchCollectionProducts(admin, options.collectionId, {
+      after: options.after,
+    });
+    connection = data.data?.collection?.products;
+  } else {
+    const search = options.search?.replace(/[^\p{L}\p{N}\s-]/gu, " ").trim();
+    const data = await fetchProducts(admin, {
+      after: options.after,
+      query: search
+        ? `status:active AND published_status:published AND (title:*${search}* OR product_type:*${search}*)`
+        : "status:active AND published_status:published",
+    });
+    connection = data.data?.products;
+  }
+
+  const nodes: CatalogProductNode[] =
+    connection?.edges?.map((edge: { node: CatalogProductNode }) => edge.node) ?? [];
+
+  return {
+    products: nodes
+      // Collections list products whatever their status
+      .filter((node) => (node.status ?? "ACTIVE") === "ACTIVE")
+      .map(toCatalogProduct)
+      .filter((product) => product.variants.length > 0),
+    pageInfo: connection?.pageInfo ?? { hasNextPage: false, endCursor: null },
+  };
+}
+
 export async function calculateExchangeOrder(
   admin: AdminGraphQL,
   input: {
@@ -212,6 +326,10 @@ export async function updateReturnWithExchange(
     exchangeOrderId?: string;
     exchangeValueUsed?: number;
     exchangeBonusApplied?: number;
+    exchangeOrderStatus?: string;
+    exchangeInvoiceUrl?: string | null;
+    exchangeAmountDue?: number | null;
+    exchangePaymentDueAt?: Date | null;
   }
 ) {
   return db.returnRequest.update({
@@ -222,6 +340,11 @@ export async function updateReturnWithExchange(
       exchangeOrderId: data.exchangeOrderId,
       exchangeValueUsed: data.exchangeValueUsed,
       exchangeBonusApplied: data.exchangeBonusApplied,
+      exchangeOrderStatus: data.exchangeOrderStatus,
+      exchangeOrderUpdatedAt: data.exchangeOrderStatus ? new Date() : undefined,
+      exchangeInvoiceUrl: data.exchangeInvoiceUrl,
+      exchangeAmountDue: data.exchangeAmountDue,
+      exchangePaymentDueAt: data.exchangePaymentDueAt,
     },
   });
 }
@@ -231,12 +354,14 @@ export async function updateReturnWithStoreCredit(
   data: {
     storeCreditIssued: number;
     storeCreditCode: string;
+    // Credit left over from an exchange keeps the return an exchange
+    resolutionType?: ResolutionType;
   }
 ) {
   return db.returnRequest.update({
     where: { id: returnRequestId },
     data: {
-      resolutionType: "store_credit",
+      resolutionType: data.resolutionType ?? "store_credit",
       storeCreditIssued: data.storeCreditIssued,
       storeCreditCode: data.storeCreditCode,
     },
@@ -252,6 +377,7 @@ export async function getExchangeSettings(shop: string) {
       storeCreditExpiryDays: true,
       exchangeEnabled: true,
       shopNowExchangeEnabled: true,
+      exchangePaymentDays: true,
     },
   });
 
@@ -261,7 +387,280 @@ export async function getExchangeSettings(shop: string) {
     storeCreditExpiryDays: null,
     exchangeEnabled: true,
     shopNowExchangeEnabled: true,
+    exchangePaymentDays: 7,
   };
 }
 
 export { calculateStoreCreditValue, calculateExchangeDifference } from "../utils/exchange";
+
+type ResolvableReturn = Pick<
+  ReturnRequest,
+  "id" | "shop" | "customerEmail" | "shopifyOrderName" | "totalRefundAmount"
+>;
+
+export interface StoreCreditResult {
+  giftCardCode: string | null;
+  amount: number;
+  bonusValue: number;
+  expiresOn?: string;
+}
+
+export interface ExchangeOrderResult {
+  draftOrder: {
+    id: string;
+    name: string;
+    invoiceUrl: string | null;
+    totalPrice?: string;
+    // The return credit as Shopify applied it, at Shopify's prices
+    totalDiscount?: number;
+  };
+  completedOrder: { id: string; name: string } | null;
+  summary: {
+    returnValue: number;
+    cartTotal: number;
+    discountApplied: number;
+    customerOwes: boolean;
+    amountDue: number;
+    // Issued as a gift card when the return completes
+    remainingCredit: number;
+  };
+}
+
+function storeCreditExpiry(expiryDays: number | null): string | undefined {
+  return expiryDays
+    ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString().split("T")[0]
+    : undefined;
+}
+
+// Issues the return's value plus the shop's bonus as a gift card and records
+// it on the return.
+export async function issueStoreCredit(
+  admin: AdminGraphQL,
+  returnRequest: ResolvableReturn
+): Promise<StoreCreditResult> {
+  const settings = await getExchangeSettings(returnRequest.shop);
+  const creditValue = calculateStoreCreditValue(
+    returnRequest.totalRefundAmount,
+    settings.storeCreditBonusPercent
+  );
+  const expiresOn = storeCreditExpiry(settings.storeCreditExpiryDays);
+
+  const data = await createGiftCard(admin, {
+    initialValue: creditValue.totalValue,
+    note: `Store credit for return #${returnRequest.id}`,
+    expiresOn,
+  });
+
+  const userErrors = data.data?.giftCardCreate?.userErrors ?? [];
+  if (userErrors.length > 0) {
+    throw new Error(userErrors[0].message);
+  }
+
+  const giftCardCode: string | null = data.data?.giftCardCreate?.giftCardCode ?? null;
+  if (giftCardCode) {
+    await updateReturnWithStoreCredit(returnRequest.id, {
+      storeCreditIssued: creditValue.totalValue,
+      storeCreditCode: giftCardCode,
+    });
+  }
+
+  return {
+    giftCardCode,
+    amount: creditValue.totalValue,
+    bonusValue: creditValue.bonusValue,
+    expiresOn,
+  };
+}
+
+// Creates the exchange order as a draft discounted by the return's value and
+// records it on the return. The draft is completed straight away when asked
+// and the return covers it; otherwise the customer pays the difference through
+// the draft's invoice by the shop's payment deadline, which webhooks track.
+// Value left over is issued as a gift card once the return completes, see
+// issueRemainingExchangeCredit.
+export async function createExchangeForReturn(
+  admin: AdminGraphQL,
+  returnRequest: ResolvableReturn,
+  lineItems: ExchangeCartItem[],
+  options: { exchangeType: ExchangeType; completeImmediately?: boolean }
+): Promise<ExchangeOrderResult> {
+  const cartTotal = lineItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const returnValue = returnRequest.totalRefundAmount;
+  const discountAmount = Math.min(returnValue, cartTotal);
+  const customerOwes = cartTotal > returnValue;
+  const remainingCredit = returnValue > cartTotal ? returnValue - cartTotal : 0;
+
+  const draftOrderData = await createExchangeDraftOrder(admin, {
+    email: returnRequest.customerEmail,
+    lineItems: lineItems.map((item) => ({ variantId: item.variantId, quantity: item.quantity })),
+    discountAmount,
+    note: `Exchange for return ${returnRequest.shopifyOrderName}`,
+    returnRequestId: returnRequest.id,
+  });
+
+  const userErrors = draftOrderData.data?.draftOrderCreate?.userErrors ?? [];
+  if (userErrors.length > 0) {
+    throw new Error(userErrors[0].message);
+  }
+
+  const draftOrder = draftOrderData.data?.draftOrderCreate?.draftOrder;
+  if (!draftOrder) {
+    throw new Error("Failed to create draft order");
+  }
+
+  const amountDue = customerOwes ? cartTotal - returnValue : 0;
+  let paymentDueAt: Date | null = null;
+  if (customerOwes) {
+    const { exchangePaymentDays } = await getExchangeSettings(returnRequest.shop);
+    paymentDueAt = new Date(Date.now() + exchangePaymentDays * 24 * 60 * 60 * 1000);
+  }
+
+  await updateReturnWithExchange(returnRequest.id, {
+    resolutionType: "exchange",
+    exchangeType: options.exchangeType,
+    exchangeOrderId: draftOrder.id,
+    exchangeValueUsed: discountAmount,
+    exchangeBonusApplied: 0,
+    exchangeOrderStatus: customerOwes ? "awaiting_payment" : "draft",
+    exchangeInvoiceUrl: draftOrder.invoiceUrl ?? null,
+    exchangeAmountDue: customerOwes ? amountDue : null,
+    exchangePaymentDueAt: paymentDueAt,
+  });
+
+  let completedOrder = null;
+  if (options.completeImmediately && !customerOwes) {
+    const completeData = await completeDraftOrder(admin, draftOrder.id, false);
+    completedOrder = completeData.data?.draftOrderComplete?.draftOrder?.order ?? null;
+  }
+
+  return {
+    draftOrder: {
+      id: draftOrder.id,
+      name: draftOrder.name,
+      invoiceUrl: draftOrder.invoiceUrl ?? null,
+      totalPrice: draftOrder.totalPriceSet?.shopMoney?.amount,
+      totalDiscount: draftOrder.totalDiscountsSet
+        ? parseFloat(draftOrder.totalDiscountsSet.shopMoney.amount)
+        : undefined,
+    },
+    completedOrder: completedOrder ? { id: completedOrder.id, name: completedOrder.name } : null,
+    summary: {
+      returnValue,
+      cartTotal,
+      discountApplied: discountAmount,
+      customerOwes,
+      amountDue,
+      remainingCredit,
+    },
+  };
+}
+
+// Issues the part of the return's value its exchange didn't use as a gift
+// card and records it on the return. Null when the exchange used it all.
+export async function issueRemainingExchangeCredit(
+  admin: AdminGraphQL,
+  returnRequest: ResolvableReturn & Pick<ReturnRequest, "exchangeValueUsed">
+): Promise<StoreCreditResult | null> {
+  const remainingCredit =
+    Math.round((returnRequest.totalRefundAmount - (returnRequest.exchangeValueUsed ?? 0)) * 100) /
+    100;
+  if (returnRequest.exchangeValueUsed === null || remainingCredit <= 0) {
+    return null;
+  }
+
+  const settings = await getExchangeSettings(returnRequest.shop);
+  const expiresOn = storeCreditExpiry(settings.storeCreditExpiryDays);
+  const data = await createGiftCard(admin, {
+    initialValue: remainingCredit,
+    note: `Remaining credit from exchange - Return #${returnRequest.id}`,
+    expiresOn,
+  });
+
+  const userErrors = data.data?.giftCardCreate?.userErrors ?? [];
+  if (userErrors.length > 0) {
+    throw new Error(userErrors[0].message);
+  }
+
+  const giftCardCode: string | null = data.data?.giftCardCreate?.giftCardCode ?? null;
+  if (giftCardCode) {
+    await updateReturnWithStoreCredit(returnRequest.id, {
+      storeCreditIssued: remainingCredit,
+      storeCreditCode: giftCardCode,
+      resolutionType: "exchange",
+    });
+  }
+
+  return { giftCardCode, amount: remainingCredit, bonusValue: 0, expiresOn };
+}
+
+export interface ExchangeQuote {
+  lineItems: ExchangeCartItem[];
+  returnValue: number;
+  cartTotal: number;
+  discountApplied: number;
+  customerOwes: boolean;
+  amountDue: number;
+  remainingCredit: number;
+}
+
+// Prices a cart the customer built in the storefront. Titles and prices come
+// from Shopify's draft order calculation, never from the request, and the
+// return's value is applied the way createExchangeForReturn applies it.
+export async function quoteExchangeCart(
+  admin: AdminGraphQL,
+  returnRequest: Pick<ReturnRequest, "customerEmail" | "totalRefundAmount">,
+  cart: { variantId: string; quantity: number }[]
+): Promise<ExchangeQuote> {
+  const data = await calculateExchangeOrder(admin, {
+    email: returnRequest.customerEmail,
+    lineItems: cart.map((item) => ({ variantId: item.variantId, quantity: item.quantity })),
+    discountAmount: 0,
+  });
+
+  const userErrors = data.data?.draftOrderCalculate?.userErrors ?? [];
+  if (userErrors.length > 0) {
+    throw new Error(userErrors[0].message);
+  }
+
+  const calculated = data.data?.draftOrderCalculate?.calculatedDraftOrder;
+  if (!calculated) {
+    throw new Error("Could not price the exchange");
+  }
+
+  const lineItems: ExchangeCartItem[] = calculated.lineItems.map(
+    (item: {
+      title: string;
+      variantTitle: string | null;
+      quantity: number;
+      variant: { id: string } | null;
+      originalUnitPriceSet: { shopMoney: { amount: string } };
+    }) => ({
+      variantId: item.variant?.id ?? "",
+      quantity: item.quantity,
+      title: item.title,
+      variantTitle: item.variantTitle ?? undefined,
+      price: parseFloat(item.originalUnitPriceSet.shopMoney.amount),
+    })
+  );
+
+  if (lineItems.some((item) => !item.variantId)) {
+    throw new Error("One of the products is no longer available");
+  }
+
+  const returnValue = returnRequest.totalRefundAmount;
+  const cartTotal = lineItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const { difference, customerOwes, remainingCredit } = calculateExchangeDifference(
+    returnValue,
+    cartTotal
+  );
+
+  return {
+    lineItems,
+    returnValue,
+    cartTotal,
+    discountApplied: Math.min(returnValue, cartTotal),
+    customerOwes,
+    amountDue: customerOwes ? difference : 0,
+    remainingCredit,
+  };
+}
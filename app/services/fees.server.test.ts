@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { calculateReturnFees, findFeeExemptTag, type FeePolicy } from "./fees.server";
+
+const policy: FeePolicy = {
+  returnShippingFee: 6.5,
+  restockingFeePercent: 10,
+  feeWaivedReasons: ["defective", "wrong_item"],
+  feeExemptCustomerTags: ["VIP"],
+};
+
+describe("Fee Service", () => {
+  describe("calculateReturnFees", () => {
+    it("deducts the restocking fee and the return shipping fee from the item value", () => {
+      expect(
+        calculateReturnFees(policy, [
+          { pricePerItem: 40, quantity: 2, reason: "wrong_size" },
+          { pricePerItem: 20, quantity: 1, reason: "no_longer_needed" },
+        ])
+      ).toEqual({
+        subtotal: 100,
+        restockingFee: 10,
+        returnShippingFee: 6.5,
+        total: 83.5,
+        waiver: null,
+      });
+    });
+
+    it("charges no restocking fee on items returned for a waived reason", () => {
+      const fees = calculateReturnFees(policy, [
+        { pricePerItem: 60, quantity: 1, reason: "defective" },
+        { pricePerItem: 40, quantity: 1, reason: "wrong_size" },
+      ]);
+
+      expect(fees.restockingFee).toBe(4);
+      expect(fees.returnShippingFee).toBe(6.5);
+      expect(fees.total).toBe(89.5);
+    });
+
+    it("waives the return shipping fee when every item has a waived reason", () => {
+      const fees = calculateReturnFees(policy, [
+        { pricePerItem: 60, quantity: 1, reason: "DEFECTIVE" },
+        { pricePerItem: 40, quantity: 1, reason: "wrong_item" },
+      ]);
+
+      expect(fees).toMatchObject({ restockingFee: 0, returnShippingFee: 0, total: 100 });
+    });
+
+    it("charges nothing to customers with an exempt tag", () => {
+      expect(
+        calculateReturnFees(policy, [{ pricePerItem: 50, quantity: 1, reason: "wrong_size" }], {
+          customerTags: ["newsletter", "vip"],
+        })
+      ).toEqual({
+        subtotal: 50,
+        restockingFee: 0,
+        returnShippingFee: 0,
+        total: 50,
+        waiver: "Free returns for customers tagged VIP",
+      });
+    });
+
+    it("charges nothing for returnless returns and never refunds less than zero", () => {
+      const items = [{ pricePerItem: 5, quantity: 1, reason: "wrong_size" }];
+
+      expect(calculateReturnFees(policy, items, { returnless: true }).total).toBe(5);
+      expect(calculateReturnFees(policy, items).total).toBe(0);
+    });
+  });
+
+  describe("findFeeExemptTag", () => {
+    it("matches tags case-insensitively", () => {
+      expect(findFeeExemptTag(policy, [" Vip "])).toBe("VIP");
+      expect(findFeeExemptTag(policy, ["wholesale"])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import type { ShopSettings } from "@prisma/client";
+import { normalizeReturnReason } from "../utils/reasons";
+
+export type FeePolicy = Pick<
+  ShopSettings,
+  "returnShippingFee" | "restockingFeePercent" | "feeWaivedReasons" | "feeExemptCustomerTags"
+>;
+
+export interface FeeItem {
+  pricePerItem: number;
+  quantity: number;
+  reason?: string | null;
+}
+
+export interface ReturnFees {
+  subtotal: number;
+  restockingFee: number;
+  returnShippingFee: number;
+  total: number;
+  // Why no fees are charged at all, when that is the case
+  waiver: string | null;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// The customer tag that exempts them from fees, matched case-insensitively.
+export function findFeeExemptTag(
+  policy: Pick<FeePolicy, "feeExemptCustomerTags">,
+  customerTags: string[]
+): string | null {
+  const tags = new Set(customerTags.map((tag) => tag.trim().toLowerCase()));
+  return policy.feeExemptCustomerTags.find((tag) => tags.has(tag.trim().toLowerCase())) ?? null;
+}
+
+export function isFeeWaivedReason(
+  policy: Pick<FeePolicy, "feeWaivedReasons">,
+  reason: string | null | undefined
+): boolean {
+  const normalized = normalizeReturnReason(reason);
+  return normalized !== null && policy.feeWaivedReasons.includes(normalized);
+}
+
+// Value of the items the restocking fee applies to: those returned for a
+// reason that isn't waived.
+export function feeableSubtotal(
+  policy: Pick<FeePolicy, "feeWaivedReasons">,
+  items: FeeItem[]
+): number {
+  return roundMoney(
+    items
+      .filter((item) => !isFeeWaivedReason(policy, item.reason))
+      .reduce((sum, item) => sum + item.pricePerItem * item.quantity, 0)
+  );
+}
+
+// The restocking fee is a percentage of the items not returned for a waived
+// reason. The return shipping fee is charged once per return, unless every
+// item was returned for a waived reason. Returnless returns are neither
+// shipped nor restocked, and customers with an exempt tag pay no fees.
+export function calculateReturnFees(
+  policy: FeePolicy,
+  items: FeeItem[],
+  options: { customerTags?: string[]; returnless?: boolean } = {}
+): ReturnFees {
+  const subtotal = roundMoney(
+    items.reduce((sum, item) => sum + item.pricePerItem * item.quantity, 0)
+  );
+
+  if (!policy.returnShippingFee && !policy.restockingFeePercent) {
+    return { subtotal, restockingFee: 0, returnShippingFee: 0, total: subtotal, waiver: null };
+  }
+
+  const exemptTag = findFeeExemptTag(policy, options.customerTags ?? []);
+  if (exemptTag) {
+    return {
+      subtotal,
+      restockingFee: 0,
+      returnShippingFee: 0,
+      total: subtotal,
+      waiver: `Free returns for customers tagged ${exemptTag}`,
+    };
+  }
+
+  if (options.returnless) {
+    return { subtotal, restockingFee: 0, returnShippingFee: 0, total: subtotal, waiver: null };
+  }
+
+  const feeable = feeableSubtotal(policy, items);
+  const restockingFee =
+    policy.restockingFeePercent > 0 ? roundMoney((feeable * policy.restockingFeePercent) / 100) : 0;
+  const allWaived = items.length > 0 && items.every((item) => isFeeWaivedReason(policy, item.reason));
+  const returnShippingFee = allWaived ? 0 : policy.returnShippingFee;
+
+  return {
+    subtotal,
+    restockingFee,
+    returnShippingFee,
+    total: roundMoney(Math.max(subtotal - restockingFee - returnShippingFee, 0)),
+    waiver: null,
+  };
+}
@@ -0,0 +1,353 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
+import {
+  calculateInspectedRefund,
+  completeInspection,
+  hasDiscrepancy,
+  parsePhotoUrls,
+  saveInspection,
+  uploadInspectionPhoto,
+} from "./inspection.server";
+import { applyItemDisposition } from "./disposition.server";
+import { restockReturnedItems } from "./restocking.server";
+import { issueReturnRefund } from "./refund.server";
+import { transitionReturn } from "./return-lifecycle.server";
+import {
+  createMockReturnItem,
+  createMockReturnRequest,
+  mockShop,
+} from "../../test/fixtures";
+
+vi.mock("./disposition.server", () => ({
+  applyItemDisposition: vi.fn(),
+}));
+
+vi.mock("./restocking.server", () => ({
+  restockReturnedItems: vi.fn(),
+}));
+
+vi.mock("./refund.server", () => ({
+  issueReturnRefund: vi.fn(() => Promise.resolve({ status: "refunded", refundedAmount: 0 })),
+}));
+
+vi.mock("./resolution.server", () => ({
+  settleReturnResolution: vi.fn(() => Promise.resolve({ status: "skipped", resolution: null })),
+}));
+
+vi.mock("./return-lifecycle.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./return-lifecycle.server")>()),
+  transitionReturn: vi.fn(),
+}));
+
+const admin = { graphql: vi.fn() };
+
+const shirt = createMockReturnItem({ id: "item_shirt", title: "Shirt", quantity: 2, pricePerItem: 25 });
+const lamp = createMockReturnItem({ id: "item_lamp", title: "Lamp", quantity: 1, pricePerItem: 60 });
+
+function mockReturn(overrides: Parameters<typeof createMockReturnRequest>[0] = {}) {
+  vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+    ...createMockReturnRequest({ status: "approved", totalRefundAmount: 110, ...overrides }),
+    items: [shirt, lamp],
+  } as never);
+}
+
+describe("Inspection Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("hasDiscrepancy", () => {
+    it("flags short shipments", () => {
+      expect(hasDiscrepancy(shirt, { quantityReceived: 1 })).toBe(true);
+    });
+
+    it("honours a manual flag when quantities match", () => {
+      expect(hasDiscrepancy(shirt, { quantityReceived: 2 })).toBe(false);
+      expect(hasDiscrepancy(shirt, { quantityReceived: 2, discrepancy: true })).toBe(true);
+    });
+  });
+
+  describe("calculateInspectedRefund", () => {
+    it("refunds only received units, capped at the requested quantity", () => {
+      const refund = calculateInspectedRefund(
+        [shirt, lamp],
+        [
+          { itemId: "item_shirt", condition: "new", quantityReceived: 3 },
+          { itemId: "item_lamp", condition: "damaged", quantityReceived: 0 },
+        ]
+      );
+
+      expect(refund).toBe(50);
+    });
+  });
+
+  describe("parsePhotoUrls", () => {
+    it("reads stored JSON arrays and ignores bad data", () => {
+      expect(parsePhotoUrls('["https://cdn.example.com/a.jpg"]')).toEqual([
+        "https://cdn.example.com/a.jpg",
+      ]);
+      expect(parsePhotoUrls("not json")).toEqual([]);
+      expect(parsePhotoUrls(null)).toEqual([]);
+    });
+  });
+
+  describe("saveInspection", () => {
+    it("stores grades, photos and discrepancy flags", async () => {
+      mockReturn();
+
+      await saveInspection(mockShop, "return_123", [
+        {
+          itemId: "item_shirt",
+          condition: "like_new",
+          quantityReceived: 1,
+          photoUrls: ["https://cdn.example.com/shirt.jpg"],
+          notes: "One missing",
+        },
+      ]);
+
+      expect(db.returnItem.update).toHaveBeenCalledTimes(1);
+      expect(db.returnItem.update).toHaveBeenCalledWith({
+        where: { id: "item_shirt" },
+        data: {
+          condition: "like_new",
+          quantityReceived: 1,
+          photoUrls: '["https://cdn.example.com/shirt.jpg"]',
+          inspectionNotes: "One missing",
+          discrepancy: true,
+          inspectedAt: expect.any(Date),
+        },
+      });
+    });
+
+    it("rejects completed returns and other shops", async () => {
+      mockReturn({ status: "completed" });
+      await expect(saveInspection(mockShop, "return_123", [])).rejects.toThrow(
+        "Cannot inspect a completed return"
+      );
+
+      mockReturn();
+      await expect(saveInspection("other-shop.myshopify.com", "return_123", [])).rejects.toThrow(
+        "Return request not found"
+      );
+    });
+  });
+
+  describe("completeInspection", () => {
+    it("runs dispositions, restocks unclaimed sellable items and sets the refund", async () => {
+      mockReturn();
+      vi.mocked(applyItemDisposition)
+        .mockResolvedValueOnce({
+          success: false,
+          itemId: "item_shirt",
+          dispositionType: null,
+          error: "No disposition rule matched",
+        })
+        .mockResolvedValueOnce({
+          success: true,
+          itemId: "item_lamp",
+          dispositionType: "manufacturer",
+          reference: "CLM-20240101-M_LAMP",
+        });
+      vi.mocked(restockReturnedItems).mockResolvedValue([
+        { success: true, itemId: "item_shirt", variantId: "v1", quantity: 1 },
+      ]);
+
+      const summary = await completeInspection(admin, mockShop, "return_123", [
+        { itemId: "item_shirt", condition: "good", quantityReceived: 1 },
+        { itemId: "item_lamp", condition: "defective", quantityReceived: 1 },
+      ]);
+
+      expect(restockReturnedItems).toHaveBeenCalledWith(admin, "return_123", undefined, {
+        itemIds: ["item_shirt"],
+        fromInspection: true,
+      });
+      expect(summary.refundAmount).toBe(85);
+      expect(summary.expectedAmount).toBe(110);
+      expect(summary.discrepancies).toEqual(["Shirt: expected 2, received 1"]);
+      expect(summary.dispositions.map((d) => d.dispositionType)).toEqual([
+        "restock",
+        "manufacturer",
+      ]);
+      const actor = { type: "merchant" };
+      expect(vi.mocked(transitionReturn).mock.calls.map((call) => call[1])).toEqual([
+        "received",
+        "inspected",
+        "completed",
+      ]);
+      expect(transitionReturn).toHaveBeenCalledWith("return_123", "inspected", actor, {
+        shop: mockShop,
+        reason: "Shirt: expected 2, received 1",
+        data: { totalRefundAmount: 85, inspectedAt: expect.any(Date) },
+      });
+      expect(issueReturnRefund).toHaveBeenCalledWith(admin, mockShop, "return_123", actor);
+    });
+
+    it("keeps the fees charged when the return was requested", async () => {
+      mockReturn({ totalRefundAmount: 98, restockingFee: 7, returnShippingFee: 5 });
+      vi.mocked(applyItemDisposition).mockResolvedValue({
+        success: true,
+        itemId: "item_shirt",
+        dispositionType: "outlet",
+      });
+
+      const summary = await completeInspection(admin, mockShop, "return_123", [
+        { itemId: "item_shirt", condition: "good", quantityReceived: 2 },
+        { itemId: "item_lamp", condition: "good", quantityReceived: 1 },
+      ]);
+
+      expect(summary.refundAmount).toBe(98);
+      expect(transitionReturn).toHaveBeenCalledWith(
+        "return_123",
+        "inspected",
+        expect.anything(),
+        expect.objectContaining({ data: { totalRefundAmount: 98, inspectedAt: expect.any(Date) } })
+      );
+    });
+
+    it("leaves the return inspected when the refund fails", async () => {
+      mockReturn({ status: "received" });
+      vi.mocked(applyItemDisposition).mockResolvedValue({
+        success: true,
+        itemId: "item_shirt",
+        dispositionType: "outlet",
+      });
+      vi.mocked(issueReturnRefund).mockResolvedValueOnce({
+        status: "failed",
+        refundedAmount: 0,
+        error: "Payment gateway unavailable",
+      });
+
+      const summary = await completeInspection(admin, mockShop, "return_123", [
+        { itemId: "item_shirt", condition: "like_new", quantityReceived: 2 },
+        { itemId: "item_lamp", condition: "new", quantityReceived: 1 },
+      ]);
+
+      expect(vi.mocked(transitionReturn).mock.calls.map((call) => call[1])).toEqual([
+        "inspected",
+      ]);
+      expect(summary.refund.status).toBe("failed");
+    });
+
+    it("skips dispositions for items that never arrived", async () => {
+      mockReturn();
+      vi.mocked(applyItemDisposition).mockResolvedValue({
+        success: true,
+        itemId: "item_shirt",
+        dispositionType: "outlet",
+      });
+
+      const summary = await completeInspection(admin, mockShop, "return_123", [
+        { itemId: "item_shirt", condition: "like_new", quantityReceived: 2 },
+        { itemId: "item_lamp", condition: "new", quantityReceived: 0 },
+      ]);
+
+      expect(applyItemDisposition).toHaveBeenCalledTimes(1);
+      expect(summary.refundAmount).toBe(50);
+    });
+
+    it("requires every item to be inspected", async () => {
+      mockReturn();
+
+      await expect(
+        completeInspection(admin, mockShop, "return_123", [
+          { itemId: "item_shirt", condition: "new", quantityReceived: 2 },
+        ])
+      ).rejects.toThrow("Inspection is missing Lamp");
+      expect(transitionReturn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("uploadInspectionPhoto", () => {
+    const photo = new File(["jpeg"], "scuff.jpg", { type: "image/jpeg" });
+
+    function graphqlResponse(data: unknown) {
+      return { json: () => Promise.resolve({ data }) } as unknown as Response;
+    }
+
+    beforeEach(() => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: true } as Response);
+      admin.graphql.mockResolvedValueOnce(
+        graphqlResponse({
+          stagedUploadsCreate: {
+            stagedTargets: [
+              {
+                url: "https://shopify-staged-uploads.storage.googleapis.com/",
+                resourceUrl: "https://shopify-staged-uploads.storage.googleapis.com/tmp/scuff.jpg",
+                parameters: [{ name: "key", value: "tmp/scuff.jpg" }],
+              },
+            ],
+            userErrors: [],
+          },
+        })
+      );
+    });
+
+    it("returns the file's CDN URL rather than the staged upload", async () => {
+      admin.graphql.mockResolvedValueOnce(
+        graphqlResponse({
+          fileCreate: {
+            files: [
+              {
+                id: "gid://shopify/MediaImage/1",
+                fileStatus: "READY",
+                image: { url: "https://cdn.shopify.com/s/files/scuff.jpg" },
+              },
+            ],
+            userErrors: [],
+          },
+        })
+      );
+
+      const url = await uploadInspectionPhoto(admin, photo);
+
+      expect(url).toBe("https://cdn.shopify.com/s/files/scuff.jpg");
+      expect(admin.graphql.mock.calls[1][1].variables.files[0].originalSource).toBe(
+        "https://shopify-staged-uploads.storage.googleapis.com/tmp/scuff.jpg"
+      );
+    });
+
+    it("waits for Shopify to process the file", async () => {
+      vi.useFakeTimers();
+      admin.graphql
+        .mockResolvedValueOnce(
+          graphqlResponse({
+            fileCreate: {
+              files: [{ id: "gid://shopify/MediaImage/1", fileStatus: "UPLOADED", image: null }],
+              userErrors: [],
+            },
+          })
+        )
+        .mockResolvedValueOnce(
+          graphqlResponse({
+            node: {
+              id: "gid://shopify/MediaImage/1",
+              fileStatus: "READY",
+              image: { url: "https://cdn.shopify.com/s/files/scuff.jpg" },
+            },
+          })
+        );
+
+      const upload = uploadInspectionPhoto(admin, photo);
+      await vi.runAllTimersAsync();
+
+      await expect(upload).resolves.toBe("https://cdn.shopify.com/s/files/scuff.jpg");
+      expect(admin.graphql.mock.calls[2][1].variables).toEqual({ id: "gid://shopify/MediaImage/1" });
+      vi.useRealTimers();
+    });
+
+    it("fails when Shopify can't process the file", async () => {
+      admin.graphql.mockResolvedValueOnce(
+        graphqlResponse({
+          fileCreate: {
+            files: [{ id: "gid://shopify/MediaImage/1", fileStatus: "FAILED", image: null }],
+            userErrors: [],
+          },
+        })
+      );
+
+      await expect(uploadInspectionPhoto(admin, photo)).rejects.toThrow(
+        "Shopify could not process the photo"
+      );
+    });
+  });
+});
@@ -0,0 +1,377 @@
+import type { ReturnItem } from "@prisma/client";
+import db from "../db.server";
+import { applyItemDisposition, type DispositionResult } from "./disposition.server";
+import { issueReturnRefund, type RefundResult } from "./refund.server";
+import { restockReturnedItems } from "./restocking.server";
+import { settleReturnResolution, type ResolutionOutcome } from "./resolution.server";
+import { MERCHANT_ACTOR, transitionReturn } from "./return-lifecycle.server";
+import type { ItemCondition } from "../utils/disposition";
+import {
+  canInspectReturn,
+  getReturnStatusLabel,
+  type ReturnActor,
+} from "../utils/return-status";
+
+type AdminGraphQL = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+const STAGED_UPLOADS_CREATE = `#graphql
+  mutation StagedUploadsCreate($input: [StagedUploadInput!]!) {
+    stagedUploadsCreate(input: $input) {
+      stagedTargets {
+        url
+        resourceUrl
+        parameters {
+          name
+          value
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const FILE_CREATE = `#graphql
+  mutation FileCreate($files: [FileCreateInput!]!) {
+    fileCreate(files: $files) {
+      files {
+        id
+        fileStatus
+        ... on MediaImage {
+          image {
+            url
+          }
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const GET_FILE = `#graphql
+  query GetFile($id: ID!) {
+    node(id: $id) {
+      ... on MediaImage {
+        id
+        fileStatus
+        image {
+          url
+        }
+      }
+    }
+  }
+`;
+
+// Shopify processes new files in the background; photos are usually ready
+// within a few seconds.
+const FILE_READY_ATTEMPTS = 10;
+const FILE_READY_INTERVAL_MS = 500;
+
+// Items in these conditions go back to stock when no disposition rule claims them.
+const RESTOCKABLE_CONDITIONS: ItemCondition[] = ["new", "like_new", "good"];
+
+export interface InspectionItemInput {
+  itemId: string;
+  condition: ItemCondition;
+  quantityReceived: number;
+  photoUrls?: string[];
+  notes?: string;
+  discrepancy?: boolean;
+}
+
+export interface InspectionSummary {
+  expectedAmount: number;
+  refundAmount: number;
+  discrepancies: string[];
+  dispositions: DispositionResult[];
+  refund: RefundResult;
+  resolution: ResolutionOutcome;
+}
+
+export function parsePhotoUrls(value: string | null): string[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((url) => typeof url === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+// Staff can flag a discrepancy by hand; a short or over shipment always counts as one.
+export function hasDiscrepancy(
+  item: Pick<ReturnItem, "quantity">,
+  input: Pick<InspectionItemInput, "quantityReceived" | "discrepancy">
+): boolean {
+  return Boolean(input.discrepancy) || input.quantityReceived !== item.quantity;
+}
+
+// Refunds cover what actually arrived, capped at the quantity the customer asked to return.
+export function calculateInspectedRefund(
+  items: Array<Pick<ReturnItem, "id" | "quantity" | "pricePerItem">>,
+  inputs: InspectionItemInput[]
+): number {
+  const total = items.reduce((sum, item) => {
+    const input = inputs.find((i) => i.itemId === item.id);
+    const received = input ? Math.min(Math.max(input.quantityReceived, 0), item.quantity) : 0;
+    return sum + item.pricePerItem * received;
+  }, 0);
+
+  return Math.round(total * 100) / 100;
+}
+
+async function getInspectableReturn(shop: string, returnRequestId: string) {
+  const returnRequest = await db.returnRequest.findUnique({
+    where: { id: returnRequestId },
+    include: { items: true },
+  });
+
+  if (!returnRequest || returnRequest.shop !== shop) {
+    throw new Error(`Return request not found: ${returnRequestId}`);
+  }
+
+  if (!canInspectReturn(returnRequest.status)) {
+    throw new Error(
+      `Cannot inspect a ${getReturnStatusLabel(returnRequest.status).toLowerCase()} return`
+    );
+  }
+
+  return returnRequest;
+}
+
+// Persists grades without completing the return so staff can pick up where they left off.
+export async function saveInspection(
+  shop: string,
+  returnRequestId: string,
+  inputs: InspectionItemInput[]
+) {
+  const returnRequest = await getInspectableReturn(shop, returnRequestId);
+  const now = new Date();
+
+  for (const item of returnRequest.items) {
+    const input = inputs.find((i) => i.itemId === item.id);
+    if (!input) {
+      continue;
+    }
+
+    await db.returnItem.update({
+      where: { id: item.id },
+      data: {
+        condition: input.condition,
+        quantityReceived: input.quantityReceived,
+        photoUrls: input.photoUrls?.length ? JSON.stringify(input.photoUrls) : null,
+        inspectionNotes: input.notes || null,
+        discrepancy: hasDiscrepancy(item, input),
+        inspectedAt: now,
+      },
+    });
+  }
+
+  return returnRequest;
+}
+
+// Saves the grades, runs each received item through the disposition rules,
+// restocks sellable items no rule claimed, refunds what was received through
+// Shopify and completes the return. A failed refund leaves it inspected.
+export async function completeInspection(
+  admin: AdminGraphQL,
+  shop: string,
+  returnRequestId: string,
+  inputs: InspectionItemInput[],
+  actor: ReturnActor = MERCHANT_ACTOR
+): Promise<InspectionSummary> {
+  const returnRequest = await saveInspection(shop, returnRequestId, inputs);
+
+  const missing = returnRequest.items.filter(
+    (item) => !inputs.some((input) => input.itemId === item.id)
+  );
+  if (missing.length > 0) {
+    throw new Error(`Inspection is missing ${missing.map((item) => item.title).join(", ")}`);
+  }
+
+  const discrepancies: string[] = [];
+  const dispositions: DispositionResult[] = [];
+
+  for (const item of returnRequest.items) {
+    const input = inputs.find((i) => i.itemId === item.id)!;
+
+    if (hasDiscrepancy(item, input)) {
+      discrepancies.push(
+        `${item.title}: expected ${item.quantity}, received ${input.quantityReceived}`
+      );
+    }
+
+    if (input.quantityReceived <= 0) {
+      continue;
+    }
+
+    const result = await applyItemDisposition(admin, item.id, { condition: input.condition });
+
+    if (!result.dispositionType && RESTOCKABLE_CONDITIONS.includes(input.condition)) {
+      const [restock] = await restockReturnedItems(admin, returnRequestId, undefined, {
+        itemIds: [item.id],
+        fromInspection: true,
+      });
+
+      if (restock?.success) {
+        await db.returnItem.update({
+          where: { id: item.id },
+          data: {
+            dispositionType: "restock",
+            dispositionReason: "Restocked after inspection",
+            dispositionedAt: new Date(),
+          },
+        });
+      }
+
+      dispositions.push({
+        success: Boolean(restock?.success),
+        itemId: item.id,
+        dispositionType: "restock",
+        error: restock?.error,
+      });
+      continue;
+    }
+
+    dispositions.push(result);
+  }
+
+  // The fees charged when the return was requested still come off the refund.
+  const fees = (returnRequest.restockingFee ?? 0) + (returnRequest.returnShippingFee ?? 0);
+  const refundAmount = Math.max(
+    0,
+    Math.round((calculateInspectedRefund(returnRequest.items, inputs) - fees) * 100) / 100
+  );
+
+  if (returnRequest.status !== "received") {
+    await transitionReturn(returnRequestId, "received", actor, {
+      shop,
+      reason: "Received for inspection",
+    });
+  }
+
+  await transitionReturn(returnRequestId, "inspected", actor, {
+    shop,
+    reason: discrepancies.length > 0 ? discrepancies.join("; ") : null,
+    data: { totalRefundAmount: refundAmount, inspectedAt: new Date() },
+  });
+
+  const refund = await issueReturnRefund(admin, shop, returnRequestId, actor);
+  const resolution = await settleReturnResolution(admin, shop, returnRequestId);
+
+  if (refund.status !== "failed" && refund.status !== "partial") {
+    await transitionReturn(returnRequestId, "completed", actor, {
+      shop,
+      data: { completedAt: new Date() },
+    });
+  }
+
+  return {
+    expectedAmount: returnRequest.totalRefundAmount,
+    refundAmount,
+    discrepancies,
+    dispositions,
+    refund,
+    resolution,
+  };
+}
+
+interface UploadedFile {
+  id: string;
+  fileStatus: string;
+  image?: { url: string } | null;
+}
+
+// Waits for Shopify to finish processing a file and returns its CDN URL. The
+// staged upload URL is temporary, so it's never what we store.
+async function waitForFileUrl(admin: AdminGraphQL, file: UploadedFile): Promise<string> {
+  let current: UploadedFile | null = file;
+
+  for (let attempt = 0; attempt < FILE_READY_ATTEMPTS; attempt++) {
+    if (current?.fileStatus === "FAILED") {
+      throw new Error("Shopify could not process the photo");
+    }
+    if (current?.image?.url) {
+      return current.image.url;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, FILE_READY_INTERVAL_MS));
+    const response = await admin.graphql(GET_FILE, { variables: { id: file.id } });
+    const data = await response.json();
+    current = data.data?.node ?? null;
+  }
+
+  throw new Error("The photo is still processing, please try again shortly");
+}
+
+// Uploads an inspection photo to the shop's Files and returns its URL.
+export async function uploadInspectionPhoto(admin: AdminGraphQL, file: File): Promise<string> {
+  const stagedResponse = await admin.graphql(STAGED_UPLOADS_CREATE, {
+    variables: {
+      input: [
+        {
+          filename: file.name,
+          mimeType: file.type || "image/jpeg",
+          fileSize: file.size.toString(),
+          resource: "IMAGE",
+          httpMethod: "POST",
+        },
+      ],
+    },
+  });
+
+  const stagedData = await stagedResponse.json();
+  const stagedErrors = stagedData.data?.stagedUploadsCreate?.userErrors || [];
+  const target = stagedData.data?.stagedUploadsCreate?.stagedTargets?.[0];
+
+  if (stagedErrors.length > 0 || !target) {
+    throw new Error(
+      stagedErrors.map((e: { message: string }) => e.message).join(", ") ||
+        "Could not prepare photo upload"
+    );
+  }
+
+  const uploadForm = new FormData();
+  for (const param of target.parameters as Array<{ name: string; value: string }>) {
+    uploadForm.append(param.name, param.value);
+  }
+  uploadForm.append("file", file);
+
+  const uploadResponse = await fetch(target.url, { method: "POST", body: uploadForm });
+  if (!uploadResponse.ok) {
+    throw new Error(`Photo upload failed: ${uploadResponse.status}`);
+  }
+
+  const fileResponse = await admin.graphql(FILE_CREATE, {
+    variables: {
+      files: [
+        {
+          originalSource: target.resourceUrl,
+          contentType: "IMAGE",
+          alt: `Return inspection photo ${file.name}`,
+        },
+      ],
+    },
+  });
+
+  const fileData = await fileResponse.json();
+  const fileErrors = fileData.data?.fileCreate?.userErrors || [];
+  const created: UploadedFile | undefined = fileData.data?.fileCreate?.files?.[0];
+  if (fileErrors.length > 0 || !created) {
+    throw new Error(
+      fileErrors.map((e: { message: string }) => e.message).join(", ") || "Could not save the photo"
+    );
+  }
+
+  return waitForFileUrl(admin, created);
+}
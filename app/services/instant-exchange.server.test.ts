@@ -0,0 +1,267 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
+import {
+  chargeExchangeHold,
+  isInstantExchangeEligible,
+  processExchangeHolds,
+  recordExchangeHoldPaid,
+  releaseExchangeHold,
+  shipInstantExchange,
+} from "./instant-exchange.server";
+import { completeDraftOrder } from "./exchange.server";
+import { releaseExchangeReservations } from "./reservation.server";
+import { createMockReturnRequest, mockShop } from "../../test/fixtures";
+
+vi.mock("./exchange.server", () => ({
+  completeDraftOrder: vi.fn(),
+}));
+
+vi.mock("./reservation.server", () => ({
+  releaseExchangeReservations: vi.fn(),
+}));
+
+function graphqlResponse(data: unknown) {
+  return { json: () => Promise.resolve({ data }) } as unknown as Response;
+}
+
+const settings = {
+  instantExchangeEnabled: true,
+  instantExchangeMaxRiskLevel: "low",
+  instantExchangeReturnDays: 21,
+};
+
+const exchange = {
+  draftOrder: { id: "gid://shopify/DraftOrder/1", name: "#D1", invoiceUrl: null, totalPrice: "0.00" },
+  completedOrder: null,
+  summary: {
+    returnValue: 50,
+    cartTotal: 50,
+    discountApplied: 50,
+    customerOwes: false,
+    amountDue: 0,
+    remainingCredit: 0,
+  },
+};
+
+describe("Instant Exchange Service", () => {
+  const admin = { graphql: vi.fn() };
+  const now = new Date("2026-03-16T00:00:00Z");
+
+  beforeEach(() => {
+    vi.mocked(db.returnRequest.update).mockResolvedValue(createMockReturnRequest());
+  });
+
+  describe("isInstantExchangeEligible", () => {
+    it("is limited to scored customers within the risk threshold", () => {
+      const eligible = (overrides: Record<string, unknown>) =>
+        isInstantExchangeEligible(settings, {
+          riskScore: 10,
+          isReturnless: false,
+          ...overrides,
+        } as never);
+
+      expect(eligible({})).toBe(true);
+      expect(eligible({ riskScore: 45 })).toBe(false);
+      expect(eligible({ riskScore: null })).toBe(false);
+      expect(eligible({ isReturnless: true })).toBe(false);
+      expect(
+        isInstantExchangeEligible(
+          { ...settings, instantExchangeEnabled: false },
+          { riskScore: 0, isReturnless: false }
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe("shipInstantExchange", () => {
+    it("completes the draft and holds the return's value until the due date", async () => {
+      vi.mocked(completeDraftOrder).mockResolvedValue({
+        data: {
+          draftOrderComplete: {
+            draftOrder: { id: "gid://shopify/DraftOrder/1", order: { id: "gid://shopify/Order/2", name: "#1002" } },
+            userErrors: [],
+          },
+        },
+      });
+
+      const order = await shipInstantExchange(admin, { id: "return_123" }, exchange, settings, now);
+
+      expect(order).toEqual({ id: "gid://shopify/Order/2", name: "#1002" });
+      expect(releaseExchangeReservations).toHaveBeenCalledWith(
+        admin,
+        "return_123",
+        "Exchange order placed"
+      );
+      expect(completeDraftOrder).toHaveBeenCalledWith(admin, "gid://shopify/DraftOrder/1", false);
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_123" },
+        data: {
+          exchangeOrderId: "gid://shopify/Order/2",
+          exchangeOrderStatus: "ordered",
+          exchangeOrderUpdatedAt: now,
+          exchangeHoldAmount: 50,
+          exchangeHoldStatus: "held",
+          exchangeHoldDueAt: new Date("2026-04-06T00:00:00Z"),
+          exchangeHoldResolvedAt: null,
+        },
+      });
+    });
+
+    it("holds the credit Shopify applied to the draft", async () => {
+      vi.mocked(completeDraftOrder).mockResolvedValue({
+        data: {
+          draftOrderComplete: {
+            draftOrder: { id: "gid://shopify/DraftOrder/1", order: { id: "gid://shopify/Order/2", name: "#1002" } },
+            userErrors: [],
+          },
+        },
+      });
+
+      await shipInstantExchange(
+        admin,
+        { id: "return_123" },
+        { ...exchange, draftOrder: { ...exchange.draftOrder, totalDiscount: 48 } },
+        settings,
+        now
+      );
+
+      expect(db.returnRequest.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ exchangeHoldAmount: 48 }) })
+      );
+    });
+
+    it("leaves the draft for the return's completion when Shopify refuses", async () => {
+      vi.mocked(completeDraftOrder).mockResolvedValue({
+        data: {
+          draftOrderComplete: {
+            draftOrder: null,
+            userErrors: [{ field: ["id"], message: "Variant is out of stock" }],
+          },
+        },
+      });
+
+      await expect(
+        shipInstantExchange(admin, { id: "return_123" }, exchange, settings, now)
+      ).rejects.toThrow("The replacement could not be shipped early: Variant is out of stock");
+      expect(db.returnRequest.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("releaseExchangeHold", () => {
+    it("only releases a hold that is still held", async () => {
+      await releaseExchangeHold("return_123", now);
+
+      expect(db.returnRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: "return_123", exchangeHoldStatus: "held" },
+        data: { exchangeHoldStatus: "released", exchangeHoldResolvedAt: now },
+      });
+    });
+  });
+
+  describe("chargeExchangeHold", () => {
+    const held = createMockReturnRequest({
+      exchangeHoldAmount: 50,
+      exchangeHoldStatus: "held",
+    });
+
+    it("invoices the customer for the held amount", async () => {
+      admin.graphql
+        .mockResolvedValueOnce(
+          graphqlResponse({
+            draftOrderCreate: { draftOrder: { id: "gid://shopify/DraftOrder/9" }, userErrors: [] },
+          })
+        )
+        .mockResolvedValueOnce(
+          graphqlResponse({
+            draftOrderInvoiceSend: { draftOrder: { id: "gid://shopify/DraftOrder/9" }, userErrors: [] },
+          })
+        );
+
+      const chargeId = await chargeExchangeHold(admin, held, now);
+
+      expect(chargeId).toBe("gid://shopify/DraftOrder/9");
+      expect(admin.graphql.mock.calls[0][1].variables.input.lineItems).toEqual([
+        expect.objectContaining({ originalUnitPrice: "50.00", quantity: 1 }),
+      ]);
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_123" },
+        data: { exchangeHoldChargeId: "gid://shopify/DraftOrder/9" },
+      });
+      // Charged only once Shopify reports the invoice paid
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_123" },
+        data: { exchangeHoldStatus: "invoiced" },
+      });
+    });
+
+    it("resends the invoice instead of billing twice after a failed send", async () => {
+      admin.graphql.mockResolvedValueOnce(
+        graphqlResponse({
+          draftOrderInvoiceSend: { draftOrder: { id: "gid://shopify/DraftOrder/9" }, userErrors: [] },
+        })
+      );
+
+      await chargeExchangeHold(
+        admin,
+        { ...held, exchangeHoldChargeId: "gid://shopify/DraftOrder/9" },
+        now
+      );
+
+      expect(admin.graphql).toHaveBeenCalledTimes(1);
+      expect(admin.graphql.mock.calls[0][1]).toEqual({
+        variables: { id: "gid://shopify/DraftOrder/9" },
+      });
+    });
+  });
+
+  describe("recordExchangeHoldPaid", () => {
+    it("marks an invoiced hold charged when its invoice is paid", async () => {
+      vi.mocked(db.returnRequest.updateMany).mockResolvedValue({ count: 1 });
+
+      const id = await recordExchangeHoldPaid(
+        mockShop,
+        { tags: "exchange-hold, return:return_123" },
+        now
+      );
+
+      expect(id).toBe("return_123");
+      expect(db.returnRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: "return_123", shop: mockShop, exchangeHoldStatus: "invoiced" },
+        data: { exchangeHoldStatus: "charged", exchangeHoldResolvedAt: now },
+      });
+    });
+
+    it("ignores other orders", async () => {
+      expect(await recordExchangeHoldPaid(mockShop, { tags: "exchange, return:return_123" })).toBeNull();
+      expect(await recordExchangeHoldPaid(mockShop, {})).toBeNull();
+      expect(db.returnRequest.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("processExchangeHolds", () => {
+    it("releases holds for returns that arrived and bills overdue ones", async () => {
+      vi.mocked(db.returnRequest.findMany).mockResolvedValue([
+        createMockReturnRequest({ id: "return_received", status: "received", exchangeHoldStatus: "held" }),
+        createMockReturnRequest({
+          id: "return_overdue",
+          status: "awaiting_shipment",
+          exchangeHoldStatus: "held",
+          exchangeHoldAmount: 50,
+          exchangeHoldChargeId: "gid://shopify/DraftOrder/9",
+        }),
+      ] as never);
+      admin.graphql.mockResolvedValue(
+        graphqlResponse({ draftOrderInvoiceSend: { draftOrder: { id: "gid://shopify/DraftOrder/9" }, userErrors: [] } })
+      );
+      const getAdmin = vi.fn().mockResolvedValue(admin);
+
+      const result = await processExchangeHolds({ getAdmin, now });
+
+      expect(result).toEqual({ checked: 2, released: 1, invoiced: 1, failed: 0 });
+      expect(db.returnRequest.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: "return_received", exchangeHoldStatus: "held" } })
+      );
+      expect(getAdmin).toHaveBeenCalledWith(mockShop);
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import type { ReturnRequest } from "@prisma/client";
+import db from "../db.server";
+import { DRAFT_ORDER_CREATE, DRAFT_ORDER_INVOICE_SEND } from "../graphql/exchange";
+import { completeDraftOrder, type ExchangeOrderResult } from "./exchange.server";
+import { releaseExchangeReservations } from "./reservation.server";
+import type { AdminResolver } from "./tracking.server";
+import { isWithinRiskLevel } from "../utils/risk";
+
+type AdminGraphQL = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "invoiced" once the customer has been sent the bill for items they kept,
+// "charged" once Shopify reports the invoice paid.
+export type ExchangeHoldStatus = "held" | "released" | "invoiced" | "charged";
+
+// Once a return reaches one of these its items are back, so the hold is released.
+const DELIVERED_RETURN_STATUSES = ["received", "inspected", "refunded", "completed"];
+
+export interface InstantExchangeSettings {
+  instantExchangeEnabled: boolean;
+  instantExchangeMaxRiskLevel: string;
+  instantExchangeReturnDays: number;
+}
+
+export interface ExchangeHoldResult {
+  checked: number;
+  released: number;
+  invoiced: number;
+  failed: number;
+}
+
+export async function getInstantExchangeSettings(shop: string): Promise<InstantExchangeSettings> {
+  const settings = await db.shopSettings.findUnique({
+    where: { shop },
+    select: {
+      instantExchangeEnabled: true,
+      instantExchangeMaxRiskLevel: true,
+      instantExchangeReturnDays: true,
+    },
+  });
+
+  return settings ?? {
+    instantExchangeEnabled: false,
+    instantExchangeMaxRiskLevel: "low",
+    instantExchangeReturnDays: 21,
+  };
+}
+
+// Only customers scored at or below the shop's risk threshold get their
+// replacement before sending the original back. Unscored returns, such as
+// those created in Shopify admin, wait like everyone else.
+export function isInstantExchangeEligible(
+  settings: InstantExchangeSettings,
+  returnRequest: Pick<ReturnRequest, "riskScore" | "isReturnless">
+): boolean {
+  return (
+    settings.instantExchangeEnabled &&
+    !returnRequest.isReturnless &&
+    returnRequest.riskScore !== null &&
+    isWithinRiskLevel(returnRequest.riskScore, settings.instantExchangeMaxRiskLevel)
+  );
+}
+
+// Turns the exchange draft into an order so it can be fulfilled now, and
+// holds the value the return paid for it until the original is delivered.
+// The held amount is the return credit Shopify applied to the draft.
+export async function shipInstantExchange(
+  admin: AdminGraphQL,
+  returnRequest: Pick<ReturnRequest, "id">,
+  exchange: ExchangeOrderResult,
+  settings: InstantExchangeSettings,
+  now = new Date()
+): Promise<{ id: string; name: string }> {
+  await releaseExchangeReservations(admin, returnRequest.id, "Exchange order placed");
+
+  const data = await completeDraftOrder(admin, exchange.draftOrder.id, false);
+  const userErrors = data.data?.draftOrderComplete?.userErrors ?? [];
+  const order = data.data?.draftOrderComplete?.draftOrder?.order;
+  if (userErrors.length > 0 || !order) {
+    throw new Error(
+      `The replacement could not be shipped early: ${
+        userErrors[0]?.message ?? "exchange order was not created"
+      }`
+    );
+  }
+
+  await db.returnRequest.update({
+    where: { id: returnRequest.id },
+    data: {
+      exchangeOrderId: order.id,
+      exchangeOrderStatus: "ordered",
+      exchangeOrderUpdatedAt: now,
+      exchangeHoldAmount: exchange.draftOrder.totalDiscount ?? exchange.summary.discountApplied,
+      exchangeHoldStatus: "held",
+      exchangeHoldDueAt: new Date(now.getTime() + settings.instantExchangeReturnDays * DAY_MS),
+      exchangeHoldResolvedAt: null,
+    },
+  });
+
+  return order;
+}
+
+// Called when the original items are delivered back.
+export async function releaseExchangeHold(returnRequestId: string, now = new Date()) {
+  await db.returnRequest.updateMany({
+    where: { id: returnRequestId, exchangeHoldStatus: "held" },
+    data: { exchangeHoldStatus: "released", exchangeHoldResolvedAt: now },
+  });
+}
+
+// Bills the customer for items they kept past the deadline with a Shopify
+// invoice for the held amount. The draft is recorded before the invoice is
+// sent, so a retry after a failed send doesn't bill them twice. The hold stays
+// "invoiced" until recordExchangeHoldPaid sees the invoice paid.
+export async function chargeExchangeHold(
+  admin: AdminGraphQL,
+  returnRequest: Pick<
+    ReturnRequest,
+    "id" | "customerEmail" | "shopifyOrderName" | "exchangeHoldAmount" | "exchangeHoldChargeId"
+  >,
+  now = new Date()
+): Promise<string> {
+  let draftOrderId = returnRequest.exchangeHoldChargeId;
+
+  if (!draftOrderId) {
+    const response = await admin.graphql(DRAFT_ORDER_CREATE, {
+      variables: {
+        input: {
+          email: returnRequest.customerEmail,
+          lineItems: [
+            {
+              title: `Items not returned from order ${returnRequest.shopifyOrderName}`,
+              originalUnitPrice: (returnRequest.exchangeHoldAmount ?? 0).toFixed(2),
+              quantity: 1,
+              requiresShipping: false,
+              taxable: false,
+            },
+          ],
+          note: `Instant exchange for return #${returnRequest.id}: the original items were not returned in time`,
+          tags: ["exchange-hold", `return:${returnRequest.id}`],
+        },
+      },
+    });
+    const data = await response.json();
+    const userErrors = data.data?.draftOrderCreate?.userErrors ?? [];
+    draftOrderId = data.data?.draftOrderCreate?.draftOrder?.id ?? null;
+    if (userErrors.length > 0 || !draftOrderId) {
+      throw new Error(userErrors[0]?.message ?? "Failed to create the charge");
+    }
+
+    await db.returnRequest.update({
+      where: { id: returnRequest.id },
+      data: { exchangeHoldChargeId: draftOrderId },
+    });
+  }
+
+  const response = await admin.graphql(DRAFT_ORDER_INVOICE_SEND, {
+    variables: { id: draftOrderId },
+  });
+  const data = await response.json();
+  const userErrors = data.data?.draftOrderInvoiceSend?.userErrors ?? [];
+  if (userErrors.length > 0) {
+    throw new Error(userErrors[0].message);
+  }
+
+  await db.returnRequest.update({
+    where: { id: returnRequest.id },
+    data: { exchangeHoldStatus: "invoiced" },
+  });
+
+  return draftOrderId as string;
+}
+
+// orders/paid: hold invoices are drafts tagged "exchange-hold" and
+// "return:<id>", and the order the customer pays keeps those tags.
+export async function recordExchangeHoldPaid(
+  shop: string,
+  payload: { tags?: string },
+  now = new Date()
+): Promise<string | null> {
+  const tags = (payload.tags ?? "").split(",").map((tag) => tag.trim());
+  const returnTag = tags.find((tag) => tag.startsWith("return:"));
+  if (!tags.includes("exchange-hold") || !returnTag) {
+    return null;
+  }
+
+  const returnRequestId = returnTag.slice("return:".length);
+  const { count } = await db.returnRequest.updateMany({
+    where: { id: returnRequestId, shop, exchangeHoldStatus: "invoiced" },
+    data: { exchangeHoldStatus: "charged", exchangeHoldResolvedAt: now },
+  });
+  return count > 0 ? returnRequestId : null;
+}
+
+// Scheduled: releases holds whose return has arrived without a tracked
+// delivery (received by hand, say) and invoices customers whose deadline passed.
+export async function processExchangeHolds(
+  options: { getAdmin: AdminResolver; now?: Date; limit?: number }
+): Promise<ExchangeHoldResult> {
+  const now = options.now ?? new Date();
+
+  const holds = await db.returnRequest.findMany({
+    where: {
+      exchangeHoldStatus: "held",
+      OR: [
+        { status: { in: DELIVERED_RETURN_STATUSES } },
+        { exchangeHoldDueAt: { lte: now } },
+      ],
+    },
+    orderBy: { exchangeHoldDueAt: "asc" },
+    take: options.limit ?? 50,
+  });
+
+  const result: ExchangeHoldResult = { checked: holds.length, released: 0, invoiced: 0, failed: 0 };
+
+  for (const returnRequest of holds) {
+    try {
+      if (DELIVERED_RETURN_STATUSES.includes(returnRequest.status)) {
+        await releaseExchangeHold(returnRequest.id, now);
+        result.released++;
+        continue;
+      }
+
+      await chargeExchangeHold(await options.getAdmin(returnRequest.shop), returnRequest, now);
+      result.invoiced++;
+    } catch (error) {
+      console.error(`Failed to settle exchange hold for return ${returnRequest.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import db from "../db.server";
+import { MockProvider, renderMockLabelPdf, setMockProvider } from "./mock-shipping.server";
+import {
+  createReturnLabel,
+  getShippingProvider,
+  voidReturnLabel,
+  type Address,
+} from "./shipping.server";
+import {
+  mockReturnDestination,
+  mockShippingLabel,
+  mockShop,
+  mockShopSettings,
+} from "../../test/fixtures";
+
+vi.mock("./return-lifecycle.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./return-lifecycle.server")>()),
+  transitionReturn: vi.fn(),
+}));
+
+global.fetch = vi.fn();
+
+const fromAddress: Address = {
+  name: "John Doe",
+  street1: "123 Customer St",
+  city: "Los Angeles",
+  state: "CA",
+  zip: "90001",
+  country: "US",
+};
+
+const toAddress: Address = {
+  name: "Returns Warehouse",
+  street1: "456 Warehouse Way",
+  city: "San Francisco",
+  state: "CA",
+  zip: "94102",
+  country: "US",
+};
+
+describe("MockProvider", () => {
+  it("quotes its rate list, charging more for heavier parcels", async () => {
+    const provider = new MockProvider({ labelBaseUrl: "https://app.test/mock-labels" });
+
+    const light = await provider.getRates(fromAddress, toAddress, { weight: 0.5 });
+    const heavy = await provider.getRates(fromAddress, toAddress, { weight: 2.5 });
+
+    expect(light.map((rate) => [rate.carrier, rate.service, rate.amount])).toEqual([
+      ["USPS", "Ground Advantage", 7.5],
+      ["USPS", "Priority Mail", 9.1],
+      ["UPS", "Ground", 11.25],
+    ]);
+    expect(light[0]).toMatchObject({ provider: "mock", shipmentId: "mock_shp_1" });
+    expect(heavy[0].amount).toBe(9);
+  });
+
+  it("issues the same tracking numbers for the same seed", async () => {
+    const first = new MockProvider({ seed: "test", labelBaseUrl: "https://app.test/mock-labels" });
+    const second = new MockProvider({ seed: "test", labelBaseUrl: "https://app.test/mock-labels" });
+
+    const [rate] = await first.getRates(fromAddress, toAddress, { weight: 1 });
+    const label = await first.createLabel(fromAddress, toAddress, { weight: 1 });
+    const again = await second.createLabel(fromAddress, toAddress, { weight: 1 });
+    const next = await first.purchaseLabel(rate);
+
+    expect(label).toMatchObject({
+      success: true,
+      carrier: "USPS",
+      service: "Ground Advantage",
+      cost: 7.5,
+      labelPdfUrl: `https://app.test/mock-labels/${label.trackingNumber}`,
+      transactionId: label.trackingNumber,
+    });
+    expect(label.trackingNumber).toMatch(/^MOCK\d{18}$/);
+    expect(again.trackingNumber).toBe(label.trackingNumber);
+    expect(next.trackingNumber).not.toBe(label.trackingNumber);
+  });
+
+  it("simulates failures until they are cleared", async () => {
+    const provider = new MockProvider({
+      failures: { getRates: "Address not found", voidLabel: "Label already used" },
+    });
+
+    await expect(provider.getRates(fromAddress, toAddress, { weight: 1 })).rejects.toThrow(
+      "Mock provider error: Address not found"
+    );
+    expect(await provider.voidLabel()).toEqual({ success: false, error: "Label already used" });
+
+    provider.simulateFailure("getRates", null);
+    provider.simulateFailure("purchaseLabel", "Insufficient postage balance");
+
+    const [rate] = await provider.getRates(fromAddress, toAddress, { weight: 1 });
+    expect(await provider.purchaseLabel(rate)).toEqual({
+      success: false,
+      error: "Insufficient postage balance",
+    });
+  });
+
+  it("moves a label one tracking step per lookup until its last status", async () => {
+    const provider = new MockProvider({
+      trackingProgression: ["pre_transit", "in_transit", "delivered"],
+      now: () => new Date("2026-02-20T08:00:00Z"),
+    });
+    const label = await provider.createLabel(fromAddress, toAddress, { weight: 1 });
+    const trackingNumber = label.trackingNumber as string;
+
+    const statuses = [];
+    for (let i = 0; i < 4; i++) {
+      statuses.push((await provider.getTracking("USPS", trackingNumber))?.status);
+    }
+
+    expect(statuses).toEqual(["pre_transit", "in_transit", "delivered", "delivered"]);
+    const update = await provider.getTracking("USPS", trackingNumber);
+    expect(update?.checkpoints).toHaveLength(3);
+    expect(update?.checkpoints[2]).toEqual({
+      status: "delivered",
+      carrierStatus: "DELIVERED",
+      description: "Delivered",
+      location: "Mock Sorting Facility",
+      occurredAt: new Date("2026-02-21T08:00:00Z"),
+    });
+    expect(await provider.getTracking("USPS", "9400111899223456789012")).toBeNull();
+  });
+
+  describe("renderMockLabelPdf", () => {
+    it("writes a PDF whose cross-reference table points at its objects", () => {
+      const pdf = Buffer.from(renderMockLabelPdf(["Tracking: MOCK1", "Jane (Apt 2)"])).toString(
+        "latin1"
+      );
+
+      expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+      expect(pdf).toContain("(Jane \\(Apt 2\\)) Tj");
+      const startxref = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+      expect(pdf.slice(startxref, startxref + 4)).toBe("xref");
+      const firstObject = Number(pdf.match(/(\d{10}) 00000 n/)?.[1]);
+      expect(pdf.slice(firstObject, firstObject + 7)).toBe("1 0 obj");
+    });
+  });
+});
+
+describe("Mock shipping mode", () => {
+  let provider: MockProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    provider = new MockProvider({ seed: "test", labelBaseUrl: "https://app.test/mock-labels" });
+    setMockProvider(provider);
+    vi.stubEnv("SHIPPING_PROVIDER", "mock");
+    vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+      ...mockShopSettings,
+      shippoApiKey: "shippo_key",
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    setMockProvider(undefined);
+  });
+
+  it("selects the mock provider outside production", async () => {
+    expect(await getShippingProvider(mockShop)).toBe(provider);
+
+    vi.stubEnv("NODE_ENV", "production");
+    expect((await getShippingProvider(mockShop))?.name).toBe("shippo");
+  });
+
+  it("buys and voids return labels without calling a carrier", async () => {
+    vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+      isReturnless: false,
+      status: "approved",
+    } as never);
+    vi.mocked(db.returnDestination.findFirst).mockResolvedValue(mockReturnDestination);
+    vi.mocked(db.shippingLabel.create).mockResolvedValue({
+      ...mockShippingLabel,
+      id: "label_mock",
+    } as never);
+
+    const result = await createReturnLabel(mockShop, "return_123", fromAddress, { weight: 1 });
+
+    expect(result.success).toBe(true);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(db.shippingLabel.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        provider: "mock",
+        trackingNumber: result.trackingNumber,
+        shippoTransactionId: null,
+        easypostShipmentId: null,
+      }),
+    });
+
+    const created = vi.mocked(db.shippingLabel.create).mock.calls[0][0].data;
+    vi.mocked(db.shippingLabel.findUnique).mockResolvedValue({
+      ...mockShippingLabel,
+      ...created,
+      id: "label_mock",
+      returnRequest: { shop: mockShop },
+    } as never);
+
+    expect(await voidReturnLabel(mockShop, "label_mock", "Testing")).toEqual({
+      success: true,
+      status: "voided",
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import { createHash } from "node:crypto";
+import type {
+  Address,
+  LabelResult,
+  Parcel,
+  ShippingProvider,
+  ShippingRate,
+  TrackingCheckpointData,
+  TrackingUpdate,
+  VoidResult,
+} from "./shipping.server";
+import type { TrackingStatus } from "../utils/tracking";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type MockOperation =
+  | "validateApiKey"
+  | "getRates"
+  | "purchaseLabel"
+  | "getTracking"
+  | "voidLabel";
+
+export interface MockRate {
+  carrier: string;
+  service: string;
+  serviceToken: string | null;
+  // Price for a parcel of up to 1 lb
+  amount: number;
+  estimatedDays: number | null;
+}
+
+export const DEFAULT_MOCK_RATES: MockRate[] = [
+  {
+    carrier: "USPS",
+    service: "Ground Advantage",
+    serviceToken: "usps_ground_advantage",
+    amount: 7.5,
+    estimatedDays: 5,
+  },
+  {
+    carrier: "USPS",
+    service: "Priority Mail",
+    serviceToken: "usps_priority",
+    amount: 9.1,
+    estimatedDays: 2,
+  },
+  { carrier: "UPS", service: "Ground", serviceToken: "ups_ground", amount: 11.25, estimatedDays: 4 },
+];
+
+export const DEFAULT_MOCK_PROGRESSION: TrackingStatus[] = [
+  "pre_transit",
+  "in_transit",
+  "out_for_delivery",
+  "delivered",
+];
+
+const checkpointDescriptions: Record<TrackingStatus, string> = {
+  pre_transit: "Shipping label created",
+  in_transit: "Accepted at origin facility",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  returned: "Returned to sender",
+  failure: "Delivery attempted, no access to building",
+  unknown: "Status not available",
+};
+
+export interface MockProviderOptions {
+  rates?: MockRate[];
+  // Operations that should fail, with the error they fail with
+  failures?: Partial<Record<MockOperation, string>>;
+  // Statuses a label moves through, one step per getTracking call
+  trackingProgression?: TrackingStatus[];
+  // Refunds are confirmed straight away unless this is "pending"
+  voidStatus?: "pending" | "voided";
+  // Mixed into tracking numbers so separate runs don't reuse them
+  seed?: string;
+  // Where placeholder labels are served, e.g. https://app.example.com/mock-labels
+  labelBaseUrl?: string;
+  now?: () => Date;
+}
+
+// Stands in for Shippo and EasyPost in development and tests. Nothing leaves
+// the process: rates come from a fixed list, tracking numbers are derived
+// from the seed and the order labels are bought in, and each tracking lookup
+// moves the label one step further along its progression.
+export class MockProvider implements ShippingProvider {
+  name = "mock";
+  private rates: MockRate[];
+  private failures: Partial<Record<MockOperation, string>>;
+  private trackingProgression: TrackingStatus[];
+  private voidStatus: "pending" | "voided";
+  private seed: string;
+  private labelBaseUrl: string;
+  private now: () => Date;
+  private shipmentSequence = 0;
+  private labelSequence = 0;
+  private labels = new Map<string, { carrier: string; purchasedAt: Date; step: number }>();
+
+  constructor(options: MockProviderOptions = {}) {
+    this.rates = options.rates ?? DEFAULT_MOCK_RATES;
+    this.failures = options.failures ?? {};
+    this.trackingProgression = options.trackingProgression ?? DEFAULT_MOCK_PROGRESSION;
+    this.voidStatus = options.voidStatus ?? "voided";
+    this.seed = options.seed ?? "";
+    this.labelBaseUrl =
+      options.labelBaseUrl ?? `${process.env.SHOPIFY_APP_URL ?? ""}/mock-labels`;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  // Makes an operation fail from now on, or succeed again when error is null.
+  simulateFailure(operation: MockOperation, error: string | null) {
+    if (error === null) {
+      delete this.failures[operation];
+    } else {
+      this.failures[operation] = error;
+    }
+  }
+
+  private trackingNumberFor(sequence: number): string {
+    const digest = createHash("sha256").update(`${this.seed}:${sequence}`).digest("hex");
+    const digits = BigInt(`0x${digest.slice(0, 15)}`).toString().padStart(18, "0").slice(-18);
+    return `MOCK${digits}`;
+  }
+
+  async validateApiKey(): Promise<boolean> {
+    return !this.failures.validateApiKey;
+  }
+
+  // Every route is quoted the same; only the parcel weight changes the price.
+  async getRates(fromAddress: Address, toAddress: Address, parcel: Parcel): Promise<ShippingRate[]> {
+    if (this.failures.getRates) {
+      throw new Error(`Mock provider error: ${this.failures.getRates}`);
+    }
+
+    const shipmentId = `mock_shp_${++this.shipmentSequence}`;
+    // Each pound over the first adds 75 cents, so heavier parcels cost more.
+    const surcharge = Math.max(0, Math.ceil(parcel.weight) - 1) * 0.75;
+
+    return this.rates.map((rate, index) => ({
+      provider: this.name,
+      rateId: `${shipmentId}_rate_${index + 1}`,
+      shipmentId,
+      carrier: rate.carrier,
+      service: rate.service,
+      serviceToken: rate.serviceToken,
+      amount: Math.round((rate.amount + surcharge) * 100) / 100,
+      currency: "USD",
+      estimatedDays: rate.estimatedDays,
+    }));
+  }
+
+  // QR codes aren't simulated; every mock label is a printable PDF.
+  async purchaseLabel(rate: ShippingRate): Promise<LabelResult> {
+    if (this.failures.purchaseLabel) {
+      return { success: false, error: this.failures.purchaseLabel };
+    }
+
+    const trackingNumber = this.trackingNumberFor(++this.labelSequence);
+    this.labels.set(trackingNumber, { carrier: rate.carrier, purchasedAt: this.now(), step: 0 });
+    const labelUrl = `${this.labelBaseUrl}/${trackingNumber}`;
+
+    return {
+      success: true,
+      carrier: rate.carrier,
+      service: rate.service,
+      trackingNumber,
+      labelUrl,
+      labelPdfUrl: labelUrl,
+      // Tracking numbers double as the id labels are refunded under.
+      transactionId: trackingNumber,
+      cost: rate.amount,
+    };
+  }
+
+  async createLabel(fromAddress: Address, toAddress: Address, parcel: Parcel): Promise<LabelResult> {
+    try {
+      const rates = await this.getRates(fromAddress, toAddress, parcel);
+      const cheapest = [...rates].sort((a, b) => a.amount - b.amount)[0];
+
+      if (!cheapest) {
+        return { success: false, error: "No shipping rates available" };
+      }
+
+      return this.purchaseLabel(cheapest);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error creating label",
+      };
+    }
+  }
+
+  async getTracking(carrier: string, trackingNumber: string): Promise<TrackingUpdate | null> {
+    if (this.failures.getTracking) {
+      throw new Error(`Mock provider error: ${this.failures.getTracking}`);
+    }
+
+    // Labels bought before a restart are picked up where they would start.
+    let label = this.labels.get(trackingNumber);
+    if (!label) {
+      if (!trackingNumber.startsWith("MOCK")) {
+        return null;
+      }
+      label = { carrier, purchasedAt: this.now(), step: 0 };
+      this.labels.set(trackingNumber, label);
+    }
+
+    label.step = Math.min(label.step + 1, this.trackingProgression.length);
+    const purchasedAt = label.purchasedAt.getTime();
+    const checkpoints: TrackingCheckpointData[] = this.trackingProgression
+      .slice(0, label.step)
+      .map((status, index) => ({
+        status,
+        carrierStatus: status.toUpperCase(),
+        description: checkpointDescriptions[status],
+        location: index === 0 ? null : "Mock Sorting Facility",
+        occurredAt: new Date(purchasedAt + index * 12 * HOUR_MS),
+      }));
+
+    return {
+      trackingNumber,
+      carrier: label.carrier,
+      status: checkpoints[checkpoints.length - 1]?.status ?? "unknown",
+      checkpoints,
+    };
+  }
+
+  async voidLabel(): Promise<VoidResult> {
+    if (this.failures.voidLabel) {
+      return { success: false, error: this.failures.voidLabel };
+    }
+    return { success: true, status: this.voidStatus };
+  }
+}
+
+// Development and test setups can set SHIPPING_PROVIDER=mock to buy every
+// label from MockProvider instead of Shippo or EasyPost. Ignored in
+// production.
+export function isMockShippingEnabled(): boolean {
+  return process.env.SHIPPING_PROVIDER === "mock" && process.env.NODE_ENV !== "production";
+}
+
+let mockProvider: MockProvider | undefined;
+
+export function getMockProvider(): MockProvider {
+  if (!mockProvider) {
+    mockProvider = new MockProvider({
+      seed: process.env.MOCK_SHIPPING_SEED ?? Date.now().toString(36),
+    });
+  }
+  return mockProvider;
+}
+
+export function setMockProvider(next: MockProvider | undefined) {
+  mockProvider = next;
+}
+
+function pdfText(value: string): string {
+  return value
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+// A 4x6 inch PDF with the given lines, clearly marked as not valid for
+// shipping. Built by hand so development needs no PDF library.
+export function renderMockLabelPdf(lines: string[]): Uint8Array<ArrayBuffer> {
+  const text = [
+    "BT",
+    "/F1 16 Tf",
+    "18 400 Td",
+    "(SAMPLE LABEL - NOT VALID FOR SHIPPING) Tj",
+    "/F1 11 Tf",
+    "16 TL",
+    "T* T*",
+    ...lines.map((line) => `(${pdfText(line)}) Tj T*`),
+    "ET",
+  ].join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 288 432] /Contents 4 0 R " +
+      "/Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${Buffer.byteLength(text, "latin1")} >>\nstream\n${text}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, "latin1"));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(pdf, "latin1"));
+}
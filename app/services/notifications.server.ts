@@ -12,6 +12,8 @@ export interface ReturnNotificationData {
   shopName: string;
   trackingUrl?: string;
   labelUrl?: string;
+  // Printerless alternative to labelUrl
+  qrCodeUrl?: string;
 }
 
 const DEFAULT_FROM_EMAIL = "noreply@returns-hub.app";
@@ -197,16 +199,24 @@ function generateReturnApprovedEmail(data: ReturnNotificationData): {
   html: string;
   text: string;
 } {
-  const { returnRequest, shopName, labelUrl } = data;
+  const { returnRequest, shopName, labelUrl, qrCodeUrl } = data;
 
   const labelSection = labelUrl
     ? `\n\nYour prepaid shipping label is ready: ${labelUrl}\n\nPlease print the label and attach it to your package.`
     : "";
 
+  const qrCodeSection = qrCodeUrl
+    ? `\n\nNo printer? Show this QR code at the drop-off location and they will print the label for you: ${qrCodeUrl}`
+    : "";
+
   const labelHtml = labelUrl
     ? `<div style="background: #e8f5e9; padding: 16px; border-radius: 8px; margin: 20px 0;"><p style="margin: 0 0 8px;"><strong>Your prepaid shipping label is ready!</strong></p><a href="${labelUrl}" style="display: inline-block; background: #000; color: #fff; padding: 12px 24px; text-decoration: none; border-radius: 4px;">Download Shipping Label</a></div>`
     : "";
 
+  const qrCodeHtml = qrCodeUrl
+    ? `<div style="background: #f8f8f8; padding: 16px; border-radius: 8px; margin: 20px 0; text-align: center;"><p style="margin: 0 0 8px;"><strong>No printer? No problem.</strong></p><p style="margin: 0 0 12px;">Show this QR code at the drop-off location and they will print the label for you.</p><img src="${qrCodeUrl}" alt="Return label QR code" width="200" height="200" style="display: inline-block;" /></div>`
+    : "";
+
   return {
     subject: `Return Approved - ${returnRequest.shopifyOrderName}`,
     text: `
@@ -218,7 +228,7 @@ Great news! Your return request for order ${returnRequest.shopifyOrderName} has
 
 Return ID: ${returnRequest.id}
 Total Refund Amount: ${formatCurrency(returnRequest.totalRefundAmount)}
-${labelSection}
+${labelSection}${qrCodeSection}
 
 Next Steps:
 1. Pack your items securely in a box or padded envelope.
@@ -249,6 +259,8 @@ Thank you for shopping with ${shopName}!
   
   ${labelHtml}
   
+  ${qrCodeHtml}
+  
   <h2 style="font-size: 18px; margin-top: 24px;">Next Steps</h2>
   <ol style="padding-left: 20px;">
     <li>Pack your items securely in a box or padded envelope.</li>
@@ -371,6 +383,118 @@ Thank you for shopping with ${shopName}!
   };
 }
 
+function generateReturnlessEmail(data: ReturnNotificationData): {
+  subject: string;
+  html: string;
+  text: string;
+} {
+  const { returnRequest, shopName } = data;
+  const itemsList = returnRequest.items
+    .map((item) => `- ${item.title} (Qty: ${item.quantity})`)
+    .join("\n");
+  const itemsHtml = returnRequest.items
+    .map((item) => `<li>${item.title} (Qty: ${item.quantity})</li>`)
+    .join("");
+
+  return {
+    subject: `Keep the Item - ${returnRequest.shopifyOrderName}`,
+    text: `
+No Need to Send It Back
+
+Hi ${returnRequest.customerName},
+
+Good news! Your return has been approved and you don't need to ship anything back. Please keep, donate or recycle the item.
+
+Return ID: ${returnRequest.id}
+Order: ${returnRequest.shopifyOrderName}
+Refund Amount: ${formatCurrency(returnRequest.totalRefundAmount)}
+
+Items:
+${itemsList}
+
+Your refund will be issued to your original payment method shortly.
+
+Thank you for shopping with ${shopName}!
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h1 style="color: #22c55e; font-size: 24px; margin-bottom: 20px;">No Need to Send It Back</h1>
+  
+  <p>Hi ${returnRequest.customerName},</p>
+  
+  <p>Good news! Your return has been approved and you don't need to ship anything back. Please keep, donate or recycle the item.</p>
+  
+  <div style="background: #e8f5e9; padding: 16px; border-radius: 8px; margin: 20px 0;">
+    <p style="margin: 0 0 8px;"><strong>Return ID:</strong> ${returnRequest.id}</p>
+    <p style="margin: 0 0 8px;"><strong>Order:</strong> ${returnRequest.shopifyOrderName}</p>
+    <p style="margin: 0; font-size: 20px;"><strong>Refund Amount:</strong> ${formatCurrency(returnRequest.totalRefundAmount)}</p>
+  </div>
+  
+  <h2 style="font-size: 18px; margin-top: 24px;">Items</h2>
+  <ul style="padding-left: 20px;">${itemsHtml}</ul>
+  
+  <p>Your refund will be issued to your original payment method shortly.</p>
+  
+  <p style="margin-top: 24px; color: #666;">Thank you for shopping with ${shopName}!</p>
+</body>
+</html>
+    `.trim(),
+  };
+}
+
+function generateLabelExpiredEmail(data: ReturnNotificationData & { expiryDays: number }): {
+  subject: string;
+  html: string;
+  text: string;
+} {
+  const { returnRequest, shopName, expiryDays } = data;
+
+  return {
+    subject: `Your Return Label Has Expired - ${returnRequest.shopifyOrderName}`,
+    text: `
+Your Return Label Has Expired
+
+Hi ${returnRequest.customerName},
+
+The prepaid shipping label for your return on order ${returnRequest.shopifyOrderName} wasn't used within ${expiryDays} days, so we've cancelled it. Please don't use the old label.
+
+Return ID: ${returnRequest.id}
+
+If you'd still like to send your items back, reply to this email or contact our customer support team and we'll send you a new label.
+
+Thank you for shopping with ${shopName}.
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h1 style="color: #000; font-size: 24px; margin-bottom: 20px;">Your Return Label Has Expired</h1>
+  
+  <p>Hi ${returnRequest.customerName},</p>
+  
+  <p>The prepaid shipping label for your return on order <strong>${returnRequest.shopifyOrderName}</strong> wasn't used within ${expiryDays} days, so we've cancelled it. Please don't use the old label.</p>
+  
+  <p style="color: #666;">Return ID: ${returnRequest.id}</p>
+  
+  <p>If you'd still like to send your items back, reply to this email or contact our customer support team and we'll send you a new label.</p>
+  
+  <p style="margin-top: 24px; color: #666;">Thank you for shopping with ${shopName}.</p>
+</body>
+</html>
+    `.trim(),
+  };
+}
+
 export async function sendReturnConfirmation(data: ReturnNotificationData): Promise<boolean> {
   const email = generateReturnConfirmationEmail(data);
   return sendEmail(data.returnRequest.customerEmail, email.subject, email.html, email.text);
@@ -391,6 +515,18 @@ export async function sendReturnCompleted(data: ReturnNotificationData): Promise
   return sendEmail(data.returnRequest.customerEmail, email.subject, email.html, email.text);
 }
 
+export async function sendReturnlessRefund(data: ReturnNotificationData): Promise<boolean> {
+  const email = generateReturnlessEmail(data);
+  return sendEmail(data.returnRequest.customerEmail, email.subject, email.html, email.text);
+}
+
+export async function sendLabelExpired(
+  data: ReturnNotificationData & { expiryDays: number }
+): Promise<boolean> {
+  const email = generateLabelExpiredEmail(data);
+  return sendEmail(data.returnRequest.customerEmail, email.subject, email.html, email.text);
+}
+
 export interface StoreCreditNotificationData {
   customerEmail: string;
   customerName: string;
@@ -497,6 +633,122 @@ export async function sendStoreCreditNotification(data: StoreCreditNotificationD
   return sendEmail(data.customerEmail, email.subject, email.html, email.text);
 }
 
+export interface ExchangePaymentNotificationData {
+  customerEmail: string;
+  customerName: string;
+  shopName: string;
+  orderName: string;
+  amountDue: number;
+  invoiceUrl: string | null;
+  dueOn: string;
+}
+
+function generateExchangePaymentReminderEmail(data: ExchangePaymentNotificationData): {
+  subject: string;
+  html: string;
+  text: string;
+} {
+  const { customerName, shopName, orderName, amountDue, invoiceUrl, dueOn } = data;
+  const payText = invoiceUrl
+    ? `Pay the difference here: ${invoiceUrl}`
+    : "Use the link in your invoice email to pay the difference.";
+  const payHtml = invoiceUrl
+    ? `<p style="margin: 24px 0;"><a href="${invoiceUrl}" style="background: #000; color: #fff; padding: 12px 24px; border-radius: 6px; text-decoration: none;">Pay ${formatCurrency(amountDue)}</a></p>`
+    : `<p>Use the link in your invoice email to pay the difference.</p>`;
+
+  return {
+    subject: `Payment Needed for Your Exchange - ${orderName}`,
+    text: `
+Payment Needed for Your Exchange
+
+Hi ${customerName},
+
+Your exchange for order ${orderName} costs ${formatCurrency(amountDue)} more than the items you're returning, and we haven't received the payment yet.
+
+${payText}
+
+If it isn't paid by ${dueOn}, we'll cancel the exchange and give you store credit for your return instead.
+
+Thank you for shopping with ${shopName}.
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h1 style="color: #000; font-size: 24px; margin-bottom: 20px;">Payment Needed for Your Exchange</h1>
+  
+  <p>Hi ${customerName},</p>
+  
+  <p>Your exchange for order <strong>${orderName}</strong> costs ${formatCurrency(amountDue)} more than the items you're returning, and we haven't received the payment yet.</p>
+  
+  ${payHtml}
+  
+  <p>If it isn't paid by <strong>${dueOn}</strong>, we'll cancel the exchange and give you store credit for your return instead.</p>
+  
+  <p style="margin-top: 24px; color: #666;">Thank you for shopping with ${shopName}.</p>
+</body>
+</html>
+    `.trim(),
+  };
+}
+
+function generateExchangeCancelledEmail(data: ExchangePaymentNotificationData): {
+  subject: string;
+  html: string;
+  text: string;
+} {
+  const { customerName, shopName, orderName, dueOn } = data;
+
+  return {
+    subject: `Your Exchange Was Cancelled - ${orderName}`,
+    text: `
+Your Exchange Was Cancelled
+
+Hi ${customerName},
+
+We didn't receive payment for your exchange on order ${orderName} by ${dueOn}, so we've cancelled it. You'll get store credit for your return instead, and we'll email you the code when it's issued.
+
+If you have any questions, reply to this email or contact our customer support team.
+
+Thank you for shopping with ${shopName}.
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h1 style="color: #000; font-size: 24px; margin-bottom: 20px;">Your Exchange Was Cancelled</h1>
+  
+  <p>Hi ${customerName},</p>
+  
+  <p>We didn't receive payment for your exchange on order <strong>${orderName}</strong> by ${dueOn}, so we've cancelled it. You'll get store credit for your return instead, and we'll email you the code when it's issued.</p>
+  
+  <p>If you have any questions, reply to this email or contact our customer support team.</p>
+  
+  <p style="margin-top: 24px; color: #666;">Thank you for shopping with ${shopName}.</p>
+</body>
+</html>
+    `.trim(),
+  };
+}
+
+export async function sendExchangePaymentReminder(data: ExchangePaymentNotificationData): Promise<boolean> {
+  const email = generateExchangePaymentReminderEmail(data);
+  return sendEmail(data.customerEmail, email.subject, email.html, email.text);
+}
+
+export async function sendExchangeCancelled(data: ExchangePaymentNotificationData): Promise<boolean> {
+  const email = generateExchangeCancelledEmail(data);
+  return sendEmail(data.customerEmail, email.subject, email.html, email.text);
+}
+
 export async function notifyMerchantNewReturn(
   merchantEmail: string,
   data: ReturnNotificationData
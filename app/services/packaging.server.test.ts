@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
+import {
+  addPackagingPreset,
+  billableWeight,
+  fetchVariantWeights,
+  planParcels,
+  planReturnParcels,
+} from "./packaging.server";
+import { mockPackagingPreset, mockReturnItem, mockShop } from "../../test/fixtures";
+
+const smallBox = {
+  ...mockPackagingPreset,
+  name: "Small box",
+  length: 8,
+  width: 6,
+  height: 4,
+  maxWeight: 5,
+  boxWeight: 0.25,
+};
+const largeBox = {
+  ...mockPackagingPreset,
+  name: "Large box",
+  length: 24,
+  width: 18,
+  height: 12,
+  maxWeight: 40,
+  boxWeight: 1.5,
+};
+
+describe("Packaging Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("billableWeight", () => {
+    it("charges the dimensional weight of light, bulky parcels", () => {
+      expect(billableWeight({ weight: 2, length: 24, width: 18, height: 12 })).toBe(37.29);
+      expect(billableWeight({ weight: 2, length: 8, width: 6, height: 4 })).toBe(2);
+      expect(billableWeight({ weight: 2 })).toBe(2);
+    });
+  });
+
+  describe("planParcels", () => {
+    it("packs light returns in the box that bills least", () => {
+      const parcels = planParcels(
+        [
+          { returnItemId: "item_1", weight: 1.5 },
+          { returnItemId: "item_1", weight: 1.5 },
+        ],
+        [largeBox, smallBox]
+      );
+
+      expect(parcels).toEqual([
+        {
+          parcel: { weight: 3.25, length: 8, width: 6, height: 4 },
+          packaging: "Small box",
+          contents: [{ returnItemId: "item_1", quantity: 2 }],
+        },
+      ]);
+    });
+
+    it("splits returns heavier than the largest box across parcels", () => {
+      const parcels = planParcels(
+        [
+          { returnItemId: "item_1", weight: 20 },
+          { returnItemId: "item_1", weight: 20 },
+          { returnItemId: "item_2", weight: 3 },
+        ],
+        [smallBox, largeBox]
+      );
+
+      expect(parcels).toHaveLength(2);
+      expect(parcels[0]).toMatchObject({
+        parcel: { weight: 24.5 },
+        packaging: "Large box",
+        contents: [
+          { returnItemId: "item_1", quantity: 1 },
+          { returnItemId: "item_2", quantity: 1 },
+        ],
+      });
+      expect(parcels[1]).toMatchObject({
+        parcel: { weight: 21.5 },
+        packaging: "Large box",
+        contents: [{ returnItemId: "item_1", quantity: 1 }],
+      });
+    });
+
+    it("sends everything as one undimensioned parcel without presets", () => {
+      expect(
+        planParcels(
+          [
+            { returnItemId: "item_1", weight: 30 },
+            { returnItemId: "item_2", weight: 25.5 },
+          ],
+          []
+        )
+      ).toEqual([
+        {
+          parcel: { weight: 55.5 },
+          packaging: null,
+          contents: [
+            { returnItemId: "item_1", quantity: 1 },
+            { returnItemId: "item_2", quantity: 1 },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe("fetchVariantWeights", () => {
+    it("converts Shopify weights to pounds and skips variants without one", async () => {
+      const admin = {
+        graphql: vi.fn().mockResolvedValue({
+          json: async () => ({
+            data: {
+              nodes: [
+                {
+                  id: "gid://shopify/ProductVariant/1",
+                  inventoryItem: { measurement: { weight: { unit: "KILOGRAMS", value: 2 } } },
+                },
+                {
+                  id: "gid://shopify/ProductVariant/2",
+                  inventoryItem: { measurement: { weight: { unit: "OUNCES", value: 8 } } },
+                },
+                {
+                  id: "gid://shopify/ProductVariant/3",
+                  inventoryItem: { measurement: { weight: { unit: "GRAMS", value: 0 } } },
+                },
+              ],
+            },
+          }),
+        }),
+      };
+
+      const weights = await fetchVariantWeights(admin, [
+        "gid://shopify/ProductVariant/1",
+        "gid://shopify/ProductVariant/2",
+        "gid://shopify/ProductVariant/3",
+      ]);
+
+      expect(weights).toEqual(
+        new Map([
+          ["gid://shopify/ProductVariant/1", 4.41],
+          ["gid://shopify/ProductVariant/2", 0.5],
+        ])
+      );
+    });
+  });
+
+  describe("planReturnParcels", () => {
+    it("weighs each unit of the shipment's items", async () => {
+      vi.mocked(db.returnItem.findMany).mockResolvedValue([
+        {
+          ...mockReturnItem,
+          id: "item_1",
+          shopifyVariantId: "gid://shopify/ProductVariant/1",
+          quantity: 2,
+        },
+        { ...mockReturnItem, id: "item_2", shopifyVariantId: null, quantity: 1 },
+      ]);
+      vi.mocked(db.packagingPreset.findMany).mockResolvedValue([smallBox]);
+      const admin = {
+        graphql: vi.fn().mockResolvedValue({
+          json: async () => ({
+            data: {
+              nodes: [
+                {
+                  id: "gid://shopify/ProductVariant/1",
+                  inventoryItem: { measurement: { weight: { unit: "POUNDS", value: 1.5 } } },
+                },
+              ],
+            },
+          }),
+        }),
+      };
+
+      const parcels = await planReturnParcels(mockShop, "return_123", {
+        shipmentId: "shipment_1",
+        admin,
+      });
+
+      expect(db.returnItem.findMany).toHaveBeenCalledWith({
+        where: { returnRequestId: "return_123", shipmentId: "shipment_1" },
+        orderBy: { createdAt: "asc" },
+      });
+      // 1.5 + 1.5 + 1 (default) lb fits the small box's 4.75 lb of room
+      expect(parcels).toEqual([
+        expect.objectContaining({
+          parcel: expect.objectContaining({ weight: 4.25 }),
+          packaging: "Small box",
+        }),
+      ]);
+    });
+  });
+
+  describe("addPackagingPreset", () => {
+    it("rejects a name the shop already uses", async () => {
+      vi.mocked(db.packagingPreset.findFirst).mockResolvedValue(mockPackagingPreset);
+
+      await expect(
+        addPackagingPreset(mockShop, { ...smallBox, name: " medium box " })
+      ).rejects.toThrow("A packaging preset named medium box already exists");
+      expect(db.packagingPreset.create).not.toHaveBeenCalled();
+    });
+  });
+});
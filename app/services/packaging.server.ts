@@ -0,0 +1,252 @@
+import type { PackagingPreset } from "@prisma/client";
+import db from "../db.server";
+import type { Parcel } from "./shipping.server";
+
+type AdminGraphQL = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+// Assumed for variants without a shipping weight in Shopify
+export const DEFAULT_UNIT_WEIGHT_LB = 1;
+
+// Cubic inches per pound that USPS, UPS and FedEx use for domestic
+// dimensional weight.
+export const DIM_DIVISOR = 139;
+
+const POUNDS_PER_UNIT: Record<string, number> = {
+  POUNDS: 1,
+  OUNCES: 1 / 16,
+  KILOGRAMS: 2.20462,
+  GRAMS: 0.00220462,
+};
+
+const GET_VARIANT_WEIGHTS = `#graphql
+  query GetVariantWeights($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        inventoryItem {
+          measurement {
+            weight {
+              unit
+              value
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export type PackagingBox = Pick<
+  PackagingPreset,
+  "name" | "length" | "width" | "height" | "maxWeight" | "boxWeight"
+>;
+
+// One unit of a returned item, as it is packed
+export interface ParcelUnit {
+  returnItemId: string;
+  weight: number;
+}
+
+export interface ParcelContents {
+  returnItemId: string;
+  quantity: number;
+}
+
+export interface PlannedParcel {
+  parcel: Parcel;
+  // Preset the parcel is packed in; null when the shop has none
+  packaging: string | null;
+  contents: ParcelContents[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function dimensionalWeight(parcel: Parcel): number {
+  if (!parcel.length || !parcel.width || !parcel.height) {
+    return 0;
+  }
+  return round((parcel.length * parcel.width * parcel.height) / DIM_DIVISOR);
+}
+
+// What carriers charge for: the greater of actual and dimensional weight.
+export function billableWeight(parcel: Parcel): number {
+  return Math.max(parcel.weight, dimensionalWeight(parcel));
+}
+
+// Shipping weights in pounds for the given variant GIDs. Variants without a
+// weight are left out.
+export async function fetchVariantWeights(
+  admin: AdminGraphQL,
+  variantIds: string[]
+): Promise<Map<string, number>> {
+  const weights = new Map<string, number>();
+  if (variantIds.length === 0) {
+    return weights;
+  }
+
+  const response = await admin.graphql(GET_VARIANT_WEIGHTS, {
+    variables: { ids: [...new Set(variantIds)] },
+  });
+  const { data } = await response.json();
+
+  for (const node of data?.nodes ?? []) {
+    const weight = node?.inventoryItem?.measurement?.weight;
+    const perUnit = weight ? POUNDS_PER_UNIT[weight.unit] : undefined;
+    if (!node?.id || !perUnit || !(weight.value > 0)) continue;
+    weights.set(node.id, round(weight.value * perUnit));
+  }
+
+  return weights;
+}
+
+function packedParcel(box: PackagingBox, contentsWeight: number): Parcel {
+  return {
+    weight: round(contentsWeight + box.boxWeight),
+    length: box.length,
+    width: box.width,
+    height: box.height,
+  };
+}
+
+// Of the boxes the contents fit in, the one that bills lightest, then the
+// smallest. Contents too heavy for every box go in the strongest one.
+function chooseBox(boxes: PackagingBox[], contentsWeight: number): PackagingBox {
+  const fitting = boxes.filter((box) => contentsWeight + box.boxWeight <= box.maxWeight);
+
+  if (fitting.length === 0) {
+    return boxes.reduce((best, box) =>
+      box.maxWeight - box.boxWeight > best.maxWeight - best.boxWeight ? box : best
+    );
+  }
+
+  const volume = (box: PackagingBox) => box.length * box.width * box.height;
+  return fitting.reduce((best, box) => {
+    const difference =
+      billableWeight(packedParcel(box, contentsWeight)) -
+      billableWeight(packedParcel(best, contentsWeight));
+    return difference < 0 || (difference === 0 && volume(box) < volume(best)) ? box : best;
+  });
+}
+
+// Packs units by weight, heaviest first, into as few parcels as the largest
+// box allows, then rates each parcel in the box that suits it best. Item
+// dimensions aren't known, so only weight decides what fits. A unit heavier
+// than any box still gets a parcel of its own.
+export function planParcels(units: ParcelUnit[], boxes: PackagingBox[]): PlannedParcel[] {
+  const totalWeight = units.reduce((sum, unit) => sum + unit.weight, 0);
+
+  if (units.length === 0 || boxes.length === 0) {
+    return [
+      {
+        parcel: { weight: round(totalWeight) || DEFAULT_UNIT_WEIGHT_LB },
+        packaging: null,
+        contents: summarizeContents(units),
+      },
+    ];
+  }
+
+  const capacity = Math.max(...boxes.map((box) => box.maxWeight - box.boxWeight));
+  const bins: Array<{ weight: number; units: ParcelUnit[] }> = [];
+
+  for (const unit of [...units].sort((a, b) => b.weight - a.weight)) {
+    const bin = bins.find((candidate) => candidate.weight + unit.weight <= capacity);
+    if (bin) {
+      bin.weight += unit.weight;
+      bin.units.push(unit);
+    } else {
+      bins.push({ weight: unit.weight, units: [unit] });
+    }
+  }
+
+  return bins.map((bin) => {
+    const box = chooseBox(boxes, bin.weight);
+    return {
+      parcel: packedParcel(box, bin.weight),
+      packaging: box.name,
+      contents: summarizeContents(bin.units),
+    };
+  });
+}
+
+function summarizeContents(units: ParcelUnit[]): ParcelContents[] {
+  const quantities = new Map<string, number>();
+  for (const unit of units) {
+    quantities.set(unit.returnItemId, (quantities.get(unit.returnItemId) ?? 0) + 1);
+  }
+  return [...quantities].map(([returnItemId, quantity]) => ({ returnItemId, quantity }));
+}
+
+// Plans the parcels for a return, or for one of its shipments, from the
+// variants' Shopify weights and the shop's packaging presets. Without an
+// admin client every unit is assumed to weigh the default.
+export async function planReturnParcels(
+  shop: string,
+  returnRequestId: string,
+  options: { shipmentId?: string; admin?: AdminGraphQL } = {}
+): Promise<PlannedParcel[]> {
+  const [items, boxes] = await Promise.all([
+    db.returnItem.findMany({
+      where: options.shipmentId
+        ? { returnRequestId, shipmentId: options.shipmentId }
+        : { returnRequestId },
+      orderBy: { createdAt: "asc" },
+    }),
+    db.packagingPreset.findMany({ where: { shop } }),
+  ]);
+
+  let weights = new Map<string, number>();
+  if (options.admin) {
+    try {
+      weights = await fetchVariantWeights(
+        options.admin,
+        items.map((item) => item.shopifyVariantId).filter((id): id is string => Boolean(id))
+      );
+    } catch (error) {
+      console.error(`Failed to look up variant weights for return ${returnRequestId}:`, error);
+    }
+  }
+
+  const units = items.flatMap((item) => {
+    const weight =
+      (item.shopifyVariantId && weights.get(item.shopifyVariantId)) || DEFAULT_UNIT_WEIGHT_LB;
+    return Array.from({ length: item.quantity }, () => ({ returnItemId: item.id, weight }));
+  });
+
+  return planParcels(units, boxes);
+}
+
+export async function getPackagingPresets(shop: string) {
+  return db.packagingPreset.findMany({
+    where: { shop },
+    orderBy: { name: "asc" },
+  });
+}
+
+export async function addPackagingPreset(shop: string, data: PackagingBox) {
+  const name = data.name.trim();
+
+  const existing = await db.packagingPreset.findFirst({
+    where: { shop, name: { equals: name, mode: "insensitive" } },
+  });
+  if (existing) {
+    throw new Error(`A packaging preset named ${name} already exists`);
+  }
+
+  return db.packagingPreset.create({
+    data: { ...data, shop, name },
+  });
+}
+
+export async function removePackagingPreset(shop: string, id: string) {
+  const result = await db.packagingPreset.deleteMany({
+    where: { id, shop },
+  });
+
+  if (result.count === 0) {
+    throw new Error("Packaging preset not found");
+  }
+}
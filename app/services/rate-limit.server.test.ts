@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
+import {
+  DatabaseRateLimitStore,
+  MemoryRateLimitStore,
+  checkRateLimits,
+} from "./rate-limit.server";
+
+const MINUTE_MS = 60 * 1000;
+const now = new Date("2026-02-04T12:00:00Z");
+
+describe("Rate Limit Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("checkRateLimits", () => {
+    it("allows requests up to the limit and then reports when to retry", async () => {
+      const store = new MemoryRateLimitStore();
+      const rule = { key: "lookup:ip:shop:1.2.3.4", limit: 2, windowMs: 10 * MINUTE_MS };
+
+      expect((await checkRateLimits([rule], { store, now })).allowed).toBe(true);
+      expect((await checkRateLimits([rule], { store, now })).allowed).toBe(true);
+
+      const later = new Date(now.getTime() + 4 * MINUTE_MS);
+      expect(await checkRateLimits([rule], { store, now: later })).toEqual({
+        allowed: false,
+        retryAfterSeconds: 6 * 60,
+      });
+    });
+
+    it("starts a new window once the old one ends", async () => {
+      const store = new MemoryRateLimitStore();
+      const rule = { key: "returns:order:shop:1", limit: 1, windowMs: MINUTE_MS };
+
+      await checkRateLimits([rule], { store, now });
+      expect((await checkRateLimits([rule], { store, now })).allowed).toBe(false);
+
+      const nextWindow = new Date(now.getTime() + MINUTE_MS);
+      expect((await checkRateLimits([rule], { store, now: nextWindow })).allowed).toBe(true);
+    });
+
+    it("blocks when any rule is exceeded", async () => {
+      const store = new MemoryRateLimitStore();
+      const strict = { key: "strict", limit: 0, windowMs: MINUTE_MS };
+      const loose = { key: "loose", limit: 100, windowMs: MINUTE_MS };
+
+      const result = await checkRateLimits([loose, strict], { store, now });
+
+      expect(result).toEqual({ allowed: false, retryAfterSeconds: 60 });
+    });
+  });
+
+  describe("DatabaseRateLimitStore", () => {
+    it("increments the stored bucket within its window", async () => {
+      const resetAt = new Date(now.getTime() + 30 * 1000);
+      vi.mocked(db.rateLimitBucket.upsert).mockResolvedValue({ key: "k", count: 4, resetAt });
+
+      const window = await new DatabaseRateLimitStore().hit("k", MINUTE_MS, now);
+
+      expect(window).toEqual({ count: 4, resetAt });
+      expect(db.rateLimitBucket.upsert).toHaveBeenCalledWith({
+        where: { key: "k" },
+        create: { key: "k", count: 1, resetAt: new Date(now.getTime() + MINUTE_MS) },
+        update: { count: { increment: 1 } },
+      });
+      expect(db.rateLimitBucket.update).not.toHaveBeenCalled();
+    });
+
+    it("resets an expired bucket and clears other expired ones", async () => {
+      const resetAt = new Date(now.getTime() + MINUTE_MS);
+      vi.mocked(db.rateLimitBucket.upsert).mockResolvedValue({
+        key: "k",
+        count: 9,
+        resetAt: new Date(now.getTime() - 1000),
+      });
+      vi.mocked(db.rateLimitBucket.update).mockResolvedValue({ key: "k", count: 1, resetAt });
+
+      const window = await new DatabaseRateLimitStore().hit("k", MINUTE_MS, now);
+
+      expect(window).toMatchObject({ count: 1, resetAt });
+      expect(db.rateLimitBucket.deleteMany).toHaveBeenCalledWith({
+        where: { resetAt: { lte: now }, key: { not: "k" } },
+      });
+      expect(db.rateLimitBucket.update).toHaveBeenCalledWith({
+        where: { key: "k" },
+        data: { count: 1, resetAt },
+        select: { count: true, resetAt: true },
+      });
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import db from "../db.server";
+
+export interface RateLimitWindow {
+  count: number;
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  name: string;
+  // Counts one request against key and returns the total for the current window.
+  hit(key: string, windowMs: number, now: Date): Promise<RateLimitWindow>;
+}
+
+export interface RateLimitRule {
+  key: string;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+// Per-process counters. Only suitable for a single instance or local development.
+export class MemoryRateLimitStore implements RateLimitStore {
+  name = "memory";
+  private windows = new Map<string, RateLimitWindow>();
+
+  async hit(key: string, windowMs: number, now: Date): Promise<RateLimitWindow> {
+    const current = this.windows.get(key);
+
+    if (!current || current.resetAt <= now) {
+      const fresh = { count: 1, resetAt: new Date(now.getTime() + windowMs) };
+      this.windows.set(key, fresh);
+      this.prune(now);
+      return fresh;
+    }
+
+    current.count++;
+    return { ...current };
+  }
+
+  private prune(now: Date) {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+  }
+}
+
+// Shares counters between app instances through the RateLimitBucket table.
+export class DatabaseRateLimitStore implements RateLimitStore {
+  name = "database";
+
+  async hit(key: string, windowMs: number, now: Date): Promise<RateLimitWindow> {
+    const resetAt = new Date(now.getTime() + windowMs);
+
+    const bucket = await db.rateLimitBucket.upsert({
+      where: { key },
+      create: { key, count: 1, resetAt },
+      update: { count: { increment: 1 } },
+    });
+
+    if (bucket.resetAt > now) {
+      return { count: bucket.count, resetAt: bucket.resetAt };
+    }
+
+    // The stored window has ended, so this request starts a new one. Expired
+    // buckets for other keys are cleared at the same time.
+    await db.rateLimitBucket.deleteMany({
+      where: { resetAt: { lte: now }, key: { not: key } },
+    });
+    return db.rateLimitBucket.update({
+      where: { key },
+      data: { count: 1, resetAt },
+      select: { count: true, resetAt: true },
+    });
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store =
+      process.env.RATE_LIMIT_STORE === "memory"
+        ? new MemoryRateLimitStore()
+        : new DatabaseRateLimitStore();
+  }
+  return store;
+}
+
+export function setRateLimitStore(next: RateLimitStore | null) {
+  store = next;
+}
+
+// Counts the request against every rule, so a client that is blocked by one
+// limit still uses up the others.
+export async function checkRateLimits(
+  rules: RateLimitRule[],
+  options: { store?: RateLimitStore; now?: Date } = {}
+): Promise<RateLimitResult> {
+  const rateLimitStore = options.store ?? getRateLimitStore();
+  const now = options.now ?? new Date();
+
+  const windows = await Promise.all(
+    rules.map((rule) => rateLimitStore.hit(rule.key, rule.windowMs, now))
+  );
+
+  const exceeded = windows.filter((window, i) => window.count > rules[i].limit);
+  if (exceeded.length === 0) {
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  const latestReset = Math.max(...exceeded.map((window) => window.resetAt.getTime()));
+  return {
+    allowed: false,
+    retryAfterSeconds: Math.max(1, Math.ceil((latestReset - now.getTime()) / 1000)),
+  };
+}
@@ -0,0 +1,367 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
+import {
+  allocateRefund,
+  calculateRestockingFee,
+  getRefundLineItems,
+  issueReturnRefund,
+  summarizeRefund,
+} from "./refund.server";
+import {
+  createMockReturnItem,
+  createMockReturnRequest,
+  mockShop,
+  mockShopSettings,
+} from "../../test/fixtures";
+
+function graphqlResponse(data: unknown) {
+  return { json: () => Promise.resolve({ data }) } as unknown as Response;
+}
+
+const suggestedRefund = {
+  order: {
+    suggestedRefund: {
+      amountSet: { shopMoney: { amount: "108.00", currencyCode: "USD" } },
+      subtotalSet: { shopMoney: { amount: "100.00" } },
+      shipping: { amountSet: { shopMoney: { amount: "0.00" } } },
+      suggestedTransactions: [
+        { gateway: "gift_card", parentTransaction: { id: "txn_gift" }, amountSet: { shopMoney: { amount: "30.00" } } },
+        { gateway: "shopify_payments", parentTransaction: { id: "txn_card" }, amountSet: { shopMoney: { amount: "78.00" } } },
+      ],
+    },
+  },
+};
+
+function refundCreated(transactions: Array<{ status: string; gateway: string; parent: string; amount: string }>) {
+  return {
+    refundCreate: {
+      refund: {
+        id: "gid://shopify/Refund/1",
+        transactions: {
+          nodes: transactions.map((t) => ({
+            status: t.status,
+            gateway: t.gateway,
+            parentTransaction: { id: t.parent },
+            amountSet: { shopMoney: { amount: t.amount } },
+          })),
+        },
+      },
+      userErrors: [],
+    },
+  };
+}
+
+function mockReturn(overrides: Record<string, unknown> = {}) {
+  vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+    ...createMockReturnRequest({ status: "completed", ...overrides }),
+    items: [
+      createMockReturnItem({ shopifyLineItemId: "gid://shopify/LineItem/1", quantity: 2, quantityReceived: 2 }),
+    ],
+  } as never);
+}
+
+describe("Refund Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+      ...mockShopSettings,
+      restockingFeePercent: 10,
+    });
+  });
+
+  describe("calculateRestockingFee", () => {
+    it("charges a percentage of the item subtotal", () => {
+      expect(calculateRestockingFee(100, 10)).toBe(10);
+      expect(calculateRestockingFee(33.33, 15)).toBe(5);
+      expect(calculateRestockingFee(100, 0)).toBe(0);
+    });
+  });
+
+  describe("getRefundLineItems", () => {
+    it("refunds received quantities and converts legacy numeric IDs", () => {
+      expect(
+        getRefundLineItems([
+          { shopifyLineItemId: "1", quantity: 2, quantityReceived: 1 },
+          { shopifyLineItemId: "gid://shopify/LineItem/2", quantity: 1, quantityReceived: null },
+          { shopifyLineItemId: "gid://shopify/LineItem/3", quantity: 1, quantityReceived: 0 },
+        ])
+      ).toEqual([
+        { lineItemId: "gid://shopify/LineItem/1", quantity: 1 },
+        { lineItemId: "gid://shopify/LineItem/2", quantity: 1 },
+      ]);
+    });
+  });
+
+  describe("allocateRefund", () => {
+    it("fills payments in order without exceeding what each can take", () => {
+      expect(
+        allocateRefund(
+          [
+            { parentId: "txn_gift", gateway: "gift_card", amount: 30 },
+            { parentId: "txn_card", gateway: "shopify_payments", amount: 78 },
+          ],
+          98
+        )
+      ).toEqual([
+        { parentId: "txn_gift", gateway: "gift_card", amount: 30 },
+        { parentId: "txn_card", gateway: "shopify_payments", amount: 68 },
+      ]);
+    });
+  });
+
+  describe("summarizeRefund", () => {
+    it("separates failed payments from the amount refunded", () => {
+      expect(
+        summarizeRefund(
+          refundCreated([
+            { status: "SUCCESS", gateway: "gift_card", parent: "txn_gift", amount: "30.00" },
+            { status: "FAILURE", gateway: "shopify_payments", parent: "txn_card", amount: "68.00" },
+          ]).refundCreate.refund
+        )
+      ).toEqual({
+        id: "gid://shopify/Refund/1",
+        refundedAmount: 30,
+        failed: [{ parentId: "txn_card", gateway: "shopify_payments", amount: 68 }],
+      });
+    });
+  });
+
+  describe("issueReturnRefund", () => {
+    it("refunds line items less the restocking fee and records the refund", async () => {
+      mockReturn();
+      const admin = {
+        graphql: vi
+          .fn()
+          .mockResolvedValueOnce(graphqlResponse(suggestedRefund))
+          .mockResolvedValueOnce(
+            graphqlResponse(
+              refundCreated([
+                { status: "SUCCESS", gateway: "gift_card", parent: "txn_gift", amount: "30.00" },
+                { status: "SUCCESS", gateway: "shopify_payments", parent: "txn_card", amount: "68.00" },
+              ])
+            )
+          ),
+      };
+
+      const result = await issueReturnRefund(admin, mockShop, "return_123");
+
+      expect(result).toEqual({
+        status: "refunded",
+        refundedAmount: 98,
+        shopifyRefundId: "gid://shopify/Refund/1",
+        error: undefined,
+      });
+
+      const [, refundCall] = admin.graphql.mock.calls;
+      expect(refundCall[1].variables.input).toMatchObject({
+        orderId: "gid://shopify/Order/123456",
+        refundLineItems: [
+          { lineItemId: "gid://shopify/LineItem/1", quantity: 2, restockType: "NO_RESTOCK" },
+        ],
+        transactions: [
+          expect.objectContaining({ parentId: "txn_gift", amount: "30.00", kind: "REFUND" }),
+          expect.objectContaining({ parentId: "txn_card", amount: "68.00", kind: "REFUND" }),
+        ],
+      });
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_123" },
+        data: expect.objectContaining({
+          refundStatus: "refunded",
+          shopifyRefundId: "gid://shopify/Refund/1",
+          refundedAmount: 98,
+          restockingFee: 10,
+          refundedShipping: 0,
+          outstandingRefund: [],
+          refundError: null,
+          refundAttempts: { increment: 1 },
+        }),
+      });
+    });
+
+    it("deducts the return shipping fee and waives the restocking fee by reason", async () => {
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        ...mockShopSettings,
+        restockingFeePercent: 10,
+        feeWaivedReasons: ["defective"],
+      });
+      mockReturn({ returnShippingFee: 6 });
+      const admin = {
+        graphql: vi
+          .fn()
+          .mockResolvedValueOnce(graphqlResponse(suggestedRefund))
+          .mockResolvedValueOnce(
+            graphqlResponse(
+              refundCreated([
+                { status: "SUCCESS", gateway: "gift_card", parent: "txn_gift", amount: "30.00" },
+                { status: "SUCCESS", gateway: "shopify_payments", parent: "txn_card", amount: "72.00" },
+              ])
+            )
+          ),
+      };
+
+      const result = await issueReturnRefund(admin, mockShop, "return_123");
+
+      expect(result.refundedAmount).toBe(102);
+      const [, refundCall] = admin.graphql.mock.calls;
+      expect(refundCall[1].variables.input.transactions).toEqual([
+        expect.objectContaining({ parentId: "txn_gift", amount: "30.00" }),
+        expect.objectContaining({ parentId: "txn_card", amount: "72.00" }),
+      ]);
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_123" },
+        data: expect.objectContaining({ restockingFee: 0, returnShippingFee: 6 }),
+      });
+    });
+
+    it("charges no fees on returns exempted when they were submitted", async () => {
+      mockReturn({ returnShippingFee: 0, feeWaiver: "Free returns for customers tagged VIP" });
+      const admin = {
+        graphql: vi
+          .fn()
+          .mockResolvedValueOnce(graphqlResponse(suggestedRefund))
+          .mockResolvedValueOnce(
+            graphqlResponse(
+              refundCreated([
+                { status: "SUCCESS", gateway: "gift_card", parent: "txn_gift", amount: "30.00" },
+                { status: "SUCCESS", gateway: "shopify_payments", parent: "txn_card", amount: "78.00" },
+              ])
+            )
+          ),
+      };
+
+      await issueReturnRefund(admin, mockShop, "return_123");
+
+      const [, refundCall] = admin.graphql.mock.calls;
+      expect(refundCall[1].variables.input.transactions).toEqual([
+        expect.objectContaining({ parentId: "txn_gift", amount: "30.00" }),
+        expect.objectContaining({ parentId: "txn_card", amount: "78.00" }),
+      ]);
+    });
+
+    it("keeps failed payments for retry and resends only those", async () => {
+      mockReturn();
+      const admin = {
+        graphql: vi
+          .fn()
+          .mockResolvedValueOnce(graphqlResponse(suggestedRefund))
+          .mockResolvedValueOnce(
+            graphqlResponse(
+              refundCreated([
+                { status: "SUCCESS", gateway: "gift_card", parent: "txn_gift", amount: "30.00" },
+                { status: "FAILURE", gateway: "shopify_payments", parent: "txn_card", amount: "68.00" },
+              ])
+            )
+          ),
+      };
+
+      const first = await issueReturnRefund(admin, mockShop, "return_123");
+
+      expect(first.status).toBe("partial");
+      expect(first.error).toBe("68.00 could not be refunded to shopify_payments");
+
+      mockReturn({
+        refundStatus: "partial",
+        refundedAmount: 30,
+        outstandingRefund: [{ parentId: "txn_card", gateway: "shopify_payments", amount: 68 }],
+      });
+      admin.graphql.mockResolvedValueOnce(
+        graphqlResponse(
+          refundCreated([
+            { status: "SUCCESS", gateway: "shopify_payments", parent: "txn_card", amount: "68.00" },
+          ])
+        )
+      );
+
+      const retry = await issueReturnRefund(admin, mockShop, "return_123");
+
+      expect(retry.status).toBe("refunded");
+      expect(retry.refundedAmount).toBe(98);
+      const retryInput = admin.graphql.mock.calls[2][1].variables.input;
+      expect(retryInput.refundLineItems).toEqual([]);
+      expect(retryInput.transactions).toEqual([
+        expect.objectContaining({ parentId: "txn_card", amount: "68.00" }),
+      ]);
+    });
+
+    it("records a failed refund without throwing", async () => {
+      mockReturn();
+      const admin = {
+        graphql: vi
+          .fn()
+          .mockResolvedValueOnce(graphqlResponse(suggestedRefund))
+          .mockResolvedValueOnce(
+            graphqlResponse({
+              refundCreate: { refund: null, userErrors: [{ field: ["transactions"], message: "Gateway declined" }] },
+            })
+          ),
+      };
+
+      const result = await issueReturnRefund(admin, mockShop, "return_123");
+
+      expect(result).toEqual({ status: "failed", refundedAmount: 0, error: "Gateway declined" });
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_123" },
+        data: {
+          refundStatus: "failed",
+          refundError: "Gateway declined",
+          refundAttempts: { increment: 1 },
+        },
+      });
+    });
+
+    it("picks up a refund that reached Shopify before a failed attempt lost its response", async () => {
+      mockReturn({ refundStatus: "failed" });
+      const admin = {
+        graphql: vi
+          .fn()
+          .mockResolvedValueOnce(
+            graphqlResponse({
+              order: {
+                refunds: [
+                  {
+                    id: "gid://shopify/Refund/9",
+                    note: "Return return_123 for order #1001",
+                    transactions: refundCreated([
+                      { status: "SUCCESS", gateway: "shopify_payments", parent: "txn_card", amount: "98.00" },
+                    ]).refundCreate.refund.transactions,
+                  },
+                ],
+              },
+            })
+          )
+          .mockResolvedValueOnce(graphqlResponse(suggestedRefund)),
+      };
+
+      const result = await issueReturnRefund(admin, mockShop, "return_123");
+
+      expect(result.status).toBe("refunded");
+      expect(result.shopifyRefundId).toBe("gid://shopify/Refund/9");
+      expect(admin.graphql).toHaveBeenCalledTimes(2);
+    });
+
+    it("skips returns resolved with store credit or an exchange, and ones already refunded", async () => {
+      const admin = { graphql: vi.fn() };
+
+      mockReturn({ resolutionType: "store_credit" });
+      expect((await issueReturnRefund(admin, mockShop, "return_123")).status).toBe("skipped");
+
+      mockReturn({ refundStatus: "refunded", refundedAmount: 50 });
+      expect(await issueReturnRefund(admin, mockShop, "return_123")).toEqual({
+        status: "skipped",
+        refundedAmount: 50,
+        shopifyRefundId: undefined,
+      });
+
+      expect(admin.graphql).not.toHaveBeenCalled();
+      expect(db.returnRequest.update).not.toHaveBeenCalled();
+    });
+
+    it("refuses returns from another shop", async () => {
+      mockReturn({ shop: "other-shop.myshopify.com" });
+
+      await expect(issueReturnRefund({ graphql: vi.fn() }, mockShop, "return_123")).rejects.toThrow(
+        "Return request not found: return_123"
+      );
+    });
+  });
+});
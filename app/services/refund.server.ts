@@ -0,0 +1,494 @@
+import type { Prisma, ReturnItem, ReturnRequest } from "@prisma/client";
+import db from "../db.server";
+import type { RefundStatus } from "../utils/refund";
+import { canTransition, type ReturnActor } from "../utils/return-status";
+import { SYSTEM_ACTOR, transitionReturn } from "./return-lifecycle.server";
+import { feeableSubtotal, type FeePolicy } from "./fees.server";
+
+export {
+  REFUND_STATUSES,
+  canRetryRefund,
+  refundStatusLabels,
+  type RefundStatus,
+} from "../utils/refund";
+
+type AdminGraphQL = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+const GET_SUGGESTED_REFUND = `#graphql
+  query GetSuggestedRefund($id: ID!, $refundLineItems: [RefundLineItemInput!], $refundShipping: Boolean) {
+    order(id: $id) {
+      suggestedRefund(refundLineItems: $refundLineItems, refundShipping: $refundShipping) {
+        amountSet {
+          shopMoney {
+            amount
+            currencyCode
+          }
+        }
+        subtotalSet {
+          shopMoney {
+            amount
+          }
+        }
+        shipping {
+          amountSet {
+            shopMoney {
+              amount
+            }
+          }
+        }
+        suggestedTransactions {
+          gateway
+          parentTransaction {
+            id
+          }
+          amountSet {
+            shopMoney {
+              amount
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const GET_ORDER_REFUNDS = `#graphql
+  query GetOrderRefunds($id: ID!) {
+    order(id: $id) {
+      refunds {
+        id
+        note
+        transactions(first: 10) {
+            nodes {
+              id
+              status
+              gateway
+              parentTransaction {
+                id
+              }
+              amountSet {
+                shopMoney {
+                  amount
+                }
+              }
+            }
+          }
+      }
+    }
+  }
+`;
+
+const REFUND_CREATE = `#graphql
+  mutation RefundCreate($input: RefundInput!) {
+    refundCreate(input: $input) {
+      refund {
+        id
+        transactions(first: 10) {
+          nodes {
+            id
+            status
+            gateway
+            parentTransaction {
+              id
+            }
+            amountSet {
+              shopMoney {
+                amount
+              }
+            }
+          }
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export interface RefundTransaction {
+  parentId: string;
+  gateway: string;
+  amount: number;
+}
+
+export interface RefundPlan {
+  lineItems: Array<{ lineItemId: string; quantity: number }>;
+  subtotal: number;
+  shipping: number;
+  restockingFee: number;
+  returnShippingFee: number;
+  total: number;
+  transactions: RefundTransaction[];
+}
+
+export interface RefundResult {
+  status: RefundStatus | "skipped";
+  refundedAmount: number;
+  shopifyRefundId?: string;
+  error?: string;
+}
+
+type RefundableReturn = ReturnRequest & { items: ReturnItem[] };
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Older webhook returns stored numeric line item IDs.
+function toLineItemGid(id: string): string {
+  return /^\d+$/.test(id) ? `gid://shopify/LineItem/${id}` : id;
+}
+
+// Stored in the refund note so a refund whose response was lost can be found again.
+function refundNote(returnRequest: Pick<ReturnRequest, "id" | "shopifyOrderName">): string {
+  return `Return ${returnRequest.id} for order ${returnRequest.shopifyOrderName}`;
+}
+
+export function calculateRestockingFee(subtotal: number, percent: number): number {
+  return percent > 0 ? roundMoney((subtotal * percent) / 100) : 0;
+}
+
+// Inspected items refund what actually arrived; returnless and uninspected
+// items refund the quantity the customer asked to return.
+export function getRefundLineItems(
+  items: Array<Pick<ReturnItem, "shopifyLineItemId" | "quantity" | "quantityReceived">>
+): Array<{ lineItemId: string; quantity: number }> {
+  return items
+    .map((item) => ({
+      lineItemId: toLineItemGid(item.shopifyLineItemId),
+      quantity: Math.min(item.quantityReceived ?? item.quantity, item.quantity),
+    }))
+    .filter((item) => item.quantity > 0);
+}
+
+// Spreads the amount over the order's payments in the order Shopify suggests,
+// never taking more from a payment than Shopify would refund to it.
+export function allocateRefund(
+  suggested: RefundTransaction[],
+  amount: number
+): RefundTransaction[] {
+  const transactions: RefundTransaction[] = [];
+  let remaining = roundMoney(amount);
+
+  for (const transaction of suggested) {
+    if (remaining <= 0) break;
+    const share = roundMoney(Math.min(transaction.amount, remaining));
+    if (share > 0) {
+      transactions.push({ ...transaction, amount: share });
+      remaining = roundMoney(remaining - share);
+    }
+  }
+
+  return transactions;
+}
+
+// Share of the refunded items' value the restocking fee applies to. Shopify's
+// subtotal already accounts for discounts, so the fee is taken from that
+// subtotal in proportion rather than from our stored prices.
+function feeableShare(
+  returnRequest: RefundableReturn,
+  lineItems: Array<{ lineItemId: string; quantity: number }>,
+  policy: Pick<FeePolicy, "feeWaivedReasons">
+): number {
+  const refunded = returnRequest.items.map((item) => ({
+    pricePerItem: item.pricePerItem,
+    reason: item.reason,
+    quantity:
+      lineItems.find((line) => line.lineItemId === toLineItemGid(item.shopifyLineItemId))
+        ?.quantity ?? 0,
+  }));
+  const value = refunded.reduce((sum, item) => sum + item.pricePerItem * item.quantity, 0);
+
+  return value > 0 ? feeableSubtotal(policy, refunded) / value : 1;
+}
+
+// Fees the return was exempted from on submission stay waived. The return
+// shipping fee is the one fixed on submission; the restocking fee is worked
+// out again from what is actually refunded.
+export async function buildRefundPlan(
+  admin: AdminGraphQL,
+  returnRequest: RefundableReturn,
+  settings: Pick<FeePolicy, "restockingFeePercent" | "feeWaivedReasons"> & {
+    refundShipping: boolean;
+  }
+): Promise<RefundPlan> {
+  const lineItems = getRefundLineItems(returnRequest.items);
+
+  const response = await admin.graphql(GET_SUGGESTED_REFUND, {
+    variables: {
+      id: returnRequest.shopifyOrderId,
+      refundLineItems: lineItems.map((item) => ({ ...item, restockType: "NO_RESTOCK" })),
+      refundShipping: settings.refundShipping,
+    },
+  });
+  const data = await response.json();
+  const suggested = data.data?.order?.suggestedRefund;
+
+  if (!suggested) {
+    throw new Error(`Could not calculate a refund for order ${returnRequest.shopifyOrderName}`);
+  }
+
+  const subtotal = parseFloat(suggested.subtotalSet.shopMoney.amount);
+  const shipping = parseFloat(suggested.shipping?.amountSet?.shopMoney?.amount ?? "0");
+  const waived = Boolean(returnRequest.feeWaiver);
+  const restockingFee = waived
+    ? 0
+    : calculateRestockingFee(
+        subtotal * feeableShare(returnRequest, lineItems, settings),
+        settings.restockingFeePercent
+      );
+  const returnShippingFee = waived ? 0 : (returnRequest.returnShippingFee ?? 0);
+  const total = roundMoney(
+    Math.max(parseFloat(suggested.amountSet.shopMoney.amount) - restockingFee - returnShippingFee, 0)
+  );
+
+  const transactions = allocateRefund(
+    suggested.suggestedTransactions.map(
+      (t: { gateway: string; parentTransaction: { id: string } | null; amountSet: { shopMoney: { amount: string } } }) => ({
+        parentId: t.parentTransaction?.id ?? "",
+        gateway: t.gateway,
+        amount: parseFloat(t.amountSet.shopMoney.amount),
+      })
+    ),
+    total
+  );
+
+  return { lineItems, subtotal, shipping, restockingFee, returnShippingFee, total, transactions };
+}
+
+interface ShopifyRefund {
+  id: string;
+  note?: string | null;
+  transactions?: {
+    nodes: Array<{
+      status: string;
+      gateway: string;
+      parentTransaction: { id: string } | null;
+      amountSet: { shopMoney: { amount: string } };
+    }>;
+  };
+}
+
+interface RefundOutcome {
+  id: string;
+  refundedAmount: number;
+  failed: RefundTransaction[];
+}
+
+// Pending gateway transactions count as refunded; Shopify settles them later.
+export function summarizeRefund(refund: ShopifyRefund): RefundOutcome {
+  let refundedAmount = 0;
+  const failed: RefundTransaction[] = [];
+
+  for (const transaction of refund.transactions?.nodes ?? []) {
+    const amount = parseFloat(transaction.amountSet.shopMoney.amount);
+    if (transaction.status === "FAILURE" || transaction.status === "ERROR") {
+      failed.push({
+        parentId: transaction.parentTransaction?.id ?? "",
+        gateway: transaction.gateway,
+        amount,
+      });
+    } else {
+      refundedAmount += amount;
+    }
+  }
+
+  return { id: refund.id, refundedAmount: roundMoney(refundedAmount), failed };
+}
+
+async function findExistingRefund(
+  admin: AdminGraphQL,
+  returnRequest: RefundableReturn
+): Promise<RefundOutcome | null> {
+  const response = await admin.graphql(GET_ORDER_REFUNDS, {
+    variables: { id: returnRequest.shopifyOrderId },
+  });
+  const data = await response.json();
+  const refunds: ShopifyRefund[] = data.data?.order?.refunds ?? [];
+  const existing = refunds.find((refund) => refund.note === refundNote(returnRequest));
+
+  return existing ? summarizeRefund(existing) : null;
+}
+
+async function createRefund(
+  admin: AdminGraphQL,
+  returnRequest: RefundableReturn,
+  plan: Pick<RefundPlan, "lineItems" | "shipping" | "transactions">
+): Promise<RefundOutcome> {
+  const response = await admin.graphql(REFUND_CREATE, {
+    variables: {
+      input: {
+        orderId: returnRequest.shopifyOrderId,
+        note: refundNote(returnRequest),
+        notify: true,
+        refundLineItems: plan.lineItems.map((item) => ({ ...item, restockType: "NO_RESTOCK" })),
+        shipping: plan.shipping > 0 ? { amount: plan.shipping.toFixed(2) } : undefined,
+        transactions: plan.transactions.map((transaction) => ({
+          orderId: returnRequest.shopifyOrderId,
+          parentId: transaction.parentId,
+          gateway: transaction.gateway,
+          amount: transaction.amount.toFixed(2),
+          kind: "REFUND",
+        })),
+      },
+    },
+  });
+  const data = await response.json();
+  const userErrors = data.data?.refundCreate?.userErrors || [];
+  const refund = data.data?.refundCreate?.refund;
+
+  if (userErrors.length > 0 || !refund) {
+    throw new Error(
+      userErrors.map((e: { message: string }) => e.message).join(", ") || "Refund was not created"
+    );
+  }
+
+  return summarizeRefund(refund);
+}
+
+function describeFailures(failed: RefundTransaction[]): string | null {
+  if (failed.length === 0) {
+    return null;
+  }
+  const amount = failed.reduce((sum, t) => sum + t.amount, 0);
+  return `${amount.toFixed(2)} could not be refunded to ${failed.map((t) => t.gateway).join(", ")}`;
+}
+
+// Refunds a return through Shopify and records what was refunded. Failures are
+// stored on the return instead of thrown, and calling this again retries. When
+// some payments failed to refund, a retry only re-sends those payments; the
+// line items, shipping and fees were settled by the first refund.
+// A full refund moves the return to refunded.
+export async function issueReturnRefund(
+  admin: AdminGraphQL,
+  shop: string,
+  returnRequestId: string,
+  actor: ReturnActor = SYSTEM_ACTOR
+): Promise<RefundResult> {
+  const returnRequest = await db.returnRequest.findUnique({
+    where: { id: returnRequestId },
+    include: { items: true },
+  });
+
+  if (!returnRequest || returnRequest.shop !== shop) {
+    throw new Error(`Return request not found: ${returnRequestId}`);
+  }
+
+  // Returns without a chosen resolution default to a refund.
+  if (returnRequest.resolutionType && returnRequest.resolutionType !== "refund") {
+    return { status: "skipped", refundedAmount: 0 };
+  }
+
+  if (returnRequest.refundStatus === "refunded") {
+    return {
+      status: "skipped",
+      refundedAmount: returnRequest.refundedAmount ?? 0,
+      shopifyRefundId: returnRequest.shopifyRefundId ?? undefined,
+    };
+  }
+
+  const alreadyRefunded = returnRequest.refundedAmount ?? 0;
+  const outstanding = isRefundTransactionList(returnRequest.outstandingRefund)
+    ? returnRequest.outstandingRefund
+    : [];
+
+  let result: RefundResult;
+  try {
+    let outcome: RefundOutcome;
+    let breakdown: Pick<RefundPlan, "shipping" | "restockingFee" | "returnShippingFee"> | null =
+      null;
+
+    if (returnRequest.refundStatus === "partial" && outstanding.length > 0) {
+      outcome = await createRefund(admin, returnRequest, {
+        lineItems: [],
+        shipping: 0,
+        transactions: outstanding,
+      });
+    } else {
+      // A failed attempt may have reached Shopify before its response was lost.
+      const existing =
+        returnRequest.refundStatus === "failed"
+          ? await findExistingRefund(admin, returnRequest)
+          : null;
+
+      const settings = await db.shopSettings.findUnique({ where: { shop } });
+      const plan = await buildRefundPlan(admin, returnRequest, {
+        refundShipping: settings?.refundShipping ?? false,
+        restockingFeePercent: settings?.restockingFeePercent ?? 0,
+        feeWaivedReasons: settings?.feeWaivedReasons ?? [],
+      });
+      breakdown = plan;
+      outcome = existing ?? (await createRefund(admin, returnRequest, plan));
+    }
+
+    const refundedAmount = roundMoney(alreadyRefunded + outcome.refundedAmount);
+    const status: RefundStatus = outcome.failed.length > 0 ? "partial" : "refunded";
+    const error = describeFailures(outcome.failed);
+
+    await db.returnRequest.update({
+      where: { id: returnRequestId },
+      data: {
+        refundStatus: status,
+        shopifyRefundId: outcome.id,
+        refundedAmount,
+        ...(breakdown && {
+          refundedShipping: breakdown.shipping,
+          restockingFee: breakdown.restockingFee,
+          returnShippingFee: breakdown.returnShippingFee,
+        }),
+        outstandingRefund: outcome.failed as unknown as Prisma.InputJsonValue,
+        refundError: error,
+        refundAttempts: { increment: 1 },
+        refundedAt: new Date(),
+      },
+    });
+
+    result = {
+      status,
+      refundedAmount,
+      shopifyRefundId: outcome.id,
+      error: error ?? undefined,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Refund failed";
+    const status: RefundStatus = alreadyRefunded > 0 ? "partial" : "failed";
+    console.error(`Refund failed for return ${returnRequestId}:`, error);
+
+    await db.returnRequest.update({
+      where: { id: returnRequestId },
+      data: {
+        refundStatus: status,
+        refundError: message,
+        refundAttempts: { increment: 1 },
+      },
+    });
+
+    return { status, refundedAmount: alreadyRefunded, error: message };
+  }
+
+  if (result.status === "refunded" && canTransition(returnRequest.status, "refunded")) {
+    await transitionReturn(returnRequestId, "refunded", actor, {
+      shop,
+      reason: `Refunded ${result.refundedAmount.toFixed(2)}`,
+    });
+  }
+
+  return result;
+}
+
+function isRefundTransactionList(value: unknown): value is RefundTransaction[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (t) =>
+        typeof t === "object" &&
+        t !== null &&
+        typeof t.parentId === "string" &&
+        typeof t.amount === "number"
+    )
+  );
+}
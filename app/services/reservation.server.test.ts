@@ -0,0 +1,272 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
+import {
+  expireExchangeReservations,
+  findStockLocation,
+  releaseExchangeReservations,
+  reserveExchangeInventory,
+  secureExchangeStock,
+} from "./reservation.server";
+
+function graphqlResponse(data: unknown) {
+  return { json: () => Promise.resolve({ data }) } as unknown as Response;
+}
+
+function variantStock(levels: Array<[string, number]>, options: { tracked?: boolean } = {}) {
+  return graphqlResponse({
+    productVariant: {
+      id: "gid://shopify/ProductVariant/2",
+      inventoryPolicy: "DENY",
+      inventoryItem: {
+        id: "gid://shopify/InventoryItem/2",
+        tracked: options.tracked ?? true,
+        inventoryLevels: {
+          nodes: levels.map(([locationId, available]) => ({
+            location: { id: locationId },
+            quantities: [{ name: "available", quantity: available }],
+          })),
+        },
+      },
+    },
+  });
+}
+
+const moved = graphqlResponse({
+  inventoryMoveQuantities: {
+    inventoryAdjustmentGroup: { id: "gid://shopify/InventoryAdjustmentGroup/1" },
+    userErrors: [],
+  },
+});
+
+const replacement = {
+  variantId: "gid://shopify/ProductVariant/2",
+  quantity: 1,
+  title: "Test Product",
+  variantTitle: "Large",
+  price: 50,
+  alternative: { variantId: "gid://shopify/ProductVariant/3", variantTitle: "X-Large", price: 55 },
+};
+
+const reservation = {
+  id: "res_1",
+  returnRequestId: "return_123",
+  variantId: "gid://shopify/ProductVariant/2",
+  inventoryItemId: "gid://shopify/InventoryItem/2",
+  locationId: "gid://shopify/Location/1",
+  quantity: 1,
+  status: "reserved",
+  expiresAt: new Date("2026-03-20T00:00:00Z"),
+  releasedAt: null,
+  releaseReason: null,
+  error: null,
+  createdAt: new Date("2026-03-06T00:00:00Z"),
+  updatedAt: new Date("2026-03-06T00:00:00Z"),
+};
+
+describe("Reservation Service", () => {
+  const admin = { graphql: vi.fn() };
+  const now = new Date("2026-03-06T00:00:00Z");
+
+  beforeEach(() => {
+    vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+      exchangeReservationDays: 14,
+      exchangeReservationLocationId: "gid://shopify/Location/2",
+    } as never);
+    vi.mocked(db.inventoryReservation.create).mockImplementation(
+      (args) => Promise.resolve({ id: "res_1", ...args.data }) as never
+    );
+  });
+
+  describe("findStockLocation", () => {
+    const stock = {
+      levels: [
+        { locationId: "gid://shopify/Location/1", available: 5 },
+        { locationId: "gid://shopify/Location/2", available: 1 },
+      ],
+    };
+
+    it("prefers the chosen location while it has enough stock", () => {
+      expect(findStockLocation(stock, 1, "gid://shopify/Location/2")).toBe("gid://shopify/Location/2");
+      expect(findStockLocation(stock, 2, "gid://shopify/Location/2")).toBe("gid://shopify/Location/1");
+      expect(findStockLocation(stock, 6)).toBeNull();
+    });
+  });
+
+  describe("reserveExchangeInventory", () => {
+    it("moves the replacement to reserved at the chosen location", async () => {
+      admin.graphql
+        .mockResolvedValueOnce(
+          variantStock([
+            ["gid://shopify/Location/1", 4],
+            ["gid://shopify/Location/2", 3],
+          ])
+        )
+        .mockResolvedValueOnce(moved);
+
+      const reservations = await reserveExchangeInventory(
+        admin,
+        { id: "return_123", shop: "test-shop.myshopify.com" },
+        [replacement],
+        now
+      );
+
+      expect(reservations).toHaveLength(1);
+      expect(admin.graphql.mock.calls[1][1].variables.input).toEqual({
+        reason: "reservation_created",
+        referenceDocumentUri: "gid://returns-hub/ReturnRequest/return_123",
+        changes: [
+          {
+            inventoryItemId: "gid://shopify/InventoryItem/2",
+            quantity: 1,
+            from: { locationId: "gid://shopify/Location/2", name: "available" },
+            to: {
+              locationId: "gid://shopify/Location/2",
+              name: "reserved",
+              ledgerDocumentUri: "gid://returns-hub/ReturnRequest/return_123",
+            },
+          },
+        ],
+      });
+      expect(db.inventoryReservation.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          variantId: replacement.variantId,
+          locationId: "gid://shopify/Location/2",
+          expiresAt: new Date("2026-03-20T00:00:00Z"),
+        }),
+      });
+    });
+
+    it("reserves the second choice when the first is sold out", async () => {
+      admin.graphql
+        .mockResolvedValueOnce(variantStock([["gid://shopify/Location/1", 0]]))
+        .mockResolvedValueOnce(variantStock([["gid://shopify/Location/1", 2]]))
+        .mockResolvedValueOnce(moved);
+
+      await reserveExchangeInventory(
+        admin,
+        { id: "return_123", shop: "test-shop.myshopify.com" },
+        [replacement],
+        now
+      );
+
+      expect(db.inventoryReservation.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ variantId: "gid://shopify/ProductVariant/3" }),
+      });
+    });
+
+    it("doesn't reserve untracked stock or when the shop turned holds off", async () => {
+      admin.graphql.mockResolvedValueOnce(variantStock([], { tracked: false }));
+
+      await reserveExchangeInventory(
+        admin,
+        { id: "return_123", shop: "test-shop.myshopify.com" },
+        [replacement],
+        now
+      );
+
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        exchangeReservationDays: null,
+        exchangeReservationLocationId: null,
+      } as never);
+      await reserveExchangeInventory(
+        admin,
+        { id: "return_123", shop: "test-shop.myshopify.com" },
+        [replacement],
+        now
+      );
+
+      expect(admin.graphql).toHaveBeenCalledTimes(1);
+      expect(db.inventoryReservation.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("releaseExchangeReservations", () => {
+    it("moves reserved stock back to available", async () => {
+      vi.mocked(db.inventoryReservation.findMany).mockResolvedValue([reservation]);
+      admin.graphql.mockResolvedValue(moved);
+
+      const result = await releaseExchangeReservations(admin, "return_123", "Return declined", now);
+
+      expect(result).toEqual({ released: 1, failed: 0 });
+      const change = admin.graphql.mock.calls[0][1].variables.input.changes[0];
+      expect(change.from.name).toBe("reserved");
+      expect(change.to.name).toBe("available");
+      expect(db.inventoryReservation.update).toHaveBeenCalledWith({
+        where: { id: "res_1" },
+        data: { status: "released", releasedAt: now, releaseReason: "Return declined", error: null },
+      });
+    });
+
+    it("keeps the reservation with the error when Shopify refuses", async () => {
+      vi.mocked(db.inventoryReservation.findMany).mockResolvedValue([reservation]);
+      admin.graphql.mockResolvedValue(
+        graphqlResponse({
+          inventoryMoveQuantities: {
+            inventoryAdjustmentGroup: null,
+            userErrors: [{ field: ["input"], message: "Not enough reserved quantity" }],
+          },
+        })
+      );
+
+      const result = await releaseExchangeReservations(admin, "return_123", "Return declined", now);
+
+      expect(result).toEqual({ released: 0, failed: 1 });
+      expect(db.inventoryReservation.update).toHaveBeenCalledWith({
+        where: { id: "res_1" },
+        data: { error: "Not enough reserved quantity" },
+      });
+    });
+  });
+
+  describe("expireExchangeReservations", () => {
+    it("releases expired holds with an admin client per shop", async () => {
+      vi.mocked(db.inventoryReservation.findMany).mockResolvedValue([
+        { ...reservation, returnRequest: { shop: "test-shop.myshopify.com" } },
+        { ...reservation, id: "res_2", returnRequest: { shop: "test-shop.myshopify.com" } },
+      ] as never);
+      admin.graphql.mockResolvedValue(moved);
+      const getAdmin = vi.fn().mockResolvedValue(admin);
+
+      const result = await expireExchangeReservations({ getAdmin, now });
+
+      expect(result).toEqual({ checked: 2, released: 2, failed: 0 });
+      expect(getAdmin).toHaveBeenCalledTimes(1);
+      expect(db.inventoryReservation.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { status: "reserved", expiresAt: { lte: now } } })
+      );
+    });
+  });
+
+  describe("secureExchangeStock", () => {
+    it("counts the return's own reservation as stock", async () => {
+      vi.mocked(db.inventoryReservation.findMany).mockResolvedValue([reservation]);
+
+      const secured = await secureExchangeStock(admin, "return_123", [replacement]);
+
+      expect(secured.soldOut).toEqual([]);
+      expect(secured.lineItems).toEqual([
+        expect.objectContaining({ variantId: replacement.variantId, price: 50 }),
+      ]);
+      expect(secured.lineItems[0]).not.toHaveProperty("alternative");
+      expect(admin.graphql).not.toHaveBeenCalled();
+    });
+
+    it("swaps in the second choice, then gives up when both are sold out", async () => {
+      vi.mocked(db.inventoryReservation.findMany).mockResolvedValue([]);
+      admin.graphql
+        .mockResolvedValueOnce(variantStock([["gid://shopify/Location/1", 0]]))
+        .mockResolvedValueOnce(variantStock([["gid://shopify/Location/1", 3]]))
+        .mockResolvedValueOnce(variantStock([["gid://shopify/Location/1", 0]]));
+
+      const secured = await secureExchangeStock(admin, "return_123", [
+        replacement,
+        { ...replacement, alternative: undefined },
+      ]);
+
+      expect(secured.lineItems).toEqual([
+        expect.objectContaining({ variantId: "gid://shopify/ProductVariant/3", variantTitle: "X-Large", price: 55 }),
+      ]);
+      expect(secured.soldOut).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,392 @@
+import type { InventoryReservation, ReturnRequest } from "@prisma/client";
+import db from "../db.server";
+import type { ExchangeCartItem } from "./exchange.server";
+import type { AdminResolver } from "./tracking.server";
+
+type AdminGraphQL = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const GET_STOCK_LOCATIONS = `#graphql
+  query GetStockLocations {
+    locations(first: 50) {
+      nodes {
+        id
+        name
+      }
+    }
+  }
+`;
+
+const GET_VARIANT_STOCK = `#graphql
+  query GetVariantStock($variantId: ID!) {
+    productVariant(id: $variantId) {
+      id
+      inventoryPolicy
+      inventoryItem {
+        id
+        tracked
+        inventoryLevels(first: 10) {
+          nodes {
+            location {
+              id
+            }
+            quantities(names: ["available"]) {
+              name
+              quantity
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const MOVE_INVENTORY = `#graphql
+  mutation MoveInventory($input: InventoryMoveQuantitiesInput!) {
+    inventoryMoveQuantities(input: $input) {
+      inventoryAdjustmentGroup {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+interface VariantStock {
+  inventoryItemId: string;
+  // Untracked variants and those that keep selling when out of stock never
+  // run out, so nothing needs reserving
+  unlimited: boolean;
+  levels: { locationId: string; available: number }[];
+}
+
+export interface ReservationReleaseResult {
+  released: number;
+  failed: number;
+}
+
+export interface ReservationExpiryResult extends ReservationReleaseResult {
+  checked: number;
+}
+
+export async function fetchStockLocations(
+  admin: AdminGraphQL
+): Promise<{ id: string; name: string }[]> {
+  try {
+    const response = await admin.graphql(GET_STOCK_LOCATIONS);
+    const data = await response.json();
+    return data.data?.locations?.nodes ?? [];
+  } catch (error) {
+    console.error("Failed to load locations:", error);
+    return [];
+  }
+}
+
+async function fetchVariantStock(
+  admin: AdminGraphQL,
+  variantId: string
+): Promise<VariantStock | null> {
+  const response = await admin.graphql(GET_VARIANT_STOCK, { variables: { variantId } });
+  const data = await response.json();
+  const variant = data.data?.productVariant;
+
+  if (!variant?.inventoryItem) {
+    return null;
+  }
+
+  return {
+    inventoryItemId: variant.inventoryItem.id,
+    unlimited: !variant.inventoryItem.tracked || variant.inventoryPolicy === "CONTINUE",
+    levels: (variant.inventoryItem.inventoryLevels?.nodes ?? []).map(
+      (level: { location: { id: string }; quantities: { name: string; quantity: number }[] }) => ({
+        locationId: level.location.id,
+        available: level.quantities.find((q) => q.name === "available")?.quantity ?? 0,
+      })
+    ),
+  };
+}
+
+// The location to take `quantity` units from: the preferred one when it has
+// them, otherwise the first that does.
+export function findStockLocation(
+  stock: Pick<VariantStock, "levels">,
+  quantity: number,
+  preferredLocationId?: string | null
+): string | null {
+  const stocked = stock.levels.filter((level) => level.available >= quantity);
+  const preferred = stocked.find((level) => level.locationId === preferredLocationId);
+  return (preferred ?? stocked[0])?.locationId ?? null;
+}
+
+// Reserved stock is recorded against the return in Shopify's inventory ledger.
+function ledgerDocumentUri(returnRequestId: string): string {
+  return `gid://returns-hub/ReturnRequest/${returnRequestId}`;
+}
+
+async function moveInventory(
+  admin: AdminGraphQL,
+  move: {
+    returnRequestId: string;
+    inventoryItemId: string;
+    locationId: string;
+    quantity: number;
+    direction: "reserve" | "release";
+  }
+): Promise<void> {
+  const uri = ledgerDocumentUri(move.returnRequestId);
+  const available = { locationId: move.locationId, name: "available" };
+  const reserved = { locationId: move.locationId, name: "reserved", ledgerDocumentUri: uri };
+  const reserving = move.direction === "reserve";
+
+  const response = await admin.graphql(MOVE_INVENTORY, {
+    variables: {
+      input: {
+        reason: reserving ? "reservation_created" : "reservation_deleted",
+        referenceDocumentUri: uri,
+        changes: [
+          {
+            inventoryItemId: move.inventoryItemId,
+            quantity: move.quantity,
+            from: reserving ? available : reserved,
+            to: reserving ? reserved : available,
+          },
+        ],
+      },
+    },
+  });
+
+  const data = await response.json();
+  const userErrors = data.data?.inventoryMoveQuantities?.userErrors ?? [];
+  if (userErrors.length > 0) {
+    throw new Error(userErrors.map((e: { message: string }) => e.message).join(", "));
+  }
+}
+
+// The replacement and then the customer's second choice, as exchange lines.
+function exchangeChoices(line: ExchangeCartItem): ExchangeCartItem[] {
+  const { alternative, ...primary } = line;
+  return alternative ? [primary, { ...primary, ...alternative }] : [primary];
+}
+
+// Moves stock for each replacement from available to reserved at the shop's
+// chosen location, falling back to the second choice when the first is out.
+// Reserving is best effort: stock is checked again when the return is
+// approved, so lines that can't be reserved are left for then.
+export async function reserveExchangeInventory(
+  admin: AdminGraphQL,
+  returnRequest: Pick<ReturnRequest, "id" | "shop">,
+  lineItems: ExchangeCartItem[],
+  now = new Date()
+): Promise<InventoryReservation[]> {
+  const settings = await db.shopSettings.findUnique({
+    where: { shop: returnRequest.shop },
+    select: { exchangeReservationDays: true, exchangeReservationLocationId: true },
+  });
+
+  if (!settings?.exchangeReservationDays) {
+    return [];
+  }
+
+  const expiresAt = new Date(now.getTime() + settings.exchangeReservationDays * DAY_MS);
+  const reservations: InventoryReservation[] = [];
+
+  for (const line of lineItems) {
+    try {
+      for (const choice of exchangeChoices(line)) {
+        const stock = await fetchVariantStock(admin, choice.variantId);
+        if (stock?.unlimited) {
+          break;
+        }
+
+        const locationId = stock
+          ? findStockLocation(stock, choice.quantity, settings.exchangeReservationLocationId)
+          : null;
+        if (!stock || !locationId) {
+          continue;
+        }
+
+        await moveInventory(admin, {
+          returnRequestId: returnRequest.id,
+          inventoryItemId: stock.inventoryItemId,
+          locationId,
+          quantity: choice.quantity,
+          direction: "reserve",
+        });
+        reservations.push(
+          await db.inventoryReservation.create({
+            data: {
+              returnRequestId: returnRequest.id,
+              variantId: choice.variantId,
+              inventoryItemId: stock.inventoryItemId,
+              locationId,
+              quantity: choice.quantity,
+              expiresAt,
+            },
+          })
+        );
+        break;
+      }
+    } catch (error) {
+      console.error(`Failed to reserve ${line.variantId} for return ${returnRequest.id}:`, error);
+    }
+  }
+
+  return reservations;
+}
+
+async function releaseReservations(
+  admin: AdminGraphQL,
+  reservations: InventoryReservation[],
+  reason: string,
+  now: Date
+): Promise<ReservationReleaseResult> {
+  const result: ReservationReleaseResult = { released: 0, failed: 0 };
+
+  for (const reservation of reservations) {
+    try {
+      await moveInventory(admin, { ...reservation, direction: "release" });
+      await db.inventoryReservation.update({
+        where: { id: reservation.id },
+        data: { status: "released", releasedAt: now, releaseReason: reason, error: null },
+      });
+      result.released++;
+    } catch (error) {
+      console.error(`Failed to release inventory reservation ${reservation.id}:`, error);
+      await db.inventoryReservation.update({
+        where: { id: reservation.id },
+        data: { error: error instanceof Error ? error.message : "Could not release stock" },
+      });
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+// Puts a return's reserved stock back on sale: the exchange order was placed,
+// the return was closed or the replacement is no longer wanted. Reservations
+// that fail to release are retried when they expire.
+export async function releaseExchangeReservations(
+  admin: AdminGraphQL,
+  returnRequestId: string,
+  reason: string,
+  now = new Date()
+): Promise<ReservationReleaseResult> {
+  const reservations = await db.inventoryReservation.findMany({
+    where: { returnRequestId, status: "reserved" },
+  });
+  return releaseReservations(admin, reservations, reason, now);
+}
+
+// For webhooks that close returns by order: releases whatever the order's
+// declined and cancelled returns still hold.
+export async function releaseClosedOrderReservations(
+  admin: AdminGraphQL,
+  shop: string,
+  shopifyOrderId: string,
+  reason: string,
+  now = new Date()
+): Promise<ReservationReleaseResult> {
+  const reservations = await db.inventoryReservation.findMany({
+    where: {
+      status: "reserved",
+      returnRequest: { shop, shopifyOrderId, status: { in: ["declined", "cancelled"] } },
+    },
+  });
+  return releaseReservations(admin, reservations, reason, now);
+}
+
+// Scheduled: releases reservations past their expiry, including ones whose
+// earlier release failed. Those are tried again after the others.
+export async function expireExchangeReservations(
+  options: { getAdmin: AdminResolver; now?: Date; limit?: number }
+): Promise<ReservationExpiryResult> {
+  const now = options.now ?? new Date();
+
+  const expired = await db.inventoryReservation.findMany({
+    where: { status: "reserved", expiresAt: { lte: now } },
+    include: { returnRequest: { select: { shop: true } } },
+    orderBy: { updatedAt: "asc" },
+    take: options.limit ?? 50,
+  });
+
+  const result: ReservationExpiryResult = { checked: expired.length, released: 0, failed: 0 };
+  const admins = new Map<string, AdminGraphQL>();
+
+  for (const { returnRequest, ...reservation } of expired) {
+    try {
+      let admin = admins.get(returnRequest.shop);
+      if (!admin) {
+        admin = await options.getAdmin(returnRequest.shop);
+        admins.set(returnRequest.shop, admin);
+      }
+
+      const released = await releaseReservations(admin, [reservation], "Reservation expired", now);
+      result.released += released.released;
+      result.failed += released.failed;
+    } catch (error) {
+      console.error(`Failed to expire inventory reservation ${reservation.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+export interface SecuredExchange {
+  // Replacements to order, with second choices swapped in where needed
+  lineItems: ExchangeCartItem[];
+  // Lines where neither choice is in stock
+  soldOut: ExchangeCartItem[];
+}
+
+// Checks each replacement can still be ordered when the exchange is about to
+// be placed. A line is covered by stock the return reserved, or else by stock
+// on sale now; when the first choice has neither the second choice is tried.
+export async function secureExchangeStock(
+  admin: AdminGraphQL,
+  returnRequestId: string,
+  lineItems: ExchangeCartItem[]
+): Promise<SecuredExchange> {
+  const reservations = await db.inventoryReservation.findMany({
+    where: { returnRequestId, status: "reserved" },
+  });
+  const claimed = new Set<string>();
+  const secured: SecuredExchange = { lineItems: [], soldOut: [] };
+
+  for (const line of lineItems) {
+    let covered: ExchangeCartItem | null = null;
+
+    for (const choice of exchangeChoices(line)) {
+      const reservation = reservations.find(
+        (r) =>
+          !claimed.has(r.id) && r.variantId === choice.variantId && r.quantity >= choice.quantity
+      );
+      if (reservation) {
+        claimed.add(reservation.id);
+        covered = choice;
+        break;
+      }
+
+      const stock = await fetchVariantStock(admin, choice.variantId);
+      if (stock && (stock.unlimited || findStockLocation(stock, choice.quantity))) {
+        covered = choice;
+        break;
+      }
+    }
+
+    if (covered) {
+      secured.lineItems.push(covered);
+    } else {
+      secured.soldOut.push(line);
+    }
+  }
+
+  return secured;
+}
@@ -0,0 +1,432 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
+import {
+  applyRequestedResolution,
+  availableResolutions,
+  canShopForExchange,
+  parseStorefrontCart,
+  requestShopNowExchange,
+  settleReturnResolution,
+} from "./resolution.server";
+import {
+  completeDraftOrder,
+  createExchangeForReturn,
+  getExchangeSettings,
+  issueRemainingExchangeCredit,
+  issueStoreCredit,
+  quoteExchangeCart,
+} from "./exchange.server";
+import { sendStoreCreditNotification } from "./notifications.server";
+import { releaseExchangeReservations, secureExchangeStock } from "./reservation.server";
+import { getInstantExchangeSettings, shipInstantExchange } from "./instant-exchange.server";
+import { createMockReturnRequest, mockShop } from "../../test/fixtures";
+
+vi.mock("./exchange.server", () => ({
+  completeDraftOrder: vi.fn(),
+  createExchangeForReturn: vi.fn(),
+  getExchangeSettings: vi.fn(),
+  issueRemainingExchangeCredit: vi.fn(),
+  issueStoreCredit: vi.fn(),
+  quoteExchangeCart: vi.fn(),
+}));
+
+vi.mock("./instant-exchange.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./instant-exchange.server")>()),
+  getInstantExchangeSettings: vi.fn(),
+  shipInstantExchange: vi.fn(),
+}));
+
+vi.mock("./reservation.server", () => ({
+  releaseExchangeReservations: vi.fn(),
+  secureExchangeStock: vi.fn(),
+}));
+
+vi.mock("./notifications.server", () => ({
+  sendStoreCreditNotification: vi.fn(),
+}));
+
+const admin = { graphql: vi.fn() };
+
+const replacement = {
+  variantId: "gid://shopify/ProductVariant/2",
+  quantity: 1,
+  title: "Test Product",
+  variantTitle: "Large",
+  price: 60,
+};
+
+const exchange = {
+  draftOrder: { id: "gid://shopify/DraftOrder/1", name: "#D1", invoiceUrl: null, totalPrice: "0.00" },
+  completedOrder: null,
+  summary: {
+    returnValue: 100,
+    cartTotal: 60,
+    discountApplied: 60,
+    customerOwes: false,
+    amountDue: 0,
+    remainingCredit: 40,
+  },
+};
+
+function mockReturn(overrides: Record<string, unknown> = {}) {
+  vi.mocked(db.returnRequest.findUnique).mockResolvedValue(
+    createMockReturnRequest(overrides) as never
+  );
+}
+
+describe("Resolution Service", () => {
+  beforeEach(() => {
+    vi.mocked(db.returnRequest.update).mockResolvedValue(createMockReturnRequest());
+    vi.mocked(secureExchangeStock).mockImplementation((_admin, _id, lineItems) =>
+      Promise.resolve({ lineItems, soldOut: [] })
+    );
+    vi.mocked(createExchangeForReturn).mockResolvedValue(exchange);
+    vi.mocked(getInstantExchangeSettings).mockResolvedValue({
+      instantExchangeEnabled: false,
+      instantExchangeMaxRiskLevel: "low",
+      instantExchangeReturnDays: 21,
+    });
+  });
+
+  describe("availableResolutions", () => {
+    it("always offers a refund alongside the enabled options", () => {
+      expect(availableResolutions({ storeCreditEnabled: true, exchangeEnabled: false })).toEqual([
+        "refund",
+        "store_credit",
+      ]);
+      expect(availableResolutions({ storeCreditEnabled: false, exchangeEnabled: false })).toEqual([
+        "refund",
+      ]);
+    });
+  });
+
+  describe("applyRequestedResolution", () => {
+    it("records a store credit choice without issuing the credit yet", async () => {
+      mockReturn({ requestedResolution: "store_credit" });
+
+      const outcome = await applyRequestedResolution(admin, "return_123");
+
+      expect(outcome).toEqual({ status: "applied", resolution: "store_credit" });
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_123" },
+        data: { resolutionType: "store_credit", resolutionError: null },
+      });
+      expect(issueStoreCredit).not.toHaveBeenCalled();
+    });
+
+    it("creates the exchange draft order from the chosen replacements", async () => {
+      mockReturn({ requestedResolution: "exchange", requestedExchange: [replacement] });
+
+      const outcome = await applyRequestedResolution(admin, "return_123");
+
+      expect(outcome.status).toBe("applied");
+      expect(createExchangeForReturn).toHaveBeenCalledWith(
+        admin,
+        expect.objectContaining({ id: "return_123" }),
+        [replacement],
+        { exchangeType: "variant" }
+      );
+    });
+
+    it("ships the replacement straight away for a trusted customer", async () => {
+      const instantSettings = {
+        instantExchangeEnabled: true,
+        instantExchangeMaxRiskLevel: "low",
+        instantExchangeReturnDays: 21,
+      };
+      mockReturn({ requestedResolution: "exchange", requestedExchange: [replacement], riskScore: 10 });
+      vi.mocked(getInstantExchangeSettings).mockResolvedValue(instantSettings);
+      await applyRequestedResolution(admin, "return_123");
+
+      expect(shipInstantExchange).toHaveBeenCalledWith(
+        admin,
+        expect.objectContaining({ id: "return_123" }),
+        exchange,
+        instantSettings
+      );
+
+      vi.mocked(shipInstantExchange).mockClear();
+      mockReturn({ requestedResolution: "exchange", requestedExchange: [replacement], riskScore: 70 });
+      await applyRequestedResolution(admin, "return_123");
+      expect(shipInstantExchange).not.toHaveBeenCalled();
+    });
+
+    it("orders the customer's second choice when the first sold out", async () => {
+      const secondChoice = { ...replacement, variantId: "gid://shopify/ProductVariant/3", price: 55 };
+      mockReturn({
+        requestedResolution: "exchange",
+        requestedExchange: [
+          { ...replacement, alternative: { variantId: secondChoice.variantId, price: 55 } },
+        ],
+      });
+      vi.mocked(secureExchangeStock).mockResolvedValue({ lineItems: [secondChoice], soldOut: [] });
+
+      await applyRequestedResolution(admin, "return_123");
+
+      expect(createExchangeForReturn).toHaveBeenCalledWith(
+        admin,
+        expect.objectContaining({ id: "return_123" }),
+        [secondChoice],
+        { exchangeType: "variant" }
+      );
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_123" },
+        data: { requestedExchange: [secondChoice], resolutionError: null },
+      });
+    });
+
+    it("falls back to store credit when every choice sold out", async () => {
+      mockReturn({ requestedResolution: "exchange", requestedExchange: [replacement] });
+      vi.mocked(secureExchangeStock).mockResolvedValue({ lineItems: [], soldOut: [replacement] });
+      vi.mocked(getExchangeSettings).mockResolvedValue({
+        storeCreditEnabled: true,
+        storeCreditBonusPercent: 10,
+        storeCreditExpiryDays: null,
+        exchangeEnabled: true,
+        shopNowExchangeEnabled: true,
+        exchangePaymentDays: 7,
+      });
+
+      const outcome = await applyRequestedResolution(admin, "return_123");
+
+      const message = "Test Product (Large) sold out, so the exchange was changed to store credit";
+      expect(outcome).toEqual({ status: "applied", resolution: "store_credit", error: message });
+      expect(createExchangeForReturn).not.toHaveBeenCalled();
+      expect(releaseExchangeReservations).toHaveBeenCalledWith(
+        admin,
+        "return_123",
+        "Replacement sold out"
+      );
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_123" },
+        data: { resolutionType: "store_credit", resolutionError: message },
+      });
+    });
+
+    it("records why an exchange could not be created", async () => {
+      mockReturn({ requestedResolution: "exchange", requestedExchange: [replacement] });
+      vi.mocked(createExchangeForReturn).mockRejectedValue(new Error("Variant is sold out"));
+
+      const outcome = await applyRequestedResolution(admin, "return_123");
+
+      expect(outcome).toEqual({ status: "failed", resolution: "exchange", error: "Variant is sold out" });
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_123" },
+        data: { resolutionError: "Variant is sold out" },
+      });
+    });
+
+    it("leaves returns alone when staff already chose a resolution", async () => {
+      mockReturn({ requestedResolution: "store_credit", resolutionType: "refund" });
+
+      const outcome = await applyRequestedResolution(admin, "return_123");
+
+      expect(outcome.status).toBe("skipped");
+      expect(db.returnRequest.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("settleReturnResolution", () => {
+    it("issues the store credit and emails the gift card code", async () => {
+      mockReturn({ resolutionType: "store_credit", totalRefundAmount: 100 });
+      vi.mocked(issueStoreCredit).mockResolvedValue({
+        giftCardCode: "CREDIT123",
+        amount: 110,
+        bonusValue: 10,
+      });
+
+      const outcome = await settleReturnResolution(admin, mockShop, "return_123");
+
+      expect(outcome).toEqual({ status: "applied", resolution: "store_credit" });
+      expect(sendStoreCreditNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ giftCardCode: "CREDIT123", creditAmount: 100, bonusAmount: 10 })
+      );
+    });
+
+    it("does not issue store credit twice", async () => {
+      mockReturn({ resolutionType: "store_credit", storeCreditCode: "CREDIT123" });
+
+      const outcome = await settleReturnResolution(admin, mockShop, "return_123");
+
+      expect(outcome.status).toBe("skipped");
+      expect(issueStoreCredit).not.toHaveBeenCalled();
+    });
+
+    it("completes the exchange draft, leaving any difference due", async () => {
+      mockReturn({
+        resolutionType: "exchange",
+        requestedResolution: "exchange",
+        exchangeType: "variant",
+        exchangeOrderId: "gid://shopify/DraftOrder/1",
+        exchangeValueUsed: 50,
+        requestedExchange: [replacement],
+      });
+      vi.mocked(completeDraftOrder).mockResolvedValue({
+        data: {
+          draftOrderComplete: {
+            draftOrder: { id: "gid://shopify/DraftOrder/1", order: { id: "gid://shopify/Order/2", name: "#1002" } },
+            userErrors: [],
+          },
+        },
+      });
+
+      const outcome = await settleReturnResolution(admin, mockShop, "return_123");
+
+      expect(outcome.status).toBe("applied");
+      expect(releaseExchangeReservations).toHaveBeenCalledWith(
+        admin,
+        "return_123",
+        "Exchange order placed"
+      );
+      expect(completeDraftOrder).toHaveBeenCalledWith(admin, "gid://shopify/DraftOrder/1", true);
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_123" },
+        data: { exchangeOrderId: "gid://shopify/Order/2", resolutionError: null },
+      });
+    });
+
+    it("sends the credit the exchange didn't use once the return completes", async () => {
+      mockReturn({
+        resolutionType: "exchange",
+        requestedResolution: "exchange",
+        exchangeOrderId: "gid://shopify/Order/2",
+        exchangeValueUsed: 60,
+        totalRefundAmount: 100,
+      });
+      vi.mocked(issueRemainingExchangeCredit).mockResolvedValue({
+        giftCardCode: "LEFTOVER40",
+        amount: 40,
+        bonusValue: 0,
+      });
+
+      const outcome = await settleReturnResolution(admin, mockShop, "return_123");
+
+      expect(outcome).toEqual({ status: "applied", resolution: "exchange" });
+      expect(completeDraftOrder).not.toHaveBeenCalled();
+      expect(sendStoreCreditNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ giftCardCode: "LEFTOVER40", creditAmount: 40, bonusAmount: 0 })
+      );
+
+      mockReturn({
+        resolutionType: "exchange",
+        exchangeValueUsed: 60,
+        storeCreditCode: "LEFTOVER40",
+      });
+      await settleReturnResolution(admin, mockShop, "return_123");
+      expect(issueRemainingExchangeCredit).toHaveBeenCalledTimes(1);
+    });
+
+    it("leaves exchanges built by staff for them to finish", async () => {
+      mockReturn({
+        resolutionType: "exchange",
+        exchangeType: "shop_now",
+        exchangeOrderId: "gid://shopify/DraftOrder/1",
+      });
+
+      const outcome = await settleReturnResolution(admin, mockShop, "return_123");
+
+      expect(outcome.status).toBe("skipped");
+      expect(completeDraftOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("shop-now exchanges", () => {
+    const quote = {
+      lineItems: [replacement],
+      returnValue: 50,
+      cartTotal: 60,
+      discountApplied: 50,
+      customerOwes: true,
+      amountDue: 10,
+      remainingCredit: 0,
+    };
+
+    it("accepts well-formed carts only", () => {
+      expect(
+        parseStorefrontCart([{ variantId: "gid://shopify/ProductVariant/2", quantity: "2" }])
+      ).toEqual([{ variantId: "gid://shopify/ProductVariant/2", quantity: 2 }]);
+      expect(parseStorefrontCart([])).toBeNull();
+      expect(parseStorefrontCart([{ variantId: "gid://shopify/Product/2", quantity: 1 }])).toBeNull();
+      expect(
+        parseStorefrontCart([{ variantId: "gid://shopify/ProductVariant/2", quantity: 0 }])
+      ).toBeNull();
+    });
+
+    it("is only offered until a resolution is chosen or the return is refunded", () => {
+      expect(canShopForExchange({ status: "pending", resolutionType: null })).toBe(true);
+      expect(canShopForExchange({ status: "approved", resolutionType: "exchange" })).toBe(false);
+      expect(canShopForExchange({ status: "refunded", resolutionType: null })).toBe(false);
+    });
+
+    it("records the cart at Shopify's prices and waits for a pending return's approval", async () => {
+      vi.mocked(quoteExchangeCart).mockResolvedValue(quote);
+      const returnRequest = createMockReturnRequest({ status: "pending" });
+
+      const result = await requestShopNowExchange(admin, returnRequest, [
+        { variantId: replacement.variantId, quantity: 1 },
+      ]);
+
+      expect(result).toEqual({ quote, outcome: null });
+      expect(db.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: "return_123" },
+        data: {
+          requestedResolution: "exchange",
+          requestedExchange: [replacement],
+          requestedExchangeType: "shop_now",
+          resolutionError: null,
+        },
+      });
+      expect(createExchangeForReturn).not.toHaveBeenCalled();
+      expect(releaseExchangeReservations).not.toHaveBeenCalled();
+    });
+
+    it("releases the stock held for a variant exchange it replaces", async () => {
+      vi.mocked(quoteExchangeCart).mockResolvedValue(quote);
+      const returnRequest = {
+        ...createMockReturnRequest({
+          status: "pending",
+          requestedResolution: "exchange",
+          requestedExchangeType: "variant",
+        }),
+        requestedExchange: [{ ...replacement, variantId: "gid://shopify/ProductVariant/9" }],
+      };
+
+      await requestShopNowExchange(admin, returnRequest, [
+        { variantId: replacement.variantId, quantity: 1 },
+      ]);
+
+      expect(releaseExchangeReservations).toHaveBeenCalledWith(
+        admin,
+        "return_123",
+        "Exchange replaced by the customer"
+      );
+      expect(vi.mocked(releaseExchangeReservations).mock.invocationCallOrder[0]).toBeLessThan(
+        vi.mocked(db.returnRequest.update).mock.invocationCallOrder[0]
+      );
+    });
+
+    it("places the exchange straight away for an approved return", async () => {
+      vi.mocked(quoteExchangeCart).mockResolvedValue(quote);
+      mockReturn({
+        status: "approved",
+        requestedResolution: "exchange",
+        requestedExchange: [replacement],
+        requestedExchangeType: "shop_now",
+      });
+
+      const result = await requestShopNowExchange(
+        admin,
+        createMockReturnRequest({ status: "approved" }),
+        [{ variantId: replacement.variantId, quantity: 1 }]
+      );
+
+      expect(result.outcome?.status).toBe("applied");
+      expect(createExchangeForReturn).toHaveBeenCalledWith(
+        admin,
+        expect.objectContaining({ id: "return_123" }),
+        [replacement],
+        { exchangeType: "shop_now" }
+      );
+    });
+  });
+});
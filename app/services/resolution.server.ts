@@ -0,0 +1,366 @@
+import type { Prisma, ReturnRequest } from "@prisma/client";
+import db from "../db.server";
+import {
+  completeDraftOrder,
+  createExchangeForReturn,
+  getExchangeSettings,
+  issueRemainingExchangeCredit,
+  issueStoreCredit,
+  quoteExchangeCart,
+  type ExchangeCartItem,
+  type ExchangeOrderResult,
+  type ExchangeQuote,
+  type ResolutionType,
+  type StoreCreditResult,
+} from "./exchange.server";
+import type { ReturnStatus } from "../utils/return-status";
+import { sendStoreCreditNotification } from "./notifications.server";
+import { releaseExchangeReservations, secureExchangeStock } from "./reservation.server";
+import {
+  getInstantExchangeSettings,
+  isInstantExchangeEligible,
+  shipInstantExchange,
+} from "./instant-exchange.server";
+
+type AdminGraphQL = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+export const RESOLUTION_TYPES: readonly ResolutionType[] = ["refund", "store_credit", "exchange"];
+
+export function isResolutionType(value: unknown): value is ResolutionType {
+  return typeof value === "string" && (RESOLUTION_TYPES as readonly string[]).includes(value);
+}
+
+// Resolutions customers may choose in the portal. Refunds are always offered.
+export function availableResolutions(settings: {
+  storeCreditEnabled: boolean;
+  exchangeEnabled: boolean;
+}): ResolutionType[] {
+  return RESOLUTION_TYPES.filter(
+    (type) =>
+      type === "refund" ||
+      (type === "store_credit" && settings.storeCreditEnabled) ||
+      (type === "exchange" && settings.exchangeEnabled)
+  );
+}
+
+export interface ResolutionOutcome {
+  status: "applied" | "skipped" | "failed";
+  resolution: ResolutionType | null;
+  error?: string;
+  // The exchange order, when one was created
+  exchange?: ExchangeOrderResult;
+}
+
+function isExchangeCartItemList(value: unknown): value is ExchangeCartItem[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (item) =>
+        typeof item === "object" &&
+        item !== null &&
+        typeof item.variantId === "string" &&
+        typeof item.quantity === "number" &&
+        typeof item.price === "number"
+    )
+  );
+}
+
+export function getRequestedExchange(
+  returnRequest: Pick<ReturnRequest, "requestedExchange">
+): ExchangeCartItem[] {
+  return isExchangeCartItemList(returnRequest.requestedExchange)
+    ? returnRequest.requestedExchange
+    : [];
+}
+
+async function recordFailure(
+  returnRequestId: string,
+  resolution: ResolutionType,
+  error: unknown
+): Promise<ResolutionOutcome> {
+  const message = error instanceof Error ? error.message : "Could not apply resolution";
+  console.error(`Resolution ${resolution} failed for return ${returnRequestId}:`, error);
+
+  await db.returnRequest.update({
+    where: { id: returnRequestId },
+    data: { resolutionError: message },
+  });
+
+  return { status: "failed", resolution, error: message };
+}
+
+// When a replacement sold out and so did the customer's second choice, the
+// exchange becomes store credit, or a refund when the shop doesn't offer
+// credit. The reason is kept on the return for staff.
+async function fallBackFromExchange(
+  admin: AdminGraphQL,
+  returnRequest: ReturnRequest,
+  soldOut: ExchangeCartItem[]
+): Promise<ResolutionOutcome> {
+  const settings = await getExchangeSettings(returnRequest.shop);
+  const fallback: ResolutionType = settings.storeCreditEnabled ? "store_credit" : "refund";
+  const names = soldOut
+    .map((item) => (item.variantTitle ? `${item.title} (${item.variantTitle})` : item.title))
+    .join(", ");
+  const message = `${names} sold out, so the exchange was changed to ${
+    fallback === "store_credit" ? "store credit" : "a refund"
+  }`;
+
+  await releaseExchangeReservations(admin, returnRequest.id, "Replacement sold out");
+  await db.returnRequest.update({
+    where: { id: returnRequest.id },
+    data: { resolutionType: fallback, resolutionError: message },
+  });
+
+  return { status: "applied", resolution: fallback, error: message };
+}
+
+// Applies the resolution the customer chose once the return is approved. A
+// refund or store credit is only recorded here; the money moves when the
+// return is completed. An exchange gets its replacement order as a draft now,
+// so the price is fixed, and the draft is completed with the return. Sold out
+// replacements are swapped for the customer's second choice, if they gave one.
+// Trusted customers whose return covers the replacement get it shipped now.
+export async function applyRequestedResolution(
+  admin: AdminGraphQL,
+  returnRequestId: string
+): Promise<ResolutionOutcome> {
+  const returnRequest = await db.returnRequest.findUnique({ where: { id: returnRequestId } });
+  const resolution = returnRequest?.requestedResolution;
+
+  if (!returnRequest || returnRequest.resolutionType || !isResolutionType(resolution)) {
+    return { status: "skipped", resolution: null };
+  }
+
+  if (resolution !== "exchange") {
+    await db.returnRequest.update({
+      where: { id: returnRequestId },
+      data: { resolutionType: resolution, resolutionError: null },
+    });
+    return { status: "applied", resolution };
+  }
+
+  try {
+    const lineItems = getRequestedExchange(returnRequest);
+    if (lineItems.length === 0) {
+      throw new Error("No replacement items were chosen");
+    }
+
+    const secured = await secureExchangeStock(admin, returnRequestId, lineItems);
+    if (secured.soldOut.length > 0) {
+      return fallBackFromExchange(admin, returnRequest, secured.soldOut);
+    }
+
+    const exchange = await createExchangeForReturn(admin, returnRequest, secured.lineItems, {
+      exchangeType: returnRequest.requestedExchangeType === "shop_now" ? "shop_now" : "variant",
+    });
+    await db.returnRequest.update({
+      where: { id: returnRequestId },
+      data: {
+        requestedExchange: secured.lineItems as unknown as Prisma.InputJsonValue,
+        resolutionError: null,
+      },
+    });
+
+    const instantSettings = await getInstantExchangeSettings(returnRequest.shop);
+    if (
+      !exchange.summary.customerOwes &&
+      isInstantExchangeEligible(instantSettings, returnRequest)
+    ) {
+      await shipInstantExchange(admin, returnRequest, exchange, instantSettings);
+    }
+    return { status: "applied", resolution, exchange };
+  } catch (error) {
+    return recordFailure(returnRequestId, resolution, error);
+  }
+}
+
+async function sendGiftCard(
+  returnRequest: ReturnRequest,
+  credit: StoreCreditResult,
+  creditAmount: number
+): Promise<void> {
+  if (!credit.giftCardCode) {
+    return;
+  }
+  await sendStoreCreditNotification({
+    customerEmail: returnRequest.customerEmail,
+    customerName: returnRequest.customerName,
+    shopName: returnRequest.shop.replace(".myshopify.com", ""),
+    orderName: returnRequest.shopifyOrderName,
+    giftCardCode: credit.giftCardCode,
+    creditAmount,
+    bonusAmount: credit.bonusValue,
+    expiresOn: credit.expiresOn,
+  });
+}
+
+// Settles a store credit or exchange resolution when the return is completed:
+// the gift card is issued, or the exchange draft becomes an order. Amounts the
+// customer still owes for an exchange are left due on the order, and value an
+// exchange didn't use is sent as a gift card, only now that the items are back.
+export async function settleReturnResolution(
+  admin: AdminGraphQL,
+  shop: string,
+  returnRequestId: string
+): Promise<ResolutionOutcome> {
+  const returnRequest = await db.returnRequest.findUnique({ where: { id: returnRequestId } });
+
+  if (!returnRequest || returnRequest.shop !== shop) {
+    return { status: "skipped", resolution: null };
+  }
+
+  const { resolutionType } = returnRequest;
+
+  if (resolutionType === "store_credit" && !returnRequest.storeCreditCode) {
+    try {
+      const credit = await issueStoreCredit(admin, returnRequest);
+      await sendGiftCard(returnRequest, credit, returnRequest.totalRefundAmount);
+      return { status: "applied", resolution: resolutionType };
+    } catch (error) {
+      return recordFailure(returnRequestId, resolutionType, error);
+    }
+  }
+
+  if (resolutionType !== "exchange") {
+    return { status: "skipped", resolution: null };
+  }
+
+  try {
+    // Only exchange orders the customer chose are placed here; staff finish
+    // the ones they build in the admin themselves.
+    const placed =
+      returnRequest.requestedResolution === "exchange" &&
+      Boolean(returnRequest.exchangeOrderId?.includes("/DraftOrder/"));
+    if (placed) {
+      await placeRequestedExchange(admin, returnRequest);
+    }
+
+    const credit = returnRequest.storeCreditCode
+      ? null
+      : await issueRemainingExchangeCredit(admin, returnRequest);
+    if (credit) {
+      await sendGiftCard(returnRequest, credit, credit.amount);
+    }
+
+    return placed || credit
+      ? { status: "applied", resolution: resolutionType }
+      : { status: "skipped", resolution: null };
+  } catch (error) {
+    return recordFailure(returnRequestId, resolutionType, error);
+  }
+}
+
+async function placeRequestedExchange(
+  admin: AdminGraphQL,
+  returnRequest: ReturnRequest
+): Promise<void> {
+  const cartTotal = getRequestedExchange(returnRequest).reduce(
+    (sum, item) => sum + item.price * item.quantity,
+    0
+  );
+  const customerOwes = cartTotal > (returnRequest.exchangeValueUsed ?? 0) + 0.005;
+
+  // The order takes its stock from what's on sale, so the hold comes off first.
+  await releaseExchangeReservations(admin, returnRequest.id, "Exchange order placed");
+  const data = await completeDraftOrder(admin, returnRequest.exchangeOrderId as string, customerOwes);
+  const userErrors = data.data?.draftOrderComplete?.userErrors ?? [];
+  const order = data.data?.draftOrderComplete?.draftOrder?.order;
+  if (userErrors.length > 0 || !order) {
+    throw new Error(userErrors[0]?.message ?? "Exchange order was not created");
+  }
+
+  await db.returnRequest.update({
+    where: { id: returnRequest.id },
+    data: {
+      exchangeOrderId: order.id,
+      // An order with a balance due stays awaiting payment
+      ...(customerOwes ? {} : { exchangeOrderStatus: "ordered", exchangeOrderUpdatedAt: new Date() }),
+      resolutionError: null,
+    },
+  });
+}
+
+// Returns a customer can still shop the catalog for: not refunded or closed,
+// and without a resolution already chosen by staff.
+const SHOP_NOW_RETURN_STATUSES: readonly ReturnStatus[] = [
+  "pending",
+  "approved",
+  "awaiting_shipment",
+  "in_transit",
+  "received",
+  "inspected",
+];
+
+export function canShopForExchange(
+  returnRequest: Pick<ReturnRequest, "status" | "resolutionType">
+): boolean {
+  return (
+    !returnRequest.resolutionType &&
+    (SHOP_NOW_RETURN_STATUSES as readonly string[]).includes(returnRequest.status)
+  );
+}
+
+const MAX_CART_LINES = 20;
+const MAX_LINE_QUANTITY = 10;
+
+// Reads a cart sent from the storefront: variant IDs and quantities only.
+// Null when it is empty, too large or malformed.
+export function parseStorefrontCart(
+  value: unknown
+): { variantId: string; quantity: number }[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_CART_LINES) {
+    return null;
+  }
+
+  const cart = value.map((line) => ({
+    variantId: typeof line?.variantId === "string" ? line.variantId : "",
+    quantity: Number(line?.quantity),
+  }));
+
+  const valid = cart.every(
+    (line) =>
+      line.variantId.startsWith("gid://shopify/ProductVariant/") &&
+      Number.isInteger(line.quantity) &&
+      line.quantity >= 1 &&
+      line.quantity <= MAX_LINE_QUANTITY
+  );
+  return valid ? cart : null;
+}
+
+// Records the cart a customer built in the storefront catalog as their
+// requested exchange, priced by Shopify. Approved returns get the exchange
+// order straight away; pending ones get it when they are approved.
+export async function requestShopNowExchange(
+  admin: AdminGraphQL,
+  returnRequest: ReturnRequest,
+  cart: { variantId: string; quantity: number }[]
+): Promise<{ quote: ExchangeQuote; outcome: ResolutionOutcome | null }> {
+  const quote = await quoteExchangeCart(admin, returnRequest, cart);
+
+  // The cart replaces any exchange asked for earlier, so its stock goes back
+  // on sale.
+  if (returnRequest.requestedExchange) {
+    await releaseExchangeReservations(admin, returnRequest.id, "Exchange replaced by the customer");
+  }
+
+  await db.returnRequest.update({
+    where: { id: returnRequest.id },
+    data: {
+      requestedResolution: "exchange",
+      requestedExchange: quote.lineItems as unknown as Prisma.InputJsonValue,
+      requestedExchangeType: "shop_now",
+      resolutionError: null,
+    },
+  });
+
+  const outcome =
+    returnRequest.status === "pending"
+      ? null
+      : await applyRequestedResolution(admin, returnRequest.id);
+
+  return { quote, outcome };
+}
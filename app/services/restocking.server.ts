@@ -68,11 +68,17 @@ interface InventoryLevel {
   }>;
 }
 
+// Pass itemIds to restock only part of a return. Restocks driven by a completed
+// inspection skip the restockAutomatically setting, since staff have already
+// graded the items, and only put back the quantity actually received. Pass
+// force when the merchant asked for this restock through another setting.
 export async function restockReturnedItems(
   admin: AdminGraphQL,
   returnRequestId: string,
-  locationId?: string
+  locationId?: string,
+  options: { itemIds?: string[]; fromInspection?: boolean; force?: boolean } = {}
 ): Promise<RestockResult[]> {
+  const { itemIds, fromInspection = false, force = false } = options;
   const returnRequest = await db.returnRequest.findUnique({
     where: { id: returnRequestId },
     include: {
@@ -85,8 +91,12 @@ export async function restockReturnedItems(
     throw new Error(`Return request not found: ${returnRequestId}`);
   }
 
-  if (!returnRequest.shopSettings.restockAutomatically) {
-    return returnRequest.items.map((item) => ({
+  const items = itemIds
+    ? returnRequest.items.filter((item) => itemIds.includes(item.id))
+    : returnRequest.items;
+
+  if (!fromInspection && !force && !returnRequest.shopSettings.restockAutomatically) {
+    return items.map((item) => ({
       success: false,
       itemId: item.id,
       variantId: item.shopifyVariantId || "",
@@ -97,7 +107,7 @@ export async function restockReturnedItems(
 
   const results: RestockResult[] = [];
 
-  for (const item of returnRequest.items) {
+  for (const item of items) {
     if (item.restocked) {
       results.push({
         success: true,
@@ -109,12 +119,24 @@ export async function restockReturnedItems(
       continue;
     }
 
+    const quantity = item.quantityReceived ?? item.quantity;
+    if (quantity <= 0) {
+      results.push({
+        success: false,
+        itemId: item.id,
+        variantId: item.shopifyVariantId || "",
+        quantity: 0,
+        error: "No units received",
+      });
+      continue;
+    }
+
     if (!item.shopifyVariantId) {
       results.push({
         success: false,
         itemId: item.id,
         variantId: "",
-        quantity: item.quantity,
+        quantity,
         error: "No variant ID available",
       });
       continue;
@@ -124,7 +146,7 @@ export async function restockReturnedItems(
       const result = await restockVariant(
         admin,
         item.shopifyVariantId,
-        item.quantity,
+        quantity,
         locationId
       );
 
@@ -147,7 +169,7 @@ export async function restockReturnedItems(
         success: false,
         itemId: item.id,
         variantId: item.shopifyVariantId,
-        quantity: item.quantity,
+        quantity,
         error: error instanceof Error ? error.message : "Unknown error",
       });
     }
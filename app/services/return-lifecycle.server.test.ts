@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
+import {
+  creationEvents,
+  merchantActor,
+  transitionOrderReturns,
+  transitionReturn,
+} from "./return-lifecycle.server";
+import { canInspectReturn, canTransition } from "../utils/return-status";
+import { mockShop, mockReturnRequest } from "../../test/fixtures";
+
+describe("Return Lifecycle Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("canTransition", () => {
+    it("follows the transition table", () => {
+      expect(canTransition("pending", "approved")).toBe(true);
+      expect(canTransition("approved", "in_transit")).toBe(true);
+      expect(canTransition("in_transit", "received")).toBe(true);
+      expect(canTransition("pending", "completed")).toBe(false);
+      expect(canTransition("completed", "refunded")).toBe(false);
+      expect(canTransition("declined", "approved")).toBe(false);
+    });
+
+    it("rejects unknown statuses", () => {
+      expect(canTransition("archived", "completed")).toBe(false);
+    });
+
+    it("lets parcels be inspected before they are marked received", () => {
+      expect(canInspectReturn("in_transit")).toBe(true);
+      expect(canInspectReturn("received")).toBe(true);
+      expect(canInspectReturn("pending")).toBe(false);
+      expect(canInspectReturn("completed")).toBe(false);
+    });
+  });
+
+  describe("transitionReturn", () => {
+    it("updates the status and records an event", async () => {
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+        shop: mockShop,
+        status: "pending",
+      } as never);
+      vi.mocked(db.returnRequest.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(db.returnRequest.findUniqueOrThrow).mockResolvedValue({
+        ...mockReturnRequest,
+        status: "approved",
+      });
+
+      const approvedAt = new Date();
+      const result = await transitionReturn(
+        "return_123",
+        "approved",
+        { type: "merchant", name: "staff@example.com" },
+        { shop: mockShop, reason: "Looks good", data: { approvedAt } }
+      );
+
+      expect(db.returnRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: "return_123", status: "pending" },
+        data: { approvedAt, status: "approved" },
+      });
+      expect(db.returnEvent.create).toHaveBeenCalledWith({
+        data: {
+          returnRequestId: "return_123",
+          fromStatus: "pending",
+          toStatus: "approved",
+          actor: "merchant",
+          actorName: "staff@example.com",
+          reason: "Looks good",
+        },
+      });
+      expect(result.status).toBe("approved");
+    });
+
+    it("rejects moves the transition table doesn't allow", async () => {
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+        shop: mockShop,
+        status: "completed",
+      } as never);
+
+      await expect(
+        transitionReturn("return_123", "approved", { type: "merchant" })
+      ).rejects.toThrow("A return that is completed can't be marked as approved");
+      expect(db.returnRequest.updateMany).not.toHaveBeenCalled();
+      expect(db.returnEvent.create).not.toHaveBeenCalled();
+    });
+
+    it("rejects returns from another shop", async () => {
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+        shop: "other-shop.myshopify.com",
+        status: "pending",
+      } as never);
+
+      await expect(
+        transitionReturn("return_123", "approved", { type: "merchant" }, { shop: mockShop })
+      ).rejects.toThrow("Return request not found: return_123");
+    });
+
+    it("fails when the return changed since it was read", async () => {
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+        shop: mockShop,
+        status: "pending",
+      } as never);
+      vi.mocked(db.returnRequest.updateMany).mockResolvedValue({ count: 0 });
+
+      await expect(
+        transitionReturn("return_123", "declined", { type: "merchant" })
+      ).rejects.toThrow("updated by someone else");
+      expect(db.returnEvent.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("transitionOrderReturns", () => {
+    it("moves the return Shopify names and leaves the rest of the order alone", async () => {
+      vi.mocked(db.returnRequest.findMany).mockResolvedValueOnce([
+        { id: "return_1", status: "pending" },
+      ] as never);
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+        shop: mockShop,
+        status: "pending",
+      } as never);
+      vi.mocked(db.returnRequest.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(db.returnRequest.findUniqueOrThrow).mockResolvedValue(mockReturnRequest);
+
+      const moved = await transitionOrderReturns(
+        mockShop,
+        { shopifyReturnId: "gid://shopify/Return/1", shopifyOrderId: "gid://shopify/Order/1" },
+        "approved",
+        { type: "shopify" }
+      );
+
+      expect(moved).toBe(1);
+      expect(db.returnRequest.findMany).toHaveBeenCalledTimes(1);
+      expect(db.returnRequest.findMany).toHaveBeenCalledWith({
+        where: { shop: mockShop, shopifyReturnId: "gid://shopify/Return/1" },
+        select: { id: true, status: true },
+      });
+    });
+
+    it("falls back to the order's returns that can take the change", async () => {
+      vi.mocked(db.returnRequest.findMany).mockResolvedValueOnce([]).mockResolvedValueOnce([
+        { id: "return_1", status: "approved" },
+        { id: "return_2", status: "completed" },
+      ] as never);
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+        shop: mockShop,
+        status: "approved",
+      } as never);
+      vi.mocked(db.returnRequest.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(db.returnRequest.findUniqueOrThrow).mockResolvedValue(mockReturnRequest);
+
+      const moved = await transitionOrderReturns(
+        mockShop,
+        { shopifyReturnId: "gid://shopify/Return/1", shopifyOrderId: "gid://shopify/Order/1" },
+        "cancelled",
+        { type: "shopify" },
+        { reason: "Closed in Shopify" }
+      );
+
+      expect(moved).toBe(1);
+      expect(db.returnRequest.updateMany).toHaveBeenCalledTimes(1);
+      expect(db.returnRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: "return_1", status: "approved" },
+        data: { status: "cancelled" },
+      });
+    });
+  });
+
+  describe("creationEvents", () => {
+    it("records the request for pending returns", () => {
+      expect(creationEvents("pending", { type: "customer", name: "Jane" })).toEqual([
+        {
+          toStatus: "pending",
+          actor: "customer",
+          actorName: "Jane",
+          reason: "Return requested",
+        },
+      ]);
+    });
+
+    it("adds a system approval for auto-approved returns", () => {
+      const events = creationEvents("approved", { type: "shopify" }, "Returnless refund");
+
+      expect(events).toHaveLength(2);
+      expect(events[1]).toEqual({
+        fromStatus: "pending",
+        toStatus: "approved",
+        actor: "system",
+        reason: "Returnless refund",
+      });
+    });
+  });
+
+  describe("merchantActor", () => {
+    it("names staff from online sessions", () => {
+      expect(
+        merchantActor({ onlineAccessInfo: { associated_user: { email: "staff@example.com" } } })
+      ).toEqual({ type: "merchant", name: "staff@example.com" });
+      expect(merchantActor(null)).toEqual({ type: "merchant", name: null });
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import type { Prisma } from "@prisma/client";
+import db from "../db.server";
+import {
+  canTransition,
+  getReturnStatusLabel,
+  type ReturnActor,
+  type ReturnStatus,
+} from "../utils/return-status";
+
+export {
+  RETURN_STATUSES,
+  RETURN_TRANSITIONS,
+  canTransition,
+  getReturnStatusLabel,
+  isReturnStatus,
+  returnStatusLabels,
+  type ReturnActor,
+  type ReturnActorType,
+  type ReturnStatus,
+} from "../utils/return-status";
+
+export const SYSTEM_ACTOR: ReturnActor = { type: "system" };
+export const MERCHANT_ACTOR: ReturnActor = { type: "merchant" };
+export const SHOPIFY_ACTOR: ReturnActor = { type: "shopify" };
+
+interface StaffSession {
+  onlineAccessInfo?: { associated_user?: { email?: string | null } } | null;
+}
+
+// Staff can only be named when the app runs with online sessions.
+export function merchantActor(session?: StaffSession | null): ReturnActor {
+  return { type: "merchant", name: session?.onlineAccessInfo?.associated_user?.email ?? null };
+}
+
+export interface TransitionOptions<TInclude extends Prisma.ReturnRequestInclude> {
+  // Rejects returns that belong to another shop when given.
+  shop?: string;
+  reason?: string | null;
+  // Other fields to write together with the new status, such as timestamps.
+  data?: Omit<Prisma.ReturnRequestUpdateManyMutationInput, "status">;
+  include?: TInclude;
+}
+
+// The only way a return's status should change. Rejects moves the transition
+// table doesn't allow and records who made the change in the return's history.
+export async function transitionReturn<TInclude extends Prisma.ReturnRequestInclude = never>(
+  id: string,
+  to: ReturnStatus,
+  actor: ReturnActor,
+  options: TransitionOptions<TInclude> = {}
+): Promise<Prisma.ReturnRequestGetPayload<{ include: TInclude }>> {
+  const current = await db.returnRequest.findUnique({
+    where: { id },
+    select: { shop: true, status: true },
+  });
+
+  if (!current || (options.shop && current.shop !== options.shop)) {
+    throw new Error(`Return request not found: ${id}`);
+  }
+
+  if (!canTransition(current.status, to)) {
+    throw new Error(
+      `A return that is ${getReturnStatusLabel(current.status).toLowerCase()} can't be marked as ${getReturnStatusLabel(to).toLowerCase()}`
+    );
+  }
+
+  // Only applies if nobody else moved the return since it was read.
+  const { count } = await db.returnRequest.updateMany({
+    where: { id, status: current.status },
+    data: { ...options.data, status: to },
+  });
+
+  if (count === 0) {
+    throw new Error("This return was updated by someone else. Please refresh and try again.");
+  }
+
+  await db.returnEvent.create({
+    data: {
+      returnRequestId: id,
+      fromStatus: current.status,
+      toStatus: to,
+      actor: actor.type,
+      actorName: actor.name ?? null,
+      reason: options.reason ?? null,
+    },
+  });
+
+  return db.returnRequest.findUniqueOrThrow({
+    where: { id },
+    include: options.include,
+  }) as Promise<Prisma.ReturnRequestGetPayload<{ include: TInclude }>>;
+}
+
+// Applies a change Shopify reported for one of its returns. Returns created
+// here aren't linked to Shopify's, so without a match the change goes to every
+// return on the order that can take it. Returns already past that point are
+// left alone.
+export async function transitionOrderReturns(
+  shop: string,
+  target: { shopifyReturnId: string; shopifyOrderId: string },
+  to: ReturnStatus,
+  actor: ReturnActor,
+  options: Omit<TransitionOptions<never>, "shop" | "include"> = {}
+): Promise<number> {
+  const select = { id: true, status: true } as const;
+  let returns = await db.returnRequest.findMany({
+    where: { shop, shopifyReturnId: target.shopifyReturnId },
+    select,
+  });
+  if (returns.length === 0) {
+    returns = await db.returnRequest.findMany({
+      where: { shop, shopifyOrderId: target.shopifyOrderId },
+      select,
+    });
+  }
+
+  let moved = 0;
+  for (const returnRequest of returns) {
+    if (!canTransition(returnRequest.status, to)) {
+      console.log(
+        `Skipping return ${returnRequest.id}: ${returnRequest.status} can't move to ${to}`
+      );
+      continue;
+    }
+    await transitionReturn(returnRequest.id, to, actor, { ...options, shop });
+    moved++;
+  }
+  return moved;
+}
+
+// Timeline entries for a return that is created directly in `status`.
+export function creationEvents(
+  status: "pending" | "approved",
+  submittedBy: ReturnActor,
+  approvalReason?: string | null
+): Prisma.ReturnEventCreateWithoutReturnRequestInput[] {
+  const submitted = {
+    toStatus: "pending",
+    actor: submittedBy.type,
+    actorName: submittedBy.name ?? null,
+    reason: "Return requested",
+  };
+
+  if (status === "pending") {
+    return [submitted];
+  }
+
+  return [
+    submitted,
+    {
+      fromStatus: "pending",
+      toStatus: "approved",
+      actor: SYSTEM_ACTOR.type,
+      reason: approvalReason ?? "Approved automatically",
+    },
+  ];
+}
+
+export async function getReturnEvents(returnRequestId: string) {
+  return db.returnEvent.findMany({
+    where: { returnRequestId },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+}
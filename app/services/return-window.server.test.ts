@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
+import {
+  addReturnWindowRule,
+  collectLineItemFulfillments,
+  evaluateReturnWindows,
+  removeReturnWindowRule,
+  resolveWindowDays,
+} from "./return-window.server";
+import { mockShop } from "../../test/fixtures";
+
+const rules = [
+  { type: "product_type", value: "swimwear", windowDays: 14 },
+  { type: "collection", value: "holiday-gifts", windowDays: 60 },
+  { type: "collection", value: "outerwear", windowDays: 45 },
+];
+
+const policy = { returnWindowDays: 30 };
+
+describe("Return Windows", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("resolveWindowDays", () => {
+    it("uses the shop default when no override matches", () => {
+      expect(resolveWindowDays(30, rules, { id: "line_1", productType: "Shirts" })).toBe(30);
+    });
+
+    it("matches product types and collection handles case-insensitively", () => {
+      expect(resolveWindowDays(30, rules, { id: "line_1", productType: "Swimwear" })).toBe(14);
+      expect(resolveWindowDays(30, rules, { id: "line_1", collections: ["Outerwear"] })).toBe(45);
+    });
+
+    it("applies the longest window when several overrides match", () => {
+      const item = {
+        id: "line_1",
+        productType: "swimwear",
+        collections: ["outerwear", "holiday-gifts"],
+      };
+
+      expect(resolveWindowDays(30, rules, item)).toBe(60);
+    });
+  });
+
+  describe("collectLineItemFulfillments", () => {
+    it("keeps the latest fulfillment and sums quantities for items shipped in several parcels", () => {
+      const fulfillments = collectLineItemFulfillments([
+        {
+          createdAt: "2026-01-10T00:00:00Z",
+          deliveredAt: null,
+          fulfillmentLineItems: { nodes: [{ lineItem: { id: "line_1" }, quantity: 1 }] },
+        },
+        {
+          createdAt: "2026-01-05T00:00:00Z",
+          deliveredAt: "2026-01-08T00:00:00Z",
+          fulfillmentLineItems: {
+            nodes: [
+              { lineItem: { id: "line_1" }, quantity: 2 },
+              { lineItem: { id: "line_2" }, quantity: 1 },
+            ],
+          },
+        },
+      ]);
+
+      expect(fulfillments.get("line_1")).toEqual({
+        fulfilledAt: "2026-01-10T00:00:00Z",
+        deliveredAt: null,
+        quantity: 3,
+      });
+      expect(fulfillments.get("line_2")).toEqual({
+        fulfilledAt: "2026-01-05T00:00:00Z",
+        deliveredAt: "2026-01-08T00:00:00Z",
+        quantity: 1,
+      });
+    });
+  });
+
+  describe("evaluateReturnWindows", () => {
+    const now = new Date("2026-02-10T12:00:00Z");
+
+    it("starts the window at delivery and falls back to the fulfillment date", () => {
+      const [delivered, fulfilled] = evaluateReturnWindows(
+        policy,
+        [],
+        "2026-01-01T00:00:00Z",
+        [
+          { id: "line_1", fulfilledAt: "2026-01-02T12:00:00Z", deliveredAt: "2026-01-12T12:00:00Z" },
+          { id: "line_2", fulfilledAt: "2026-01-02T12:00:00Z", deliveredAt: null },
+        ],
+        now
+      );
+
+      expect(delivered).toEqual({
+        lineItemId: "line_1",
+        windowDays: 30,
+        deadline: new Date("2026-02-11T12:00:00Z"),
+        eligible: true,
+      });
+      expect(fulfilled.eligible).toBe(false);
+      expect(fulfilled.reason).toBe("The return window for this item ended on February 1, 2026.");
+    });
+
+    it("applies overrides per line item", () => {
+      const [swimwear, shirt] = evaluateReturnWindows(
+        policy,
+        rules,
+        "2026-01-20T00:00:00Z",
+        [
+          { id: "line_1", productType: "Swimwear", deliveredAt: "2026-01-25T00:00:00Z" },
+          { id: "line_2", productType: "Shirts", deliveredAt: "2026-01-25T00:00:00Z" },
+        ],
+        now
+      );
+
+      expect(swimwear.windowDays).toBe(14);
+      expect(swimwear.eligible).toBe(false);
+      expect(shirt.eligible).toBe(true);
+    });
+
+    it("rejects items that haven't shipped", () => {
+      const [item] = evaluateReturnWindows(policy, [], null, [{ id: "line_1" }], now);
+
+      expect(item).toEqual({
+        lineItemId: "line_1",
+        windowDays: 30,
+        deadline: null,
+        eligible: false,
+        reason: "This item hasn't shipped yet.",
+      });
+    });
+
+    it("extends the deadline for orders placed during the holiday period", () => {
+      const holidayPolicy = {
+        returnWindowDays: 30,
+        holidayWindowStart: new Date("2025-11-15"),
+        holidayWindowEnd: new Date("2025-12-24"),
+        holidayReturnDeadline: new Date("2026-01-31"),
+      };
+      const items = [{ id: "line_1", deliveredAt: "2025-12-20T00:00:00Z" }];
+      const lateJanuary = new Date("2026-01-25T00:00:00Z");
+
+      const [holidayOrder] = evaluateReturnWindows(
+        holidayPolicy,
+        [],
+        "2025-12-24T18:00:00Z",
+        items,
+        lateJanuary
+      );
+      const [regularOrder] = evaluateReturnWindows(
+        holidayPolicy,
+        [],
+        "2025-12-26T10:00:00Z",
+        items,
+        lateJanuary
+      );
+
+      expect(holidayOrder.eligible).toBe(true);
+      expect(holidayOrder.deadline).toEqual(new Date("2026-01-31T23:59:59.999Z"));
+      expect(regularOrder.eligible).toBe(false);
+    });
+
+    it("never shortens a regular window that ends after the holiday deadline", () => {
+      const [item] = evaluateReturnWindows(
+        {
+          returnWindowDays: 90,
+          holidayWindowStart: "2025-11-15",
+          holidayWindowEnd: "2025-12-24",
+          holidayReturnDeadline: "2026-01-31",
+        },
+        [],
+        "2025-12-01T00:00:00Z",
+        [{ id: "line_1", deliveredAt: "2025-12-05T00:00:00Z" }],
+        now
+      );
+
+      expect(item.deadline).toEqual(new Date("2026-03-05T00:00:00Z"));
+    });
+  });
+
+  describe("rule management", () => {
+    it("normalizes values and rejects duplicates", async () => {
+      vi.mocked(db.returnWindowRule.findFirst).mockResolvedValueOnce(null);
+
+      await addReturnWindowRule(mockShop, { type: "product_type", value: " Swimwear ", windowDays: 14 });
+
+      expect(db.returnWindowRule.create).toHaveBeenCalledWith({
+        data: { shop: mockShop, type: "product_type", value: "swimwear", windowDays: 14 },
+      });
+
+      vi.mocked(db.returnWindowRule.findFirst).mockResolvedValueOnce({ id: "rule_1" } as never);
+      await expect(
+        addReturnWindowRule(mockShop, { type: "collection", value: "outerwear", windowDays: 45 })
+      ).rejects.toThrow("A return window for outerwear already exists");
+    });
+
+    it("only removes rules that belong to the shop", async () => {
+      vi.mocked(db.returnWindowRule.deleteMany).mockResolvedValue({ count: 0 });
+
+      await expect(removeReturnWindowRule(mockShop, "rule_other")).rejects.toThrow(
+        "Return window rule not found"
+      );
+      expect(db.returnWindowRule.deleteMany).toHaveBeenCalledWith({
+        where: { id: "rule_other", shop: mockShop },
+      });
+    });
+  });
+});
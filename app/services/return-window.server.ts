@@ -0,0 +1,207 @@
+import type { ReturnWindowRule } from "@prisma/client";
+import db from "../db.server";
+import { normalizeWindowRuleValue, type WindowRuleType } from "../utils/return-window";
+
+export {
+  WINDOW_RULE_TYPES,
+  windowRuleTypeLabels,
+  type WindowRuleType,
+} from "../utils/return-window";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReturnWindowPolicy {
+  returnWindowDays: number;
+  holidayWindowStart?: Date | string | null;
+  holidayWindowEnd?: Date | string | null;
+  holidayReturnDeadline?: Date | string | null;
+}
+
+export interface WindowLineItem {
+  id: string;
+  productType?: string | null;
+  collections?: string[];
+  fulfilledAt?: string | null;
+  deliveredAt?: string | null;
+}
+
+export interface LineItemWindow {
+  lineItemId: string;
+  windowDays: number;
+  deadline: Date | null;
+  eligible: boolean;
+  reason?: string;
+}
+
+export interface LineItemFulfillment {
+  fulfilledAt: string;
+  deliveredAt: string | null;
+  quantity: number;
+}
+
+interface OrderFulfillment {
+  createdAt: string;
+  deliveredAt?: string | null;
+  fulfillmentLineItems?: { nodes?: Array<{ lineItem: { id: string }; quantity?: number }> };
+}
+
+type WindowRule = Pick<ReturnWindowRule, "type" | "value" | "windowDays">;
+
+// Settings dates are stored as midnight UTC; treat them as covering the whole day.
+function endOfDay(value: Date | string): Date {
+  const date = new Date(value);
+  date.setUTCHours(23, 59, 59, 999);
+  return date;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// Maps each line item to the total quantity shipped and the dates of the
+// latest fulfillment that shipped it, so split shipments start their window
+// when the last unit went out.
+export function collectLineItemFulfillments(
+  fulfillments: OrderFulfillment[] | null | undefined
+): Map<string, LineItemFulfillment> {
+  const result = new Map<string, LineItemFulfillment>();
+
+  for (const fulfillment of fulfillments ?? []) {
+    for (const node of fulfillment.fulfillmentLineItems?.nodes ?? []) {
+      const current = result.get(node.lineItem.id);
+      const quantity = (current?.quantity ?? 0) + (node.quantity ?? 0);
+      const isLatest =
+        !current || new Date(fulfillment.createdAt) > new Date(current.fulfilledAt);
+
+      result.set(
+        node.lineItem.id,
+        isLatest
+          ? { fulfilledAt: fulfillment.createdAt, deliveredAt: fulfillment.deliveredAt ?? null, quantity }
+          : { ...current, quantity }
+      );
+    }
+  }
+
+  return result;
+}
+
+// Product type and collection overrides replace the shop's default window.
+// When several overrides match, the longest window wins.
+export function resolveWindowDays(
+  defaultDays: number,
+  rules: WindowRule[],
+  item: WindowLineItem
+): number {
+  const productType = item.productType ? normalizeWindowRuleValue(item.productType) : null;
+  const collections = new Set((item.collections ?? []).map(normalizeWindowRuleValue));
+
+  const matches = rules.filter(
+    (rule) =>
+      (rule.type === "product_type" && rule.value === productType) ||
+      (rule.type === "collection" && collections.has(rule.value))
+  );
+
+  return matches.length > 0
+    ? Math.max(...matches.map((rule) => rule.windowDays))
+    : defaultDays;
+}
+
+function holidayDeadline(policy: ReturnWindowPolicy, orderCreatedAt?: string | null): Date | null {
+  const { holidayWindowStart, holidayWindowEnd, holidayReturnDeadline } = policy;
+  if (!holidayWindowStart || !holidayWindowEnd || !holidayReturnDeadline || !orderCreatedAt) {
+    return null;
+  }
+
+  const placedAt = new Date(orderCreatedAt);
+  const inPeriod =
+    placedAt >= new Date(holidayWindowStart) && placedAt <= endOfDay(holidayWindowEnd);
+
+  return inPeriod ? endOfDay(holidayReturnDeadline) : null;
+}
+
+// The window starts at delivery, falling back to the fulfillment date when the
+// carrier never reported one. Items that haven't shipped can't be returned yet.
+export function evaluateReturnWindows(
+  policy: ReturnWindowPolicy,
+  rules: WindowRule[],
+  orderCreatedAt: string | null | undefined,
+  lineItems: WindowLineItem[],
+  now: Date = new Date()
+): LineItemWindow[] {
+  const holiday = holidayDeadline(policy, orderCreatedAt);
+
+  return lineItems.map((item) => {
+    const windowDays = resolveWindowDays(policy.returnWindowDays, rules, item);
+    const startedAt = item.deliveredAt ?? item.fulfilledAt;
+
+    if (!startedAt) {
+      return {
+        lineItemId: item.id,
+        windowDays,
+        deadline: null,
+        eligible: false,
+        reason: "This item hasn't shipped yet.",
+      };
+    }
+
+    const regular = new Date(new Date(startedAt).getTime() + windowDays * DAY_MS);
+    const deadline = holiday && holiday > regular ? holiday : regular;
+
+    if (now > deadline) {
+      return {
+        lineItemId: item.id,
+        windowDays,
+        deadline,
+        eligible: false,
+        reason: `The return window for this item ended on ${formatDate(deadline)}.`,
+      };
+    }
+
+    return { lineItemId: item.id, windowDays, deadline, eligible: true };
+  });
+}
+
+export async function getReturnWindowRules(shop: string) {
+  return db.returnWindowRule.findMany({
+    where: { shop },
+    orderBy: [{ type: "asc" }, { value: "asc" }],
+  });
+}
+
+export async function addReturnWindowRule(
+  shop: string,
+  data: { type: WindowRuleType; value: string; windowDays: number }
+) {
+  const value = normalizeWindowRuleValue(data.value);
+
+  const existing = await db.returnWindowRule.findFirst({
+    where: { shop, type: data.type, value },
+  });
+  if (existing) {
+    throw new Error(`A return window for ${data.value.trim()} already exists`);
+  }
+
+  return db.returnWindowRule.create({
+    data: {
+      shop,
+      type: data.type,
+      value,
+      windowDays: data.windowDays,
+    },
+  });
+}
+
+export async function removeReturnWindowRule(shop: string, id: string) {
+  const result = await db.returnWindowRule.deleteMany({
+    where: { id, shop },
+  });
+
+  if (result.count === 0) {
+    throw new Error("Return window rule not found");
+  }
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
+import {
+  checkReturnlessEligibility,
+  evaluateReturnless,
+  normalizeReturnReason,
+  type ReturnlessSettings,
+} from "./returnless.server";
+import { mockShop } from "../../test/fixtures";
+
+const settings: ReturnlessSettings = {
+  returnlessEnabled: true,
+  returnlessThreshold: 15,
+  returnlessReasons: ["wrong_size", "no_longer_needed"],
+  returnlessMaxPerCustomer: 2,
+  returnlessPeriodDays: 30,
+};
+
+describe("Returnless Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("normalizeReturnReason", () => {
+    it("accepts portal reasons and Shopify enum values", () => {
+      expect(normalizeReturnReason("wrong_size")).toBe("wrong_size");
+      expect(normalizeReturnReason("SIZE_TOO_SMALL")).toBe("wrong_size");
+      expect(normalizeReturnReason("UNWANTED")).toBe("no_longer_needed");
+      expect(normalizeReturnReason("made up")).toBeNull();
+      expect(normalizeReturnReason(null)).toBeNull();
+    });
+  });
+
+  describe("evaluateReturnless", () => {
+    it("qualifies low-value returns with an eligible reason", () => {
+      const decision = evaluateReturnless(
+        settings,
+        [{ pricePerItem: 6, quantity: 2, reason: "wrong_size" }],
+        0
+      );
+
+      expect(decision).toEqual({
+        eligible: true,
+        reason: "Return value $12.00 is within the $15.00 threshold (wrong size)",
+      });
+    });
+
+    it("rejects returns above the threshold", () => {
+      const decision = evaluateReturnless(
+        settings,
+        [{ pricePerItem: 6, quantity: 3, reason: "wrong_size" }],
+        0
+      );
+
+      expect(decision.eligible).toBe(false);
+      expect(decision.reason).toContain("above the $15.00 threshold");
+    });
+
+    it("requires every item reason to be eligible", () => {
+      const decision = evaluateReturnless(
+        settings,
+        [
+          { pricePerItem: 5, quantity: 1, reason: "wrong_size" },
+          { pricePerItem: 5, quantity: 1, reason: "defective" },
+        ],
+        0
+      );
+
+      expect(decision.eligible).toBe(false);
+      expect(decision.reason).toContain('"defective"');
+    });
+
+    it("allows any reason when no reasons are selected", () => {
+      const decision = evaluateReturnless(
+        { ...settings, returnlessReasons: [] },
+        [{ pricePerItem: 5, quantity: 1, reason: "DEFECTIVE" }],
+        0
+      );
+
+      expect(decision.eligible).toBe(true);
+    });
+
+    it("enforces the per-customer limit", () => {
+      const items = [{ pricePerItem: 5, quantity: 1, reason: "wrong_size" }];
+
+      expect(evaluateReturnless(settings, items, 2).eligible).toBe(false);
+      expect(
+        evaluateReturnless({ ...settings, returnlessMaxPerCustomer: null }, items, 10).eligible
+      ).toBe(true);
+    });
+
+    it("does nothing when disabled", () => {
+      const decision = evaluateReturnless(
+        { ...settings, returnlessEnabled: false },
+        [{ pricePerItem: 1, quantity: 1, reason: "wrong_size" }],
+        0
+      );
+
+      expect(decision.eligible).toBe(false);
+    });
+  });
+
+  describe("checkReturnlessEligibility", () => {
+    it("counts the customer's returnless returns within the period", async () => {
+      vi.mocked(db.returnRequest.count).mockResolvedValue(2);
+
+      const decision = await checkReturnlessEligibility(
+        mockShop,
+        "Customer@Example.com",
+        [{ pricePerItem: 5, quantity: 1, reason: "wrong_size" }],
+        settings
+      );
+
+      expect(decision.eligible).toBe(false);
+      expect(db.returnRequest.count).toHaveBeenCalledWith({
+        where: {
+          shop: mockShop,
+          customerEmail: { equals: "Customer@Example.com", mode: "insensitive" },
+          isReturnless: true,
+          createdAt: { gte: expect.any(Date) },
+        },
+      });
+    });
+
+    it("skips the count when there is no limit", async () => {
+      const decision = await checkReturnlessEligibility(
+        mockShop,
+        "customer@example.com",
+        [{ pricePerItem: 5, quantity: 1, reason: "wrong_size" }],
+        { ...settings, returnlessMaxPerCustomer: null }
+      );
+
+      expect(decision.eligible).toBe(true);
+      expect(db.returnRequest.count).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import type { ShopSettings } from "@prisma/client";
+import db from "../db.server";
+import { normalizeReturnReason, returnReasonLabels } from "../utils/reasons";
+
+export { RETURN_REASONS, normalizeReturnReason } from "../utils/reasons";
+
+export type ReturnlessSettings = Pick<
+  ShopSettings,
+  | "returnlessEnabled"
+  | "returnlessThreshold"
+  | "returnlessReasons"
+  | "returnlessMaxPerCustomer"
+  | "returnlessPeriodDays"
+>;
+
+export interface ReturnlessItem {
+  pricePerItem: number;
+  quantity: number;
+  reason?: string | null;
+}
+
+export interface ReturnlessDecision {
+  eligible: boolean;
+  reason: string;
+}
+
+function formatAmount(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+// A return qualifies when its total value is within the threshold, every item's
+// reason is on the allowed list (an empty list allows any reason) and the
+// customer has not used up their returnless refunds for the period.
+export function evaluateReturnless(
+  settings: ReturnlessSettings,
+  items: ReturnlessItem[],
+  priorReturnlessCount: number
+): ReturnlessDecision {
+  if (!settings.returnlessEnabled) {
+    return { eligible: false, reason: "Returnless refunds are disabled" };
+  }
+
+  if (items.length === 0) {
+    return { eligible: false, reason: "No items to return" };
+  }
+
+  const total = items.reduce((sum, item) => sum + item.pricePerItem * item.quantity, 0);
+  if (total > settings.returnlessThreshold) {
+    return {
+      eligible: false,
+      reason: `Return value ${formatAmount(total)} is above the ${formatAmount(settings.returnlessThreshold)} threshold`,
+    };
+  }
+
+  if (settings.returnlessReasons.length > 0) {
+    const ineligible = items.find((item) => {
+      const reason = normalizeReturnReason(item.reason);
+      return !reason || !settings.returnlessReasons.includes(reason);
+    });
+
+    if (ineligible) {
+      return {
+        eligible: false,
+        reason: `Return reason "${ineligible.reason ?? "none"}" is not eligible for returnless refunds`,
+      };
+    }
+  }
+
+  if (
+    settings.returnlessMaxPerCustomer !== null &&
+    priorReturnlessCount >= settings.returnlessMaxPerCustomer
+  ) {
+    return {
+      eligible: false,
+      reason: `Customer has reached the limit of ${settings.returnlessMaxPerCustomer} returnless refunds in ${settings.returnlessPeriodDays} days`,
+    };
+  }
+
+  const reasons = Array.from(
+    new Set(
+      items
+        .map((item) => normalizeReturnReason(item.reason))
+        .filter((reason) => reason !== null)
+        .map((reason) => returnReasonLabels[reason].toLowerCase())
+    )
+  );
+
+  return {
+    eligible: true,
+    reason:
+      `Return value ${formatAmount(total)} is within the ${formatAmount(settings.returnlessThreshold)} threshold` +
+      (reasons.length > 0 ? ` (${reasons.join(", ")})` : ""),
+  };
+}
+
+export async function countRecentReturnlessReturns(
+  shop: string,
+  customerEmail: string,
+  periodDays: number
+): Promise<number> {
+  const since = new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000);
+
+  return db.returnRequest.count({
+    where: {
+      shop,
+      customerEmail: { equals: customerEmail, mode: "insensitive" },
+      isReturnless: true,
+      createdAt: { gte: since },
+    },
+  });
+}
+
+export async function checkReturnlessEligibility(
+  shop: string,
+  customerEmail: string,
+  items: ReturnlessItem[],
+  settings: ReturnlessSettings
+): Promise<ReturnlessDecision> {
+  if (!settings.returnlessEnabled) {
+    return evaluateReturnless(settings, items, 0);
+  }
+
+  const priorCount =
+    settings.returnlessMaxPerCustomer === null
+      ? 0
+      : await countRecentReturnlessReturns(shop, customerEmail, settings.returnlessPeriodDays);
+
+  return evaluateReturnless(settings, items, priorCount);
+}
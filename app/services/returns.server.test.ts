@@ -14,7 +14,12 @@ import {
   getRoutingRules,
   createRoutingRule,
   getReturnStats,
+  getReturnedQuantities,
+  findQuantityViolations,
 } from "./returns.server";
+import { issueReturnRefund } from "./refund.server";
+import { transitionReturn } from "./return-lifecycle.server";
+import { routeReturnFromOrder } from "./routing.server";
 import {
   mockShop,
   mockShopSettings,
@@ -25,6 +30,24 @@ import {
   createMockReturnRequest,
 } from "../../test/fixtures";
 
+vi.mock("./refund.server", () => ({
+  issueReturnRefund: vi.fn(),
+}));
+
+vi.mock("./resolution.server", () => ({
+  applyRequestedResolution: vi.fn(),
+  settleReturnResolution: vi.fn(),
+}));
+
+vi.mock("./routing.server", () => ({
+  routeReturnFromOrder: vi.fn(),
+}));
+
+vi.mock("./return-lifecycle.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./return-lifecycle.server")>()),
+  transitionReturn: vi.fn(),
+}));
+
 vi.mock("../db.server", () => ({
   default: {
     shopSettings: {
@@ -34,6 +57,7 @@ vi.mock("../db.server", () => ({
     },
     returnRequest: {
       findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
       findMany: vi.fn(),
       create: vi.fn(),
       update: vi.fn(),
@@ -45,10 +69,17 @@ vi.mock("../db.server", () => ({
       create: vi.fn(),
       updateMany: vi.fn(),
     },
+    customerReturnProfile: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
     routingRule: {
       findMany: vi.fn(),
       create: vi.fn(),
     },
+    returnItem: {
+      findMany: vi.fn(),
+    },
   },
 }));
 
@@ -102,7 +133,7 @@ describe("Returns Service", () => {
   describe("getReturnRequests", () => {
     it("returns all return requests for shop", async () => {
       const mockReturns = [
-        { ...mockReturnRequest, items: [mockReturnItem], label: null },
+        { ...mockReturnRequest, items: [mockReturnItem], labels: [], shipments: [] },
       ];
       vi.mocked(db.returnRequest.findMany).mockResolvedValue(mockReturns);
 
@@ -110,7 +141,11 @@ describe("Returns Service", () => {
 
       expect(db.returnRequest.findMany).toHaveBeenCalledWith({
         where: { shop: mockShop },
-        include: { items: true, label: true },
+        include: {
+          items: true,
+          labels: true,
+          shipments: { include: { destination: true } },
+        },
         orderBy: { createdAt: "desc" },
         take: 50,
         skip: 0,
@@ -145,6 +180,10 @@ describe("Returns Service", () => {
   });
 
   describe("createReturnRequest", () => {
+    beforeEach(() => {
+      vi.mocked(db.returnRequest.findMany).mockResolvedValue([]);
+    });
+
     it("creates return request with pending status when auto-approve is disabled", async () => {
       vi.mocked(db.shopSettings.findUnique).mockResolvedValue(mockShopSettings);
       vi.mocked(db.shopSettings.create).mockResolvedValue(mockShopSettings);
@@ -186,6 +225,58 @@ describe("Returns Service", () => {
       expect(result.status).toBe("pending");
     });
 
+    it("deducts fees from the refund total unless the customer is exempt", async () => {
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        ...mockShopSettings,
+        restockingFeePercent: 10,
+        returnShippingFee: 5,
+        feeExemptCustomerTags: ["VIP"],
+      });
+      const createdReturn = { ...mockReturnRequest, items: [mockReturnItem] };
+      vi.mocked(db.returnRequest.create).mockResolvedValue(createdReturn);
+
+      const input = {
+        shop: mockShop,
+        shopifyOrderId: "gid://shopify/Order/123456",
+        shopifyOrderName: "#1001",
+        customerEmail: "customer@example.com",
+        customerName: "John Doe",
+        items: [
+          {
+            shopifyLineItemId: "gid://shopify/LineItem/789",
+            title: "Premium Widget",
+            quantity: 2,
+            pricePerItem: 50,
+            reason: "wrong_size",
+          },
+        ],
+      };
+
+      await createReturnRequest(input);
+      expect(db.returnRequest.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            totalRefundAmount: 85,
+            restockingFee: 10,
+            returnShippingFee: 5,
+            feeWaiver: null,
+          }),
+        })
+      );
+
+      await createReturnRequest({ ...input, customerTags: ["vip"] });
+      expect(db.returnRequest.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            totalRefundAmount: 100,
+            restockingFee: 0,
+            returnShippingFee: 0,
+            feeWaiver: "Free returns for customers tagged VIP",
+          }),
+        })
+      );
+    });
+
     it("auto-approves when enabled and under max value", async () => {
       const autoApproveSettings = {
         ...mockShopSettings,
@@ -270,51 +361,238 @@ describe("Returns Service", () => {
         })
       );
     });
+
+    it("approves qualifying returns as returnless", async () => {
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        ...mockShopSettings,
+        returnlessEnabled: true,
+        returnlessThreshold: 15,
+      });
+      const createdReturn = {
+        ...mockReturnRequest,
+        status: "approved",
+        isReturnless: true,
+        items: [mockReturnItem],
+      };
+      vi.mocked(db.returnRequest.create).mockResolvedValue(createdReturn);
+
+      await createReturnRequest({
+        shop: mockShop,
+        shopifyOrderId: "gid://shopify/Order/123456",
+        shopifyOrderName: "#1001",
+        customerEmail: "customer@example.com",
+        customerName: "John Doe",
+        items: [
+          {
+            shopifyLineItemId: "gid://shopify/LineItem/789",
+            title: "Socks",
+            quantity: 1,
+            pricePerItem: 6,
+            reason: "wrong_size",
+          },
+        ],
+      });
+
+      expect(db.returnRequest.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: "approved",
+            approvedAt: expect.any(Date),
+            isReturnless: true,
+            returnlessReason: "Return value $6.00 is within the $15.00 threshold (wrong size)",
+          }),
+        })
+      );
+    });
+
+    it("skips auto-approval and flags the return when the risk is too high", async () => {
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        ...mockShopSettings,
+        autoApproveEnabled: true,
+        autoApproveMaxValue: null,
+        autoApproveMaxRiskLevel: "medium",
+      });
+      const earlier = (days: number) => ({
+        ...mockReturnRequest,
+        shopifyOrderId: `gid://shopify/Order/${days}`,
+        createdAt: new Date(Date.now() - days * 24 * 60 * 60 * 1000),
+        items: [{ ...mockReturnItem, reason: "no_longer_needed" }],
+      });
+      vi.mocked(db.returnRequest.findMany).mockResolvedValue(
+        [earlier(2), earlier(5), earlier(9)] as never
+      );
+      const createdReturn = { ...mockReturnRequest, items: [mockReturnItem] };
+      vi.mocked(db.returnRequest.create).mockResolvedValue(createdReturn);
+
+      await createReturnRequest({
+        shop: mockShop,
+        shopifyOrderId: "gid://shopify/Order/123456",
+        shopifyOrderName: "#1001",
+        customerEmail: "customer@example.com",
+        customerName: "John Doe",
+        customerOrderCount: 5,
+        items: [
+          {
+            shopifyLineItemId: "gid://shopify/LineItem/789",
+            shopifyVariantId: mockReturnItem.shopifyVariantId,
+            title: "Premium Widget",
+            quantity: 1,
+            pricePerItem: 99.99,
+            reason: "no_longer_needed",
+          },
+        ],
+      });
+
+      expect(db.returnRequest.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: "pending",
+            riskScore: 85,
+            flaggedForReview: true,
+          }),
+        })
+      );
+      expect(db.customerReturnProfile.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { shop_customerEmail: { shop: mockShop, customerEmail: "customer@example.com" } },
+          update: expect.objectContaining({ totalOrders: 5, totalReturns: 4, riskScore: 85 }),
+        })
+      );
+    });
+  });
+
+  describe("getReturnedQuantities", () => {
+    it("sums units on active returns per line item", async () => {
+      vi.mocked(db.returnItem.findMany).mockResolvedValue([
+        { shopifyLineItemId: "line_1", quantity: 1 },
+        { shopifyLineItemId: "line_1", quantity: 2 },
+        { shopifyLineItemId: "line_2", quantity: 1 },
+      ] as never);
+
+      const returned = await getReturnedQuantities(mockShop, "gid://shopify/Order/1");
+
+      expect(returned).toEqual(new Map([["line_1", 3], ["line_2", 1]]));
+      expect(db.returnItem.findMany).toHaveBeenCalledWith({
+        where: {
+          returnRequest: {
+            shop: mockShop,
+            shopifyOrderId: "gid://shopify/Order/1",
+            status: { notIn: ["declined", "cancelled"] },
+          },
+        },
+        select: { shopifyLineItemId: true, quantity: true },
+      });
+    });
+  });
+
+  describe("findQuantityViolations", () => {
+    const fulfilled = new Map([["line_1", 3], ["line_2", 1]]);
+
+    it("allows partial returns up to the remaining quantity", () => {
+      const returned = new Map([["line_1", 1]]);
+
+      expect(
+        findQuantityViolations([{ lineItemId: "line_1", title: "Shirt", quantity: 2 }], fulfilled, returned)
+      ).toEqual([]);
+    });
+
+    it("rejects units that were already returned", () => {
+      const returned = new Map([["line_1", 2], ["line_2", 1]]);
+
+      expect(
+        findQuantityViolations(
+          [
+            { lineItemId: "line_1", title: "Shirt", quantity: 2 },
+            { lineItemId: "line_2", title: "Socks", quantity: 1 },
+          ],
+          fulfilled,
+          returned
+        )
+      ).toEqual([
+        { lineItemId: "line_1", title: "Shirt", requested: 2, remaining: 1 },
+        { lineItemId: "line_2", title: "Socks", requested: 1, remaining: 0 },
+      ]);
+    });
+
+    it("adds up a line item listed twice and rejects unknown line items", () => {
+      const violations = findQuantityViolations(
+        [
+          { lineItemId: "line_1", title: "Shirt", quantity: 2 },
+          { lineItemId: "line_1", title: "Shirt", quantity: 2 },
+          { lineItemId: "line_9", title: "Hat", quantity: 1 },
+        ],
+        fulfilled,
+        new Map()
+      );
+
+      expect(violations.map((v) => [v.lineItemId, v.requested, v.remaining])).toEqual([
+        ["line_1", 4, 3],
+        ["line_9", 1, 0],
+      ]);
+    });
   });
 
   describe("approveReturnRequest", () => {
-    it("updates status to approved with timestamp", async () => {
+    it("moves the return to approved with timestamp", async () => {
       const approvedReturn = {
         ...mockReturnRequest,
         status: "approved",
         approvedAt: new Date(),
         items: [mockReturnItem],
-        label: null,
+        labels: [],
       };
-      vi.mocked(db.returnRequest.update).mockResolvedValue(approvedReturn);
+      vi.mocked(transitionReturn).mockResolvedValue(approvedReturn);
 
       const result = await approveReturnRequest("return_123", "Approved by merchant");
 
-      expect(db.returnRequest.update).toHaveBeenCalledWith({
-        where: { id: "return_123" },
-        data: {
-          status: "approved",
-          approvedAt: expect.any(Date),
-          merchantNotes: "Approved by merchant",
-        },
-        include: { items: true, label: true },
-      });
+      expect(transitionReturn).toHaveBeenCalledWith(
+        "return_123",
+        "approved",
+        { type: "merchant" },
+        {
+          reason: "Approved by merchant",
+          data: { approvedAt: expect.any(Date), merchantNotes: "Approved by merchant" },
+          include: { items: true, labels: true },
+        }
+      );
+      expect(result.status).toBe("approved");
+      expect(routeReturnFromOrder).not.toHaveBeenCalled();
+    });
+
+    it("routes the items to their destinations when Shopify is available", async () => {
+      const approvedReturn = {
+        ...mockReturnRequest,
+        status: "approved",
+        items: [mockReturnItem],
+        labels: [],
+      };
+      vi.mocked(transitionReturn).mockResolvedValue(approvedReturn);
+      vi.mocked(routeReturnFromOrder).mockRejectedValue(new Error("Throttled"));
+      const admin = { graphql: vi.fn() };
+
+      const result = await approveReturnRequest("return_123", undefined, undefined, admin);
+
+      expect(routeReturnFromOrder).toHaveBeenCalledWith(admin, approvedReturn);
+      // Routing is retried when labels are created, so the approval stands
       expect(result.status).toBe("approved");
     });
   });
 
   describe("declineReturnRequest", () => {
-    it("updates status to declined", async () => {
+    it("moves the return to declined", async () => {
       const declinedReturn = {
         ...mockReturnRequest,
         status: "declined",
         items: [mockReturnItem],
       };
-      vi.mocked(db.returnRequest.update).mockResolvedValue(declinedReturn);
+      vi.mocked(transitionReturn).mockResolvedValue(declinedReturn);
 
-      const result = await declineReturnRequest("return_123", "Outside return window");
+      const actor = { type: "merchant" as const, name: "staff@example.com" };
+      const result = await declineReturnRequest("return_123", "Outside return window", actor);
 
-      expect(db.returnRequest.update).toHaveBeenCalledWith({
-        where: { id: "return_123" },
-        data: {
-          status: "declined",
-          merchantNotes: "Outside return window",
-        },
+      expect(transitionReturn).toHaveBeenCalledWith("return_123", "declined", actor, {
+        reason: "Outside return window",
+        data: { merchantNotes: "Outside return window" },
         include: { items: true },
       });
       expect(result.status).toBe("declined");
@@ -322,27 +600,95 @@ describe("Returns Service", () => {
   });
 
   describe("completeReturnRequest", () => {
-    it("updates status to completed with timestamp", async () => {
+    beforeEach(() => {
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+        shop: mockShop,
+        status: "received",
+      } as never);
+    });
+
+    it("moves the return to completed with timestamp", async () => {
       const completedReturn = {
         ...mockReturnRequest,
         status: "completed",
         completedAt: new Date(),
         items: [mockReturnItem],
-        label: null,
+        labels: [],
       };
-      vi.mocked(db.returnRequest.update).mockResolvedValue(completedReturn);
+      vi.mocked(transitionReturn).mockResolvedValue(completedReturn);
 
       const result = await completeReturnRequest("return_123");
 
-      expect(db.returnRequest.update).toHaveBeenCalledWith({
-        where: { id: "return_123" },
-        data: {
-          status: "completed",
-          completedAt: expect.any(Date),
-        },
-        include: { items: true, label: true },
-      });
+      expect(transitionReturn).toHaveBeenCalledWith(
+        "return_123",
+        "completed",
+        { type: "merchant" },
+        {
+          data: { completedAt: expect.any(Date) },
+          include: { items: true, labels: true },
+        }
+      );
       expect(result.status).toBe("completed");
+      expect(issueReturnRefund).not.toHaveBeenCalled();
+    });
+
+    it("refunds through Shopify when given an admin client", async () => {
+      const admin = { graphql: vi.fn() };
+      const completedReturn = {
+        ...mockReturnRequest,
+        status: "completed",
+        items: [mockReturnItem],
+        labels: [],
+      };
+      vi.mocked(transitionReturn).mockResolvedValue(completedReturn);
+      vi.mocked(issueReturnRefund).mockResolvedValue({
+        status: "refunded",
+        refundedAmount: 99.99,
+        shopifyRefundId: "gid://shopify/Refund/1",
+      });
+
+      const result = await completeReturnRequest("return_123", admin);
+
+      expect(issueReturnRefund).toHaveBeenCalledWith(admin, mockShop, "return_123", {
+        type: "merchant",
+      });
+      expect(result.refund?.status).toBe("refunded");
+    });
+
+    it("leaves the return open when the refund fails", async () => {
+      const admin = { graphql: vi.fn() };
+      const openReturn = {
+        ...mockReturnRequest,
+        status: "received",
+        items: [mockReturnItem],
+        labels: [],
+      };
+      vi.mocked(db.returnRequest.findUniqueOrThrow).mockResolvedValue(openReturn);
+      vi.mocked(issueReturnRefund).mockResolvedValue({
+        status: "failed",
+        refundedAmount: 0,
+        error: "Payment gateway unavailable",
+      });
+
+      const result = await completeReturnRequest("return_123", admin);
+
+      expect(transitionReturn).not.toHaveBeenCalled();
+      expect(result.status).toBe("received");
+      expect(result.refund?.error).toBe("Payment gateway unavailable");
+    });
+
+    it("rejects returns that can't be completed without refunding", async () => {
+      const admin = { graphql: vi.fn() };
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+        shop: mockShop,
+        status: "declined",
+      } as never);
+
+      await expect(completeReturnRequest("return_123", admin)).rejects.toThrow(
+        "A return that is declined can't be completed"
+      );
+      expect(issueReturnRefund).not.toHaveBeenCalled();
+      expect(transitionReturn).not.toHaveBeenCalled();
     });
   });
 
@@ -412,6 +758,34 @@ describe("Returns Service", () => {
       });
     });
 
+    it("counts every open status as approved and refunds made before completion", async () => {
+      vi.mocked(db.returnRequest.count).mockResolvedValue(0);
+      vi.mocked(db.returnRequest.aggregate).mockResolvedValue({
+        _sum: { totalRefundAmount: 0 },
+        _count: {},
+        _avg: {},
+        _min: {},
+        _max: {},
+      });
+
+      await getReturnStats(mockShop);
+
+      expect(db.returnRequest.count).toHaveBeenCalledWith({
+        where: {
+          shop: mockShop,
+          status: {
+            in: ["approved", "awaiting_shipment", "in_transit", "received", "inspected", "refunded"],
+          },
+        },
+      });
+      const where = vi.mocked(db.returnRequest.aggregate).mock.calls[0][0].where;
+      expect(where?.status).toEqual({ in: expect.arrayContaining(["refunded", "completed"]) });
+      expect(where?.OR).toEqual([
+        { refundedAt: { gte: expect.any(Date) } },
+        { refundedAt: null, completedAt: { gte: expect.any(Date) } },
+      ]);
+    });
+
     it("handles null refund sum", async () => {
       vi.mocked(db.returnRequest.count).mockResolvedValue(0);
       vi.mocked(db.returnRequest.aggregate).mockResolvedValue({
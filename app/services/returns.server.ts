@@ -1,4 +1,25 @@
+import { Prisma } from "@prisma/client";
 import db from "../db.server";
+import { routeReturnFromOrder, type ConditionGroup } from "./routing.server";
+import { checkReturnlessEligibility } from "./returnless.server";
+import { calculateReturnFees } from "./fees.server";
+import { assessReturnRisk, isWithinRiskLevel } from "./risk.server";
+import { issueReturnRefund } from "./refund.server";
+import { applyRequestedResolution, settleReturnResolution } from "./resolution.server";
+import type { ExchangeCartItem, ExchangeType, ResolutionType } from "./exchange.server";
+import {
+  MERCHANT_ACTOR,
+  creationEvents,
+  transitionReturn,
+  type ReturnActor,
+  type ReturnStatus,
+} from "./return-lifecycle.server";
+import {
+  ACCEPTED_RETURN_STATUSES,
+  OPEN_RETURN_STATUSES,
+  canTransition,
+  getReturnStatusLabel,
+} from "../utils/return-status";
 import {
   GET_ORDERS_WITH_FULFILLMENTS,
   GET_ORDER_BY_ID,
@@ -12,7 +33,7 @@ type AdminGraphQL = {
   graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
 };
 
-export type ReturnStatus = "pending" | "approved" | "declined" | "completed" | "cancelled";
+export type { ReturnStatus } from "./return-lifecycle.server";
 
 export interface CreateReturnRequestInput {
   shop: string;
@@ -22,6 +43,21 @@ export interface CreateReturnRequestInput {
   customerName: string;
   reason?: string;
   customerNotes?: string;
+  // Lifetime order count from Shopify, used for the return-rate risk factor.
+  customerOrderCount?: number;
+  // Shopify customer tags, checked against the shop's fee exemptions.
+  customerTags?: string[];
+  // Resolution the customer chose in the portal, applied when the return is
+  // approved, and the replacements they picked for an exchange.
+  requestedResolution?: ResolutionType;
+  requestedExchange?: ExchangeCartItem[];
+  requestedExchangeType?: ExchangeType;
+  // Set for returns requested in Shopify and reported by webhook.
+  shopifyReturnId?: string;
+  // Who asked for the return; the customer unless given.
+  actor?: ReturnActor;
+  // Why staff must review the return: it stays pending and flagged.
+  holdForReview?: string;
   items: {
     shopifyLineItemId: string;
     shopifyVariantId?: string;
@@ -58,15 +94,43 @@ export async function updateShopSettings(
     requirePhotos: boolean;
     requireReason: boolean;
     restockAutomatically: boolean;
+    refundShipping: boolean;
+    restockingFeePercent: number;
+    returnShippingFee: number;
+    feeWaivedReasons: string[];
+    feeExemptCustomerTags: string[];
     notifyOnNewReturn: boolean;
     notifyOnStatusChange: boolean;
     shippoApiKey: string | null;
     easypostApiKey: string | null;
+    shippoWebhookToken: string | null;
+    easypostWebhookSecret: string | null;
+    deliveryAction: string;
+    allowedCarriers: string[];
+    maxTransitDays: number | null;
+    labelExpiryDays: number | null;
+    qrCodeLabels: boolean;
     storeCreditEnabled: boolean;
     storeCreditBonusPercent: number;
     storeCreditExpiryDays: number | null;
     exchangeEnabled: boolean;
     shopNowExchangeEnabled: boolean;
+    exchangeReservationDays: number | null;
+    exchangeReservationLocationId: string | null;
+    instantExchangeEnabled: boolean;
+    instantExchangeMaxRiskLevel: string;
+    instantExchangeReturnDays: number;
+    exchangePaymentDays: number;
+    returnlessEnabled: boolean;
+    returnlessThreshold: number;
+    returnlessReasons: string[];
+    returnlessMaxPerCustomer: number | null;
+    returnlessPeriodDays: number;
+    autoApproveMaxRiskLevel: string;
+    maxReturnsPerCustomer: number | null;
+    holidayWindowStart: Date | null;
+    holidayWindowEnd: Date | null;
+    holidayReturnDeadline: Date | null;
   }>
 ) {
   return db.shopSettings.upsert({
@@ -93,7 +157,10 @@ export async function getReturnRequests(
     },
     include: {
       items: true,
-      label: true,
+      labels: true,
+      shipments: {
+        include: { destination: true },
+      },
     },
     orderBy: { createdAt: "desc" },
     take: limit,
@@ -106,36 +173,173 @@ export async function getReturnRequestById(id: string) {
     where: { id },
     include: {
       items: true,
-      label: true,
+      labels: true,
+      shipments: {
+        include: { destination: true, items: true, labels: true },
+      },
       shopSettings: true,
     },
   });
 }
 
+// Storefront requests identify a return by its ID and the customer's email.
+// An unknown return and a wrong email both come back null, so return IDs
+// can't be probed.
+export async function findCustomerReturn(shop: string, returnId: string, email: string) {
+  const returnRequest = await db.returnRequest.findFirst({ where: { id: returnId, shop } });
+
+  if (
+    !returnRequest ||
+    returnRequest.customerEmail.toLowerCase() !== String(email).toLowerCase().trim()
+  ) {
+    return null;
+  }
+  return returnRequest;
+}
+
+export interface QuantityViolation {
+  lineItemId: string;
+  title: string;
+  requested: number;
+  remaining: number;
+}
+
+// Declined and cancelled returns give their units back to the customer.
+const RELEASED_RETURN_STATUSES = ["declined", "cancelled"];
+
+// Sums the units already on active returns for each line item of the order.
+export async function getReturnedQuantities(
+  shop: string,
+  shopifyOrderId: string
+): Promise<Map<string, number>> {
+  const items = await db.returnItem.findMany({
+    where: {
+      returnRequest: {
+        shop,
+        shopifyOrderId,
+        status: { notIn: RELEASED_RETURN_STATUSES },
+      },
+    },
+    select: { shopifyLineItemId: true, quantity: true },
+  });
+
+  const returned = new Map<string, number>();
+  for (const item of items) {
+    returned.set(
+      item.shopifyLineItemId,
+      (returned.get(item.shopifyLineItemId) ?? 0) + item.quantity
+    );
+  }
+  return returned;
+}
+
+export function getRemainingQuantity(
+  fulfilledQuantity: number,
+  returned: Map<string, number>,
+  lineItemId: string
+): number {
+  return Math.max(0, fulfilledQuantity - (returned.get(lineItemId) ?? 0));
+}
+
+// Compares requested units against what is left to return. Lines requested
+// more than once in the same submission are added together.
+export function findQuantityViolations(
+  requested: Array<{ lineItemId: string; title: string; quantity: number }>,
+  fulfilledQuantities: Map<string, number>,
+  returned: Map<string, number>
+): QuantityViolation[] {
+  const totals = new Map<string, { title: string; quantity: number }>();
+  for (const item of requested) {
+    const current = totals.get(item.lineItemId);
+    totals.set(item.lineItemId, {
+      title: item.title,
+      quantity: (current?.quantity ?? 0) + item.quantity,
+    });
+  }
+
+  const violations: QuantityViolation[] = [];
+  for (const [lineItemId, { title, quantity }] of totals) {
+    const remaining = getRemainingQuantity(
+      fulfilledQuantities.get(lineItemId) ?? 0,
+      returned,
+      lineItemId
+    );
+    if (quantity > remaining) {
+      violations.push({ lineItemId, title, requested: quantity, remaining });
+    }
+  }
+  return violations;
+}
+
 export async function createReturnRequest(input: CreateReturnRequestInput) {
   const settings = await getShopSettings(input.shop);
 
-  const totalRefundAmount = input.items.reduce(
+  const itemsValue = input.items.reduce(
     (sum, item) => sum + item.pricePerItem * item.quantity,
     0
   );
 
+  const risk = await assessReturnRisk(input.shop, {
+    customerEmail: input.customerEmail,
+    shopifyOrderId: input.shopifyOrderId,
+    items: input.items,
+    customerOrderCount: input.customerOrderCount,
+  });
+  const riskAllowsAutoApprove = isWithinRiskLevel(risk.score, settings.autoApproveMaxRiskLevel);
+  const canAutoApprove = riskAllowsAutoApprove && !input.holdForReview;
+
+  // Returnless returns never ship back, so they are approved straight away.
+  const returnless = canAutoApprove
+    ? await checkReturnlessEligibility(input.shop, input.customerEmail, input.items, settings)
+    : {
+        eligible: false,
+        reason: riskAllowsAutoApprove ? (input.holdForReview as string) : "Return risk is too high",
+      };
+
   const shouldAutoApprove =
-    settings.autoApproveEnabled &&
-    (!settings.autoApproveMaxValue || totalRefundAmount <= settings.autoApproveMaxValue);
+    returnless.eligible ||
+    (canAutoApprove &&
+      settings.autoApproveEnabled &&
+      (!settings.autoApproveMaxValue || itemsValue <= settings.autoApproveMaxValue));
+
+  const fees = calculateReturnFees(settings, input.items, {
+    customerTags: input.customerTags,
+    returnless: returnless.eligible,
+  });
 
   return db.returnRequest.create({
     data: {
       shop: input.shop,
       shopifyOrderId: input.shopifyOrderId,
       shopifyOrderName: input.shopifyOrderName,
+      shopifyReturnId: input.shopifyReturnId,
       customerEmail: input.customerEmail,
       customerName: input.customerName,
       reason: input.reason,
       customerNotes: input.customerNotes,
-      totalRefundAmount,
+      totalRefundAmount: fees.total,
+      restockingFee: fees.restockingFee,
+      returnShippingFee: fees.returnShippingFee,
+      feeWaiver: fees.waiver,
+      requestedResolution: input.requestedResolution,
+      requestedExchange: input.requestedExchange?.length
+        ? (input.requestedExchange as unknown as Prisma.InputJsonValue)
+        : undefined,
+      requestedExchangeType: input.requestedExchangeType,
       status: shouldAutoApprove ? "approved" : "pending",
       approvedAt: shouldAutoApprove ? new Date() : null,
+      isReturnless: returnless.eligible,
+      returnlessReason: returnless.eligible ? returnless.reason : null,
+      riskScore: risk.score,
+      riskFactors: risk.factors as unknown as Prisma.InputJsonValue,
+      flaggedForReview: risk.flaggedForReview || Boolean(input.holdForReview),
+      events: {
+        create: creationEvents(
+          shouldAutoApprove ? "approved" : "pending",
+          input.actor ?? { type: "customer", name: input.customerName },
+          returnless.eligible ? "Returnless refund" : null
+        ),
+      },
       items: {
         create: input.items.map((item) => ({
           shopifyLineItemId: item.shopifyLineItemId,
@@ -156,46 +360,88 @@ export async function createReturnRequest(input: CreateReturnRequestInput) {
   });
 }
 
-export async function approveReturnRequest(id: string, merchantNotes?: string) {
-  return db.returnRequest.update({
-    where: { id },
-    data: {
-      status: "approved",
-      approvedAt: new Date(),
-      merchantNotes,
-    },
-    include: {
-      items: true,
-      label: true,
-    },
+// Pass admin to apply the resolution the customer chose in the portal and
+// route the items to their destinations. A resolution that can't be applied
+// doesn't stop the approval; its error is stored on the return. Routing that
+// fails is retried when labels are created.
+export async function approveReturnRequest(
+  id: string,
+  merchantNotes?: string,
+  actor: ReturnActor = MERCHANT_ACTOR,
+  admin?: AdminGraphQL
+) {
+  const returnRequest = await transitionReturn(id, "approved", actor, {
+    reason: merchantNotes || null,
+    data: { approvedAt: new Date(), merchantNotes },
+    include: { items: true, labels: true },
   });
+
+  const resolution = admin ? await applyRequestedResolution(admin, id) : null;
+
+  if (admin && !returnRequest.isReturnless) {
+    try {
+      await routeReturnFromOrder(admin, returnRequest);
+    } catch (error) {
+      console.error(`Failed to route return ${id}:`, error);
+    }
+  }
+
+  return { ...returnRequest, resolution };
 }
 
-export async function declineReturnRequest(id: string, merchantNotes?: string) {
-  return db.returnRequest.update({
-    where: { id },
-    data: {
-      status: "declined",
-      merchantNotes,
-    },
-    include: {
-      items: true,
-    },
+export async function declineReturnRequest(
+  id: string,
+  merchantNotes?: string,
+  actor: ReturnActor = MERCHANT_ACTOR
+) {
+  return transitionReturn(id, "declined", actor, {
+    reason: merchantNotes || null,
+    data: { merchantNotes },
+    include: { items: true },
   });
 }
 
-export async function completeReturnRequest(id: string) {
-  return db.returnRequest.update({
+// Pass admin to refund the return through Shopify, or settle the store credit
+// or exchange the customer chose, before it is completed. A refund that fails
+// or only partly succeeds leaves the return open so it can be retried.
+export async function completeReturnRequest(
+  id: string,
+  admin?: AdminGraphQL,
+  actor: ReturnActor = MERCHANT_ACTOR
+) {
+  const current = await db.returnRequest.findUnique({
     where: { id },
-    data: {
-      status: "completed",
-      completedAt: new Date(),
-    },
-    include: {
-      items: true,
-      label: true,
-    },
+    select: { shop: true, status: true },
   });
+
+  if (!current) {
+    throw new Error(`Return request not found: ${id}`);
+  }
+
+  // Checked up front so money is never refunded for a return that can't close.
+  if (!canTransition(current.status, "completed")) {
+    throw new Error(
+      `A return that is ${getReturnStatusLabel(current.status).toLowerCase()} can't be completed`
+    );
+  }
+
+  const refund = admin ? await issueReturnRefund(admin, current.shop, id, actor) : null;
+  const resolution = admin ? await settleReturnResolution(admin, current.shop, id) : null;
+
+  if (refund?.status === "failed" || refund?.status === "partial") {
+    const returnRequest = await db.returnRequest.findUniqueOrThrow({
+      where: { id },
+      include: { items: true, labels: true },
+    });
+    return { ...returnRequest, refund, resolution };
+  }
+
+  const returnRequest = await transitionReturn(id, "completed", actor, {
+    data: { completedAt: new Date() },
+    include: { items: true, labels: true },
+  });
+
+  return { ...returnRequest, refund, resolution };
 }
 
 export async function getReturnDestinations(shop: string) {
@@ -216,6 +462,8 @@ export async function createReturnDestination(
     postalCode: string;
     country?: string;
     phone?: string;
+    destinationType?: string;
+    preferredService?: string;
     isDefault?: boolean;
   }
 ) {
@@ -251,13 +499,17 @@ export async function createRoutingRule(
     priority?: number;
     conditionType: string;
     conditionValue: string;
+    conditions?: ConditionGroup | null;
     destinationId: string;
   }
 ) {
+  const { conditions, ...rest } = data;
+
   return db.routingRule.create({
     data: {
       shop,
-      ...data,
+      ...rest,
+      ...(conditions && { conditions: conditions as unknown as Prisma.InputJsonValue }),
     },
     include: {
       destination: true,
@@ -265,6 +517,43 @@ export async function createRoutingRule(
   });
 }
 
+export async function updateRoutingRule(
+  shop: string,
+  id: string,
+  data: Partial<{
+    name: string;
+    priority: number;
+    isActive: boolean;
+    conditionType: string;
+    conditionValue: string;
+    conditions: ConditionGroup | null;
+    destinationId: string;
+  }>
+) {
+  const { conditions, ...rest } = data;
+
+  const result = await db.routingRule.updateMany({
+    where: { id, shop },
+    data: {
+      ...rest,
+      ...(conditions !== undefined && {
+        conditions: conditions
+          ? (conditions as unknown as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+      }),
+    },
+  });
+
+  if (result.count === 0) {
+    throw new Error(`Routing rule not found: ${id}`);
+  }
+
+  return db.routingRule.findUnique({
+    where: { id },
+    include: { destination: true },
+  });
+}
+
 export async function fetchShopifyOrders(
   admin: AdminGraphQL,
   options: { first?: number; after?: string; query?: string } = {}
@@ -357,16 +646,19 @@ export async function declineShopifyReturn(
   return response.json();
 }
 
+// "approved" counts every open return, wherever it is on the way back, and
+// the month's refunds include returns refunded ahead of completion.
 export async function getReturnStats(shop: string) {
+  const monthStart = new Date(new Date().getFullYear(), new Date().getMonth(), 1);
   const [pending, approved, completed, totalThisMonth] = await Promise.all([
     db.returnRequest.count({ where: { shop, status: "pending" } }),
-    db.returnRequest.count({ where: { shop, status: "approved" } }),
+    db.returnRequest.count({ where: { shop, status: { in: [...OPEN_RETURN_STATUSES] } } }),
     db.returnRequest.count({ where: { shop, status: "completed" } }),
     db.returnRequest.count({
       where: {
         shop,
         createdAt: {
-          gte: new Date(new Date().getFullYear(), new Date().getMonth(), 1),
+          gte: monthStart,
         },
       },
     }),
@@ -375,10 +667,11 @@ export async function getReturnStats(shop: string) {
   const totalRefundedThisMonth = await db.returnRequest.aggregate({
     where: {
       shop,
-      status: "completed",
-      completedAt: {
-        gte: new Date(new Date().getFullYear(), new Date().getMonth(), 1),
-      },
+      status: { in: [...ACCEPTED_RETURN_STATUSES] },
+      OR: [
+        { refundedAt: { gte: monthStart } },
+        { refundedAt: null, completedAt: { gte: monthStart } },
+      ],
     },
     _sum: {
       totalRefundAmount: true,
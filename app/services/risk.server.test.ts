@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
+import {
+  assessReturnRisk,
+  buildReturnStats,
+  calculateRiskScore,
+  fetchCustomerOrderCount,
+  getRiskLevel,
+  isWithinRiskLevel,
+  type RiskHistoryReturn,
+} from "./risk.server";
+import { mockShop } from "../../test/fixtures";
+
+const now = new Date("2024-06-30T12:00:00Z");
+
+function pastReturn(daysAgo: number, overrides: Partial<RiskHistoryReturn> = {}): RiskHistoryReturn {
+  return {
+    shopifyOrderId: `gid://shopify/Order/${daysAgo}`,
+    createdAt: new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000),
+    totalRefundAmount: 40,
+    items: [{ shopifyVariantId: `variant-${daysAgo}`, pricePerItem: 40, quantity: 1, reason: "defective" }],
+    ...overrides,
+  };
+}
+
+const currentItems = [{ shopifyVariantId: "variant-new", pricePerItem: 30, quantity: 1, reason: "wrong_size" }];
+
+describe("Risk Scoring", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("risk levels", () => {
+    it("maps scores onto the roadmap bands", () => {
+      expect(getRiskLevel(30)).toBe("low");
+      expect(getRiskLevel(31)).toBe("medium");
+      expect(getRiskLevel(61)).toBe("high");
+      expect(getRiskLevel(81)).toBe("very_high");
+    });
+
+    it("compares a score against the auto-approve level", () => {
+      expect(isWithinRiskLevel(55, "medium")).toBe(true);
+      expect(isWithinRiskLevel(65, "medium")).toBe(false);
+      expect(isWithinRiskLevel(65, "nonsense")).toBe(false);
+    });
+  });
+
+  describe("buildReturnStats", () => {
+    it("counts the submitted return and never reports fewer orders than returns", () => {
+      const stats = buildReturnStats([pastReturn(10), pastReturn(60)], {
+        shopifyOrderId: "gid://shopify/Order/new",
+        items: currentItems,
+        totalOrders: 0,
+        now,
+      });
+
+      expect(stats).toEqual({
+        totalOrders: 3,
+        returnedOrders: 3,
+        returnRate: 1,
+        returnsLast30Days: 2,
+        returnsLast90Days: 3,
+      });
+    });
+  });
+
+  describe("calculateRiskScore", () => {
+    it("scores a first return as zero risk", () => {
+      const result = calculateRiskScore([], {
+        shopifyOrderId: "gid://shopify/Order/1",
+        items: currentItems,
+        totalOrders: 1,
+        now,
+      });
+
+      expect(result).toEqual({ score: 0, factors: [] });
+    });
+
+    it("ignores return rate until the customer has enough orders", () => {
+      const result = calculateRiskScore([pastReturn(100)], {
+        shopifyOrderId: "gid://shopify/Order/1",
+        items: currentItems,
+        totalOrders: 2,
+        now,
+      });
+
+      expect(result.factors).toEqual([]);
+    });
+
+    it("uses the higher return rate band only", () => {
+      const elevated = calculateRiskScore([pastReturn(100)], {
+        shopifyOrderId: "gid://shopify/Order/1",
+        items: currentItems,
+        totalOrders: 5,
+        now,
+      });
+      const high = calculateRiskScore([pastReturn(100), pastReturn(200)], {
+        shopifyOrderId: "gid://shopify/Order/1",
+        items: currentItems,
+        totalOrders: 4,
+        now,
+      });
+
+      expect(elevated.factors).toEqual([
+        { code: "return_rate_elevated", label: "Returned 40% of orders", points: 25 },
+      ]);
+      expect(high.factors.map((f) => f.code)).toEqual(["return_rate_high"]);
+    });
+
+    it("flags frequent returns, repeat products and reason patterns", () => {
+      const history = [1, 3, 7, 40, 60].map((days) =>
+        pastReturn(days, {
+          shopifyOrderId: "gid://shopify/Order/same",
+          items: [{ shopifyVariantId: "variant-new", pricePerItem: 30, quantity: 1, reason: "UNWANTED" }],
+        })
+      );
+
+      const result = calculateRiskScore(history, {
+        shopifyOrderId: "gid://shopify/Order/same",
+        items: [{ shopifyVariantId: "variant-new", pricePerItem: 30, quantity: 1, reason: "no_longer_needed" }],
+        totalOrders: 50,
+        now,
+      });
+
+      expect(result.factors.map((f) => f.code)).toEqual([
+        "frequent_returns_30d",
+        "frequent_returns_90d",
+        "repeat_product",
+        "reason_pattern",
+      ]);
+      expect(result.score).toBe(65);
+    });
+  });
+
+  describe("fetchCustomerOrderCount", () => {
+    it("reads the customer's order count", async () => {
+      const admin = {
+        graphql: vi.fn().mockResolvedValue({
+          json: () => Promise.resolve({ data: { order: { customer: { numberOfOrders: "7" } } } }),
+        }),
+      };
+
+      expect(await fetchCustomerOrderCount(admin, "gid://shopify/Order/1")).toBe(7);
+    });
+
+    it("returns undefined for guest orders and failures", async () => {
+      const guest = {
+        graphql: vi.fn().mockResolvedValue({
+          json: () => Promise.resolve({ data: { order: { customer: null } } }),
+        }),
+      };
+      const failing = { graphql: vi.fn().mockRejectedValue(new Error("Network error")) };
+
+      expect(await fetchCustomerOrderCount(guest, "gid://shopify/Order/1")).toBeUndefined();
+      expect(await fetchCustomerOrderCount(failing, "gid://shopify/Order/1")).toBeUndefined();
+    });
+  });
+
+  describe("assessReturnRisk", () => {
+    it("falls back to the stored order count and refreshes the profile", async () => {
+      vi.mocked(db.returnRequest.findMany).mockResolvedValue([]);
+      vi.mocked(db.customerReturnProfile.findUnique).mockResolvedValue({
+        totalOrders: 4,
+      } as never);
+
+      const assessment = await assessReturnRisk(mockShop, {
+        customerEmail: "Customer@Example.com",
+        shopifyOrderId: "gid://shopify/Order/1",
+        items: currentItems,
+      });
+
+      expect(assessment).toEqual({ score: 0, level: "low", factors: [], flaggedForReview: false });
+      expect(db.customerReturnProfile.upsert).toHaveBeenCalledWith({
+        where: { shop_customerEmail: { shop: mockShop, customerEmail: "customer@example.com" } },
+        create: expect.objectContaining({ shop: mockShop, customerEmail: "customer@example.com" }),
+        update: {
+          totalOrders: 4,
+          totalReturns: 1,
+          returnRate: 0.25,
+          totalRefunded: 30,
+          lastReturnDate: expect.any(Date),
+          riskScore: 0,
+          riskFactors: [],
+        },
+      });
+    });
+  });
+});
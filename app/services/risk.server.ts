@@ -0,0 +1,240 @@
+import type { Prisma } from "@prisma/client";
+import db from "../db.server";
+import { normalizeReturnReason } from "../utils/reasons";
+import { getRiskLevel, type RiskFactor, type RiskLevel } from "../utils/risk";
+
+export {
+  RISK_LEVELS,
+  getRiskLevel,
+  isWithinRiskLevel,
+  riskLevelLabels,
+  type RiskFactor,
+  type RiskLevel,
+} from "../utils/risk";
+
+type AdminGraphQL = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+const GET_CUSTOMER_ORDER_COUNT = `#graphql
+  query GetCustomerOrderCount($id: ID!) {
+    order(id: $id) {
+      customer {
+        numberOfOrders
+      }
+    }
+  }
+`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A return rate over one or two orders says nothing about the customer.
+const MIN_ORDERS_FOR_RETURN_RATE = 3;
+
+export interface RiskItem {
+  shopifyVariantId?: string | null;
+  shopifyProductId?: string | null;
+  sku?: string | null;
+  pricePerItem: number;
+  quantity: number;
+  reason?: string | null;
+}
+
+export interface RiskHistoryReturn {
+  shopifyOrderId: string;
+  createdAt: Date;
+  totalRefundAmount: number;
+  items: RiskItem[];
+}
+
+export interface RiskInput {
+  shopifyOrderId: string;
+  items: RiskItem[];
+  totalOrders: number;
+  now?: Date;
+}
+
+export interface ReturnStats {
+  totalOrders: number;
+  returnedOrders: number;
+  returnRate: number;
+  returnsLast30Days: number;
+  returnsLast90Days: number;
+}
+
+export interface RiskAssessment {
+  score: number;
+  level: RiskLevel;
+  factors: RiskFactor[];
+  flaggedForReview: boolean;
+}
+
+function productKey(item: RiskItem): string | null {
+  return item.shopifyVariantId || item.shopifyProductId || item.sku || null;
+}
+
+// Counts include the return being submitted.
+export function buildReturnStats(history: RiskHistoryReturn[], input: RiskInput): ReturnStats {
+  const now = input.now ?? new Date();
+  const returnedOrders = new Set([
+    ...history.map((r) => r.shopifyOrderId),
+    input.shopifyOrderId,
+  ]).size;
+  const totalOrders = Math.max(input.totalOrders, returnedOrders);
+  const returnsWithin = (days: number) =>
+    history.filter((r) => now.getTime() - r.createdAt.getTime() <= days * DAY_MS).length + 1;
+
+  return {
+    totalOrders,
+    returnedOrders,
+    returnRate: totalOrders > 0 ? returnedOrders / totalOrders : 0,
+    returnsLast30Days: returnsWithin(30),
+    returnsLast90Days: returnsWithin(90),
+  };
+}
+
+// Scores the submission against the customer's earlier returns using the
+// factors from ROADMAP 3.1 that the app has data for.
+export function calculateRiskScore(
+  history: RiskHistoryReturn[],
+  input: RiskInput
+): { score: number; factors: RiskFactor[] } {
+  const stats = buildReturnStats(history, input);
+  const factors: RiskFactor[] = [];
+
+  if (stats.totalOrders >= MIN_ORDERS_FOR_RETURN_RATE) {
+    const percent = Math.round(stats.returnRate * 100);
+    if (stats.returnRate > 0.5) {
+      factors.push({ code: "return_rate_high", label: `Returned ${percent}% of orders`, points: 40 });
+    } else if (stats.returnRate > 0.3) {
+      factors.push({ code: "return_rate_elevated", label: `Returned ${percent}% of orders`, points: 25 });
+    }
+  }
+
+  if (stats.returnsLast30Days > 3) {
+    factors.push({
+      code: "frequent_returns_30d",
+      label: `${stats.returnsLast30Days} returns in the last 30 days`,
+      points: 15,
+    });
+  }
+
+  if (stats.returnsLast90Days > 5) {
+    factors.push({
+      code: "frequent_returns_90d",
+      label: `${stats.returnsLast90Days} returns in the last 90 days`,
+      points: 20,
+    });
+  }
+
+  const returnedBefore = new Set(
+    history.flatMap((r) => r.items.map(productKey)).filter((key) => key !== null)
+  );
+  const repeats = input.items.filter((item) => {
+    const key = productKey(item);
+    return key !== null && returnedBefore.has(key);
+  });
+  if (repeats.length > 0) {
+    factors.push({
+      code: "repeat_product",
+      label: `Returned the same product before (${repeats.length} item${repeats.length === 1 ? "" : "s"})`,
+      points: 20,
+    });
+  }
+
+  const reasons = [...history.flatMap((r) => r.items), ...input.items].map((item) =>
+    normalizeReturnReason(item.reason)
+  );
+  if (history.length >= 2 && reasons.every((reason) => reason === "no_longer_needed")) {
+    factors.push({
+      code: "reason_pattern",
+      label: "Always returns items as no longer needed",
+      points: 10,
+    });
+  }
+
+  const score = Math.min(
+    100,
+    factors.reduce((sum, factor) => sum + factor.points, 0)
+  );
+
+  return { score, factors };
+}
+
+// Looks up how many orders the customer has placed; undefined when unavailable.
+export async function fetchCustomerOrderCount(
+  admin: AdminGraphQL,
+  orderId: string
+): Promise<number | undefined> {
+  try {
+    const response = await admin.graphql(GET_CUSTOMER_ORDER_COUNT, {
+      variables: { id: orderId },
+    });
+    const data = await response.json();
+    const count = Number(data.data?.order?.customer?.numberOfOrders);
+    return Number.isFinite(count) ? count : undefined;
+  } catch (error) {
+    console.error("Failed to fetch customer order count:", error);
+    return undefined;
+  }
+}
+
+// Scores a new return and refreshes the customer's return profile.
+export async function assessReturnRisk(
+  shop: string,
+  input: {
+    customerEmail: string;
+    shopifyOrderId: string;
+    items: RiskItem[];
+    customerOrderCount?: number;
+  }
+): Promise<RiskAssessment> {
+  const customerEmail = input.customerEmail.toLowerCase();
+
+  const [history, profile] = await Promise.all([
+    db.returnRequest.findMany({
+      where: { shop, customerEmail: { equals: customerEmail, mode: "insensitive" } },
+      include: { items: true },
+    }),
+    db.customerReturnProfile.findUnique({
+      where: { shop_customerEmail: { shop, customerEmail } },
+    }),
+  ]);
+
+  const riskInput: RiskInput = {
+    shopifyOrderId: input.shopifyOrderId,
+    items: input.items,
+    totalOrders: input.customerOrderCount ?? profile?.totalOrders ?? 0,
+  };
+  const { score, factors } = calculateRiskScore(history, riskInput);
+  const stats = buildReturnStats(history, riskInput);
+
+  const totalRefunded =
+    history.reduce((sum, r) => sum + r.totalRefundAmount, 0) +
+    input.items.reduce((sum, item) => sum + item.pricePerItem * item.quantity, 0);
+
+  const profileData = {
+    totalOrders: stats.totalOrders,
+    totalReturns: history.length + 1,
+    returnRate: stats.returnRate,
+    totalRefunded,
+    lastReturnDate: new Date(),
+    riskScore: score,
+    riskFactors: factors as unknown as Prisma.InputJsonValue,
+  };
+
+  await db.customerReturnProfile.upsert({
+    where: { shop_customerEmail: { shop, customerEmail } },
+    create: { shop, customerEmail, ...profileData },
+    update: profileData,
+  });
+
+  const level = getRiskLevel(score);
+
+  return {
+    score,
+    level,
+    factors,
+    flaggedForReview: level === "high" || level === "very_high",
+  };
+}
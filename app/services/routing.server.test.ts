@@ -2,7 +2,13 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import {
   evaluateCondition,
   findMatchingDestination,
+  groupItemsByDestination,
+  routeReturnRequest,
+  routeReturnFromOrder,
   buildRoutingContext,
+  toRuleConditionFields,
+  validateConditionNode,
+  type ConditionGroup,
   type RoutingContext,
   type RuleWithDestination,
 } from "./routing.server";
@@ -13,6 +19,7 @@ import {
   createMockDestination,
 } from "../../test/fixtures";
 import type { RoutingRule } from "@prisma/client";
+import db from "../db.server";
 
 describe("Routing Engine", () => {
   describe("evaluateCondition", () => {
@@ -229,6 +236,174 @@ describe("Routing Engine", () => {
     });
   });
 
+  describe("composite condition groups", () => {
+    const acmeContext: RoutingContext = {
+      orderValue: 250,
+      returnReason: "defective",
+      items: [{ productType: "Electronics", productVendor: "Acme" }],
+    };
+
+    const acmeHighValue: ConditionGroup = {
+      operator: "AND",
+      conditions: [
+        { type: "product_vendor", value: "Acme" },
+        { type: "order_value_above", value: "200" },
+      ],
+    };
+
+    it("matches an AND group when every condition matches", () => {
+      const rule = createMockRoutingRule({
+        conditionType: "composite",
+        conditionValue: "",
+        conditions: acmeHighValue,
+      }) as RoutingRule;
+
+      expect(evaluateCondition(rule, acmeContext)).toBe(true);
+      expect(evaluateCondition(rule, { ...acmeContext, orderValue: 150 })).toBe(false);
+    });
+
+    it("matches an OR group when any condition matches", () => {
+      const rule = createMockRoutingRule({
+        conditionType: "composite",
+        conditionValue: "",
+        conditions: {
+          operator: "OR",
+          conditions: [
+            { type: "product_vendor", value: "Globex" },
+            { type: "return_reason", value: "defective" },
+          ],
+        },
+      }) as RoutingRule;
+
+      expect(evaluateCondition(rule, acmeContext)).toBe(true);
+      expect(evaluateCondition(rule, { ...acmeContext, returnReason: "wrong_size" })).toBe(false);
+    });
+
+    it("negates children in a NOT group", () => {
+      const rule = createMockRoutingRule({
+        conditionType: "composite",
+        conditionValue: "",
+        conditions: {
+          operator: "NOT",
+          conditions: [{ type: "product_type", value: "Clothing" }],
+        },
+      }) as RoutingRule;
+
+      expect(evaluateCondition(rule, acmeContext)).toBe(true);
+      expect(
+        evaluateCondition(rule, { ...acmeContext, items: [{ productType: "Clothing" }] })
+      ).toBe(false);
+    });
+
+    it("evaluates nested groups", () => {
+      const rule = createMockRoutingRule({
+        conditionType: "composite",
+        conditionValue: "",
+        conditions: {
+          operator: "AND",
+          conditions: [
+            { type: "product_vendor", value: "Acme" },
+            {
+              operator: "OR",
+              conditions: [
+                { type: "order_value_above", value: "200" },
+                { type: "customer_tag", value: "vip" },
+              ],
+            },
+          ],
+        },
+      }) as RoutingRule;
+
+      expect(evaluateCondition(rule, acmeContext)).toBe(true);
+      expect(evaluateCondition(rule, { ...acmeContext, orderValue: 50 })).toBe(false);
+      expect(
+        evaluateCondition(rule, { ...acmeContext, orderValue: 50, customerTags: ["VIP"] })
+      ).toBe(true);
+    });
+
+    it("never matches an empty group", () => {
+      const rule = createMockRoutingRule({
+        conditionType: "composite",
+        conditionValue: "",
+        conditions: { operator: "AND", conditions: [] },
+      }) as RoutingRule;
+
+      expect(evaluateCondition(rule, acmeContext)).toBe(false);
+    });
+
+    it("routes to the destination of the first matching composite rule", () => {
+      const destA = createMockDestination({ id: "dest_a", name: "Main Warehouse" });
+      const destB = createMockDestination({ id: "dest_b", name: "Acme RMA" });
+
+      const rules: RuleWithDestination[] = [
+        {
+          ...createMockRoutingRule({
+            id: "rule_acme",
+            priority: 1,
+            conditionType: "composite",
+            conditionValue: "",
+            conditions: acmeHighValue,
+          }),
+          destination: destB,
+        } as RuleWithDestination,
+        {
+          ...createMockRoutingRule({
+            id: "rule_electronics",
+            priority: 2,
+            conditionType: "product_type",
+            conditionValue: "Electronics",
+          }),
+          destination: destA,
+        } as RuleWithDestination,
+      ];
+
+      expect(findMatchingDestination(rules, acmeContext)?.id).toBe("dest_b");
+      expect(findMatchingDestination(rules, { ...acmeContext, orderValue: 100 })?.id).toBe(
+        "dest_a"
+      );
+    });
+
+    describe("toRuleConditionFields", () => {
+      it("stores a single condition in the legacy columns", () => {
+        expect(
+          toRuleConditionFields({
+            operator: "AND",
+            conditions: [{ type: "product_type", value: "Electronics" }],
+          })
+        ).toEqual({
+          conditionType: "product_type",
+          conditionValue: "Electronics",
+          conditions: null,
+        });
+      });
+
+      it("stores multiple conditions as a composite tree", () => {
+        expect(toRuleConditionFields(acmeHighValue)).toEqual({
+          conditionType: "composite",
+          conditionValue: "product vendor = Acme AND order value above = 200",
+          conditions: acmeHighValue,
+        });
+      });
+    });
+
+    describe("validateConditionNode", () => {
+      it("reports empty groups and invalid numeric values", () => {
+        const issues = validateConditionNode({
+          operator: "AND",
+          conditions: [
+            { type: "order_value_above", value: "lots" },
+            { operator: "OR", conditions: [] },
+          ],
+        });
+
+        expect(issues).toEqual([
+          "conditions.0: invalid numeric value lots",
+          "conditions.1: OR group has no conditions",
+        ]);
+      });
+    });
+  });
+
   describe("findMatchingDestination", () => {
     const destA = createMockDestination({ id: "dest_a", name: "Warehouse A" });
     const destB = createMockDestination({ id: "dest_b", name: "Warehouse B" });
@@ -333,6 +508,271 @@ describe("Routing Engine", () => {
     });
   });
 
+  describe("groupItemsByDestination", () => {
+    const electronicsWarehouse = createMockDestination({ id: "dest_elec", name: "Electronics Repair", isDefault: false });
+    const defaultWarehouse = createMockDestination({ id: "dest_default", name: "Main Warehouse" });
+
+    const rules: RuleWithDestination[] = [
+      {
+        ...createMockRoutingRule({
+          id: "rule_elec",
+          priority: 1,
+          conditionType: "product_type",
+          conditionValue: "Electronics",
+        }),
+        destination: electronicsWarehouse,
+      } as RuleWithDestination,
+    ];
+
+    it("splits items that match different rules into separate groups", () => {
+      const context: RoutingContext = {
+        orderValue: 150,
+        items: [
+          { returnItemId: "item_1", productType: "Electronics" },
+          { returnItemId: "item_2", productType: "Apparel" },
+        ],
+      };
+
+      const routes = groupItemsByDestination(rules, defaultWarehouse, context);
+
+      expect(routes).toHaveLength(2);
+      expect(routes[0].destination?.id).toBe("dest_elec");
+      expect(routes[0].matchedRule?.id).toBe("rule_elec");
+      expect(routes[0].items.map((i) => i.returnItemId)).toEqual(["item_1"]);
+      expect(routes[1].destination?.id).toBe("dest_default");
+      expect(routes[1].matchedRule).toBeNull();
+      expect(routes[1].items.map((i) => i.returnItemId)).toEqual(["item_2"]);
+    });
+
+    it("groups items that share a destination", () => {
+      const context: RoutingContext = {
+        orderValue: 150,
+        items: [
+          { returnItemId: "item_1", productType: "Electronics" },
+          { returnItemId: "item_2", productType: "Apparel" },
+          { returnItemId: "item_3", productType: "Electronics" },
+        ],
+      };
+
+      const routes = groupItemsByDestination(rules, defaultWarehouse, context);
+
+      expect(routes).toHaveLength(2);
+      expect(routes[0].items.map((i) => i.returnItemId)).toEqual(["item_1", "item_3"]);
+    });
+
+    it("keeps order-level conditions applied to every item", () => {
+      const orderRules: RuleWithDestination[] = [
+        {
+          ...createMockRoutingRule({
+            id: "rule_value",
+            conditionType: "order_value_above",
+            conditionValue: "100",
+          }),
+          destination: electronicsWarehouse,
+        } as RuleWithDestination,
+      ];
+
+      const routes = groupItemsByDestination(orderRules, defaultWarehouse, {
+        orderValue: 150,
+        items: [{ returnItemId: "item_1" }, { returnItemId: "item_2" }],
+      });
+
+      expect(routes).toHaveLength(1);
+      expect(routes[0].destination?.id).toBe("dest_elec");
+      expect(routes[0].items).toHaveLength(2);
+    });
+
+    it("groups unmatched items without a default destination", () => {
+      const routes = groupItemsByDestination(rules, null, {
+        orderValue: 50,
+        items: [{ returnItemId: "item_1", productType: "Apparel" }],
+      });
+
+      expect(routes).toHaveLength(1);
+      expect(routes[0].destination).toBeNull();
+    });
+
+    it("sends customers abroad to a domestic destination of the same type", () => {
+      const canadaWarehouse = createMockDestination({
+        id: "dest_ca",
+        country: "CA",
+        isDefault: false,
+      });
+      const canadaOutlet = createMockDestination({
+        id: "dest_ca_outlet",
+        country: "CA",
+        destinationType: "outlet",
+        isDefault: false,
+      });
+
+      const routes = groupItemsByDestination(
+        rules,
+        defaultWarehouse,
+        {
+          orderValue: 50,
+          customerCountry: "ca",
+          items: [{ returnItemId: "item_1", productType: "Apparel" }],
+        },
+        [defaultWarehouse, canadaOutlet, canadaWarehouse]
+      );
+
+      expect(routes[0].destination?.id).toBe("dest_ca");
+    });
+
+    it("keeps a cross-border destination when there is no domestic one", () => {
+      const canadaOutlet = createMockDestination({
+        id: "dest_ca_outlet",
+        country: "CA",
+        destinationType: "outlet",
+        isDefault: false,
+      });
+
+      const routes = groupItemsByDestination(
+        rules,
+        defaultWarehouse,
+        {
+          orderValue: 50,
+          customerCountry: "CA",
+          items: [{ returnItemId: "item_1", productType: "Apparel" }],
+        },
+        [defaultWarehouse, canadaOutlet]
+      );
+
+      expect(routes[0].destination?.id).toBe("dest_default");
+    });
+  });
+
+  describe("routeReturnRequest", () => {
+    it("creates one shipment per destination and assigns items to it", async () => {
+      const electronicsWarehouse = createMockDestination({ id: "dest_elec", isDefault: false });
+      const defaultWarehouse = createMockDestination({ id: "dest_default" });
+
+      vi.mocked(db.routingRule.findMany).mockResolvedValue([
+        createMockRoutingRule({ id: "rule_elec", destination: electronicsWarehouse }),
+      ] as never);
+      vi.mocked(db.returnDestination.findFirst).mockResolvedValue(defaultWarehouse);
+      vi.mocked(db.returnShipment.deleteMany).mockResolvedValue({ count: 0 });
+      vi.mocked(db.returnShipment.create)
+        .mockResolvedValueOnce({ id: "shipment_1" } as never)
+        .mockResolvedValueOnce({ id: "shipment_2" } as never);
+
+      const shipments = await routeReturnRequest("test-shop.myshopify.com", "return_123", {
+        orderValue: 150,
+        items: [
+          { returnItemId: "item_1", productType: "Electronics" },
+          { returnItemId: "item_2", productType: "Apparel" },
+        ],
+      });
+
+      expect(db.returnShipment.deleteMany).toHaveBeenCalledWith({
+        where: { returnRequestId: "return_123" },
+      });
+      expect(db.returnShipment.create).toHaveBeenNthCalledWith(1, {
+        data: {
+          returnRequestId: "return_123",
+          destinationId: "dest_elec",
+          routingRuleId: "rule_elec",
+          items: { connect: [{ id: "item_1" }] },
+        },
+      });
+      expect(db.returnShipment.create).toHaveBeenNthCalledWith(2, {
+        data: {
+          returnRequestId: "return_123",
+          destinationId: "dest_default",
+          routingRuleId: null,
+          items: { connect: [{ id: "item_2" }] },
+        },
+      });
+      expect(shipments.map((s) => s.shipment.id)).toEqual(["shipment_1", "shipment_2"]);
+    });
+  });
+
+  describe("routeReturnFromOrder", () => {
+    it("routes each item by its product in the Shopify order", async () => {
+      const electronicsWarehouse = createMockDestination({ id: "dest_elec", isDefault: false });
+      const defaultWarehouse = createMockDestination({ id: "dest_default" });
+      const admin = {
+        graphql: vi.fn().mockResolvedValue({
+          json: () =>
+            Promise.resolve({
+              data: {
+                order: {
+                  totalPriceSet: { shopMoney: { amount: "150.00" } },
+                  customer: { tags: ["vip"] },
+                  shippingAddress: {
+                    name: "John Doe",
+                    address1: "1 Main St",
+                    address2: null,
+                    city: "Austin",
+                    provinceCode: "TX",
+                    zip: "78701",
+                    countryCodeV2: "US",
+                    phone: null,
+                  },
+                  lineItems: {
+                    nodes: [
+                      {
+                        id: "gid://shopify/LineItem/1",
+                        sku: "ELEC-1",
+                        vendor: "Acme",
+                        product: { productType: "Electronics", tags: [] },
+                      },
+                      {
+                        id: "gid://shopify/LineItem/2",
+                        sku: "SWTR-1",
+                        vendor: "Knits",
+                        product: { productType: "Apparel", tags: [] },
+                      },
+                    ],
+                  },
+                },
+              },
+            }),
+        }),
+      };
+
+      vi.mocked(db.routingRule.findMany).mockResolvedValue([
+        createMockRoutingRule({ id: "rule_elec", destination: electronicsWarehouse }),
+      ] as never);
+      vi.mocked(db.returnDestination.findFirst).mockResolvedValue(defaultWarehouse);
+      vi.mocked(db.returnDestination.findMany).mockResolvedValue([electronicsWarehouse, defaultWarehouse]);
+      vi.mocked(db.returnShipment.deleteMany).mockResolvedValue({ count: 0 });
+      vi.mocked(db.returnShipment.create)
+        .mockResolvedValueOnce({ id: "shipment_1" } as never)
+        .mockResolvedValueOnce({ id: "shipment_2" } as never);
+
+      const { order, shipments } = await routeReturnFromOrder(admin, {
+        id: "return_123",
+        shop: "test-shop.myshopify.com",
+        shopifyOrderId: "gid://shopify/Order/1",
+        reason: null,
+        items: [
+          { id: "item_1", shopifyLineItemId: "gid://shopify/LineItem/1", sku: null },
+          { id: "item_2", shopifyLineItemId: "gid://shopify/LineItem/2", sku: null },
+        ],
+      });
+
+      expect(shipments.map((s) => [s.destination?.id, s.items.map((i) => i.returnItemId)])).toEqual([
+        ["dest_elec", ["item_1"]],
+        ["dest_default", ["item_2"]],
+      ]);
+      expect(shipments[0].items[0]).toEqual(
+        expect.objectContaining({ sku: "ELEC-1", productVendor: "Acme" })
+      );
+      expect(order?.shippingAddress).toEqual({
+        name: "John Doe",
+        company: undefined,
+        street1: "1 Main St",
+        street2: undefined,
+        city: "Austin",
+        state: "TX",
+        zip: "78701",
+        country: "US",
+        phone: undefined,
+      });
+    });
+  });
+
   describe("buildRoutingContext", () => {
     it("builds context from order, return, and customer data", () => {
       const orderData = {
@@ -1,37 +1,121 @@
 import db from "../db.server";
-import type { RoutingRule, ReturnDestination } from "@prisma/client";
-
-export type ConditionType =
-  | "product_type"
-  | "product_tag"
-  | "sku_contains"
-  | "order_value_above"
-  | "order_value_below"
-  | "return_reason"
-  | "customer_tag"
-  | "product_vendor";
+import type { RoutingRule, ReturnDestination, ReturnItem, ReturnShipment } from "@prisma/client";
+import type { Address } from "./shipping.server";
+import {
+  COMPOSITE_CONDITION_TYPE,
+  describeConditionNode,
+  isConditionGroup,
+  type ConditionGroup,
+  type ConditionNode,
+  type ConditionType,
+} from "../utils/routing";
+
+export {
+  COMPOSITE_CONDITION_TYPE,
+  describeConditionNode,
+  isConditionGroup,
+} from "../utils/routing";
+export type {
+  ConditionGroup,
+  ConditionGroupOperator,
+  ConditionLeaf,
+  ConditionNode,
+  ConditionType,
+} from "../utils/routing";
+
+type AdminGraphQL = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+const GET_ORDER_ROUTING = `#graphql
+  query GetOrderRouting($id: ID!) {
+    order(id: $id) {
+      totalPriceSet {
+        shopMoney {
+          amount
+        }
+      }
+      customer {
+        tags
+      }
+      shippingAddress {
+        name
+        company
+        address1
+        address2
+        city
+        provinceCode
+        zip
+        countryCodeV2
+        phone
+      }
+      lineItems(first: 50) {
+        nodes {
+          id
+          sku
+          vendor
+          product {
+            productType
+            tags
+          }
+        }
+      }
+    }
+  }
+`;
 
 export interface RoutingContext {
   orderValue: number;
   returnReason?: string;
   customerTags?: string[];
-  items: Array<{
-    productType?: string;
-    productTags?: string[];
-    productVendor?: string;
-    sku?: string;
-  }>;
+  // Where the customer ships from, to keep returns domestic where possible
+  customerCountry?: string;
+  items: Array<RoutingItem>;
+}
+
+export interface RoutingItem {
+  // ReturnItem id; required for per-item routing to assign the item to a shipment
+  returnItemId?: string;
+  productType?: string;
+  productTags?: string[];
+  productVendor?: string;
+  sku?: string;
+}
+
+export interface ItemRoute {
+  destination: ReturnDestination | null;
+  matchedRule: RoutingRule | null;
+  items: RoutingItem[];
+}
+
+export interface ShipmentRoute extends ItemRoute {
+  shipment: ReturnShipment;
 }
 
 export interface RuleWithDestination extends RoutingRule {
   destination: ReturnDestination;
 }
 
-export function evaluateCondition(
-  rule: RoutingRule,
+// What routing and return labels need from the Shopify order.
+export interface OrderRouting {
+  totalValue: number;
+  customerTags: string[];
+  shippingAddress: Address | null;
+  lineItems: Map<string, Omit<RoutingItem, "returnItemId">>;
+}
+
+interface OrderRoutingLineItem {
+  id: string;
+  sku?: string | null;
+  vendor?: string | null;
+  product?: { productType?: string | null; tags?: string[] } | null;
+}
+
+export function evaluateLeafCondition(
+  conditionType: string,
+  conditionValue: string,
   context: RoutingContext
 ): boolean {
-  const { conditionType, conditionValue } = rule;
   const normalizedValue = conditionValue.toLowerCase().trim();
 
   switch (conditionType as ConditionType) {
@@ -78,23 +162,183 @@ export function evaluateCondition(
   }
 }
 
-export function findMatchingDestination(
+// Empty groups never match, so a half-built rule cannot catch every return.
+export function evaluateConditionNode(
+  node: ConditionNode,
+  context: RoutingContext
+): boolean {
+  if (!isConditionGroup(node)) {
+    return evaluateLeafCondition(node.type, node.value, context);
+  }
+
+  if (node.conditions.length === 0) {
+    return false;
+  }
+
+  switch (node.operator) {
+    case "AND":
+      return node.conditions.every((child) => evaluateConditionNode(child, context));
+    case "OR":
+      return node.conditions.some((child) => evaluateConditionNode(child, context));
+    case "NOT":
+      return !node.conditions.some((child) => evaluateConditionNode(child, context));
+    default:
+      return false;
+  }
+}
+
+export function parseConditionTree(value: unknown): ConditionGroup | null {
+  const raw = typeof value === "string" ? safeJsonParse(value) : value;
+
+  if (!raw || typeof raw !== "object" || !isConditionGroup(raw as ConditionNode)) {
+    return null;
+  }
+
+  return raw as ConditionGroup;
+}
+
+function safeJsonParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+export function evaluateCondition(
+  rule: RoutingRule,
+  context: RoutingContext
+): boolean {
+  const tree = parseConditionTree(rule.conditions);
+  if (tree) {
+    return evaluateConditionNode(tree, context);
+  }
+
+  return evaluateLeafCondition(rule.conditionType, rule.conditionValue, context);
+}
+
+// Single-condition trees are stored in the legacy columns so existing rules and
+// the rules table keep working; anything richer is stored as a composite tree.
+export function toRuleConditionFields(tree: ConditionGroup): {
+  conditionType: string;
+  conditionValue: string;
+  conditions: ConditionGroup | null;
+} {
+  const [only] = tree.conditions;
+  if (tree.operator !== "NOT" && tree.conditions.length === 1 && !isConditionGroup(only)) {
+    return { conditionType: only.type, conditionValue: only.value, conditions: null };
+  }
+
+  return {
+    conditionType: COMPOSITE_CONDITION_TYPE,
+    conditionValue: describeConditionNode(tree),
+    conditions: tree,
+  };
+}
+
+export function validateConditionNode(node: ConditionNode, path = "conditions"): string[] {
+  if (!isConditionGroup(node)) {
+    if (!node.value?.trim()) {
+      return [`${path}: condition value is required`];
+    }
+    if (node.type === "order_value_above" || node.type === "order_value_below") {
+      if (isNaN(parseFloat(node.value))) {
+        return [`${path}: invalid numeric value ${node.value}`];
+      }
+    }
+    return [];
+  }
+
+  if (node.conditions.length === 0) {
+    return [`${path}: ${node.operator} group has no conditions`];
+  }
+
+  return node.conditions.flatMap((child, index) =>
+    validateConditionNode(child, `${path}.${index}`)
+  );
+}
+
+export function findMatchingRule(
   rules: RuleWithDestination[],
   context: RoutingContext
-): ReturnDestination | null {
+): RuleWithDestination | null {
   const sortedRules = [...rules]
     .filter((rule) => rule.isActive)
     .sort((a, b) => a.priority - b.priority);
 
   for (const rule of sortedRules) {
     if (evaluateCondition(rule, context)) {
-      return rule.destination;
+      return rule;
     }
   }
 
   return null;
 }
 
+export function findMatchingDestination(
+  rules: RuleWithDestination[],
+  context: RoutingContext
+): ReturnDestination | null {
+  return findMatchingRule(rules, context)?.destination ?? null;
+}
+
+function sameCountry(a: string, b: string): boolean {
+  return a.trim().toUpperCase() === b.trim().toUpperCase();
+}
+
+// A destination abroad is swapped for one of the same type in the customer's
+// country, so the parcel doesn't have to clear customs. Without one the
+// cross-border destination stands.
+export function preferDomesticDestination(
+  destination: ReturnDestination | null,
+  destinations: ReturnDestination[],
+  customerCountry?: string
+): ReturnDestination | null {
+  if (!destination || !customerCountry || sameCountry(destination.country, customerCountry)) {
+    return destination;
+  }
+
+  const domestic = destinations.filter(
+    (d) =>
+      sameCountry(d.country, customerCountry) && d.destinationType === destination.destinationType
+  );
+
+  return domestic.find((d) => d.isDefault) ?? domestic[0] ?? destination;
+}
+
+// Each item is evaluated on its own so item-level conditions (type, tag, vendor,
+// SKU) only see that item; order value, reason and customer tags are shared.
+// Items that land on the same destination are grouped together, in the order
+// their destination was first seen. Pass every destination of the shop to
+// keep customers abroad shipping domestically.
+export function groupItemsByDestination(
+  rules: RuleWithDestination[],
+  defaultDestination: ReturnDestination | null,
+  context: RoutingContext,
+  destinations: ReturnDestination[] = []
+): ItemRoute[] {
+  const routes = new Map<string, ItemRoute>();
+
+  for (const item of context.items) {
+    const matchedRule = findMatchingRule(rules, { ...context, items: [item] });
+    const destination = preferDomesticDestination(
+      matchedRule?.destination ?? defaultDestination,
+      destinations,
+      context.customerCountry
+    );
+    const key = destination?.id ?? "unrouted";
+
+    const existing = routes.get(key);
+    if (existing) {
+      existing.items.push(item);
+    } else {
+      routes.set(key, { destination, matchedRule, items: [item] });
+    }
+  }
+
+  return Array.from(routes.values());
+}
+
 export async function getDestinationForReturn(
   shop: string,
   context: RoutingContext
@@ -110,68 +354,171 @@ export async function getDestinationForReturn(
     context
   );
 
-  if (matchedDestination) {
-    return matchedDestination;
-  }
+  const destination =
+    matchedDestination ??
+    (await db.returnDestination.findFirst({
+      where: { shop, isDefault: true },
+    }));
 
-  const defaultDestination = await db.returnDestination.findFirst({
-    where: { shop, isDefault: true },
-  });
+  return preferDomesticDestination(
+    destination,
+    await getDestinationsForCountry(shop, context.customerCountry),
+    context.customerCountry
+  );
+}
 
-  return defaultDestination;
+// Only needed when the customer's country is known.
+async function getDestinationsForCountry(
+  shop: string,
+  customerCountry?: string
+): Promise<ReturnDestination[]> {
+  if (!customerCountry) {
+    return [];
+  }
+  return db.returnDestination.findMany({ where: { shop } });
 }
 
+// Routes every item of a return and persists one ReturnShipment per destination.
+// Re-routing replaces the previous shipments; labels already bought stay on the
+// return but are detached from the old shipments.
 export async function routeReturnRequest(
   shop: string,
   returnRequestId: string,
   context: RoutingContext
-): Promise<{ destination: ReturnDestination | null; matchedRule: RoutingRule | null }> {
+): Promise<ShipmentRoute[]> {
   const rules = await db.routingRule.findMany({
     where: { shop, isActive: true },
     include: { destination: true },
     orderBy: { priority: "asc" },
   });
 
-  for (const rule of rules as RuleWithDestination[]) {
-    if (evaluateCondition(rule, context)) {
-      return {
-        destination: rule.destination,
-        matchedRule: rule,
-      };
-    }
-  }
-
   const defaultDestination = await db.returnDestination.findFirst({
     where: { shop, isDefault: true },
   });
 
+  const routes = groupItemsByDestination(
+    rules as RuleWithDestination[],
+    defaultDestination,
+    context,
+    await getDestinationsForCountry(shop, context.customerCountry)
+  );
+
+  await db.returnShipment.deleteMany({ where: { returnRequestId } });
+
+  const shipments: ShipmentRoute[] = [];
+  for (const route of routes) {
+    const itemIds = route.items
+      .map((item) => item.returnItemId)
+      .filter((id): id is string => Boolean(id));
+
+    const shipment = await db.returnShipment.create({
+      data: {
+        returnRequestId,
+        destinationId: route.destination?.id ?? null,
+        routingRuleId: route.matchedRule?.id ?? null,
+        items: { connect: itemIds.map((id) => ({ id })) },
+      },
+    });
+
+    shipments.push({ ...route, shipment });
+  }
+
+  return shipments;
+}
+
+export async function fetchOrderRouting(
+  admin: AdminGraphQL,
+  orderId: string
+): Promise<OrderRouting | null> {
+  const response = await admin.graphql(GET_ORDER_ROUTING, { variables: { id: orderId } });
+  const data = await response.json();
+  const order = data.data?.order;
+
+  if (!order) {
+    return null;
+  }
+
+  const address = order.shippingAddress;
   return {
-    destination: defaultDestination,
-    matchedRule: null,
+    totalValue: parseFloat(order.totalPriceSet?.shopMoney?.amount ?? "0"),
+    customerTags: order.customer?.tags ?? [],
+    shippingAddress: address
+      ? {
+          name: address.name ?? "",
+          company: address.company ?? undefined,
+          street1: address.address1 ?? "",
+          street2: address.address2 ?? undefined,
+          city: address.city ?? "",
+          state: address.provinceCode ?? "",
+          zip: address.zip ?? "",
+          country: address.countryCodeV2 ?? "US",
+          phone: address.phone ?? undefined,
+        }
+      : null,
+    lineItems: new Map(
+      (order.lineItems?.nodes ?? []).map((item: OrderRoutingLineItem) => [
+        item.id,
+        {
+          sku: item.sku ?? undefined,
+          productVendor: item.vendor ?? undefined,
+          productType: item.product?.productType ?? undefined,
+          productTags: item.product?.tags ?? [],
+        },
+      ])
+    ),
   };
 }
 
+// Routes a return's items using its Shopify order for the customer's tags and
+// country and each item's product. Returns the order so a caller buying labels
+// can ship from its address.
+export async function routeReturnFromOrder(
+  admin: AdminGraphQL,
+  returnRequest: {
+    id: string;
+    shop: string;
+    shopifyOrderId: string;
+    reason: string | null;
+    items: Pick<ReturnItem, "id" | "shopifyLineItemId" | "sku">[];
+  }
+): Promise<{ order: OrderRouting | null; shipments: ShipmentRoute[] }> {
+  const order = await fetchOrderRouting(admin, returnRequest.shopifyOrderId);
+
+  const context = buildRoutingContext(
+    {
+      totalValue: order?.totalValue ?? 0,
+      lineItems: returnRequest.items.map((item) => ({
+        sku: item.sku ?? undefined,
+        ...order?.lineItems.get(item.shopifyLineItemId),
+        returnItemId: item.id,
+      })),
+    },
+    { reason: returnRequest.reason ?? undefined },
+    { tags: order?.customerTags, country: order?.shippingAddress?.country }
+  );
+
+  const shipments = await routeReturnRequest(returnRequest.shop, returnRequest.id, context);
+  return { order, shipments };
+}
+
 export function buildRoutingContext(
   orderData: {
     totalValue: number;
-    lineItems: Array<{
-      productType?: string;
-      productTags?: string[];
-      productVendor?: string;
-      sku?: string;
-    }>;
+    lineItems: RoutingItem[];
   },
   returnData: {
     reason?: string;
   },
   customerData?: {
     tags?: string[];
+    country?: string;
   }
 ): RoutingContext {
   return {
     orderValue: orderData.totalValue,
     returnReason: returnData.reason,
     customerTags: customerData?.tags,
+    customerCountry: customerData?.country,
     items: orderData.lineItems,
   };
 }
@@ -205,7 +552,12 @@ export async function validateRoutingRules(shop: string): Promise<{
       issues.push(`Rule "${rule.name}" references a deleted destination`);
     }
 
-    if (rule.conditionType === "order_value_above" || rule.conditionType === "order_value_below") {
+    const tree = parseConditionTree(rule.conditions);
+    if (tree) {
+      for (const issue of validateConditionNode(tree)) {
+        issues.push(`Rule "${rule.name}" ${issue}`);
+      }
+    } else if (rule.conditionType === "order_value_above" || rule.conditionType === "order_value_below") {
       const value = parseFloat(rule.conditionValue);
       if (isNaN(value)) {
         issues.push(`Rule "${rule.name}" has invalid numeric value: ${rule.conditionValue}`);
@@ -1,13 +1,66 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
 import {
   ShippoProvider,
   EasyPostProvider,
+  createLabelsForReturn,
+  createReturnLabel,
+  createReturnLabels,
+  expireUnusedLabels,
+  quoteRates,
+  regenerateReturnLabel,
+  selectRate,
+  voidReturnLabel,
   type Address,
   type LabelResult,
+  type ShippingProvider,
+  type ShippingRate,
 } from "./shipping.server";
+import { transitionReturn } from "./return-lifecycle.server";
+import { sendLabelExpired } from "./notifications.server";
+import { fetchOrderRouting, routeReturnFromOrder } from "./routing.server";
+import {
+  mockPackagingPreset,
+  mockReturnDestination,
+  mockReturnItem,
+  mockReturnRequest,
+  mockShippingLabel,
+  mockShop,
+  mockShopSettings,
+} from "../../test/fixtures";
+
+vi.mock("./return-lifecycle.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./return-lifecycle.server")>()),
+  transitionReturn: vi.fn(),
+}));
+
+vi.mock("./notifications.server", () => ({
+  sendLabelExpired: vi.fn(),
+}));
+
+vi.mock("./routing.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./routing.server")>()),
+  fetchOrderRouting: vi.fn(),
+  routeReturnFromOrder: vi.fn(),
+}));
 
 global.fetch = vi.fn();
 
+function rate(overrides: Partial<ShippingRate>): ShippingRate {
+  return {
+    provider: "shippo",
+    rateId: "rate_1",
+    shipmentId: null,
+    carrier: "USPS",
+    service: "Ground Advantage",
+    serviceToken: "usps_ground_advantage",
+    amount: 8,
+    currency: "USD",
+    estimatedDays: 5,
+    ...overrides,
+  };
+}
+
 describe("Shipping Providers", () => {
   const mockFromAddress: Address = {
     name: "John Doe",
@@ -277,5 +330,965 @@ describe("Shipping Providers", () => {
         expect(result.error).toContain("Failed to purchase label");
       });
     });
+
+    describe("getTracking", () => {
+      it("creates or reuses a tracker for the tracking code", async () => {
+        vi.mocked(fetch).mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            tracking_code: "EZ1000000001",
+            carrier: "USPS",
+            status: "in_transit",
+            tracking_details: [
+              { status: "in_transit", message: "Arrived at facility", datetime: "2026-02-10T10:00:00Z" },
+            ],
+          }),
+        } as Response);
+
+        const result = await provider.getTracking("USPS", "EZ1000000001");
+
+        expect(fetch).toHaveBeenCalledWith(
+          "https://api.easypost.com/v2/trackers",
+          expect.objectContaining({
+            method: "POST",
+            body: JSON.stringify({ tracker: { tracking_code: "EZ1000000001", carrier: "USPS" } }),
+          })
+        );
+        expect(result?.status).toBe("in_transit");
+        expect(result?.checkpoints[0].description).toBe("Arrived at facility");
+      });
+
+      it("throws when EasyPost rejects the request", async () => {
+        vi.mocked(fetch).mockResolvedValueOnce({
+          ok: false,
+          text: async () => "Unauthorized",
+        } as Response);
+
+        await expect(provider.getTracking("USPS", "EZ1000000001")).rejects.toThrow(
+          "EasyPost tracking error"
+        );
+      });
+    });
+  });
+
+  describe("purchaseLabel with a QR code", () => {
+    const uspsRate = {
+      provider: "shippo",
+      rateId: "rate_usps",
+      shipmentId: "shp_123",
+      carrier: "USPS",
+      service: "Priority Mail",
+      serviceToken: "usps_priority",
+      amount: 8.5,
+      currency: "USD",
+      estimatedDays: 2,
+    };
+
+    it("requests a QR code with the Shippo transaction", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          status: "SUCCESS",
+          object_id: "txn_abc123",
+          tracking_number: "9400111899223033005282",
+          label_url: "https://shippo.com/labels/abc.pdf",
+          qr_code_url: "https://shippo.com/qr/abc.png",
+        }),
+      } as Response);
+
+      const result = await new ShippoProvider("key").purchaseLabel(uspsRate, { qrCode: true });
+
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+      expect(body.qr_code_requested).toBe(true);
+      expect(result.qrCodeUrl).toBe("https://shippo.com/qr/abc.png");
+    });
+
+    it("doesn't ask Shippo for QR codes on carriers without them", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ status: "SUCCESS", object_id: "txn_abc123" }),
+      } as Response);
+
+      await new ShippoProvider("key").purchaseLabel(
+        { ...uspsRate, carrier: "FedEx" },
+        { qrCode: true }
+      );
+
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+      expect(body).not.toHaveProperty("qr_code_requested");
+    });
+
+    it("creates an EasyPost QR code form after buying the label", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            id: "shp_123",
+            tracking_code: "9400111899223033005282",
+            selected_rate: { carrier: "USPS", service: "Priority", rate: "8.50" },
+            postage_label: { label_url: "https://easypost.com/label.png" },
+          }),
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            id: "shp_123",
+            forms: [{ form_type: "label_qr_code", form_url: "https://easypost.com/qr.png" }],
+          }),
+        } as Response);
+
+      const result = await new EasyPostProvider("key").purchaseLabel(
+        { ...uspsRate, provider: "easypost" },
+        { qrCode: true }
+      );
+
+      expect(fetch).toHaveBeenLastCalledWith(
+        "https://api.easypost.com/v2/shipments/shp_123/forms",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify({ form: { type: "label_qr_code" } }),
+        })
+      );
+      expect(result).toMatchObject({ success: true, qrCodeUrl: "https://easypost.com/qr.png" });
+    });
+
+    it("keeps the EasyPost label when the QR code can't be created", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ id: "shp_123", selected_rate: { carrier: "USPS" } }),
+        } as Response)
+        .mockResolvedValueOnce({ ok: false, text: async () => "unavailable" } as Response);
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const result = await new EasyPostProvider("key").purchaseLabel(
+        { ...uspsRate, provider: "easypost" },
+        { qrCode: true }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.qrCodeUrl).toBeUndefined();
+    });
+  });
+
+  describe("voidLabel", () => {
+    it("refunds a Shippo transaction", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ object_id: "refund_1", status: "SUCCESS" }),
+      } as Response);
+
+      const result = await new ShippoProvider("key").voidLabel("txn_abc123");
+
+      expect(fetch).toHaveBeenCalledWith(
+        "https://api.goshippo.com/refunds",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify({ transaction: "txn_abc123", async: false }),
+        })
+      );
+      expect(result).toEqual({ success: true, status: "voided" });
+    });
+
+    it("reports queued Shippo refunds as pending", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ status: "QUEUED" }),
+      } as Response);
+
+      expect(await new ShippoProvider("key").voidLabel("txn_abc123")).toEqual({
+        success: true,
+        status: "pending",
+      });
+    });
+
+    it("refunds an EasyPost shipment", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: "shp_123", refund_status: "submitted" }),
+      } as Response);
+
+      const result = await new EasyPostProvider("key").voidLabel("shp_123");
+
+      expect(fetch).toHaveBeenCalledWith(
+        "https://api.easypost.com/v2/shipments/shp_123/refund",
+        expect.objectContaining({ method: "POST" })
+      );
+      expect(result).toEqual({ success: true, status: "pending" });
+    });
+
+    it("fails when EasyPost rejects the refund", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: "shp_123", refund_status: "rejected" }),
+      } as Response);
+
+      expect(await new EasyPostProvider("key").voidLabel("shp_123")).toEqual({
+        success: false,
+        error: "EasyPost refund rejected",
+      });
+    });
+  });
+
+  describe("selectRate", () => {
+    const ground = rate({ rateId: "ground", amount: 7.5, estimatedDays: 5 });
+    const priority = rate({
+      rateId: "priority",
+      service: "Priority Mail",
+      serviceToken: "usps_priority",
+      amount: 9.1,
+      estimatedDays: 2,
+    });
+    const ups = rate({
+      provider: "easypost",
+      rateId: "ups",
+      carrier: "UPS",
+      service: "Ground",
+      serviceToken: "Ground",
+      amount: 6.2,
+      estimatedDays: 4,
+    });
+    const noPreferences = { allowedCarriers: [], maxTransitDays: null, preferredService: null };
+
+    it("takes the cheapest rate across providers", () => {
+      const selection = selectRate([ground, priority, ups], noPreferences);
+
+      expect(selection.rate).toBe(ups);
+      expect(selection.reason).toBe("cheapest");
+      expect(selection.considered.map((q) => [q.carrier, q.amount, q.selected])).toEqual([
+        ["UPS", 6.2, true],
+        ["USPS", 7.5, false],
+        ["USPS", 9.1, false],
+      ]);
+    });
+
+    it("applies allowed carriers and transit limits", () => {
+      const selection = selectRate([ground, priority, ups], {
+        allowedCarriers: ["usps"],
+        maxTransitDays: 3,
+        preferredService: null,
+      });
+
+      expect(selection.rate).toBe(priority);
+      expect(selection.considered.map((q) => q.excludedReason)).toEqual([
+        "Carrier not allowed",
+        "Over 3 transit days",
+        null,
+      ]);
+    });
+
+    it("prefers the destination's service when it is quoted", () => {
+      const selection = selectRate([ground, priority, ups], {
+        ...noPreferences,
+        preferredService: "USPS_Priority",
+      });
+
+      expect(selection.rate).toBe(priority);
+      expect(selection.reason).toBe("preferred_service");
+    });
+
+    it("returns no rate when nothing is allowed", () => {
+      const selection = selectRate([ground], { ...noPreferences, allowedCarriers: ["FedEx"] });
+
+      expect(selection.rate).toBeNull();
+      expect(selection.reason).toBeNull();
+      expect(selection.considered).toHaveLength(1);
+    });
+  });
+
+  describe("quoteRates", () => {
+    it("keeps rates from providers that answered", async () => {
+      const working = { name: "shippo", getRates: vi.fn(async () => [rate({})]) };
+      const failing = {
+        name: "easypost",
+        getRates: vi.fn(async () => {
+          throw new Error("EasyPost API error: Unauthorized");
+        }),
+      };
+
+      const quote = await quoteRates(
+        [working, failing] as unknown as ShippingProvider[],
+        mockFromAddress,
+        mockToAddress,
+        mockParcel
+      );
+
+      expect(quote.rates).toHaveLength(1);
+      expect(quote.errors).toEqual([
+        { provider: "easypost", error: "EasyPost API error: Unauthorized" },
+      ]);
+    });
+  });
+
+  describe("createReturnLabel", () => {
+    beforeEach(() => {
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+        isReturnless: false,
+        status: "approved",
+      } as never);
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        ...mockShopSettings,
+        shippoApiKey: "shippo_key",
+        easypostApiKey: "easypost_key",
+        allowedCarriers: ["USPS", "UPS"],
+      });
+      vi.mocked(db.returnDestination.findFirst).mockResolvedValue({
+        ...mockReturnDestination,
+        preferredService: "usps_priority",
+      });
+      vi.mocked(db.shippingLabel.create).mockResolvedValue(mockShippingLabel as never);
+    });
+
+    it("buys the preferred rate across both providers and records the quotes", async () => {
+      vi.mocked(fetch)
+        // Shippo quote
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            object_id: "shp_shippo",
+            rates: [
+              {
+                object_id: "rate_ground",
+                amount: "7.50",
+                currency: "USD",
+                provider: "USPS",
+                servicelevel: { name: "Ground Advantage", token: "usps_ground_advantage" },
+                estimated_days: 5,
+              },
+              {
+                object_id: "rate_priority",
+                amount: "9.10",
+                currency: "USD",
+                provider: "USPS",
+                servicelevel: { name: "Priority Mail", token: "usps_priority" },
+                estimated_days: 2,
+              },
+            ],
+          }),
+        } as Response)
+        // EasyPost quote
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            id: "shp_easypost",
+            rates: [
+              { id: "rate_fedex", rate: "5.00", carrier: "FedEx", service: "FEDEX_GROUND", delivery_days: 3 },
+              { id: "rate_ups", rate: "6.20", carrier: "UPS", service: "Ground", delivery_days: 4 },
+            ],
+          }),
+        } as Response)
+        // Shippo purchase
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            status: "SUCCESS",
+            tracking_number: "9400111899223456789012",
+            tracking_url_provider: "https://tools.usps.com/track",
+            label_url: "https://shippo.com/labels/abc.pdf",
+            object_id: "txn_abc123",
+          }),
+        } as Response);
+
+      const result = await createReturnLabel(mockShop, "return_123", mockFromAddress, mockParcel);
+
+      expect(result.success).toBe(true);
+      expect(fetch).toHaveBeenLastCalledWith(
+        "https://api.goshippo.com/transactions",
+        expect.objectContaining({ body: expect.stringContaining('"rate":"rate_priority"') })
+      );
+      expect(db.shippingLabel.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          carrier: "USPS",
+          cost: 9.1,
+          provider: "shippo",
+          service: "Priority Mail",
+          estimatedDays: 2,
+          selectionReason: "preferred_service",
+          shippoTransactionId: "txn_abc123",
+          easypostShipmentId: null,
+          rateQuotes: [
+            expect.objectContaining({ carrier: "FedEx", excludedReason: "Carrier not allowed" }),
+            expect.objectContaining({ carrier: "UPS", selected: false, excludedReason: null }),
+            expect.objectContaining({ service: "Ground Advantage", selected: false }),
+            expect.objectContaining({ service: "Priority Mail", selected: true }),
+          ],
+        }),
+      });
+      expect(transitionReturn).toHaveBeenCalledWith(
+        "return_123",
+        "awaiting_shipment",
+        { type: "system" },
+        { shop: mockShop, reason: "USPS label created" }
+      );
+    });
+
+    it("reports when no quoted rate fits the preferences", async () => {
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        ...mockShopSettings,
+        shippoApiKey: "shippo_key",
+        allowedCarriers: ["DHL"],
+      });
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          rates: [{ object_id: "rate_1", amount: "7.50", provider: "USPS" }],
+        }),
+      } as Response);
+
+      const result = await createReturnLabel(mockShop, "return_123", mockFromAddress, mockParcel);
+
+      expect(result).toEqual({
+        success: false,
+        error: "No shipping rates match your carrier preferences",
+      });
+      expect(db.shippingLabel.create).not.toHaveBeenCalled();
+    });
+
+    it("surfaces provider errors when no rates come back", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({ ok: false, text: async () => "Invalid address" } as Response)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: "shp_1", rates: [] }) } as Response);
+
+      const result = await createReturnLabel(mockShop, "return_123", mockFromAddress, mockParcel);
+
+      expect(result).toEqual({ success: false, error: "Shippo API error: Invalid address" });
+    });
+
+    it("declares customs for cross-border returns", async () => {
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        ...mockShopSettings,
+        shippoApiKey: "shippo_key",
+      });
+      vi.mocked(db.returnDestination.findMany).mockResolvedValue([mockReturnDestination]);
+      vi.mocked(db.returnItem.findMany).mockResolvedValue([mockReturnItem]);
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            rates: [{ object_id: "rate_intl", amount: "24.00", provider: "USPS" }],
+          }),
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            status: "SUCCESS",
+            object_id: "txn_intl",
+            label_url: "https://shippo.com/l.pdf",
+          }),
+        } as Response);
+      const admin = {
+        graphql: vi.fn().mockResolvedValue({
+          json: async () => ({
+            data: {
+              nodes: [
+                {
+                  id: mockReturnItem.shopifyVariantId,
+                  inventoryItem: { harmonizedSystemCode: null, countryCodeOfOrigin: "CN" },
+                  product: { hsCode: { value: "8471.30" } },
+                },
+              ],
+            },
+          }),
+        }),
+      };
+
+      const result = await createReturnLabel(
+        mockShop,
+        "return_123",
+        { ...mockFromAddress, city: "Toronto", state: "ON", zip: "M5V 2T6", country: "CA" },
+        { weight: 2 },
+        undefined,
+        { admin }
+      );
+
+      expect(result.success).toBe(true);
+      const shipment = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+      expect(shipment.address_to.country).toBe("US");
+      expect(shipment.customs_declaration).toMatchObject({
+        contents_type: "RETURN_MERCHANDISE",
+        certify_signer: "John Doe",
+        items: [
+          {
+            description: "Premium Widget - Blue / Large",
+            quantity: 1,
+            net_weight: "2",
+            value_amount: "99.99",
+            origin_country: "CN",
+            tariff_number: "8471.30",
+          },
+        ],
+      });
+      expect(db.shippingLabel.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          customs: expect.objectContaining({ contentsType: "return_merchandise" }),
+        }),
+      });
+    });
+
+    it("skips customs for domestic returns", async () => {
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        ...mockShopSettings,
+        shippoApiKey: "shippo_key",
+      });
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ rates: [{ object_id: "rate_1", amount: "7.50", provider: "USPS" }] }),
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            status: "SUCCESS",
+            object_id: "txn_1",
+            label_url: "https://shippo.com/l.pdf",
+          }),
+        } as Response);
+
+      await createReturnLabel(mockShop, "return_123", mockFromAddress, mockParcel);
+
+      const shipment = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+      expect(shipment.customs_declaration).toBeUndefined();
+      expect(db.returnItem.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("createReturnLabels", () => {
+    const shippoQuote = {
+      ok: true,
+      json: async () => ({
+        object_id: "shp_shippo",
+        rates: [
+          {
+            object_id: "rate_ground",
+            amount: "7.50",
+            provider: "USPS",
+            servicelevel: { name: "Ground Advantage", token: "usps_ground_advantage" },
+            estimated_days: 5,
+          },
+        ],
+      }),
+    } as Response;
+
+    function shippoPurchase(transactionId: string) {
+      return {
+        ok: true,
+        json: async () => ({
+          status: "SUCCESS",
+          tracking_number: `trk_${transactionId}`,
+          label_url: `https://shippo.com/labels/${transactionId}.pdf`,
+          object_id: transactionId,
+        }),
+      } as Response;
+    }
+
+    beforeEach(() => {
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+        isReturnless: false,
+        status: "approved",
+      } as never);
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        ...mockShopSettings,
+        shippoApiKey: "shippo_key",
+      });
+      vi.mocked(db.returnDestination.findFirst).mockResolvedValue(mockReturnDestination);
+      // Three 1 lb units against a box that holds two
+      vi.mocked(db.returnItem.findMany).mockResolvedValue([
+        { ...mockReturnItem, id: "item_1", quantity: 3 },
+      ]);
+      vi.mocked(db.packagingPreset.findMany).mockResolvedValue([
+        { ...mockPackagingPreset, maxWeight: 2, boxWeight: 0 },
+      ]);
+      vi.mocked(db.shippingLabel.create)
+        .mockResolvedValueOnce({ ...mockShippingLabel, id: "label_1" } as never)
+        .mockResolvedValueOnce({ ...mockShippingLabel, id: "label_2" } as never);
+    });
+
+    it("buys a label for each parcel", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(shippoQuote)
+        .mockResolvedValueOnce(shippoPurchase("txn_1"))
+        .mockResolvedValueOnce(shippoQuote)
+        .mockResolvedValueOnce(shippoPurchase("txn_2"));
+
+      const result = await createReturnLabels(mockShop, "return_123", mockFromAddress);
+
+      expect(result.success).toBe(true);
+      expect(result.labels.map((label) => label.labelId)).toEqual(["label_1", "label_2"]);
+      const firstShipment = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+      expect(firstShipment.parcels[0]).toMatchObject({ weight: "2", length: "14" });
+      expect(db.shippingLabel.create).toHaveBeenNthCalledWith(1, {
+        data: expect.objectContaining({
+          parcel: { weight: 2, length: 14, width: 10, height: 6 },
+          packaging: "Medium box",
+          parcelNumber: 1,
+          parcelCount: 2,
+        }),
+      });
+      expect(db.shippingLabel.create).toHaveBeenNthCalledWith(2, {
+        data: expect.objectContaining({
+          parcel: { weight: 1, length: 14, width: 10, height: 6 },
+          parcelNumber: 2,
+          parcelCount: 2,
+        }),
+      });
+    });
+
+    it("voids the labels already bought when a later parcel fails", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(shippoQuote)
+        .mockResolvedValueOnce(shippoPurchase("txn_1"))
+        .mockResolvedValueOnce({ ok: false, text: async () => "Parcel too heavy" } as Response)
+        // Refund of the first label
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ status: "SUCCESS" }) } as Response);
+      vi.mocked(db.shippingLabel.findUnique).mockResolvedValue({
+        ...mockShippingLabel,
+        id: "label_1",
+        returnRequest: { shop: mockShop },
+      } as never);
+
+      const result = await createReturnLabels(mockShop, "return_123", mockFromAddress);
+
+      expect(result).toEqual({
+        success: false,
+        labels: [],
+        error: "Parcel 2 of 2 could not be labelled: Shippo API error: Parcel too heavy",
+      });
+      expect(db.shippingLabel.update).toHaveBeenCalledWith({
+        where: { id: "label_1" },
+        data: expect.objectContaining({
+          status: "voided",
+          voidReason: "Parcel 2 of 2 could not be labelled",
+        }),
+      });
+    });
+  });
+
+  describe("createLabelsForReturn", () => {
+    const admin = { graphql: vi.fn() };
+    const order = {
+      totalValue: 100,
+      customerTags: [],
+      shippingAddress: mockFromAddress,
+      lineItems: new Map(),
+    };
+
+    it("routes a return approval didn't and ships from the order's address", async () => {
+      const returnRequest = {
+        ...mockReturnRequest,
+        status: "approved",
+        items: [mockReturnItem],
+        shipments: [],
+      };
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue(returnRequest as never);
+      vi.mocked(routeReturnFromOrder).mockResolvedValue({ order, shipments: [] });
+      vi.mocked(db.returnShipment.findMany).mockResolvedValue([]);
+
+      const result = await createLabelsForReturn(admin, mockShop, "return_123");
+
+      expect(result).toEqual({ success: true, shipments: [], error: undefined });
+      expect(routeReturnFromOrder).toHaveBeenCalledWith(admin, returnRequest);
+      expect(fetchOrderRouting).not.toHaveBeenCalled();
+      expect(db.returnShipment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { returnRequestId: "return_123", labels: { none: { status: "active" } } },
+        })
+      );
+    });
+
+    it("keeps existing shipments and needs a shipping address", async () => {
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+        ...mockReturnRequest,
+        status: "awaiting_shipment",
+        items: [mockReturnItem],
+        shipments: [{ id: "shipment_1" }],
+      } as never);
+      vi.mocked(fetchOrderRouting).mockResolvedValue({ ...order, shippingAddress: null });
+
+      const result = await createLabelsForReturn(admin, mockShop, "return_123");
+
+      expect(result).toEqual({
+        success: false,
+        shipments: [],
+        error: "The order has no shipping address to ship from",
+      });
+      expect(routeReturnFromOrder).not.toHaveBeenCalled();
+      expect(db.returnShipment.findMany).not.toHaveBeenCalled();
+    });
+
+    it("won't buy labels for a return that isn't waiting to be shipped", async () => {
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+        ...mockReturnRequest,
+        status: "pending",
+        items: [mockReturnItem],
+        shipments: [],
+      } as never);
+
+      const result = await createLabelsForReturn(admin, mockShop, "return_123");
+
+      expect(result).toEqual({
+        success: false,
+        shipments: [],
+        error: "Labels can only be created for returns awaiting shipment",
+      });
+      expect(routeReturnFromOrder).not.toHaveBeenCalled();
+      expect(db.returnShipment.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("voidReturnLabel", () => {
+    beforeEach(() => {
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        ...mockShopSettings,
+        shippoApiKey: "shippo_key",
+      });
+    });
+
+    it("voids an unused label and keeps it as history", async () => {
+      const now = new Date("2026-02-13T10:00:00Z");
+      vi.mocked(db.shippingLabel.findUnique).mockResolvedValue({
+        ...mockShippingLabel,
+        returnRequest: { shop: mockShop },
+      } as never);
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ status: "SUCCESS" }),
+      } as Response);
+
+      const result = await voidReturnLabel(mockShop, "label_123", "Customer lost the label", now);
+
+      expect(result).toEqual({ success: true, status: "voided" });
+      expect(db.shippingLabel.update).toHaveBeenCalledWith({
+        where: { id: "label_123" },
+        data: {
+          status: "voided",
+          voidReason: "Customer lost the label",
+          voidRequestedAt: now,
+          voidedAt: now,
+        },
+      });
+    });
+
+    it("refuses labels the carrier has scanned", async () => {
+      vi.mocked(db.shippingLabel.findUnique).mockResolvedValue({
+        ...mockShippingLabel,
+        trackingStatus: "in_transit",
+        returnRequest: { shop: mockShop },
+      } as never);
+
+      const result = await voidReturnLabel(mockShop, "label_123", "Return cancelled");
+
+      expect(result).toEqual({
+        success: false,
+        error: "The carrier has already scanned this label",
+      });
+      expect(fetch).not.toHaveBeenCalled();
+      expect(db.shippingLabel.update).not.toHaveBeenCalled();
+    });
+
+    it("does not void another shop's label", async () => {
+      vi.mocked(db.shippingLabel.findUnique).mockResolvedValue({
+        ...mockShippingLabel,
+        returnRequest: { shop: "other-shop.myshopify.com" },
+      } as never);
+
+      expect(await voidReturnLabel(mockShop, "label_123", "Return cancelled")).toEqual({
+        success: false,
+        error: "Label not found",
+      });
+    });
+  });
+
+  describe("regenerateReturnLabel", () => {
+    it("voids the old label and buys a replacement from the saved address", async () => {
+      const label = {
+        ...mockShippingLabel,
+        fromAddress: mockFromAddress,
+        parcel: mockParcel,
+        returnRequest: { shop: mockShop, status: "awaiting_shipment" },
+        replacedBy: null,
+      };
+      vi.mocked(db.shippingLabel.findUnique)
+        .mockResolvedValueOnce(label as never)
+        .mockResolvedValueOnce(label as never);
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        ...mockShopSettings,
+        shippoApiKey: "shippo_key",
+      });
+      vi.mocked(db.returnRequest.findUnique).mockResolvedValue({
+        isReturnless: false,
+        status: "awaiting_shipment",
+      } as never);
+      vi.mocked(db.returnDestination.findFirst).mockResolvedValue(mockReturnDestination);
+      vi.mocked(db.shippingLabel.create).mockResolvedValue({
+        ...mockShippingLabel,
+        id: "label_456",
+      } as never);
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ status: "SUCCESS" }) } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            rates: [{ object_id: "rate_1", amount: "7.50", provider: "USPS", servicelevel: { name: "Ground Advantage" } }],
+          }),
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            status: "SUCCESS",
+            tracking_number: "9400111899223456789099",
+            label_url: "https://shippo.com/labels/new.pdf",
+            object_id: "txn_new",
+          }),
+        } as Response);
+
+      const result = await regenerateReturnLabel(mockShop, "label_123");
+
+      expect(result).toMatchObject({ success: true, labelId: "label_456" });
+      expect(db.shippingLabel.update).toHaveBeenCalledWith({
+        where: { id: "label_123" },
+        data: expect.objectContaining({
+          status: "voided",
+          voidReason: "Replacement label requested",
+        }),
+      });
+      expect(fetch).toHaveBeenNthCalledWith(
+        2,
+        "https://api.goshippo.com/shipments",
+        expect.objectContaining({ body: expect.stringContaining('"street1":"123 Customer St"') })
+      );
+      expect(db.shippingLabel.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          replacesId: "label_123",
+          trackingNumber: "9400111899223456789099",
+          fromAddress: mockFromAddress,
+          parcel: mockParcel,
+        }),
+      });
+    });
+
+    it("does not replace a label twice", async () => {
+      vi.mocked(db.shippingLabel.findUnique).mockResolvedValue({
+        ...mockShippingLabel,
+        status: "voided",
+        returnRequest: { shop: mockShop, status: "awaiting_shipment" },
+        replacedBy: { id: "label_456" },
+      } as never);
+
+      expect(await regenerateReturnLabel(mockShop, "label_123")).toEqual({
+        success: false,
+        error: "This label has already been replaced",
+      });
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("expireUnusedLabels", () => {
+    const now = new Date("2026-02-20T10:00:00Z");
+
+    function candidate(id: string, createdAt: string, labelExpiryDays: number) {
+      return {
+        ...mockShippingLabel,
+        id,
+        createdAt: new Date(createdAt),
+        returnRequest: {
+          ...mockReturnRequest,
+          status: "awaiting_shipment",
+          items: [],
+          shopSettings: { labelExpiryDays },
+        },
+      };
+    }
+
+    beforeEach(() => {
+      vi.mocked(db.shopSettings.findMany).mockResolvedValue([
+        { shop: mockShop, labelExpiryDays: 14 },
+        { shop: "other-store.myshopify.com", labelExpiryDays: 7 },
+      ] as never);
+    });
+
+    it("voids labels past the shop's expiry and emails the customer", async () => {
+      vi.mocked(db.shippingLabel.findMany).mockResolvedValue([
+        candidate("label_old", "2026-02-01T10:00:00Z", 14),
+      ] as never);
+      vi.mocked(db.shippingLabel.findUnique).mockResolvedValue({
+        ...mockShippingLabel,
+        id: "label_old",
+        returnRequest: { shop: mockShop },
+      } as never);
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        ...mockShopSettings,
+        shippoApiKey: "shippo_key",
+      });
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ status: "QUEUED" }),
+      } as Response);
+
+      const result = await expireUnusedLabels({ now });
+
+      expect(result).toEqual({ checked: 1, voided: 1, failed: 0 });
+      const query = vi.mocked(db.shippingLabel.findMany).mock.calls[0][0];
+      expect(query?.where?.AND).toContainEqual({
+        OR: [
+          { returnRequest: { shop: mockShop }, createdAt: { lte: new Date("2026-02-06T10:00:00Z") } },
+          {
+            returnRequest: { shop: "other-store.myshopify.com" },
+            createdAt: { lte: new Date("2026-02-13T10:00:00Z") },
+          },
+        ],
+      });
+      expect(db.shippingLabel.update).toHaveBeenCalledWith({
+        where: { id: "label_old" },
+        data: expect.objectContaining({
+          status: "void_pending",
+          voidReason: "Not scanned within 14 days",
+          voidedAt: null,
+        }),
+      });
+      expect(sendLabelExpired).toHaveBeenCalledWith(
+        expect.objectContaining({
+          expiryDays: 14,
+          returnRequest: expect.objectContaining({ id: "return_123", customerEmail: mockReturnRequest.customerEmail }),
+        })
+      );
+    });
+
+    it("counts labels the provider won't void as failed without emailing", async () => {
+      vi.mocked(db.shippingLabel.findMany).mockResolvedValue([
+        candidate("label_old", "2026-02-01T10:00:00Z", 7),
+      ] as never);
+      vi.mocked(db.shippingLabel.findUnique).mockResolvedValue({
+        ...mockShippingLabel,
+        id: "label_old",
+        returnRequest: { shop: mockShop },
+      } as never);
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        ...mockShopSettings,
+        shippoApiKey: "shippo_key",
+      });
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ status: "ERROR" }),
+      } as Response);
+
+      const result = await expireUnusedLabels({ now });
+
+      expect(result).toEqual({ checked: 1, voided: 0, failed: 1 });
+      expect(sendLabelExpired).not.toHaveBeenCalled();
+      // Moved behind labels that haven't been tried yet
+      expect(db.shippingLabel.update).toHaveBeenCalledWith({
+        where: { id: "label_old" },
+        data: { voidRequestedAt: now },
+      });
+    });
+
+    it("skips the label query when no shop expires labels", async () => {
+      vi.mocked(db.shopSettings.findMany).mockResolvedValue([]);
+
+      const result = await expireUnusedLabels({ now });
+
+      expect(result).toEqual({ checked: 0, voided: 0, failed: 0 });
+      expect(db.shippingLabel.findMany).not.toHaveBeenCalled();
+    });
   });
 });
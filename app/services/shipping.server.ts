@@ -1,4 +1,30 @@
+import type { Prisma, ShopSettings } from "@prisma/client";
 import db from "../db.server";
+import { SYSTEM_ACTOR, transitionReturn } from "./return-lifecycle.server";
+import { sendLabelExpired } from "./notifications.server";
+import {
+  buildCustomsDeclaration,
+  fetchVariantCustomsInfo,
+  isInternationalShipment,
+  type CustomsDeclaration,
+} from "./customs.server";
+import {
+  fetchOrderRouting,
+  preferDomesticDestination,
+  routeReturnFromOrder,
+} from "./routing.server";
+import { getMockProvider, isMockShippingEnabled } from "./mock-shipping.server";
+import { DEFAULT_UNIT_WEIGHT_LB, planReturnParcels, type ParcelContents } from "./packaging.server";
+import { canTransition } from "../utils/return-status";
+import { isLabelScanned, type LabelStatus, type TrackingStatus } from "../utils/tracking";
+
+export type { LabelStatus, TrackingStatus } from "../utils/tracking";
+export type { CustomsDeclaration, CustomsItem } from "./customs.server";
+export { MockProvider, isMockShippingEnabled } from "./mock-shipping.server";
+
+type AdminGraphQL = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
 
 export interface Address {
   name: string;
@@ -16,23 +42,155 @@ export interface Address {
 export interface LabelResult {
   success: boolean;
   carrier?: string;
+  service?: string;
   trackingNumber?: string;
   trackingUrl?: string;
   labelUrl?: string;
   labelPdfUrl?: string;
+  // Printerless label to show at drop-off, when one was requested and issued
+  qrCodeUrl?: string;
   transactionId?: string;
   cost?: number;
+  // Set by createReturnLabel once the label is saved
+  labelId?: string;
+  error?: string;
+}
+
+export interface Parcel {
+  weight: number;
+  length?: number;
+  width?: number;
+  height?: number;
+}
+
+export interface ShippingRate {
+  provider: string;
+  rateId: string;
+  // EasyPost buys a rate through the shipment it was quoted for.
+  shipmentId: string | null;
+  carrier: string;
+  service: string;
+  serviceToken: string | null;
+  amount: number;
+  currency: string;
+  estimatedDays: number | null;
+}
+
+export interface TrackingCheckpointData {
+  status: TrackingStatus;
+  carrierStatus: string | null;
+  description: string | null;
+  location: string | null;
+  occurredAt: Date;
+}
+
+export interface TrackingUpdate {
+  trackingNumber: string;
+  carrier: string | null;
+  status: TrackingStatus;
+  // Oldest first
+  checkpoints: TrackingCheckpointData[];
+}
+
+export interface VoidResult {
+  success: boolean;
+  // Some carriers review refunds before confirming them.
+  status?: "pending" | "voided";
   error?: string;
 }
 
+export interface PurchaseOptions {
+  // Only honoured for carriers in QR_CODE_CARRIERS
+  qrCode?: boolean;
+}
+
+// Carriers that issue QR codes in place of a printed label.
+export const QR_CODE_CARRIERS = ["USPS", "UPS"];
+
+export function supportsQrCode(carrier: string): boolean {
+  return QR_CODE_CARRIERS.includes(carrier.trim().toUpperCase());
+}
+
 export interface ShippingProvider {
   name: string;
+  // Cross-border shipments need a customs declaration.
   createLabel(
     fromAddress: Address,
     toAddress: Address,
-    parcel: { weight: number; length?: number; width?: number; height?: number }
+    parcel: Parcel,
+    customs?: CustomsDeclaration
   ): Promise<LabelResult>;
   validateApiKey(): Promise<boolean>;
+  getRates(
+    fromAddress: Address,
+    toAddress: Address,
+    parcel: Parcel,
+    customs?: CustomsDeclaration
+  ): Promise<ShippingRate[]>;
+  purchaseLabel(rate: ShippingRate, options?: PurchaseOptions): Promise<LabelResult>;
+  // Current tracking for a label, or null if the carrier doesn't know it yet.
+  getTracking(carrier: string, trackingNumber: string): Promise<TrackingUpdate | null>;
+  // Asks for an unused label to be refunded. transactionId is the id the
+  // label was bought under (LabelResult.transactionId).
+  voidLabel(transactionId: string): Promise<VoidResult>;
+}
+
+// Cheaper first; equal prices go to the faster service.
+function compareRates(a: ShippingRate, b: ShippingRate): number {
+  return (
+    a.amount - b.amount ||
+    (a.estimatedDays ?? Number.MAX_SAFE_INTEGER) - (b.estimatedDays ?? Number.MAX_SAFE_INTEGER)
+  );
+}
+
+function cheapestRate(rates: ShippingRate[]): ShippingRate | null {
+  return [...rates].sort(compareRates)[0] ?? null;
+}
+
+interface CarrierLocation {
+  city?: string | null;
+  state?: string | null;
+  country?: string | null;
+}
+
+function formatLocation(location?: CarrierLocation | null): string | null {
+  const parts = [location?.city, location?.state, location?.country].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+function byOccurredAt(a: TrackingCheckpointData, b: TrackingCheckpointData) {
+  return a.occurredAt.getTime() - b.occurredAt.getTime();
+}
+
+interface ShippoTrackingEvent {
+  status?: string | null;
+  status_details?: string | null;
+  status_date?: string | null;
+  substatus?: { code?: string | null } | null;
+  location?: CarrierLocation | null;
+}
+
+// Shippo track object, as returned by GET /tracks and sent in track_updated webhooks.
+export interface ShippoTrack {
+  carrier?: string | null;
+  tracking_number?: string | null;
+  tracking_status?: ShippoTrackingEvent | null;
+  tracking_history?: ShippoTrackingEvent[] | null;
+}
+
+interface EasyPostTrackingDetail {
+  status?: string | null;
+  message?: string | null;
+  datetime?: string | null;
+  tracking_location?: CarrierLocation | null;
+}
+
+// EasyPost Tracker object, as returned by POST /trackers and sent in tracker.* events.
+export interface EasyPostTracker {
+  tracking_code?: string | null;
+  carrier?: string | null;
+  status?: string | null;
+  tracking_details?: EasyPostTrackingDetail[] | null;
 }
 
 export class ShippoProvider implements ShippingProvider {
@@ -59,73 +217,103 @@ export class ShippoProvider implements ShippingProvider {
     }
   }
 
-  async createLabel(
+  private addressPayload(address: Address) {
+    return {
+      name: address.name,
+      company: address.company,
+      street1: address.street1,
+      street2: address.street2,
+      city: address.city,
+      state: address.state,
+      zip: address.zip,
+      country: address.country,
+      phone: address.phone,
+      email: address.email,
+    };
+  }
+
+  private customsPayload(customs: CustomsDeclaration) {
+    return {
+      contents_type: "RETURN_MERCHANDISE",
+      contents_explanation: customs.contentsExplanation,
+      non_delivery_option: "RETURN",
+      certify: true,
+      certify_signer: customs.signer,
+      items: customs.items.map((item) => ({
+        description: item.description,
+        quantity: item.quantity,
+        net_weight: item.weight.toString(),
+        mass_unit: "lb",
+        value_amount: item.value.toString(),
+        value_currency: item.currency,
+        origin_country: item.originCountry,
+        tariff_number: item.hsCode ?? undefined,
+        sku_code: item.sku ?? undefined,
+      })),
+    };
+  }
+
+  async getRates(
     fromAddress: Address,
     toAddress: Address,
-    parcel: { weight: number; length?: number; width?: number; height?: number }
-  ): Promise<LabelResult> {
-    try {
-      const shipmentResponse = await fetch(`${this.baseUrl}/shipments`, {
-        method: "POST",
-        headers: {
-          Authorization: `ShippoToken ${this.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          address_from: {
-            name: fromAddress.name,
-            company: fromAddress.company,
-            street1: fromAddress.street1,
-            street2: fromAddress.street2,
-            city: fromAddress.city,
-            state: fromAddress.state,
-            zip: fromAddress.zip,
-            country: fromAddress.country,
-            phone: fromAddress.phone,
-            email: fromAddress.email,
-          },
-          address_to: {
-            name: toAddress.name,
-            company: toAddress.company,
-            street1: toAddress.street1,
-            street2: toAddress.street2,
-            city: toAddress.city,
-            state: toAddress.state,
-            zip: toAddress.zip,
-            country: toAddress.country,
-            phone: toAddress.phone,
-            email: toAddress.email,
+    parcel: Parcel,
+    customs?: CustomsDeclaration
+  ): Promise<ShippingRate[]> {
+    const shipmentResponse = await fetch(`${this.baseUrl}/shipments`, {
+      method: "POST",
+      headers: {
+        Authorization: `ShippoToken ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        address_from: this.addressPayload(fromAddress),
+        address_to: this.addressPayload(toAddress),
+        parcels: [
+          {
+            length: parcel.length?.toString() || "10",
+            width: parcel.width?.toString() || "10",
+            height: parcel.height?.toString() || "5",
+            distance_unit: "in",
+            weight: parcel.weight.toString(),
+            mass_unit: "lb",
           },
-          parcels: [
-            {
-              length: parcel.length?.toString() || "10",
-              width: parcel.width?.toString() || "10",
-              height: parcel.height?.toString() || "5",
-              distance_unit: "in",
-              weight: parcel.weight.toString(),
-              mass_unit: "lb",
-            },
-          ],
-          async: false,
-        }),
-      });
-
-      if (!shipmentResponse.ok) {
-        const error = await shipmentResponse.text();
-        return { success: false, error: `Shippo API error: ${error}` };
-      }
+        ],
+        customs_declaration: customs ? this.customsPayload(customs) : undefined,
+        async: false,
+      }),
+    });
 
-      const shipment = await shipmentResponse.json();
+    if (!shipmentResponse.ok) {
+      const error = await shipmentResponse.text();
+      throw new Error(`Shippo API error: ${error}`);
+    }
 
-      if (!shipment.rates || shipment.rates.length === 0) {
-        return { success: false, error: "No shipping rates available" };
-      }
+    const shipment = await shipmentResponse.json();
 
-      const cheapestRate = shipment.rates.reduce(
-        (min: { amount: string }, rate: { amount: string }) =>
-          parseFloat(rate.amount) < parseFloat(min.amount) ? rate : min
-      );
+    return (shipment.rates ?? []).map(
+      (rate: {
+        object_id: string;
+        amount: string;
+        currency?: string;
+        provider: string;
+        servicelevel?: { name?: string; token?: string };
+        estimated_days?: number | null;
+      }) => ({
+        provider: this.name,
+        rateId: rate.object_id,
+        shipmentId: shipment.object_id ?? null,
+        carrier: rate.provider,
+        service: rate.servicelevel?.name ?? rate.servicelevel?.token ?? "",
+        serviceToken: rate.servicelevel?.token ?? null,
+        amount: parseFloat(rate.amount),
+        currency: rate.currency ?? "USD",
+        estimatedDays: rate.estimated_days ?? null,
+      })
+    );
+  }
 
+  async purchaseLabel(rate: ShippingRate, options: PurchaseOptions = {}): Promise<LabelResult> {
+    try {
       const transactionResponse = await fetch(`${this.baseUrl}/transactions`, {
         method: "POST",
         headers: {
@@ -133,8 +321,9 @@ export class ShippoProvider implements ShippingProvider {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          rate: cheapestRate.object_id,
+          rate: rate.rateId,
           label_file_type: "PDF",
+          qr_code_requested: options.qrCode && supportsQrCode(rate.carrier) ? true : undefined,
           async: false,
         }),
       });
@@ -155,13 +344,15 @@ export class ShippoProvider implements ShippingProvider {
 
       return {
         success: true,
-        carrier: cheapestRate.provider,
+        carrier: rate.carrier,
+        service: rate.service,
         trackingNumber: transaction.tracking_number,
         trackingUrl: transaction.tracking_url_provider,
         labelUrl: transaction.label_url,
         labelPdfUrl: transaction.label_url,
+        qrCodeUrl: transaction.qr_code_url || undefined,
         transactionId: transaction.object_id,
-        cost: parseFloat(cheapestRate.amount),
+        cost: rate.amount,
       };
     } catch (error) {
       return {
@@ -170,6 +361,138 @@ export class ShippoProvider implements ShippingProvider {
       };
     }
   }
+
+  // Buys the cheapest rate without applying any merchant preferences.
+  async createLabel(
+    fromAddress: Address,
+    toAddress: Address,
+    parcel: Parcel,
+    customs?: CustomsDeclaration
+  ): Promise<LabelResult> {
+    try {
+      const rates = await this.getRates(fromAddress, toAddress, parcel, customs);
+      const cheapest = cheapestRate(rates);
+
+      if (!cheapest) {
+        return { success: false, error: "No shipping rates available" };
+      }
+
+      return this.purchaseLabel(cheapest);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error creating label",
+      };
+    }
+  }
+
+  static normalizeStatus(status?: string | null, substatus?: string | null): TrackingStatus {
+    switch (status) {
+      case "PRE_TRANSIT":
+        return "pre_transit";
+      case "TRANSIT":
+        return substatus === "out_for_delivery" ? "out_for_delivery" : "in_transit";
+      case "DELIVERED":
+        return "delivered";
+      case "RETURNED":
+        return "returned";
+      case "FAILURE":
+        return "failure";
+      default:
+        return "unknown";
+    }
+  }
+
+  static parseTrack(track: ShippoTrack): TrackingUpdate | null {
+    if (!track.tracking_number) {
+      return null;
+    }
+
+    const events = track.tracking_history?.length
+      ? track.tracking_history
+      : track.tracking_status
+        ? [track.tracking_status]
+        : [];
+
+    const checkpoints = events
+      .filter((event) => event.status_date)
+      .map((event) => ({
+        status: ShippoProvider.normalizeStatus(event.status, event.substatus?.code),
+        carrierStatus: event.status ?? null,
+        description: event.status_details ?? null,
+        location: formatLocation(event.location),
+        occurredAt: new Date(event.status_date as string),
+      }))
+      .sort(byOccurredAt);
+
+    return {
+      trackingNumber: track.tracking_number,
+      carrier: track.carrier ?? null,
+      status: ShippoProvider.normalizeStatus(
+        track.tracking_status?.status,
+        track.tracking_status?.substatus?.code
+      ),
+      checkpoints,
+    };
+  }
+
+  async getTracking(carrier: string, trackingNumber: string): Promise<TrackingUpdate | null> {
+    const response = await fetch(
+      `${this.baseUrl}/tracks/${encodeURIComponent(carrier.toLowerCase())}/${encodeURIComponent(trackingNumber)}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `ShippoToken ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Shippo tracking error: ${await response.text()}`);
+    }
+
+    return ShippoProvider.parseTrack(await response.json());
+  }
+
+  // Shippo queues most refunds for the carrier and settles them later.
+  async voidLabel(transactionId: string): Promise<VoidResult> {
+    try {
+      const response = await fetch(`${this.baseUrl}/refunds`, {
+        method: "POST",
+        headers: {
+          Authorization: `ShippoToken ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ transaction: transactionId, async: false }),
+      });
+
+      if (!response.ok) {
+        return { success: false, error: `Failed to void label: ${await response.text()}` };
+      }
+
+      const refund = await response.json();
+
+      switch (refund.status) {
+        case "SUCCESS":
+          return { success: true, status: "voided" };
+        case "QUEUED":
+        case "PENDING":
+          return { success: true, status: "pending" };
+        default:
+          return { success: false, error: "Shippo rejected the refund" };
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error voiding label",
+      };
+    }
+  }
 }
 
 export class EasyPostProvider implements ShippingProvider {
@@ -200,75 +523,109 @@ export class EasyPostProvider implements ShippingProvider {
     }
   }
 
-  async createLabel(
+  private addressPayload(address: Address) {
+    return {
+      name: address.name,
+      company: address.company,
+      street1: address.street1,
+      street2: address.street2,
+      city: address.city,
+      state: address.state,
+      zip: address.zip,
+      country: address.country,
+      phone: address.phone,
+      email: address.email,
+    };
+  }
+
+  // EasyPost weighs in ounces.
+  private customsPayload(customs: CustomsDeclaration) {
+    return {
+      contents_type: "returned_goods",
+      contents_explanation: customs.contentsExplanation,
+      customs_certify: true,
+      customs_signer: customs.signer,
+      non_delivery_option: "return",
+      restriction_type: "none",
+      customs_items: customs.items.map((item) => ({
+        description: item.description,
+        quantity: item.quantity,
+        value: item.value,
+        currency: item.currency,
+        weight: item.weight * 16,
+        origin_country: item.originCountry,
+        hs_tariff_number: item.hsCode ?? undefined,
+        code: item.sku ?? undefined,
+      })),
+    };
+  }
+
+  async getRates(
     fromAddress: Address,
     toAddress: Address,
-    parcel: { weight: number; length?: number; width?: number; height?: number }
-  ): Promise<LabelResult> {
-    try {
-      const shipmentResponse = await fetch(`${this.baseUrl}/shipments`, {
-        method: "POST",
-        headers: {
-          Authorization: this.getAuthHeader(),
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          shipment: {
-            from_address: {
-              name: fromAddress.name,
-              company: fromAddress.company,
-              street1: fromAddress.street1,
-              street2: fromAddress.street2,
-              city: fromAddress.city,
-              state: fromAddress.state,
-              zip: fromAddress.zip,
-              country: fromAddress.country,
-              phone: fromAddress.phone,
-              email: fromAddress.email,
-            },
-            to_address: {
-              name: toAddress.name,
-              company: toAddress.company,
-              street1: toAddress.street1,
-              street2: toAddress.street2,
-              city: toAddress.city,
-              state: toAddress.state,
-              zip: toAddress.zip,
-              country: toAddress.country,
-              phone: toAddress.phone,
-              email: toAddress.email,
-            },
-            parcel: {
-              length: parcel.length || 10,
-              width: parcel.width || 10,
-              height: parcel.height || 5,
-              weight: parcel.weight * 16,
-            },
+    parcel: Parcel,
+    customs?: CustomsDeclaration
+  ): Promise<ShippingRate[]> {
+    const shipmentResponse = await fetch(`${this.baseUrl}/shipments`, {
+      method: "POST",
+      headers: {
+        Authorization: this.getAuthHeader(),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        shipment: {
+          from_address: this.addressPayload(fromAddress),
+          to_address: this.addressPayload(toAddress),
+          parcel: {
+            length: parcel.length || 10,
+            width: parcel.width || 10,
+            height: parcel.height || 5,
+            weight: parcel.weight * 16,
           },
-        }),
-      });
-
-      if (!shipmentResponse.ok) {
-        const error = await shipmentResponse.text();
-        return { success: false, error: `EasyPost API error: ${error}` };
-      }
+          customs_info: customs ? this.customsPayload(customs) : undefined,
+        },
+      }),
+    });
 
-      const shipment = await shipmentResponse.json();
+    if (!shipmentResponse.ok) {
+      const error = await shipmentResponse.text();
+      throw new Error(`EasyPost API error: ${error}`);
+    }
 
-      if (!shipment.rates || shipment.rates.length === 0) {
-        return { success: false, error: "No shipping rates available" };
-      }
+    const shipment = await shipmentResponse.json();
 
-      const lowestRate = shipment.lowestRate || shipment.rates[0];
+    return (shipment.rates ?? []).map(
+      (rate: {
+        id: string;
+        rate: string;
+        currency?: string;
+        carrier: string;
+        service?: string;
+        delivery_days?: number | null;
+      }) => ({
+        provider: this.name,
+        rateId: rate.id,
+        shipmentId: shipment.id,
+        carrier: rate.carrier,
+        service: rate.service ?? "",
+        serviceToken: rate.service ?? null,
+        amount: parseFloat(rate.rate),
+        currency: rate.currency ?? "USD",
+        estimatedDays: rate.delivery_days ?? null,
+      })
+    );
+  }
 
-      const buyResponse = await fetch(`${this.baseUrl}/shipments/${shipment.id}/buy`, {
+  async purchaseLabel(rate: ShippingRate, options: PurchaseOptions = {}): Promise<LabelResult> {
+    try {
+      const buyResponse = await fetch(`${this.baseUrl}/shipments/${rate.shipmentId}/buy`, {
         method: "POST",
         headers: {
           Authorization: this.getAuthHeader(),
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          rate: { id: lowestRate.id },
+          rate: { id: rate.rateId },
         }),
       });
 
@@ -278,16 +635,25 @@ export class EasyPostProvider implements ShippingProvider {
       }
 
       const purchasedShipment = await buyResponse.json();
+      const carrier = purchasedShipment.selected_rate?.carrier || rate.carrier;
+      const qrCodeUrl =
+        options.qrCode && supportsQrCode(carrier)
+          ? await this.createQrCode(purchasedShipment.id)
+          : undefined;
 
       return {
         success: true,
-        carrier: purchasedShipment.selected_rate?.carrier || lowestRate.carrier,
+        carrier,
+        service: purchasedShipment.selected_rate?.service || rate.service,
         trackingNumber: purchasedShipment.tracking_code,
         trackingUrl: purchasedShipment.tracker?.public_url,
         labelUrl: purchasedShipment.postage_label?.label_url,
         labelPdfUrl: purchasedShipment.postage_label?.label_pdf_url,
+        qrCodeUrl,
         transactionId: purchasedShipment.id,
-        cost: parseFloat(purchasedShipment.selected_rate?.rate || lowestRate.rate),
+        cost: purchasedShipment.selected_rate?.rate
+          ? parseFloat(purchasedShipment.selected_rate.rate)
+          : rate.amount,
       };
     } catch (error) {
       return {
@@ -296,46 +662,396 @@ export class EasyPostProvider implements ShippingProvider {
       };
     }
   }
+
+  // EasyPost issues QR codes as a form on an already bought shipment. The
+  // printed label still works if this fails, so errors aren't passed on.
+  private async createQrCode(shipmentId: string): Promise<string | undefined> {
+    try {
+      const response = await fetch(`${this.baseUrl}/shipments/${shipmentId}/forms`, {
+        method: "POST",
+        headers: {
+          Authorization: this.getAuthHeader(),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ form: { type: "label_qr_code" } }),
+      });
+
+      if (!response.ok) {
+        console.error(`EasyPost QR code error: ${await response.text()}`);
+        return undefined;
+      }
+
+      const shipment = await response.json();
+      return (shipment.forms as Array<{ form_type: string; form_url: string }> | undefined)?.find(
+        (form) => form.form_type === "label_qr_code"
+      )?.form_url;
+    } catch (error) {
+      console.error("EasyPost QR code request failed:", error);
+      return undefined;
+    }
+  }
+
+  // Buys the cheapest rate without applying any merchant preferences.
+  async createLabel(
+    fromAddress: Address,
+    toAddress: Address,
+    parcel: Parcel,
+    customs?: CustomsDeclaration
+  ): Promise<LabelResult> {
+    try {
+      const rates = await this.getRates(fromAddress, toAddress, parcel, customs);
+      const cheapest = cheapestRate(rates);
+
+      if (!cheapest) {
+        return { success: false, error: "No shipping rates available" };
+      }
+
+      return this.purchaseLabel(cheapest);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error creating label",
+      };
+    }
+  }
+
+  static normalizeStatus(status?: string | null): TrackingStatus {
+    switch (status) {
+      case "pre_transit":
+      case "in_transit":
+      case "out_for_delivery":
+      case "delivered":
+        return status;
+      case "available_for_pickup":
+        return "in_transit";
+      case "return_to_sender":
+        return "returned";
+      case "failure":
+      case "error":
+      case "cancelled":
+        return "failure";
+      default:
+        return "unknown";
+    }
+  }
+
+  static parseTracker(tracker: EasyPostTracker): TrackingUpdate | null {
+    if (!tracker.tracking_code) {
+      return null;
+    }
+
+    const checkpoints = (tracker.tracking_details ?? [])
+      .filter((detail) => detail.datetime)
+      .map((detail) => ({
+        status: EasyPostProvider.normalizeStatus(detail.status),
+        carrierStatus: detail.status ?? null,
+        description: detail.message ?? null,
+        location: formatLocation(detail.tracking_location),
+        occurredAt: new Date(detail.datetime as string),
+      }))
+      .sort(byOccurredAt);
+
+    return {
+      trackingNumber: tracker.tracking_code,
+      carrier: tracker.carrier ?? null,
+      status: EasyPostProvider.normalizeStatus(tracker.status),
+      checkpoints,
+    };
+  }
+
+  // EasyPost returns the existing tracker when one was already created for
+  // this tracking code, so this doubles as a lookup.
+  async getTracking(carrier: string, trackingNumber: string): Promise<TrackingUpdate | null> {
+    const response = await fetch(`${this.baseUrl}/trackers`, {
+      method: "POST",
+      headers: {
+        Authorization: this.getAuthHeader(),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        tracker: { tracking_code: trackingNumber, carrier },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`EasyPost tracking error: ${await response.text()}`);
+    }
+
+    return EasyPostProvider.parseTracker(await response.json());
+  }
+
+  async voidLabel(transactionId: string): Promise<VoidResult> {
+    try {
+      const response = await fetch(`${this.baseUrl}/shipments/${transactionId}/refund`, {
+        method: "POST",
+        headers: {
+          Authorization: this.getAuthHeader(),
+          "Content-Type": "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        return { success: false, error: `Failed to void label: ${await response.text()}` };
+      }
+
+      const shipment = await response.json();
+
+      switch (shipment.refund_status) {
+        case "refunded":
+          return { success: true, status: "voided" };
+        case "submitted":
+          return { success: true, status: "pending" };
+        default:
+          return {
+            success: false,
+            error: `EasyPost refund ${shipment.refund_status ?? "failed"}`,
+          };
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error voiding label",
+      };
+    }
+  }
 }
 
-export async function getShippingProvider(shop: string): Promise<ShippingProvider | null> {
+// In mock mode every label is bought from MockProvider, whatever keys the
+// shop has configured.
+function providersFromSettings(
+  settings: Pick<ShopSettings, "shippoApiKey" | "easypostApiKey"> | null
+): ShippingProvider[] {
+  if (isMockShippingEnabled()) {
+    return [getMockProvider()];
+  }
+
+  const providers: ShippingProvider[] = [];
+  if (settings?.shippoApiKey) {
+    providers.push(new ShippoProvider(settings.shippoApiKey));
+  }
+  if (settings?.easypostApiKey) {
+    providers.push(new EasyPostProvider(settings.easypostApiKey));
+  }
+  return providers;
+}
+
+export async function getShippingProviders(shop: string): Promise<ShippingProvider[]> {
   const settings = await db.shopSettings.findUnique({
     where: { shop },
   });
+  return providersFromSettings(settings);
+}
 
-  if (!settings) {
-    return null;
-  }
+// The first configured provider, for work that only needs one account.
+export async function getShippingProvider(shop: string): Promise<ShippingProvider | null> {
+  const [provider] = await getShippingProviders(shop);
+  return provider ?? null;
+}
+
+// Tracking and voiding go through whichever provider bought the label, even
+// if the shop has since switched.
+export async function getLabelProvider(
+  shop: string,
+  label: { shippoTransactionId: string | null; easypostShipmentId: string | null }
+): Promise<ShippingProvider | null> {
+  const settings = await db.shopSettings.findUnique({
+    where: { shop },
+    select: { shippoApiKey: true, easypostApiKey: true },
+  });
 
-  if (settings.shippoApiKey) {
+  if (label.shippoTransactionId && settings?.shippoApiKey) {
     return new ShippoProvider(settings.shippoApiKey);
   }
-
-  if (settings.easypostApiKey) {
+  if (label.easypostShipmentId && settings?.easypostApiKey) {
     return new EasyPostProvider(settings.easypostApiKey);
   }
+  return getShippingProvider(shop);
+}
+
+export interface RateQuoteResult {
+  rates: ShippingRate[];
+  errors: Array<{ provider: string; error: string }>;
+}
+
+// Quotes every provider at once. A provider that fails doesn't stop the
+// others from being used.
+export async function quoteRates(
+  providers: ShippingProvider[],
+  fromAddress: Address,
+  toAddress: Address,
+  parcel: Parcel,
+  customs?: CustomsDeclaration
+): Promise<RateQuoteResult> {
+  const results = await Promise.allSettled(
+    providers.map((provider) => provider.getRates(fromAddress, toAddress, parcel, customs))
+  );
+
+  const quote: RateQuoteResult = { rates: [], errors: [] };
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      quote.rates.push(...result.value);
+    } else {
+      quote.errors.push({
+        provider: providers[i].name,
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+    }
+  });
+  return quote;
+}
+
+export interface RatePreferences {
+  // Empty allows every carrier.
+  allowedCarriers: string[];
+  maxTransitDays: number | null;
+  preferredService: string | null;
+}
+
+// A rate as recorded on ShippingLabel.rateQuotes for cost auditing.
+export interface RateQuote {
+  provider: string;
+  carrier: string;
+  service: string;
+  amount: number;
+  currency: string;
+  estimatedDays: number | null;
+  selected: boolean;
+  excludedReason: string | null;
+}
+
+export interface RateSelection {
+  rate: ShippingRate | null;
+  reason: "preferred_service" | "cheapest" | null;
+  considered: RateQuote[];
+}
 
+function normalizeName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function getExclusionReason(rate: ShippingRate, preferences: RatePreferences): string | null {
+  const allowed = preferences.allowedCarriers.map(normalizeName).filter(Boolean);
+  if (allowed.length > 0 && !allowed.includes(normalizeName(rate.carrier))) {
+    return "Carrier not allowed";
+  }
+  // Rates without an estimate are kept, since several carriers never send one.
+  if (
+    preferences.maxTransitDays !== null &&
+    rate.estimatedDays !== null &&
+    rate.estimatedDays > preferences.maxTransitDays
+  ) {
+    return `Over ${preferences.maxTransitDays} transit days`;
+  }
   return null;
 }
 
+// Drops rates the merchant doesn't allow, then takes the destination's
+// preferred service if it was quoted, or the cheapest rate left.
+export function selectRate(rates: ShippingRate[], preferences: RatePreferences): RateSelection {
+  const sorted = [...rates].sort(compareRates);
+  const eligible = sorted.filter((rate) => getExclusionReason(rate, preferences) === null);
+
+  const preferred = preferences.preferredService
+    ? normalizeName(preferences.preferredService)
+    : null;
+  const preferredRate = preferred
+    ? eligible.find(
+        (rate) =>
+          normalizeName(rate.service) === preferred ||
+          (rate.serviceToken !== null && normalizeName(rate.serviceToken) === preferred)
+      )
+    : undefined;
+
+  const rate = preferredRate ?? eligible[0] ?? null;
+
+  return {
+    rate,
+    reason: preferredRate ? "preferred_service" : rate ? "cheapest" : null,
+    considered: sorted.map((quote) => ({
+      provider: quote.provider,
+      carrier: quote.carrier,
+      service: quote.service,
+      amount: quote.amount,
+      currency: quote.currency,
+      estimatedDays: quote.estimatedDays,
+      selected: quote === rate,
+      excludedReason: getExclusionReason(quote, preferences),
+    })),
+  };
+}
+
+export interface ParcelLabelsResult {
+  success: boolean;
+  // One per parcel, in parcel order
+  labels: LabelResult[];
+  error?: string;
+}
+
+export interface ShipmentLabelResult extends ParcelLabelsResult {
+  shipmentId: string;
+  destinationName?: string;
+}
+
+export interface ReturnLabelOptions {
+  replacesId?: string;
+  admin?: AdminGraphQL;
+  customs?: CustomsDeclaration;
+  // What this parcel holds, when the items are split across several
+  contents?: ParcelContents[];
+  packaging?: string | null;
+  parcelNumber?: number;
+  parcelCount?: number;
+}
+
+// Buys one label for one parcel. Without a shipmentId the label goes to the
+// default destination, or a domestic one of the same type for customers
+// abroad, as before per-item routing existed. With one, it goes to the
+// shipment's destination. Rates are shopped across every configured provider.
+//
+// Cross-border labels carry a customs declaration built from the returned
+// items. Pass admin to look up HS codes, or customs to reuse a declaration.
 export async function createReturnLabel(
   shop: string,
   returnRequestId: string,
   customerAddress: Address,
-  parcel: { weight: number; length?: number; width?: number; height?: number } = { weight: 1 }
+  parcel: Parcel,
+  shipmentId?: string,
+  options: ReturnLabelOptions = {}
 ): Promise<LabelResult> {
-  const provider = await getShippingProvider(shop);
+  const returnRequest = await db.returnRequest.findUnique({
+    where: { id: returnRequestId },
+    select: { isReturnless: true, status: true },
+  });
 
-  if (!provider) {
-    return { success: false, error: "No shipping provider configured" };
+  if (returnRequest?.isReturnless) {
+    return { success: false, error: "Returnless returns do not need a shipping label" };
   }
 
-  const destination = await db.returnDestination.findFirst({
-    where: { shop, isDefault: true },
+  const settings = await db.shopSettings.findUnique({
+    where: { shop },
   });
+  const providers = providersFromSettings(settings);
+
+  if (providers.length === 0) {
+    return { success: false, error: "No shipping provider configured" };
+  }
+
+  const destination = shipmentId
+    ? (
+        await db.returnShipment.findFirst({
+          where: { id: shipmentId, returnRequestId },
+          include: { destination: true },
+        })
+      )?.destination
+    : await findDefaultDestination(shop, customerAddress.country);
 
   if (!destination) {
-    return { success: false, error: "No default return destination configured" };
+    return {
+      success: false,
+      error: shipmentId
+        ? "Shipment has no return destination"
+        : "No default return destination configured",
+    };
   }
 
   const warehouseAddress: Address = {
@@ -349,29 +1065,516 @@ export async function createReturnLabel(
     phone: destination.phone || undefined,
   };
 
-  const result = await provider.createLabel(customerAddress, warehouseAddress, parcel);
+  let customs: CustomsDeclaration | undefined;
+  if (isInternationalShipment(customerAddress.country, destination.country)) {
+    customs =
+      options.customs ??
+      (await buildReturnCustoms(
+        returnRequestId,
+        shipmentId,
+        customerAddress,
+        destination.country,
+        parcel,
+        options.admin,
+        options.contents
+      ));
+  }
+
+  const quote = await quoteRates(providers, customerAddress, warehouseAddress, parcel, customs);
+
+  if (quote.rates.length === 0) {
+    return {
+      success: false,
+      error: quote.errors.map((e) => e.error).join("; ") || "No shipping rates available",
+    };
+  }
+
+  const selection = selectRate(quote.rates, {
+    allowedCarriers: settings?.allowedCarriers ?? [],
+    maxTransitDays: settings?.maxTransitDays ?? null,
+    preferredService: destination.preferredService,
+  });
+
+  if (!selection.rate) {
+    return { success: false, error: "No shipping rates match your carrier preferences" };
+  }
+
+  const provider = providers.find((p) => p.name === selection.rate?.provider) as ShippingProvider;
+  const result = await provider.purchaseLabel(selection.rate, {
+    qrCode: settings?.qrCodeLabels ?? false,
+  });
 
   if (result.success) {
-    await db.shippingLabel.create({
+    const label = await db.shippingLabel.create({
       data: {
         returnRequestId,
+        shipmentId: shipmentId ?? null,
         carrier: result.carrier || "Unknown",
         trackingNumber: result.trackingNumber,
         trackingUrl: result.trackingUrl,
         labelUrl: result.labelUrl || "",
         labelPdfUrl: result.labelPdfUrl,
+        qrCodeUrl: result.qrCodeUrl,
         shippoTransactionId: provider.name === "shippo" ? result.transactionId : null,
         easypostShipmentId: provider.name === "easypost" ? result.transactionId : null,
         cost: result.cost,
+        provider: provider.name,
+        service: result.service ?? selection.rate.service,
+        estimatedDays: selection.rate.estimatedDays,
+        selectionReason: selection.reason,
+        rateQuotes: selection.considered as unknown as Prisma.InputJsonValue,
+        fromAddress: customerAddress as unknown as Prisma.InputJsonValue,
+        parcel: parcel as unknown as Prisma.InputJsonValue,
+        customs: customs ? (customs as unknown as Prisma.InputJsonValue) : undefined,
+        parcelNumber: options.parcelNumber ?? 1,
+        parcelCount: options.parcelCount ?? 1,
+        packaging: options.packaging ?? null,
+        replacesId: options.replacesId ?? null,
       },
     });
+    result.labelId = label.id;
+
+    // Only the first label moves the return; later shipments find it already waiting.
+    if (returnRequest && canTransition(returnRequest.status, "awaiting_shipment")) {
+      await transitionReturn(returnRequestId, "awaiting_shipment", SYSTEM_ACTOR, {
+        shop,
+        reason: `${result.carrier || "Shipping"} label created`,
+      });
+    }
   }
 
   return result;
 }
 
+async function findDefaultDestination(shop: string, customerCountry: string) {
+  const defaultDestination = await db.returnDestination.findFirst({
+    where: { shop, isDefault: true },
+  });
+
+  if (!defaultDestination || !isInternationalShipment(customerCountry, defaultDestination.country)) {
+    return defaultDestination;
+  }
+
+  const destinations = await db.returnDestination.findMany({ where: { shop } });
+  return preferDomesticDestination(defaultDestination, destinations, customerCountry);
+}
+
+async function buildReturnCustoms(
+  returnRequestId: string,
+  shipmentId: string | undefined,
+  customerAddress: Address,
+  destinationCountry: string,
+  parcel: Parcel,
+  admin?: AdminGraphQL,
+  contents?: ParcelContents[]
+): Promise<CustomsDeclaration> {
+  const returnItems = await db.returnItem.findMany({
+    where: shipmentId ? { returnRequestId, shipmentId } : { returnRequestId },
+  });
+
+  // A split parcel only declares the units packed in it.
+  const items = contents
+    ? returnItems.flatMap((item) => {
+        const packed = contents.find((c) => c.returnItemId === item.id);
+        return packed ? [{ ...item, quantity: packed.quantity }] : [];
+      })
+    : returnItems;
+
+  // Without an admin client the declaration still goes out, just without
+  // HS codes; carriers accept that for most personal returns.
+  let variantInfo;
+  if (admin) {
+    try {
+      variantInfo = await fetchVariantCustomsInfo(
+        admin,
+        items.map((item) => item.shopifyVariantId).filter((id): id is string => Boolean(id))
+      );
+    } catch (error) {
+      console.error(`Failed to look up customs info for return ${returnRequestId}:`, error);
+    }
+  }
+
+  return buildCustomsDeclaration(items, {
+    signer: customerAddress.name,
+    parcelWeight: parcel.weight,
+    defaultOriginCountry: destinationCountry,
+    variantInfo,
+  });
+}
+
+// Plans the parcels for the return, or one of its shipments, from variant
+// weights and the shop's packaging presets, and buys a label for each. Parcels
+// are all-or-nothing: if one can't be bought, the labels already bought for
+// the others are voided so the whole set can be retried.
+export async function createReturnLabels(
+  shop: string,
+  returnRequestId: string,
+  customerAddress: Address,
+  shipmentId?: string,
+  options: { admin?: AdminGraphQL } = {}
+): Promise<ParcelLabelsResult> {
+  const parcels = await planReturnParcels(shop, returnRequestId, {
+    shipmentId,
+    admin: options.admin,
+  });
+
+  const labels: LabelResult[] = [];
+  for (const [index, planned] of parcels.entries()) {
+    const result = await createReturnLabel(
+      shop,
+      returnRequestId,
+      customerAddress,
+      planned.parcel,
+      shipmentId,
+      {
+        admin: options.admin,
+        contents: parcels.length > 1 ? planned.contents : undefined,
+        packaging: planned.packaging,
+        parcelNumber: index + 1,
+        parcelCount: parcels.length,
+      }
+    );
+
+    if (!result.success) {
+      const reason = `Parcel ${index + 1} of ${parcels.length} could not be labelled`;
+      for (const bought of labels) {
+        if (bought.labelId) {
+          await voidReturnLabel(shop, bought.labelId, reason);
+        }
+      }
+      return {
+        success: false,
+        labels: [],
+        error: parcels.length > 1 ? `${reason}: ${result.error}` : result.error,
+      };
+    }
+
+    labels.push(result);
+  }
+
+  return { success: true, labels };
+}
+
+// Buys labels for every routed shipment that does not have a usable one yet.
+// A shipment whose items outgrow one box gets a label per parcel.
+export async function createShipmentLabels(
+  shop: string,
+  returnRequestId: string,
+  customerAddress: Address,
+  options: { admin?: AdminGraphQL } = {}
+): Promise<ShipmentLabelResult[]> {
+  const shipments = await db.returnShipment.findMany({
+    where: { returnRequestId, labels: { none: { status: "active" } } },
+    include: { destination: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const results: ShipmentLabelResult[] = [];
+  for (const shipment of shipments) {
+    const result = await createReturnLabels(shop, returnRequestId, customerAddress, shipment.id, {
+      admin: options.admin,
+    });
+    results.push({
+      ...result,
+      shipmentId: shipment.id,
+      destinationName: shipment.destination?.name,
+    });
+  }
+
+  return results;
+}
+
+// Labels can only be bought, replaced or expire while the customer still has
+// to ship.
+const UNSHIPPED_RETURN_STATUSES = ["approved", "awaiting_shipment"];
+
+// Merchant action: routes the return if approval didn't, then buys labels for
+// its shipments from the order's shipping address. Shipments that already
+// have a label are skipped, so a partial run can be retried.
+export async function createLabelsForReturn(
+  admin: AdminGraphQL,
+  shop: string,
+  returnRequestId: string
+): Promise<{ success: boolean; shipments: ShipmentLabelResult[]; error?: string }> {
+  const returnRequest = await db.returnRequest.findUnique({
+    where: { id: returnRequestId },
+    include: { items: true, shipments: { select: { id: true } } },
+  });
+
+  if (!returnRequest || returnRequest.shop !== shop) {
+    return { success: false, shipments: [], error: "Return not found" };
+  }
+  if (!UNSHIPPED_RETURN_STATUSES.includes(returnRequest.status)) {
+    return { success: false, shipments: [], error: "Labels can only be created for returns awaiting shipment" };
+  }
+  if (returnRequest.isReturnless) {
+    return { success: false, shipments: [], error: "Returnless returns do not need a shipping label" };
+  }
+
+  const order =
+    returnRequest.shipments.length > 0
+      ? await fetchOrderRouting(admin, returnRequest.shopifyOrderId)
+      : (await routeReturnFromOrder(admin, returnRequest)).order;
+
+  if (!order?.shippingAddress) {
+    return { success: false, shipments: [], error: "The order has no shipping address to ship from" };
+  }
+
+  const shipments = await createShipmentLabels(
+    shop,
+    returnRequestId,
+    { ...order.shippingAddress, email: returnRequest.customerEmail },
+    { admin }
+  );
+  const failed = shipments.find((shipment) => !shipment.success);
+
+  return {
+    success: !failed,
+    shipments,
+    error: failed
+      ? `${failed.destinationName ?? "Shipment"}: ${failed.error ?? "Could not create label"}`
+      : undefined,
+  };
+}
+
 export async function getLabelForReturn(returnRequestId: string) {
-  return db.shippingLabel.findUnique({
+  return db.shippingLabel.findFirst({
     where: { returnRequestId },
+    orderBy: { createdAt: "desc" },
   });
 }
+
+export async function getLabelsForReturn(returnRequestId: string) {
+  return db.shippingLabel.findMany({
+    where: { returnRequestId },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+export async function getShipmentsForReturn(returnRequestId: string) {
+  return db.returnShipment.findMany({
+    where: { returnRequestId },
+    include: { destination: true, items: true, labels: true },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LabelVoidResult {
+  success: boolean;
+  status?: LabelStatus;
+  error?: string;
+}
+
+// Refunds an unused label with the provider that bought it. The label stays
+// on the return as history, marked void_pending or voided.
+export async function voidReturnLabel(
+  shop: string,
+  labelId: string,
+  reason: string,
+  now = new Date()
+): Promise<LabelVoidResult> {
+  const label = await db.shippingLabel.findUnique({
+    where: { id: labelId },
+    include: { returnRequest: { select: { shop: true } } },
+  });
+
+  if (!label || label.returnRequest.shop !== shop) {
+    return { success: false, error: "Label not found" };
+  }
+
+  if (label.status !== "active") {
+    return { success: true, status: label.status as LabelStatus };
+  }
+
+  if (isLabelScanned(label)) {
+    return { success: false, error: "The carrier has already scanned this label" };
+  }
+
+  const provider = await getLabelProvider(shop, label);
+  const transactionId =
+    provider?.name === "shippo"
+      ? label.shippoTransactionId
+      : provider?.name === "easypost"
+        ? label.easypostShipmentId
+        : provider?.name === "mock" && label.provider === "mock"
+          ? label.trackingNumber
+          : null;
+
+  if (!provider || !transactionId) {
+    return { success: false, error: "The provider that bought this label is not connected" };
+  }
+
+  const result = await provider.voidLabel(transactionId);
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  const status: LabelStatus = result.status === "voided" ? "voided" : "void_pending";
+  await db.shippingLabel.update({
+    where: { id: label.id },
+    data: {
+      status,
+      voidReason: reason,
+      voidRequestedAt: now,
+      voidedAt: status === "voided" ? now : null,
+    },
+  });
+
+  return { success: true, status };
+}
+
+// Voids the label and buys a new one for the same shipment and parcel, from
+// the same address and with the same customs declaration. If the purchase
+// fails the old label is already voided, so regenerating it again just
+// retries the purchase.
+export async function regenerateReturnLabel(
+  shop: string,
+  labelId: string,
+  reason = "Replacement label requested"
+): Promise<LabelResult> {
+  const label = await db.shippingLabel.findUnique({
+    where: { id: labelId },
+    include: {
+      returnRequest: { select: { shop: true, status: true } },
+      replacedBy: { select: { id: true } },
+    },
+  });
+
+  if (!label || label.returnRequest.shop !== shop) {
+    return { success: false, error: "Label not found" };
+  }
+
+  if (label.replacedBy) {
+    return { success: false, error: "This label has already been replaced" };
+  }
+
+  if (!UNSHIPPED_RETURN_STATUSES.includes(label.returnRequest.status)) {
+    return { success: false, error: "Labels can only be replaced before the return ships" };
+  }
+
+  if (!label.fromAddress) {
+    return { success: false, error: "No ship-from address was saved with this label" };
+  }
+
+  if (label.status === "active") {
+    const voided = await voidReturnLabel(shop, label.id, reason);
+    if (!voided.success) {
+      return { success: false, error: voided.error };
+    }
+  }
+
+  return createReturnLabel(
+    shop,
+    label.returnRequestId,
+    label.fromAddress as unknown as Address,
+    (label.parcel as unknown as Parcel | null) ?? { weight: DEFAULT_UNIT_WEIGHT_LB },
+    label.shipmentId ?? undefined,
+    {
+      replacesId: label.id,
+      customs: (label.customs as unknown as CustomsDeclaration | null) ?? undefined,
+      packaging: label.packaging,
+      parcelNumber: label.parcelNumber,
+      parcelCount: label.parcelCount,
+    }
+  );
+}
+
+// Voids every label on the return the carrier hasn't scanned, e.g. when the
+// return is cancelled. Failures are returned per label rather than thrown.
+export async function voidUnusedLabels(
+  shop: string,
+  returnRequestId: string,
+  reason: string
+): Promise<Array<LabelVoidResult & { labelId: string }>> {
+  const labels = await db.shippingLabel.findMany({
+    where: { returnRequestId, status: "active" },
+    select: { id: true, trackingStatus: true, deliveredAt: true },
+  });
+
+  const results: Array<LabelVoidResult & { labelId: string }> = [];
+  for (const label of labels.filter((l) => !isLabelScanned(l))) {
+    results.push({ labelId: label.id, ...(await voidReturnLabel(shop, label.id, reason)) });
+  }
+  return results;
+}
+
+export interface LabelExpiryResult {
+  checked: number;
+  voided: number;
+  failed: number;
+}
+
+// Scheduled: voids labels the carrier never scanned within the shop's
+// labelExpiryDays and lets the customer know the label no longer works. Each
+// shop's cutoff is part of the query so labels that aren't due yet never
+// fill the batch, and labels the provider wouldn't void go to the back.
+export async function expireUnusedLabels(
+  options: { now?: Date; limit?: number } = {}
+): Promise<LabelExpiryResult> {
+  const now = options.now ?? new Date();
+
+  const shops = await db.shopSettings.findMany({
+    where: { labelExpiryDays: { not: null } },
+    select: { shop: true, labelExpiryDays: true },
+  });
+  if (shops.length === 0) {
+    return { checked: 0, voided: 0, failed: 0 };
+  }
+
+  const expired = await db.shippingLabel.findMany({
+    where: {
+      status: "active",
+      deliveredAt: null,
+      AND: [
+        { OR: [{ trackingStatus: null }, { trackingStatus: "pre_transit" }] },
+        {
+          OR: shops.map(({ shop, labelExpiryDays }) => ({
+            returnRequest: { shop },
+            createdAt: { lte: new Date(now.getTime() - (labelExpiryDays as number) * DAY_MS) },
+          })),
+        },
+      ],
+      returnRequest: { status: { in: UNSHIPPED_RETURN_STATUSES } },
+    },
+    include: {
+      returnRequest: {
+        include: { items: true, shopSettings: { select: { labelExpiryDays: true } } },
+      },
+    },
+    orderBy: [{ voidRequestedAt: { sort: "asc", nulls: "first" } }, { createdAt: "asc" }],
+    take: options.limit ?? 50,
+  });
+
+  const result: LabelExpiryResult = { checked: expired.length, voided: 0, failed: 0 };
+
+  for (const label of expired) {
+    const { shopSettings, ...returnRequest } = label.returnRequest;
+    const expiryDays = shopSettings.labelExpiryDays as number;
+
+    try {
+      const voided = await voidReturnLabel(
+        returnRequest.shop,
+        label.id,
+        `Not scanned within ${expiryDays} days`,
+        now
+      );
+
+      if (!voided.success) {
+        console.error(`Failed to void expired label ${label.id}: ${voided.error}`);
+        await db.shippingLabel.update({ where: { id: label.id }, data: { voidRequestedAt: now } });
+        result.failed++;
+        continue;
+      }
+
+      await sendLabelExpired({ returnRequest, shopName: returnRequest.shop, expiryDays });
+      result.voided++;
+    } catch (error) {
+      console.error(`Failed to expire label ${label.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import db from "../db.server";
+import {
+  calculateEasyPostSignature,
+  pollTrackingUpdates,
+  recordTrackingUpdate,
+  verifyEasyPostWebhook,
+  verifyPollRequest,
+  verifyShippoWebhook,
+} from "./tracking.server";
+import { EasyPostProvider, ShippoProvider, type TrackingUpdate } from "./shipping.server";
+import { transitionReturn } from "./return-lifecycle.server";
+import { completeReturnRequest } from "./returns.server";
+import { restockReturnedItems } from "./restocking.server";
+import { mockShop, mockShippingLabel } from "../../test/fixtures";
+import shippoTransit from "../../test/fixtures/tracking/shippo-track-updated.json";
+import shippoDelivered from "../../test/fixtures/tracking/shippo-track-delivered.json";
+import easypostDelivered from "../../test/fixtures/tracking/easypost-tracker-updated.json";
+
+vi.mock("./return-lifecycle.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./return-lifecycle.server")>()),
+  transitionReturn: vi.fn(),
+}));
+
+vi.mock("./returns.server", () => ({
+  completeReturnRequest: vi.fn(),
+}));
+
+vi.mock("./restocking.server", () => ({
+  restockReturnedItems: vi.fn(),
+}));
+
+global.fetch = vi.fn();
+
+const admin = { graphql: vi.fn() };
+const getAdmin = vi.fn(() => Promise.resolve(admin));
+const now = new Date("2026-02-12T20:00:00Z");
+
+function mockLabel(status: string, overrides: Partial<typeof mockShippingLabel> = {}) {
+  vi.mocked(db.shippingLabel.findFirst).mockResolvedValue({
+    ...mockShippingLabel,
+    ...overrides,
+    returnRequest: { id: "return_123", shop: mockShop, status },
+  } as never);
+}
+
+function deliveredUpdate(): TrackingUpdate {
+  return ShippoProvider.parseTrack(shippoDelivered.data) as TrackingUpdate;
+}
+
+describe("Tracking Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("carrier payloads", () => {
+    it("normalizes Shippo tracks oldest first", () => {
+      const update = ShippoProvider.parseTrack(shippoDelivered.data);
+
+      expect(update?.trackingNumber).toBe("9400111899223456789012");
+      expect(update?.status).toBe("delivered");
+      expect(update?.checkpoints.map((c) => c.status)).toEqual([
+        "pre_transit",
+        "in_transit",
+        "out_for_delivery",
+        "delivered",
+      ]);
+      expect(update?.checkpoints[3]).toEqual({
+        status: "delivered",
+        carrierStatus: "DELIVERED",
+        description: "Your item was delivered at 11:32 am.",
+        location: "San Francisco, CA, US",
+        occurredAt: new Date("2026-02-12T19:32:00Z"),
+      });
+    });
+
+    it("normalizes EasyPost trackers", () => {
+      const update = EasyPostProvider.parseTracker(easypostDelivered.result);
+
+      expect(update?.trackingNumber).toBe("1Z999AA10123456784");
+      expect(update?.carrier).toBe("UPS");
+      expect(update?.status).toBe("delivered");
+      expect(update?.checkpoints[0].location).toBe("US");
+      expect(update?.checkpoints).toHaveLength(4);
+    });
+
+    it("maps carrier-specific statuses", () => {
+      expect(EasyPostProvider.normalizeStatus("return_to_sender")).toBe("returned");
+      expect(EasyPostProvider.normalizeStatus("available_for_pickup")).toBe("in_transit");
+      expect(ShippoProvider.normalizeStatus("FAILURE")).toBe("failure");
+      expect(ShippoProvider.normalizeStatus("SOMETHING_NEW")).toBe("unknown");
+    });
+  });
+
+  describe("webhook verification", () => {
+    it("checks EasyPost signatures against the raw body", () => {
+      const body = JSON.stringify(easypostDelivered);
+      const signature = calculateEasyPostSignature(body, "whsec");
+
+      expect(verifyEasyPostWebhook(body, signature, "whsec")).toBe(true);
+      expect(verifyEasyPostWebhook(`${body} `, signature, "whsec")).toBe(false);
+      expect(verifyEasyPostWebhook(body, null, "whsec")).toBe(false);
+      expect(verifyEasyPostWebhook(body, signature, undefined)).toBe(false);
+    });
+
+    it("checks the Shippo token and polling secret", () => {
+      const shippo = new Request("https://app.example.com/webhooks/tracking/shippo?token=abc");
+      expect(verifyShippoWebhook(shippo, "abc")).toBe(true);
+      expect(verifyShippoWebhook(shippo, "xyz")).toBe(false);
+      expect(verifyShippoWebhook(shippo, undefined)).toBe(false);
+
+      const poll = new Request("https://app.example.com/api/tracking/poll", {
+        headers: { Authorization: "Bearer cron-secret" },
+      });
+      expect(verifyPollRequest(poll, "cron-secret")).toBe(true);
+      expect(verifyPollRequest(poll, "other")).toBe(false);
+    });
+  });
+
+  describe("recordTrackingUpdate", () => {
+    it("ignores tracking numbers the shop didn't create", async () => {
+      vi.mocked(db.shippingLabel.findFirst).mockResolvedValue(null);
+
+      const result = await recordTrackingUpdate(mockShop, deliveredUpdate(), { now });
+
+      expect(result).toEqual({ matched: false });
+      expect(db.shippingLabel.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { trackingNumber: "9400111899223456789012", returnRequest: { shop: mockShop } },
+        })
+      );
+      expect(db.trackingCheckpoint.createMany).not.toHaveBeenCalled();
+    });
+
+    it("stores checkpoints and marks the return in transit", async () => {
+      mockLabel("awaiting_shipment");
+      const update = ShippoProvider.parseTrack(shippoTransit.data) as TrackingUpdate;
+
+      const result = await recordTrackingUpdate(mockShop, update, { now });
+
+      expect(db.trackingCheckpoint.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ labelId: "label_123", status: "pre_transit" }),
+          expect.objectContaining({ labelId: "label_123", status: "in_transit" }),
+        ],
+        skipDuplicates: true,
+      });
+      expect(db.shippingLabel.update).toHaveBeenCalledWith({
+        where: { id: "label_123" },
+        data: { trackingStatus: "in_transit", trackingUpdatedAt: now, deliveredAt: null },
+      });
+      expect(transitionReturn).toHaveBeenCalledWith(
+        "return_123",
+        "in_transit",
+        { type: "carrier", name: "usps" },
+        { shop: mockShop, reason: "Your shipment has departed from the origin facility." }
+      );
+      expect(result.returnStatus).toBe("in_transit");
+    });
+
+    it("marks the return received on delivery", async () => {
+      mockLabel("in_transit");
+      vi.mocked(db.shippingLabel.findMany).mockResolvedValue([]);
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({ deliveryAction: "none" } as never);
+
+      const result = await recordTrackingUpdate(mockShop, deliveredUpdate(), { getAdmin, now });
+
+      expect(db.shippingLabel.update).toHaveBeenCalledWith({
+        where: { id: "label_123" },
+        data: {
+          trackingStatus: "delivered",
+          trackingUpdatedAt: now,
+          deliveredAt: new Date("2026-02-12T19:32:00Z"),
+        },
+      });
+      expect(vi.mocked(transitionReturn).mock.calls.map((call) => call[1])).toEqual(["received"]);
+      expect(transitionReturn).toHaveBeenCalledWith(
+        "return_123",
+        "received",
+        { type: "carrier", name: "usps" },
+        { shop: mockShop, reason: "Delivered to warehouse in San Francisco, CA, US" }
+      );
+      // An instant exchange's hold comes off once the original is back
+      expect(db.returnRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: "return_123", exchangeHoldStatus: "held" },
+        data: { exchangeHoldStatus: "released", exchangeHoldResolvedAt: now },
+      });
+      expect(result).toEqual({
+        matched: true,
+        returnRequestId: "return_123",
+        returnStatus: "received",
+        deliveryAction: "none",
+      });
+      expect(getAdmin).not.toHaveBeenCalled();
+    });
+
+    it("waits for every parcel before receiving the return", async () => {
+      mockLabel("in_transit");
+      vi.mocked(db.shippingLabel.findMany).mockResolvedValue([{ deliveredAt: null }] as never);
+
+      const result = await recordTrackingUpdate(mockShop, deliveredUpdate(), { getAdmin, now });
+
+      expect(transitionReturn).not.toHaveBeenCalled();
+      expect(result.returnStatus).toBe("in_transit");
+    });
+
+    it("leaves returns that are already past delivery alone", async () => {
+      mockLabel("inspected");
+
+      const result = await recordTrackingUpdate(mockShop, deliveredUpdate(), { getAdmin, now });
+
+      expect(transitionReturn).not.toHaveBeenCalled();
+      expect(db.shippingLabel.findMany).not.toHaveBeenCalled();
+      expect(result.returnStatus).toBe("inspected");
+    });
+
+    it("restocks on delivery when the shop asks for it", async () => {
+      mockLabel("in_transit");
+      vi.mocked(db.shippingLabel.findMany).mockResolvedValue([]);
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({ deliveryAction: "restock" } as never);
+
+      await recordTrackingUpdate(mockShop, deliveredUpdate(), { getAdmin, now });
+
+      expect(getAdmin).toHaveBeenCalledWith(mockShop);
+      expect(restockReturnedItems).toHaveBeenCalledWith(admin, "return_123", undefined, {
+        force: true,
+      });
+      expect(completeReturnRequest).not.toHaveBeenCalled();
+    });
+
+    it("completes and refunds on delivery when the shop asks for it", async () => {
+      mockLabel("in_transit");
+      vi.mocked(db.shippingLabel.findMany).mockResolvedValue([]);
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({ deliveryAction: "complete" } as never);
+      vi.mocked(completeReturnRequest).mockResolvedValue({
+        status: "received",
+        refund: { status: "failed", refundedAmount: 0, error: "Payment gateway unavailable" },
+      } as never);
+
+      const result = await recordTrackingUpdate(mockShop, deliveredUpdate(), { getAdmin, now });
+
+      expect(completeReturnRequest).toHaveBeenCalledWith("return_123", admin, {
+        type: "carrier",
+        name: "usps",
+      });
+      expect(result.returnStatus).toBe("received");
+      expect(result.error).toBe("Payment gateway unavailable");
+    });
+  });
+
+  describe("pollTrackingUpdates", () => {
+    it("asks the provider that bought each stale label", async () => {
+      vi.mocked(db.shippingLabel.findMany).mockResolvedValueOnce([
+        { ...mockShippingLabel, returnRequest: { shop: mockShop } },
+      ] as never);
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        shippoApiKey: "shippo_key",
+        easypostApiKey: null,
+      } as never);
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => shippoTransit.data,
+      } as Response);
+      mockLabel("awaiting_shipment");
+
+      const result = await pollTrackingUpdates({ getAdmin, now });
+
+      expect(fetch).toHaveBeenCalledWith(
+        "https://api.goshippo.com/tracks/usps/9400111899223456789012",
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: "ShippoToken shippo_key" }),
+        })
+      );
+      expect(transitionReturn).toHaveBeenCalledWith(
+        "return_123",
+        "in_transit",
+        expect.objectContaining({ type: "carrier" }),
+        expect.anything()
+      );
+      expect(result).toEqual({ checked: 1, updated: 1, failed: 0 });
+    });
+
+    it("counts failures without stopping the run", async () => {
+      vi.mocked(db.shippingLabel.findMany).mockResolvedValueOnce([
+        { ...mockShippingLabel, id: "label_1", returnRequest: { shop: mockShop } },
+        { ...mockShippingLabel, id: "label_2", returnRequest: { shop: mockShop } },
+      ] as never);
+      vi.mocked(db.shopSettings.findUnique).mockResolvedValue({
+        shippoApiKey: "shippo_key",
+        easypostApiKey: null,
+      } as never);
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({ ok: false, status: 500, text: async () => "oops" } as Response)
+        .mockResolvedValueOnce({ ok: false, status: 404 } as Response);
+
+      const result = await pollTrackingUpdates({ now });
+
+      expect(result).toEqual({ checked: 2, updated: 0, failed: 1 });
+      // Both wait out the interval, so the failing label doesn't block the queue
+      expect(db.shippingLabel.update).toHaveBeenCalledWith({
+        where: { id: "label_1" },
+        data: { trackingUpdatedAt: now },
+      });
+      expect(db.shippingLabel.update).toHaveBeenCalledWith({
+        where: { id: "label_2" },
+        data: { trackingUpdatedAt: now },
+      });
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import db from "../db.server";
+import { getLabelProvider, type TrackingUpdate } from "./shipping.server";
+import { transitionReturn, type ReturnActor } from "./return-lifecycle.server";
+import { completeReturnRequest } from "./returns.server";
+import { restockReturnedItems } from "./restocking.server";
+import { releaseExchangeHold } from "./instant-exchange.server";
+import { canTransition } from "../utils/return-status";
+import { isDeliveryAction, type DeliveryAction } from "../utils/tracking";
+
+export {
+  DELIVERY_ACTIONS,
+  TRACKING_STATUSES,
+  deliveryActionLabels,
+  getTrackingStatusLabel,
+  isDeliveryAction,
+  trackingStatusLabels,
+  type DeliveryAction,
+  type TrackingStatus,
+} from "../utils/tracking";
+
+type AdminGraphQL = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+// Carrier webhooks don't carry a session, so delivery actions get an offline
+// admin client for the shop from the caller.
+export type AdminResolver = (shop: string) => Promise<AdminGraphQL>;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Labels are polled at most this often, and only while they could still move.
+const POLL_INTERVAL_MS = 6 * HOUR_MS;
+const POLL_MAX_LABEL_AGE_MS = 60 * DAY_MS;
+const POLLED_RETURN_STATUSES = ["approved", "awaiting_shipment", "in_transit"];
+
+const MOVING_STATUSES = ["in_transit", "out_for_delivery", "delivered"];
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a, "utf8");
+  const right = Buffer.from(b, "utf8");
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Each shop registers the tracking webhooks in its own Shippo or EasyPost
+// account, so the URLs carry the shop and are checked against its secrets.
+export async function getTrackingWebhookSecrets(shop: string | null) {
+  if (!shop) {
+    return null;
+  }
+  return db.shopSettings.findUnique({
+    where: { shop },
+    select: { shippoWebhookToken: true, easypostWebhookSecret: true },
+  });
+}
+
+// Shippo doesn't sign tracking webhooks, so the URL registered with Shippo
+// carries the shop's token: /webhooks/tracking/shippo?shop=...&token=...
+export function verifyShippoWebhook(request: Request, token: string | null | undefined): boolean {
+  const received = new URL(request.url).searchParams.get("token");
+  return Boolean(token && received && safeEqual(received, token));
+}
+
+// EasyPost signs the raw body with the webhook secret and sends it as
+// X-Hmac-Signature: hmac-sha256-hex=<digest>.
+export function calculateEasyPostSignature(rawBody: string, secret: string): string {
+  const digest = createHmac("sha256", secret.normalize("NFKD")).update(rawBody).digest("hex");
+  return `hmac-sha256-hex=${digest}`;
+}
+
+export function verifyEasyPostWebhook(
+  rawBody: string,
+  signature: string | null,
+  secret: string | null | undefined
+): boolean {
+  if (!secret || !signature) {
+    return false;
+  }
+  return safeEqual(signature, calculateEasyPostSignature(rawBody, secret));
+}
+
+// The polling endpoint is called by a scheduler with Authorization: Bearer <secret>.
+export function verifyPollRequest(
+  request: Request,
+  secret = process.env.TRACKING_POLL_SECRET
+): boolean {
+  const header = request.headers.get("authorization") ?? "";
+  const received = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+  return Boolean(secret && received && safeEqual(received, secret));
+}
+
+export interface TrackingResult {
+  matched: boolean;
+  returnRequestId?: string;
+  returnStatus?: string;
+  deliveryAction?: DeliveryAction;
+  error?: string;
+}
+
+// Stores the carrier's scan history for the shop's label and moves its return
+// along: to in transit on the first movement, and to received once every
+// tracked parcel of the return has been delivered.
+export async function recordTrackingUpdate(
+  shop: string,
+  update: TrackingUpdate,
+  options: { getAdmin?: AdminResolver; now?: Date } = {}
+): Promise<TrackingResult> {
+  const now = options.now ?? new Date();
+
+  const label = await db.shippingLabel.findFirst({
+    where: { trackingNumber: update.trackingNumber, returnRequest: { shop } },
+    orderBy: { createdAt: "desc" },
+    include: { returnRequest: { select: { id: true, shop: true, status: true } } },
+  });
+
+  if (!label) {
+    return { matched: false };
+  }
+
+  if (update.checkpoints.length > 0) {
+    await db.trackingCheckpoint.createMany({
+      data: update.checkpoints.map((checkpoint) => ({ ...checkpoint, labelId: label.id })),
+      skipDuplicates: true,
+    });
+  }
+
+  const latest = update.checkpoints[update.checkpoints.length - 1];
+  const delivered = update.status === "delivered";
+  const deliveredAt =
+    label.deliveredAt ??
+    (delivered
+      ? ([...update.checkpoints].reverse().find((c) => c.status === "delivered")?.occurredAt ?? now)
+      : null);
+
+  await db.shippingLabel.update({
+    where: { id: label.id },
+    data: { trackingStatus: update.status, trackingUpdatedAt: now, deliveredAt },
+  });
+
+  const returnRequestId = label.returnRequest.id;
+  const actor: ReturnActor = { type: "carrier", name: update.carrier ?? label.carrier };
+  let returnStatus = label.returnRequest.status;
+
+  if (MOVING_STATUSES.includes(update.status) && canTransition(returnStatus, "in_transit")) {
+    await transitionReturn(returnRequestId, "in_transit", actor, {
+      shop,
+      reason: latest?.description ?? null,
+    });
+    returnStatus = "in_transit";
+  }
+
+  if (!delivered || !canTransition(returnStatus, "received")) {
+    return { matched: true, returnRequestId, returnStatus };
+  }
+
+  const otherLabels = await db.shippingLabel.findMany({
+    where: {
+      returnRequestId,
+      trackingNumber: { not: null },
+      id: { not: label.id },
+      status: "active",
+    },
+    select: { deliveredAt: true },
+  });
+
+  if (otherLabels.some((other) => !other.deliveredAt)) {
+    return { matched: true, returnRequestId, returnStatus };
+  }
+
+  await transitionReturn(returnRequestId, "received", actor, {
+    shop,
+    reason: latest?.location ? `Delivered to warehouse in ${latest.location}` : "Delivered to warehouse",
+  });
+  await releaseExchangeHold(returnRequestId, now);
+
+  return runDeliveryAction(shop, returnRequestId, actor, options.getAdmin);
+}
+
+// The return is already received when this runs, so a failure here is logged
+// and reported rather than thrown back at the carrier.
+async function runDeliveryAction(
+  shop: string,
+  returnRequestId: string,
+  actor: ReturnActor,
+  getAdmin?: AdminResolver
+): Promise<TrackingResult> {
+  const settings = await db.shopSettings.findUnique({
+    where: { shop },
+    select: { deliveryAction: true },
+  });
+  const deliveryAction =
+    settings && isDeliveryAction(settings.deliveryAction) ? settings.deliveryAction : "none";
+
+  const result: TrackingResult = {
+    matched: true,
+    returnRequestId,
+    returnStatus: "received",
+    deliveryAction,
+  };
+
+  if (deliveryAction === "none") {
+    return result;
+  }
+
+  if (!getAdmin) {
+    return { ...result, error: "No admin client available for the delivery action" };
+  }
+
+  try {
+    const admin = await getAdmin(shop);
+    if (deliveryAction === "restock") {
+      await restockReturnedItems(admin, returnRequestId, undefined, { force: true });
+      return result;
+    }
+
+    const completed = await completeReturnRequest(returnRequestId, admin, actor);
+    return { ...result, returnStatus: completed.status, error: completed.refund?.error };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Delivery action failed";
+    console.error(`Delivery action ${deliveryAction} failed for return ${returnRequestId}:`, error);
+    return { ...result, error: message };
+  }
+}
+
+export interface PollResult {
+  checked: number;
+  updated: number;
+  failed: number;
+}
+
+// Fallback for carriers or shops whose webhooks aren't set up: asks the
+// provider about labels that haven't been heard from recently.
+export async function pollTrackingUpdates(
+  options: { getAdmin?: AdminResolver; now?: Date; limit?: number } = {}
+): Promise<PollResult> {
+  const now = options.now ?? new Date();
+
+  const labels = await db.shippingLabel.findMany({
+    where: {
+      trackingNumber: { not: null },
+      status: "active",
+      deliveredAt: null,
+      createdAt: { gte: new Date(now.getTime() - POLL_MAX_LABEL_AGE_MS) },
+      OR: [
+        { trackingUpdatedAt: null },
+        { trackingUpdatedAt: { lt: new Date(now.getTime() - POLL_INTERVAL_MS) } },
+      ],
+      returnRequest: { status: { in: POLLED_RETURN_STATUSES } },
+    },
+    include: { returnRequest: { select: { shop: true } } },
+    orderBy: { createdAt: "asc" },
+    take: options.limit ?? 50,
+  });
+
+  const result: PollResult = { checked: labels.length, updated: 0, failed: 0 };
+
+  for (const label of labels) {
+    try {
+      const provider = await getLabelProvider(label.returnRequest.shop, label);
+      const update = provider
+        ? await provider.getTracking(label.carrier, label.trackingNumber as string)
+        : null;
+
+      if (!update) {
+        await db.shippingLabel.update({
+          where: { id: label.id },
+          data: { trackingUpdatedAt: now },
+        });
+        continue;
+      }
+
+      await recordTrackingUpdate(label.returnRequest.shop, update, {
+        getAdmin: options.getAdmin,
+        now,
+      });
+      result.updated++;
+    } catch (error) {
+      console.error(`Failed to poll tracking for label ${label.id}:`, error);
+      result.failed++;
+      // Wait out the interval before retrying so a label that keeps failing
+      // doesn't hold its place at the front of every run.
+      await db.shippingLabel.update({ where: { id: label.id }, data: { trackingUpdatedAt: now } });
+    }
+  }
+
+  return result;
+}
+
+export async function getTrackingForReturn(returnRequestId: string) {
+  return db.shippingLabel.findMany({
+    where: { returnRequestId },
+    include: { checkpoints: { orderBy: { occurredAt: "asc" } } },
+    orderBy: { createdAt: "asc" },
+  });
+}
@@ -0,0 +1,98 @@
+export const DISPOSITION_TYPES = [
+  "restock",
+  "outlet",
+  "donation",
+  "manufacturer",
+  "recycle",
+  "returnless",
+] as const;
+
+export type DispositionType = (typeof DISPOSITION_TYPES)[number];
+
+// Physical destinations mirror dispositions, with "warehouse" standing in for restock.
+export const DESTINATION_TYPES = [
+  "warehouse",
+  "outlet",
+  "donation",
+  "manufacturer",
+  "recycle",
+  "returnless",
+] as const;
+
+export type DestinationType = (typeof DESTINATION_TYPES)[number];
+
+export const ITEM_CONDITIONS = [
+  "new",
+  "like_new",
+  "good",
+  "fair",
+  "damaged",
+  "defective",
+] as const;
+
+export type ItemCondition = (typeof ITEM_CONDITIONS)[number];
+
+export type DispositionConditionType =
+  | "item_condition"
+  | "price_above"
+  | "price_below"
+  | "return_reason"
+  | "product_type"
+  | "product_tag";
+
+export interface DispositionCondition {
+  type: DispositionConditionType;
+  value: string;
+}
+
+export const DEFAULT_OUTLET_DISCOUNT_PERCENT = 20;
+
+export const dispositionTypeLabels: Record<DispositionType, string> = {
+  restock: "Restock",
+  outlet: "Outlet",
+  donation: "Donate",
+  manufacturer: "Manufacturer claim",
+  recycle: "Recycle",
+  returnless: "Returnless",
+};
+
+export const destinationTypeLabels: Record<DestinationType, string> = {
+  warehouse: "Warehouse",
+  outlet: "Outlet",
+  donation: "Donation partner",
+  manufacturer: "Manufacturer",
+  recycle: "Recycling",
+  returnless: "Returnless",
+};
+
+export const itemConditionLabels: Record<ItemCondition, string> = {
+  new: "New",
+  like_new: "Like new",
+  good: "Good",
+  fair: "Fair",
+  damaged: "Damaged",
+  defective: "Defective",
+};
+
+export function isDispositionType(value: unknown): value is DispositionType {
+  return typeof value === "string" && (DISPOSITION_TYPES as readonly string[]).includes(value);
+}
+
+export function describeDispositionConditions(conditions: DispositionCondition[]): string {
+  return conditions
+    .map((condition) => {
+      switch (condition.type) {
+        case "price_above":
+          return `price > ${condition.value}`;
+        case "price_below":
+          return `price < ${condition.value}`;
+        case "item_condition":
+          return `condition = ${
+            itemConditionLabels[condition.value as ItemCondition] ?? condition.value
+          }`;
+        default:
+          return `${condition.type.replace(/_/g, " ")} = ${condition.value}`;
+      }
+    })
+    .join(" AND ");
+}
@@ -0,0 +1,26 @@
+export const BLOCKLIST_TYPES = ["email", "customer", "product_tag", "discount_code"] as const;
+
+export type BlocklistType = (typeof BLOCKLIST_TYPES)[number];
+
+export const blocklistTypeLabels: Record<BlocklistType, string> = {
+  email: "Email address",
+  customer: "Customer",
+  product_tag: "Product tag (final sale)",
+  discount_code: "Discount code",
+};
+
+export function isBlocklistType(value: string): value is BlocklistType {
+  return (BLOCKLIST_TYPES as readonly string[]).includes(value);
+}
+
+// Customer entries accept a numeric ID or a GID and are stored as a GID so they
+// match order.customer.id. Everything else is compared case-insensitively.
+export function normalizeBlocklistValue(type: BlocklistType, value: string): string {
+  const trimmed = value.trim();
+
+  if (type === "customer") {
+    return /^\d+$/.test(trimmed) ? `gid://shopify/Customer/${trimmed}` : trimmed;
+  }
+
+  return trimmed.toLowerCase();
+}
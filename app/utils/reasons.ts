@@ -0,0 +1,54 @@
+export const RETURN_REASONS = [
+  "defective",
+  "wrong_item",
+  "not_as_described",
+  "no_longer_needed",
+  "wrong_size",
+  "wrong_color",
+  "better_price",
+  "other",
+] as const;
+
+export type ReturnReason = (typeof RETURN_REASONS)[number];
+
+export const returnReasonLabels: Record<ReturnReason, string> = {
+  defective: "Defective",
+  wrong_item: "Wrong item",
+  not_as_described: "Not as described",
+  no_longer_needed: "No longer needed",
+  wrong_size: "Wrong size",
+  wrong_color: "Wrong color",
+  better_price: "Found a better price",
+  other: "Other",
+};
+
+// Shopify's ReturnReason enum, as sent by the returns/request webhook.
+const shopifyReturnReasons: Record<string, ReturnReason> = {
+  DEFECTIVE: "defective",
+  WRONG_ITEM: "wrong_item",
+  NOT_AS_DESCRIBED: "not_as_described",
+  UNWANTED: "no_longer_needed",
+  SIZE_TOO_SMALL: "wrong_size",
+  SIZE_TOO_LARGE: "wrong_size",
+  COLOR: "wrong_color",
+  STYLE: "other",
+  OTHER: "other",
+  UNKNOWN: "other",
+};
+
+export function isReturnReason(value: string): value is ReturnReason {
+  return (RETURN_REASONS as readonly string[]).includes(value);
+}
+
+// Accepts both our portal reasons and Shopify's enum values.
+export function normalizeReturnReason(value: string | null | undefined): ReturnReason | null {
+  if (!value) {
+    return null;
+  }
+
+  if (isReturnReason(value)) {
+    return value;
+  }
+
+  return shopifyReturnReasons[value.toUpperCase()] ?? null;
+}
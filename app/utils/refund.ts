@@ -0,0 +1,18 @@
+export const REFUND_STATUSES = ["refunded", "partial", "failed"] as const;
+
+export type RefundStatus = (typeof REFUND_STATUSES)[number];
+
+export const refundStatusLabels: Record<RefundStatus, string> = {
+  refunded: "Refunded",
+  partial: "Partially refunded",
+  failed: "Refund failed",
+};
+
+export function isRefundStatus(value: string): value is RefundStatus {
+  return (REFUND_STATUSES as readonly string[]).includes(value);
+}
+
+// Partial and failed refunds can be retried from the returns list.
+export function canRetryRefund(status: string | null): boolean {
+  return status === "partial" || status === "failed";
+}
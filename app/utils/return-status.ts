@@ -0,0 +1,118 @@
+export const RETURN_STATUSES = [
+  "pending",
+  "approved",
+  "awaiting_shipment",
+  "in_transit",
+  "received",
+  "inspected",
+  "refunded",
+  "completed",
+  "declined",
+  "cancelled",
+] as const;
+
+export type ReturnStatus = (typeof RETURN_STATUSES)[number];
+
+export const returnStatusLabels: Record<ReturnStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  awaiting_shipment: "Awaiting shipment",
+  in_transit: "In transit",
+  received: "Received",
+  inspected: "Inspected",
+  refunded: "Refunded",
+  completed: "Completed",
+  declined: "Declined",
+  cancelled: "Cancelled",
+};
+
+export const returnStatusTones: Record<
+  ReturnStatus,
+  "info" | "success" | "warning" | "critical" | "attention"
+> = {
+  pending: "attention",
+  approved: "info",
+  awaiting_shipment: "info",
+  in_transit: "info",
+  received: "info",
+  inspected: "info",
+  refunded: "success",
+  completed: "success",
+  declined: "critical",
+  cancelled: "warning",
+};
+
+// Where each status may go next. Approved returns can skip ahead because
+// returnless returns never ship and not every shipment is tracked, and any
+// open return can be closed from Shopify.
+export const RETURN_TRANSITIONS: Record<ReturnStatus, readonly ReturnStatus[]> = {
+  pending: ["approved", "declined", "cancelled"],
+  approved: [
+    "awaiting_shipment",
+    "in_transit",
+    "received",
+    "refunded",
+    "completed",
+    "declined",
+    "cancelled",
+  ],
+  awaiting_shipment: ["in_transit", "received", "completed", "cancelled"],
+  in_transit: ["received", "completed"],
+  received: ["inspected", "refunded", "completed"],
+  inspected: ["refunded", "completed"],
+  refunded: ["completed"],
+  completed: [],
+  declined: [],
+  cancelled: [],
+};
+
+// Accepted by the merchant and not yet closed.
+export const OPEN_RETURN_STATUSES: readonly ReturnStatus[] = [
+  "approved",
+  "awaiting_shipment",
+  "in_transit",
+  "received",
+  "inspected",
+  "refunded",
+];
+
+export const ACCEPTED_RETURN_STATUSES: readonly ReturnStatus[] = [
+  ...OPEN_RETURN_STATUSES,
+  "completed",
+];
+
+export function isReturnStatus(value: string): value is ReturnStatus {
+  return (RETURN_STATUSES as readonly string[]).includes(value);
+}
+
+// Falls back to the raw value for statuses written before this list existed.
+export function getReturnStatusLabel(status: string): string {
+  return isReturnStatus(status) ? returnStatusLabels[status] : status;
+}
+
+export function canTransition(from: string, to: ReturnStatus): boolean {
+  return isReturnStatus(from) && RETURN_TRANSITIONS[from].includes(to);
+}
+
+// Inspecting a parcel that was never marked received also receives it.
+export function canInspectReturn(status: string): boolean {
+  return canTransition(status, "inspected") || canTransition(status, "received");
+}
+
+export const RETURN_ACTORS = ["customer", "merchant", "system", "shopify", "carrier"] as const;
+
+export type ReturnActorType = (typeof RETURN_ACTORS)[number];
+
+export const returnActorLabels: Record<ReturnActorType, string> = {
+  customer: "Customer",
+  merchant: "Staff",
+  system: "Returns Hub",
+  shopify: "Shopify",
+  carrier: "Carrier",
+};
+
+export interface ReturnActor {
+  type: ReturnActorType;
+  // Staff email, carrier name or similar when known.
+  name?: string | null;
+}
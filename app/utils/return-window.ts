@@ -0,0 +1,17 @@
+export const WINDOW_RULE_TYPES = ["product_type", "collection"] as const;
+
+export type WindowRuleType = (typeof WINDOW_RULE_TYPES)[number];
+
+export const windowRuleTypeLabels: Record<WindowRuleType, string> = {
+  product_type: "Product type",
+  collection: "Collection",
+};
+
+export function isWindowRuleType(value: string): value is WindowRuleType {
+  return (WINDOW_RULE_TYPES as readonly string[]).includes(value);
+}
+
+// Product types and collection handles are matched case-insensitively.
+export function normalizeWindowRuleValue(value: string): string {
+  return value.trim().toLowerCase();
+}
@@ -0,0 +1,55 @@
+export const RISK_LEVELS = ["low", "medium", "high", "very_high"] as const;
+
+export type RiskLevel = (typeof RISK_LEVELS)[number];
+
+export type RiskFactorCode =
+  | "return_rate_elevated"
+  | "return_rate_high"
+  | "frequent_returns_30d"
+  | "frequent_returns_90d"
+  | "repeat_product"
+  | "reason_pattern";
+
+export interface RiskFactor {
+  code: RiskFactorCode;
+  label: string;
+  points: number;
+}
+
+export const riskLevelLabels: Record<RiskLevel, string> = {
+  low: "Low risk",
+  medium: "Medium risk",
+  high: "High risk",
+  very_high: "Very high risk",
+};
+
+// Score bands from ROADMAP 3.1: 0-30 low, 31-60 medium, 61-80 high, 81-100 very high.
+export function getRiskLevel(score: number): RiskLevel {
+  if (score > 80) return "very_high";
+  if (score > 60) return "high";
+  if (score > 30) return "medium";
+  return "low";
+}
+
+export function isRiskLevel(value: string): value is RiskLevel {
+  return (RISK_LEVELS as readonly string[]).includes(value);
+}
+
+// True when the score's level is at or below the given maximum level.
+export function isWithinRiskLevel(score: number, maxLevel: string): boolean {
+  const max = isRiskLevel(maxLevel) ? maxLevel : "medium";
+  return RISK_LEVELS.indexOf(getRiskLevel(score)) <= RISK_LEVELS.indexOf(max);
+}
+
+export function isRiskFactorList(value: unknown): value is RiskFactor[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (factor) =>
+        typeof factor === "object" &&
+        factor !== null &&
+        typeof factor.label === "string" &&
+        typeof factor.points === "number"
+    )
+  );
+}
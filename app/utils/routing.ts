@@ -0,0 +1,45 @@
+export type ConditionType =
+  | "product_type"
+  | "product_tag"
+  | "sku_contains"
+  | "order_value_above"
+  | "order_value_below"
+  | "return_reason"
+  | "customer_tag"
+  | "product_vendor";
+
+export type ConditionGroupOperator = "AND" | "OR" | "NOT";
+
+export const COMPOSITE_CONDITION_TYPE = "composite";
+
+export interface ConditionLeaf {
+  type: ConditionType;
+  value: string;
+}
+
+export interface ConditionGroup {
+  operator: ConditionGroupOperator;
+  conditions: ConditionNode[];
+}
+
+export type ConditionNode = ConditionLeaf | ConditionGroup;
+
+export function isConditionGroup(node: ConditionNode): node is ConditionGroup {
+  return "operator" in node && Array.isArray((node as ConditionGroup).conditions);
+}
+
+export function describeConditionNode(node: ConditionNode): string {
+  if (!isConditionGroup(node)) {
+    return `${node.type.replace(/_/g, " ")} = ${node.value}`;
+  }
+
+  const parts = node.conditions.map((child) =>
+    isConditionGroup(child) ? `(${describeConditionNode(child)})` : describeConditionNode(child)
+  );
+
+  if (node.operator === "NOT") {
+    return `NOT ${parts.length === 1 ? parts[0] : `(${parts.join(" OR ")})`}`;
+  }
+
+  return parts.join(` ${node.operator} `);
+}
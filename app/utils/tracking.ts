@@ -0,0 +1,73 @@
+export const TRACKING_STATUSES = [
+  "pre_transit",
+  "in_transit",
+  "out_for_delivery",
+  "delivered",
+  "returned",
+  "failure",
+  "unknown",
+] as const;
+
+export type TrackingStatus = (typeof TRACKING_STATUSES)[number];
+
+export const trackingStatusLabels: Record<TrackingStatus, string> = {
+  pre_transit: "Label created",
+  in_transit: "In transit",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  returned: "Returned to sender",
+  failure: "Delivery problem",
+  unknown: "Unknown",
+};
+
+export function isTrackingStatus(value: string): value is TrackingStatus {
+  return (TRACKING_STATUSES as readonly string[]).includes(value);
+}
+
+export function getTrackingStatusLabel(status: string): string {
+  return isTrackingStatus(status) ? trackingStatusLabels[status] : status;
+}
+
+// What happens once every parcel of a return reaches the warehouse.
+export const DELIVERY_ACTIONS = ["none", "restock", "complete"] as const;
+
+export type DeliveryAction = (typeof DELIVERY_ACTIONS)[number];
+
+export const deliveryActionLabels: Record<DeliveryAction, string> = {
+  none: "Mark as received only",
+  restock: "Restock the items",
+  complete: "Complete and refund the return",
+};
+
+export function isDeliveryAction(value: string): value is DeliveryAction {
+  return (DELIVERY_ACTIONS as readonly string[]).includes(value);
+}
+
+// A label is active until it is voided with its provider. Refunds the carrier
+// has to review sit in void_pending until the provider confirms them.
+export const LABEL_STATUSES = ["active", "void_pending", "voided"] as const;
+
+export type LabelStatus = (typeof LABEL_STATUSES)[number];
+
+export const labelStatusLabels: Record<LabelStatus, string> = {
+  active: "Active",
+  void_pending: "Void requested",
+  voided: "Voided",
+};
+
+export function getLabelStatusLabel(status: string): string {
+  return (LABEL_STATUSES as readonly string[]).includes(status)
+    ? labelStatusLabels[status as LabelStatus]
+    : status;
+}
+
+// Once the carrier has scanned a label it has been used and can't be refunded.
+export function isLabelScanned(label: {
+  trackingStatus: string | null;
+  deliveredAt: Date | string | null;
+}): boolean {
+  return (
+    Boolean(label.deliveredAt) ||
+    (label.trackingStatus !== null && label.trackingStatus !== "pre_transit")
+  );
+}
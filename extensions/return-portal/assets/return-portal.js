@@ -5,9 +5,13 @@
     constructor(container) {
       this.container = container;
       this.appUrl = container.dataset.appUrl;
-      this.shop = container.dataset.shop;
       this.currentOrder = null;
+      this.fees = null;
+      this.resolutions = null;
+      this.resolution = 'refund';
       this.selectedItems = new Map();
+      this.returnId = null;
+      this.shop = { credit: 0, cart: new Map(), cursor: null };
       
       this.elements = {
         lookupStep: container.querySelector('[data-step="lookup"]'),
@@ -21,6 +25,43 @@
         submitError: container.querySelector('[data-submit-error]'),
         submitButton: container.querySelector('[data-submit-button]'),
         summaryCount: container.querySelector('[data-summary-count]'),
+        summaryLines: container.querySelector('[data-summary-lines]'),
+        summarySubtotal: container.querySelector('[data-summary-subtotal]'),
+        summaryRestockingLine: container.querySelector('[data-summary-restocking-line]'),
+        summaryRestockingFee: container.querySelector('[data-summary-restocking-fee]'),
+        summaryShippingLine: container.querySelector('[data-summary-shipping-line]'),
+        summaryShippingFee: container.querySelector('[data-summary-shipping-fee]'),
+        summaryTotal: container.querySelector('[data-summary-total]'),
+        summaryFeeNote: container.querySelector('[data-summary-fee-note]'),
+        resolution: container.querySelector('[data-resolution]'),
+        resolutionRefundValue: container.querySelector('[data-resolution-refund-value]'),
+        resolutionCreditValue: container.querySelector('[data-resolution-credit-value]'),
+        resolutionCreditBonus: container.querySelector('[data-resolution-credit-bonus]'),
+        confirmationCredit: container.querySelector('[data-confirmation-credit]'),
+        shopStep: container.querySelector('[data-step="shop"]'),
+        shopNowButton: container.querySelector('[data-shop-now-button]'),
+        shopBack: container.querySelector('[data-shop-back]'),
+        shopBalance: container.querySelector('[data-shop-balance]'),
+        shopBrowse: container.querySelector('[data-shop-browse]'),
+        shopSearchForm: container.querySelector('[data-shop-search-form]'),
+        shopCollection: container.querySelector('[data-shop-collection]'),
+        shopProducts: container.querySelector('[data-shop-products]'),
+        shopEmpty: container.querySelector('[data-shop-empty]'),
+        shopMore: container.querySelector('[data-shop-more]'),
+        shopCartEmpty: container.querySelector('[data-shop-cart-empty]'),
+        shopCartLines: container.querySelector('[data-shop-cart-lines]'),
+        shopQuote: container.querySelector('[data-shop-quote]'),
+        shopQuoteTotal: container.querySelector('[data-shop-quote-total]'),
+        shopQuoteCredit: container.querySelector('[data-shop-quote-credit]'),
+        shopQuoteLabel: container.querySelector('[data-shop-quote-label]'),
+        shopQuoteBalance: container.querySelector('[data-shop-quote-balance]'),
+        shopError: container.querySelector('[data-shop-error]'),
+        shopReview: container.querySelector('[data-shop-review]'),
+        shopConfirm: container.querySelector('[data-shop-confirm]'),
+        shopResult: container.querySelector('[data-shop-result]'),
+        shopResultMessage: container.querySelector('[data-shop-result-message]'),
+        shopInvoice: container.querySelector('[data-shop-invoice]'),
+        productTemplate: container.querySelector('[data-product-template]'),
         orderName: container.querySelector('[data-order-name]'),
         orderDate: container.querySelector('[data-order-date]'),
         returnId: container.querySelector('[data-return-id]'),
@@ -36,6 +77,19 @@
       this.elements.submitButton?.addEventListener('click', () => this.handleSubmit());
       this.elements.backButton?.addEventListener('click', () => this.showStep('lookup'));
       this.elements.restartButton?.addEventListener('click', () => this.reset());
+      this.container.querySelectorAll('[data-resolution-input]').forEach((input) => {
+        input.addEventListener('change', () => this.setResolution(input.value));
+      });
+      this.elements.shopNowButton?.addEventListener('click', () => this.openShop());
+      this.elements.shopBack?.addEventListener('click', () => this.showStep('confirmation'));
+      this.elements.shopSearchForm?.addEventListener('submit', (e) => {
+        e.preventDefault();
+        this.loadCatalog(true);
+      });
+      this.elements.shopCollection?.addEventListener('change', () => this.loadCatalog(true));
+      this.elements.shopMore?.addEventListener('click', () => this.loadCatalog(false));
+      this.elements.shopReview?.addEventListener('click', () => this.submitExchangeCart('quote'));
+      this.elements.shopConfirm?.addEventListener('click', () => this.submitExchangeCart('create'));
     }
 
     async handleLookup(event) {
@@ -55,7 +109,7 @@
         const response = await fetch(`${this.appUrl}/api/customer/lookup`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ orderNumber, email, shop: this.shop })
+          body: JSON.stringify({ orderNumber, email })
         });
 
         const data = await response.json();
@@ -65,7 +119,10 @@
         }
 
         this.currentOrder = data.order;
+        this.fees = data.fees || null;
+        this.resolutions = data.resolutions || null;
         this.renderOrderItems(data.order);
+        this.renderResolutions();
         this.showStep('items');
 
       } catch (error) {
@@ -80,6 +137,7 @@
       this.elements.orderDate.textContent = `Placed on ${this.formatDate(order.createdAt)}`;
       this.elements.itemsContainer.innerHTML = '';
       this.selectedItems.clear();
+      this.updateFeeSummary();
 
       order.lineItems.forEach((item) => {
         const template = this.elements.itemTemplate.content.cloneNode(true);
@@ -96,6 +154,20 @@
         const fields = itemEl.querySelector('[data-item-fields]');
         const reason = itemEl.querySelector('[data-item-reason]');
         const notes = itemEl.querySelector('[data-item-notes]');
+        const ineligible = itemEl.querySelector('[data-item-ineligible]');
+        const deadline = itemEl.querySelector('[data-item-deadline]');
+        const returnQuantityGroup = itemEl.querySelector('[data-item-return-quantity-group]');
+        const returnQuantity = itemEl.querySelector('[data-item-return-quantity]');
+        const exchange = itemEl.querySelector('[data-item-exchange]');
+        const exchangeAlternative = itemEl.querySelector('[data-item-exchange-alternative]');
+        const exchangeVariants = item.exchangeVariants || [];
+        const findVariant = (id) => exchangeVariants.find((variant) => variant.id === id) || null;
+
+        exchangeVariants.forEach((variant) => {
+          const label = `${variant.title} (${this.formatMoney(variant.price)})`;
+          exchange.add(new Option(label, variant.id));
+          exchangeAlternative.add(new Option(label, variant.id));
+        });
 
         if (item.image) {
           image.src = item.image;
@@ -106,7 +178,9 @@
 
         title.textContent = item.title;
         variant.textContent = item.variantTitle || '';
-        quantity.textContent = `Qty: ${item.quantity}`;
+        quantity.textContent = item.returnedQuantity
+          ? `Qty: ${item.quantity} (${item.returnedQuantity} already returned)`
+          : `Qty: ${item.quantity}`;
         price.textContent = this.formatMoney(item.price);
 
         if (item.alreadyReturned) {
@@ -115,22 +189,57 @@
           variant.textContent += ' (Already returned)';
         }
 
+        if (item.quantity > 1) {
+          for (let count = item.quantity; count >= 1; count--) {
+            returnQuantity.add(new Option(String(count), String(count)));
+          }
+          returnQuantityGroup.classList.remove('return-portal__hidden');
+        }
+
+        if (item.eligible !== false && item.returnDeadline) {
+          deadline.textContent = `Return by ${this.formatDate(item.returnDeadline)}`;
+          deadline.classList.remove('return-portal__hidden');
+        }
+
+        if (item.ineligibleReason) {
+          checkbox.disabled = true;
+          itemEl.classList.add('return-portal__item--ineligible');
+          ineligible.textContent = item.ineligibleReason;
+          ineligible.classList.remove('return-portal__hidden');
+        }
+
         checkbox.addEventListener('change', () => {
           if (checkbox.checked) {
-            this.selectedItems.set(item.id, { item, reason: '', notes: '' });
+            this.selectedItems.set(item.id, {
+              item,
+              quantity: Number(returnQuantity.value) || item.quantity,
+              reason: '',
+              notes: '',
+              exchangeVariant: findVariant(exchange.value),
+              exchangeAlternative: findVariant(exchangeAlternative.value)
+            });
             fields.classList.remove('return-portal__hidden');
           } else {
             this.selectedItems.delete(item.id);
             fields.classList.add('return-portal__hidden');
             reason.value = '';
             notes.value = '';
+            exchange.value = '';
+            exchangeAlternative.value = '';
           }
           this.updateSummary();
         });
 
+        returnQuantity.addEventListener('change', () => {
+          const selected = this.selectedItems.get(item.id);
+          if (selected) selected.quantity = Number(returnQuantity.value);
+          this.updateSummary();
+        });
+
         reason.addEventListener('change', () => {
           const selected = this.selectedItems.get(item.id);
           if (selected) selected.reason = reason.value;
+          this.updateSummary();
         });
 
         notes.addEventListener('input', () => {
@@ -138,6 +247,21 @@
           if (selected) selected.notes = notes.value;
         });
 
+        exchange.addEventListener('change', () => {
+          const selected = this.selectedItems.get(item.id);
+          if (selected) {
+            selected.exchangeVariant = findVariant(exchange.value);
+          }
+        });
+
+        // Used if the first choice sells out before the exchange is placed
+        exchangeAlternative.addEventListener('change', () => {
+          const selected = this.selectedItems.get(item.id);
+          if (selected) {
+            selected.exchangeAlternative = findVariant(exchangeAlternative.value);
+          }
+        });
+
         this.elements.itemsContainer.appendChild(template);
       });
     }
@@ -146,6 +270,77 @@
       const count = this.selectedItems.size;
       this.elements.summaryCount.textContent = `${count} item(s) selected`;
       this.elements.submitButton.disabled = count === 0;
+      this.updateFeeSummary();
+    }
+
+    // Mirrors the fee rules the app applies on submission, so the estimate
+    // matches the refund unless the order is discounted.
+    updateFeeSummary() {
+      const { summaryLines } = this.elements;
+      if (!summaryLines) return;
+
+      const items = Array.from(this.selectedItems.values());
+      summaryLines.classList.toggle('return-portal__hidden', items.length === 0);
+      if (items.length === 0) return;
+
+      const fees = this.fees || { restockingFeePercent: 0, returnShippingFee: 0, waivedReasons: [], exempt: false };
+      const isWaived = ({ reason }) => Boolean(reason) && fees.waivedReasons.includes(reason);
+      const valueOf = ({ item, quantity }) => item.price * quantity;
+
+      const subtotal = items.reduce((sum, selected) => sum + valueOf(selected), 0);
+      const feeable = items
+        .filter((selected) => !isWaived(selected))
+        .reduce((sum, selected) => sum + valueOf(selected), 0);
+      const restockingFee = Math.round(feeable * fees.restockingFeePercent) / 100;
+      const shippingFee = items.every(isWaived) ? 0 : fees.returnShippingFee;
+      const total = Math.max(subtotal - restockingFee - shippingFee, 0);
+
+      this.elements.summarySubtotal.textContent = this.formatMoney(subtotal);
+      this.elements.summaryRestockingFee.textContent = `-${this.formatMoney(restockingFee)}`;
+      this.elements.summaryRestockingLine.classList.toggle('return-portal__hidden', restockingFee <= 0);
+      this.elements.summaryShippingFee.textContent = `-${this.formatMoney(shippingFee)}`;
+      this.elements.summaryShippingLine.classList.toggle('return-portal__hidden', shippingFee <= 0);
+      this.elements.summaryTotal.textContent = this.formatMoney(total);
+      this.elements.summaryFeeNote?.classList.toggle('return-portal__hidden', !fees.exempt);
+      this.updateResolutionValues(total);
+    }
+
+    // Offers only the resolutions the store allows. Refunds are always
+    // available, so the choice is hidden when they are the only option.
+    renderResolutions() {
+      const options = this.resolutions?.options || ['refund'];
+      this.elements.resolution?.classList.toggle('return-portal__hidden', options.length <= 1);
+      this.container.querySelectorAll('[data-resolution-option]').forEach((option) => {
+        option.classList.toggle('return-portal__hidden', !options.includes(option.dataset.resolutionOption));
+      });
+      this.setResolution('refund');
+    }
+
+    setResolution(resolution) {
+      this.resolution = resolution;
+      this.container.querySelectorAll('[data-resolution-input]').forEach((input) => {
+        input.checked = input.value === resolution;
+      });
+      this.elements.itemsContainer.querySelectorAll('[data-item-exchange-group]').forEach((group) => {
+        group.classList.toggle('return-portal__hidden', resolution !== 'exchange');
+      });
+    }
+
+    // Store credit is worth the refund plus the store's bonus.
+    updateResolutionValues(refund) {
+      const bonusPercent = this.resolutions?.storeCreditBonusPercent || 0;
+      const bonus = refund * (bonusPercent / 100);
+
+      if (this.elements.resolutionRefundValue) {
+        this.elements.resolutionRefundValue.textContent = this.formatMoney(refund);
+      }
+      if (this.elements.resolutionCreditValue) {
+        this.elements.resolutionCreditValue.textContent = this.formatMoney(refund + bonus);
+      }
+      if (this.elements.resolutionCreditBonus) {
+        this.elements.resolutionCreditBonus.textContent = `Includes a ${bonusPercent}% bonus (${this.formatMoney(bonus)})`;
+        this.elements.resolutionCreditBonus.classList.toggle('return-portal__hidden', bonus <= 0);
+      }
     }
 
     async handleSubmit() {
@@ -162,6 +357,11 @@
         return;
       }
 
+      if (this.resolution === 'exchange' && items.some(({ exchangeVariant }) => !exchangeVariant)) {
+        this.showError(this.elements.submitError, 'Please select a replacement for each item you want to exchange.');
+        return;
+      }
+
       this.setLoading(this.elements.submitButton, true);
       this.hideError(this.elements.submitError);
 
@@ -170,22 +370,24 @@
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            shop: this.shop,
             orderId: this.currentOrder.id,
             orderName: this.currentOrder.name,
             customerEmail: this.currentOrder.email,
             customerName: this.currentOrder.customerName,
-            items: items.map(({ item, reason, notes }) => ({
+            resolution: this.resolution,
+            items: items.map(({ item, quantity, reason, notes, exchangeVariant, exchangeAlternative }) => ({
               lineItemId: item.id,
-              variantId: item.variantId,
-              productId: item.productId,
               title: item.title,
               variantTitle: item.variantTitle,
-              sku: item.sku,
-              quantity: item.quantity,
-              price: item.price,
+              quantity,
               reason,
-              notes
+              notes,
+              ...(this.resolution === 'exchange' && exchangeVariant
+                ? { exchangeVariantId: exchangeVariant.id }
+                : {}),
+              ...(this.resolution === 'exchange' && exchangeAlternative && exchangeAlternative.id !== exchangeVariant?.id
+                ? { exchangeAlternativeVariantId: exchangeAlternative.id }
+                : {})
             }))
           })
         });
@@ -196,7 +398,10 @@
           throw new Error(data.error || 'Failed to submit return request');
         }
 
+        this.returnId = data.returnId;
         this.elements.returnId.textContent = `Return ID: ${data.returnId}`;
+        this.renderConfirmationCredit(data.resolution?.storeCredit);
+        this.elements.shopNowButton?.classList.toggle('return-portal__hidden', !data.shopNow);
         this.showStep('confirmation');
 
       } catch (error) {
@@ -206,14 +411,249 @@
       }
     }
 
+    renderConfirmationCredit(storeCredit) {
+      const { confirmationCredit } = this.elements;
+      if (!confirmationCredit) return;
+
+      confirmationCredit.classList.toggle('return-portal__hidden', !storeCredit);
+      if (!storeCredit) return;
+
+      confirmationCredit.textContent = storeCredit.bonusValue > 0
+        ? `You'll receive ${this.formatMoney(storeCredit.totalValue)} in store credit, including a ${this.formatMoney(storeCredit.bonusValue)} bonus.`
+        : `You'll receive ${this.formatMoney(storeCredit.totalValue)} in store credit.`;
+    }
+
+    // Shop-now exchanges: the customer spends the return's value on anything
+    // in the catalog. Prices shown here are a guide; the app reprices the cart
+    // from Shopify before the exchange is placed.
+    openShop() {
+      this.shop = { credit: 0, cart: new Map(), cursor: null };
+      this.elements.shopBrowse?.classList.remove('return-portal__hidden');
+      this.elements.shopResult?.classList.add('return-portal__hidden');
+      this.elements.shopSearchForm?.reset();
+      this.renderCart();
+      this.showStep('shop');
+      this.loadCatalog(true);
+    }
+
+    async postExchange(path, body) {
+      const response = await fetch(`${this.appUrl}/api/customer/exchange/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ returnId: this.returnId, email: this.currentOrder.email, ...body })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Something went wrong');
+      }
+      return data;
+    }
+
+    async loadCatalog(reset) {
+      const { shopSearchForm, shopProducts, shopMore, shopEmpty } = this.elements;
+      const filters = new FormData(shopSearchForm);
+
+      if (reset) {
+        this.shop.cursor = null;
+        shopProducts.innerHTML = '';
+      }
+
+      this.setLoading(shopMore, true);
+      this.hideError(this.elements.shopError);
+
+      try {
+        const data = await this.postExchange('catalog', {
+          search: filters.get('search')?.toString() || undefined,
+          collectionId: filters.get('collectionId')?.toString() || undefined,
+          cursor: this.shop.cursor || undefined
+        });
+
+        this.shop.credit = data.credit;
+        this.shop.cursor = data.pageInfo.hasNextPage ? data.pageInfo.endCursor : null;
+
+        if (data.collections && this.elements.shopCollection.options.length === 1) {
+          data.collections.forEach((collection) => {
+            this.elements.shopCollection.add(new Option(collection.title, collection.id));
+          });
+        }
+
+        data.products.forEach((product) => this.renderProduct(product));
+        shopEmpty.classList.toggle('return-portal__hidden', shopProducts.children.length > 0);
+        shopMore.classList.toggle('return-portal__hidden', !this.shop.cursor);
+        this.updateShopCredit();
+      } catch (error) {
+        this.showError(this.elements.shopError, error.message);
+      } finally {
+        this.setLoading(shopMore, false);
+      }
+    }
+
+    renderProduct(product) {
+      const template = this.elements.productTemplate.content.cloneNode(true);
+      const productEl = template.querySelector('[data-product]');
+      const image = productEl.querySelector('[data-product-image]');
+      const variantSelect = productEl.querySelector('[data-product-variant]');
+      const price = productEl.querySelector('[data-product-price]');
+      const add = productEl.querySelector('[data-product-add]');
+
+      productEl.querySelector('[data-product-title]').textContent = product.title;
+      if (product.imageUrl) {
+        image.src = product.imageUrl;
+        image.alt = product.title;
+      } else {
+        image.style.display = 'none';
+      }
+
+      if (product.variants.length > 1) {
+        product.variants.forEach((variant) => variantSelect.add(new Option(variant.title, variant.id)));
+        variantSelect.classList.remove('return-portal__hidden');
+      }
+
+      const selectedVariant = () =>
+        product.variants.find((variant) => variant.id === variantSelect.value) || product.variants[0];
+
+      const update = () => {
+        const variant = selectedVariant();
+        productEl.dataset.price = String(variant.price);
+        price.textContent = this.formatMoney(variant.price);
+        this.updateProductCredit(productEl);
+      };
+
+      variantSelect.addEventListener('change', update);
+      add.addEventListener('click', () => {
+        const variant = selectedVariant();
+        const line = this.shop.cart.get(variant.id);
+        if (line) {
+          line.quantity += 1;
+        } else {
+          this.shop.cart.set(variant.id, {
+            variantId: variant.id,
+            title: product.title,
+            variantTitle: product.variants.length > 1 ? variant.title : '',
+            price: variant.price,
+            quantity: 1
+          });
+        }
+        this.renderCart();
+      });
+
+      this.elements.shopProducts.appendChild(template);
+      update();
+    }
+
+    cartTotal() {
+      return Array.from(this.shop.cart.values()).reduce((sum, line) => sum + line.price * line.quantity, 0);
+    }
+
+    // Every product shows what adding it would leave of the credit, or what
+    // the customer would pay on top.
+    updateProductCredit(productEl) {
+      const credit = productEl.querySelector('[data-product-credit]');
+      const remaining = this.shop.credit - this.cartTotal() - Number(productEl.dataset.price);
+
+      credit.classList.toggle('return-portal__product-credit--over', remaining < 0);
+      credit.textContent = remaining >= 0
+        ? `${this.formatMoney(remaining)} credit left after this`
+        : `You'd pay ${this.formatMoney(-remaining)}`;
+    }
+
+    updateShopCredit() {
+      const remaining = Math.max(this.shop.credit - this.cartTotal(), 0);
+      this.elements.shopBalance.textContent = `Credit remaining: ${this.formatMoney(remaining)} of ${this.formatMoney(this.shop.credit)}`;
+      this.elements.shopProducts.querySelectorAll('[data-product]').forEach((productEl) => {
+        this.updateProductCredit(productEl);
+      });
+    }
+
+    renderCart() {
+      const { shopCartLines, shopCartEmpty, shopReview } = this.elements;
+      const lines = Array.from(this.shop.cart.values());
+
+      // Any change to the cart needs a fresh quote before it can be placed.
+      this.elements.shopQuote.classList.add('return-portal__hidden');
+      this.elements.shopConfirm.classList.add('return-portal__hidden');
+      shopReview.classList.remove('return-portal__hidden');
+      shopReview.disabled = lines.length === 0;
+      shopCartEmpty.classList.toggle('return-portal__hidden', lines.length > 0);
+      shopCartLines.innerHTML = '';
+
+      lines.forEach((line) => {
+        const row = document.createElement('div');
+        row.className = 'return-portal__cart-line';
+
+        const label = document.createElement('span');
+        label.textContent = `${line.quantity} × ${line.title}${line.variantTitle ? ` - ${line.variantTitle}` : ''}`;
+
+        const remove = document.createElement('button');
+        remove.type = 'button';
+        remove.className = 'return-portal__button return-portal__button--ghost';
+        remove.textContent = 'Remove';
+        remove.addEventListener('click', () => {
+          this.shop.cart.delete(line.variantId);
+          this.renderCart();
+        });
+
+        row.append(label, remove);
+        shopCartLines.appendChild(row);
+      });
+
+      this.updateShopCredit();
+    }
+
+    async submitExchangeCart(intent) {
+      const button = intent === 'quote' ? this.elements.shopReview : this.elements.shopConfirm;
+      const cart = Array.from(this.shop.cart.values()).map(({ variantId, quantity }) => ({ variantId, quantity }));
+
+      this.setLoading(button, true);
+      this.hideError(this.elements.shopError);
+
+      try {
+        const data = await this.postExchange('cart', { intent, cart });
+
+        if (intent === 'quote') {
+          this.renderQuote(data.quote);
+          return;
+        }
+
+        this.elements.shopBrowse.classList.add('return-portal__hidden');
+        this.elements.shopResult.classList.remove('return-portal__hidden');
+        this.elements.shopResultMessage.textContent = data.message;
+        this.elements.shopNowButton?.classList.add('return-portal__hidden');
+
+        const invoiceUrl = data.exchangeOrder?.invoiceUrl;
+        this.elements.shopInvoice.classList.toggle('return-portal__hidden', !invoiceUrl);
+        if (invoiceUrl) this.elements.shopInvoice.href = invoiceUrl;
+      } catch (error) {
+        this.showError(this.elements.shopError, error.message);
+      } finally {
+        this.setLoading(button, false);
+      }
+    }
+
+    renderQuote(quote) {
+      this.elements.shopQuoteTotal.textContent = this.formatMoney(quote.cartTotal);
+      this.elements.shopQuoteCredit.textContent = `-${this.formatMoney(quote.discountApplied)}`;
+      this.elements.shopQuoteLabel.textContent = quote.customerOwes ? 'You pay' : 'Credit left over';
+      this.elements.shopQuoteBalance.textContent = this.formatMoney(quote.customerOwes ? quote.amountDue : quote.remainingCredit);
+      this.elements.shopQuote.classList.remove('return-portal__hidden');
+      this.elements.shopReview.classList.add('return-portal__hidden');
+      this.elements.shopConfirm.classList.remove('return-portal__hidden');
+    }
+
     showStep(step) {
       this.elements.lookupStep.classList.toggle('return-portal__hidden', step !== 'lookup');
       this.elements.itemsStep.classList.toggle('return-portal__hidden', step !== 'items');
       this.elements.confirmationStep.classList.toggle('return-portal__hidden', step !== 'confirmation');
+      this.elements.shopStep?.classList.toggle('return-portal__hidden', step !== 'shop');
     }
 
     reset() {
       this.currentOrder = null;
+      this.fees = null;
+      this.resolutions = null;
+      this.resolution = 'refund';
+      this.returnId = null;
+      this.shop = { credit: 0, cart: new Map(), cursor: null };
       this.selectedItems.clear();
       this.elements.lookupForm.reset();
       this.elements.itemsContainer.innerHTML = '';
@@ -0,0 +1,44 @@
+-- DropIndex
+DROP INDEX "ShippingLabel_returnRequestId_key";
+
+-- AlterTable
+ALTER TABLE "ReturnItem" ADD COLUMN     "shipmentId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ShippingLabel" ADD COLUMN     "shipmentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReturnShipment" (
+    "id" TEXT NOT NULL,
+    "returnRequestId" TEXT NOT NULL,
+    "destinationId" TEXT,
+    "routingRuleId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReturnShipment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReturnItem_shipmentId_idx" ON "ReturnItem"("shipmentId");
+
+-- CreateIndex
+CREATE INDEX "ReturnShipment_returnRequestId_idx" ON "ReturnShipment"("returnRequestId");
+
+-- CreateIndex
+CREATE INDEX "ShippingLabel_returnRequestId_idx" ON "ShippingLabel"("returnRequestId");
+
+-- CreateIndex
+CREATE INDEX "ShippingLabel_shipmentId_idx" ON "ShippingLabel"("shipmentId");
+
+-- AddForeignKey
+ALTER TABLE "ReturnItem" ADD CONSTRAINT "ReturnItem_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "ReturnShipment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReturnShipment" ADD CONSTRAINT "ReturnShipment_returnRequestId_fkey" FOREIGN KEY ("returnRequestId") REFERENCES "ReturnRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReturnShipment" ADD CONSTRAINT "ReturnShipment_destinationId_fkey" FOREIGN KEY ("destinationId") REFERENCES "ReturnDestination"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShippingLabel" ADD CONSTRAINT "ShippingLabel_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "ReturnShipment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "ReturnDestination" ADD COLUMN     "destinationType" TEXT NOT NULL DEFAULT 'warehouse';
+
+-- AlterTable
+ALTER TABLE "ReturnItem" ADD COLUMN     "dispositionReason" TEXT,
+ADD COLUMN     "dispositionReference" TEXT,
+ADD COLUMN     "dispositionType" TEXT,
+ADD COLUMN     "dispositionedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "DispositionRule" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "conditions" JSONB NOT NULL,
+    "dispositionType" TEXT NOT NULL,
+    "outletDiscountPercent" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DispositionRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DispositionRule_shop_idx" ON "DispositionRule"("shop");
+
+-- CreateIndex
+CREATE INDEX "DispositionRule_priority_idx" ON "DispositionRule"("priority");
+
+-- AddForeignKey
+ALTER TABLE "DispositionRule" ADD CONSTRAINT "DispositionRule_shop_fkey" FOREIGN KEY ("shop") REFERENCES "ShopSettings"("shop") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ReturnItem" ADD COLUMN     "discrepancy" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "inspectedAt" TIMESTAMP(3),
+ADD COLUMN     "inspectionNotes" TEXT,
+ADD COLUMN     "quantityReceived" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ReturnRequest" ADD COLUMN     "inspectedAt" TIMESTAMP(3);
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "returnlessEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "returnlessThreshold" DOUBLE PRECISION NOT NULL DEFAULT 15,
+ADD COLUMN     "returnlessReasons" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "returnlessMaxPerCustomer" INTEGER,
+ADD COLUMN     "returnlessPeriodDays" INTEGER NOT NULL DEFAULT 30;
+
+-- AlterTable
+ALTER TABLE "ReturnRequest" ADD COLUMN     "isReturnless" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "returnlessReason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ReturnRequest_shop_customerEmail_idx" ON "ReturnRequest"("shop", "customerEmail");
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "autoApproveMaxRiskLevel" TEXT NOT NULL DEFAULT 'medium';
+
+-- AlterTable
+ALTER TABLE "ReturnRequest" ADD COLUMN     "flaggedForReview" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "riskFactors" JSONB,
+ADD COLUMN     "riskScore" INTEGER;
+
+-- CreateTable
+CREATE TABLE "CustomerReturnProfile" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "customerEmail" TEXT NOT NULL,
+    "totalOrders" INTEGER NOT NULL DEFAULT 0,
+    "totalReturns" INTEGER NOT NULL DEFAULT 0,
+    "returnRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalRefunded" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "lastReturnDate" TIMESTAMP(3),
+    "riskScore" INTEGER NOT NULL DEFAULT 0,
+    "riskFactors" JSONB NOT NULL DEFAULT '[]',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomerReturnProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerReturnProfile_shop_customerEmail_key" ON "CustomerReturnProfile"("shop", "customerEmail");
+
+-- CreateIndex
+CREATE INDEX "CustomerReturnProfile_shop_riskScore_idx" ON "CustomerReturnProfile"("shop", "riskScore");
+
+-- AddForeignKey
+ALTER TABLE "CustomerReturnProfile" ADD CONSTRAINT "CustomerReturnProfile_shop_fkey" FOREIGN KEY ("shop") REFERENCES "ShopSettings"("shop") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "maxReturnsPerCustomer" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ReturnBlocklistEntry" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReturnBlocklistEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReturnBlocklistEntry_shop_type_value_key" ON "ReturnBlocklistEntry"("shop", "type", "value");
+
+-- CreateIndex
+CREATE INDEX "ReturnBlocklistEntry_shop_idx" ON "ReturnBlocklistEntry"("shop");
+
+-- AddForeignKey
+ALTER TABLE "ReturnBlocklistEntry" ADD CONSTRAINT "ReturnBlocklistEntry_shop_fkey" FOREIGN KEY ("shop") REFERENCES "ShopSettings"("shop") ON DELETE RESTRICT ON UPDATE CASCADE;
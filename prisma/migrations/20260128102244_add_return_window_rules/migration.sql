@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "holidayReturnDeadline" TIMESTAMP(3),
+ADD COLUMN     "holidayWindowEnd" TIMESTAMP(3),
+ADD COLUMN     "holidayWindowStart" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ReturnWindowRule" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "windowDays" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReturnWindowRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReturnWindowRule_shop_type_value_key" ON "ReturnWindowRule"("shop", "type", "value");
+
+-- CreateIndex
+CREATE INDEX "ReturnWindowRule_shop_idx" ON "ReturnWindowRule"("shop");
+
+-- AddForeignKey
+ALTER TABLE "ReturnWindowRule" ADD CONSTRAINT "ReturnWindowRule_shop_fkey" FOREIGN KEY ("shop") REFERENCES "ShopSettings"("shop") ON DELETE RESTRICT ON UPDATE CASCADE;
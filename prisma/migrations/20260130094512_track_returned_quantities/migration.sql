@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ReturnRequest" ADD COLUMN     "shopifyReturnId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ReturnRequest_shopifyReturnId_idx" ON "ReturnRequest"("shopifyReturnId");
+
+-- CreateIndex
+CREATE INDEX "ReturnItem_shopifyLineItemId_idx" ON "ReturnItem"("shopifyLineItemId");
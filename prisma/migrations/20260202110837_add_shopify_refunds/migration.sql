@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "refundShipping" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "restockingFeePercent" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "ReturnRequest" ADD COLUMN     "outstandingRefund" JSONB,
+ADD COLUMN     "refundAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "refundError" TEXT,
+ADD COLUMN     "refundStatus" TEXT,
+ADD COLUMN     "refundedAmount" DOUBLE PRECISION,
+ADD COLUMN     "refundedAt" TIMESTAMP(3),
+ADD COLUMN     "refundedShipping" DOUBLE PRECISION,
+ADD COLUMN     "restockingFee" DOUBLE PRECISION,
+ADD COLUMN     "shopifyRefundId" TEXT;
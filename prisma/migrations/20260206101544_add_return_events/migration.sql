@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ReturnEvent" (
+    "id" TEXT NOT NULL,
+    "returnRequestId" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "actorName" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReturnEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReturnEvent_returnRequestId_createdAt_idx" ON "ReturnEvent"("returnRequestId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ReturnEvent" ADD CONSTRAINT "ReturnEvent_returnRequestId_fkey" FOREIGN KEY ("returnRequestId") REFERENCES "ReturnRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Record where existing returns stand so every timeline has a starting point.
+INSERT INTO "ReturnEvent" ("id", "returnRequestId", "fromStatus", "toStatus", "actor", "reason", "createdAt")
+SELECT 'evt_' || "id", "id", NULL, "status", 'system', 'Status before history was recorded', "updatedAt"
+FROM "ReturnRequest";
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "deliveryAction" TEXT NOT NULL DEFAULT 'none';
+
+-- AlterTable
+ALTER TABLE "ShippingLabel" ADD COLUMN "trackingStatus" TEXT,
+ADD COLUMN "trackingUpdatedAt" TIMESTAMP(3),
+ADD COLUMN "deliveredAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "TrackingCheckpoint" (
+    "id" TEXT NOT NULL,
+    "labelId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "carrierStatus" TEXT,
+    "description" TEXT,
+    "location" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TrackingCheckpoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShippingLabel_trackingNumber_idx" ON "ShippingLabel"("trackingNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TrackingCheckpoint_labelId_occurredAt_status_key" ON "TrackingCheckpoint"("labelId", "occurredAt", "status");
+
+-- CreateIndex
+CREATE INDEX "TrackingCheckpoint_labelId_occurredAt_idx" ON "TrackingCheckpoint"("labelId", "occurredAt");
+
+-- AddForeignKey
+ALTER TABLE "TrackingCheckpoint" ADD CONSTRAINT "TrackingCheckpoint_labelId_fkey" FOREIGN KEY ("labelId") REFERENCES "ShippingLabel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
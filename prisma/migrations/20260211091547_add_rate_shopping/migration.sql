@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "allowedCarriers" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "maxTransitDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ReturnDestination" ADD COLUMN "preferredService" TEXT;
+
+-- AlterTable
+ALTER TABLE "ShippingLabel" ADD COLUMN "provider" TEXT,
+ADD COLUMN "service" TEXT,
+ADD COLUMN "estimatedDays" INTEGER,
+ADD COLUMN "selectionReason" TEXT,
+ADD COLUMN "rateQuotes" JSONB;
+
+-- Labels bought before rate shopping record which account they came from.
+UPDATE "ShippingLabel" SET "provider" = 'shippo' WHERE "shippoTransactionId" IS NOT NULL;
+UPDATE "ShippingLabel" SET "provider" = 'easypost' WHERE "easypostShipmentId" IS NOT NULL;
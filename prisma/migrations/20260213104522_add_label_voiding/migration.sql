@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "labelExpiryDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ShippingLabel" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'active',
+ADD COLUMN "voidReason" TEXT,
+ADD COLUMN "voidRequestedAt" TIMESTAMP(3),
+ADD COLUMN "voidedAt" TIMESTAMP(3),
+ADD COLUMN "replacesId" TEXT,
+ADD COLUMN "fromAddress" JSONB,
+ADD COLUMN "parcel" JSONB;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShippingLabel_replacesId_key" ON "ShippingLabel"("replacesId");
+
+-- CreateIndex
+CREATE INDEX "ShippingLabel_status_createdAt_idx" ON "ShippingLabel"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ShippingLabel" ADD CONSTRAINT "ShippingLabel_replacesId_fkey" FOREIGN KEY ("replacesId") REFERENCES "ShippingLabel"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ShippingLabel" ADD COLUMN "customs" JSONB;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "qrCodeLabels" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "ShippingLabel" ADD COLUMN "qrCodeUrl" TEXT;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "ShippingLabel" ADD COLUMN "parcelNumber" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "parcelCount" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "packaging" TEXT;
+
+-- CreateTable
+CREATE TABLE "PackagingPreset" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "length" DOUBLE PRECISION NOT NULL,
+    "width" DOUBLE PRECISION NOT NULL,
+    "height" DOUBLE PRECISION NOT NULL,
+    "maxWeight" DOUBLE PRECISION NOT NULL,
+    "boxWeight" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PackagingPreset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PackagingPreset_shop_name_key" ON "PackagingPreset"("shop", "name");
+
+-- CreateIndex
+CREATE INDEX "PackagingPreset_shop_idx" ON "PackagingPreset"("shop");
+
+-- AddForeignKey
+ALTER TABLE "PackagingPreset" ADD CONSTRAINT "PackagingPreset_shop_fkey" FOREIGN KEY ("shop") REFERENCES "ShopSettings"("shop") ON DELETE RESTRICT ON UPDATE CASCADE;
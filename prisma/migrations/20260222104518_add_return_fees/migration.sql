@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "returnShippingFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "feeWaivedReasons" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "feeExemptCustomerTags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "ReturnRequest" ADD COLUMN "returnShippingFee" DOUBLE PRECISION,
+ADD COLUMN "feeWaiver" TEXT;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "ReturnRequest" ADD COLUMN "requestedResolution" TEXT,
+ADD COLUMN "requestedExchange" JSONB,
+ADD COLUMN "resolutionError" TEXT;
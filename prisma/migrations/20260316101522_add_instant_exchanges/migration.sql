@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "instantExchangeEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "instantExchangeMaxRiskLevel" TEXT NOT NULL DEFAULT 'low',
+ADD COLUMN "instantExchangeReturnDays" INTEGER NOT NULL DEFAULT 21;
+
+-- AlterTable
+ALTER TABLE "ReturnRequest" ADD COLUMN "exchangeHoldAmount" DOUBLE PRECISION,
+ADD COLUMN "exchangeHoldStatus" TEXT,
+ADD COLUMN "exchangeHoldDueAt" TIMESTAMP(3),
+ADD COLUMN "exchangeHoldResolvedAt" TIMESTAMP(3),
+ADD COLUMN "exchangeHoldChargeId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ReturnRequest_exchangeHoldStatus_exchangeHoldDueAt_idx" ON "ReturnRequest"("exchangeHoldStatus", "exchangeHoldDueAt");
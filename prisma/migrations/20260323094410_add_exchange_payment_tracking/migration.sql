@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "exchangePaymentDays" INTEGER NOT NULL DEFAULT 7;
+
+-- AlterTable
+ALTER TABLE "ReturnRequest" ADD COLUMN "exchangeOrderStatus" TEXT,
+ADD COLUMN "exchangeOrderUpdatedAt" TIMESTAMP(3),
+ADD COLUMN "exchangeInvoiceUrl" TEXT,
+ADD COLUMN "exchangeAmountDue" DOUBLE PRECISION,
+ADD COLUMN "exchangePaymentDueAt" TIMESTAMP(3),
+ADD COLUMN "exchangePaidAt" TIMESTAMP(3),
+ADD COLUMN "exchangeRemindersSent" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "exchangeLastReminderAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "ReturnRequest_exchangeOrderStatus_exchangePaymentDueAt_idx" ON "ReturnRequest"("exchangeOrderStatus", "exchangePaymentDueAt");
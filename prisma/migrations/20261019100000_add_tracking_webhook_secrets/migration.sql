@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "shippoWebhookToken" TEXT,
+ADD COLUMN "easypostWebhookSecret" TEXT;
@@ -33,7 +33,7 @@ echo ""
 fly secrets set \
     SHOPIFY_API_KEY="$SHOPIFY_API_KEY" \
     SHOPIFY_API_SECRET="$SHOPIFY_API_SECRET" \
-    SCOPES="read_orders,write_orders,read_returns,write_returns,read_fulfillments,write_fulfillments,read_products,read_customers" \
+    SCOPES="read_orders,write_orders,read_returns,write_returns,read_fulfillments,write_fulfillments,read_products,write_products,write_inventory,read_locations,write_files,write_draft_orders,write_gift_cards,read_customers" \
     --app returns-hub
 
 echo ""
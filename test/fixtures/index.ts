@@ -13,11 +13,39 @@ export const mockShopSettings = {
   notifyOnStatusChange: true,
   shippoApiKey: null,
   easypostApiKey: null,
+  shippoWebhookToken: null as string | null,
+  easypostWebhookSecret: null as string | null,
   storeCreditEnabled: true,
   storeCreditBonusPercent: 10,
   storeCreditExpiryDays: null,
   exchangeEnabled: true,
   shopNowExchangeEnabled: true,
+  exchangeReservationDays: 14 as number | null,
+  exchangeReservationLocationId: null as string | null,
+  instantExchangeEnabled: false,
+  instantExchangeMaxRiskLevel: "low",
+  instantExchangeReturnDays: 21,
+  exchangePaymentDays: 7,
+  returnlessEnabled: false,
+  returnlessThreshold: 15,
+  returnlessReasons: [] as string[],
+  returnlessMaxPerCustomer: null as number | null,
+  returnlessPeriodDays: 30,
+  autoApproveMaxRiskLevel: "medium",
+  maxReturnsPerCustomer: null as number | null,
+  holidayWindowStart: null as Date | null,
+  holidayWindowEnd: null as Date | null,
+  holidayReturnDeadline: null as Date | null,
+  refundShipping: false,
+  restockingFeePercent: 0,
+  returnShippingFee: 0,
+  feeWaivedReasons: [] as string[],
+  feeExemptCustomerTags: [] as string[],
+  deliveryAction: "none",
+  allowedCarriers: [] as string[],
+  maxTransitDays: null as number | null,
+  labelExpiryDays: null as number | null,
+  qrCodeLabels: false,
   createdAt: new Date("2024-01-01"),
   updatedAt: new Date("2024-01-01"),
 };
@@ -27,6 +55,7 @@ export const mockReturnRequest = {
   shop: mockShop,
   shopifyOrderId: "gid://shopify/Order/123456",
   shopifyOrderName: "#1001",
+  shopifyReturnId: null as string | null,
   customerEmail: "customer@example.com",
   customerName: "John Doe",
   status: "pending",
@@ -39,11 +68,45 @@ export const mockReturnRequest = {
   exchangeOrderId: null,
   exchangeValueUsed: null,
   exchangeBonusApplied: null,
+  requestedResolution: null as string | null,
+  requestedExchange: null,
+  requestedExchangeType: null as string | null,
+  resolutionError: null as string | null,
+  exchangeHoldAmount: null as number | null,
+  exchangeHoldStatus: null as string | null,
+  exchangeHoldDueAt: null as Date | null,
+  exchangeHoldResolvedAt: null as Date | null,
+  exchangeHoldChargeId: null as string | null,
+  exchangeOrderStatus: null as string | null,
+  exchangeOrderUpdatedAt: null as Date | null,
+  exchangeInvoiceUrl: null as string | null,
+  exchangeAmountDue: null as number | null,
+  exchangePaymentDueAt: null as Date | null,
+  exchangePaidAt: null as Date | null,
+  exchangeRemindersSent: 0,
+  exchangeLastReminderAt: null as Date | null,
   storeCreditIssued: null,
   storeCreditCode: null,
+  isReturnless: false,
+  returnlessReason: null as string | null,
+  riskScore: null as number | null,
+  riskFactors: null,
+  flaggedForReview: false,
+  refundStatus: null as string | null,
+  shopifyRefundId: null as string | null,
+  refundedAmount: null as number | null,
+  refundedShipping: null as number | null,
+  restockingFee: null as number | null,
+  returnShippingFee: null as number | null,
+  feeWaiver: null as string | null,
+  refundError: null as string | null,
+  outstandingRefund: null,
+  refundAttempts: 0,
+  refundedAt: null as Date | null,
   createdAt: new Date("2024-01-15"),
   updatedAt: new Date("2024-01-15"),
   approvedAt: null,
+  inspectedAt: null as Date | null,
   completedAt: null,
 };
 
@@ -59,10 +122,19 @@ export const mockReturnItem = {
   quantity: 1,
   pricePerItem: 99.99,
   reason: "Defective",
-  condition: null,
-  photoUrls: null,
+  condition: null as string | null,
+  photoUrls: null as string | null,
+  quantityReceived: null as number | null,
+  inspectionNotes: null as string | null,
+  discrepancy: false,
+  inspectedAt: null as Date | null,
   restocked: false,
   restockedAt: null,
+  shipmentId: null as string | null,
+  dispositionType: null as string | null,
+  dispositionReason: null as string | null,
+  dispositionReference: null as string | null,
+  dispositionedAt: null as Date | null,
   createdAt: new Date("2024-01-15"),
 };
 
@@ -77,6 +149,8 @@ export const mockReturnDestination = {
   postalCode: "94102",
   country: "US",
   phone: "415-555-1234",
+  destinationType: "warehouse",
+  preferredService: null as string | null,
   isDefault: true,
   createdAt: new Date("2024-01-01"),
   updatedAt: new Date("2024-01-01"),
@@ -90,26 +164,73 @@ export const mockRoutingRule = {
   isActive: true,
   conditionType: "product_type",
   conditionValue: "Electronics",
+  conditions: null as unknown,
   destinationId: "dest_123",
   createdAt: new Date("2024-01-01"),
   updatedAt: new Date("2024-01-01"),
   destination: mockReturnDestination,
 };
 
+export const mockDispositionRule = {
+  id: "disp_rule_123",
+  shop: mockShop,
+  name: "Like-new to outlet",
+  priority: 1,
+  isActive: true,
+  conditions: [{ type: "item_condition", value: "like_new" }] as unknown,
+  dispositionType: "outlet",
+  outletDiscountPercent: 20 as number | null,
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+};
+
 export const mockShippingLabel = {
   id: "label_123",
   returnRequestId: "return_123",
+  shipmentId: null as string | null,
   carrier: "USPS",
   trackingNumber: "9400111899223456789012",
   trackingUrl: "https://tools.usps.com/go/TrackConfirmAction?tLabels=9400111899223456789012",
   labelUrl: "https://shippo.com/labels/abc123.png",
   labelPdfUrl: "https://shippo.com/labels/abc123.pdf",
+  qrCodeUrl: null as string | null,
   shippoTransactionId: "txn_abc123",
-  easypostShipmentId: null,
+  easypostShipmentId: null as string | null,
   cost: 8.50,
+  provider: "shippo" as string | null,
+  service: "Priority Mail" as string | null,
+  estimatedDays: 2 as number | null,
+  selectionReason: "cheapest" as string | null,
+  rateQuotes: null,
+  fromAddress: null,
+  parcel: null,
+  customs: null,
+  parcelNumber: 1,
+  parcelCount: 1,
+  packaging: null as string | null,
+  trackingStatus: null as string | null,
+  trackingUpdatedAt: null as Date | null,
+  deliveredAt: null as Date | null,
+  status: "active",
+  voidReason: null as string | null,
+  voidRequestedAt: null as Date | null,
+  voidedAt: null as Date | null,
+  replacesId: null as string | null,
   createdAt: new Date("2024-01-16"),
 };
 
+export const mockPackagingPreset = {
+  id: "preset_123",
+  shop: mockShop,
+  name: "Medium box",
+  length: 14,
+  width: 10,
+  height: 6,
+  maxWeight: 20,
+  boxWeight: 0.5,
+  createdAt: new Date("2024-01-01"),
+};
+
 export const mockShopifyOrder = {
   id: "gid://shopify/Order/123456",
   name: "#1001",
@@ -196,6 +317,10 @@ export function createMockRoutingRule(overrides: Partial<typeof mockRoutingRule>
   return { ...mockRoutingRule, ...overrides };
 }
 
+export function createMockDispositionRule(overrides: Partial<typeof mockDispositionRule> = {}) {
+  return { ...mockDispositionRule, ...overrides };
+}
+
 export function createMockDestination(overrides: Partial<typeof mockReturnDestination> = {}) {
   return { ...mockReturnDestination, ...overrides };
 }
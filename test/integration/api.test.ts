@@ -15,19 +15,125 @@ vi.mock("../../app/db.server", () => ({
       upsert: vi.fn(),
     },
     returnRequest: {
+      findMany: vi.fn(() => Promise.resolve([])),
+      findFirst: vi.fn(),
       create: vi.fn(),
+      update: vi.fn(),
+    },
+    customerReturnProfile: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
+    returnBlocklistEntry: {
+      findMany: vi.fn(() => Promise.resolve([])),
+    },
+    returnWindowRule: {
+      findMany: vi.fn(() => Promise.resolve([])),
+    },
+    returnItem: {
+      findMany: vi.fn(() => Promise.resolve([])),
+    },
+    shippingLabel: {
+      findFirst: vi.fn(),
     },
   },
 }));
 
+vi.mock("../../app/services/routing.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../app/services/routing.server")>()),
+  routeReturnFromOrder: vi.fn(),
+}));
+
 import { unauthenticated } from "../../app/shopify.server";
 import db from "../../app/db.server";
+import { calculateAppProxySignature } from "../../app/services/app-proxy.server";
+import { MemoryRateLimitStore, setRateLimitStore } from "../../app/services/rate-limit.server";
+import { StubDropOffLocator, setDropOffLocator } from "../../app/services/dropoff.server";
+import { routeReturnFromOrder } from "../../app/services/routing.server";
 
 const mockUnauthenticated = unauthenticated as unknown as { admin: ReturnType<typeof vi.fn> };
 
+const API_SECRET = "test-api-secret";
+
+// Builds a request the way Shopify's app proxy forwards it from the storefront.
+function proxyRequest(path: string, init: RequestInit, shop = "test-shop.myshopify.com") {
+  const query = new URLSearchParams({
+    shop,
+    logged_in_customer_id: "",
+    path_prefix: "/apps/returns-hub",
+    timestamp: Math.floor(Date.now() / 1000).toString(),
+  });
+  query.set("signature", calculateAppProxySignature(query, API_SECRET));
+  return new Request(`http://localhost${path}?${query}`, init);
+}
+
 describe("Customer API Integration", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.stubEnv("SHOPIFY_API_SECRET", API_SECRET);
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  describe("app proxy protection", () => {
+    const lookupInit = {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Forwarded-For": "203.0.113.7" },
+      body: JSON.stringify({ orderNumber: "1001", email: "customer@example.com" }),
+    };
+
+    it("rejects requests that did not come through the app proxy", async () => {
+      const { action } = await import("../../app/routes/api.customer.lookup");
+
+      const response = await action({
+        request: new Request("http://localhost/api/customer/lookup?shop=test-shop.myshopify.com", lookupInit),
+        params: {},
+        context: {},
+      });
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toMatchObject({ code: "invalid_signature" });
+      expect(mockUnauthenticated.admin).not.toHaveBeenCalled();
+    });
+
+    it("rejects a signed request whose shop was changed", async () => {
+      const { action } = await import("../../app/routes/api.customer.returns");
+      const signed = proxyRequest("/api/customer/returns", lookupInit);
+      const url = new URL(signed.url);
+      url.searchParams.set("shop", "other-shop.myshopify.com");
+
+      const response = await action({
+        request: new Request(url, lookupInit),
+        params: {},
+        context: {},
+      });
+
+      expect(response.status).toBe(401);
+      expect(db.returnRequest.create).not.toHaveBeenCalled();
+    });
+
+    it("limits how often one order can be looked up", async () => {
+      mockUnauthenticated.admin.mockResolvedValue({
+        admin: {
+          graphql: vi.fn().mockResolvedValue({
+            json: () => Promise.resolve({ data: { orders: { nodes: [] } } }),
+          }),
+        },
+      });
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({ returnWindowDays: 30 });
+
+      const { action } = await import("../../app/routes/api.customer.lookup");
+      const lookup = () =>
+        action({ request: proxyRequest("/api/customer/lookup", lookupInit), params: {}, context: {} });
+
+      for (let i = 0; i < 10; i++) {
+        expect((await lookup()).status).toBe(404);
+      }
+      const response = await lookup();
+
+      expect(response.status).toBe(429);
+      expect(Number(response.headers.get("Retry-After"))).toBeGreaterThan(0);
+      expect(await response.json()).toMatchObject({ code: "rate_limited" });
+    });
   });
 
   describe("POST /api/customer/lookup", () => {
@@ -48,13 +154,12 @@ describe("Customer API Integration", () => {
 
       const { action } = await import("../../app/routes/api.customer.lookup");
 
-      const request = new Request("http://localhost/api/customer/lookup", {
+      const request = proxyRequest("/api/customer/lookup", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           orderNumber: "9999",
           email: "customer@example.com",
-          shop: "test-shop.myshopify.com",
         }),
       });
 
@@ -88,13 +193,12 @@ describe("Customer API Integration", () => {
 
       const { action } = await import("../../app/routes/api.customer.lookup");
 
-      const request = new Request("http://localhost/api/customer/lookup", {
+      const request = proxyRequest("/api/customer/lookup", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           orderNumber: "1001",
           email: "wrong@example.com",
-          shop: "test-shop.myshopify.com",
         }),
       });
 
@@ -103,10 +207,108 @@ describe("Customer API Integration", () => {
       expect(response.status).toBe(404);
     });
 
+    it("reports return eligibility and deadline for each line item", async () => {
+      const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+      const lineItem = (id: string) => ({
+        id,
+        title: `Product ${id}`,
+        variantTitle: null,
+        quantity: 1,
+        originalUnitPriceSet: { shopMoney: { amount: "20.00" } },
+        image: null,
+        variant: {
+          id: `variant_${id}`,
+          sku: null,
+          product: { id: `product_${id}`, tags: [], productType: "Shirts", collections: { nodes: [] } },
+        },
+      });
+
+      mockUnauthenticated.admin.mockResolvedValue({
+        admin: {
+          graphql: vi.fn().mockResolvedValue({
+            json: () => Promise.resolve({
+              data: {
+                orders: {
+                  nodes: [{
+                    id: "gid://shopify/Order/123",
+                    name: "#1001",
+                    email: "customer@example.com",
+                    createdAt: daysAgo(60),
+                    discountCodes: [],
+                    customer: null,
+                    lineItems: { nodes: [lineItem("line_recent"), lineItem("line_old")] },
+                    fulfillments: [
+                      {
+                        createdAt: daysAgo(10),
+                        deliveredAt: daysAgo(7),
+                        fulfillmentLineItems: { nodes: [{ lineItem: { id: "line_recent" }, quantity: 1 }] },
+                      },
+                      {
+                        createdAt: daysAgo(50),
+                        deliveredAt: null,
+                        fulfillmentLineItems: { nodes: [{ lineItem: { id: "line_old" }, quantity: 1 }] },
+                      },
+                    ],
+                  }],
+                },
+              },
+            }),
+          }),
+        },
+      });
+
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+        returnWindowDays: 30,
+        maxReturnsPerCustomer: null,
+        restockingFeePercent: 10,
+        returnShippingFee: 5,
+        feeWaivedReasons: ["defective"],
+        feeExemptCustomerTags: [],
+      });
+
+      const { action } = await import("../../app/routes/api.customer.lookup");
+
+      const request = proxyRequest("/api/customer/lookup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderNumber: "1001",
+          email: "customer@example.com",
+        }),
+      });
+
+      const response = await action({ request, params: {}, context: {} });
+      const data = await response.json() as {
+        order: {
+          lineItems: Array<{
+            id: string;
+            eligible: boolean;
+            ineligibleReason: string | null;
+            returnDeadline: string | null;
+          }>;
+        };
+        fees: unknown;
+      };
+
+      expect(response.status).toBe(200);
+      const [recent, old] = data.order.lineItems;
+      expect(recent.eligible).toBe(true);
+      expect(recent.ineligibleReason).toBeNull();
+      expect(new Date(recent.returnDeadline!).getTime()).toBeGreaterThan(Date.now());
+      expect(old.eligible).toBe(false);
+      expect(old.ineligibleReason).toMatch(/^The return window for this item ended on /);
+      expect(data.fees).toEqual({
+        restockingFeePercent: 10,
+        returnShippingFee: 5,
+        waivedReasons: ["defective"],
+        exempt: false,
+      });
+    });
+
     it("returns 400 for missing required fields", async () => {
       const { action } = await import("../../app/routes/api.customer.lookup");
 
-      const request = new Request("http://localhost/api/customer/lookup", {
+      const request = proxyRequest("/api/customer/lookup", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -121,6 +323,55 @@ describe("Customer API Integration", () => {
   });
 
   describe("POST /api/customer/returns", () => {
+    // The order as Shopify returns it: one unit of Test Product, fulfilled.
+    function shopifyOrder(overrides: Record<string, unknown> = {}) {
+      return {
+        email: "customer@example.com",
+        createdAt: new Date().toISOString(),
+        discountCodes: [],
+        customer: null,
+        lineItems: {
+          nodes: [
+            {
+              id: "gid://shopify/LineItem/1",
+              title: "Test Product",
+              originalUnitPriceSet: { shopMoney: { amount: "29.99" } },
+              product: null,
+            },
+          ],
+        },
+        fulfillments: [
+          {
+            createdAt: new Date().toISOString(),
+            deliveredAt: null,
+            fulfillmentLineItems: {
+              nodes: [{ quantity: 1, lineItem: { id: "gid://shopify/LineItem/1" } }],
+            },
+          },
+        ],
+        ...overrides,
+      };
+    }
+
+    // Answers the order lookup, plus any other query by operation name.
+    function mockShopifyOrder(order: unknown = shopifyOrder(), responses: Record<string, unknown> = {}) {
+      const graphql = vi.fn((query: string) => {
+        const operation = Object.keys(responses).find((name) => query.includes(name));
+        const data = query.includes("GetOrderEligibility")
+          ? { order }
+          : operation
+            ? responses[operation]
+            : {};
+        return Promise.resolve({ json: () => Promise.resolve({ data }) });
+      });
+      mockUnauthenticated.admin.mockResolvedValue({ admin: { graphql } });
+      return graphql;
+    }
+
+    beforeEach(() => {
+      mockShopifyOrder();
+    });
+
     it("creates a return request successfully", async () => {
       (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
         returnWindowDays: 30,
@@ -141,11 +392,10 @@ describe("Customer API Integration", () => {
 
       const { action } = await import("../../app/routes/api.customer.returns");
 
-      const request = new Request("http://localhost/api/customer/returns", {
+      const request = proxyRequest("/api/customer/returns", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          shop: "test-shop.myshopify.com",
           orderId: "gid://shopify/Order/123",
           orderName: "#1001",
           customerEmail: "customer@example.com",
@@ -170,7 +420,55 @@ describe("Customer API Integration", () => {
       expect(data.returnId).toBe("return-123");
     });
 
-    it("auto-approves when enabled and under threshold", async () => {
+    it("files the return under the signed shop, ignoring any shop in the body", async () => {
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+        returnWindowDays: 30,
+        autoApproveEnabled: false,
+        requireReason: true,
+      });
+      (db.returnRequest.create as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: "return-789",
+        status: "pending",
+      });
+
+      const { action } = await import("../../app/routes/api.customer.returns");
+
+      const request = proxyRequest(
+        "/api/customer/returns",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            shop: "victim-shop.myshopify.com",
+            orderId: "gid://shopify/Order/123",
+            orderName: "#1001",
+            customerEmail: "customer@example.com",
+            customerName: "John Doe",
+            items: [
+              {
+                lineItemId: "gid://shopify/LineItem/1",
+                title: "Test Product",
+                quantity: 1,
+                price: 29.99,
+                reason: "defective",
+              },
+            ],
+          }),
+        },
+        "signed-shop.myshopify.com"
+      );
+
+      const response = await action({ request, params: {}, context: {} });
+
+      expect(response.status).toBe(200);
+      expect(db.returnRequest.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ shop: "signed-shop.myshopify.com" }),
+        })
+      );
+    });
+
+    it("auto-approves when enabled and under threshold and routes the return", async () => {
       (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
         returnWindowDays: 30,
         autoApproveEnabled: true,
@@ -178,18 +476,20 @@ describe("Customer API Integration", () => {
         requireReason: true,
       });
 
-      (db.returnRequest.create as ReturnType<typeof vi.fn>).mockResolvedValue({
+      const created = {
         id: "return-456",
         status: "approved",
-      });
+        isReturnless: false,
+        items: [{ id: "item-1", shopifyLineItemId: "gid://shopify/LineItem/1", sku: null }],
+      };
+      (db.returnRequest.create as ReturnType<typeof vi.fn>).mockResolvedValue(created);
 
       const { action } = await import("../../app/routes/api.customer.returns");
 
-      const request = new Request("http://localhost/api/customer/returns", {
+      const request = proxyRequest("/api/customer/returns", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          shop: "test-shop.myshopify.com",
           orderId: "gid://shopify/Order/123",
           orderName: "#1001",
           customerEmail: "customer@example.com",
@@ -210,27 +510,852 @@ describe("Customer API Integration", () => {
       const data = await response.json() as { status: string };
 
       expect(data.status).toBe("approved");
+      expect(routeReturnFromOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ graphql: expect.any(Function) }),
+        created
+      );
     });
 
-    it("returns 400 for missing items", async () => {
+    it("records the customer's store credit choice and reports the bonus", async () => {
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+        returnWindowDays: 30,
+        autoApproveEnabled: false,
+        requireReason: true,
+        storeCreditEnabled: true,
+        storeCreditBonusPercent: 10,
+        exchangeEnabled: false,
+      });
+      (db.returnRequest.create as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: "return-321",
+        status: "pending",
+        totalRefundAmount: 50,
+      });
+
       const { action } = await import("../../app/routes/api.customer.returns");
 
-      const request = new Request("http://localhost/api/customer/returns", {
+      const request = proxyRequest("/api/customer/returns", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          shop: "test-shop.myshopify.com",
           orderId: "gid://shopify/Order/123",
           orderName: "#1001",
           customerEmail: "customer@example.com",
           customerName: "John Doe",
-          items: [],
+          resolution: "store_credit",
+          items: [
+            {
+              lineItemId: "gid://shopify/LineItem/1",
+              title: "Test Product",
+              quantity: 1,
+              price: 50,
+              reason: "wrong_size",
+            },
+          ],
+        }),
+      });
+
+      const response = await action({ request, params: {}, context: {} });
+      const data = await response.json() as {
+        resolution: { type: string; storeCredit: { bonusValue: number; totalValue: number } };
+      };
+
+      expect(response.status).toBe(200);
+      expect(db.returnRequest.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ requestedResolution: "store_credit" }),
+        })
+      );
+      expect(data.resolution).toEqual({
+        type: "store_credit",
+        storeCredit: { baseValue: 50, bonusValue: 5, totalValue: 55 },
+      });
+    });
+
+    it("records the second choice and holds stock for the replacement", async () => {
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+        returnWindowDays: 30,
+        autoApproveEnabled: false,
+        requireReason: true,
+        storeCreditEnabled: true,
+        storeCreditBonusPercent: 10,
+        exchangeEnabled: true,
+        exchangeReservationDays: 14,
+        exchangeReservationLocationId: null,
+      });
+      (db.returnRequest.create as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: "return-321",
+        shop: "test-shop.myshopify.com",
+        status: "pending",
+        totalRefundAmount: 50,
+      });
+      const graphql = mockShopifyOrder(shopifyOrder(), {
+        getExchangeVariants: {
+          nodes: [
+            {
+              id: "gid://shopify/ProductVariant/2",
+              title: "Large",
+              price: "52.00",
+              product: { title: "Test Product" },
+            },
+            {
+              id: "gid://shopify/ProductVariant/3",
+              title: "X-Large",
+              price: "58.00",
+              product: { title: "Test Product" },
+            },
+          ],
+        },
+      });
+
+      const { action } = await import("../../app/routes/api.customer.returns");
+
+      const request = proxyRequest("/api/customer/returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderId: "gid://shopify/Order/123",
+          orderName: "#1001",
+          customerEmail: "customer@example.com",
+          customerName: "John Doe",
+          resolution: "exchange",
+          items: [
+            {
+              lineItemId: "gid://shopify/LineItem/1",
+              title: "Test Product",
+              quantity: 1,
+              price: 50,
+              reason: "wrong_size",
+              exchangeVariantId: "gid://shopify/ProductVariant/2",
+              exchangeVariantTitle: "Large",
+              exchangePrice: 50,
+              exchangeAlternativeVariantId: "gid://shopify/ProductVariant/3",
+              exchangeAlternativeVariantTitle: "X-Large",
+              exchangeAlternativePrice: 55,
+            },
+          ],
+        }),
+      });
+
+      const response = await action({ request, params: {}, context: {} });
+
+      expect(response.status).toBe(200);
+      expect(db.returnRequest.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            // Prices come from Shopify, not the request
+            requestedExchange: [
+              {
+                variantId: "gid://shopify/ProductVariant/2",
+                quantity: 1,
+                title: "Test Product",
+                variantTitle: "Large",
+                price: 52,
+                alternative: {
+                  variantId: "gid://shopify/ProductVariant/3",
+                  variantTitle: "X-Large",
+                  price: 58,
+                },
+              },
+            ],
+          }),
+        })
+      );
+      expect(graphql).toHaveBeenCalledWith(expect.stringContaining("GetVariantStock"), {
+        variables: { variantId: "gid://shopify/ProductVariant/2" },
+      });
+    });
+
+    it("rejects replacements Shopify doesn't sell", async () => {
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+        returnWindowDays: 30,
+        requireReason: true,
+        exchangeEnabled: true,
+      });
+      mockShopifyOrder(shopifyOrder(), { getExchangeVariants: { nodes: [null] } });
+
+      const { action } = await import("../../app/routes/api.customer.returns");
+
+      const request = proxyRequest("/api/customer/returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderId: "gid://shopify/Order/123",
+          orderName: "#1001",
+          customerEmail: "customer@example.com",
+          customerName: "John Doe",
+          resolution: "exchange",
+          items: [
+            {
+              lineItemId: "gid://shopify/LineItem/1",
+              title: "Test Product",
+              quantity: 1,
+              reason: "wrong_size",
+              exchangeVariantId: "gid://shopify/ProductVariant/404",
+              exchangePrice: 1,
+            },
+          ],
+        }),
+      });
+
+      const response = await action({ request, params: {}, context: {} });
+      const data = await response.json() as { code: string };
+
+      expect(response.status).toBe(400);
+      expect(data.code).toBe("exchange_unavailable");
+      expect(db.returnRequest.create).not.toHaveBeenCalled();
+    });
+
+    it("rejects a resolution the store doesn't offer", async () => {
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+        returnWindowDays: 30,
+        autoApproveEnabled: false,
+        requireReason: true,
+        storeCreditEnabled: true,
+        storeCreditBonusPercent: 10,
+        exchangeEnabled: false,
+      });
+
+      const { action } = await import("../../app/routes/api.customer.returns");
+
+      const request = proxyRequest("/api/customer/returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderId: "gid://shopify/Order/123",
+          orderName: "#1001",
+          customerEmail: "customer@example.com",
+          customerName: "John Doe",
+          resolution: "exchange",
+          items: [
+            {
+              lineItemId: "gid://shopify/LineItem/1",
+              title: "Test Product",
+              quantity: 1,
+              price: 50,
+              reason: "wrong_size",
+              exchangeVariantId: "gid://shopify/ProductVariant/2",
+              exchangePrice: 50,
+            },
+          ],
         }),
       });
 
       const response = await action({ request, params: {}, context: {} });
+      const data = await response.json() as { code: string };
 
       expect(response.status).toBe(400);
+      expect(data.code).toBe("resolution_unavailable");
+      expect(db.returnRequest.create).not.toHaveBeenCalled();
+    });
+
+    it("rejects units that are already on another return", async () => {
+      mockShopifyOrder(
+        shopifyOrder({
+          fulfillments: [
+            {
+              createdAt: new Date().toISOString(),
+              deliveredAt: null,
+              fulfillmentLineItems: {
+                nodes: [{ quantity: 2, lineItem: { id: "gid://shopify/LineItem/1" } }],
+              },
+            },
+          ],
+        })
+      );
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+        returnWindowDays: 30,
+        requireReason: true,
+      });
+      (db.returnItem.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        { shopifyLineItemId: "gid://shopify/LineItem/1", quantity: 1 },
+      ]);
+
+      const { action } = await import("../../app/routes/api.customer.returns");
+
+      const request = proxyRequest("/api/customer/returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderId: "gid://shopify/Order/123",
+          orderName: "#1001",
+          customerEmail: "customer@example.com",
+          customerName: "John Doe",
+          items: [
+            {
+              lineItemId: "gid://shopify/LineItem/1",
+              title: "Test Product",
+              quantity: 2,
+              price: 29.99,
+              reason: "defective",
+            },
+          ],
+        }),
+      });
+
+      const response = await action({ request, params: {}, context: {} });
+      const data = await response.json() as { error: string; code: string };
+
+      expect(response.status).toBe(400);
+      expect(data).toEqual({
+        error: "Only 1 of Test Product can still be returned.",
+        code: "quantity_exceeded",
+      });
+      expect(db.returnRequest.create).not.toHaveBeenCalled();
+    });
+
+    it("prices items and keys the customer from Shopify's order, not the request", async () => {
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+        returnWindowDays: 30,
+        autoApproveEnabled: true,
+        autoApproveMaxValue: 100,
+        requireReason: true,
+      });
+      (db.returnRequest.create as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: "return-456",
+        status: "pending",
+      });
+
+      const { action } = await import("../../app/routes/api.customer.returns");
+
+      const request = proxyRequest("/api/customer/returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderId: "gid://shopify/Order/123",
+          orderName: "#1001",
+          customerEmail: " CUSTOMER@example.com",
+          customerName: "John Doe",
+          items: [
+            {
+              lineItemId: "gid://shopify/LineItem/1",
+              title: "Test Product",
+              quantity: 1,
+              price: 0.01,
+              reason: "defective",
+            },
+          ],
+        }),
+      });
+
+      const response = await action({ request, params: {}, context: {} });
+
+      expect(response.status).toBe(200);
+      expect(db.returnRequest.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            customerEmail: "customer@example.com",
+            items: { create: [expect.objectContaining({ pricePerItem: 29.99 })] },
+          }),
+        })
+      );
+      expect(routeReturnFromOrder).not.toHaveBeenCalled();
+    });
+
+    it("takes each item's variant, product and SKU from Shopify's order line", async () => {
+      mockShopifyOrder(
+        shopifyOrder({
+          lineItems: {
+            nodes: [
+              {
+                id: "gid://shopify/LineItem/1",
+                title: "Test Product",
+                sku: "TP-1",
+                originalUnitPriceSet: { shopMoney: { amount: "29.99" } },
+                variant: { id: "gid://shopify/ProductVariant/1" },
+                product: { id: "gid://shopify/Product/1", tags: [], productType: null },
+              },
+            ],
+          },
+        })
+      );
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+        returnWindowDays: 30,
+        requireReason: true,
+      });
+      (db.returnRequest.create as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: "return-456",
+        status: "pending",
+      });
+
+      const { action } = await import("../../app/routes/api.customer.returns");
+
+      const request = proxyRequest("/api/customer/returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderId: "gid://shopify/Order/123",
+          orderName: "#1001",
+          customerEmail: "customer@example.com",
+          customerName: "John Doe",
+          items: [
+            {
+              lineItemId: "gid://shopify/LineItem/1",
+              variantId: "gid://shopify/ProductVariant/999",
+              productId: "gid://shopify/Product/999",
+              sku: "GOLD-WATCH",
+              title: "Test Product",
+              quantity: 1,
+              reason: "defective",
+            },
+          ],
+        }),
+      });
+
+      const response = await action({ request, params: {}, context: {} });
+
+      expect(response.status).toBe(200);
+      expect(db.returnRequest.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            items: {
+              create: [
+                expect.objectContaining({
+                  shopifyVariantId: "gid://shopify/ProductVariant/1",
+                  shopifyProductId: "gid://shopify/Product/1",
+                  sku: "TP-1",
+                }),
+              ],
+            },
+          }),
+        })
+      );
+    });
+
+    it("rejects quantities that aren't whole numbers of at least 1", async () => {
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+        returnWindowDays: 30,
+        requireReason: true,
+      });
+
+      const { action } = await import("../../app/routes/api.customer.returns");
+
+      for (const quantity of [-1, 0.5]) {
+        const request = proxyRequest("/api/customer/returns", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            orderId: "gid://shopify/Order/123",
+            orderName: "#1001",
+            customerEmail: "customer@example.com",
+            customerName: "John Doe",
+            items: [
+              {
+                lineItemId: "gid://shopify/LineItem/1",
+                title: "Test Product",
+                quantity,
+                reason: "defective",
+              },
+            ],
+          }),
+        });
+
+        const response = await action({ request, params: {}, context: {} });
+
+        expect(response.status).toBe(400);
+      }
+      expect(db.returnRequest.create).not.toHaveBeenCalled();
+    });
+
+    it("rejects items that aren't on the order", async () => {
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+        returnWindowDays: 30,
+        requireReason: true,
+      });
+
+      const { action } = await import("../../app/routes/api.customer.returns");
+
+      const request = proxyRequest("/api/customer/returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderId: "gid://shopify/Order/123",
+          orderName: "#1001",
+          customerEmail: "customer@example.com",
+          customerName: "John Doe",
+          items: [
+            {
+              lineItemId: "gid://shopify/LineItem/99",
+              title: "Gold Watch",
+              quantity: 1,
+              price: 2000,
+              reason: "defective",
+            },
+          ],
+        }),
+      });
+
+      const response = await action({ request, params: {}, context: {} });
+      const data = await response.json() as { code: string };
+
+      expect(response.status).toBe(400);
+      expect(data.code).toBe("unknown_item");
+      expect(db.returnRequest.create).not.toHaveBeenCalled();
+    });
+
+    it("rejects orders Shopify can't find", async () => {
+      mockShopifyOrder(null);
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+        returnWindowDays: 30,
+        requireReason: true,
+      });
+
+      const { action } = await import("../../app/routes/api.customer.returns");
+
+      const request = proxyRequest("/api/customer/returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderId: "gid://shopify/Order/123",
+          orderName: "#1001",
+          customerEmail: "customer@example.com",
+          customerName: "John Doe",
+          items: [
+            {
+              lineItemId: "gid://shopify/LineItem/1",
+              title: "Test Product",
+              quantity: 1,
+              price: 29.99,
+              reason: "defective",
+            },
+          ],
+        }),
+      });
+
+      const response = await action({ request, params: {}, context: {} });
+      const data = await response.json() as { code: string };
+
+      expect(response.status).toBe(404);
+      expect(data.code).toBe("order_not_found");
+      expect(db.returnRequest.create).not.toHaveBeenCalled();
+    });
+
+    it("rejects an email that doesn't match the order", async () => {
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+        returnWindowDays: 30,
+        requireReason: true,
+      });
+
+      const { action } = await import("../../app/routes/api.customer.returns");
+
+      const request = proxyRequest("/api/customer/returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderId: "gid://shopify/Order/123",
+          orderName: "#1001",
+          customerEmail: "someone-else@example.com",
+          customerName: "John Doe",
+          items: [
+            {
+              lineItemId: "gid://shopify/LineItem/1",
+              title: "Test Product",
+              quantity: 1,
+              price: 29.99,
+              reason: "defective",
+            },
+          ],
+        }),
+      });
+
+      const response = await action({ request, params: {}, context: {} });
+
+      expect(response.status).toBe(404);
+      expect(db.returnRequest.create).not.toHaveBeenCalled();
+    });
+
+    it("rejects blocked customers with a reason the shopper can read", async () => {
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+        returnWindowDays: 30,
+        requireReason: true,
+      });
+      (db.returnBlocklistEntry.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        { type: "email", value: "customer@example.com" },
+      ]);
+
+      const { action } = await import("../../app/routes/api.customer.returns");
+
+      const request = proxyRequest("/api/customer/returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderId: "gid://shopify/Order/123",
+          orderName: "#1001",
+          customerEmail: "Customer@Example.com",
+          customerName: "John Doe",
+          items: [
+            {
+              lineItemId: "gid://shopify/LineItem/1",
+              title: "Test Product",
+              quantity: 1,
+              price: 29.99,
+              reason: "defective",
+            },
+          ],
+        }),
+      });
+
+      const response = await action({ request, params: {}, context: {} });
+      const data = await response.json() as { error: string; code: string };
+
+      expect(response.status).toBe(403);
+      expect(data.code).toBe("blocked_customer");
+      expect(data.error).toContain("contact the store");
+      expect(db.returnRequest.create).not.toHaveBeenCalled();
+    });
+
+    it("returns 400 for missing items", async () => {
+      const { action } = await import("../../app/routes/api.customer.returns");
+
+      const request = proxyRequest("/api/customer/returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderId: "gid://shopify/Order/123",
+          orderName: "#1001",
+          customerEmail: "customer@example.com",
+          customerName: "John Doe",
+          items: [],
+        }),
+      });
+
+      const response = await action({ request, params: {}, context: {} });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("POST /api/customer/dropoff", () => {
+    const postOffice = {
+      id: "po_1",
+      carrier: "USPS",
+      name: "Mission Post Office",
+      address1: "1 Mission St",
+      city: "San Francisco",
+      state: "CA",
+      zip: "94105",
+      country: "US",
+      distanceMiles: 0.4,
+      hours: null,
+    };
+
+    function dropOffRequest(email = "customer@example.com") {
+      return proxyRequest("/api/customer/dropoff", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ returnId: "return_123", email }),
+      });
+    }
+
+    beforeEach(() => {
+      setDropOffLocator(new StubDropOffLocator([postOffice]));
+      vi.mocked(db.returnRequest.findFirst).mockResolvedValue({
+        id: "return_123",
+        customerEmail: "Customer@Example.com",
+      } as never);
+    });
+
+    it("returns the label, QR code and nearby locations", async () => {
+      vi.mocked(db.shippingLabel.findFirst).mockResolvedValue({
+        carrier: "USPS",
+        labelUrl: "https://shippo.com/labels/abc.png",
+        labelPdfUrl: "https://shippo.com/labels/abc.pdf",
+        qrCodeUrl: "https://shippo.com/qr/abc.png",
+        fromAddress: { zip: "94103", country: "US" },
+      } as never);
+      const { action } = await import("../../app/routes/api.customer.dropoff");
+
+      const response = await action({ request: dropOffRequest(), params: {}, context: {} });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        carrier: "USPS",
+        labelUrl: "https://shippo.com/labels/abc.pdf",
+        qrCodeUrl: "https://shippo.com/qr/abc.png",
+        locations: [postOffice],
+      });
+      expect(db.returnRequest.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: "return_123", shop: "test-shop.myshopify.com" } })
+      );
+    });
+
+    it("returns 404 when the email doesn't match the return", async () => {
+      const { action } = await import("../../app/routes/api.customer.dropoff");
+
+      const response = await action({
+        request: dropOffRequest("someone@example.com"),
+        params: {},
+        context: {},
+      });
+
+      expect(response.status).toBe(404);
+      expect(db.shippingLabel.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("shop-now exchange endpoints", () => {
+    const graphql = vi.fn();
+
+    function exchangeRequest(path: string, body: Record<string, unknown>) {
+      return proxyRequest(`/api/customer/exchange/${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ returnId: "return_123", email: "customer@example.com", ...body }),
+      });
+    }
+
+    function graphqlResponse(data: unknown) {
+      return { json: () => Promise.resolve({ data }) };
+    }
+
+    beforeEach(() => {
+      mockUnauthenticated.admin.mockResolvedValue({ admin: { graphql } });
+      (db.shopSettings.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+        storeCreditEnabled: true,
+        storeCreditBonusPercent: 10,
+        storeCreditExpiryDays: null,
+        exchangeEnabled: true,
+        shopNowExchangeEnabled: true,
+      });
+      vi.mocked(db.returnRequest.findFirst).mockResolvedValue({
+        id: "return_123",
+        shop: "test-shop.myshopify.com",
+        customerEmail: "customer@example.com",
+        status: "pending",
+        resolutionType: null,
+        totalRefundAmount: 50,
+      } as never);
+    });
+
+    it("lists in-stock products with the return's credit", async () => {
+      graphql.mockImplementation((query: string) =>
+        Promise.resolve(
+          query.includes("getCollections")
+            ? graphqlResponse({ collections: { edges: [{ node: { id: "col_1", title: "Shoes" } }] } })
+            : graphqlResponse({
+                products: {
+                  edges: [
+                    {
+                      node: {
+                        id: "gid://shopify/Product/1",
+                        title: "Sneaker",
+                        featuredImage: null,
+                        variants: {
+                          edges: [
+                            { node: { id: "gid://shopify/ProductVariant/1", title: "9", price: "40.00", availableForSale: true } },
+                            { node: { id: "gid://shopify/ProductVariant/2", title: "10", price: "40.00", availableForSale: false } },
+                          ],
+                        },
+                      },
+                    },
+                  ],
+                  pageInfo: { hasNextPage: false, endCursor: null },
+                },
+              })
+        )
+      );
+      const { action } = await import("../../app/routes/api.customer.exchange.catalog");
+
+      const response = await action({
+        request: exchangeRequest("catalog", { search: "sneaker:*)" }),
+        params: {},
+        context: {},
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        credit: 50,
+        products: [
+          {
+            id: "gid://shopify/Product/1",
+            title: "Sneaker",
+            imageUrl: null,
+            variants: [{ id: "gid://shopify/ProductVariant/1", title: "9", price: 40 }],
+          },
+        ],
+        pageInfo: { hasNextPage: false, endCursor: null },
+        collections: [{ id: "col_1", title: "Shoes" }],
+      });
+      expect(graphql).toHaveBeenCalledWith(
+        expect.stringContaining("getProducts"),
+        expect.objectContaining({
+          variables: expect.objectContaining({
+            query:
+              "status:active AND published_status:published AND (title:*sneaker* OR product_type:*sneaker*)",
+          }),
+        })
+      );
+    });
+
+    it("refuses returns that already have a resolution", async () => {
+      vi.mocked(db.returnRequest.findFirst).mockResolvedValue({
+        id: "return_123",
+        customerEmail: "customer@example.com",
+        status: "approved",
+        resolutionType: "refund",
+        totalRefundAmount: 50,
+      } as never);
+      const { action } = await import("../../app/routes/api.customer.exchange.catalog");
+
+      const response = await action({ request: exchangeRequest("catalog", {}), params: {}, context: {} });
+
+      expect(response.status).toBe(403);
+      expect(graphql).not.toHaveBeenCalled();
+    });
+
+    it("records the cart at Shopify's prices, ignoring prices sent by the storefront", async () => {
+      graphql.mockResolvedValue(
+        graphqlResponse({
+          draftOrderCalculate: {
+            calculatedDraftOrder: {
+              lineItems: [
+                {
+                  title: "Sneaker",
+                  variantTitle: "9",
+                  quantity: 2,
+                  variant: { id: "gid://shopify/ProductVariant/1" },
+                  originalUnitPriceSet: { shopMoney: { amount: "40.00" } },
+                },
+              ],
+            },
+            userErrors: [],
+          },
+        })
+      );
+      const { action } = await import("../../app/routes/api.customer.exchange.cart");
+
+      const response = await action({
+        request: exchangeRequest("cart", {
+          intent: "create",
+          cart: [{ variantId: "gid://shopify/ProductVariant/1", quantity: 2, price: 1 }],
+        }),
+        params: {},
+        context: {},
+      });
+      const data = await response.json() as {
+        quote: { cartTotal: number; amountDue: number };
+        exchangeOrder?: unknown;
+      };
+
+      expect(response.status).toBe(200);
+      expect(data.quote).toMatchObject({ cartTotal: 80, amountDue: 30 });
+      expect(data.exchangeOrder).toBeNull();
+      expect(db.returnRequest.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            requestedResolution: "exchange",
+            requestedExchangeType: "shop_now",
+            requestedExchange: [
+              {
+                variantId: "gid://shopify/ProductVariant/1",
+                quantity: 2,
+                title: "Sneaker",
+                variantTitle: "9",
+                price: 40,
+              },
+            ],
+          }),
+        })
+      );
     });
   });
 });
@@ -4,6 +4,9 @@ vi.mock("../app/shopify.server", () => ({
   authenticate: {
     webhook: vi.fn(),
   },
+  unauthenticated: {
+    admin: vi.fn(),
+  },
 }));
 
 vi.mock("../app/db.server", () => ({
@@ -14,29 +17,77 @@ vi.mock("../app/db.server", () => ({
     returnRequest: {
       findFirst: vi.fn(),
       create: vi.fn(),
-      updateMany: vi.fn(),
+    },
+    returnItem: {
+      findMany: vi.fn(() => Promise.resolve([])),
+    },
+    shopSettings: {
+      findUnique: vi.fn(() =>
+        Promise.resolve({
+          returnWindowDays: 30,
+          autoApproveEnabled: false,
+          autoApproveMaxValue: null,
+          requirePhotos: false,
+          requireReason: true,
+        })
+      ),
     },
   },
 }));
 
-vi.mock("../app/services/returns.server", () => ({
-  getShopSettings: vi.fn(() =>
-    Promise.resolve({
-      returnWindowDays: 30,
-      autoApproveEnabled: false,
-      autoApproveMaxValue: null,
-      requirePhotos: false,
-      requireReason: true,
-    })
+vi.mock("../app/services/return-lifecycle.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../app/services/return-lifecycle.server")>()),
+  transitionOrderReturns: vi.fn(() => Promise.resolve(1)),
+}));
+
+vi.mock("../app/services/tracking.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../app/services/tracking.server")>()),
+  recordTrackingUpdate: vi.fn(() => Promise.resolve({ matched: true })),
+}));
+
+vi.mock("../app/services/risk.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../app/services/risk.server")>()),
+  assessReturnRisk: vi.fn(() =>
+    Promise.resolve({ score: 0, level: "low", factors: [], flaggedForReview: false })
   ),
+  fetchCustomerOrderCount: vi.fn(),
+}));
+
+vi.mock("../app/services/exchange-orders.server", () => ({
+  recordDraftOrderUpdate: vi.fn(() => Promise.resolve("return_123")),
+  recordExchangeOrderPaid: vi.fn(() => Promise.resolve("return_123")),
+  recordExchangeOrderCancelled: vi.fn(() => Promise.resolve(null)),
+}));
+
+vi.mock("../app/services/instant-exchange.server", () => ({
+  recordExchangeHoldPaid: vi.fn(() => Promise.resolve(null)),
+}));
+
+vi.mock("../app/services/notifications.server", () => ({
+  sendReturnlessRefund: vi.fn(),
 }));
 
 import { authenticate } from "../app/shopify.server";
 import db from "../app/db.server";
-import { getShopSettings } from "../app/services/returns.server";
+import { sendReturnlessRefund } from "../app/services/notifications.server";
+import { assessReturnRisk } from "../app/services/risk.server";
+import { transitionOrderReturns } from "../app/services/return-lifecycle.server";
+import {
+  recordDraftOrderUpdate,
+  recordExchangeOrderCancelled,
+  recordExchangeOrderPaid,
+} from "../app/services/exchange-orders.server";
+import { recordExchangeHoldPaid } from "../app/services/instant-exchange.server";
+import {
+  calculateEasyPostSignature,
+  recordTrackingUpdate,
+} from "../app/services/tracking.server";
+import shippoDelivered from "./fixtures/tracking/shippo-track-delivered.json";
+import easypostDelivered from "./fixtures/tracking/easypost-tracker-updated.json";
 
 const mockWebhook = authenticate.webhook as ReturnType<typeof vi.fn>;
-const mockGetShopSettings = getShopSettings as ReturnType<typeof vi.fn>;
+const mockShopSettings = db.shopSettings.findUnique as ReturnType<typeof vi.fn>;
+const mockAssessReturnRisk = assessReturnRisk as ReturnType<typeof vi.fn>;
 
 function createMockRequest(method = "POST"): Request {
   return new Request("http://localhost/webhooks/test", {
@@ -130,7 +181,7 @@ describe("Webhook Handlers", () => {
     });
 
     it("auto-approves when settings allow", async () => {
-      mockGetShopSettings.mockResolvedValue({
+      mockShopSettings.mockResolvedValue({
         returnWindowDays: 30,
         autoApproveEnabled: true,
         autoApproveMaxValue: 100,
@@ -186,6 +237,257 @@ describe("Webhook Handlers", () => {
       );
     });
 
+    it("marks low-value returns as returnless and emails the customer", async () => {
+      mockShopSettings.mockResolvedValue({
+        autoApproveEnabled: false,
+        autoApproveMaxValue: null,
+        returnlessEnabled: true,
+        returnlessThreshold: 15,
+        returnlessReasons: ["wrong_size"],
+        returnlessMaxPerCustomer: null,
+        returnlessPeriodDays: 30,
+      });
+
+      mockWebhook.mockResolvedValue({
+        shop: "test-shop.myshopify.com",
+        topic: "returns/request",
+        payload: {
+          id: 111,
+          admin_graphql_api_id: "gid://shopify/Return/111",
+          order: {
+            id: 222,
+            admin_graphql_api_id: "gid://shopify/Order/222",
+            name: "#1001",
+          },
+          return_line_items: [
+            {
+              id: 1,
+              return_reason: "SIZE_TOO_SMALL",
+              return_reason_note: null,
+              fulfillment_line_item: {
+                id: 1,
+                line_item: {
+                  id: 1,
+                  name: "Socks",
+                  quantity: 1,
+                  price: "6.00",
+                },
+              },
+            },
+          ],
+          status: "REQUESTED",
+          customer_email: "customer@example.com",
+        },
+      });
+
+      (db.returnRequest.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+      (db.returnRequest.create as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: "new-return",
+        isReturnless: true,
+        items: [],
+      });
+
+      const { action } = await import("../app/routes/webhooks.returns.request");
+      await action({ request: createMockRequest(), params: {}, context: {} });
+
+      expect(db.returnRequest.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: "approved",
+            isReturnless: true,
+          }),
+        })
+      );
+      expect(sendReturnlessRefund).toHaveBeenCalledWith(
+        expect.objectContaining({ shopName: "test-shop.myshopify.com" })
+      );
+    });
+
+    it("holds high-risk returns for review even when auto-approve is on", async () => {
+      mockShopSettings.mockResolvedValue({
+        autoApproveEnabled: true,
+        autoApproveMaxValue: null,
+        autoApproveMaxRiskLevel: "medium",
+        returnlessEnabled: false,
+      });
+      mockAssessReturnRisk.mockResolvedValue({
+        score: 70,
+        level: "high",
+        factors: [{ code: "repeat_product", label: "Returned the same product before", points: 20 }],
+        flaggedForReview: true,
+      });
+
+      mockWebhook.mockResolvedValue({
+        shop: "test-shop.myshopify.com",
+        topic: "returns/request",
+        payload: {
+          id: 111,
+          admin_graphql_api_id: "gid://shopify/Return/111",
+          order: {
+            id: 222,
+            admin_graphql_api_id: "gid://shopify/Order/222",
+            name: "#1001",
+          },
+          return_line_items: [],
+          status: "REQUESTED",
+          customer_email: "customer@example.com",
+        },
+      });
+
+      (db.returnRequest.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+      (db.returnRequest.create as ReturnType<typeof vi.fn>).mockResolvedValue({ id: "new-return" });
+
+      const { action } = await import("../app/routes/webhooks.returns.request");
+      await action({ request: createMockRequest(), params: {}, context: {} });
+
+      expect(db.returnRequest.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: "pending",
+            approvedAt: null,
+            riskScore: 70,
+            flaggedForReview: true,
+          }),
+        })
+      );
+    });
+
+    it("creates a second return on the same order and flags units already returned", async () => {
+      mockShopSettings.mockResolvedValue({
+        autoApproveEnabled: true,
+        autoApproveMaxValue: null,
+        autoApproveMaxRiskLevel: "medium",
+      });
+
+      mockWebhook.mockResolvedValue({
+        shop: "test-shop.myshopify.com",
+        topic: "returns/request",
+        payload: {
+          id: 112,
+          admin_graphql_api_id: "gid://shopify/Return/112",
+          order: {
+            id: 222,
+            admin_graphql_api_id: "gid://shopify/Order/222",
+            name: "#1001",
+          },
+          return_line_items: [
+            {
+              id: 2,
+              quantity: 1,
+              return_reason: "SIZE_TOO_SMALL",
+              return_reason_note: null,
+              fulfillment_line_item: {
+                id: 1,
+                line_item: {
+                  id: 1,
+                  admin_graphql_api_id: "gid://shopify/LineItem/1",
+                  name: "Test Product",
+                  quantity: 2,
+                  price: "29.99",
+                },
+              },
+            },
+          ],
+          status: "REQUESTED",
+          customer_email: "customer@example.com",
+        },
+      });
+
+      (db.returnRequest.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+      (db.returnItem.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        { shopifyLineItemId: "gid://shopify/LineItem/1", quantity: 2 },
+      ]);
+      (db.returnRequest.create as ReturnType<typeof vi.fn>).mockResolvedValue({ id: "new-return" });
+
+      const { action } = await import("../app/routes/webhooks.returns.request");
+      await action({ request: createMockRequest(), params: {}, context: {} });
+
+      expect(db.returnRequest.findFirst).toHaveBeenCalledWith({
+        where: { shop: "test-shop.myshopify.com", shopifyReturnId: "gid://shopify/Return/112" },
+      });
+      const createCall = (db.returnRequest.create as ReturnType<typeof vi.fn>).mock.calls[0][0];
+      expect(createCall.data).toMatchObject({
+        shopifyReturnId: "gid://shopify/Return/112",
+        status: "pending",
+        flaggedForReview: true,
+        totalRefundAmount: 29.99,
+        events: { create: [expect.objectContaining({ actor: "shopify" })] },
+      });
+      expect(createCall.data.items.create).toEqual([
+        expect.objectContaining({ shopifyLineItemId: "gid://shopify/LineItem/1", quantity: 1 }),
+      ]);
+    });
+
+    it("charges the shop's return fees unless the customer's tags exempt them", async () => {
+      mockShopSettings.mockResolvedValue({
+        autoApproveEnabled: false,
+        autoApproveMaxValue: null,
+        returnlessEnabled: false,
+        restockingFeePercent: 10,
+        returnShippingFee: 5,
+        feeWaivedReasons: [],
+        feeExemptCustomerTags: ["vip"],
+      });
+      const payload = {
+        id: 113,
+        admin_graphql_api_id: "gid://shopify/Return/113",
+        order: { id: 222, admin_graphql_api_id: "gid://shopify/Order/222", name: "#1001" },
+        return_line_items: [
+          {
+            id: 3,
+            return_reason: "SIZE_TOO_SMALL",
+            return_reason_note: null,
+            fulfillment_line_item: {
+              id: 1,
+              line_item: { id: 1, name: "Test Product", quantity: 1, price: "30.00" },
+            },
+          },
+        ],
+        status: "REQUESTED",
+        customer_email: "customer@example.com",
+      };
+      const admin = {
+        graphql: vi.fn().mockResolvedValue({
+          json: () =>
+            Promise.resolve({
+              data: {
+                order: {
+                  email: "customer@example.com",
+                  discountCodes: [],
+                  customer: { id: "gid://shopify/Customer/1", tags: ["vip"] },
+                  lineItems: { nodes: [] },
+                  fulfillments: [],
+                },
+              },
+            }),
+        }),
+      };
+      (db.returnRequest.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+      (db.returnRequest.create as ReturnType<typeof vi.fn>).mockResolvedValue({ id: "new-return" });
+      const { action } = await import("../app/routes/webhooks.returns.request");
+
+      mockWebhook.mockResolvedValue({ shop: "test-shop.myshopify.com", topic: "returns/request", payload });
+      await action({ request: createMockRequest(), params: {}, context: {} });
+      mockWebhook.mockResolvedValue({
+        shop: "test-shop.myshopify.com",
+        topic: "returns/request",
+        payload,
+        admin,
+      });
+      await action({ request: createMockRequest(), params: {}, context: {} });
+
+      const [charged, exempt] = (db.returnRequest.create as ReturnType<typeof vi.fn>).mock.calls.map(
+        (call) => call[0].data
+      );
+      expect(charged).toMatchObject({ restockingFee: 3, returnShippingFee: 5, totalRefundAmount: 22 });
+      expect(exempt).toMatchObject({
+        restockingFee: 0,
+        returnShippingFee: 0,
+        totalRefundAmount: 30,
+        feeWaiver: "Free returns for customers tagged vip",
+      });
+    });
+
     it("skips creation when return already exists", async () => {
       mockWebhook.mockResolvedValue({
         shop: "test-shop.myshopify.com",
@@ -230,23 +532,17 @@ describe("Webhook Handlers", () => {
         },
       });
 
-      (db.returnRequest.updateMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 1 });
-
       const { action } = await import("../app/routes/webhooks.returns.approve");
       const response = await action({ request: createMockRequest(), params: {}, context: {} });
 
       expect(response).toBeInstanceOf(Response);
-      expect(db.returnRequest.updateMany).toHaveBeenCalledWith({
-        where: {
-          shop: "test-shop.myshopify.com",
-          shopifyOrderId: "gid://shopify/Order/222",
-          status: "pending",
-        },
-        data: {
-          status: "approved",
-          approvedAt: expect.any(Date),
-        },
-      });
+      expect(transitionOrderReturns).toHaveBeenCalledWith(
+        "test-shop.myshopify.com",
+        { shopifyReturnId: "gid://shopify/Return/111", shopifyOrderId: "gid://shopify/Order/222" },
+        "approved",
+        { type: "shopify" },
+        { reason: "Approved in Shopify", data: { approvedAt: expect.any(Date) } }
+      );
     });
   });
 
@@ -268,23 +564,17 @@ describe("Webhook Handlers", () => {
         },
       });
 
-      (db.returnRequest.updateMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 1 });
-
       const { action } = await import("../app/routes/webhooks.returns.decline");
       const response = await action({ request: createMockRequest(), params: {}, context: {} });
 
       expect(response).toBeInstanceOf(Response);
-      expect(db.returnRequest.updateMany).toHaveBeenCalledWith({
-        where: {
-          shop: "test-shop.myshopify.com",
-          shopifyOrderId: "gid://shopify/Order/222",
-          status: { in: ["pending", "approved"] },
-        },
-        data: {
-          status: "declined",
-          merchantNotes: "Item was used",
-        },
-      });
+      expect(transitionOrderReturns).toHaveBeenCalledWith(
+        "test-shop.myshopify.com",
+        { shopifyReturnId: "gid://shopify/Return/111", shopifyOrderId: "gid://shopify/Order/222" },
+        "declined",
+        { type: "shopify" },
+        { reason: "Item was used", data: { merchantNotes: "Item was used" } }
+      );
     });
   });
 
@@ -305,22 +595,201 @@ describe("Webhook Handlers", () => {
         },
       });
 
-      (db.returnRequest.updateMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 1 });
-
       const { action } = await import("../app/routes/webhooks.returns.close");
       const response = await action({ request: createMockRequest(), params: {}, context: {} });
 
       expect(response).toBeInstanceOf(Response);
-      expect(db.returnRequest.updateMany).toHaveBeenCalledWith({
-        where: {
-          shop: "test-shop.myshopify.com",
-          shopifyOrderId: "gid://shopify/Order/222",
-        },
-        data: {
-          status: "completed",
-          completedAt: expect.any(Date),
-        },
+      expect(transitionOrderReturns).toHaveBeenCalledWith(
+        "test-shop.myshopify.com",
+        { shopifyReturnId: "gid://shopify/Return/111", shopifyOrderId: "gid://shopify/Order/222" },
+        "completed",
+        { type: "shopify" },
+        { reason: "Closed in Shopify", data: { completedAt: expect.any(Date) } }
+      );
+    });
+  });
+
+  describe("exchange order webhooks", () => {
+    const admin = { graphql: vi.fn() };
+
+    it("passes draft order updates on with the shop's admin client", async () => {
+      const payload = {
+        id: 1,
+        admin_graphql_api_id: "gid://shopify/DraftOrder/1",
+        status: "completed",
+        order_id: 2,
+        tags: "exchange, return:return_123",
+      };
+      mockWebhook.mockResolvedValue({
+        shop: "test-shop.myshopify.com",
+        topic: "draft_orders/update",
+        payload,
+        admin,
       });
+
+      const { action } = await import("../app/routes/webhooks.draft_orders.update");
+      const response = await action({ request: createMockRequest(), params: {}, context: {} });
+
+      expect(response).toBeInstanceOf(Response);
+      expect(recordDraftOrderUpdate).toHaveBeenCalledWith(admin, "test-shop.myshopify.com", payload);
+    });
+
+    it("records paid and cancelled orders", async () => {
+      const payload = {
+        id: 2,
+        admin_graphql_api_id: "gid://shopify/Order/2",
+        financial_status: "paid",
+        tags: "exchange, return:return_123",
+      };
+      mockWebhook.mockResolvedValue({
+        shop: "test-shop.myshopify.com",
+        topic: "orders/paid",
+        payload,
+        admin,
+      });
+
+      const paid = await import("../app/routes/webhooks.orders.paid");
+      await paid.action({ request: createMockRequest(), params: {}, context: {} });
+
+      mockWebhook.mockResolvedValue({
+        shop: "test-shop.myshopify.com",
+        topic: "orders/cancelled",
+        payload,
+      });
+
+      const cancelled = await import("../app/routes/webhooks.orders.cancelled");
+      const response = await cancelled.action({ request: createMockRequest(), params: {}, context: {} });
+
+      expect(response).toBeInstanceOf(Response);
+      expect(recordExchangeOrderPaid).toHaveBeenCalledWith(admin, "test-shop.myshopify.com", payload);
+      expect(recordExchangeHoldPaid).toHaveBeenCalledWith("test-shop.myshopify.com", payload);
+      expect(recordExchangeOrderCancelled).toHaveBeenCalledWith(
+        undefined,
+        "test-shop.myshopify.com",
+        payload
+      );
+    });
+  });
+
+  describe("Shippo tracking webhook", () => {
+    beforeEach(() => {
+      mockShopSettings.mockResolvedValue({ shippoWebhookToken: "shippo-token" });
+    });
+
+    function shippoRequest(token: string, body: unknown, shop = "test-shop.myshopify.com") {
+      return new Request(`http://localhost/webhooks/tracking/shippo?shop=${shop}&token=${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+    }
+
+    it("rejects requests without the shop's token", async () => {
+      const { action } = await import("../app/routes/webhooks.tracking.shippo");
+      const response = await action({
+        request: shippoRequest("wrong", shippoDelivered),
+        params: {},
+        context: {},
+      });
+
+      expect(response.status).toBe(401);
+      expect(db.shopSettings.findUnique).toHaveBeenCalledWith({
+        where: { shop: "test-shop.myshopify.com" },
+        select: { shippoWebhookToken: true, easypostWebhookSecret: true },
+      });
+
+      mockShopSettings.mockResolvedValue(null);
+      const unknownShop = await action({
+        request: shippoRequest("shippo-token", shippoDelivered, "other-shop.myshopify.com"),
+        params: {},
+        context: {},
+      });
+
+      expect(unknownShop.status).toBe(401);
+      expect(recordTrackingUpdate).not.toHaveBeenCalled();
+    });
+
+    it("records the recorded delivery payload", async () => {
+      const { action } = await import("../app/routes/webhooks.tracking.shippo");
+      const response = await action({
+        request: shippoRequest("shippo-token", shippoDelivered),
+        params: {},
+        context: {},
+      });
+
+      expect(response.status).toBe(200);
+      expect(recordTrackingUpdate).toHaveBeenCalledWith(
+        "test-shop.myshopify.com",
+        expect.objectContaining({
+          trackingNumber: "9400111899223456789012",
+          carrier: "usps",
+          status: "delivered",
+          checkpoints: expect.arrayContaining([
+            expect.objectContaining({ status: "out_for_delivery" }),
+          ]),
+        }),
+        { getAdmin: expect.any(Function) }
+      );
+    });
+
+    it("acknowledges other events without recording them", async () => {
+      const { action } = await import("../app/routes/webhooks.tracking.shippo");
+      const response = await action({
+        request: shippoRequest("shippo-token", { event: "transaction_created", data: {} }),
+        params: {},
+        context: {},
+      });
+
+      expect(response.status).toBe(200);
+      expect(recordTrackingUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("EasyPost tracking webhook", () => {
+    beforeEach(() => {
+      mockShopSettings.mockResolvedValue({ easypostWebhookSecret: "easypost-secret" });
+    });
+
+    function easypostRequest(body: string, signature: string) {
+      return new Request("http://localhost/webhooks/tracking/easypost?shop=test-shop.myshopify.com", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Hmac-Signature": signature },
+        body,
+      });
+    }
+
+    it("rejects requests with a bad signature", async () => {
+      const body = JSON.stringify(easypostDelivered);
+      const { action } = await import("../app/routes/webhooks.tracking.easypost");
+      const response = await action({
+        request: easypostRequest(body, calculateEasyPostSignature(body, "other-secret")),
+        params: {},
+        context: {},
+      });
+
+      expect(response.status).toBe(401);
+      expect(recordTrackingUpdate).not.toHaveBeenCalled();
+    });
+
+    it("records the recorded tracker event", async () => {
+      const body = JSON.stringify(easypostDelivered);
+      const { action } = await import("../app/routes/webhooks.tracking.easypost");
+      const response = await action({
+        request: easypostRequest(body, calculateEasyPostSignature(body, "easypost-secret")),
+        params: {},
+        context: {},
+      });
+
+      expect(response.status).toBe(200);
+      expect(recordTrackingUpdate).toHaveBeenCalledWith(
+        "test-shop.myshopify.com",
+        expect.objectContaining({
+          trackingNumber: "1Z999AA10123456784",
+          carrier: "UPS",
+          status: "delivered",
+        }),
+        { getAdmin: expect.any(Function) }
+      );
     });
   });
 });